@@ -1,19 +1,36 @@
+import { AppliedChangeset } from './lib/extension/changeTracking/appliedChangeset';
+import { AppliedChangesetDao } from './lib/extension/changeTracking/appliedChangesetDao';
+import { AsyncIteration } from './lib/db/asyncIteration';
 import { BoundingBox } from './lib/boundingBox';
+import { ChangeOperation } from './lib/extension/changeTracking/changeOperation';
+import { ChangeTrackingExtension } from './lib/extension/changeTracking';
+import { ChangesetApplier } from './lib/io/changeset/changesetApplier';
+import { ChangesetConflictPolicy, ChangesetConflictReason } from './lib/io/changeset/changeset';
+import { ChangesetExporter } from './lib/io/changeset/changesetExporter';
+import { ChangesetId } from './lib/extension/changeTracking/changesetId';
+import { ChangesetIdDao } from './lib/extension/changeTracking/changesetIdDao';
 import { ClosestFeature, GeoPackage } from './lib/geoPackage';
 import { ContentsDao } from './lib/core/contents/contentsDao';
 import { ContentsIdDao } from './lib/extension/contents/contentsIdDao';
 import { Constraint } from './lib/db/table/constraint';
 import { Constraints } from './lib/db/table/constraints';
 import { ConstraintType } from './lib/db/table/constraintType';
+import { CircularString } from './lib/geom/extended/circularString';
+import { CompoundCurve } from './lib/geom/extended/compoundCurve';
 import { CrsWktExtension } from './lib/extension/crsWkt';
+import { CurvePolygon } from './lib/geom/extended/curvePolygon';
 import { DataColumnConstraints } from './lib/dataColumnConstraints/dataColumnConstraints';
 import { DataColumnConstraintsDao } from './lib/dataColumnConstraints/dataColumnConstraintsDao';
 import { DataColumns } from './lib/dataColumns/dataColumns';
 import { GeoPackageDataType } from './lib/db/geoPackageDataType';
+import { GeoPackageDiff } from './lib/diff/geoPackageDiff';
 import { DataColumnsDao } from './lib/dataColumns/dataColumnsDao';
+import { DiffType } from './lib/diff/geoPackageDiffReport';
 import { DublinCoreMetadata } from './lib/extension/relatedTables/dublinCoreMetadata';
 import { DublinCoreType } from './lib/extension/relatedTables/dublinCoreType';
 import { Extension } from './lib/extension/extension';
+import { ExtendedGeometry } from './lib/geom/extended/extendedGeometry';
+import { ExtendedGeometryReader } from './lib/geom/extended/extendedGeometryReader';
 import { FeatureColumn } from './lib/features/user/featureColumn';
 import { FeatureDrawType } from './lib/tiles/features/featureDrawType';
 import { FeaturePaint } from './lib/tiles/features/featurePaint';
@@ -25,54 +42,98 @@ import { FeatureTableIndex } from './lib/extension/index/featureTableIndex';
 import { FeatureTableReader } from './lib/features/user/featureTableReader';
 import { FeatureTableStyles } from './lib/extension/style/featureTableStyles';
 import { FeatureTiles } from './lib/tiles/features';
+import { FeatureVectorTiles, VectorTileGeometryType } from './lib/tiles/features/featureVectorTiles';
+import { FlatGeobufExporter } from './lib/io/flatgeobuf/flatGeobufExporter';
+import { FlatGeobufImporter } from './lib/io/flatgeobuf/flatGeobufImporter';
+import { FlatGeobufReader } from './lib/io/flatgeobuf/flatGeobufReader';
+import { FlatGeobufWriter } from './lib/io/flatgeobuf/flatGeobufWriter';
+import { FullTextSearchExtension } from './lib/extension/fullTextSearch';
 import { GeometryColumns } from './lib/features/columns/geometryColumns';
 import { GeometryColumnsDao } from './lib/features/columns/geometryColumnsDao';
 import { GeometryData } from './lib/geom/geometryData';
+import { GeometryExtensions } from './lib/extension/geometry';
 import { GeometryType } from './lib/features/user/geometryType';
 import { GeoPackageAPI } from './lib/api';
 import { GeoPackageConnection } from './lib/db/geoPackageConnection';
+import { GeoJSONExporter } from './lib/io/geojson/geoJSONExporter';
+import { GeoJSONFeatureReader } from './lib/io/geojson/geoJSONFeatureReader';
+import { GeoJSONImporter } from './lib/io/geojson/geoJSONImporter';
+import { GeoJSONMeasures } from './lib/geom/geoJSONMeasures';
+import { GeoJSONSchema } from './lib/io/geojson/geoJSONSchema';
+import { KmlExporter } from './lib/io/kml/kmlExporter';
+import { KmlImporter } from './lib/io/kml/kmlImporter';
+import { KmlReader } from './lib/io/kml/kmlReader';
+import { XmlElementReader } from './lib/io/xml/xmlElementReader';
 import { GeoPackageTileRetriever } from './lib/tiles/retriever';
 import { GeoPackageValidate } from './lib/validate/geoPackageValidate';
+import { GpxImporter } from './lib/io/gpx/gpxImporter';
+import { GpxReader } from './lib/io/gpx/gpxReader';
 import { IconCache } from './lib/extension/style/iconCache';
 import { Icons } from './lib/extension/style/icons';
 import { IconTable } from './lib/extension/style/iconTable';
 import { ImageUtils } from './lib/tiles/imageUtils';
+import { MBTilesExporter } from './lib/io/mbtiles/mbtilesExporter';
+import { MBTilesImporter } from './lib/io/mbtiles/mbtilesImporter';
 import { MediaTable } from './lib/extension/relatedTables/mediaTable';
 import { Metadata } from './lib/metadata/metadata';
 import { MetadataDao } from './lib/metadata/metadataDao';
 import { MetadataExtension } from './lib/extension/metadata';
 import { MetadataReference } from './lib/metadata/reference/metadataReference';
+import { MultiCurve } from './lib/geom/extended/multiCurve';
+import { MultiSurface } from './lib/geom/extended/multiSurface';
 import { NumberFeaturesTile } from './lib/tiles/features/custom/numberFeaturesTile';
 import { OptionBuilder } from './lib/optionBuilder';
 import { Paint } from './lib/tiles/features/paint';
+import { PlanarGeometry } from './lib/geom/planarGeometry';
+import { PolyhedralSurface } from './lib/geom/extended/polyhedralSurface';
 import { Projection } from './lib/projection/projection';
 import { ProjectionConstants } from './lib/projection/projectionConstants';
 import { RelatedTablesExtension } from './lib/extension/relatedTables';
 import { RTreeIndex } from './lib/extension/rtree/rtreeIndex';
 import { RTreeIndexDao } from './lib/extension/rtree/rtreeIndexDao';
+import { ShapefileExporter } from './lib/io/shapefile/shapefileExporter';
+import { ShapefileImporter } from './lib/io/shapefile/shapefileImporter';
+import { ShapefileReader } from './lib/io/shapefile/shapefileReader';
+import { ShapefileWriter } from './lib/io/shapefile/shapefileWriter';
+import { DbfReader } from './lib/io/shapefile/dbfReader';
+import { DbfWriter } from './lib/io/shapefile/dbfWriter';
 import { SchemaExtension } from './lib/extension/schema';
 import { ShadedFeaturesTile } from './lib/tiles/features/custom/shadedFeaturesTile';
 import { SimpleAttributesTable } from './lib/extension/relatedTables/simpleAttributesTable';
+import { SpatialFunctions } from './lib/db/spatialFunctions';
 import { SpatialReferenceSystem } from './lib/core/srs/spatialReferenceSystem';
 import { SqliteQueryBuilder } from './lib/db/sqliteQueryBuilder';
 import { StyleMappingTable } from './lib/extension/style/styleMappingTable';
 import { Styles } from './lib/extension/style/styles';
 import { StyleTable } from './lib/extension/style/styleTable';
+import { TableChange } from './lib/extension/changeTracking/tableChange';
+import { TableChangeDao } from './lib/extension/changeTracking/tableChangeDao';
 import { TableCreator } from './lib/db/tableCreator';
 import { TileBoundingBoxUtils } from './lib/tiles/tileBoundingBoxUtils';
 import { TileColumn } from './lib/tiles/user/tileColumn';
+import { TileDirectoryExporter } from './lib/io/tiledirectory/tileDirectoryExporter';
+import { TileDirectoryImporter, TileScheme } from './lib/io/tiledirectory/tileDirectoryImporter';
 import { TileMatrix } from './lib/tiles/matrix/tileMatrix';
 import { TileMatrixSet } from './lib/tiles/matrixset/tileMatrixSet';
 import { TileScaling } from './lib/extension/scale/tileScaling';
 import { TileScalingType } from './lib/extension/scale/tileScalingType';
 import { TileTable } from './lib/tiles/user/tileTable';
 import { TileUtilities } from './lib/tiles/creator/tileUtilities';
+import { Tin } from './lib/geom/extended/tin';
+import { Triangle } from './lib/geom/extended/triangle';
 import { UserColumn } from './lib/user/userColumn';
 import { UserDao } from './lib/user/userDao';
 import { UserMappingTable } from './lib/extension/relatedTables/userMappingTable';
+import { UserQuery } from './lib/user/userQuery';
 import { UserRow } from './lib/user/userRow';
 import { UserTable } from './lib/user/userTable';
 import { UserTableReader } from './lib/user/userTableReader';
+import { VectorTilesExtension } from './lib/extension/vectorTiles';
+import { VectorTileEncoding } from './lib/extension/vectorTiles/vectorTileEncoding';
+import { VectorTileFieldType } from './lib/extension/vectorTiles/vectorTileFieldType';
+import { VectorTileLayer } from './lib/extension/vectorTiles/vectorTileLayer';
+import { VectorTileField } from './lib/extension/vectorTiles/vectorTileField';
+import { MvtReader } from './lib/tiles/vector/mvtReader';
 import { WebPExtension } from './lib/extension/webp';
 import { WKB } from './lib/wkb';
 import { DBAdapter } from './lib/db/dbAdapter';
@@ -92,10 +153,21 @@ const setSqljsWasmLocateFile = SqljsAdapter.setSqljsWasmLocateFile;
 const setCanvasKitWasmLocateFile = CanvasKitCanvasAdapter.setCanvasKitWasmLocateFile;
 
 export {
+  AppliedChangeset,
+  AppliedChangesetDao,
+  AsyncIteration,
   BoundingBox,
   Canvas,
   CanvasAdapter,
   CanvasKitCanvasAdapter,
+  ChangeOperation,
+  ChangeTrackingExtension,
+  ChangesetApplier,
+  ChangesetConflictPolicy,
+  ChangesetConflictReason,
+  ChangesetExporter,
+  ChangesetId,
+  ChangesetIdDao,
   ClosestFeature,
   ContentsDao,
   ContentsIdDao,
@@ -103,15 +175,23 @@ export {
   Constraints,
   ConstraintType,
   Context,
+  CircularString,
+  CompoundCurve,
   CrsWktExtension,
+  CurvePolygon,
   DataColumnConstraints,
   DataColumnConstraintsDao,
   DataColumns,
   DataColumnsDao,
+  DbfReader,
+  DbfWriter,
   DBAdapter,
+  DiffType,
   DublinCoreMetadata,
   DublinCoreType,
   Extension,
+  ExtendedGeometry,
+  ExtendedGeometryReader,
   FeatureColumn,
   FeatureDrawType,
   FeaturePaint,
@@ -123,30 +203,55 @@ export {
   FeatureTableReader,
   FeatureTableStyles,
   FeatureTiles,
+  FeatureVectorTiles,
+  FlatGeobufExporter,
+  FlatGeobufImporter,
+  FlatGeobufReader,
+  FlatGeobufWriter,
+  FullTextSearchExtension,
   GeometryType,
   GeometryColumns,
   GeometryColumnsDao,
   GeometryData,
+  GeometryExtensions,
+  GeoJSONExporter,
+  GeoJSONFeatureReader,
+  GeoJSONImporter,
+  GeoJSONMeasures,
+  GeoJSONSchema,
   GeoPackage,
   GeoPackageAPI,
   GeoPackageConnection,
   GeoPackageDataType,
+  GeoPackageDiff,
   GeoPackageTileRetriever,
   GeoPackageValidate,
+  GpxImporter,
+  GpxReader,
   HtmlCanvasAdapter,
   IconCache,
   Icons,
   IconTable,
   ImageUtils,
+  KmlExporter,
+  KmlImporter,
+  KmlReader,
+  MBTilesExporter,
+  MBTilesImporter,
   MediaTable,
   Metadata,
   MetadataDao,
   MetadataExtension,
   MetadataReference,
+  MultiCurve,
+  MultiSurface,
+  MvtReader,
   NumberFeaturesTile,
   OffscreenCanvasAdapter,
   OptionBuilder,
   Paint,
+  PlanarGeometry,
+  PolyhedralSurface,
   Projection,
   ProjectionConstants,
   RelatedTablesExtension,
@@ -156,7 +261,12 @@ export {
   setSqljsWasmLocateFile,
   SchemaExtension,
   ShadedFeaturesTile,
+  ShapefileExporter,
+  ShapefileImporter,
+  ShapefileReader,
+  ShapefileWriter,
   SimpleAttributesTable,
+  SpatialFunctions,
   SpatialReferenceSystem,
   SqliteAdapter,
   SqliteQueryBuilder,
@@ -164,22 +274,37 @@ export {
   SqljsAdapter,
   Styles,
   StyleTable,
+  TableChange,
+  TableChangeDao,
   TableCreator,
   TileCreator,
   TileBoundingBoxUtils,
   TileColumn,
+  TileDirectoryExporter,
+  TileDirectoryImporter,
   TileMatrix,
   TileMatrixSet,
   TileScaling,
   TileScalingType,
+  TileScheme,
   TileTable,
   TileUtilities,
+  Tin,
+  Triangle,
   UserColumn,
   UserDao,
   UserMappingTable,
+  UserQuery,
   UserRow,
   UserTable,
   UserTableReader,
+  VectorTileEncoding,
+  VectorTileField,
+  VectorTileFieldType,
+  VectorTileGeometryType,
+  VectorTileLayer,
+  VectorTilesExtension,
   WebPExtension,
   WKB,
+  XmlElementReader,
 };
@@ -196,6 +196,7 @@ export class ContentsDao extends Dao<Contents> {
             }
             break;
           case ContentsDataType.TILES:
+          case ContentsDataType.VECTOR_TILES:
           // case GRIDDED_COVERAGE:
             // Delete Tile Matrix collection
             let tileMatrixDao = this.geoPackage.tileMatrixDao;
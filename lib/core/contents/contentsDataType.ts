@@ -1,7 +1,8 @@
 export enum ContentsDataType {
   FEATURES = 'features',
   TILES = 'tiles',
-  ATTRIBUTES = 'attributes'
+  ATTRIBUTES = 'attributes',
+  VECTOR_TILES = 'vector-tiles',
 }
 
 // eslint-disable-next-line @typescript-eslint/no-namespace
@@ -23,6 +24,9 @@ export namespace ContentsDataType {
         case ContentsDataType.ATTRIBUTES:
           dataType = ContentsDataType.ATTRIBUTES;
           break;
+        case ContentsDataType.VECTOR_TILES:
+          dataType = ContentsDataType.VECTOR_TILES;
+          break;
         default:
           break;
       }
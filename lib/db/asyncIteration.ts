@@ -0,0 +1,85 @@
+/**
+ * Async iteration
+ * @module db/asyncIteration
+ */
+
+/**
+ * Options of an async iteration
+ */
+export interface AsyncIterationOptions {
+  /**
+   * Number of results yielded before yielding to the event loop, defaults to 1000
+   */
+  chunkSize?: number;
+  /**
+   * Signal aborting the iteration, which then rejects with an error named AbortError
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Reads a chunk of query results
+ * @param chunkSize maximum number of results to read
+ * @param last last result of the previous chunk, undefined when reading the first chunk
+ * @return results, fewer than the chunk size when no results are left
+ */
+export type AsyncIterationChunkReader<T> = (chunkSize: number, last?: T) => T[];
+
+/**
+ * Asynchronous iteration of query results.  The results are read in chunks, each with its own query, yielding to the
+ * event loop between chunks so a long read does not block other work.  No statement is held open between chunks, so
+ * the connection may be written to while iterating.
+ */
+export class AsyncIteration {
+  /**
+   * Default number of results yielded between yields to the event loop
+   */
+  public static readonly DEFAULT_CHUNK_SIZE = 1000;
+
+  /**
+   * Iterate the chunks of a query asynchronously
+   * @param readChunk reads each chunk of the results of the query
+   * @param options iteration options
+   * @param map maps each result to the value to yield, results mapped to undefined are skipped
+   * @return async iterator of the mapped results
+   */
+  static async *iterate<T, R = T>(
+    readChunk: AsyncIterationChunkReader<T>,
+    options: AsyncIterationOptions = {},
+    map?: (value: T) => R | undefined,
+  ): AsyncIterableIterator<R> {
+    const chunkSize = options.chunkSize != null ? options.chunkSize : AsyncIteration.DEFAULT_CHUNK_SIZE;
+    if (typeof chunkSize !== 'number' || !isFinite(chunkSize) || chunkSize < 1 || Math.floor(chunkSize) !== chunkSize) {
+      throw new Error('The chunk size must be an integer of at least 1: ' + chunkSize);
+    }
+    AsyncIteration.throwIfAborted(options.signal);
+    let chunk = readChunk(chunkSize);
+    while (chunk.length > 0) {
+      for (const result of chunk) {
+        const value = map ? map(result) : ((result as unknown) as R);
+        if (value !== undefined) {
+          yield value;
+        }
+        AsyncIteration.throwIfAborted(options.signal);
+      }
+      if (chunk.length < chunkSize) {
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve));
+      AsyncIteration.throwIfAborted(options.signal);
+      chunk = readChunk(chunkSize, chunk[chunk.length - 1]);
+    }
+  }
+
+  /**
+   * Throw an error named AbortError if a signal is aborted
+   * @param signal signal
+   */
+  private static throwIfAborted(signal?: AbortSignal): void {
+    if (signal && signal.aborted) {
+      const error = new Error('The iteration was aborted');
+      error.name = 'AbortError';
+      throw error;
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { Db } from './db';
 import { DBAdapter } from './dbAdapter';
 import { GeoPackageConstants } from '../geoPackageConstants';
+import { SpatialFunctions } from './spatialFunctions';
 
 /**
  * Represents a connection to the GeoPackage database
@@ -9,6 +10,7 @@ export class GeoPackageConnection {
   filePath: string | Buffer | Uint8Array | undefined;
   adapter: DBAdapter;
   registeredFunctions: string[];
+  spatialFunctions: SpatialFunctions;
   /**
    * Construct a new connection to the GeoPackage SQLite file
    * @param filePath path to the sqlite file
@@ -79,6 +81,18 @@ export class GeoPackageConnection {
     }
     return this.adapter;
   }
+  /**
+   * Registers the SQL spatial functions, such as ST_Intersects and ST_Transform, so they can be used in queries.
+   * Registering again reloads the spatial reference systems used by ST_Transform.
+   * @return {SpatialFunctions} the registered spatial functions
+   */
+  registerSpatialFunctions(): SpatialFunctions {
+    if (!this.spatialFunctions) {
+      this.spatialFunctions = new SpatialFunctions(this);
+    }
+    this.spatialFunctions.register();
+    return this.spatialFunctions;
+  }
   /**
    * Gets the first result from the query
    * @param  {string} sql    sql query to run
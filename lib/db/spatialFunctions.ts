@@ -0,0 +1,241 @@
+/**
+ * SQL spatial functions
+ * @module db/spatialFunctions
+ */
+import proj4 from 'proj4';
+import wkx from 'wkx';
+import { GeoPackageConnection } from './geoPackageConnection';
+import { GeometryData } from '../geom/geometryData';
+import { EnvelopeBuilder } from '../geom/envelopeBuilder';
+import { ExtendedGeometry } from '../geom/extended/extendedGeometry';
+import { CircularString } from '../geom/extended/circularString';
+import { Triangle } from '../geom/extended/triangle';
+import { PlanarGeometry } from '../geom/planarGeometry';
+import { GeometryType } from '../features/user/geometryType';
+import { SpatialReferenceSystem } from '../core/srs/spatialReferenceSystem';
+
+type GeometryValue = Buffer | Uint8Array;
+
+/**
+ * Spatial functions registered on a connection for use in SQL, such as in the where clause passed to queryWhere:
+ *
+ * - ST_GeometryType(geom), ST_SRID(geom) and ST_AsText(geom)
+ * - ST_GeomFromText(wkt, srs_id), with a null srs id reading the SRID of EWKT
+ * - ST_Intersects(geom1, geom2), ST_Contains(geom1, geom2) and ST_Within(geom1, geom2), returning 1 or 0
+ * - ST_Distance(geom1, geom2), ST_Area(geom) and ST_Length(geom)
+ * - ST_Centroid(geom) and ST_Transform(geom, srs_id)
+ *
+ * Geometries are GeoPackage geometry blobs, and measurements and predicates are computed in the plane of the
+ * coordinates of the geometries.  Every function returns null when a geometry is null or cannot be read.
+ * SQLite does not allow queries while a statement runs, so ST_Transform uses the spatial reference systems loaded
+ * when the functions were registered.
+ */
+export class SpatialFunctions {
+  /**
+   * Spatial reference systems by srs id, loaded when the functions are registered
+   */
+  private spatialReferenceSystems: Map<number, SpatialReferenceSystem> = new Map();
+
+  /**
+   * @param connection connection to register the functions on
+   */
+  constructor(public readonly connection: GeoPackageConnection) {}
+
+  /**
+   * Register the functions on the connection and load the spatial reference systems used by ST_Transform
+   */
+  register(): void {
+    this.loadSpatialReferenceSystems();
+    const spatialReferenceSystems = this.spatialReferenceSystems;
+    this.connection.registerFunction('ST_GeometryType', function(value: GeometryValue): string {
+      const geometryData = SpatialFunctions.read(value);
+      return geometryData ? SpatialFunctions.getGeometryTypeName(geometryData.geometry) : null;
+    });
+    this.connection.registerFunction('ST_SRID', function(value: GeometryValue): number {
+      const geometryData = SpatialFunctions.read(value);
+      return geometryData ? geometryData.srsId : null;
+    });
+    this.connection.registerFunction('ST_AsText', function(value: GeometryValue): string {
+      const geometryData = SpatialFunctions.read(value);
+      return geometryData ? geometryData.toWkt() : null;
+    });
+    this.connection.registerFunction('ST_GeomFromText', function(wkt: string, srsId: number): Buffer {
+      return wkt != null ? GeometryData.fromWkt(wkt, srsId != null ? srsId : undefined).toData() : null;
+    });
+    this.connection.registerFunction('ST_Intersects', function(value1: GeometryValue, value2: GeometryValue): number {
+      return SpatialFunctions.compare(value1, value2, (geometry1, geometry2) =>
+        PlanarGeometry.intersects(geometry1, geometry2) ? 1 : 0,
+      );
+    });
+    this.connection.registerFunction('ST_Contains', function(value1: GeometryValue, value2: GeometryValue): number {
+      return SpatialFunctions.compare(value1, value2, (geometry1, geometry2) =>
+        PlanarGeometry.contains(geometry1, geometry2) ? 1 : 0,
+      );
+    });
+    this.connection.registerFunction('ST_Within', function(value1: GeometryValue, value2: GeometryValue): number {
+      return SpatialFunctions.compare(value1, value2, (geometry1, geometry2) =>
+        PlanarGeometry.within(geometry1, geometry2) ? 1 : 0,
+      );
+    });
+    this.connection.registerFunction('ST_Distance', function(value1: GeometryValue, value2: GeometryValue): number {
+      return SpatialFunctions.compare(value1, value2, (geometry1, geometry2) => {
+        const distance = PlanarGeometry.distance(geometry1, geometry2);
+        return distance != null ? distance : null;
+      });
+    });
+    this.connection.registerFunction('ST_Area', function(value: GeometryValue): number {
+      const geometryData = SpatialFunctions.read(value);
+      return geometryData ? PlanarGeometry.area(geometryData.geometry) : null;
+    });
+    this.connection.registerFunction('ST_Length', function(value: GeometryValue): number {
+      const geometryData = SpatialFunctions.read(value);
+      return geometryData ? PlanarGeometry.lineLength(geometryData.geometry) : null;
+    });
+    this.connection.registerFunction('ST_Centroid', function(value: GeometryValue): Buffer {
+      const geometryData = SpatialFunctions.read(value);
+      const centroid = geometryData ? PlanarGeometry.centroid(geometryData.geometry) : undefined;
+      return centroid ? SpatialFunctions.write(centroid, geometryData.srsId) : null;
+    });
+    this.connection.registerFunction('ST_Transform', function(value: GeometryValue, srsId: number): Buffer {
+      const geometryData = SpatialFunctions.read(value);
+      if (!geometryData || srsId == null) {
+        return null;
+      }
+      if (geometryData.srsId === srsId) {
+        return SpatialFunctions.write(geometryData.geometry, srsId);
+      }
+      const fromProjection = SpatialFunctions.getProjection(spatialReferenceSystems, geometryData.srsId);
+      const toProjection = SpatialFunctions.getProjection(spatialReferenceSystems, srsId);
+      const geometry = GeometryData.parseWkb(geometryData.geometry.toWkb());
+      SpatialFunctions.forEachPoint(geometry, point => {
+        const coordinates = toProjection.forward(fromProjection.inverse([point.x, point.y]));
+        point.x = coordinates[0];
+        point.y = coordinates[1];
+      });
+      return SpatialFunctions.write(geometry, srsId);
+    });
+  }
+
+  /**
+   * Load the spatial reference systems used by ST_Transform, such as after creating a spatial reference system
+   */
+  loadSpatialReferenceSystems(): void {
+    this.spatialReferenceSystems.clear();
+    if (!this.connection.isTableExists(SpatialReferenceSystem.TABLE_NAME)) {
+      return;
+    }
+    this.connection.all('select * from ' + SpatialReferenceSystem.TABLE_NAME).forEach(result => {
+      const srs = Object.assign(new SpatialReferenceSystem(), result);
+      this.spatialReferenceSystems.set(srs.srs_id, srs);
+    });
+  }
+
+  /**
+   * Read a GeoPackage geometry blob
+   * @param value geometry blob
+   * @return geometry data, undefined if the value is null, empty or cannot be read
+   */
+  private static read(value: GeometryValue): GeometryData {
+    if (value == null || !(value instanceof Uint8Array)) {
+      return undefined;
+    }
+    const geometryData = new GeometryData(value);
+    return geometryData.geometry ? geometryData : undefined;
+  }
+
+  /**
+   * Write a geometry as a GeoPackage geometry blob
+   * @param geometry geometry
+   * @param srsId srs id
+   * @return geometry blob
+   */
+  private static write(geometry: wkx.Geometry, srsId: number): Buffer {
+    const geometryData = new GeometryData();
+    geometryData.setSrsId(srsId);
+    geometryData.setGeometry(geometry);
+    geometryData.empty = EnvelopeBuilder.isEmpty(geometry);
+    geometryData.setEnvelope(EnvelopeBuilder.buildEnvelopeWithGeometryDimensions(geometry));
+    return geometryData.toData();
+  }
+
+  /**
+   * Compare two geometry blobs
+   * @param value1 first geometry blob
+   * @param value2 second geometry blob
+   * @param comparison comparison of the geometries
+   * @return result of the comparison, null if either geometry cannot be read
+   */
+  private static compare(
+    value1: GeometryValue,
+    value2: GeometryValue,
+    comparison: (geometry1: wkx.Geometry, geometry2: wkx.Geometry) => number,
+  ): number {
+    const geometryData1 = SpatialFunctions.read(value1);
+    const geometryData2 = SpatialFunctions.read(value2);
+    return geometryData1 && geometryData2 ? comparison(geometryData1.geometry, geometryData2.geometry) : null;
+  }
+
+  /**
+   * Get the geometry type name of a geometry
+   * @param geometry geometry
+   * @return geometry type name such as POINT or CIRCULARSTRING
+   */
+  private static getGeometryTypeName(geometry: wkx.Geometry): string {
+    if (geometry instanceof ExtendedGeometry) {
+      return GeometryType.nameFromType(geometry.geometryType);
+    }
+    const wkb = geometry.toWkb();
+    const code = wkb.readUInt8(0) === 1 ? wkb.readUInt32LE(1) : wkb.readUInt32BE(1);
+    return GeometryType.nameFromType(code % 1000);
+  }
+
+  /**
+   * Get the projection of a spatial reference system
+   * @param spatialReferenceSystems loaded spatial reference systems
+   * @param srsId srs id
+   * @return projection
+   */
+  private static getProjection(
+    spatialReferenceSystems: Map<number, SpatialReferenceSystem>,
+    srsId: number,
+  ): proj4.Converter {
+    const srs = spatialReferenceSystems.get(srsId);
+    const projection = srs ? srs.projection : null;
+    if (!projection) {
+      throw new Error('Spatial reference system has no projection or is not loaded: ' + srsId);
+    }
+    return projection;
+  }
+
+  /**
+   * Call a function with each point of a geometry
+   * @param geometry geometry
+   * @param callback called with each point
+   */
+  private static forEachPoint(geometry: wkx.Geometry, callback: (point: wkx.Point) => void): void {
+    const visit = (value: wkx.Geometry): void => {
+      if (value instanceof wkx.Point) {
+        callback(value);
+      } else if (
+        value instanceof wkx.LineString ||
+        value instanceof wkx.MultiPoint ||
+        value instanceof CircularString
+      ) {
+        value.points.forEach(visit);
+      } else if (value instanceof wkx.Polygon) {
+        [value.exteriorRing, ...value.interiorRings].forEach((ring: wkx.Point[]) => ring.forEach(visit));
+      } else if (value instanceof Triangle) {
+        value.exteriorRing.forEach(visit);
+      } else if (value instanceof wkx.MultiLineString) {
+        value.lineStrings.forEach(visit);
+      } else if (value instanceof wkx.MultiPolygon) {
+        value.polygons.forEach(visit);
+      } else if (value instanceof wkx.GeometryCollection) {
+        value.geometries.forEach(visit);
+      } else if (value instanceof ExtendedGeometry) {
+        value.getGeometries().forEach(visit);
+      }
+    };
+    visit(geometry);
+  }
+}
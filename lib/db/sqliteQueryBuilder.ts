@@ -31,6 +31,8 @@ export class SqliteQueryBuilder {
    * @param  {string} [orderBy]  order by clause
    * @param  {Number} [limit]    limit
    * @param  {Number} [offset]   offset
+   * @param  {Boolean} [columnExpressions] true to append the columns as SQL expressions instead of quoting them as
+   * column names
    * @return {string}
    */
   static buildQuery(
@@ -44,6 +46,7 @@ export class SqliteQueryBuilder {
     orderBy?: string,
     limit?: number,
     offset?: number,
+    columnExpressions = false,
   ): string {
     let query = '';
     if (SqliteQueryBuilder.isEmpty(groupBy) && !SqliteQueryBuilder.isEmpty(having)) {
@@ -55,7 +58,9 @@ export class SqliteQueryBuilder {
       query += 'distinct ';
     }
     if (columns && columns.length) {
-      query = SqliteQueryBuilder.appendColumnsToString(columns, query);
+      query = columnExpressions
+        ? query + columns.join(', ') + ' '
+        : SqliteQueryBuilder.appendColumnsToString(columns, query);
     } else {
       query += '* ';
     }
@@ -198,23 +198,30 @@ export class SqljsAdapter implements DBAdapter {
   each(sql: string, params?: [] | Record<string, DBValue>): IterableIterator<Record<string, DBValue>> {
     const statement = this.db.prepare(sql);
     statement.bind(params);
+    let freed = false;
     return {
       [Symbol.iterator](): IterableIterator<Record<string, DBValue>> {
         return this;
       },
       next: function(): { value: Record<string, DBValue>; done: boolean } {
-        if (statement.step()) {
+        if (!freed && statement.step()) {
           return {
             value: statement.getAsObject(),
             done: false,
           };
         } else {
+          return this.return();
+        }
+      },
+      return: function(): { value: Record<string, DBValue>; done: boolean } {
+        if (!freed) {
+          freed = true;
           statement.free();
-          return {
-            value: undefined,
-            done: true,
-          };
         }
+        return {
+          value: undefined,
+          done: true,
+        };
       },
     };
   }
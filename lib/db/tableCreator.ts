@@ -23,7 +23,12 @@ type TableCreatorScripts =
   | 'feature_tile_link'
   | 'extended_relations'
   | 'contents_id'
-  | 'tile_scaling';
+  | 'tile_scaling'
+  | 'vector_tiles_layers'
+  | 'vector_tiles_fields'
+  | 'table_changes'
+  | 'applied_changesets'
+  | 'changeset_ids';
 
 /**
  * `TableCreator` provides methods for creating the various standard tables in
@@ -167,6 +172,41 @@ export class TableCreator {
   createTileScaling(): boolean {
     return this.createTable('tile_scaling');
   }
+  /**
+   * Creates the vectorTilesLayers tables
+   * @return {boolean}
+   */
+  createVectorTilesLayers(): boolean {
+    return this.createTable('vector_tiles_layers');
+  }
+  /**
+   * Creates the vectorTilesFields tables
+   * @return {boolean}
+   */
+  createVectorTilesFields(): boolean {
+    return this.createTable('vector_tiles_fields');
+  }
+  /**
+   * Creates the tableChanges tables
+   * @return {boolean}
+   */
+  createTableChanges(): boolean {
+    return this.createTable('table_changes');
+  }
+  /**
+   * Creates the appliedChangesets tables
+   * @return {boolean}
+   */
+  createAppliedChangesets(): boolean {
+    return this.createTable('applied_changesets');
+  }
+  /**
+   * Creates the changesetIds tables
+   * @return {boolean}
+   */
+  createChangesetIds(): boolean {
+    return this.createTable('changeset_ids');
+  }
   /**
    * Creates all tables necessary for the specified table creation script name in the GeoPackage
    * @param  {string} creationScriptName creation scripts to run
@@ -653,5 +693,57 @@ static readonly tableCreationScripts = {
       "  CHECK (scaling_type in ('in','out','in_out','out_in','closest_in_out','closest_out_in'))" +
       ')',
     ],
+    vector_tiles_layers: [
+      'CREATE TABLE gpkgext_vt_layers (' +
+      '  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,' +
+      '  table_name TEXT NOT NULL,' +
+      '  name TEXT NOT NULL,' +
+      '  description TEXT,' +
+      '  minzoom INTEGER,' +
+      '  maxzoom INTEGER,' +
+      '  attributes_table_name TEXT,' +
+      '  CONSTRAINT fk_gvl_tn FOREIGN KEY (table_name) REFERENCES gpkg_contents(table_name),' +
+      '  UNIQUE (table_name, name)' +
+      ')',
+    ],
+    vector_tiles_fields: [
+      'CREATE TABLE gpkgext_vt_fields (' +
+      '  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,' +
+      '  layer_id INTEGER NOT NULL,' +
+      '  name TEXT NOT NULL,' +
+      '  type TEXT NOT NULL,' +
+      '  CONSTRAINT fk_gvf_li FOREIGN KEY (layer_id) REFERENCES gpkgext_vt_layers(id),' +
+      '  UNIQUE (layer_id, name),' +
+      "  CHECK (type in ('String','Number','Boolean'))" +
+      ')',
+    ],
+    table_changes: [
+      'CREATE TABLE nga_table_changes (' +
+      '  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,' +
+      '  table_name TEXT NOT NULL,' +
+      '  row_id INTEGER NOT NULL,' +
+      '  operation TEXT NOT NULL,' +
+      "  timestamp DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))," +
+      '  columns TEXT,' +
+      "  CHECK (operation in ('insert','update','delete'))" +
+      ')',
+    ],
+    applied_changesets: [
+      'CREATE TABLE nga_applied_changesets (' +
+      '  source TEXT PRIMARY KEY NOT NULL,' +
+      '  marker INTEGER NOT NULL,' +
+      '  local_marker INTEGER NOT NULL,' +
+      "  applied DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))" +
+      ')',
+    ],
+    changeset_ids: [
+      'CREATE TABLE nga_changeset_ids (' +
+      '  source TEXT NOT NULL,' +
+      '  table_name TEXT NOT NULL,' +
+      '  source_id INTEGER NOT NULL,' +
+      '  target_id INTEGER NOT NULL,' +
+      '  CONSTRAINT pk_changeset_ids PRIMARY KEY (source, table_name, source_id)' +
+      ')',
+    ],
   };
 }
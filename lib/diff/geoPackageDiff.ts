@@ -0,0 +1,511 @@
+/**
+ * GeoPackage diff
+ * @module diff
+ */
+import { GeoPackage } from '../geoPackage';
+import { DBValue } from '../db/dbAdapter';
+import { StringUtils } from '../db/stringUtils';
+import { TableInfo } from '../db/table/tableInfo';
+import { TableColumn } from '../db/table/tableColumn';
+import { GeometryData } from '../geom/geometryData';
+import { ContentsDao } from '../core/contents/contentsDao';
+import { SpatialReferenceSystemDao } from '../core/srs/spatialReferenceSystemDao';
+import { ExtensionDao } from '../extension/extensionDao';
+import { UserTable } from '../user/userTable';
+import { UserColumn } from '../user/userColumn';
+import { UserCustomTableReader } from '../user/custom/userCustomTableReader';
+import {
+  DiffCounts,
+  DiffType,
+  DiffValue,
+  GeoPackageDiffReport,
+  GeoPackageDiffSummary,
+  ItemDifference,
+  PropertyDifference,
+  RowDifference,
+  RowsDifference,
+  TableDifference,
+} from './geoPackageDiffReport';
+
+/**
+ * Options for a GeoPackage diff
+ */
+export interface GeoPackageDiffOptions {
+  /**
+   * tables to compare the rows of. Defaults to all tables of the contents of both GeoPackages.
+   */
+  tables?: string[];
+  /**
+   * compare the rows of the tables. Defaults to true.
+   */
+  rows?: boolean;
+  /**
+   * absolute tolerance when comparing the coordinates of geometries and real values. Defaults to 0.
+   */
+  tolerance?: number;
+  /**
+   * columns not compared in the rows and in the tables of the GeoPackage standard, such as last change times
+   */
+  ignoreColumns?: string[];
+  /**
+   * maximum number of row differences listed for a table, all rows are still counted. Defaults to no limit.
+   */
+  maxRowDifferences?: number;
+}
+
+/**
+ * Compares two GeoPackages: the contents, spatial reference systems and extensions, the columns and constraints of
+ * the tables in both GeoPackages, and the rows of the tables matched by their primary key.  Geometries are equal when
+ * they have the same srs id, type and coordinates within the tolerance, regardless of the envelope and byte order of
+ * their GeoPackage binary.  Rows are read in primary key order from both GeoPackages at once, so tables of any size
+ * are compared without holding their rows in memory.
+ */
+export class GeoPackageDiff {
+  private static readonly NUMBER_PATTERN = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|NaN/g;
+
+  /**
+   * @param base GeoPackage the differences are from
+   * @param other GeoPackage the differences are to
+   * @param options diff options
+   */
+  constructor(
+    public readonly base: GeoPackage,
+    public readonly other: GeoPackage,
+    private readonly options: GeoPackageDiffOptions = {},
+  ) {}
+
+  /**
+   * Compare the GeoPackages
+   * @return report of the differences
+   */
+  diff(): GeoPackageDiffReport {
+    const contents = this.diffTable(ContentsDao.TABLE_NAME, [ContentsDao.COLUMN_TABLE_NAME]);
+    const spatialReferenceSystems = this.diffTable(SpatialReferenceSystemDao.TABLE_NAME, [
+      SpatialReferenceSystemDao.COLUMN_SRS_ID,
+    ]);
+    const extensions = this.diffTable(ExtensionDao.TABLE_NAME, [
+      ExtensionDao.COLUMN_EXTENSION_NAME,
+      ExtensionDao.COLUMN_TABLE_NAME,
+      ExtensionDao.COLUMN_COLUMN_NAME,
+    ]);
+    const baseTables = GeoPackageDiff.getTables(this.base);
+    const otherTables = GeoPackageDiff.getTables(this.other);
+    const tables = baseTables
+      .filter(tableName => otherTables.indexOf(tableName) !== -1)
+      .map(tableName => this.diffUserTable(tableName))
+      .filter(
+        table =>
+          table.columns.length > 0 ||
+          table.addedConstraints.length > 0 ||
+          table.removedConstraints.length > 0 ||
+          (table.rows != null && (table.rows.added > 0 || table.rows.removed > 0 || table.rows.changed > 0)),
+      );
+    return {
+      base: this.base.name,
+      other: this.other.name,
+      contents: contents,
+      spatialReferenceSystems: spatialReferenceSystems,
+      extensions: extensions,
+      tables: tables,
+      summary: GeoPackageDiff.summarize(contents, spatialReferenceSystems, extensions, tables),
+    };
+  }
+
+  /**
+   * Format the summary of a report as text
+   * @param report diff report
+   * @return summary text
+   */
+  static formatSummary(report: GeoPackageDiffReport): string {
+    const summary = report.summary;
+    const counts = (name: string, diffCounts: DiffCounts): string =>
+      name + ': ' + diffCounts.added + ' added, ' + diffCounts.removed + ' removed, ' + diffCounts.changed + ' changed';
+    const lines = [report.base + ' -> ' + report.other + (summary.identical ? ': identical' : '')];
+    if (!summary.identical) {
+      lines.push(counts('Contents', summary.contents));
+      lines.push(counts('Spatial reference systems', summary.spatialReferenceSystems));
+      lines.push(counts('Extensions', summary.extensions));
+      lines.push('Table schemas: ' + summary.schemas + ' changed');
+      lines.push(counts('Rows', summary.rows));
+      report.tables
+        .filter(table => table.rows != null)
+        .forEach(table => lines.push(counts('  ' + table.tableName, table.rows)));
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Compare the rows of a table of the GeoPackage standard by their key columns
+   * @param tableName table name
+   * @param keyColumns key columns
+   * @return differences keyed by the key values
+   */
+  private diffTable(tableName: string, keyColumns: string[]): ItemDifference[] {
+    const read = (geoPackage: GeoPackage): Map<string, Record<string, DBValue>> => {
+      const rows = new Map<string, Record<string, DBValue>>();
+      if (geoPackage.connection.isTableExists(tableName)) {
+        geoPackage.connection
+          .all('SELECT * FROM ' + StringUtils.quoteWrap(tableName))
+          .forEach((row: Record<string, DBValue>) =>
+            rows.set(keyColumns.map(column => (row[column] == null ? '' : row[column])).join('/'), row),
+          );
+      }
+      return rows;
+    };
+    const baseRows = read(this.base);
+    const otherRows = read(this.other);
+    const differences: ItemDifference[] = [];
+    baseRows.forEach((baseRow, key) => {
+      if (!otherRows.has(key)) {
+        differences.push({ key: key, type: DiffType.REMOVED });
+        return;
+      }
+      const changes = this.diffValues(baseRow, otherRows.get(key), this.options.ignoreColumns || []);
+      if (changes.length > 0) {
+        differences.push({ key: key, type: DiffType.CHANGED, changes: changes });
+      }
+    });
+    otherRows.forEach((otherRow, key) => {
+      if (!baseRows.has(key)) {
+        differences.push({ key: key, type: DiffType.ADDED });
+      }
+    });
+    return differences;
+  }
+
+  /**
+   * Compare a table in both GeoPackages
+   * @param tableName table name
+   * @return table differences
+   */
+  private diffUserTable(tableName: string): TableDifference {
+    const baseInfo = TableInfo.info(this.base.connection, tableName);
+    const otherInfo = TableInfo.info(this.other.connection, tableName);
+    const baseTable = new UserCustomTableReader(tableName).readTable(this.base.connection);
+    const otherTable = new UserCustomTableReader(tableName).readTable(this.other.connection);
+    const columns: ItemDifference[] = [];
+    baseInfo.getColumns().forEach(column => {
+      if (!otherInfo.hasColumn(column.getName())) {
+        columns.push({ key: column.getName(), type: DiffType.REMOVED });
+        return;
+      }
+      const changes = this.diffValues(
+        GeoPackageDiff.describeColumn(column, baseTable),
+        GeoPackageDiff.describeColumn(otherInfo.getColumn(column.getName()), otherTable),
+        [],
+      );
+      if (changes.length > 0) {
+        columns.push({ key: column.getName(), type: DiffType.CHANGED, changes: changes });
+      }
+    });
+    otherInfo.getColumns().forEach(column => {
+      if (!baseInfo.hasColumn(column.getName())) {
+        columns.push({ key: column.getName(), type: DiffType.ADDED });
+      }
+    });
+    const baseConstraints = GeoPackageDiff.getConstraints(baseTable);
+    const otherConstraints = GeoPackageDiff.getConstraints(otherTable);
+    const table: TableDifference = {
+      tableName: tableName,
+      columns: columns,
+      removedConstraints: baseConstraints.filter(constraint => otherConstraints.indexOf(constraint) === -1),
+      addedConstraints: otherConstraints.filter(constraint => baseConstraints.indexOf(constraint) === -1),
+    };
+    const basePk = baseInfo.getPrimaryKey();
+    const otherPk = otherInfo.getPrimaryKey();
+    if (
+      this.options.rows !== false &&
+      (this.options.tables == null || this.options.tables.indexOf(tableName) !== -1) &&
+      basePk != null &&
+      otherPk != null &&
+      basePk.getName() === otherPk.getName()
+    ) {
+      table.rows = this.diffRows(
+        tableName,
+        basePk.getName(),
+        baseInfo
+          .getColumns()
+          .map(column => column.getName())
+          .filter(column => otherInfo.hasColumn(column)),
+      );
+    }
+    return table;
+  }
+
+  /**
+   * Compare the rows of a table matched by their primary key, reading both tables in primary key order
+   * @param tableName table name
+   * @param keyColumn primary key column
+   * @param columns columns in both tables
+   * @return rows differences
+   */
+  private diffRows(tableName: string, keyColumn: string, columns: string[]): RowsDifference {
+    const ignored = (this.options.ignoreColumns || []).concat([keyColumn]);
+    const geometryColumns = [this.base, this.other]
+      .filter(geoPackage => geoPackage.geometryColumnsDao.isTableExists())
+      .map(geoPackage => geoPackage.geometryColumnsDao.queryForTableName(tableName))
+      .filter(geometryColumns => geometryColumns != null)
+      .map(geometryColumns => geometryColumns.column_name);
+    const sql =
+      'SELECT ' +
+      columns.map(column => StringUtils.quoteWrap(column)).join(', ') +
+      ' FROM ' +
+      StringUtils.quoteWrap(tableName) +
+      ' ORDER BY ' +
+      StringUtils.quoteWrap(keyColumn);
+    const rows: RowsDifference = {
+      keyColumn: keyColumn,
+      added: 0,
+      removed: 0,
+      changed: 0,
+      unchanged: 0,
+      differences: [],
+      truncated: false,
+    };
+    const add = (difference: RowDifference): void => {
+      if (this.options.maxRowDifferences != null && rows.differences.length >= this.options.maxRowDifferences) {
+        rows.truncated = true;
+      } else {
+        rows.differences.push(difference);
+      }
+    };
+    const baseRows = this.base.connection.each(sql);
+    const otherRows = this.other.connection.each(sql);
+    let baseRow = baseRows.next();
+    let otherRow = otherRows.next();
+    while (!baseRow.done || !otherRow.done) {
+      const baseId = baseRow.done ? undefined : (baseRow.value[keyColumn] as number);
+      const otherId = otherRow.done ? undefined : (otherRow.value[keyColumn] as number);
+      if (otherId === undefined || (baseId !== undefined && baseId < otherId)) {
+        rows.removed++;
+        add({ id: baseId, type: DiffType.REMOVED });
+        baseRow = baseRows.next();
+      } else if (baseId === undefined || otherId < baseId) {
+        rows.added++;
+        add({ id: otherId, type: DiffType.ADDED });
+        otherRow = otherRows.next();
+      } else {
+        const changes = this.diffValues(baseRow.value, otherRow.value, ignored, geometryColumns);
+        if (changes.length > 0) {
+          rows.changed++;
+          add({ id: baseId, type: DiffType.CHANGED, changes: changes });
+        } else {
+          rows.unchanged++;
+        }
+        baseRow = baseRows.next();
+        otherRow = otherRows.next();
+      }
+    }
+    return rows;
+  }
+
+  /**
+   * Compare the values of two rows
+   * @param baseValues values of the base row
+   * @param otherValues values of the other row
+   * @param ignored columns not compared
+   * @param geometryColumns geometry columns
+   * @return changed values
+   */
+  private diffValues(
+    baseValues: Record<string, DBValue>,
+    otherValues: Record<string, DBValue>,
+    ignored: string[],
+    geometryColumns: string[] = [],
+  ): PropertyDifference[] {
+    const changes: PropertyDifference[] = [];
+    Object.keys(baseValues)
+      .filter(name => ignored.indexOf(name) === -1 && name in otherValues)
+      .forEach(name => {
+        const geometry = geometryColumns.indexOf(name) !== -1;
+        const baseValue = baseValues[name];
+        const otherValue = otherValues[name];
+        const equal = geometry ? this.isGeometryEqual(baseValue, otherValue) : this.isValueEqual(baseValue, otherValue);
+        if (!equal) {
+          changes.push({
+            name: name,
+            base: GeoPackageDiff.toDiffValue(baseValue, geometry),
+            other: GeoPackageDiff.toDiffValue(otherValue, geometry),
+          });
+        }
+      });
+    return changes;
+  }
+
+  /**
+   * Determine if two values are equal, real values within the tolerance
+   * @param baseValue base value
+   * @param otherValue other value
+   * @return true if equal
+   */
+  private isValueEqual(baseValue: DBValue, otherValue: DBValue): boolean {
+    if (baseValue == null || otherValue == null) {
+      return baseValue == null && otherValue == null;
+    }
+    if (baseValue instanceof Uint8Array && otherValue instanceof Uint8Array) {
+      return Buffer.from(baseValue).equals(Buffer.from(otherValue));
+    }
+    if (typeof baseValue === 'number' && typeof otherValue === 'number') {
+      return baseValue === otherValue || Math.abs(baseValue - otherValue) <= (this.options.tolerance || 0);
+    }
+    return baseValue === otherValue;
+  }
+
+  /**
+   * Determine if two GeoPackage binary geometries are equal, with the same srs id, type and coordinates within the
+   * tolerance
+   * @param baseValue base geometry
+   * @param otherValue other geometry
+   * @return true if equal
+   */
+  private isGeometryEqual(baseValue: DBValue, otherValue: DBValue): boolean {
+    if (!(baseValue instanceof Uint8Array) || !(otherValue instanceof Uint8Array)) {
+      return this.isValueEqual(baseValue, otherValue);
+    }
+    const baseGeometry = GeoPackageDiff.readGeometry(baseValue);
+    const otherGeometry = GeoPackageDiff.readGeometry(otherValue);
+    if (baseGeometry == null || otherGeometry == null) {
+      return this.isValueEqual(baseValue, otherValue);
+    }
+    if (baseGeometry.srsId !== otherGeometry.srsId) {
+      return false;
+    }
+    const baseWkt = baseGeometry.toWkt() || '';
+    const otherWkt = otherGeometry.toWkt() || '';
+    if (baseWkt.replace(GeoPackageDiff.NUMBER_PATTERN, '#') !== otherWkt.replace(GeoPackageDiff.NUMBER_PATTERN, '#')) {
+      return false;
+    }
+    const baseNumbers = baseWkt.match(GeoPackageDiff.NUMBER_PATTERN) || [];
+    const otherNumbers = otherWkt.match(GeoPackageDiff.NUMBER_PATTERN) || [];
+    return baseNumbers.every((number, index) => {
+      const baseNumber = parseFloat(number);
+      const otherNumber = parseFloat(otherNumbers[index]);
+      return (
+        (isNaN(baseNumber) && isNaN(otherNumber)) || Math.abs(baseNumber - otherNumber) <= (this.options.tolerance || 0)
+      );
+    });
+  }
+
+  /**
+   * Read a GeoPackage binary geometry
+   * @param value blob value
+   * @return geometry data, undefined when the value is not a readable geometry
+   */
+  private static readGeometry(value: Uint8Array): GeometryData {
+    try {
+      const geometryData = new GeometryData(value);
+      return geometryData.geometryError ? undefined : geometryData;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Describe the properties of a column compared between the GeoPackages
+   * @param column column of the table info
+   * @param table user table with the constraints of the column
+   * @return column properties
+   */
+  private static describeColumn(column: TableColumn, table: UserTable<UserColumn>): Record<string, DBValue> {
+    const userColumn = table.getColumnWithColumnName(column.getName());
+    return {
+      index: column.getIndex(),
+      type: column.getType(),
+      max: column.getMax(),
+      notNull: column.isNotNull(),
+      defaultValue: column.getDefaultValueString(),
+      primaryKey: column.isPrimaryKey(),
+      autoincrement: column.isAutoIncrement(),
+      constraints: userColumn
+        .getConstraints()
+        .all()
+        .map(constraint => constraint.buildSql())
+        .sort()
+        .join(', '),
+    };
+  }
+
+  /**
+   * Get the table constraints of a table as SQL
+   * @param table user table
+   * @return constraints
+   */
+  private static getConstraints(table: UserTable<UserColumn>): string[] {
+    return table
+      .getConstraints()
+      .all()
+      .map(constraint => constraint.buildSql());
+  }
+
+  /**
+   * Get the tables of the contents that exist in a GeoPackage
+   * @param geoPackage GeoPackage
+   * @return table names
+   */
+  private static getTables(geoPackage: GeoPackage): string[] {
+    if (!geoPackage.contentsDao.isTableExists()) {
+      return [];
+    }
+    return geoPackage.contentsDao.getTables().filter(tableName => geoPackage.connection.isTableExists(tableName));
+  }
+
+  /**
+   * Convert a database value to a value of the report
+   * @param value database value
+   * @param geometry true if the value is a GeoPackage binary geometry
+   * @return report value
+   */
+  private static toDiffValue(value: DBValue, geometry: boolean): DiffValue {
+    if (value instanceof Uint8Array) {
+      if (geometry) {
+        const geometryData = GeoPackageDiff.readGeometry(value);
+        if (geometryData != null) {
+          return geometryData.toEwkt() || null;
+        }
+      }
+      return Buffer.from(value).toString('base64');
+    }
+    return value == null ? null : value;
+  }
+
+  /**
+   * Count the differences
+   * @return summary
+   */
+  private static summarize(
+    contents: ItemDifference[],
+    spatialReferenceSystems: ItemDifference[],
+    extensions: ItemDifference[],
+    tables: TableDifference[],
+  ): GeoPackageDiffSummary {
+    const count = (differences: { type: DiffType }[]): DiffCounts => ({
+      added: differences.filter(difference => difference.type === DiffType.ADDED).length,
+      removed: differences.filter(difference => difference.type === DiffType.REMOVED).length,
+      changed: differences.filter(difference => difference.type === DiffType.CHANGED).length,
+    });
+    const rows: DiffCounts = { added: 0, removed: 0, changed: 0 };
+    tables
+      .filter(table => table.rows != null)
+      .forEach(table => {
+        rows.added += table.rows.added;
+        rows.removed += table.rows.removed;
+        rows.changed += table.rows.changed;
+      });
+    const schemas = tables.filter(
+      table => table.columns.length > 0 || table.addedConstraints.length > 0 || table.removedConstraints.length > 0,
+    ).length;
+    return {
+      identical:
+        contents.length === 0 &&
+        spatialReferenceSystems.length === 0 &&
+        extensions.length === 0 &&
+        schemas === 0 &&
+        rows.added + rows.removed + rows.changed === 0,
+      contents: count(contents),
+      spatialReferenceSystems: count(spatialReferenceSystems),
+      extensions: count(extensions),
+      schemas: schemas,
+      rows: rows,
+    };
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * GeoPackage diff report
+ * @module diff
+ */
+
+/**
+ * Type of a difference, from the base GeoPackage to the other GeoPackage
+ */
+export enum DiffType {
+  /**
+   * only in the other GeoPackage
+   */
+  ADDED = 'added',
+  /**
+   * only in the base GeoPackage
+   */
+  REMOVED = 'removed',
+  /**
+   * in both GeoPackages with different values
+   */
+  CHANGED = 'changed',
+}
+
+/**
+ * Value of a difference.  Geometries are written as Extended Well-Known Text and other blobs as base64.
+ */
+export type DiffValue = string | number | boolean | null;
+
+/**
+ * Difference of a value, such as a column of a row or a property of a column
+ */
+export interface PropertyDifference {
+  name: string;
+  base: DiffValue;
+  other: DiffValue;
+}
+
+/**
+ * Difference of an item identified by a key, such as the contents of a table, a spatial reference system, an extension
+ * or a column
+ */
+export interface ItemDifference {
+  /**
+   * key of the item, key values of a composite key are joined with `/`
+   */
+  key: string;
+  type: DiffType;
+  /**
+   * changed values of a changed item
+   */
+  changes?: PropertyDifference[];
+}
+
+/**
+ * Difference of a row identified by its primary key
+ */
+export interface RowDifference {
+  id: number;
+  type: DiffType;
+  /**
+   * changed columns of a changed row
+   */
+  changes?: PropertyDifference[];
+}
+
+/**
+ * Counts of the added, removed and changed items
+ */
+export interface DiffCounts {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+/**
+ * Differences of the rows of a table
+ */
+export interface RowsDifference extends DiffCounts {
+  /**
+   * primary key column the rows are matched by
+   */
+  keyColumn: string;
+  unchanged: number;
+  /**
+   * differences of the rows, in primary key order
+   */
+  differences: RowDifference[];
+  /**
+   * true when there are more differences than the listed ones
+   */
+  truncated: boolean;
+}
+
+/**
+ * Differences of a table in both GeoPackages
+ */
+export interface TableDifference {
+  tableName: string;
+  /**
+   * differences of the columns, keyed by the column name
+   */
+  columns: ItemDifference[];
+  /**
+   * table constraints, as SQL, only in the base GeoPackage
+   */
+  removedConstraints: string[];
+  /**
+   * table constraints, as SQL, only in the other GeoPackage
+   */
+  addedConstraints: string[];
+  /**
+   * differences of the rows, not set when the rows are not compared or the table has no common primary key
+   */
+  rows?: RowsDifference;
+}
+
+/**
+ * Counts of the differences of a diff
+ */
+export interface GeoPackageDiffSummary {
+  /**
+   * true when no differences were found
+   */
+  identical: boolean;
+  contents: DiffCounts;
+  spatialReferenceSystems: DiffCounts;
+  extensions: DiffCounts;
+  /**
+   * number of tables in both GeoPackages with different columns or constraints
+   */
+  schemas: number;
+  rows: DiffCounts;
+}
+
+/**
+ * Differences between two GeoPackages
+ */
+export interface GeoPackageDiffReport {
+  /**
+   * name of the base GeoPackage
+   */
+  base: string;
+  /**
+   * name of the other GeoPackage
+   */
+  other: string;
+  /**
+   * differences of the contents, keyed by the table name
+   */
+  contents: ItemDifference[];
+  /**
+   * differences of the spatial reference systems, keyed by the srs id
+   */
+  spatialReferenceSystems: ItemDifference[];
+  /**
+   * differences of the extensions, keyed by the extension name, table name and column name
+   */
+  extensions: ItemDifference[];
+  /**
+   * differences of the tables in both GeoPackages, tables without differences are not listed
+   */
+  tables: TableDifference[];
+  summary: GeoPackageDiffSummary;
+}
@@ -0,0 +1,31 @@
+/**
+ * @memberOf module:extension/changeTracking
+ * @class AppliedChangeset
+ */
+
+/**
+ * Applied changeset object, recording up to which change the changesets of a source GeoPackage were applied
+ * @constructor
+ */
+export class AppliedChangeset {
+  /**
+   * Name of the source GeoPackage, primary key
+   * @member {String}
+   */
+  source: string;
+  /**
+   * Marker of the last change of the source that was applied
+   * @member {Number}
+   */
+  marker: number;
+  /**
+   * Marker of the latest change of this GeoPackage once the changeset was applied, changes after it were made locally
+   * @member {Number}
+   */
+  local_marker: number;
+  /**
+   * Time the last changeset was applied, in ISO 8601 format
+   * @member {String}
+   */
+  applied: string;
+}
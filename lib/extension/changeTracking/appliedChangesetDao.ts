@@ -0,0 +1,48 @@
+import { Dao } from '../../dao/dao';
+import { AppliedChangeset } from './appliedChangeset';
+import { DBValue } from '../../db/dbAdapter';
+
+/**
+ * Applied Changeset Data Access Object
+ * @constructor
+ * @extends Dao
+ */
+export class AppliedChangesetDao extends Dao<AppliedChangeset> {
+  public static readonly TABLE_NAME: string = 'nga_applied_changesets';
+  public static readonly COLUMN_SOURCE: string = 'source';
+  public static readonly COLUMN_MARKER: string = 'marker';
+  public static readonly COLUMN_LOCAL_MARKER: string = 'local_marker';
+  public static readonly COLUMN_APPLIED: string = 'applied';
+
+  readonly gpkgTableName: string = AppliedChangesetDao.TABLE_NAME;
+  readonly idColumns: string[] = [AppliedChangesetDao.COLUMN_SOURCE];
+  /**
+   * Create a {module:extension/changeTracking.AppliedChangeset} object
+   * @return {module:extension/changeTracking.AppliedChangeset}
+   */
+  createObject(results?: Record<string, DBValue>): AppliedChangeset {
+    const appliedChangeset = new AppliedChangeset();
+    if (results) {
+      appliedChangeset.source = results.source as string;
+      appliedChangeset.marker = results.marker as number;
+      appliedChangeset.local_marker = results.local_marker as number;
+      appliedChangeset.applied = results.applied as string;
+    }
+    return appliedChangeset;
+  }
+  /**
+   * Create the necessary tables for this dao
+   * @return {boolean}
+   */
+  createTable(): boolean {
+    return this.geoPackage.getTableCreator().createAppliedChangesets();
+  }
+  /**
+   * Query for the source GeoPackage
+   * @param  {string} source name of the source GeoPackage
+   * @return {module:extension/changeTracking.AppliedChangeset}
+   */
+  queryForSource(source: string): AppliedChangeset {
+    return this.isTableExists() ? this.queryForId(source) : undefined;
+  }
+}
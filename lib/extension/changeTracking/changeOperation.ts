@@ -0,0 +1,16 @@
+export enum ChangeOperation {
+  /**
+   * Row was inserted
+   */
+  INSERT = 'insert',
+
+  /**
+   * Row was updated
+   */
+  UPDATE = 'update',
+
+  /**
+   * Row was deleted
+   */
+  DELETE = 'delete',
+}
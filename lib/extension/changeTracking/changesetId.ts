@@ -0,0 +1,31 @@
+/**
+ * @memberOf module:extension/changeTracking
+ * @class ChangesetId
+ */
+
+/**
+ * Changeset id object, mapping the id of a row in a source GeoPackage to the id of the row in this GeoPackage
+ * @constructor
+ */
+export class ChangesetId {
+  /**
+   * Name of the source GeoPackage
+   * @member {String}
+   */
+  source: string;
+  /**
+   * Name of the table of the row
+   * @member {String}
+   */
+  table_name: string;
+  /**
+   * Id of the row in the source GeoPackage
+   * @member {Number}
+   */
+  source_id: number;
+  /**
+   * Id of the row in this GeoPackage
+   * @member {Number}
+   */
+  target_id: number;
+}
@@ -0,0 +1,73 @@
+import { Dao } from '../../dao/dao';
+import { ChangesetId } from './changesetId';
+import { DBValue } from '../../db/dbAdapter';
+import { ColumnValues } from '../../dao/columnValues';
+
+/**
+ * Changeset Id Data Access Object
+ * @constructor
+ * @extends Dao
+ */
+export class ChangesetIdDao extends Dao<ChangesetId> {
+  public static readonly TABLE_NAME: string = 'nga_changeset_ids';
+  public static readonly COLUMN_SOURCE: string = 'source';
+  public static readonly COLUMN_TABLE_NAME: string = 'table_name';
+  public static readonly COLUMN_SOURCE_ID: string = 'source_id';
+  public static readonly COLUMN_TARGET_ID: string = 'target_id';
+
+  readonly gpkgTableName: string = ChangesetIdDao.TABLE_NAME;
+  readonly idColumns: string[] = [
+    ChangesetIdDao.COLUMN_SOURCE,
+    ChangesetIdDao.COLUMN_TABLE_NAME,
+    ChangesetIdDao.COLUMN_SOURCE_ID,
+  ];
+  /**
+   * Create a {module:extension/changeTracking.ChangesetId} object
+   * @return {module:extension/changeTracking.ChangesetId}
+   */
+  createObject(results?: Record<string, DBValue>): ChangesetId {
+    const changesetId = new ChangesetId();
+    if (results) {
+      changesetId.source = results.source as string;
+      changesetId.table_name = results.table_name as string;
+      changesetId.source_id = results.source_id as number;
+      changesetId.target_id = results.target_id as number;
+    }
+    return changesetId;
+  }
+  /**
+   * Create the necessary tables for this dao
+   * @return {boolean}
+   */
+  createTable(): boolean {
+    return this.geoPackage.getTableCreator().createChangesetIds();
+  }
+  /**
+   * Query for the ids of a table that were mapped to other ids in this GeoPackage
+   * @param  {string} source name of the source GeoPackage
+   * @param  {string} tableName table name
+   * @return {Map<number, number>} ids in this GeoPackage by the ids in the source GeoPackage
+   */
+  queryForTargetIds(source: string, tableName: string): Map<number, number> {
+    const targetIds = new Map<number, number>();
+    if (this.isTableExists()) {
+      const columnValues = new ColumnValues();
+      columnValues.addColumn(ChangesetIdDao.COLUMN_SOURCE, source);
+      columnValues.addColumn(ChangesetIdDao.COLUMN_TABLE_NAME, tableName);
+      for (const result of this.queryForFieldValues(columnValues)) {
+        targetIds.set(result.source_id as number, result.target_id as number);
+      }
+    }
+    return targetIds;
+  }
+  /**
+   * Delete the id mappings of a table
+   * @param  {string} tableName table name
+   * @return {number} number of deleted rows
+   */
+  deleteByTableName(tableName: string): number {
+    return this.isTableExists()
+      ? this.deleteWhere(this.buildWhereWithFieldAndValue(ChangesetIdDao.COLUMN_TABLE_NAME, tableName), [tableName])
+      : 0;
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * @module extension/changeTracking
+ */
+import { BaseExtension } from '../baseExtension';
+import { GeoPackage } from '../../geoPackage';
+import { Extension } from '../extension';
+import { TableChangeDao } from './tableChangeDao';
+import { AppliedChangesetDao } from './appliedChangesetDao';
+import { ChangesetIdDao } from './changesetIdDao';
+import { TableChange } from './tableChange';
+import { ChangeOperation } from './changeOperation';
+import { StringUtils } from '../../db/stringUtils';
+import { ContentsDataType } from '../../core/contents/contentsDataType';
+import { UserCustomTableReader } from '../../user/custom/userCustomTableReader';
+
+/**
+ * Change tracking extension.  Triggers on tracked feature and attributes tables record each insert, update and delete
+ * of a row in the nga_table_changes table, with the changed columns of updates.  The id of a change increases with
+ * each change, so the id of the latest change read is the marker to read the following changes from.
+ */
+export class ChangeTrackingExtension extends BaseExtension {
+  public static readonly EXTENSION_NAME: string = 'nga_change_tracking';
+  public static readonly EXTENSION_AUTHOR: string = 'nga';
+  public static readonly EXTENSION_NAME_NO_AUTHOR: string = 'change_tracking';
+  public static readonly EXTENSION_DEFINITION: string =
+    'Row level changes of tracked tables recorded by triggers in the nga_table_changes table';
+  public static readonly TRIGGER_INSERT_NAME: string = 'insert';
+  public static readonly TRIGGER_UPDATE_NAME: string = 'update';
+  public static readonly TRIGGER_UPDATE_ID_NAME: string = 'update_id';
+  public static readonly TRIGGER_DELETE_NAME: string = 'delete';
+
+  tableChangeDao: TableChangeDao;
+  appliedChangesetDao: AppliedChangesetDao;
+  changesetIdDao: ChangesetIdDao;
+  constructor(geoPackage: GeoPackage) {
+    super(geoPackage);
+    this.extensionName = ChangeTrackingExtension.EXTENSION_NAME;
+    this.extensionDefinition = ChangeTrackingExtension.EXTENSION_DEFINITION;
+    this.tableChangeDao = geoPackage.tableChangeDao;
+    this.appliedChangesetDao = geoPackage.appliedChangesetDao;
+    this.changesetIdDao = geoPackage.changesetIdDao;
+  }
+  /**
+   * Determine if the GeoPackage has the extension, or if the table is tracked when a table name is passed
+   * @param tableName table name
+   * @return {boolean}
+   */
+  has(tableName?: string): boolean {
+    if (!this.extensionsDao.isTableExists()) {
+      return false;
+    }
+    if (tableName == null) {
+      return this.hasExtensions(ChangeTrackingExtension.EXTENSION_NAME);
+    }
+    return (
+      this.tableChangeDao.isTableExists() && this.hasExtension(ChangeTrackingExtension.EXTENSION_NAME, tableName, null)
+    );
+  }
+  /**
+   * Get the names of the tracked tables
+   * @return {string[]} table names
+   */
+  getTrackedTables(): string[] {
+    if (!this.extensionsDao.isTableExists()) {
+      return [];
+    }
+    return this.extensionsDao
+      .queryAllByExtension(ChangeTrackingExtension.EXTENSION_NAME)
+      .map(extension => extension.table_name)
+      .filter(tableName => ChangeTrackingExtension.getExtensionTables().indexOf(tableName) === -1);
+  }
+  /**
+   * Create the tables recording the changesets applied from other GeoPackages and the ids of their rows
+   */
+  createChangesetTables(): void {
+    [AppliedChangesetDao.TABLE_NAME, ChangesetIdDao.TABLE_NAME].forEach(tableName =>
+      this.getOrCreate(
+        ChangeTrackingExtension.EXTENSION_NAME,
+        tableName,
+        null,
+        ChangeTrackingExtension.EXTENSION_DEFINITION,
+        Extension.READ_WRITE,
+      ),
+    );
+    this.appliedChangesetDao.createTable();
+    this.changesetIdDao.createTable();
+  }
+  /**
+   * Track the changes of a feature or attributes table, creating the changes table and the triggers recording the
+   * changes.  Tracking a table again recreates its triggers, such as after adding columns to the table.
+   * @param tableName feature or attributes table name
+   * @return {Extension} extension of the table
+   */
+  track(tableName: string): Extension {
+    const dataType = this.geoPackage.getTableType(tableName);
+    if (dataType !== ContentsDataType.FEATURES && dataType !== ContentsDataType.ATTRIBUTES) {
+      throw new Error('Change tracking is only supported by feature and attributes tables: ' + tableName);
+    }
+    this.getOrCreate(
+      ChangeTrackingExtension.EXTENSION_NAME,
+      TableChangeDao.TABLE_NAME,
+      null,
+      ChangeTrackingExtension.EXTENSION_DEFINITION,
+      Extension.READ_WRITE,
+    );
+    const extension = this.getOrCreate(
+      ChangeTrackingExtension.EXTENSION_NAME,
+      tableName,
+      null,
+      ChangeTrackingExtension.EXTENSION_DEFINITION,
+      Extension.WRITE_ONLY,
+    );
+    this.tableChangeDao.createTable();
+    this.dropAllTriggers(tableName);
+    this.createAllTriggers(tableName);
+    return extension;
+  }
+  /**
+   * Stop tracking the changes of a table, dropping its triggers.  The changes already recorded are kept.
+   * @param tableName table name
+   */
+  untrack(tableName: string): void {
+    this.dropAllTriggers(tableName);
+    if (this.extensionsDao.isTableExists()) {
+      this.extensionsDao.deleteByExtensionAndTableName(ChangeTrackingExtension.EXTENSION_NAME, tableName);
+    }
+  }
+  /**
+   * Get the marker of the latest change, to read the changes made after it.  The marker is kept when the changes are
+   * cleared.
+   * @return {number} id of the latest change, 0 if no changes were recorded
+   */
+  getMarker(): number {
+    return this.tableChangeDao.isTableExists() ? this.tableChangeDao.queryForLastId() : 0;
+  }
+  /**
+   * Get the changes made after a marker in the order they were made
+   * @param since marker of the last change already read, defaults to 0 for all changes
+   * @param tableName only get the changes of a table
+   * @return {TableChange[]} changes
+   */
+  getChanges(since = 0, tableName?: string): TableChange[] {
+    return this.tableChangeDao.isTableExists() ? this.tableChangeDao.queryForChangesSince(since, tableName) : [];
+  }
+  /**
+   * Clear the recorded changes
+   * @param upTo marker of the last change to clear, all changes when not set
+   * @param tableName only clear the changes of a table
+   * @return {number} number of cleared changes
+   */
+  clearChanges(upTo?: number, tableName?: string): number {
+    return this.tableChangeDao.isTableExists() ? this.tableChangeDao.deleteChanges(upTo, tableName) : 0;
+  }
+  /**
+   * Stop tracking a table and delete its recorded changes and the ids of its rows applied from changesets
+   * @param tableName table name
+   */
+  deleteTable(tableName: string): void {
+    this.untrack(tableName);
+    this.clearChanges(undefined, tableName);
+    this.changesetIdDao.deleteByTableName(tableName);
+  }
+  /**
+   * Remove the extension, dropping the triggers of every tracked table, the changes table and the changeset tables
+   */
+  removeExtension(): void {
+    this.getTrackedTables().forEach(tableName => this.dropAllTriggers(tableName));
+    ChangeTrackingExtension.getExtensionTables().forEach(tableName => {
+      if (this.connection.isTableExists(tableName)) {
+        this.geoPackage.dropTable(tableName);
+      }
+    });
+    if (this.extensionsDao.isTableExists()) {
+      this.extensionsDao.deleteByExtension(ChangeTrackingExtension.EXTENSION_NAME);
+    }
+  }
+  /**
+   * Create the triggers recording the changes of a table.  An update of the primary key is recorded as a delete of
+   * the old row and an insert of the new row.
+   * @param tableName table name
+   */
+  private createAllTriggers(tableName: string): void {
+    const table = new UserCustomTableReader(tableName).readTable(this.connection);
+    const idColumn = StringUtils.quoteWrap(table.getPkColumn().getName());
+    const columns = table.getUserColumns().getColumnNames();
+    const changedColumns =
+      "'[' || rtrim(" +
+      columns
+        .map(
+          column =>
+            'CASE WHEN OLD.' +
+            StringUtils.quoteWrap(column) +
+            ' IS NOT NEW.' +
+            StringUtils.quoteWrap(column) +
+            ' THEN ' +
+            ChangeTrackingExtension.literal(JSON.stringify(column) + ',') +
+            " ELSE '' END",
+        )
+        .join(' || ') +
+      ", ',') || ']'";
+    const changed = columns
+      .map(column => 'OLD.' + StringUtils.quoteWrap(column) + ' IS NOT NEW.' + StringUtils.quoteWrap(column))
+      .join(' OR ');
+    const record = (operation: ChangeOperation, rowId: string, columnsValue = 'NULL'): string =>
+      'INSERT INTO ' +
+      TableChangeDao.TABLE_NAME +
+      ' (table_name, row_id, operation, columns) VALUES (' +
+      ChangeTrackingExtension.literal(tableName) +
+      ', ' +
+      rowId +
+      ', ' +
+      ChangeTrackingExtension.literal(operation) +
+      ', ' +
+      columnsValue +
+      ');';
+    const trigger = (name: string, event: string, when: string, body: string): string =>
+      'CREATE TRIGGER ' +
+      StringUtils.quoteWrap(ChangeTrackingExtension.getTriggerName(tableName, name)) +
+      ' AFTER ' +
+      event +
+      ' ON ' +
+      StringUtils.quoteWrap(tableName) +
+      (when ? ' WHEN ' + when : '') +
+      ' BEGIN ' +
+      body +
+      ' END;';
+    this.connection.run(
+      trigger(
+        ChangeTrackingExtension.TRIGGER_INSERT_NAME,
+        'INSERT',
+        null,
+        record(ChangeOperation.INSERT, 'NEW.' + idColumn),
+      ),
+    );
+    this.connection.run(
+      trigger(
+        ChangeTrackingExtension.TRIGGER_UPDATE_NAME,
+        'UPDATE',
+        'OLD.' + idColumn + ' = NEW.' + idColumn + ' AND (' + changed + ')',
+        record(ChangeOperation.UPDATE, 'NEW.' + idColumn, changedColumns),
+      ),
+    );
+    this.connection.run(
+      trigger(
+        ChangeTrackingExtension.TRIGGER_UPDATE_ID_NAME,
+        'UPDATE',
+        'OLD.' + idColumn + ' IS NOT NEW.' + idColumn,
+        record(ChangeOperation.DELETE, 'OLD.' + idColumn) + ' ' + record(ChangeOperation.INSERT, 'NEW.' + idColumn),
+      ),
+    );
+    this.connection.run(
+      trigger(
+        ChangeTrackingExtension.TRIGGER_DELETE_NAME,
+        'DELETE',
+        null,
+        record(ChangeOperation.DELETE, 'OLD.' + idColumn),
+      ),
+    );
+  }
+  /**
+   * Drop the triggers recording the changes of a table
+   * @param tableName table name
+   */
+  private dropAllTriggers(tableName: string): void {
+    [
+      ChangeTrackingExtension.TRIGGER_INSERT_NAME,
+      ChangeTrackingExtension.TRIGGER_UPDATE_NAME,
+      ChangeTrackingExtension.TRIGGER_UPDATE_ID_NAME,
+      ChangeTrackingExtension.TRIGGER_DELETE_NAME,
+    ].forEach(name =>
+      this.connection.run(
+        'DROP TRIGGER IF EXISTS ' + StringUtils.quoteWrap(ChangeTrackingExtension.getTriggerName(tableName, name)),
+      ),
+    );
+  }
+  /**
+   * Get the tables of the extension
+   * @return {string[]} table names
+   */
+  private static getExtensionTables(): string[] {
+    return [TableChangeDao.TABLE_NAME, AppliedChangesetDao.TABLE_NAME, ChangesetIdDao.TABLE_NAME];
+  }
+  /**
+   * Get the name of a trigger of a table
+   * @param tableName table name
+   * @param name trigger name
+   * @return {string} trigger name
+   */
+  private static getTriggerName(tableName: string, name: string): string {
+    return TableChangeDao.TABLE_NAME + '_' + tableName + '_' + name;
+  }
+  /**
+   * Write a value as a SQL string literal
+   * @param value value
+   * @return {string} literal
+   */
+  private static literal(value: string): string {
+    return "'" + value.replace(/'/g, "''") + "'";
+  }
+}
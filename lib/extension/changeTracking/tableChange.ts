@@ -0,0 +1,42 @@
+/**
+ * @memberOf module:extension/changeTracking
+ * @class TableChange
+ */
+import { ChangeOperation } from './changeOperation';
+
+/**
+ * Table change object, recording an insert, update or delete of a row of a tracked table
+ * @constructor
+ */
+export class TableChange {
+  /**
+   * Id column, primary key, increasing with each change
+   * @member {Number}
+   */
+  id: number;
+  /**
+   * Name of the changed table
+   * @member {String}
+   */
+  table_name: string;
+  /**
+   * Primary key of the changed row
+   * @member {Number}
+   */
+  row_id: number;
+  /**
+   * Operation of the change
+   * @member {ChangeOperation}
+   */
+  operation: ChangeOperation;
+  /**
+   * Time of the change, in ISO 8601 format
+   * @member {String}
+   */
+  timestamp: string;
+  /**
+   * Names of the columns changed by an update, null for inserts and deletes
+   * @member {String[]}
+   */
+  columns: string[];
+}
@@ -0,0 +1,103 @@
+import { Dao } from '../../dao/dao';
+import { TableChange } from './tableChange';
+import { ChangeOperation } from './changeOperation';
+import { DBValue } from '../../db/dbAdapter';
+
+/**
+ * Table Change Data Access Object
+ * @constructor
+ * @extends Dao
+ */
+export class TableChangeDao extends Dao<TableChange> {
+  public static readonly TABLE_NAME: string = 'nga_table_changes';
+  public static readonly COLUMN_ID: string = 'id';
+  public static readonly COLUMN_TABLE_NAME: string = 'table_name';
+  public static readonly COLUMN_ROW_ID: string = 'row_id';
+  public static readonly COLUMN_OPERATION: string = 'operation';
+  public static readonly COLUMN_TIMESTAMP: string = 'timestamp';
+  public static readonly COLUMN_COLUMNS: string = 'columns';
+
+  readonly gpkgTableName: string = TableChangeDao.TABLE_NAME;
+  readonly idColumns: string[] = [TableChangeDao.COLUMN_ID];
+  /**
+   * Create a {module:extension/changeTracking.TableChange} object
+   * @return {module:extension/changeTracking.TableChange}
+   */
+  createObject(results?: Record<string, DBValue>): TableChange {
+    const change = new TableChange();
+    if (results) {
+      change.id = results.id as number;
+      change.table_name = results.table_name as string;
+      change.row_id = results.row_id as number;
+      change.operation = results.operation as ChangeOperation;
+      change.timestamp = results.timestamp as string;
+      change.columns = results.columns != null ? JSON.parse(results.columns as string) : null;
+    }
+    return change;
+  }
+  /**
+   * Create the necessary tables for this dao
+   * @return {boolean}
+   */
+  createTable(): boolean {
+    return this.geoPackage.getTableCreator().createTableChanges();
+  }
+  /**
+   * Query the changes after a change id in the order they were made
+   * @param  {Number} since id of the last change already read, 0 for all changes
+   * @param  {string} [tableName] only query the changes of a table
+   * @return {module:extension/changeTracking.TableChange[]}
+   */
+  queryForChangesSince(since: number, tableName?: string): TableChange[] {
+    let where = TableChangeDao.COLUMN_ID + ' > ?';
+    const whereArgs: DBValue[] = [since];
+    if (tableName != null) {
+      where += ' and ' + this.buildWhereWithFieldAndValue(TableChangeDao.COLUMN_TABLE_NAME, tableName);
+      whereArgs.push(tableName);
+    }
+    return this.connection
+      .all(
+        'select * from ' + TableChangeDao.TABLE_NAME + ' where ' + where + ' order by ' + TableChangeDao.COLUMN_ID,
+        whereArgs,
+      )
+      .map(result => this.createObject(result));
+  }
+  /**
+   * Delete the changes after a change id
+   * @param  {Number} since id of the last change to keep
+   * @return {number} number of deleted rows
+   */
+  deleteChangesSince(since: number): number {
+    return this.deleteWhere(TableChangeDao.COLUMN_ID + ' > ?', [since]);
+  }
+  /**
+   * Get the id of the latest change.  Ids are not reused, so the id is kept when the changes are deleted.
+   * @return {Number} id of the latest change, 0 if no changes were recorded
+   */
+  queryForLastId(): number {
+    const result = this.connection.get('select seq from sqlite_sequence where name = ?', [TableChangeDao.TABLE_NAME]);
+    return result && result.seq != null ? (result.seq as number) : 0;
+  }
+  /**
+   * Delete the changes up to and including a change id
+   * @param  {Number} [upTo] id of the last change to delete, all changes when not set
+   * @param  {string} [tableName] only delete the changes of a table
+   * @return {number} number of deleted rows
+   */
+  deleteChanges(upTo?: number, tableName?: string): number {
+    const conditions: string[] = [];
+    const whereArgs: DBValue[] = [];
+    if (upTo != null) {
+      conditions.push(TableChangeDao.COLUMN_ID + ' <= ?');
+      whereArgs.push(upTo);
+    }
+    if (tableName != null) {
+      conditions.push(this.buildWhereWithFieldAndValue(TableChangeDao.COLUMN_TABLE_NAME, tableName));
+      whereArgs.push(tableName);
+    }
+    if (conditions.length === 0) {
+      return this.deleteAll();
+    }
+    return this.deleteWhere(conditions.join(' and '), whereArgs);
+  }
+}
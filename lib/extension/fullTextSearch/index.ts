@@ -0,0 +1,449 @@
+/**
+ * @module extension/fullTextSearch
+ */
+import proj4 from 'proj4';
+
+import { BaseExtension } from '../baseExtension';
+import { GeoPackage } from '../../geoPackage';
+import { Extension } from '../extension';
+import { UserDao } from '../../user/userDao';
+import { UserRow } from '../../user/userRow';
+import { BoundingBox } from '../../boundingBox';
+import { DBValue } from '../../db/dbAdapter';
+import { GeoPackageDataType } from '../../db/geoPackageDataType';
+import { StringUtils } from '../../db/stringUtils';
+import { CoreSQLUtils } from '../../db/coreSQLUtils';
+import { ContentsDataType } from '../../core/contents/contentsDataType';
+import { UserCustomTableReader } from '../../user/custom/userCustomTableReader';
+import { SQLiteMaster } from '../../db/master/sqliteMaster';
+import { SQLiteMasterColumn } from '../../db/master/sqliteMasterColumn';
+import { SQLiteMasterType } from '../../db/master/sqliteMasterType';
+import { SQLiteMasterQuery } from '../../db/master/sqliteMasterQuery';
+
+/**
+ * Options of a full text search
+ */
+export interface FullTextSearchOptions {
+  /**
+   * Indexed columns to search, defaults to all indexed columns
+   */
+  columns?: string[];
+  /**
+   * Match each term of the query as a prefix, such as while the user is typing
+   */
+  prefix?: boolean;
+  /**
+   * Pass the query to FTS5 as is instead of matching each whitespace separated term of the query, allowing the FTS5
+   * query syntax such as OR, NOT, NEAR and phrases
+   */
+  raw?: boolean;
+  /**
+   * Only match rows whose geometry envelopes intersect the bounding box, only supported by feature tables
+   */
+  boundingBox?: BoundingBox;
+  /**
+   * Projection of the bounding box, defaults to the projection of the table
+   */
+  projection?: string | proj4.Converter;
+  /**
+   * Additional where clause on the columns of the table
+   */
+  where?: string;
+  /**
+   * Arguments of the where clause
+   */
+  whereArgs?: DBValue[];
+  /**
+   * Maximum number of results
+   */
+  limit?: number;
+  /**
+   * Number of results to skip, requires a limit
+   */
+  offset?: number;
+}
+
+/**
+ * Row matching a full text search
+ */
+export interface FullTextSearchResult<T extends UserRow> {
+  row: T;
+  /**
+   * BM25 rank of the match, lower ranks are better matches
+   */
+  rank: number;
+}
+
+/**
+ * Full text search extension.  Creates an FTS5 index of TEXT columns of a feature or attributes table in a table named
+ * fts_&lt;table&gt;, which reads its content from the table and is kept in sync with insert, update and delete
+ * triggers.  Each indexed column is registered in gpkg_extensions.  Searching requires a SQLite build with FTS5.
+ */
+export class FullTextSearchExtension extends BaseExtension {
+  public static readonly EXTENSION_NAME: string = 'nga_fts';
+  public static readonly EXTENSION_AUTHOR: string = 'nga';
+  public static readonly EXTENSION_NAME_NO_AUTHOR: string = 'fts';
+  public static readonly EXTENSION_DEFINITION: string = 'https://www.sqlite.org/fts5.html';
+  public static readonly TABLE_PREFIX: string = 'fts_';
+  public static readonly TRIGGER_INSERT_NAME: string = 'insert';
+  public static readonly TRIGGER_UPDATE_NAME: string = 'update';
+  public static readonly TRIGGER_DELETE_NAME: string = 'delete';
+
+  constructor(geoPackage: GeoPackage) {
+    super(geoPackage);
+    this.extensionName = FullTextSearchExtension.EXTENSION_NAME;
+    this.extensionDefinition = FullTextSearchExtension.EXTENSION_DEFINITION;
+  }
+  /**
+   * Determine if the SQLite build of the connection has FTS5
+   * @return {boolean}
+   */
+  isSupported(): boolean {
+    try {
+      return this.connection.get("select count(*) as count from pragma_module_list where name = 'fts5'").count > 0;
+    } catch (e) {
+      return false;
+    }
+  }
+  /**
+   * Determine if the GeoPackage has the extension, or if the table is indexed when a table name is passed
+   * @param tableName table name
+   * @return {boolean}
+   */
+  has(tableName?: string): boolean {
+    if (!this.extensionsDao.isTableExists()) {
+      return false;
+    }
+    if (tableName == null) {
+      return this.hasExtensions(FullTextSearchExtension.EXTENSION_NAME);
+    }
+    return (
+      this.getColumns(tableName).length > 0 &&
+      this.connection.isTableExists(FullTextSearchExtension.getFullTextTableName(tableName))
+    );
+  }
+  /**
+   * Get the names of the indexed tables
+   * @return {string[]} table names
+   */
+  getTables(): string[] {
+    if (!this.extensionsDao.isTableExists()) {
+      return [];
+    }
+    const tables = this.extensionsDao
+      .queryAllByExtension(FullTextSearchExtension.EXTENSION_NAME)
+      .map(extension => extension.table_name);
+    return tables.filter((table, i) => tables.indexOf(table) === i);
+  }
+  /**
+   * Get the indexed columns of a table
+   * @param tableName table name
+   * @return {string[]} column names, empty if the table is not indexed
+   */
+  getColumns(tableName: string): string[] {
+    return this.getFullTextSearchExtensions(tableName).map(extension => extension.column_name);
+  }
+  /**
+   * Get the FTS5 tokenizer of the full text table of a table, read from its create statement
+   * @param tableName table name
+   * @return {string} tokenizer, undefined if the table is not indexed or uses the FTS5 default tokenizer
+   */
+  getTokenizer(tableName: string): string {
+    const master = SQLiteMaster.query(
+      this.connection,
+      [SQLiteMasterColumn.SQL],
+      [SQLiteMasterType.TABLE],
+      SQLiteMasterQuery.createForColumnValue(
+        SQLiteMasterColumn.NAME,
+        FullTextSearchExtension.getFullTextTableName(tableName),
+      ),
+    );
+    if (master.count() === 0) {
+      return undefined;
+    }
+    const tokenize = /tokenize='([\w ]+)'/.exec(master.getSql(0) || '');
+    return tokenize ? tokenize[1] : undefined;
+  }
+  /**
+   * Get the extensions of the indexed columns of a table
+   * @param tableName table name
+   * @return {Extension[]} extensions, empty if the table is not indexed
+   */
+  getFullTextSearchExtensions(tableName: string): Extension[] {
+    if (!this.extensionsDao.isTableExists()) {
+      return [];
+    }
+    return this.extensionsDao.queryByExtensionAndTableName(FullTextSearchExtension.EXTENSION_NAME, tableName);
+  }
+  /**
+   * Get the name of the full text table of a table
+   * @param tableName table name
+   * @return {string} full text table name
+   */
+  static getFullTextTableName(tableName: string): string {
+    return FullTextSearchExtension.TABLE_PREFIX + tableName;
+  }
+  /**
+   * Index TEXT columns of a feature or attributes table, creating the full text table, loading it and creating the
+   * triggers keeping it in sync.  A table that is already indexed keeps its index, delete the index to change the
+   * columns.
+   * @param tableName feature or attributes table name
+   * @param columns TEXT columns to index
+   * @param tokenize FTS5 tokenizer, such as 'porter unicode61', defaults to the FTS5 default tokenizer
+   * @return {Extension[]} extension of each indexed column
+   */
+  create(tableName: string, columns: string[], tokenize?: string): Extension[] {
+    if (this.has(tableName)) {
+      return this.getFullTextSearchExtensions(tableName);
+    }
+    if (!this.isSupported()) {
+      throw new Error('Full text search requires a SQLite build with FTS5');
+    }
+    const dataType = this.geoPackage.getTableType(tableName);
+    if (dataType !== ContentsDataType.FEATURES && dataType !== ContentsDataType.ATTRIBUTES) {
+      throw new Error('Full text search is only supported by feature and attributes tables: ' + tableName);
+    }
+    if (!columns || columns.length === 0) {
+      throw new Error('Full text search requires at least one column to index');
+    }
+    if (tokenize != null && !/^[\w ]+$/.test(tokenize)) {
+      throw new Error('Invalid full text search tokenizer: ' + tokenize);
+    }
+    const table = new UserCustomTableReader(tableName).readTable(this.connection);
+    columns.forEach(column => {
+      if (!table.hasColumn(column)) {
+        throw new Error('Column ' + column + ' does not exist in table ' + tableName);
+      }
+      if (table.getColumnWithColumnName(column).dataType !== GeoPackageDataType.TEXT) {
+        throw new Error('Full text search only indexes TEXT columns: ' + column);
+      }
+    });
+    const idColumn = table.getPkColumn().getName();
+    columns.forEach(column =>
+      this.getOrCreate(
+        FullTextSearchExtension.EXTENSION_NAME,
+        tableName,
+        column,
+        FullTextSearchExtension.EXTENSION_DEFINITION,
+        Extension.WRITE_ONLY,
+      ),
+    );
+    this.createFullTextTable(tableName, idColumn, columns, tokenize);
+    this.rebuild(tableName);
+    this.createAllTriggers(tableName, idColumn, columns);
+    return this.getFullTextSearchExtensions(tableName);
+  }
+  /**
+   * Reload the full text table of a table from the content of the table
+   * @param tableName table name
+   */
+  rebuild(tableName: string): void {
+    const fullTextTable = StringUtils.quoteWrap(FullTextSearchExtension.getFullTextTableName(tableName));
+    this.connection.run('INSERT INTO ' + fullTextTable + '(' + fullTextTable + ") VALUES('rebuild')");
+  }
+  /**
+   * Search a table, ordering the matching rows by rank
+   * @param dao dao of the table
+   * @param query text to search for, or an FTS5 query when the raw option is set
+   * @param options search options
+   * @return {FullTextSearchResult[]} matching rows and their ranks
+   */
+  search<T extends UserRow>(
+    dao: UserDao<T>,
+    query: string,
+    options: FullTextSearchOptions = {},
+  ): FullTextSearchResult<T>[] {
+    const tableName = dao.gpkgTableName;
+    if (!this.has(tableName)) {
+      throw new Error('Full text search is not enabled for table: ' + tableName);
+    }
+    const indexedColumns = this.getColumns(tableName);
+    (options.columns || []).forEach(column => {
+      if (indexedColumns.indexOf(column) === -1) {
+        throw new Error('Column ' + column + ' is not indexed for full text search in table ' + tableName);
+      }
+    });
+    let match = options.raw ? query : FullTextSearchExtension.buildMatch(query, options.prefix);
+    if (!match) {
+      return [];
+    }
+    if (options.columns && options.columns.length) {
+      match =
+        '{' + options.columns.map(column => '"' + column.replace(/"/g, '""') + '"').join(' ') + '} : (' + match + ')';
+    }
+    if (options.limit != null) {
+      FullTextSearchExtension.validateCount('limit', options.limit, 1);
+    }
+    if (options.offset != null) {
+      if (options.limit == null) {
+        throw new Error('An offset requires a limit');
+      }
+      FullTextSearchExtension.validateCount('offset', options.offset, 0);
+    }
+    const fullTextTable = StringUtils.quoteWrap(FullTextSearchExtension.getFullTextTableName(tableName));
+    const quotedTable = StringUtils.quoteWrap(tableName);
+    const conditions: string[] = [];
+    const args: DBValue[] = [match];
+    if (options.boundingBox) {
+      if (!dao.buildBoundingBoxWhere) {
+        throw new Error('Bounding box queries are only supported by feature tables: ' + tableName);
+      }
+      const clause = dao.buildBoundingBoxWhere(options.boundingBox, options.projection);
+      conditions.push(clause.where);
+      args.push(...clause.whereArgs);
+    }
+    if (options.where) {
+      conditions.push('(' + options.where + ')');
+      args.push(...(options.whereArgs || []));
+    }
+    let sql =
+      'SELECT ' +
+      quotedTable +
+      '.*, m.fts_rank FROM ' +
+      quotedTable +
+      ' INNER JOIN (SELECT rowid AS fts_rowid, bm25(' +
+      fullTextTable +
+      ') AS fts_rank FROM ' +
+      fullTextTable +
+      ' WHERE ' +
+      fullTextTable +
+      ' MATCH ?) AS m ON ' +
+      quotedTable +
+      '.' +
+      StringUtils.quoteWrap(dao.table.getPkColumn().getName()) +
+      ' = m.fts_rowid';
+    if (conditions.length) {
+      sql += ' WHERE ' + conditions.join(' AND ');
+    }
+    sql += ' ORDER BY m.fts_rank';
+    if (options.limit != null) {
+      sql += ' LIMIT ' + options.limit;
+      if (options.offset != null) {
+        sql += ' OFFSET ' + options.offset;
+      }
+    }
+    return dao.connection.all(sql, args).map(result => {
+      const rank = result.fts_rank as number;
+      delete result.fts_rank;
+      return { row: dao.getRow(result) as T, rank };
+    });
+  }
+  /**
+   * Delete the full text index of a table, dropping the triggers and the full text table and deleting the extension
+   * @param tableName table name
+   */
+  deleteTable(tableName: string): void {
+    const fullTextTableName = FullTextSearchExtension.getFullTextTableName(tableName);
+    [
+      FullTextSearchExtension.TRIGGER_INSERT_NAME,
+      FullTextSearchExtension.TRIGGER_UPDATE_NAME,
+      FullTextSearchExtension.TRIGGER_DELETE_NAME,
+    ].forEach(name =>
+      this.connection.run('DROP TRIGGER IF EXISTS ' + StringUtils.quoteWrap(fullTextTableName + '_' + name)),
+    );
+    CoreSQLUtils.dropTable(this.connection, fullTextTableName);
+    if (this.extensionsDao.isTableExists()) {
+      this.extensionsDao.deleteByExtensionAndTableName(FullTextSearchExtension.EXTENSION_NAME, tableName);
+    }
+  }
+  /**
+   * Remove the extension, deleting the full text index of every table
+   */
+  removeExtension(): void {
+    this.getTables().forEach(tableName => this.deleteTable(tableName));
+    if (this.extensionsDao.isTableExists()) {
+      this.extensionsDao.deleteByExtension(FullTextSearchExtension.EXTENSION_NAME);
+    }
+  }
+  /**
+   * Create the full text table reading its content from a table
+   * @param tableName table name
+   * @param idColumn primary key column of the table
+   * @param columns indexed columns
+   * @param tokenize FTS5 tokenizer
+   */
+  private createFullTextTable(tableName: string, idColumn: string, columns: string[], tokenize?: string): void {
+    this.connection.run(
+      'CREATE VIRTUAL TABLE ' +
+        StringUtils.quoteWrap(FullTextSearchExtension.getFullTextTableName(tableName)) +
+        ' USING fts5(' +
+        columns.map(column => StringUtils.quoteWrap(column)).join(', ') +
+        ", content='" +
+        tableName.replace(/'/g, "''") +
+        "', content_rowid='" +
+        idColumn.replace(/'/g, "''") +
+        "'" +
+        (tokenize != null ? ", tokenize='" + tokenize + "'" : '') +
+        ')',
+    );
+  }
+  /**
+   * Create the triggers keeping the full text table in sync with its table
+   * @param tableName table name
+   * @param idColumn primary key column of the table
+   * @param columns indexed columns
+   */
+  private createAllTriggers(tableName: string, idColumn: string, columns: string[]): void {
+    const fullTextTableName = FullTextSearchExtension.getFullTextTableName(tableName);
+    const fullTextTable = StringUtils.quoteWrap(fullTextTableName);
+    const quotedTable = StringUtils.quoteWrap(tableName);
+    const quotedColumns = columns.map(column => StringUtils.quoteWrap(column));
+    const values = (prefix: string): string =>
+      [idColumn, ...columns].map(column => prefix + '.' + StringUtils.quoteWrap(column)).join(', ');
+    const insert =
+      'INSERT INTO ' + fullTextTable + '(rowid, ' + quotedColumns.join(', ') + ') VALUES (' + values('NEW') + ');';
+    const remove =
+      'INSERT INTO ' +
+      fullTextTable +
+      '(' +
+      fullTextTable +
+      ', rowid, ' +
+      quotedColumns.join(', ') +
+      ") VALUES ('delete', " +
+      values('OLD') +
+      ');';
+    const trigger = (name: string, event: string, body: string): string =>
+      'CREATE TRIGGER ' +
+      StringUtils.quoteWrap(fullTextTableName + '_' + name) +
+      ' AFTER ' +
+      event +
+      ' ON ' +
+      quotedTable +
+      ' BEGIN ' +
+      body +
+      ' END;';
+    this.connection.run(trigger(FullTextSearchExtension.TRIGGER_INSERT_NAME, 'INSERT', insert));
+    this.connection.run(
+      trigger(
+        FullTextSearchExtension.TRIGGER_UPDATE_NAME,
+        'UPDATE OF ' + [StringUtils.quoteWrap(idColumn), ...quotedColumns].join(', '),
+        remove + ' ' + insert,
+      ),
+    );
+    this.connection.run(trigger(FullTextSearchExtension.TRIGGER_DELETE_NAME, 'DELETE', remove));
+  }
+  /**
+   * Build an FTS5 query matching each whitespace separated term of a text
+   * @param text text
+   * @param prefix match each term as a prefix
+   * @return {string} FTS5 query, empty if the text has no terms
+   */
+  private static buildMatch(text: string, prefix?: boolean): string {
+    return (text || '')
+      .split(/\s+/)
+      .filter(term => term.length > 0)
+      .map(term => '"' + term.replace(/"/g, '""') + '"' + (prefix ? '*' : ''))
+      .join(' ');
+  }
+  /**
+   * Validate a limit or offset
+   * @param name name of the value
+   * @param value value
+   * @param min minimum value
+   */
+  private static validateCount(name: string, value: number, min: number): void {
+    if (typeof value !== 'number' || !isFinite(value) || value < min || Math.floor(value) !== value) {
+      throw new Error('The ' + name + ' must be an integer of at least ' + min + ': ' + value);
+    }
+  }
+}
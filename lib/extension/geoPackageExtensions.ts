@@ -19,6 +19,9 @@ import { ConstraintParser } from '../db/table/constraintParser';
 import { MetadataExtension } from './metadata';
 import { MetadataReferenceDao } from '../metadata/reference/metadataReferenceDao';
 import { CrsWktExtension } from './crsWkt';
+import { VectorTilesExtension } from './vectorTiles';
+import { FullTextSearchExtension } from './fullTextSearch';
+import { ChangeTrackingExtension } from './changeTracking';
 
 export class GeoPackageExtensions {
 
@@ -35,6 +38,9 @@ export class GeoPackageExtensions {
     GeoPackageExtensions.deleteRelatedTables(geoPackage, table);
     GeoPackageExtensions.deleteSchema(geoPackage, table);
     GeoPackageExtensions.deleteMetadata(geoPackage, table);
+    GeoPackageExtensions.deleteVectorTiles(geoPackage, table);
+    GeoPackageExtensions.deleteFullTextSearch(geoPackage, table);
+    GeoPackageExtensions.deleteChangeTracking(geoPackage, table);
     GeoPackageExtensions.deleteExtensionForTable(geoPackage, table);
   }
 
@@ -50,6 +56,9 @@ export class GeoPackageExtensions {
     this.deleteSchemaExtension(geoPackage);
     this.deleteMetadataExtension(geoPackage);
     this.deleteCrsWktExtension(geoPackage);
+    this.deleteVectorTilesExtension(geoPackage);
+    this.deleteFullTextSearchExtension(geoPackage);
+    this.deleteChangeTrackingExtension(geoPackage);
     this.delete(geoPackage);
   }
 
@@ -66,6 +75,8 @@ export class GeoPackageExtensions {
       GeoPackageExtensions.copyRelatedTables(geoPackage, table, newTable);
       GeoPackageExtensions.copySchema(geoPackage, table, newTable);
       GeoPackageExtensions.copyMetadata(geoPackage, table, newTable);
+      GeoPackageExtensions.copyVectorTiles(geoPackage, table, newTable);
+      GeoPackageExtensions.copyFullTextSearch(geoPackage, table, newTable);
       // Handle copying any extensions with extra tables here
       NGAExtensions.copyTableExtensions(geoPackage, table, newTable);
     } catch (e) {
@@ -353,4 +364,111 @@ export class GeoPackageExtensions {
       crsWktExtension.removeExtension();
     }
   }
+
+  /**
+   * Delete the Vector Tiles extension for the table
+   * @param geoPackage GeoPackage
+   * @param table table name
+   */
+  static deleteVectorTiles(geoPackage: GeoPackage, table: string): void {
+    const vectorTilesExtension = new VectorTilesExtension(geoPackage);
+    if (vectorTilesExtension.has(table)) {
+      vectorTilesExtension.deleteTable(table);
+    }
+  }
+
+  /**
+   * Delete the Vector Tiles extension
+   * @param geoPackage GeoPackage
+   */
+  static deleteVectorTilesExtension(geoPackage: GeoPackage): void {
+    const vectorTilesExtension = new VectorTilesExtension(geoPackage);
+    if (vectorTilesExtension.has()) {
+      vectorTilesExtension.removeExtension();
+    }
+  }
+
+  /**
+   * Copy the Vector Tiles extension for the table
+   * @param geoPackage GeoPackage
+   * @param table table name
+   * @param newTable new table name
+   */
+  static copyVectorTiles(geoPackage: GeoPackage, table: string, newTable: string): void {
+    try {
+      const vectorTilesExtension = new VectorTilesExtension(geoPackage);
+      if (vectorTilesExtension.has(table)) {
+        vectorTilesExtension.copyTable(table, newTable);
+      }
+    } catch (e) {
+      console.warn('Failed to create Vector Tiles for table: ' + newTable + ', copied from table: ' + table, e);
+    }
+  }
+
+  /**
+   * Delete the Full Text Search extension for the table
+   * @param geoPackage GeoPackage
+   * @param table table name
+   */
+  static deleteFullTextSearch(geoPackage: GeoPackage, table: string): void {
+    const fullTextSearchExtension = new FullTextSearchExtension(geoPackage);
+    if (fullTextSearchExtension.has(table)) {
+      fullTextSearchExtension.deleteTable(table);
+    }
+  }
+
+  /**
+   * Delete the Full Text Search extension
+   * @param geoPackage GeoPackage
+   */
+  static deleteFullTextSearchExtension(geoPackage: GeoPackage): void {
+    const fullTextSearchExtension = new FullTextSearchExtension(geoPackage);
+    if (fullTextSearchExtension.has()) {
+      fullTextSearchExtension.removeExtension();
+    }
+  }
+
+  /**
+   * Copy the Full Text Search extension for the table
+   * @param geoPackage GeoPackage
+   * @param table table name
+   * @param newTable new table name
+   */
+  static copyFullTextSearch(geoPackage: GeoPackage, table: string, newTable: string): void {
+    try {
+      const fullTextSearchExtension = new FullTextSearchExtension(geoPackage);
+      if (fullTextSearchExtension.has(table)) {
+        fullTextSearchExtension.create(
+          newTable,
+          fullTextSearchExtension.getColumns(table),
+          fullTextSearchExtension.getTokenizer(table),
+        );
+      }
+    } catch (e) {
+      console.warn('Failed to create Full Text Search for table: ' + newTable + ', copied from table: ' + table, e);
+    }
+  }
+
+  /**
+   * Delete the Change Tracking extension for the table
+   * @param geoPackage GeoPackage
+   * @param table table name
+   */
+  static deleteChangeTracking(geoPackage: GeoPackage, table: string): void {
+    const changeTrackingExtension = new ChangeTrackingExtension(geoPackage);
+    if (changeTrackingExtension.has()) {
+      changeTrackingExtension.deleteTable(table);
+    }
+  }
+
+  /**
+   * Delete the Change Tracking extension
+   * @param geoPackage GeoPackage
+   */
+  static deleteChangeTrackingExtension(geoPackage: GeoPackage): void {
+    const changeTrackingExtension = new ChangeTrackingExtension(geoPackage);
+    if (changeTrackingExtension.has()) {
+      changeTrackingExtension.removeExtension();
+    }
+  }
 }
@@ -0,0 +1,128 @@
+import wkx from 'wkx';
+import { GeoPackage } from '../../geoPackage';
+import { BaseExtension } from '../baseExtension';
+import { Extension } from '../extension';
+import { GeometryType } from '../../features/user/geometryType';
+import { ExtendedGeometry } from '../../geom/extended/extendedGeometry';
+
+/**
+ * Geometry types extension, registered for each non-standard geometry type stored in a geometry column.  The curve
+ * and surface types defined by the GeoPackage specification are gpkg_geom_<type> extensions, the remaining types are
+ * nga_geom_<type> user defined geometry type extensions.
+ */
+export class GeometryExtensions extends BaseExtension {
+  public static readonly EXTENSION_GEOMETRY_TYPES_AUTHOR: string = 'gpkg';
+  public static readonly EXTENSION_USER_GEOMETRY_TYPES_AUTHOR: string = 'nga';
+  public static readonly EXTENSION_GEOMETRY_TYPES_NAME_NO_AUTHOR: string = 'geom';
+  public static readonly EXTENSION_GEOMETRY_TYPES_DEFINITION: string =
+    'http://www.geopackage.org/spec/#extension_geometry_types';
+
+  constructor(geoPackage: GeoPackage) {
+    super(geoPackage);
+  }
+
+  /**
+   * Get or create the extension for the geometry type of a geometry column
+   * @param tableName table name
+   * @param columnName geometry column name
+   * @param geometryType geometry type
+   * @return extension
+   */
+  getOrCreateExtension(tableName: string, columnName: string, geometryType: GeometryType): Extension {
+    if (!GeometryExtensions.isExtension(geometryType)) {
+      throw new Error('Geometry type is not an extension: ' + GeometryType.nameFromType(geometryType));
+    }
+    return this.getOrCreate(
+      GeometryExtensions.getExtensionName(geometryType),
+      tableName,
+      columnName,
+      GeometryExtensions.EXTENSION_GEOMETRY_TYPES_DEFINITION,
+      Extension.READ_WRITE,
+    );
+  }
+
+  /**
+   * Get or create the extensions for each extended geometry type within a geometry
+   * @param tableName table name
+   * @param columnName geometry column name
+   * @param geometry geometry
+   * @return extensions
+   */
+  getOrCreateExtensionsForGeometry(tableName: string, columnName: string, geometry: wkx.Geometry): Extension[] {
+    return GeometryExtensions.getExtendedGeometryTypes(geometry).map(geometryType =>
+      this.getOrCreateExtension(tableName, columnName, geometryType),
+    );
+  }
+
+  /**
+   * Determine if the geometry column has the extension for the geometry type
+   * @param tableName table name
+   * @param columnName geometry column name
+   * @param geometryType geometry type
+   */
+  has(tableName: string, columnName: string, geometryType: GeometryType): boolean {
+    return (
+      GeometryExtensions.isExtension(geometryType) &&
+      this.hasExtension(GeometryExtensions.getExtensionName(geometryType), tableName, columnName)
+    );
+  }
+
+  /**
+   * Determine if the geometry type requires an extension
+   * @param geometryType geometry type
+   */
+  static isExtension(geometryType: GeometryType): boolean {
+    return geometryType > GeometryType.GEOMETRYCOLLECTION;
+  }
+
+  /**
+   * Determine if the geometry type is an extension defined by the GeoPackage specification
+   * @param geometryType geometry type
+   */
+  static isGeoPackageExtension(geometryType: GeometryType): boolean {
+    return geometryType >= GeometryType.CIRCULARSTRING && geometryType <= GeometryType.SURFACE;
+  }
+
+  /**
+   * Get the extension name of the geometry type
+   * @param geometryType geometry type
+   * @return extension name, such as gpkg_geom_CIRCULARSTRING
+   */
+  static getExtensionName(geometryType: GeometryType): string {
+    const author = GeometryExtensions.isGeoPackageExtension(geometryType)
+      ? GeometryExtensions.EXTENSION_GEOMETRY_TYPES_AUTHOR
+      : GeometryExtensions.EXTENSION_USER_GEOMETRY_TYPES_AUTHOR;
+    return (
+      author +
+      '_' +
+      GeometryExtensions.EXTENSION_GEOMETRY_TYPES_NAME_NO_AUTHOR +
+      '_' +
+      GeometryType.nameFromType(geometryType)
+    );
+  }
+
+  /**
+   * Get the extended geometry types within a geometry
+   * @param geometry geometry
+   * @return geometry types
+   */
+  static getExtendedGeometryTypes(geometry: wkx.Geometry): GeometryType[] {
+    const geometryTypes: GeometryType[] = [];
+    const addGeometryTypes = (component: wkx.Geometry): void => {
+      let components: wkx.Geometry[] = [];
+      if (component instanceof ExtendedGeometry) {
+        if (geometryTypes.indexOf(component.geometryType) === -1) {
+          geometryTypes.push(component.geometryType);
+        }
+        components = component.getGeometries();
+      } else if (component instanceof wkx.GeometryCollection) {
+        components = component.geometries;
+      }
+      components.forEach(addGeometryTypes);
+    };
+    if (geometry) {
+      addGeometryTypes(geometry);
+    }
+    return geometryTypes;
+  }
+}
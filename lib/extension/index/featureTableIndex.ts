@@ -17,6 +17,7 @@ import { Envelope } from '../../geom/envelope';
 import { FeatureRow } from '../../features/user/featureRow';
 import { GeometryData } from '../../geom/geometryData';
 import { BoundingBox } from '../../boundingBox';
+import { DBValue } from '../../db/dbAdapter';
 
 /**
  * This class will either use the RTree index if it exists, or the
@@ -325,13 +326,15 @@ export class FeatureTableIndex extends BaseExtension {
   /**
    * Query witha geometry envelope
    * @param  {any} envelope envelope
+   * @param  {string} [where] additional where clause on the feature table
+   * @param  {DBValue[]} [whereArgs] additional where arguments
    * @return {IterableIterator<any>}
    */
-  queryWithGeometryEnvelope(envelope: Envelope): IterableIterator<any> {
+  queryWithGeometryEnvelope(envelope: Envelope, where?: string, whereArgs?: DBValue[]): IterableIterator<any> {
     if (this.rtreeIndexed) {
-      return this.rtreeIndexDao.queryWithGeometryEnvelope(envelope);
+      return this.rtreeIndexDao.queryWithGeometryEnvelope(envelope, where, whereArgs);
     } else {
-      return this.geometryIndexDao.queryWithGeometryEnvelope(envelope);
+      return this.geometryIndexDao.queryWithGeometryEnvelope(envelope, where, whereArgs);
     }
   }
   /**
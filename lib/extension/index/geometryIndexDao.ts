@@ -203,13 +203,19 @@ export class GeometryIndexDao extends Dao<GeometryIndex> {
    * @param  {Number} envelope.maxM max m
    * @param  {Boolean} envelope.hasM has m
    * @param  {Boolean} envelope.hasZ has z
+   * @param  {string} [where] additional where clause on the joined feature table
+   * @param  {DBValue[]} [whereArgs] additional where arguments
    */
-  queryWithGeometryEnvelope(envelope: Envelope): IterableIterator<GeometryIndex> {
+  queryWithGeometryEnvelope(
+    envelope: Envelope,
+    where?: string,
+    whereArgs?: DBValue[],
+  ): IterableIterator<GeometryIndex> {
     const result = this._generateGeometryEnvelopeQuery(envelope);
     return (this.queryJoinWhereWithArgs(
       result.join,
-      result.where,
-      result.whereArgs,
+      where ? result.where + ' and ' + where : result.where,
+      where && whereArgs ? result.whereArgs.concat(whereArgs) : result.whereArgs,
       result.tableNameArr,
     ) as unknown) as IterableIterator<GeometryIndex>;
   }
@@ -105,16 +105,27 @@ export class RTreeIndexDao extends Dao<RTreeIndex> {
   /**
    * Query witha geometry envelope
    * @param  {any} envelope envelope
+   * @param  {string} [where] additional where clause on the joined feature table
+   * @param  {any[]} [whereArgs] additional where arguments
    * @return {IterableIterator<any>}
    */
-  queryWithGeometryEnvelope(envelope: {
-    minX: number;
-    maxX: number;
-    minY: number;
-    maxY: number;
-  }): IterableIterator<any> {
+  queryWithGeometryEnvelope(
+    envelope: {
+      minX: number;
+      maxX: number;
+      minY: number;
+      maxY: number;
+    },
+    where?: string,
+    whereArgs?: DBValue[],
+  ): IterableIterator<any> {
     const result = this._generateGeometryEnvelopeQuery(envelope);
-    return this.queryJoinWhereWithArgs(result.join, result.where, result.whereArgs, result.tableNameArr);
+    return this.queryJoinWhereWithArgs(
+      result.join,
+      where ? result.where + ' and ' + where : result.where,
+      where && whereArgs ? result.whereArgs.concat(whereArgs) : result.whereArgs,
+      result.tableNameArr,
+    );
   }
   countWithGeometryEnvelope(envelope: { minX: number; maxX: number; minY: number; maxY: number }): number {
     const result = this._generateGeometryEnvelopeQuery(envelope);
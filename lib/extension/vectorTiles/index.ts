@@ -0,0 +1,573 @@
+/**
+ * @module extension/vectorTiles
+ */
+import { Feature, FeatureCollection, Position } from 'geojson';
+
+import { BaseExtension } from '../baseExtension';
+import { GeoPackage } from '../../geoPackage';
+import { Extension } from '../extension';
+import { VectorTileLayerDao } from './vectorTileLayerDao';
+import { VectorTileFieldDao } from './vectorTileFieldDao';
+import { VectorTileLayer } from './vectorTileLayer';
+import { VectorTileField } from './vectorTileField';
+import { VectorTileFieldType } from './vectorTileFieldType';
+import { VectorTileEncoding } from './vectorTileEncoding';
+import { BoundingBox } from '../../boundingBox';
+import { ContentsDataType } from '../../core/contents/contentsDataType';
+import { TileMatrixSet } from '../../tiles/matrixset/tileMatrixSet';
+import { TileMatrix } from '../../tiles/matrix/tileMatrix';
+import { TileMatrixDao } from '../../tiles/matrix/tileMatrixDao';
+import { TileColumn } from '../../tiles/user/tileColumn';
+import { TileBoundingBoxUtils } from '../../tiles/tileBoundingBoxUtils';
+import { TileGrid } from '../../tiles/tileGrid';
+import { FeatureVectorTiles } from '../../tiles/features/featureVectorTiles';
+import { MvtReader } from '../../tiles/vector/mvtReader';
+import { GeoPackageDataType } from '../../db/geoPackageDataType';
+import { Projection } from '../../projection/projection';
+import { ProjectionConstants } from '../../projection/projectionConstants';
+
+/**
+ * Coordinates of a GeoJSON geometry, a position or nested arrays of positions
+ */
+type Coordinates = Position | Coordinates[];
+
+/**
+ * OGC vector tiles extension.  Vector tiles tables are tile tables with a contents data type of `vector-tiles` whose
+ * tiles are Mapbox Vector Tiles or GeoJSON feature collections.  The layers of the tiles and the attributes of their
+ * features are described in the `gpkgext_vt_layers` and `gpkgext_vt_fields` tables.
+ */
+export class VectorTilesExtension extends BaseExtension {
+  public static readonly EXTENSION_NAME: string = 'im_vector_tiles';
+  public static readonly EXTENSION_AUTHOR: string = 'im';
+  public static readonly EXTENSION_NAME_NO_AUTHOR: string = 'vector_tiles';
+  public static readonly EXTENSION_DEFINITION: string =
+    'https://gitlab.com/imagemattersllc/ogc-vtp2/blob/master/extensions/1-vte.adoc';
+  public static readonly EXTENSION_MAPBOX_NAME: string = 'im_vector_tiles_mapbox';
+  public static readonly EXTENSION_MAPBOX_DEFINITION: string =
+    'https://gitlab.com/imagemattersllc/ogc-vtp2/blob/master/extensions/2-mvte.adoc';
+  public static readonly EXTENSION_GEOJSON_NAME: string = 'im_vector_tiles_geojson';
+  public static readonly EXTENSION_GEOJSON_DEFINITION: string =
+    'https://gitlab.com/imagemattersllc/ogc-vtp2/blob/master/extensions/3-gvte.adoc';
+
+  vectorTileLayerDao: VectorTileLayerDao;
+  vectorTileFieldDao: VectorTileFieldDao;
+  constructor(geoPackage: GeoPackage) {
+    super(geoPackage);
+    this.vectorTileLayerDao = geoPackage.vectorTileLayerDao;
+    this.vectorTileFieldDao = geoPackage.vectorTileFieldDao;
+  }
+  /**
+   * Get or create the vector tiles extension and the encoding extension for a vector tiles table
+   * @param tableName name of the vector tiles table
+   * @param encoding encoding of the tiles
+   * @return {Extension}
+   */
+  getOrCreateExtension(tableName: string, encoding: VectorTileEncoding = VectorTileEncoding.MAPBOX): Extension {
+    const extension = this.getOrCreate(
+      VectorTilesExtension.EXTENSION_NAME,
+      tableName,
+      TileColumn.COLUMN_TILE_DATA,
+      VectorTilesExtension.EXTENSION_DEFINITION,
+      Extension.READ_WRITE,
+    );
+    if (encoding === VectorTileEncoding.GEOJSON) {
+      this.getOrCreate(
+        VectorTilesExtension.EXTENSION_GEOJSON_NAME,
+        tableName,
+        TileColumn.COLUMN_TILE_DATA,
+        VectorTilesExtension.EXTENSION_GEOJSON_DEFINITION,
+        Extension.READ_WRITE,
+      );
+    } else {
+      this.getOrCreate(
+        VectorTilesExtension.EXTENSION_MAPBOX_NAME,
+        tableName,
+        TileColumn.COLUMN_TILE_DATA,
+        VectorTilesExtension.EXTENSION_MAPBOX_DEFINITION,
+        Extension.READ_WRITE,
+      );
+    }
+    this.getOrCreate(
+      VectorTilesExtension.EXTENSION_NAME,
+      VectorTileLayerDao.TABLE_NAME,
+      null,
+      VectorTilesExtension.EXTENSION_DEFINITION,
+      Extension.READ_WRITE,
+    );
+    this.getOrCreate(
+      VectorTilesExtension.EXTENSION_NAME,
+      VectorTileFieldDao.TABLE_NAME,
+      null,
+      VectorTilesExtension.EXTENSION_DEFINITION,
+      Extension.READ_WRITE,
+    );
+    this.vectorTileLayerDao.createTable();
+    this.vectorTileFieldDao.createTable();
+    return extension;
+  }
+  /**
+   * Determine if the GeoPackage has the extension, or if the table has it when a table name is passed
+   * @param tableName name of a vector tiles table
+   * @return {boolean}
+   */
+  has(tableName?: string): boolean {
+    if (tableName == null) {
+      return (
+        this.extensionsDao.isTableExists() &&
+        this.hasExtensions(VectorTilesExtension.EXTENSION_NAME) &&
+        this.vectorTileLayerDao.isTableExists()
+      );
+    }
+    return (
+      this.hasExtension(VectorTilesExtension.EXTENSION_NAME, tableName, TileColumn.COLUMN_TILE_DATA) &&
+      this.vectorTileLayerDao.isTableExists()
+    );
+  }
+  /**
+   * Get the encoding of the tiles of a vector tiles table
+   * @param tableName name of the vector tiles table
+   * @return {VectorTileEncoding} encoding, or null if the table is not a vector tiles table
+   */
+  getEncoding(tableName: string): VectorTileEncoding {
+    if (this.hasExtension(VectorTilesExtension.EXTENSION_MAPBOX_NAME, tableName, TileColumn.COLUMN_TILE_DATA)) {
+      return VectorTileEncoding.MAPBOX;
+    } else if (this.hasExtension(VectorTilesExtension.EXTENSION_GEOJSON_NAME, tableName, TileColumn.COLUMN_TILE_DATA)) {
+      return VectorTileEncoding.GEOJSON;
+    }
+    return null;
+  }
+  /**
+   * Create a vector tiles table with a standard web mercator tile matrix for each zoom level
+   * @param tableName name of the table to create
+   * @param contentsBoundingBox bounds stored in the contents row
+   * @param contentsSrsId srs id of the contents bounding box
+   * @param tileMatrixSetBoundingBox bounds of the tile matrix set
+   * @param tileMatrixSetSrsId srs id of the tile matrix set bounding box
+   * @param minZoom lowest zoom level
+   * @param maxZoom highest zoom level
+   * @param encoding encoding of the tiles, defaults to Mapbox Vector Tiles
+   * @return {TileMatrixSet} the created tile matrix set
+   */
+  createVectorTileTable(
+    tableName: string,
+    contentsBoundingBox: BoundingBox,
+    contentsSrsId: number,
+    tileMatrixSetBoundingBox: BoundingBox,
+    tileMatrixSetSrsId: number,
+    minZoom: number,
+    maxZoom: number,
+    encoding: VectorTileEncoding = VectorTileEncoding.MAPBOX,
+  ): TileMatrixSet {
+    const tileMatrixSet = this.geoPackage.createStandardWebMercatorTileTable(
+      tableName,
+      contentsBoundingBox,
+      contentsSrsId,
+      tileMatrixSetBoundingBox,
+      tileMatrixSetSrsId,
+      minZoom,
+      maxZoom,
+    );
+    const contentsDao = this.geoPackage.contentsDao;
+    const contents = contentsDao.queryForId(tableName);
+    contents.data_type = ContentsDataType.VECTOR_TILES;
+    contentsDao.update(contents);
+    this.getOrCreateExtension(tableName, encoding);
+    return tileMatrixSet;
+  }
+  /**
+   * Create a layer of a vector tiles table
+   * @param tableName name of the vector tiles table
+   * @param name name of the layer within the tiles
+   * @param description description of the layer
+   * @param minZoom lowest zoom level of the layer
+   * @param maxZoom highest zoom level of the layer
+   * @return {module:extension/vectorTiles.VectorTileLayer}
+   */
+  createLayer(
+    tableName: string,
+    name: string,
+    description?: string,
+    minZoom?: number,
+    maxZoom?: number,
+  ): VectorTileLayer {
+    const layer = this.vectorTileLayerDao.createObject();
+    layer.table_name = tableName;
+    layer.name = name;
+    layer.description = description;
+    layer.minzoom = minZoom;
+    layer.maxzoom = maxZoom;
+    layer.id = this.vectorTileLayerDao.create(layer);
+    return layer;
+  }
+  /**
+   * Create a field of a layer
+   * @param layer layer the field belongs to
+   * @param name name of the attribute
+   * @param type type of the attribute values
+   * @return {module:extension/vectorTiles.VectorTileField}
+   */
+  createField(layer: VectorTileLayer, name: string, type: VectorTileFieldType): VectorTileField {
+    const field = this.vectorTileFieldDao.createObject();
+    field.layer_id = layer.id;
+    field.name = name;
+    field.type = type;
+    field.id = this.vectorTileFieldDao.create(field);
+    return field;
+  }
+  /**
+   * Create the layer and fields written by a feature vector tiles encoder
+   * @param tableName name of the vector tiles table
+   * @param featureVectorTiles feature vector tiles encoder
+   * @param minZoom lowest zoom level of the layer
+   * @param maxZoom highest zoom level of the layer
+   * @return {module:extension/vectorTiles.VectorTileLayer}
+   */
+  createLayerForFeatures(
+    tableName: string,
+    featureVectorTiles: FeatureVectorTiles,
+    minZoom?: number,
+    maxZoom?: number,
+  ): VectorTileLayer {
+    const featureDao = featureVectorTiles.featureDao;
+    const contents = featureDao.getContents();
+    const layer = this.createLayer(
+      tableName,
+      featureVectorTiles.layerName,
+      contents ? contents.description : undefined,
+      minZoom,
+      maxZoom,
+    );
+    featureVectorTiles.columns.forEach(columnName => {
+      const column = featureDao.table.getUserColumns().getColumn(columnName);
+      if (column.getDataType() !== GeoPackageDataType.BLOB) {
+        this.createField(layer, columnName, VectorTilesExtension.getFieldType(column.getDataType()));
+      }
+    });
+    return layer;
+  }
+  /**
+   * Get the layers of a vector tiles table
+   * @param tableName name of the vector tiles table
+   * @return {module:extension/vectorTiles.VectorTileLayer[]}
+   */
+  getLayers(tableName: string): VectorTileLayer[] {
+    if (!this.vectorTileLayerDao.isTableExists()) {
+      return [];
+    }
+    return this.vectorTileLayerDao.queryForTableName(tableName);
+  }
+  /**
+   * Get the fields of a layer
+   * @param layer layer
+   * @return {module:extension/vectorTiles.VectorTileField[]}
+   */
+  getFields(layer: VectorTileLayer): VectorTileField[] {
+    if (!this.vectorTileFieldDao.isTableExists()) {
+      return [];
+    }
+    return this.vectorTileFieldDao.queryForLayerId(layer.id);
+  }
+  /**
+   * Encode feature tables into every tile of a vector tiles table that contains features, each as a layer of the tiles
+   * @param tableName name of the vector tiles table
+   * @param featureVectorTiles feature vector tiles encoders of the layers
+   * @return {number} number of tiles written
+   */
+  addFeatureTiles(tableName: string, featureVectorTiles: FeatureVectorTiles[]): number {
+    const encoding = this.getEncoding(tableName);
+    if (encoding == null) {
+      throw new Error('Table is not a vector tiles table: ' + tableName);
+    }
+    const tileMatrixSet = this.geoPackage.tileMatrixSetDao.queryForId(tableName);
+    const projection = VectorTilesExtension.getProjection(this.geoPackage, tileMatrixSet);
+    let count = 0;
+    for (const tileMatrix of this.getTileMatrices(tableName)) {
+      const tileGrid = VectorTilesExtension.getFeatureTileGrid(
+        tileMatrixSet,
+        tileMatrix,
+        projection,
+        featureVectorTiles,
+      );
+      for (let column = tileGrid.min_x; column <= tileGrid.max_x; column++) {
+        for (let row = tileGrid.min_y; row <= tileGrid.max_y; row++) {
+          const layers = featureVectorTiles.map(layer =>
+            layer.getTileInTileMatrix(tileMatrixSet, tileMatrix, column, row, projection),
+          );
+          const tile = Buffer.concat(layers);
+          if (tile.length === 0) {
+            continue;
+          }
+          const tileData =
+            encoding === VectorTileEncoding.GEOJSON
+              ? Buffer.from(
+                  JSON.stringify(this.toFeatureCollection(tile, tileMatrixSet, tileMatrix, column, row)),
+                  'utf8',
+                )
+              : tile;
+          this.geoPackage.addTile(tileData, tableName, tileMatrix.zoom_level, row, column);
+          count++;
+        }
+      }
+    }
+    return count;
+  }
+  /**
+   * Read the features of a tile as WGS84 GeoJSON features, grouped by layer name
+   * @param tableName name of the vector tiles table
+   * @param zoom zoom level of the tile
+   * @param column column of the tile
+   * @param row row of the tile
+   * @return {Object} features of each layer, or null if there is no tile
+   */
+  getFeatures(tableName: string, zoom: number, column: number, row: number): Record<string, Feature[]> {
+    const encoding = this.getEncoding(tableName);
+    if (encoding == null) {
+      throw new Error('Table is not a vector tiles table: ' + tableName);
+    }
+    const tileRow = this.geoPackage.getTileFromTable(tableName, zoom, row, column);
+    if (!tileRow) {
+      return null;
+    }
+    const tileMatrixSet = this.geoPackage.tileMatrixSetDao.queryForId(tableName);
+    const tileMatrix = this.getTileMatrices(tableName).find(matrix => matrix.zoom_level === zoom);
+    const converter = Projection.getConverter(
+      VectorTilesExtension.getProjection(this.geoPackage, tileMatrixSet),
+      ProjectionConstants.EPSG_4326,
+    );
+    const tileData = Buffer.from(tileRow.tileData);
+    const features: Record<string, Feature[]> = {};
+    if (encoding === VectorTileEncoding.GEOJSON) {
+      const featureCollection: FeatureCollection = JSON.parse(tileData.toString('utf8'));
+      featureCollection.features.forEach((feature: Feature & { layer?: string }) => {
+        const layerName = feature.layer;
+        delete feature.layer;
+        if (feature.geometry) {
+          feature.geometry = VectorTilesExtension.projectGeometry(feature.geometry, position =>
+            converter.forward(position),
+          );
+        }
+        (features[layerName] = features[layerName] || []).push(feature);
+      });
+    } else {
+      const tileBoundingBox = TileBoundingBoxUtils.getTileBoundingBox(
+        tileMatrixSet.boundingBox,
+        tileMatrix,
+        column,
+        row,
+      );
+      MvtReader.read(tileData).forEach(layer => {
+        const toPosition = VectorTilesExtension.getPositionFunction(tileBoundingBox, layer.extent);
+        features[layer.name] = (features[layer.name] || []).concat(
+          layer.features.map(feature => MvtReader.toGeoJSON(feature, (x, y) => converter.forward(toPosition(x, y)))),
+        );
+      });
+    }
+    return features;
+  }
+  /**
+   * Copy the extensions, layers and fields of a vector tiles table to a copy of the table
+   * @param tableName name of the vector tiles table
+   * @param newTableName name of the copied table
+   */
+  copyTable(tableName: string, newTableName: string): void {
+    this.getOrCreateExtension(newTableName, this.getEncoding(tableName));
+    this.getLayers(tableName).forEach(layer => {
+      const newLayer = this.createLayer(newTableName, layer.name, layer.description, layer.minzoom, layer.maxzoom);
+      this.getFields(layer).forEach(field => this.createField(newLayer, field.name, field.type));
+    });
+  }
+  /**
+   * Delete the layers and fields of a vector tiles table
+   * @param tableName name of the vector tiles table
+   * @return {number} number of deleted layers
+   */
+  deleteLayers(tableName: string): number {
+    if (!this.vectorTileLayerDao.isTableExists()) {
+      return 0;
+    }
+    const layers = this.vectorTileLayerDao.queryForTableName(tableName);
+    if (this.vectorTileFieldDao.isTableExists()) {
+      layers.forEach(layer => this.vectorTileFieldDao.deleteByLayerId(layer.id));
+    }
+    return this.vectorTileLayerDao.deleteByTableName(tableName);
+  }
+  /**
+   * Remove the layers, fields and extensions of a vector tiles table
+   * @param tableName name of the vector tiles table
+   */
+  deleteTable(tableName: string): void {
+    this.deleteLayers(tableName);
+    if (this.extensionsDao.isTableExists()) {
+      this.extensionsDao.deleteByExtensionAndTableName(VectorTilesExtension.EXTENSION_NAME, tableName);
+      this.extensionsDao.deleteByExtensionAndTableName(VectorTilesExtension.EXTENSION_MAPBOX_NAME, tableName);
+      this.extensionsDao.deleteByExtensionAndTableName(VectorTilesExtension.EXTENSION_GEOJSON_NAME, tableName);
+    }
+  }
+  /**
+   * Remove the vector tiles extension
+   */
+  removeExtension(): void {
+    if (this.vectorTileFieldDao.isTableExists()) {
+      this.geoPackage.dropTable(VectorTileFieldDao.TABLE_NAME);
+    }
+    if (this.vectorTileLayerDao.isTableExists()) {
+      this.geoPackage.dropTable(VectorTileLayerDao.TABLE_NAME);
+    }
+    if (this.extensionsDao.isTableExists()) {
+      this.extensionsDao.deleteByExtension(VectorTilesExtension.EXTENSION_NAME);
+      this.extensionsDao.deleteByExtension(VectorTilesExtension.EXTENSION_MAPBOX_NAME);
+      this.extensionsDao.deleteByExtension(VectorTilesExtension.EXTENSION_GEOJSON_NAME);
+    }
+  }
+
+  /**
+   * Get every tile matrix of the table, including those without tiles yet
+   * @param tableName name of the vector tiles table
+   */
+  private getTileMatrices(tableName: string): TileMatrix[] {
+    const tileMatrixDao = this.geoPackage.tileMatrixDao;
+    return tileMatrixDao
+      .queryForAllEq(TileMatrixDao.COLUMN_TABLE_NAME, tableName, null, null, TileMatrixDao.COLUMN_ZOOM_LEVEL + ' ASC')
+      .map(result => tileMatrixDao.createObject(result));
+  }
+
+  /**
+   * Get the tiles of the tile matrix covering the contents bounds of the feature tables, and their neighbours whose
+   * buffer may hold features
+   * @param tileMatrixSet tile matrix set
+   * @param tileMatrix tile matrix
+   * @param projection projection of the tile matrix set
+   * @param featureVectorTiles feature vector tiles encoders of the layers
+   */
+  private static getFeatureTileGrid(
+    tileMatrixSet: TileMatrixSet,
+    tileMatrix: TileMatrix,
+    projection: string,
+    featureVectorTiles: FeatureVectorTiles[],
+  ): TileGrid {
+    let tileGrid: TileGrid;
+    for (const layer of featureVectorTiles) {
+      const boundingBox = layer.featureDao.getBoundingBox();
+      if (
+        boundingBox.minLongitude == null ||
+        boundingBox.maxLongitude == null ||
+        boundingBox.minLatitude == null ||
+        boundingBox.maxLatitude == null
+      ) {
+        return new TileGrid(0, tileMatrix.matrix_width - 1, 0, tileMatrix.matrix_height - 1);
+      }
+      const layerGrid = TileBoundingBoxUtils.getTileGridWithTotalBoundingBox(
+        tileMatrixSet.boundingBox,
+        tileMatrix.matrix_width,
+        tileMatrix.matrix_height,
+        boundingBox.projectBoundingBox(layer.featureDao.projection, projection),
+      );
+      tileGrid = tileGrid
+        ? new TileGrid(
+            Math.min(tileGrid.min_x, layerGrid.min_x),
+            Math.max(tileGrid.max_x, layerGrid.max_x),
+            Math.min(tileGrid.min_y, layerGrid.min_y),
+            Math.max(tileGrid.max_y, layerGrid.max_y),
+          )
+        : layerGrid;
+    }
+    if (!tileGrid) {
+      return new TileGrid(0, -1, 0, -1);
+    }
+    return new TileGrid(
+      Math.max(0, tileGrid.min_x - 1),
+      Math.min(tileMatrix.matrix_width - 1, tileGrid.max_x + 1),
+      Math.max(0, tileGrid.min_y - 1),
+      Math.min(tileMatrix.matrix_height - 1, tileGrid.max_y + 1),
+    );
+  }
+
+  /**
+   * Convert a Mapbox Vector Tile into a GeoJSON feature collection in the tile matrix set projection
+   * @param tile Mapbox Vector Tile
+   * @param tileMatrixSet tile matrix set
+   * @param tileMatrix tile matrix of the tile
+   * @param column tile column
+   * @param row tile row
+   */
+  private toFeatureCollection(
+    tile: Buffer,
+    tileMatrixSet: TileMatrixSet,
+    tileMatrix: TileMatrix,
+    column: number,
+    row: number,
+  ): FeatureCollection {
+    const tileBoundingBox = TileBoundingBoxUtils.getTileBoundingBox(tileMatrixSet.boundingBox, tileMatrix, column, row);
+    const featureCollection: FeatureCollection = { type: 'FeatureCollection', features: [] };
+    MvtReader.read(tile).forEach(layer => {
+      const toPosition = VectorTilesExtension.getPositionFunction(tileBoundingBox, layer.extent);
+      layer.features.forEach(feature => {
+        featureCollection.features.push(Object.assign(MvtReader.toGeoJSON(feature, toPosition), { layer: layer.name }));
+      });
+    });
+    return featureCollection;
+  }
+
+  /**
+   * Get the function converting tile coordinates into positions within the tile bounds
+   * @param tileBoundingBox bounds of the tile
+   * @param extent number of coordinate units across the tile
+   */
+  private static getPositionFunction(tileBoundingBox: BoundingBox, extent: number): (x: number, y: number) => Position {
+    return (x: number, y: number): Position => [
+      tileBoundingBox.minLongitude + (x / extent) * tileBoundingBox.width,
+      tileBoundingBox.maxLatitude - (y / extent) * tileBoundingBox.height,
+    ];
+  }
+
+  private static projectGeometry(
+    geometry: Feature['geometry'],
+    project: (position: Position) => Position,
+  ): Feature['geometry'] {
+    const projectCoordinates = (coordinates: Coordinates): Coordinates =>
+      typeof coordinates[0] === 'number'
+        ? project(coordinates as Position)
+        : (coordinates as Coordinates[]).map(projectCoordinates);
+    if (geometry.type === 'GeometryCollection') {
+      return {
+        type: 'GeometryCollection',
+        geometries: geometry.geometries.map(child => VectorTilesExtension.projectGeometry(child, project)),
+      } as Feature['geometry'];
+    }
+    return Object.assign({}, geometry, { coordinates: projectCoordinates(geometry.coordinates) });
+  }
+
+  /**
+   * Get the projection name of a tile matrix set
+   * @param geoPackage GeoPackage
+   * @param tileMatrixSet tile matrix set
+   */
+  private static getProjection(geoPackage: GeoPackage, tileMatrixSet: TileMatrixSet): string {
+    const srs = geoPackage.tileMatrixSetDao.getSrs(tileMatrixSet);
+    const projection = [srs.organization.toUpperCase(), srs.organization_coordsys_id].join(':');
+    Projection.loadProjection(projection, srs.definition);
+    return projection;
+  }
+
+  /**
+   * Get the field type of the values of a column
+   * @param dataType data type of the column
+   */
+  static getFieldType(dataType: GeoPackageDataType): VectorTileFieldType {
+    switch (dataType) {
+      case GeoPackageDataType.BOOLEAN:
+        return VectorTileFieldType.BOOLEAN;
+      case GeoPackageDataType.TINYINT:
+      case GeoPackageDataType.SMALLINT:
+      case GeoPackageDataType.MEDIUMINT:
+      case GeoPackageDataType.INT:
+      case GeoPackageDataType.INTEGER:
+      case GeoPackageDataType.FLOAT:
+      case GeoPackageDataType.DOUBLE:
+      case GeoPackageDataType.REAL:
+        return VectorTileFieldType.NUMBER;
+      default:
+        return VectorTileFieldType.STRING;
+    }
+  }
+}
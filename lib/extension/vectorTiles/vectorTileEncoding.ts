@@ -0,0 +1,11 @@
+export enum VectorTileEncoding {
+  /**
+   * Tiles are Mapbox Vector Tiles
+   */
+  MAPBOX = 'mapbox',
+
+  /**
+   * Tiles are GeoJSON feature collections
+   */
+  GEOJSON = 'geojson',
+}
@@ -0,0 +1,32 @@
+import { VectorTileFieldType } from './vectorTileFieldType';
+
+/**
+ * @memberOf module:extension/vectorTiles
+ * @class VectorTileField
+ */
+/**
+ * Vector tile field object, describing an attribute of the features of a vector tile layer
+ * @constructor
+ */
+export class VectorTileField {
+  /**
+   * Id column, primary key
+   * @member {Number}
+   */
+  id: number;
+  /**
+   * Id of the layer
+   * @member {Number}
+   */
+  layer_id: number;
+  /**
+   * Name of the attribute
+   * @member {String}
+   */
+  name: string;
+  /**
+   * Type of the attribute values
+   * @member {VectorTileFieldType}
+   */
+  type: VectorTileFieldType;
+}
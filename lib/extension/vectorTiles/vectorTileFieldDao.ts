@@ -0,0 +1,63 @@
+import { Dao } from '../../dao/dao';
+import { VectorTileField } from './vectorTileField';
+import { VectorTileFieldType } from './vectorTileFieldType';
+import { DBValue } from '../../db/dbAdapter';
+
+/**
+ * Vector Tile Field Data Access Object
+ * @constructor
+ * @extends Dao
+ */
+export class VectorTileFieldDao extends Dao<VectorTileField> {
+  public static readonly TABLE_NAME: string = 'gpkgext_vt_fields';
+  public static readonly COLUMN_ID: string = 'id';
+  public static readonly COLUMN_LAYER_ID: string = 'layer_id';
+  public static readonly COLUMN_NAME: string = 'name';
+  public static readonly COLUMN_TYPE: string = 'type';
+
+  readonly gpkgTableName: string = VectorTileFieldDao.TABLE_NAME;
+  readonly idColumns: string[] = [VectorTileFieldDao.COLUMN_ID];
+  /**
+   * Create a {module:extension/vectorTiles.VectorTileField} object
+   * @return {module:extension/vectorTiles.VectorTileField}
+   */
+  createObject(results?: Record<string, DBValue>): VectorTileField {
+    const field = new VectorTileField();
+    if (results) {
+      field.id = results.id as number;
+      field.layer_id = results.layer_id as number;
+      field.name = results.name as string;
+      field.type = results.type as VectorTileFieldType;
+    }
+    return field;
+  }
+  /**
+   * Create the necessary tables for this dao
+   * @return {boolean}
+   */
+  createTable(): boolean {
+    return this.geoPackage.getTableCreator().createVectorTilesFields();
+  }
+  /**
+   * Query the fields of a layer
+   * @param  {Number} layerId id of the layer
+   * @return {module:extension/vectorTiles.VectorTileField[]}
+   */
+  queryForLayerId(layerId: number): VectorTileField[] {
+    return this.queryForAll(
+      this.buildWhereWithFieldAndValue(VectorTileFieldDao.COLUMN_LAYER_ID, layerId),
+      this.buildWhereArgs(layerId),
+    ).map(result => this.createObject(result));
+  }
+  /**
+   * Delete the fields of a layer
+   * @param  {Number} layerId id of the layer
+   * @return {number} number of deleted rows
+   */
+  deleteByLayerId(layerId: number): number {
+    return this.deleteWhere(
+      this.buildWhereWithFieldAndValue(VectorTileFieldDao.COLUMN_LAYER_ID, layerId),
+      this.buildWhereArgs(layerId),
+    );
+  }
+}
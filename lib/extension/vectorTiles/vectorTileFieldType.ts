@@ -0,0 +1,16 @@
+export enum VectorTileFieldType {
+  /**
+   * Text values
+   */
+  STRING = 'String',
+
+  /**
+   * Integer and floating point values
+   */
+  NUMBER = 'Number',
+
+  /**
+   * True or false values
+   */
+  BOOLEAN = 'Boolean',
+}
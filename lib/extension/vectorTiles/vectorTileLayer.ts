@@ -0,0 +1,45 @@
+/**
+ * @memberOf module:extension/vectorTiles
+ * @class VectorTileLayer
+ */
+/**
+ * Vector tile layer object, describing a layer encoded in the tiles of a vector tiles table
+ * @constructor
+ */
+export class VectorTileLayer {
+  /**
+   * Id column, primary key
+   * @member {Number}
+   */
+  id: number;
+  /**
+   * Name of the vector tiles table
+   * @member {String}
+   */
+  table_name: string;
+  /**
+   * Name of the layer within the tiles
+   * @member {String}
+   */
+  name: string;
+  /**
+   * Description of the layer
+   * @member {String}
+   */
+  description: string;
+  /**
+   * Lowest zoom level the layer is in the tiles
+   * @member {Number}
+   */
+  minzoom: number;
+  /**
+   * Highest zoom level the layer is in the tiles
+   * @member {Number}
+   */
+  maxzoom: number;
+  /**
+   * Name of an attributes table holding the attributes of the layer features
+   * @member {String}
+   */
+  attributes_table_name: string;
+}
@@ -0,0 +1,85 @@
+import { Dao } from '../../dao/dao';
+import { VectorTileLayer } from './vectorTileLayer';
+import { DBValue } from '../../db/dbAdapter';
+
+/**
+ * Vector Tile Layer Data Access Object
+ * @constructor
+ * @extends Dao
+ */
+export class VectorTileLayerDao extends Dao<VectorTileLayer> {
+  public static readonly TABLE_NAME: string = 'gpkgext_vt_layers';
+  public static readonly COLUMN_ID: string = 'id';
+  public static readonly COLUMN_TABLE_NAME: string = 'table_name';
+  public static readonly COLUMN_NAME: string = 'name';
+  public static readonly COLUMN_DESCRIPTION: string = 'description';
+  public static readonly COLUMN_MIN_ZOOM: string = 'minzoom';
+  public static readonly COLUMN_MAX_ZOOM: string = 'maxzoom';
+  public static readonly COLUMN_ATTRIBUTES_TABLE_NAME: string = 'attributes_table_name';
+
+  readonly gpkgTableName: string = VectorTileLayerDao.TABLE_NAME;
+  readonly idColumns: string[] = [VectorTileLayerDao.COLUMN_ID];
+  /**
+   * Create a {module:extension/vectorTiles.VectorTileLayer} object
+   * @return {module:extension/vectorTiles.VectorTileLayer}
+   */
+  createObject(results?: Record<string, DBValue>): VectorTileLayer {
+    const layer = new VectorTileLayer();
+    if (results) {
+      layer.id = results.id as number;
+      layer.table_name = results.table_name as string;
+      layer.name = results.name as string;
+      layer.description = results.description as string;
+      layer.minzoom = results.minzoom as number;
+      layer.maxzoom = results.maxzoom as number;
+      layer.attributes_table_name = results.attributes_table_name as string;
+    }
+    return layer;
+  }
+  /**
+   * Create the necessary tables for this dao
+   * @return {boolean}
+   */
+  createTable(): boolean {
+    return this.geoPackage.getTableCreator().createVectorTilesLayers();
+  }
+  /**
+   * Query the layers of a vector tiles table
+   * @param  {string} tableName name of the vector tiles table
+   * @return {module:extension/vectorTiles.VectorTileLayer[]}
+   */
+  queryForTableName(tableName: string): VectorTileLayer[] {
+    return this.queryForAll(
+      this.buildWhereWithFieldAndValue(VectorTileLayerDao.COLUMN_TABLE_NAME, tableName),
+      this.buildWhereArgs(tableName),
+    ).map(result => this.createObject(result));
+  }
+  /**
+   * Query a layer of a vector tiles table by name
+   * @param  {string} tableName name of the vector tiles table
+   * @param  {string} name name of the layer
+   * @return {module:extension/vectorTiles.VectorTileLayer}
+   */
+  queryForTableNameAndName(tableName: string, name: string): VectorTileLayer {
+    let where = this.buildWhereWithFieldAndValue(VectorTileLayerDao.COLUMN_TABLE_NAME, tableName);
+    where += ' and ';
+    where += this.buildWhereWithFieldAndValue(VectorTileLayerDao.COLUMN_NAME, name);
+    const results = this.queryForAll(where, this.buildWhereArgs([tableName, name]));
+    if (results.length > 0) {
+      return this.createObject(results[0]);
+    } else {
+      return null;
+    }
+  }
+  /**
+   * Delete by tableName
+   * @param  {string} tableName the table name to delete by
+   * @return {number} number of deleted rows
+   */
+  deleteByTableName(tableName: string): number {
+    return this.deleteWhere(
+      this.buildWhereWithFieldAndValue(VectorTileLayerDao.COLUMN_TABLE_NAME, tableName),
+      this.buildWhereArgs(tableName),
+    );
+  }
+}
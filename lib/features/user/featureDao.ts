@@ -3,6 +3,7 @@
  * @module features/user/featureDao
  */
 import proj4 from 'proj4';
+import wkx from 'wkx';
 // @ts-ignore
 import reproject from 'reproject';
 import LineIntersect from '@turf/line-intersect';
@@ -11,14 +12,17 @@ import Intersect from '@turf/intersect';
 import BooleanWithin from '@turf/boolean-within';
 // @ts-ignore
 import BooleanPointInPolygon from '@turf/boolean-point-in-polygon';
+import PointDistance from '@turf/distance';
+import PointToLineDistance from '@turf/point-to-line-distance';
 
 import { FeatureTableIndex } from '../../extension/index/featureTableIndex';
+import { GeometryIndexDao } from '../../extension/index/geometryIndexDao';
 import { UserDao } from '../../user/userDao';
 import { DataColumnsDao } from '../../dataColumns/dataColumnsDao';
 import { FeatureRow } from './featureRow';
 import { GeoPackageDataType } from '../../db/geoPackageDataType';
 import { BoundingBox } from '../../boundingBox';
-import { Feature, GeoJsonObject } from 'geojson';
+import { Feature, GeoJsonObject, Geometry, Point } from 'geojson';
 import { GeometryColumns } from '../columns/geometryColumns';
 import { MetadataDao } from '../../metadata/metadataDao';
 import { GeoPackage } from '../../geoPackage';
@@ -28,6 +32,51 @@ import { SpatialReferenceSystem } from '../../core/srs/spatialReferenceSystem';
 import { DBValue } from '../../db/dbAdapter';
 import { DataColumns } from '../../dataColumns/dataColumns';
 import { ProjectionConstants } from '../../projection/projectionConstants';
+import { GeometryExtensions } from '../../extension/geometry';
+import { GeometryData } from '../../geom/geometryData';
+import { EnvelopeBuilder } from '../../geom/envelopeBuilder';
+import { Envelope } from '../../geom/envelope';
+import { PlanarGeometry } from '../../geom/planarGeometry';
+import { Projection } from '../../projection/projection';
+import { AsyncIteration, AsyncIterationOptions } from '../../db/asyncIteration';
+
+/**
+ * Options for a nearest feature query
+ */
+export interface NearestOptions {
+  /**
+   * projection of the point. Defaults to EPSG:4326.
+   */
+  projection?: string | proj4.Converter;
+  /**
+   * measure geodesic distances in meters on the WGS84 ellipsoid instead of planar distances in the units of the
+   * projection of the table
+   */
+  geodesic?: boolean;
+  /**
+   * only return features within this distance of the point
+   */
+  maxDistance?: number;
+  /**
+   * where clause the features must match
+   */
+  where?: string;
+  /**
+   * arguments of the where clause
+   */
+  whereArgs?: DBValue[];
+}
+
+/**
+ * A feature found by a nearest feature query
+ */
+export interface NearestFeature {
+  row: FeatureRow;
+  /**
+   * distance from the point to the feature geometry
+   */
+  distance: number;
+}
 
 /**
  * Feature DAO for reading feature user data tables
@@ -50,6 +99,7 @@ export class FeatureDao<T extends FeatureRow> extends UserDao<FeatureRow> {
     public metadataDao: MetadataDao,
   ) {
     super(geoPackage, table);
+    table.setGeometryColumns(geometryColumns);
     this.dataColumnsDao = new DataColumnsDao(geoPackage);
     this.featureTableIndex = new FeatureTableIndex(geoPackage, this);
     const dao = geoPackage.geometryColumnsDao;
@@ -93,6 +143,97 @@ export class FeatureDao<T extends FeatureRow> extends UserDao<FeatureRow> {
   newRow(columnTypes?: { [key: string]: GeoPackageDataType }, values?: Record<string, DBValue>): FeatureRow {
     return new FeatureRow(this.getFeatureTable(), columnTypes, values);
   }
+  /**
+   * Insert the row, checking the z and m values of its geometry, building its envelope and registering the geometry
+   * type extensions of its geometry
+   * @param  {FeatureRow} row row to insert
+   * @return {number} id of the inserted row
+   */
+  create(row: FeatureRow): number {
+    this.prepareGeometry(row);
+    return super.create(row);
+  }
+  /**
+   * Update the row, checking the z and m values of its geometry, building its envelope and registering the geometry
+   * type extensions of its geometry
+   * @param  {FeatureRow} row row to update
+   * @return {Object} changes made
+   */
+  update(
+    row: FeatureRow,
+  ): {
+    changes: number;
+    lastInsertRowid: number;
+  } {
+    this.prepareGeometry(row);
+    return super.update(row);
+  }
+  /**
+   * Validate the z and m values of the geometry against the z and m settings of the geometry columns, where 0 prohibits
+   * the values, 1 makes them mandatory and 2 makes them optional.  Empty geometries are not validated.
+   * @param  {GeometryData} geometryData geometry data
+   */
+  validateGeometry(geometryData: GeometryData): void {
+    if (!geometryData || !geometryData.geometry || EnvelopeBuilder.isEmpty(geometryData.geometry)) {
+      return;
+    }
+    const geometry = geometryData.geometry;
+    const columnName = this.gpkgTableName + '.' + this.getGeometryColumnName();
+    if (this.geometryColumns.z === 0 && geometry.hasZ) {
+      throw new Error('Z values are prohibited for geometry column ' + columnName);
+    } else if (this.geometryColumns.z === 1 && !geometry.hasZ) {
+      throw new Error('Z values are mandatory for geometry column ' + columnName);
+    }
+    if (this.geometryColumns.m === 0 && geometry.hasM) {
+      throw new Error('M values are prohibited for geometry column ' + columnName);
+    } else if (this.geometryColumns.m === 1 && !geometry.hasM) {
+      throw new Error('M values are mandatory for geometry column ' + columnName);
+    }
+  }
+  /**
+   * Validate the z and m values of the geometry when the GeoPackage validates geometry dimensions, the check made on
+   * every write of a geometry
+   * @param  {GeometryData} geometryData geometry data
+   */
+  checkGeometry(geometryData: GeometryData): void {
+    if (this.geoPackage.validateGeometryDimensions) {
+      this.validateGeometry(geometryData);
+    }
+  }
+  /**
+   * Check the row geometry, build the envelope of a geometry with z or m values when it is missing their ranges and
+   * register the geometry type extensions
+   * @param  {FeatureRow} row feature row
+   */
+  private prepareGeometry(row: FeatureRow): void {
+    const geometryData = row.geometry;
+    this.checkGeometry(geometryData);
+    if (geometryData && geometryData.geometry) {
+      const geometry = geometryData.geometry;
+      const envelope = geometryData.envelope;
+      if (
+        (geometry.hasZ || geometry.hasM) &&
+        (!envelope || !!envelope.hasZ !== !!geometry.hasZ || !!envelope.hasM !== !!geometry.hasM)
+      ) {
+        geometryData.setEnvelope(EnvelopeBuilder.buildEnvelopeWithGeometryDimensions(geometry));
+      }
+    }
+    this.createGeometryExtensions(row);
+  }
+  /**
+   * Register the gpkg_geom_<type> extensions for the curve and surface geometry types of the row geometry
+   * @param  {FeatureRow} row feature row
+   */
+  private createGeometryExtensions(row: FeatureRow): void {
+    const geometryData = row.geometry;
+    if (geometryData && geometryData.geometry) {
+      new GeometryExtensions(this.geoPackage).getOrCreateExtensionsForGeometry(
+        this.gpkgTableName,
+        this.getGeometryColumnName(),
+        geometryData.geometry,
+      );
+    }
+  }
   /**
    * Get the geometry column name
    * @return {string} the geometry column name
@@ -137,6 +278,427 @@ export class FeatureDao<T extends FeatureRow> extends UserDao<FeatureRow> {
   countInBoundingBox(boundingBox: BoundingBox, projection?: string): number {
     return this.featureTableIndex.countWithBoundingBox(boundingBox, projection);
   }
+  /**
+   * Query for the features with z values within a range, optionally within a bounding box.  The z range of each
+   * feature is read from its geometry envelope, and features without z values are not matched.
+   * @param {Number} minZ minimum z value, unbounded when null
+   * @param {Number} maxZ maximum z value, unbounded when null
+   * @param {BoundingBox} [boundingBox] bounding box the features must intersect
+   * @param {string} [projection] projection of the bounding box, defaults to the projection of the table
+   * @returns {IterableIterator<FeatureRow>}
+   */
+  *queryWithZRange(
+    minZ: number,
+    maxZ: number,
+    boundingBox?: BoundingBox,
+    projection?: string,
+  ): IterableIterator<FeatureRow> {
+    const envelope = boundingBox
+      ? boundingBox.projectBoundingBox(projection, this.projection).buildEnvelope()
+      : undefined;
+    const rows =
+      envelope && this.isIndexed() ? this.featureTableIndex.queryWithGeometryEnvelope(envelope) : this.queryForEach();
+    for (const row of rows) {
+      const featureRow = this.getRow(row);
+      const geometryData = featureRow.geometry;
+      if (!geometryData || !geometryData.geometry || !geometryData.geometry.hasZ) {
+        continue;
+      }
+      const geometryEnvelope =
+        geometryData.envelope && geometryData.envelope.hasZ
+          ? geometryData.envelope
+          : EnvelopeBuilder.buildEnvelopeWithGeometryDimensions(geometryData.geometry);
+      if (
+        geometryEnvelope &&
+        (minZ == null || geometryEnvelope.maxZ >= minZ) &&
+        (maxZ == null || geometryEnvelope.minZ <= maxZ) &&
+        (!envelope ||
+          (geometryEnvelope.minX <= envelope.maxX &&
+            geometryEnvelope.maxX >= envelope.minX &&
+            geometryEnvelope.minY <= envelope.maxY &&
+            geometryEnvelope.maxY >= envelope.minY))
+      ) {
+        yield featureRow;
+      }
+    }
+  }
+  /**
+   * Count the features with z values within a range, optionally within a bounding box
+   * @param {Number} minZ minimum z value, unbounded when null
+   * @param {Number} maxZ maximum z value, unbounded when null
+   * @param {BoundingBox} [boundingBox] bounding box the features must intersect
+   * @param {string} [projection] projection of the bounding box, defaults to the projection of the table
+   * @returns {Number}
+   */
+  countWithZRange(minZ: number, maxZ: number, boundingBox?: BoundingBox, projection?: string): number {
+    const iterator = this.queryWithZRange(minZ, maxZ, boundingBox, projection);
+    let count = 0;
+    while (!iterator.next().done) {
+      count++;
+    }
+    return count;
+  }
+  /**
+   * Build a where clause matching the features whose geometry envelopes intersect a bounding box, selecting the ids
+   * from the RTree or NGA geometry index when the table is indexed
+   * @param {BoundingBox} boundingBox bounding box
+   * @param {string|proj4.Converter} [projection] projection of the bounding box, defaults to the projection of the table
+   * @return {Object} where clause and arguments
+   */
+  buildBoundingBoxWhere(
+    boundingBox: BoundingBox,
+    projection?: string | proj4.Converter,
+  ): { where: string; whereArgs: DBValue[] } {
+    const envelope = boundingBox.projectBoundingBox(projection, this.projection).buildEnvelope();
+    const envelopeArgs = [envelope.maxX, envelope.minX, envelope.maxY, envelope.minY];
+    const idColumn = '"' + this.gpkgTableName + '"."' + this.idColumns[0] + '"';
+    if (this.featureTableIndex.rtreeIndexed) {
+      return {
+        where:
+          idColumn +
+          ' in (select id from "' +
+          this.featureTableIndex.rtreeIndexDao.gpkgTableName +
+          '" where minx <= ? and maxx >= ? and miny <= ? and maxy >= ?)',
+        whereArgs: envelopeArgs,
+      };
+    } else if (this.isIndexed()) {
+      return {
+        where:
+          idColumn +
+          ' in (select geom_id from ' +
+          GeometryIndexDao.TABLE_NAME +
+          ' where table_name = ? and min_x <= ? and max_x >= ? and min_y <= ? and max_y >= ?)',
+        whereArgs: [this.gpkgTableName as DBValue].concat(envelopeArgs),
+      };
+    }
+    const geometryColumn = '"' + this.getGeometryColumnName() + '"';
+    return {
+      where:
+        'ST_MinX(' +
+        geometryColumn +
+        ') <= ? and ST_MaxX(' +
+        geometryColumn +
+        ') >= ? and ST_MinY(' +
+        geometryColumn +
+        ') <= ? and ST_MaxY(' +
+        geometryColumn +
+        ') >= ?',
+      whereArgs: envelopeArgs,
+    };
+  }
+  /**
+   * Query for the features intersecting a geometry
+   * @param {Geometry} geometry GeoJSON geometry
+   * @param {string|proj4.Converter} [projection] projection of the geometry, defaults to EPSG:4326
+   * @returns {IterableIterator<FeatureRow>}
+   */
+  queryIntersects(geometry: Geometry, projection?: string | proj4.Converter): IterableIterator<FeatureRow> {
+    return this.queryWithGeometry(geometry, projection, 0, (featureGeometry, queryGeometry) =>
+      PlanarGeometry.intersects(featureGeometry, queryGeometry),
+    );
+  }
+  /**
+   * Query for the features within a geometry
+   * @param {Geometry} geometry GeoJSON geometry
+   * @param {string|proj4.Converter} [projection] projection of the geometry, defaults to EPSG:4326
+   * @returns {IterableIterator<FeatureRow>}
+   */
+  queryWithin(geometry: Geometry, projection?: string | proj4.Converter): IterableIterator<FeatureRow> {
+    return this.queryWithGeometry(geometry, projection, 0, (featureGeometry, queryGeometry) =>
+      PlanarGeometry.within(featureGeometry, queryGeometry),
+    );
+  }
+  /**
+   * Query for the features containing a geometry
+   * @param {Geometry} geometry GeoJSON geometry
+   * @param {string|proj4.Converter} [projection] projection of the geometry, defaults to EPSG:4326
+   * @returns {IterableIterator<FeatureRow>}
+   */
+  queryContains(geometry: Geometry, projection?: string | proj4.Converter): IterableIterator<FeatureRow> {
+    return this.queryWithGeometry(geometry, projection, 0, (featureGeometry, queryGeometry) =>
+      PlanarGeometry.contains(featureGeometry, queryGeometry),
+    );
+  }
+  /**
+   * Query for the features touching a geometry, sharing boundary points but no interior points
+   * @param {Geometry} geometry GeoJSON geometry
+   * @param {string|proj4.Converter} [projection] projection of the geometry, defaults to EPSG:4326
+   * @returns {IterableIterator<FeatureRow>}
+   */
+  queryTouches(geometry: Geometry, projection?: string | proj4.Converter): IterableIterator<FeatureRow> {
+    return this.queryWithGeometry(geometry, projection, 0, (featureGeometry, queryGeometry) =>
+      PlanarGeometry.touches(featureGeometry, queryGeometry),
+    );
+  }
+  /**
+   * Query for the features within a distance of a geometry
+   * @param {Geometry} geometry GeoJSON geometry
+   * @param {Number} distance distance in the units of the projection of the table
+   * @param {string|proj4.Converter} [projection] projection of the geometry, defaults to EPSG:4326
+   * @returns {IterableIterator<FeatureRow>}
+   */
+  queryDWithin(
+    geometry: Geometry,
+    distance: number,
+    projection?: string | proj4.Converter,
+  ): IterableIterator<FeatureRow> {
+    return this.queryWithGeometry(geometry, projection, distance, (featureGeometry, queryGeometry) => {
+      const featureDistance = PlanarGeometry.distance(featureGeometry, queryGeometry);
+      return featureDistance != null && featureDistance <= distance;
+    });
+  }
+  /**
+   * Query for the features matching a spatial predicate with a geometry.  The geometry is projected to the projection
+   * of the table, candidates are selected by the envelope of the geometry expanded by a distance using the RTree or NGA
+   * geometry index when the table is indexed, and each candidate is tested with the predicate.
+   * @param {Geometry} geometry GeoJSON geometry
+   * @param {string|proj4.Converter} projection projection of the geometry, defaults to EPSG:4326
+   * @param {Number} distance distance to expand the envelope of the geometry by
+   * @param {Function} predicate test of a feature geometry against the projected geometry
+   * @returns {IterableIterator<FeatureRow>}
+   */
+  private *queryWithGeometry(
+    geometry: Geometry,
+    projection: string | proj4.Converter,
+    distance: number,
+    predicate: (featureGeometry: wkx.Geometry, queryGeometry: wkx.Geometry) => boolean,
+  ): IterableIterator<FeatureRow> {
+    const queryProjection = projection || ProjectionConstants.EPSG_4326;
+    const converter = Projection.isConverter(queryProjection)
+      ? queryProjection
+      : Projection.getConverter(queryProjection);
+    const projectedGeometry = Projection.convertersMatch(converter, this.projection)
+      ? geometry
+      : reproject.reproject(geometry, converter, this.projection);
+    const queryGeometry = wkx.Geometry.parseGeoJSON(projectedGeometry);
+    const envelope = EnvelopeBuilder.buildEnvelopeWithGeometry(queryGeometry);
+    if (!envelope || EnvelopeBuilder.isEmpty(queryGeometry)) {
+      return;
+    }
+    envelope.minX -= distance;
+    envelope.maxX += distance;
+    envelope.minY -= distance;
+    envelope.maxY += distance;
+    const rows = this.isIndexed() ? this.featureTableIndex.queryWithGeometryEnvelope(envelope) : this.queryForEach();
+    for (const row of rows) {
+      const featureRow = this.getRow(row);
+      const geometryData = featureRow.geometry;
+      if (geometryData && geometryData.geometry && predicate(geometryData.geometry, queryGeometry)) {
+        yield featureRow;
+      }
+    }
+  }
+  /**
+   * Query for the k features nearest to a point.  When the table is indexed the RTree or NGA geometry index is queried
+   * with envelopes around the point, doubling in size until the k nearest features found are closer than any feature
+   * outside of the envelope.  Without an index every feature is measured.
+   * @param {Point} point GeoJSON point
+   * @param {Number} k number of features to find
+   * @param {NearestOptions} [options] projection of the point, distance and filter options
+   * @returns {NearestFeature[]} nearest features and their distances ordered by distance
+   */
+  queryNearest(point: Point, k: number, options: NearestOptions = {}): NearestFeature[] {
+    const queryProjection = options.projection || ProjectionConstants.EPSG_4326;
+    const converter = Projection.isConverter(queryProjection)
+      ? queryProjection
+      : Projection.getConverter(queryProjection);
+    const tableCoordinates = Projection.convertersMatch(converter, this.projection)
+      ? point.coordinates
+      : this.projection.forward(converter.inverse(point.coordinates));
+    const tablePoint = new wkx.Point(tableCoordinates[0], tableCoordinates[1]);
+    const wgs84Point: Point = {
+      type: 'Point',
+      coordinates: Projection.getConverter(ProjectionConstants.EPSG_4326).forward(converter.inverse(point.coordinates)),
+    };
+    const srs = this.srs;
+    const distanceTo = (featureRow: FeatureRow): number => {
+      if (options.geodesic) {
+        return FeatureDao.geodesicDistance(
+          wgs84Point,
+          FeatureDao.reprojectFeature(featureRow, srs, this.projection) as Geometry,
+        );
+      }
+      return PlanarGeometry.distance(featureRow.geometry.geometry, tablePoint);
+    };
+
+    const nearest: NearestFeature[] = [];
+    const consider = (result: Record<string, DBValue>): void => {
+      const featureRow = this.getRow(result);
+      if (!featureRow.geometry || !featureRow.geometry.geometry) {
+        return;
+      }
+      const distance = distanceTo(featureRow);
+      if (
+        distance == null ||
+        (options.maxDistance != null && distance > options.maxDistance) ||
+        (nearest.length === k && distance >= nearest[k - 1].distance)
+      ) {
+        return;
+      }
+      let index = nearest.length;
+      while (index > 0 && nearest[index - 1].distance > distance) {
+        index--;
+      }
+      nearest.splice(index, 0, { row: featureRow, distance });
+      nearest.length = Math.min(nearest.length, k);
+    };
+
+    if (k <= 0) {
+      return nearest;
+    }
+    if (!this.isIndexed()) {
+      const rows = options.where ? this.queryWhere(options.where, options.whereArgs) : this.queryForEach();
+      for (const row of rows) {
+        consider(row);
+      }
+      return nearest;
+    }
+
+    const tableName = '"' + this.gpkgTableName + '"';
+    const idColumn = '"' + this.idColumns[0] + '"';
+    // filter with a subquery so its columns are not confused with the columns of the index table
+    const where = options.where
+      ? tableName + '.' + idColumn + ' in (select ' + idColumn + ' from ' + tableName + ' where ' + options.where + ')'
+      : undefined;
+    const indexCount = this.featureTableIndex.countWithGeometryEnvelope(
+      FeatureDao.envelopeAround(tablePoint, Number.MAX_VALUE),
+    );
+    const seen = new Set<DBValue>();
+    let radius = this.initialNearestRadius(k, indexCount);
+    for (;;) {
+      const envelope = FeatureDao.envelopeAround(tablePoint, radius);
+      for (const result of this.featureTableIndex.queryWithGeometryEnvelope(envelope, where, options.whereArgs)) {
+        const id = result[this.idColumns[0]];
+        if (!seen.has(id)) {
+          seen.add(id);
+          consider(result);
+        }
+      }
+      // features outside of the envelope are at least this far away
+      const covered = options.geodesic
+        ? FeatureDao.geodesicDistanceToEnvelope(wgs84Point, envelope, this.projection)
+        : radius;
+      if (
+        (nearest.length === k && nearest[k - 1].distance <= covered) ||
+        (options.maxDistance != null && covered >= options.maxDistance) ||
+        this.featureTableIndex.countWithGeometryEnvelope(envelope) >= indexCount ||
+        !isFinite(radius * 2)
+      ) {
+        return nearest;
+      }
+      radius *= 2;
+    }
+  }
+  /**
+   * Estimate the radius of the first envelope of a nearest feature query from the area of the table per feature
+   * @param {Number} k number of features to find
+   * @param {Number} count number of indexed features
+   * @returns {Number} radius in the units of the projection of the table
+   */
+  private initialNearestRadius(k: number, count: number): number {
+    const contents = this.getContents();
+    const width = contents ? contents.max_x - contents.min_x : NaN;
+    const height = contents ? contents.max_y - contents.min_y : NaN;
+    const radius = Math.sqrt((width * height * k) / (Math.PI * Math.max(count, 1)));
+    if (isFinite(radius) && radius > 0) {
+      return radius;
+    }
+    const extent = Math.max(width, height);
+    return isFinite(extent) && extent > 0 ? extent / 100 : 1;
+  }
+  /**
+   * Build a square envelope around a point
+   * @param {wkx.Point} point center point
+   * @param {Number} radius half the width of the envelope
+   * @returns {Envelope} envelope
+   */
+  private static envelopeAround(point: wkx.Point, radius: number): Envelope {
+    return {
+      minX: Math.max(point.x - radius, -Number.MAX_VALUE),
+      maxX: Math.min(point.x + radius, Number.MAX_VALUE),
+      minY: Math.max(point.y - radius, -Number.MAX_VALUE),
+      maxY: Math.min(point.y + radius, Number.MAX_VALUE),
+    };
+  }
+  /**
+   * Get the geodesic distance in meters from a point to the boundary of an envelope around it
+   * @param {Point} point EPSG:4326 point
+   * @param {Envelope} envelope envelope in the projection of the table
+   * @param {proj4.Converter} projection projection of the table
+   * @returns {Number} distance in meters
+   */
+  private static geodesicDistanceToEnvelope(point: Point, envelope: Envelope, projection: proj4.Converter): number {
+    const wgs84 = Projection.getConverter(ProjectionConstants.EPSG_4326);
+    const corners = [
+      [envelope.minX, envelope.minY],
+      [envelope.maxX, envelope.minY],
+      [envelope.maxX, envelope.maxY],
+      [envelope.minX, envelope.maxY],
+      [envelope.minX, envelope.minY],
+    ];
+    // edges straight in the table projection are curves in EPSG:4326, so they are densified
+    const coordinates: number[][] = [];
+    for (let i = 1; i < corners.length; i++) {
+      for (let step = 0; step < 16; step++) {
+        const x = corners[i - 1][0] + ((corners[i][0] - corners[i - 1][0]) * step) / 16;
+        const y = corners[i - 1][1] + ((corners[i][1] - corners[i - 1][1]) * step) / 16;
+        const coordinate = wgs84.forward(projection.inverse([x, y]));
+        coordinates.push([Math.max(-180, Math.min(180, coordinate[0])), Math.max(-90, Math.min(90, coordinate[1]))]);
+      }
+    }
+    coordinates.push(coordinates[0]);
+    if (coordinates.some(coordinate => !isFinite(coordinate[0]) || !isFinite(coordinate[1]))) {
+      return Infinity;
+    }
+    return PointToLineDistance(point, { type: 'LineString', coordinates }, { units: 'meters' });
+  }
+  /**
+   * Get the geodesic distance in meters from a point to a geometry
+   * @param {Point} point EPSG:4326 point
+   * @param {Geometry} geometry EPSG:4326 GeoJSON geometry
+   * @returns {Number} distance in meters, undefined for empty geometries
+   */
+  static geodesicDistance(point: Point, geometry: Geometry): number {
+    const distances: number[] = [];
+    const lineDistance = (coordinates: number[][]): void => {
+      if (coordinates.length > 1) {
+        distances.push(PointToLineDistance(point, { type: 'LineString', coordinates }, { units: 'meters' }));
+      } else if (coordinates.length === 1) {
+        // distance is in kilometers
+        distances.push(PointDistance(point, { type: 'Point', coordinates: coordinates[0] }) * 1000);
+      }
+    };
+    const polygonDistance = (coordinates: number[][][]): void => {
+      if (coordinates.length > 0 && coordinates[0].length > 0) {
+        if (BooleanPointInPolygon(point, { type: 'Polygon', coordinates })) {
+          distances.push(0);
+        } else {
+          coordinates.forEach(lineDistance);
+        }
+      }
+    };
+    if (geometry.type === 'Point') {
+      lineDistance([geometry.coordinates].filter(coordinates => coordinates.length > 0));
+    } else if (geometry.type === 'MultiPoint') {
+      geometry.coordinates.forEach(coordinates => lineDistance([coordinates]));
+    } else if (geometry.type === 'LineString') {
+      lineDistance(geometry.coordinates);
+    } else if (geometry.type === 'MultiLineString') {
+      geometry.coordinates.forEach(lineDistance);
+    } else if (geometry.type === 'Polygon') {
+      polygonDistance(geometry.coordinates);
+    } else if (geometry.type === 'MultiPolygon') {
+      geometry.coordinates.forEach(polygonDistance);
+    } else if (geometry.type === 'GeometryCollection') {
+      geometry.geometries.forEach(child => {
+        const distance = FeatureDao.geodesicDistance(point, child);
+        if (distance != null) {
+          distances.push(distance);
+        }
+      });
+    }
+    return distances.length > 0 ? Math.min(...distances) : undefined;
+  }
   /**
    * Fast query web mercator bounding box
    * @param {BoundingBox} boundingBox bounding box to query for
@@ -234,39 +796,20 @@ export class FeatureDao<T extends FeatureRow> extends UserDao<FeatureRow> {
   }
 
   queryIndexedFeaturesWithBoundingBox(boundingBox: BoundingBox): IterableIterator<FeatureRow> {
-    const srs = this.srs;
-    const projection = this.projection;
-
-    const iterator = this.featureTableIndex.queryWithBoundingBox(boundingBox, projection);
-    const thisgetRow = this.getRow.bind(this);
-    const projectedBoundingBox = boundingBox.projectBoundingBox(projection, this.projection);
+    const iterator = this.featureTableIndex.queryWithBoundingBox(boundingBox, this.projection);
+    const verify = this.indexedFeatureVerifier(boundingBox);
     return {
       [Symbol.iterator](): IterableIterator<FeatureRow> {
         return this;
       },
       next: (): IteratorResult<FeatureRow> => {
-        let nextRow = iterator.next();
-        if (!nextRow.done) {
-          let featureRow;
-          let geometry;
-
-          while (!nextRow.done && !geometry) {
-            featureRow = thisgetRow(nextRow.value);
-            try {
-              const reporjectedGeometry = FeatureDao.reprojectFeature(featureRow, srs, projection);
-              geometry = FeatureDao.verifyFeature(reporjectedGeometry, projectedBoundingBox);
-            } catch (e) {
-              console.log('Error parsing Geometry', e);
-            }
-            if (geometry) {
-              geometry.properties = featureRow.values;
-              return {
-                value: featureRow,
-                done: false,
-              };
-            } else {
-              nextRow = iterator.next();
-            }
+        for (let nextRow = iterator.next(); !nextRow.done; nextRow = iterator.next()) {
+          const featureRow = verify(nextRow.value);
+          if (featureRow) {
+            return {
+              value: featureRow,
+              done: false,
+            };
           }
         }
         return {
@@ -277,6 +820,47 @@ export class FeatureDao<T extends FeatureRow> extends UserDao<FeatureRow> {
     };
   }
 
+  /**
+   * Iterate the features in a bounding box asynchronously, verifying that each feature is in the bounding box
+   * @param  {BoundingBox} boundingBox bounding box to query
+   * @param  {module:db/asyncIteration~AsyncIterationOptions} [options] chunk size and abort signal
+   * @returns {AsyncIterableIterator<FeatureRow>}
+   */
+  queryIndexedFeaturesWithBoundingBoxAsync(
+    boundingBox: BoundingBox,
+    options?: AsyncIterationOptions,
+  ): AsyncIterableIterator<FeatureRow> {
+    const clause = this.buildBoundingBoxWhere(boundingBox, this.projection);
+    return AsyncIteration.iterate(
+      this.readChunksWhere(clause.where, clause.whereArgs),
+      options,
+      this.indexedFeatureVerifier(boundingBox),
+    );
+  }
+
+  /**
+   * Get a function reading the feature row of an index query result, verifying that the feature is in a bounding box
+   * @param  {BoundingBox} boundingBox bounding box
+   * @returns {Function} function returning the feature row, undefined if the feature is not in the bounding box
+   */
+  private indexedFeatureVerifier(boundingBox: BoundingBox): (result: Record<string, DBValue>) => FeatureRow {
+    const srs = this.srs;
+    const projection = this.projection;
+    const projectedBoundingBox = boundingBox.projectBoundingBox(projection, this.projection);
+    return (result: Record<string, DBValue>): FeatureRow => {
+      const featureRow = this.getRow(result) as FeatureRow;
+      try {
+        const reprojectedGeometry = FeatureDao.reprojectFeature(featureRow, srs, projection);
+        if (FeatureDao.verifyFeature(reprojectedGeometry, projectedBoundingBox)) {
+          return featureRow;
+        }
+      } catch (e) {
+        console.log('Error parsing Geometry', e);
+      }
+      return undefined;
+    };
+  }
+
   /**
    * Calls geoJSONFeatureCallback with the geoJSON of each matched feature (always in 4326 projection)
    * @param  {BoundingBox} boundingBox        4326 bounding box to query
@@ -287,6 +871,78 @@ export class FeatureDao<T extends FeatureRow> extends UserDao<FeatureRow> {
     boundingBox: BoundingBox,
     skipVerification = false,
   ): IterableIterator<Feature> & { srs: SpatialReferenceSystem; featureDao: FeatureDao<FeatureRow> } {
+    const iterator = this.queryForGeoJSONResults(boundingBox);
+    const toGeoJSON = this.geoJSONFeatureConverter(boundingBox, skipVerification);
+    return {
+      srs: this.srs,
+      featureDao: this,
+      [Symbol.iterator](): IterableIterator<Feature> {
+        return this;
+      },
+      next: (): IteratorResult<Feature> => {
+        for (let nextRow = iterator.next(); !nextRow.done; nextRow = iterator.next()) {
+          const geoJson = toGeoJSON(nextRow.value);
+          if (geoJson) {
+            return {
+              value: geoJson,
+              done: false,
+            };
+          }
+        }
+        return {
+          done: true,
+          value: undefined,
+        };
+      },
+    };
+  }
+
+  /**
+   * Iterate the GeoJSON of the features in a bounding box, or of all features, asynchronously (always in 4326
+   * projection)
+   * @param  {BoundingBox} [boundingBox] 4326 bounding box to query
+   * @param {Boolean} [skipVerification] do not verify if the feature actually exists in the box
+   * @param  {module:db/asyncIteration~AsyncIterationOptions} [options] chunk size and abort signal
+   * @returns {AsyncIterableIterator<Feature>}
+   */
+  queryForGeoJSONIndexedFeaturesWithBoundingBoxAsync(
+    boundingBox?: BoundingBox,
+    skipVerification = false,
+    options?: AsyncIterationOptions,
+  ): AsyncIterableIterator<Feature> {
+    const clause = boundingBox
+      ? this.buildBoundingBoxWhere(boundingBox, ProjectionConstants.EPSG_4326)
+      : { where: undefined, whereArgs: undefined };
+    return AsyncIteration.iterate(
+      this.readChunksWhere(clause.where, clause.whereArgs),
+      options,
+      this.geoJSONFeatureConverter(boundingBox, skipVerification),
+    );
+  }
+
+  /**
+   * Query the results of the features in a 4326 bounding box, or of all features
+   * @param  {BoundingBox} [boundingBox] 4326 bounding box to query
+   * @returns {IterableIterator<any>}
+   */
+  private queryForGeoJSONResults(boundingBox?: BoundingBox): IterableIterator<Record<string, DBValue>> {
+    if (boundingBox) {
+      return this.featureTableIndex.queryWithBoundingBox(boundingBox, ProjectionConstants.EPSG_4326);
+    }
+    return this.queryForEach();
+  }
+
+  /**
+   * Get a function converting a feature query result to GeoJSON in the 4326 projection
+   * @param  {BoundingBox} [boundingBox] 4326 bounding box the feature is verified to be in
+   * @param {Boolean} [skipVerification] do not verify if the feature actually exists in the box
+   * @returns {Function} function returning the GeoJSON feature, undefined if the feature has no geometry or is not in
+   * the bounding box
+   */
+  private geoJSONFeatureConverter(
+    boundingBox: BoundingBox,
+    skipVerification: boolean,
+  ): (result: Record<string, DBValue>) => Feature {
     const columns = [] as {
       index: number;
       name: string;
@@ -314,87 +970,60 @@ export class FeatureDao<T extends FeatureRow> extends UserDao<FeatureRow> {
     > = {};
     const srs = this.srs;
     const projection = this.projection;
-    this.table.getUserColumns().getColumns().forEach(column => {
-      const dataColumn = this.dataColumnsDao.getDataColumns(this.table.getTableName(), column.name);
-      columns.push({
-        index: column.index,
-        name: column.name,
-        max: column.max,
-        min: column.min,
-        notNull: column.notNull,
-        primaryKey: column.primaryKey,
-        dataType: column.dataType ? GeoPackageDataType.nameFromType(column.dataType) : '',
-        displayName: dataColumn && dataColumn.name ? dataColumn.name : column.name,
-        dataColumn: dataColumn,
+    this.table
+      .getUserColumns()
+      .getColumns()
+      .forEach(column => {
+        const dataColumn = this.dataColumnsDao.getDataColumns(this.table.getTableName(), column.name);
+        columns.push({
+          index: column.index,
+          name: column.name,
+          max: column.max,
+          min: column.min,
+          notNull: column.notNull,
+          primaryKey: column.primaryKey,
+          dataType: column.dataType ? GeoPackageDataType.nameFromType(column.dataType) : '',
+          displayName: dataColumn && dataColumn.name ? dataColumn.name : column.name,
+          dataColumn: dataColumn,
+        });
+        columnMap[column.name] = columns[columns.length - 1];
       });
-      columnMap[column.name] = columns[columns.length - 1];
-    });
-    let iterator: IterableIterator<any>;
-    if (boundingBox) {
-      iterator = this.featureTableIndex.queryWithBoundingBox(boundingBox, ProjectionConstants.EPSG_4326)[Symbol.iterator]();
-    } else {
-      iterator = this.queryForEach();
-    }
-    return {
-      srs: srs,
-      featureDao: this,
-      [Symbol.iterator](): IterableIterator<Feature> {
-        return this;
-      },
-      // eslint-disable-next-line complexity
-      next: (): IteratorResult<Feature> => {
-        let nextRow = iterator.next();
-        if (!nextRow.done) {
-          let featureRow: FeatureRow;
-          let geometry: GeoJsonObject;
-          while (!nextRow.done && !geometry) {
-            featureRow = this.getRow(nextRow.value) as FeatureRow;
-            try {
-              geometry = FeatureDao.reprojectFeature(featureRow, srs, projection);
-              if (!skipVerification && boundingBox) {
-                geometry = FeatureDao.verifyFeature(geometry, boundingBox);
-              }
-            } catch (e) {
-              console.log('Error parsing Geometry', e);
-            }
-            if (geometry) {
-              const geoJson = {
-                id: undefined,
-                type: 'Feature',
-                properties: {},
-                geometry: geometry,
-              } as Feature;
-              for (const key in featureRow.values) {
-                if (
-                  Object.prototype.hasOwnProperty.call(featureRow.values, key) &&
-                  key !== featureRow.geometryColumn.name
-                ) {
-                  if (key.toLowerCase() === '_feature_id' ) {
-                    geoJson.id = featureRow.values[key] as string | number;
-                  } else if (key.toLowerCase() === 'id') {
-                      geoJson.properties[key] = featureRow.values[key];
-                  } else if (key.toLowerCase() === '_properties_id') {
-                    geoJson.properties[key.substring(12)] = featureRow.values[key];
-                  } else {
-                    geoJson.properties[columnMap[key].displayName] = featureRow.values[key];
-                  }
-                }
-              }
-              geoJson.id = geoJson.id || featureRow.id;
-              return {
-                value: geoJson,
-                done: false,
-              };
-            } else {
-              nextRow = iterator.next();
-            }
+    // eslint-disable-next-line complexity
+    return (result: Record<string, DBValue>): Feature => {
+      const featureRow = this.getRow(result) as FeatureRow;
+      let geometry: GeoJsonObject;
+      try {
+        geometry = FeatureDao.reprojectFeature(featureRow, srs, projection);
+        if (!skipVerification && boundingBox) {
+          geometry = FeatureDao.verifyFeature(geometry, boundingBox);
+        }
+      } catch (e) {
+        console.log('Error parsing Geometry', e);
+      }
+      if (!geometry) {
+        return undefined;
+      }
+      const geoJson = {
+        id: undefined,
+        type: 'Feature',
+        properties: {},
+        geometry: geometry,
+      } as Feature;
+      for (const key in featureRow.values) {
+        if (Object.prototype.hasOwnProperty.call(featureRow.values, key) && key !== featureRow.geometryColumn.name) {
+          if (key.toLowerCase() === '_feature_id') {
+            geoJson.id = featureRow.values[key] as string | number;
+          } else if (key.toLowerCase() === 'id') {
+            geoJson.properties[key] = featureRow.values[key];
+          } else if (key.toLowerCase() === '_properties_id') {
+            geoJson.properties[key.substring(12)] = featureRow.values[key];
+          } else {
+            geoJson.properties[columnMap[key].displayName] = featureRow.values[key];
           }
         }
-        return {
-          done: true,
-          value: undefined,
-        };
-      },
+      }
+      geoJson.id = geoJson.id || featureRow.id;
+      return geoJson;
     };
   }
   getBoundingBox(): BoundingBox {
@@ -52,6 +52,41 @@ export class FeatureRow extends UserRow {
   set geometry(geometryData: GeometryData) {
     this.setValueWithIndex(this.featureTable.getGeometryColumnIndex(), geometryData);
   }
+  /**
+   * Set the geometry from Well-Known Text or Extended Well-Known Text, computing its envelope
+   * @param wkt WKT, or EWKT prefixed with its SRID
+   * @param srsId srs id of the geometry, defaults to the SRID of the EWKT, the srs id of the current geometry or the srs
+   * id of the table geometry columns
+   */
+  setGeometryWithWkt(wkt: string, srsId?: number): void {
+    const current = this.geometry;
+    const geometryData = GeometryData.fromWkt(wkt, srsId);
+    if (srsId == null && !/^\s*SRID=/i.test(wkt)) {
+      const geometryColumns = this.featureTable.getGeometryColumns();
+      if (current) {
+        geometryData.setSrsId(current.srsId);
+      } else if (geometryColumns) {
+        geometryData.setSrsId(geometryColumns.srs_id);
+      }
+    }
+    this.geometry = geometryData;
+  }
+  /**
+   * Get the geometry as Well-Known Text
+   * @return {String} WKT, null if the row has no geometry
+   */
+  getGeometryWkt(): string {
+    const geometry = this.geometry;
+    return geometry ? geometry.toWkt() : null;
+  }
+  /**
+   * Get the geometry as Extended Well-Known Text, prefixed with its srs id
+   * @return {String} EWKT, null if the row has no geometry
+   */
+  getGeometryEwkt(): string {
+    const geometry = this.geometry;
+    return geometry ? geometry.toEwkt() : null;
+  }
   /**
    * Get the geometry's type
    * @return {String} geometry data
@@ -7,6 +7,7 @@ import { FeatureColumn } from './featureColumn';
 import { FeatureColumns } from './featureColumns';
 import { Contents } from '../../core/contents/contents';
 import { ContentsDataType } from '../../core/contents/contentsDataType';
+import { GeometryColumns } from '../columns/geometryColumns';
 
 /**
  * Represents a user feature table
@@ -14,12 +15,39 @@ import { ContentsDataType } from '../../core/contents/contentsDataType';
  * @param  {array} columns   feature columns
  */
 export class FeatureTable extends UserTable<FeatureColumn> {
+  /**
+   * Geometry columns of the table
+   */
+  geometryColumns: GeometryColumns;
+
   constructor(tableName: string, geometryColumn: string, columns: FeatureColumn[]) {
     super(new FeatureColumns(tableName, geometryColumn, columns, false));
   }
 
   copy(): FeatureTable {
-    return new FeatureTable(this.getTableName(), this.getGeometryColumnName(), this.getUserColumns().getColumns());
+    const featureTable = new FeatureTable(
+      this.getTableName(),
+      this.getGeometryColumnName(),
+      this.getUserColumns().getColumns(),
+    );
+    featureTable.geometryColumns = this.geometryColumns;
+    return featureTable;
+  }
+
+  /**
+   * Get the geometry columns
+   * @return geometry columns
+   */
+  getGeometryColumns(): GeometryColumns {
+    return this.geometryColumns;
+  }
+
+  /**
+   * Set the geometry columns
+   * @param geometryColumns geometry columns
+   */
+  setGeometryColumns(geometryColumns: GeometryColumns): void {
+    this.geometryColumns = geometryColumns;
   }
 
   /**
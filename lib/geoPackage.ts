@@ -8,11 +8,14 @@ import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
 import pointDistance from '@turf/distance';
 import * as helpers from '@turf/helpers';
 import proj4 from 'proj4';
+import { Writable } from 'stream';
 import { Feature, FeatureCollection, Geometry, LineString, MultiPolygon, Point, Polygon } from 'geojson';
 
 import { GeometryData } from './geom/geometryData';
+import { GeoJSONMeasures } from './geom/geoJSONMeasures';
 import { GeoPackageConnection } from './db/geoPackageConnection';
 import { CrsWktExtension } from './extension/crsWkt';
+import { GeometryExtensions } from './extension/geometry';
 import { RelatedTablesExtension } from './extension/relatedTables';
 import { FeatureStyleExtension } from './extension/style';
 import { ContentsIdExtension } from './extension/contents';
@@ -36,6 +39,14 @@ import { AttributesDao } from './attributes/attributesDao';
 import { TileDao } from './tiles/user/tileDao';
 import { ContentsIdDao } from './extension/contents/contentsIdDao';
 import { TileScalingDao } from './extension/scale/tileScalingDao';
+import { VectorTileLayerDao } from './extension/vectorTiles/vectorTileLayerDao';
+import { VectorTileFieldDao } from './extension/vectorTiles/vectorTileFieldDao';
+import { VectorTilesExtension } from './extension/vectorTiles';
+import { FullTextSearchExtension } from './extension/fullTextSearch';
+import { ChangeTrackingExtension } from './extension/changeTracking';
+import { TableChangeDao } from './extension/changeTracking/tableChangeDao';
+import { AppliedChangesetDao } from './extension/changeTracking/appliedChangesetDao';
+import { ChangesetIdDao } from './extension/changeTracking/changesetIdDao';
 import { AttributesTable } from './attributes/attributesTable';
 import { TileTableReader } from './tiles/user/tileTableReader';
 import { AttributesTableReader } from './attributes/attributesTableReader';
@@ -69,6 +80,7 @@ import { SimpleAttributesRow } from './extension/relatedTables/simpleAttributesR
 import { SimpleAttributesTable } from './extension/relatedTables/simpleAttributesTable';
 import { TileRow } from './tiles/user/tileRow';
 import { FeatureTiles } from './tiles/features';
+import { FeatureVectorTiles } from './tiles/features/featureVectorTiles';
 import { GeoPackageTileRetriever } from './tiles/retriever';
 import { TileScaling } from './extension/scale/tileScaling';
 import { TileScalingType } from './extension/scale/tileScalingType';
@@ -82,6 +94,26 @@ import { Constraints } from './db/table/constraints';
 import { Projection } from './projection/projection';
 import { ProjectionConstants } from './projection/projectionConstants';
 import {SqliteQueryBuilder} from "./db/sqliteQueryBuilder";
+import { GeoJSONImporter, GeoJSONImportOptions, GeoJSONSource } from './io/geojson/geoJSONImporter';
+import { GeoJSONExporter, GeoJSONExportOptions } from './io/geojson/geoJSONExporter';
+import { ShapefileImporter, ShapefileImportOptions, ShapefileSource } from './io/shapefile/shapefileImporter';
+import { ShapefileExport, ShapefileExporter, ShapefileExportOptions } from './io/shapefile/shapefileExporter';
+import { KmlImporter, KmlImportOptions, KmlSource } from './io/kml/kmlImporter';
+import { KmlExporter, KmlExportOptions } from './io/kml/kmlExporter';
+import { GpxImport, GpxImporter, GpxImportOptions, GpxSource } from './io/gpx/gpxImporter';
+import { MBTilesImporter, MBTilesImportOptions, MBTilesSource } from './io/mbtiles/mbtilesImporter';
+import { MBTilesExporter, MBTilesExportOptions } from './io/mbtiles/mbtilesExporter';
+import { TileDirectoryImporter, TileDirectoryImportOptions } from './io/tiledirectory/tileDirectoryImporter';
+import { TileDirectoryExporter, TileDirectoryExportOptions } from './io/tiledirectory/tileDirectoryExporter';
+import { FlatGeobufImporter, FlatGeobufImportOptions } from './io/flatgeobuf/flatGeobufImporter';
+import { FlatGeobufExporter, FlatGeobufExportOptions } from './io/flatgeobuf/flatGeobufExporter';
+import { ChangesetExporter, ChangesetExportOptions } from './io/changeset/changesetExporter';
+import { ChangesetApplier, ChangesetSource } from './io/changeset/changesetApplier';
+import { Changeset, ChangesetApplyResult, ChangesetConflictPolicy } from './io/changeset/changeset';
+import { GeoPackageDiff, GeoPackageDiffOptions } from './diff/geoPackageDiff';
+import { GeoPackageDiffReport } from './diff/geoPackageDiffReport';
+import { FlatGeobufSource } from './io/flatgeobuf/flatGeobufReader';
+import { AsyncIterationOptions } from './db/asyncIteration';
 
 type ColumnMap = {
   [key: string]: {
@@ -130,9 +162,22 @@ export class GeoPackage {
   private _extendedRelationDao: ExtendedRelationDao;
   private _contentsIdDao: ContentsIdDao;
   private _tileScalingDao: TileScalingDao;
+  private _vectorTileLayerDao: VectorTileLayerDao;
+  private _vectorTileFieldDao: VectorTileFieldDao;
   private _contentsIdExtension: ContentsIdExtension;
   private _featureStyleExtension: FeatureStyleExtension;
   private _relatedTablesExtension: RelatedTablesExtension;
+  private _vectorTilesExtension: VectorTilesExtension;
+  private _fullTextSearchExtension: FullTextSearchExtension;
+  private _tableChangeDao: TableChangeDao;
+  private _appliedChangesetDao: AppliedChangesetDao;
+  private _changesetIdDao: ChangesetIdDao;
+  private _changeTrackingExtension: ChangeTrackingExtension;
+  /**
+   * Validate the z and m values of the geometries written to feature tables against the z and m settings of their
+   * geometry columns, off by default
+   */
+  validateGeometryDimensions = false;
 
   /**
    * Construct a new GeoPackage object
@@ -225,6 +270,12 @@ export class GeoPackage {
   get tileScalingDao(): TileScalingDao {
     return this._tileScalingDao || (this._tileScalingDao = new TileScalingDao(this));
   }
+  get vectorTileLayerDao(): VectorTileLayerDao {
+    return this._vectorTileLayerDao || (this._vectorTileLayerDao = new VectorTileLayerDao(this));
+  }
+  get vectorTileFieldDao(): VectorTileFieldDao {
+    return this._vectorTileFieldDao || (this._vectorTileFieldDao = new VectorTileFieldDao(this));
+  }
   get contentsIdExtension(): ContentsIdExtension {
     return this._contentsIdExtension || (this._contentsIdExtension = new ContentsIdExtension(this));
   }
@@ -240,6 +291,24 @@ export class GeoPackage {
   get relatedTablesExtension(): RelatedTablesExtension {
     return this._relatedTablesExtension || (this._relatedTablesExtension = new RelatedTablesExtension(this));
   }
+  get vectorTilesExtension(): VectorTilesExtension {
+    return this._vectorTilesExtension || (this._vectorTilesExtension = new VectorTilesExtension(this));
+  }
+  get fullTextSearchExtension(): FullTextSearchExtension {
+    return this._fullTextSearchExtension || (this._fullTextSearchExtension = new FullTextSearchExtension(this));
+  }
+  get tableChangeDao(): TableChangeDao {
+    return this._tableChangeDao || (this._tableChangeDao = new TableChangeDao(this));
+  }
+  get appliedChangesetDao(): AppliedChangesetDao {
+    return this._appliedChangesetDao || (this._appliedChangesetDao = new AppliedChangesetDao(this));
+  }
+  get changesetIdDao(): ChangesetIdDao {
+    return this._changesetIdDao || (this._changesetIdDao = new ChangesetIdDao(this));
+  }
+  get changeTrackingExtension(): ChangeTrackingExtension {
+    return this._changeTrackingExtension || (this._changeTrackingExtension = new ChangeTrackingExtension(this));
+  }
   getSrs(srsId: number): SpatialReferenceSystem {
     const dao = this.spatialReferenceSystemDao;
     return dao.queryForId(srsId);
@@ -767,7 +836,7 @@ export class GeoPackage {
 
     const insertSql = SqliteQueryBuilder.buildInsert("'" + featureDao.gpkgTableName + "'", featureRow);
 
-    const stepFunction = async (start: number, end: number, resolve: Function) => {
+    const stepFunction = async (start: number, end: number, resolve: Function, reject: (error: Error) => void) => {
       // execute step if there are still features
       if (start < end) {
         featureDao.connection.transaction(() => {
@@ -791,7 +860,8 @@ export class GeoPackage {
               feature = reproject.reproject(feature, ProjectionConstants.EPSG_4326, featureDao.projection);
             }
             const featureGeometry = typeof feature.geometry === 'string' ? JSON.parse(feature.geometry) : feature.geometry;
-            geometryData.setGeometry(featureGeometry ? wkx.Geometry.parseGeoJSON(featureGeometry) : emptyPoint);
+            geometryData.setGeometry(featureGeometry ? GeoJSONMeasures.parseGeoJSON(featureGeometry) : emptyPoint);
+            featureDao.checkGeometry(geometryData);
             featureRow.geometry = geometryData;
             for (const propertyKey in feature.properties) {
               if (Object.prototype.hasOwnProperty.call(feature.properties, propertyKey)) {
@@ -815,20 +885,242 @@ export class GeoPackage {
         });
         progressFunction(end);
         setTimeout(() => {
-          stepFunction(end, Math.min(end + batchSize, features.length), resolve);
+          stepFunction(end, Math.min(end + batchSize, features.length), resolve, reject).catch(reject);
         })
       } else {
         resolve(inserted);
       }
     }
 
-    return new Promise ((resolve) => {
+    return new Promise ((resolve, reject) => {
       setTimeout(() => {
-        stepFunction(0, Math.min(batchSize, features.length), resolve);
+        stepFunction(0, Math.min(batchSize, features.length), resolve, reject).catch(reject);
       });
     });
   }
 
+  /**
+   * Import GeoJSON features into a new feature table.  The columns and geometry type of the table are inferred
+   * from the features and the features are inserted in batched transactions. A file path source is streamed so
+   * large FeatureCollections are never fully loaded into memory.
+   * @param source FeatureCollection, array of features, path to a GeoJSON file or an (async) iterable of features
+   * @param tableName name of the feature table to create
+   * @param options import options
+   * @return {Promise<number>} number of features inserted
+   */
+  async importGeoJSON(source: GeoJSONSource, tableName: string, options?: GeoJSONImportOptions): Promise<number> {
+    return new GeoJSONImporter(this).importGeoJSON(source, tableName, options);
+  }
+
+  /**
+   * Export a feature table as a GeoJSON FeatureCollection.  The document is returned in chunks, one feature at a
+   * time, with coordinates reprojected to EPSG:4326 unless another projection is specified.
+   * @param tableName name of the feature table
+   * @param options export options
+   * @return {IterableIterator<string>} chunks of the FeatureCollection document
+   */
+  exportGeoJSON(tableName: string, options?: GeoJSONExportOptions): IterableIterator<string> {
+    return new GeoJSONExporter(this).exportGeoJSON(tableName, options);
+  }
+
+  /**
+   * Write a feature table as a GeoJSON FeatureCollection to a writable stream. Only available in Node.
+   * @param tableName name of the feature table
+   * @param stream stream to write to, it is not ended
+   * @param options export options
+   * @return {Promise<number>} number of features written
+   */
+  async exportGeoJSONToStream(tableName: string, stream: Writable, options?: GeoJSONExportOptions): Promise<number> {
+    return new GeoJSONExporter(this).exportGeoJSONToStream(tableName, stream, options);
+  }
+
+  /**
+   * Import a Shapefile into a new feature table.  The dBASE fields become columns, the .prj file is resolved to a
+   * spatial reference system and the geometries are written in the coordinate reference system of the Shapefile.
+   * @param source path to a .shp or .zip file, contents of a zipped Shapefile or the contents of its files
+   * @param tableName name of the feature table to create
+   * @param options import options
+   * @return {Promise<number>} number of features inserted
+   */
+  async importShapefile(source: ShapefileSource, tableName: string, options?: ShapefileImportOptions): Promise<number> {
+    return new ShapefileImporter(this).importShapefile(source, tableName, options);
+  }
+
+  /**
+   * Export a feature table to Shapefiles.  Tables with mixed geometry types are split into a Shapefile per shape type
+   * and column names are truncated to the 10 character dBASE limit.
+   * @param tableName name of the feature table
+   * @param options export options
+   * @return {ShapefileExport} contents of each Shapefile and the field name of each column
+   */
+  exportShapefile(tableName: string, options?: ShapefileExportOptions): ShapefileExport {
+    return new ShapefileExporter(this.getFeatureDao(tableName)).exportShapefile(options);
+  }
+
+  /**
+   * Export a feature table to a zip of Shapefiles
+   * @param tableName name of the feature table
+   * @param options export options
+   * @return {Promise<Buffer>} zip contents
+   */
+  async exportShapefileZip(tableName: string, options?: ShapefileExportOptions): Promise<Buffer> {
+    return new ShapefileExporter(this.getFeatureDao(tableName)).exportShapefileZip(options);
+  }
+
+  /**
+   * Import a FlatGeobuf file into a new feature table.  The columns of the file become columns of the matching data
+   * type and its CRS is resolved to a spatial reference system.  A bounding box limits the import to the features
+   * intersecting it, read through the spatial index of indexed files.
+   * @param source path to a .fgb file or its contents
+   * @param tableName name of the feature table to create
+   * @param options import options
+   * @return {Promise<number>} number of features inserted
+   */
+  async importFlatGeobuf(
+    source: FlatGeobufSource,
+    tableName: string,
+    options?: FlatGeobufImportOptions,
+  ): Promise<number> {
+    return new FlatGeobufImporter(this).importFlatGeobuf(source, tableName, options);
+  }
+
+  /**
+   * Export a feature table to a FlatGeobuf file with a packed Hilbert R-tree spatial index
+   * @param tableName name of the feature table
+   * @param options export options
+   * @return {Buffer} file contents
+   */
+  exportFlatGeobuf(tableName: string, options?: FlatGeobufExportOptions): Buffer {
+    return new FlatGeobufExporter(this.getFeatureDao(tableName)).exportFlatGeobuf(options);
+  }
+
+  /**
+   * Import the placemarks of a KML document or KMZ file into a new feature table.  Placemark styles and icons are
+   * written to the feature style extension.
+   * @param source path to a .kml or .kmz file, or the contents of a KML document or KMZ file
+   * @param tableName name of the feature table to create
+   * @param options import options
+   * @return {Promise<number>} number of placemarks inserted
+   */
+  async importKml(source: KmlSource, tableName: string, options?: KmlImportOptions): Promise<number> {
+    return new KmlImporter(this).importKml(source, tableName, options);
+  }
+
+  /**
+   * Iterate the KML document of feature tables, each table in a folder.  Feature styles are written as KML styles.
+   * @param tableNames names of the feature tables
+   * @param options export options
+   * @return {IterableIterator<string>} document chunks
+   */
+  exportKml(tableNames: string | string[], options?: KmlExportOptions): IterableIterator<string> {
+    return new KmlExporter(this).exportKml(tableNames, options);
+  }
+
+  /**
+   * Export feature tables to a KMZ file.  Feature styles are written as KML styles and icon images are included.
+   * @param tableNames names of the feature tables
+   * @param options export options
+   * @return {Promise<Buffer>} KMZ contents
+   */
+  async exportKmz(tableNames: string | string[], options?: KmlExportOptions): Promise<Buffer> {
+    return new KmlExporter(this).exportKmz(tableNames, options);
+  }
+
+  /**
+   * Import the waypoints, routes and tracks of a GPX document into new feature tables named after the table name with
+   * a `_waypoints`, `_routes` or `_tracks` suffix
+   * @param source path to a .gpx file or the contents of a GPX document
+   * @param tableName base name of the feature tables to create
+   * @param options import options
+   * @return {Promise<GpxImport>} created tables and number of features inserted
+   */
+  async importGpx(source: GpxSource, tableName: string, options?: GpxImportOptions): Promise<GpxImport> {
+    return new GpxImporter(this).importGpx(source, tableName, options);
+  }
+
+  /**
+   * Import the tiles of an MBTiles file into a new web mercator tile table
+   * @param source path to an .mbtiles file or its contents
+   * @param tableName name of the tile table to create
+   * @param options import options
+   * @return {Promise<number>} number of tiles inserted
+   */
+  async importMBTiles(source: MBTilesSource, tableName: string, options?: MBTilesImportOptions): Promise<number> {
+    return new MBTilesImporter(this).importMBTiles(source, tableName, options);
+  }
+
+  /**
+   * Export a tile table to a new MBTiles file
+   * @param tableName tile table to export
+   * @param filePath path of the .mbtiles file to create
+   * @param options export options
+   * @return {Promise<number>} number of tiles written
+   */
+  async exportMBTiles(tableName: string, filePath: string, options?: MBTilesExportOptions): Promise<number> {
+    return new MBTilesExporter(this).exportMBTiles(tableName, filePath, options);
+  }
+
+  /**
+   * Import a `{z}/{x}/{y}.{ext}` tile directory into a new web mercator tile table
+   * @param directory directory containing the zoom level directories
+   * @param tableName name of the tile table to create
+   * @param options import options
+   * @return {Promise<number>} number of tiles inserted
+   */
+  async importTileDirectory(
+    directory: string,
+    tableName: string,
+    options?: TileDirectoryImportOptions,
+  ): Promise<number> {
+    return new TileDirectoryImporter(this).importTileDirectory(directory, tableName, options);
+  }
+
+  /**
+   * Export a tile table to a `{z}/{x}/{y}.{ext}` tile directory
+   * @param tableName tile table to export
+   * @param directory directory to write the zoom level directories to
+   * @param options export options
+   * @return {Promise<number>} number of tiles written
+   */
+  async exportTileDirectory(
+    tableName: string,
+    directory: string,
+    options?: TileDirectoryExportOptions,
+  ): Promise<number> {
+    return new TileDirectoryExporter(this).exportTileDirectory(tableName, directory, options);
+  }
+
+  /**
+   * Export the changes of tables tracked by the change tracking extension made after a marker.  The JSON text of the
+   * changeset is a portable file to apply to copies of this GeoPackage.
+   * @param since marker of the last change already exported, 0 for all recorded changes
+   * @param options export options
+   * @return {Changeset} changeset, its marker is the marker to export the next changeset from
+   */
+  exportChangeset(since?: number, options?: ChangesetExportOptions): Changeset {
+    return new ChangesetExporter(this).exportChangeset(since, options);
+  }
+
+  /**
+   * Apply a changeset exported from another GeoPackage
+   * @param changeset changeset or its JSON text
+   * @param conflictPolicy how conflicts are resolved, defaults to aborting
+   * @return {ChangesetApplyResult} numbers of applied changes and the skipped or overwritten conflicts
+   */
+  applyChangeset(changeset: ChangesetSource, conflictPolicy?: ChangesetConflictPolicy): ChangesetApplyResult {
+    return new ChangesetApplier(this).applyChangeset(changeset, conflictPolicy);
+  }
+
+  /**
+   * Compare this GeoPackage to another GeoPackage
+   * @param other GeoPackage to compare to
+   * @param options diff options
+   * @return {GeoPackageDiffReport} differences from this GeoPackage to the other GeoPackage
+   */
+  diff(other: GeoPackage, options?: GeoPackageDiffOptions): GeoPackageDiffReport {
+    return new GeoPackageDiff(this, other, options).diff();
+  }
+
   addGeoJSONFeatureToGeoPackage(feature: Feature, tableName: string, index = false): number {
     const featureDao = this.getFeatureDao(tableName);
     return this.addGeoJSONFeatureToGeoPackageWithFeatureDaoAndSrs(feature, featureDao, featureDao.srs, index);
@@ -852,7 +1144,7 @@ export class GeoPackage {
 
     const featureGeometry = typeof feature.geometry === 'string' ? JSON.parse(feature.geometry) : feature.geometry;
     if (featureGeometry !== null) {
-      const geometry = wkx.Geometry.parseGeoJSON(featureGeometry);
+      const geometry = GeoJSONMeasures.parseGeoJSON(featureGeometry);
       geometryData.setGeometry(geometry);
     } else {
       const temp = wkx.Geometry.parse('POINT EMPTY');
@@ -1024,6 +1316,14 @@ export class GeoPackage {
     this.contentsDao.create(contents);
     geometryColumn.srs_id = srsId;
     this.geometryColumnsDao.create(geometryColumn);
+    const geometryType = GeometryType.fromName(geometryColumn.geometry_type_name);
+    if (GeometryExtensions.isExtension(geometryType)) {
+      new GeometryExtensions(this).getOrCreateExtension(
+        geometryColumn.table_name,
+        geometryColumn.column_name,
+        geometryType,
+      );
+    }
     if (dataColumns) {
       this.createDataColumns();
       const dataColumnsDao = this.dataColumnsDao;
@@ -1852,6 +2152,20 @@ export class GeoPackage {
     return ft.drawTile(x, y, z);
   }
 
+  /**
+   * Encode the web mercator (EPSG:3857) xyz tile of a feature table as a Mapbox Vector Tile
+   * @param table feature table name
+   * @param x tile column
+   * @param y tile row
+   * @param z zoom level
+   * @return {Buffer} vector tile, empty if no features are in the tile
+   */
+  getFeatureVectorTileFromXYZ(table: string, x: number, y: number, z: number): Buffer {
+    const featureDao = this.getFeatureDao(table);
+    if (!featureDao) return;
+    return new FeatureVectorTiles(featureDao).getTile(Number(x), Number(y), Number(z));
+  }
+
   getClosestFeatureInXYZTile(
     table: string,
     x: number,
@@ -2068,6 +2382,23 @@ export class GeoPackage {
     return featureDao.queryForGeoJSONIndexedFeaturesWithBoundingBox(boundingBox);
   }
 
+  /**
+   * Iterate the GeoJSON features of a table asynchronously, reading the features in chunks and releasing the query
+   * when the iteration stops
+   * @param  {string} tableName name of the feature table
+   * @param  {BoundingBox} [boundingBox] 4326 bounding box to query
+   * @param  {module:db/asyncIteration~AsyncIterationOptions} [options] chunk size and abort signal
+   * @return {AsyncIterableIterator<Feature>}
+   */
+  iterateGeoJSONFeaturesAsync(
+    tableName: string,
+    boundingBox?: BoundingBox,
+    options?: AsyncIterationOptions,
+  ): AsyncIterableIterator<Feature> {
+    const featureDao = this.getFeatureDao(tableName);
+    return featureDao.queryForGeoJSONIndexedFeaturesWithBoundingBoxAsync(boundingBox, false, options);
+  }
+
   /**
    * Gets a GeoJSON feature from the table by id
    * @param  {module:geoPackage~GeoPackage}   geopackage open GeoPackage object
@@ -2108,7 +2439,7 @@ export class GeoPackage {
     };
     const geometry = featureRow.geometry;
     if (geometry && geometry.geometry) {
-      let geoJsonGeom = geometry.geometry.toGeoJSON() as Geometry;
+      let geoJsonGeom = (geometry.toGeoJSON() as unknown) as Geometry;
       if (
         srs.definition &&
         srs.definition !== 'undefined' &&
@@ -2513,6 +2844,7 @@ export class GeoPackage {
           this.copyFeatureTable(tableName, newTableName, transferContent);
           break;
         case ContentsDataType.TILES:
+        case ContentsDataType.VECTOR_TILES:
           this.copyTileTable(tableName, newTableName, transferContent);
           break;
         default:
@@ -1,6 +1,7 @@
 import turfBbox from '@turf/bbox';
 import wkx from 'wkx';
 import { Envelope } from './envelope';
+import { ExtendedGeometry } from './extended/extendedGeometry';
 
 export class EnvelopeBuilder {
   static buildEnvelopeWithGeometry(wkbGeometry: wkx.Geometry): Envelope {
@@ -13,4 +14,78 @@ export class EnvelopeBuilder {
       maxY: bbox[3],
     };
   }
+
+  /**
+   * Build the envelope of a geometry including the range of its z and m values when the geometry has them
+   * @param wkbGeometry geometry
+   * @return envelope, undefined if the geometry is empty
+   */
+  static buildEnvelopeWithGeometryDimensions(wkbGeometry: wkx.Geometry): Envelope {
+    const points = EnvelopeBuilder.getPoints(wkbGeometry);
+    if (points.length === 0) {
+      return undefined;
+    }
+    const envelope = new Envelope();
+    envelope.minX = envelope.minY = Infinity;
+    envelope.maxX = envelope.maxY = -Infinity;
+    envelope.hasZ = !!wkbGeometry.hasZ;
+    envelope.hasM = !!wkbGeometry.hasM;
+    if (envelope.hasZ) {
+      envelope.minZ = Infinity;
+      envelope.maxZ = -Infinity;
+    }
+    if (envelope.hasM) {
+      envelope.minM = Infinity;
+      envelope.maxM = -Infinity;
+    }
+    points.forEach(point => {
+      envelope.minX = Math.min(envelope.minX, point.x);
+      envelope.minY = Math.min(envelope.minY, point.y);
+      envelope.maxX = Math.max(envelope.maxX, point.x);
+      envelope.maxY = Math.max(envelope.maxY, point.y);
+      if (envelope.hasZ) {
+        envelope.minZ = Math.min(envelope.minZ, point.z);
+        envelope.maxZ = Math.max(envelope.maxZ, point.z);
+      }
+      if (envelope.hasM) {
+        envelope.minM = Math.min(envelope.minM, point.m);
+        envelope.maxM = Math.max(envelope.maxM, point.m);
+      }
+    });
+    return envelope;
+  }
+
+  /**
+   * Determine if a geometry is empty, holding no points
+   * @param wkbGeometry geometry
+   */
+  static isEmpty(wkbGeometry: wkx.Geometry): boolean {
+    return EnvelopeBuilder.getPoints(wkbGeometry).length === 0;
+  }
+
+  /**
+   * Get the points of a geometry, skipping empty points
+   * @param wkbGeometry geometry
+   * @return points
+   */
+  private static getPoints(wkbGeometry: wkx.Geometry): wkx.Point[] {
+    if (wkbGeometry instanceof ExtendedGeometry) {
+      return EnvelopeBuilder.getPoints(wkbGeometry.linearize());
+    } else if (wkbGeometry instanceof wkx.Point) {
+      return wkbGeometry.x === undefined || isNaN(wkbGeometry.x) ? [] : [wkbGeometry];
+    } else if (wkbGeometry instanceof wkx.LineString || wkbGeometry instanceof wkx.MultiPoint) {
+      return [].concat(...wkbGeometry.points.map(point => EnvelopeBuilder.getPoints(point)));
+    } else if (wkbGeometry instanceof wkx.Polygon) {
+      return [].concat(wkbGeometry.exteriorRing, ...wkbGeometry.interiorRings);
+    }
+    let geometries: wkx.Geometry[] = [];
+    if (wkbGeometry instanceof wkx.MultiLineString) {
+      geometries = wkbGeometry.lineStrings;
+    } else if (wkbGeometry instanceof wkx.MultiPolygon) {
+      geometries = wkbGeometry.polygons;
+    } else if (wkbGeometry instanceof wkx.GeometryCollection) {
+      geometries = wkbGeometry.geometries;
+    }
+    return [].concat(...geometries.map(geometry => EnvelopeBuilder.getPoints(geometry)));
+  }
 }
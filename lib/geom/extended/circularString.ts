@@ -0,0 +1,128 @@
+/**
+ * Circular string
+ * @module geom/extended
+ */
+import wkx from 'wkx';
+import { ExtendedGeometry } from './extendedGeometry';
+import { GeometryType } from '../../features/user/geometryType';
+
+/**
+ * A curve of circular arcs, each defined by its start point, a point on the arc and its end point, with the end point
+ * of an arc being the start point of the next
+ */
+export class CircularString extends ExtendedGeometry {
+  /**
+   * Number of line segments approximating a full circle when the arcs are linearized
+   */
+  public static SEGMENTS_PER_CIRCLE = 72;
+
+  readonly geometryType: GeometryType = GeometryType.CIRCULARSTRING;
+
+  /**
+   * @param points points of the arcs
+   * @param hasZ has z values, defaults to the dimensions of the first point
+   * @param hasM has m values, defaults to the dimensions of the first point
+   */
+  constructor(public points: wkx.Point[] = [], hasZ?: boolean, hasM?: boolean) {
+    super();
+    this.setDimensions(
+      hasZ != null ? hasZ : points.length > 0 && points[0].hasZ,
+      hasM != null ? hasM : points.length > 0 && points[0].hasM,
+    );
+  }
+
+  isEmpty(): boolean {
+    return this.points.length === 0;
+  }
+
+  getGeometries(): wkx.Geometry[] {
+    return [];
+  }
+
+  linearize(): wkx.LineString {
+    const points: wkx.Point[] = this.points.slice(0, 1);
+    for (let i = 0; i + 2 < this.points.length; i += 2) {
+      points.push(...CircularString.linearizeArc(this.points[i], this.points[i + 1], this.points[i + 2]));
+    }
+    const lineString = new wkx.LineString(points);
+    lineString.hasZ = this.hasZ;
+    lineString.hasM = this.hasM;
+    return lineString;
+  }
+
+  protected toWkbBody(): Buffer {
+    return ExtendedGeometry.writePoints(this.points, this.hasZ, this.hasM);
+  }
+
+  protected toWktBody(): string {
+    return ExtendedGeometry.wktPoints(this.points, this.hasZ, this.hasM);
+  }
+
+  /**
+   * Approximate an arc with line segments
+   * @param start start point
+   * @param middle point on the arc
+   * @param end end point
+   * @return points following the start point up to and including the end point
+   */
+  static linearizeArc(start: wkx.Point, middle: wkx.Point, end: wkx.Point): wkx.Point[] {
+    const closed = start.x === end.x && start.y === end.y;
+    let centerX: number;
+    let centerY: number;
+    if (closed) {
+      // a full circle, the middle point is opposite the start point
+      centerX = (start.x + middle.x) / 2;
+      centerY = (start.y + middle.y) / 2;
+    } else {
+      const d = 2 * (start.x * (middle.y - end.y) + middle.x * (end.y - start.y) + end.x * (start.y - middle.y));
+      if (d === 0) {
+        // collinear points are a straight line
+        return [middle, end];
+      }
+      const startSquared = start.x * start.x + start.y * start.y;
+      const middleSquared = middle.x * middle.x + middle.y * middle.y;
+      const endSquared = end.x * end.x + end.y * end.y;
+      centerX =
+        (startSquared * (middle.y - end.y) + middleSquared * (end.y - start.y) + endSquared * (start.y - middle.y)) / d;
+      centerY =
+        (startSquared * (end.x - middle.x) + middleSquared * (start.x - end.x) + endSquared * (middle.x - start.x)) / d;
+    }
+    const radius = Math.hypot(start.x - centerX, start.y - centerY);
+    const startAngle = Math.atan2(start.y - centerY, start.x - centerX);
+    const middleAngle = Math.atan2(middle.y - centerY, middle.x - centerX);
+    const endAngle = Math.atan2(end.y - centerY, end.x - centerX);
+    const fullCircle = 2 * Math.PI;
+    const normalize = (angle: number): number => ((angle % fullCircle) + fullCircle) % fullCircle;
+    const counterClockwise =
+      closed || (middle.x - start.x) * (end.y - middle.y) - (middle.y - start.y) * (end.x - middle.x) > 0;
+    const direction = counterClockwise ? 1 : -1;
+    const sweep = closed ? fullCircle : normalize(direction * (endAngle - startAngle));
+    const middleSweep = normalize(direction * (middleAngle - startAngle));
+    const segments = Math.max(2, Math.ceil((sweep / fullCircle) * CircularString.SEGMENTS_PER_CIRCLE));
+
+    const points: wkx.Point[] = [];
+    for (let i = 1; i < segments; i++) {
+      const angleSweep = (sweep * i) / segments;
+      const angle = startAngle + direction * angleSweep;
+      // z and m values are interpolated between the defining points
+      const interpolate = (startValue: number, middleValue: number, endValue: number): number => {
+        if (startValue === undefined) {
+          return undefined;
+        } else if (angleSweep <= middleSweep) {
+          return startValue + ((middleValue - startValue) * angleSweep) / middleSweep;
+        }
+        return middleValue + ((endValue - middleValue) * (angleSweep - middleSweep)) / (sweep - middleSweep);
+      };
+      points.push(
+        new wkx.Point(
+          centerX + radius * Math.cos(angle),
+          centerY + radius * Math.sin(angle),
+          interpolate(start.z, middle.z, end.z),
+          interpolate(start.m, middle.m, end.m),
+        ),
+      );
+    }
+    points.push(end);
+    return points;
+  }
+}
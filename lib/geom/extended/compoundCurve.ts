@@ -0,0 +1,55 @@
+/**
+ * Compound curve
+ * @module geom/extended
+ */
+import wkx from 'wkx';
+import { ExtendedGeometry } from './extendedGeometry';
+import { GeometryType } from '../../features/user/geometryType';
+
+/**
+ * A curve of connected line strings and circular strings, each starting at the end point of the previous one
+ */
+export class CompoundCurve extends ExtendedGeometry {
+  readonly geometryType: GeometryType = GeometryType.COMPOUNDCURVE;
+
+  /**
+   * @param curves line strings and circular strings
+   * @param hasZ has z values, defaults to the dimensions of the first curve
+   * @param hasM has m values, defaults to the dimensions of the first curve
+   */
+  constructor(public curves: wkx.Geometry[] = [], hasZ?: boolean, hasM?: boolean) {
+    super();
+    this.setDimensions(
+      hasZ != null ? hasZ : curves.length > 0 && curves[0].hasZ,
+      hasM != null ? hasM : curves.length > 0 && curves[0].hasM,
+    );
+  }
+
+  isEmpty(): boolean {
+    return this.curves.length === 0;
+  }
+
+  getGeometries(): wkx.Geometry[] {
+    return this.curves;
+  }
+
+  linearize(): wkx.LineString {
+    const points: wkx.Point[] = [];
+    this.curves.forEach(curve => {
+      // each curve starts at the end point of the previous curve
+      points.push(...ExtendedGeometry.getCurvePoints(curve).slice(points.length > 0 ? 1 : 0));
+    });
+    const lineString = new wkx.LineString(points);
+    lineString.hasZ = this.hasZ;
+    lineString.hasM = this.hasM;
+    return lineString;
+  }
+
+  protected toWkbBody(): Buffer {
+    return ExtendedGeometry.writeGeometries(this.curves);
+  }
+
+  protected toWktBody(): string {
+    return '(' + this.curves.map(ExtendedGeometry.wktComponent).join(',') + ')';
+  }
+}
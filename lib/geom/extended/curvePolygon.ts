@@ -0,0 +1,52 @@
+/**
+ * Curve polygon
+ * @module geom/extended
+ */
+import wkx from 'wkx';
+import { ExtendedGeometry } from './extendedGeometry';
+import { GeometryType } from '../../features/user/geometryType';
+
+/**
+ * A polygon with rings that may be line strings, circular strings or compound curves.  The first ring is the exterior
+ * ring.
+ */
+export class CurvePolygon extends ExtendedGeometry {
+  readonly geometryType: GeometryType = GeometryType.CURVEPOLYGON;
+
+  /**
+   * @param rings exterior ring followed by the interior rings
+   * @param hasZ has z values, defaults to the dimensions of the exterior ring
+   * @param hasM has m values, defaults to the dimensions of the exterior ring
+   */
+  constructor(public rings: wkx.Geometry[] = [], hasZ?: boolean, hasM?: boolean) {
+    super();
+    this.setDimensions(
+      hasZ != null ? hasZ : rings.length > 0 && rings[0].hasZ,
+      hasM != null ? hasM : rings.length > 0 && rings[0].hasM,
+    );
+  }
+
+  isEmpty(): boolean {
+    return this.rings.length === 0;
+  }
+
+  getGeometries(): wkx.Geometry[] {
+    return this.rings;
+  }
+
+  linearize(): wkx.Polygon {
+    const rings = this.rings.map(ring => ExtendedGeometry.getCurvePoints(ring));
+    const polygon = new wkx.Polygon(rings.length > 0 ? rings[0] : [], rings.slice(1));
+    polygon.hasZ = this.hasZ;
+    polygon.hasM = this.hasM;
+    return polygon;
+  }
+
+  protected toWkbBody(): Buffer {
+    return ExtendedGeometry.writeGeometries(this.rings);
+  }
+
+  protected toWktBody(): string {
+    return '(' + this.rings.map(ExtendedGeometry.wktComponent).join(',') + ')';
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Extended geometry types
+ * @module geom/extended
+ */
+import wkx from 'wkx';
+import { GeometryType } from '../../features/user/geometryType';
+
+/**
+ * Base of the curve and surface geometry types wkx does not support.  Extended geometries are written as ISO WKB and
+ * WKT and are linearized, with arcs approximated by line segments, for GeoJSON output, rendering and envelopes.
+ */
+export abstract class ExtendedGeometry extends wkx.Geometry {
+  /**
+   * Geometry type, which is also its WKB geometry type code
+   */
+  abstract readonly geometryType: GeometryType;
+
+  /**
+   * Determine if the geometry is empty
+   */
+  abstract isEmpty(): boolean;
+
+  /**
+   * Get the geometries the geometry is made of
+   * @return component geometries, empty for geometries made of points
+   */
+  abstract getGeometries(): wkx.Geometry[];
+
+  /**
+   * Approximate the geometry with the standard geometry types
+   * @return linearized geometry
+   */
+  abstract linearize(): wkx.Geometry;
+
+  /**
+   * Write the WKB of the geometry following its geometry type
+   * @return WKB body
+   */
+  protected abstract toWkbBody(): Buffer;
+
+  /**
+   * Write the WKT of the geometry following its geometry type
+   * @return WKT body
+   */
+  protected abstract toWktBody(): string;
+
+  /**
+   * Set the dimensions of the geometry
+   * @param hasZ has z values
+   * @param hasM has m values
+   */
+  protected setDimensions(hasZ: boolean, hasM: boolean): void {
+    this.hasZ = !!hasZ;
+    this.hasM = !!hasM;
+  }
+
+  toWkb(): Buffer {
+    const header = Buffer.alloc(5);
+    header.writeUInt8(1, 0);
+    header.writeUInt32LE(ExtendedGeometry.getWkbCode(this.geometryType, this.hasZ, this.hasM), 1);
+    return Buffer.concat([header, this.isEmpty() ? ExtendedGeometry.writeCount(0) : this.toWkbBody()]);
+  }
+
+  /**
+   * Size of the WKB, read by wkx when writing collections holding the geometry
+   */
+  _getWkbSize(): number {
+    return this.toWkb().length;
+  }
+
+  toWkt(): string {
+    return this.isEmpty() ? this.getWktType().trim() + ' EMPTY' : this.getWktType() + this.toWktBody();
+  }
+
+  toGeoJSON(options?: wkx.GeoJSONOptions): {} {
+    return this.linearize().toGeoJSON(options);
+  }
+
+  /**
+   * Get the WKT geometry type with the dimensions, such as CIRCULARSTRING Z
+   */
+  protected getWktType(): string {
+    let type = GeometryType.nameFromType(this.geometryType);
+    if (this.hasZ && this.hasM) {
+      type += ' ZM';
+    } else if (this.hasZ) {
+      type += ' Z';
+    } else if (this.hasM) {
+      type += ' M';
+    }
+    return this.hasZ || this.hasM ? type + ' ' : type;
+  }
+
+  /**
+   * Get the ISO WKB geometry type code
+   * @param geometryType geometry type
+   * @param hasZ has z values
+   * @param hasM has m values
+   * @return WKB geometry type code
+   */
+  static getWkbCode(geometryType: GeometryType, hasZ: boolean, hasM: boolean): number {
+    return geometryType + (hasZ ? 1000 : 0) + (hasM ? 2000 : 0);
+  }
+
+  /**
+   * Linearize a geometry if it is an extended geometry
+   * @param geometry geometry
+   * @return standard geometry
+   */
+  static linearizeGeometry(geometry: wkx.Geometry): wkx.Geometry {
+    return geometry instanceof ExtendedGeometry ? geometry.linearize() : geometry;
+  }
+
+  /**
+   * Get the points of a linearized curve
+   * @param curve line string, circular string or compound curve
+   * @return points
+   */
+  static getCurvePoints(curve: wkx.Geometry): wkx.Point[] {
+    const linearized = ExtendedGeometry.linearizeGeometry(curve);
+    if (!(linearized instanceof wkx.LineString)) {
+      throw new Error('Geometry is not a curve: ' + curve.constructor.name);
+    }
+    return linearized.points;
+  }
+
+  /**
+   * Write a count of WKB elements
+   * @param count count
+   * @return buffer
+   */
+  static writeCount(count: number): Buffer {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(count, 0);
+    return buffer;
+  }
+
+  /**
+   * Write a WKB point list
+   * @param points points
+   * @param hasZ write z values
+   * @param hasM write m values
+   * @return buffer
+   */
+  static writePoints(points: wkx.Point[], hasZ: boolean, hasM: boolean): Buffer {
+    const size = 16 + (hasZ ? 8 : 0) + (hasM ? 8 : 0);
+    const buffer = Buffer.alloc(4 + points.length * size);
+    buffer.writeUInt32LE(points.length, 0);
+    points.forEach((point, i) => {
+      let position = 4 + i * size;
+      buffer.writeDoubleLE(point.x, position);
+      buffer.writeDoubleLE(point.y, position + 8);
+      position += 16;
+      if (hasZ) {
+        buffer.writeDoubleLE(point.z, position);
+        position += 8;
+      }
+      if (hasM) {
+        buffer.writeDoubleLE(point.m, position);
+      }
+    });
+    return buffer;
+  }
+
+  /**
+   * Write a count followed by the WKB of each geometry
+   * @param geometries geometries
+   * @return buffer
+   */
+  static writeGeometries(geometries: wkx.Geometry[]): Buffer {
+    return Buffer.concat([
+      ExtendedGeometry.writeCount(geometries.length),
+      ...geometries.map(geometry => geometry.toWkb()),
+    ]);
+  }
+
+  /**
+   * Write a WKT point list
+   * @param points points
+   * @param hasZ write z values
+   * @param hasM write m values
+   * @return WKT such as (1 2,3 4)
+   */
+  static wktPoints(points: wkx.Point[], hasZ: boolean, hasM: boolean): string {
+    return (
+      '(' +
+      points
+        .map(point => {
+          let coordinates = point.x + ' ' + point.y;
+          if (hasZ) {
+            coordinates += ' ' + point.z;
+          }
+          if (hasM) {
+            coordinates += ' ' + point.m;
+          }
+          return coordinates;
+        })
+        .join(',') +
+      ')'
+    );
+  }
+
+  /**
+   * Write the WKT of a geometry within a curve or surface, where line strings and polygons are written without their
+   * geometry type
+   * @param geometry geometry
+   * @return WKT
+   */
+  static wktComponent(geometry: wkx.Geometry): string {
+    if (geometry instanceof wkx.LineString) {
+      if (geometry.points.length === 0) {
+        return 'EMPTY';
+      }
+      return ExtendedGeometry.wktPoints(geometry.points, geometry.hasZ, geometry.hasM);
+    } else if (geometry instanceof wkx.Polygon) {
+      if (geometry.exteriorRing.length === 0) {
+        return 'EMPTY';
+      }
+      return (
+        '(' +
+        [geometry.exteriorRing, ...geometry.interiorRings]
+          .map(ring => ExtendedGeometry.wktPoints(ring, geometry.hasZ, geometry.hasM))
+          .join(',') +
+        ')'
+      );
+    }
+    // geometries within curves and surfaces share the dimensions of their parent
+    return geometry
+      .toWkt()
+      .replace(/^([A-Z]+)( ZM| Z| M)/, '$1')
+      .replace(/^([A-Z]+) \(/, '$1(');
+  }
+}
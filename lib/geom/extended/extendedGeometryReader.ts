@@ -0,0 +1,440 @@
+/**
+ * Extended geometry reading
+ * @module geom/extended
+ */
+import wkx from 'wkx';
+import { CircularString } from './circularString';
+import { CompoundCurve } from './compoundCurve';
+import { CurvePolygon } from './curvePolygon';
+import { MultiCurve } from './multiCurve';
+import { MultiSurface } from './multiSurface';
+import { PolyhedralSurface } from './polyhedralSurface';
+import { Tin } from './tin';
+import { Triangle } from './triangle';
+import { GeometryType } from '../../features/user/geometryType';
+
+/**
+ * Dimensions of a geometry
+ */
+interface Dimensions {
+  hasZ: boolean;
+  hasM: boolean;
+}
+
+/**
+ * Create a circular string, validating that its points make whole arcs
+ * @param points points of the arcs
+ * @return circular string
+ */
+function createCircularString(points: wkx.Point[]): CircularString {
+  if (points.length > 0 && (points.length < 3 || points.length % 2 === 0)) {
+    throw new Error('Circular string requires an odd number of at least 3 points, found ' + points.length);
+  }
+  return new CircularString(points);
+}
+
+/**
+ * Recursive descent parser of WKT
+ */
+class WktParser {
+  private readonly tokens: string[];
+  private position = 0;
+
+  constructor(wkt: string) {
+    this.tokens = wkt.toUpperCase().match(/SRID=\d+;|[A-Z]+|[-+]?(\d+\.?\d*|\.\d+)(E[-+]?\d+)?|[(),]/g) || [];
+  }
+
+  parse(): wkx.Geometry {
+    let srid: number;
+    if (this.peek() && this.peek().indexOf('SRID=') === 0) {
+      srid = parseInt(this.next().substring(5), 10);
+    }
+    const geometry = this.readGeometry();
+    if (this.position < this.tokens.length) {
+      throw new Error('Unexpected WKT: ' + this.tokens[this.position]);
+    }
+    geometry.srid = srid;
+    return geometry;
+  }
+
+  private readGeometry(parent?: Dimensions): wkx.Geometry {
+    const name = this.next();
+    let type = GeometryType.fromName(name);
+    let dimensions: Dimensions;
+    // dimensions may follow the type name, such as POINTZ
+    const attached = /^([A-Z]+?)(ZM|Z|M)$/.exec(name);
+    if (type === undefined && attached && GeometryType.fromName(attached[1]) !== undefined) {
+      type = GeometryType.fromName(attached[1]);
+      dimensions = { hasZ: attached[2].indexOf('Z') !== -1, hasM: attached[2].indexOf('M') !== -1 };
+    }
+    if (type === undefined || type === GeometryType.GEOMETRY) {
+      throw new Error('Expected geometry type: ' + name);
+    }
+    if (!dimensions) {
+      dimensions = this.readDimensions(parent);
+    }
+    return this.withDimensions(this.readGeometryBody(type, dimensions), dimensions);
+  }
+
+  private readDimensions(parent?: Dimensions): Dimensions {
+    const token = this.peek();
+    if (token === 'Z' || token === 'M' || token === 'ZM') {
+      this.next();
+      return { hasZ: token !== 'M', hasM: token !== 'Z' };
+    }
+    return parent ? parent : { hasZ: undefined, hasM: undefined };
+  }
+
+  private readGeometryBody(type: GeometryType, dimensions: Dimensions): wkx.Geometry {
+    if (this.peek() === 'EMPTY') {
+      this.next();
+      return this.createEmpty(type);
+    }
+    switch (type) {
+      case GeometryType.POINT: {
+        this.expect('(');
+        const point = this.readPoint(dimensions);
+        this.expect(')');
+        return point;
+      }
+      case GeometryType.LINESTRING:
+        return new wkx.LineString(this.readPoints(dimensions));
+      case GeometryType.CIRCULARSTRING:
+        return createCircularString(this.readPoints(dimensions));
+      case GeometryType.POLYGON: {
+        const rings = this.readList(() => this.readPoints(dimensions));
+        return new wkx.Polygon(rings[0], rings.slice(1));
+      }
+      case GeometryType.TRIANGLE:
+        return new Triangle(this.readList(() => this.readPoints(dimensions))[0]);
+      case GeometryType.MULTIPOINT:
+        return new wkx.MultiPoint(
+          this.readList(() => {
+            // points of a multi point may or may not be in parentheses
+            if (this.peek() !== '(') {
+              return this.readPoint(dimensions);
+            }
+            this.expect('(');
+            const point = this.readPoint(dimensions);
+            this.expect(')');
+            return point;
+          }),
+        );
+      case GeometryType.MULTILINESTRING:
+        return new wkx.MultiLineString(
+          this.readList(() => this.withDimensions(new wkx.LineString(this.readPoints(dimensions)), dimensions)),
+        );
+      case GeometryType.MULTIPOLYGON:
+      case GeometryType.POLYHEDRALSURFACE:
+      case GeometryType.TIN: {
+        const polygons = this.readList(() => {
+          const rings = this.readList(() => this.readPoints(dimensions));
+          if (type === GeometryType.TIN) {
+            return this.withDimensions(new Triangle(rings[0]), dimensions);
+          }
+          return this.withDimensions(new wkx.Polygon(rings[0], rings.slice(1)), dimensions);
+        });
+        if (type === GeometryType.MULTIPOLYGON) {
+          return new wkx.MultiPolygon(polygons as wkx.Polygon[]);
+        }
+        return type === GeometryType.TIN
+          ? new Tin(polygons as Triangle[])
+          : new PolyhedralSurface(polygons as wkx.Polygon[]);
+      }
+      case GeometryType.COMPOUNDCURVE:
+      case GeometryType.CURVEPOLYGON:
+      case GeometryType.MULTICURVE: {
+        const curves = this.readList(() => this.readComponent(dimensions, wkx.LineString));
+        if (type === GeometryType.COMPOUNDCURVE) {
+          return new CompoundCurve(curves);
+        }
+        return type === GeometryType.CURVEPOLYGON ? new CurvePolygon(curves) : new MultiCurve(curves);
+      }
+      case GeometryType.MULTISURFACE:
+        return new MultiSurface(this.readList(() => this.readComponent(dimensions, wkx.Polygon)));
+      case GeometryType.GEOMETRYCOLLECTION:
+        return new wkx.GeometryCollection(this.readList(() => this.readGeometry()));
+      default:
+        throw new Error('Unsupported WKT geometry type: ' + GeometryType.nameFromType(type));
+    }
+  }
+
+  /**
+   * Read a geometry within a curve or surface, a line string or polygon when it has no geometry type
+   */
+  private readComponent(dimensions: Dimensions, defaultType: typeof wkx.LineString | typeof wkx.Polygon): wkx.Geometry {
+    if (this.peek() !== '(') {
+      return this.readGeometry(dimensions);
+    }
+    if (defaultType === wkx.LineString) {
+      return this.withDimensions(new wkx.LineString(this.readPoints(dimensions)), dimensions);
+    }
+    const rings = this.readList(() => this.readPoints(dimensions));
+    return this.withDimensions(new wkx.Polygon(rings[0], rings.slice(1)), dimensions);
+  }
+
+  private createEmpty(type: GeometryType): wkx.Geometry {
+    switch (type) {
+      case GeometryType.POINT:
+        return new wkx.Point();
+      case GeometryType.LINESTRING:
+        return new wkx.LineString();
+      case GeometryType.POLYGON:
+        return new wkx.Polygon();
+      case GeometryType.MULTIPOINT:
+        return new wkx.MultiPoint();
+      case GeometryType.MULTILINESTRING:
+        return new wkx.MultiLineString();
+      case GeometryType.MULTIPOLYGON:
+        return new wkx.MultiPolygon();
+      case GeometryType.GEOMETRYCOLLECTION:
+        return new wkx.GeometryCollection();
+      case GeometryType.CIRCULARSTRING:
+        return new CircularString();
+      case GeometryType.COMPOUNDCURVE:
+        return new CompoundCurve();
+      case GeometryType.CURVEPOLYGON:
+        return new CurvePolygon();
+      case GeometryType.MULTICURVE:
+        return new MultiCurve();
+      case GeometryType.MULTISURFACE:
+        return new MultiSurface();
+      case GeometryType.POLYHEDRALSURFACE:
+        return new PolyhedralSurface();
+      case GeometryType.TIN:
+        return new Tin();
+      case GeometryType.TRIANGLE:
+        return new Triangle();
+      default:
+        throw new Error('Unsupported WKT geometry type: ' + GeometryType.nameFromType(type));
+    }
+  }
+
+  private withDimensions<T extends wkx.Geometry>(geometry: T, dimensions: Dimensions): T {
+    geometry.hasZ = !!dimensions.hasZ;
+    geometry.hasM = !!dimensions.hasM;
+    return geometry;
+  }
+
+  private readList<T>(readElement: () => T): T[] {
+    this.expect('(');
+    const elements = [readElement()];
+    while (this.peek() === ',') {
+      this.next();
+      elements.push(readElement());
+    }
+    this.expect(')');
+    return elements;
+  }
+
+  private readPoints(dimensions: Dimensions): wkx.Point[] {
+    return this.readList(() => this.readPoint(dimensions));
+  }
+
+  /**
+   * Read a point, the number of coordinates determines its dimensions when they are not declared
+   */
+  private readPoint(dimensions: Dimensions): wkx.Point {
+    const coordinates: number[] = [];
+    while (this.peek() !== undefined && /^[-+.\dN]/.test(this.peek())) {
+      coordinates.push(parseFloat(this.next().replace('NAN', 'NaN')));
+    }
+    if (coordinates.length < 2 || coordinates.length > 4) {
+      throw new Error('Expected 2 to 4 coordinates, found ' + coordinates.length);
+    }
+    if (dimensions.hasZ === undefined) {
+      dimensions.hasZ = coordinates.length > 2;
+      dimensions.hasM = coordinates.length > 3;
+    }
+    const expected = 2 + (dimensions.hasZ ? 1 : 0) + (dimensions.hasM ? 1 : 0);
+    if (coordinates.length !== expected) {
+      throw new Error('Expected ' + expected + ' coordinates, found ' + coordinates.length);
+    }
+    const point = new wkx.Point(
+      coordinates[0],
+      coordinates[1],
+      dimensions.hasZ ? coordinates[2] : undefined,
+      dimensions.hasM ? coordinates[coordinates.length - 1] : undefined,
+    );
+    point.hasZ = dimensions.hasZ;
+    point.hasM = dimensions.hasM;
+    return point;
+  }
+
+  private expect(token: string): void {
+    const next = this.next();
+    if (next !== token) {
+      throw new Error('Expected ' + token + ', found ' + (next === undefined ? 'end of WKT' : next));
+    }
+  }
+
+  private peek(): string {
+    return this.tokens[this.position];
+  }
+
+  private next(): string {
+    return this.tokens[this.position++];
+  }
+}
+
+/**
+ * Reads WKB and WKT of both the standard and the extended geometry types.  Standard geometries are read as wkx
+ * geometries, so a geometry collection holding a curve can be read.
+ */
+export class ExtendedGeometryReader {
+  private position = 0;
+  private littleEndian = true;
+
+  private constructor(private readonly buffer: Buffer) {}
+
+  /**
+   * Read WKB, ISO or EWKB
+   * @param buffer WKB
+   * @return geometry
+   */
+  static readWkb(buffer: Buffer): wkx.Geometry {
+    return new ExtendedGeometryReader(buffer).readGeometry();
+  }
+
+  /**
+   * Read WKT or EWKT
+   * @param wkt WKT
+   * @return geometry, with the srid of the EWKT
+   */
+  static readWkt(wkt: string): wkx.Geometry {
+    return new WktParser(wkt).parse();
+  }
+
+  private static getType(code: number): { geometryType: GeometryType; hasZ: boolean; hasM: boolean; hasSrid: boolean } {
+    // EWKB sets the high bits of the type code for the dimensions and srid
+    if (code & 0xe0000000) {
+      return {
+        geometryType: code & 0x0fffffff,
+        hasZ: (code & 0x80000000) !== 0,
+        hasM: (code & 0x40000000) !== 0,
+        hasSrid: (code & 0x20000000) !== 0,
+      };
+    }
+    const dimensions = Math.floor(code / 1000);
+    return {
+      geometryType: code % 1000,
+      hasZ: dimensions === 1 || dimensions === 3,
+      hasM: dimensions === 2 || dimensions === 3,
+      hasSrid: false,
+    };
+  }
+
+  private readGeometry(): wkx.Geometry {
+    this.littleEndian = this.buffer.readUInt8(this.position++) === 1;
+    const { geometryType, hasZ, hasM, hasSrid } = ExtendedGeometryReader.getType(this.readUInt32());
+    const srid = hasSrid ? this.readUInt32() : undefined;
+    let geometry: wkx.Geometry;
+    switch (geometryType) {
+      case GeometryType.POINT:
+        geometry = this.readPoint(hasZ, hasM);
+        break;
+      case GeometryType.LINESTRING:
+        geometry = new wkx.LineString(this.readPoints(hasZ, hasM));
+        break;
+      case GeometryType.POLYGON: {
+        const rings = this.readRings(hasZ, hasM);
+        geometry = new wkx.Polygon(rings.length > 0 ? rings[0] : [], rings.slice(1));
+        break;
+      }
+      case GeometryType.MULTIPOINT:
+        geometry = new wkx.MultiPoint(this.readGeometries() as wkx.Point[]);
+        break;
+      case GeometryType.MULTILINESTRING:
+        geometry = new wkx.MultiLineString(this.readGeometries() as wkx.LineString[]);
+        break;
+      case GeometryType.MULTIPOLYGON:
+        geometry = new wkx.MultiPolygon(this.readGeometries() as wkx.Polygon[]);
+        break;
+      case GeometryType.GEOMETRYCOLLECTION:
+        geometry = new wkx.GeometryCollection(this.readGeometries());
+        break;
+      case GeometryType.CIRCULARSTRING:
+        geometry = createCircularString(this.readPoints(hasZ, hasM));
+        break;
+      case GeometryType.COMPOUNDCURVE:
+        geometry = new CompoundCurve(this.readGeometries());
+        break;
+      case GeometryType.CURVEPOLYGON:
+        geometry = new CurvePolygon(this.readGeometries());
+        break;
+      case GeometryType.MULTICURVE:
+        geometry = new MultiCurve(this.readGeometries());
+        break;
+      case GeometryType.MULTISURFACE:
+        geometry = new MultiSurface(this.readGeometries());
+        break;
+      case GeometryType.POLYHEDRALSURFACE:
+        geometry = new PolyhedralSurface(this.readGeometries() as wkx.Polygon[]);
+        break;
+      case GeometryType.TIN:
+        geometry = new Tin(this.readGeometries() as Triangle[]);
+        break;
+      case GeometryType.TRIANGLE: {
+        const rings = this.readRings(hasZ, hasM);
+        geometry = new Triangle(rings.length > 0 ? rings[0] : []);
+        break;
+      }
+      default:
+        throw new Error('Unsupported WKB geometry type: ' + geometryType);
+    }
+    geometry.hasZ = hasZ;
+    geometry.hasM = hasM;
+    geometry.srid = srid;
+    return geometry;
+  }
+
+  private readGeometries(): wkx.Geometry[] {
+    const count = this.readUInt32();
+    const geometries: wkx.Geometry[] = [];
+    for (let i = 0; i < count; i++) {
+      const littleEndian = this.littleEndian;
+      geometries.push(this.readGeometry());
+      this.littleEndian = littleEndian;
+    }
+    return geometries;
+  }
+
+  private readRings(hasZ: boolean, hasM: boolean): wkx.Point[][] {
+    const count = this.readUInt32();
+    const rings: wkx.Point[][] = [];
+    for (let i = 0; i < count; i++) {
+      rings.push(this.readPoints(hasZ, hasM));
+    }
+    return rings;
+  }
+
+  private readPoints(hasZ: boolean, hasM: boolean): wkx.Point[] {
+    const count = this.readUInt32();
+    const points: wkx.Point[] = [];
+    for (let i = 0; i < count; i++) {
+      points.push(this.readPoint(hasZ, hasM));
+    }
+    return points;
+  }
+
+  private readPoint(hasZ: boolean, hasM: boolean): wkx.Point {
+    const x = this.readDouble();
+    const y = this.readDouble();
+    const point = new wkx.Point(x, y, hasZ ? this.readDouble() : undefined, hasM ? this.readDouble() : undefined);
+    point.hasZ = hasZ;
+    point.hasM = hasM;
+    return point;
+  }
+
+  private readUInt32(): number {
+    const value = this.littleEndian ? this.buffer.readUInt32LE(this.position) : this.buffer.readUInt32BE(this.position);
+    this.position += 4;
+    return value;
+  }
+
+  private readDouble(): number {
+    const value = this.littleEndian ? this.buffer.readDoubleLE(this.position) : this.buffer.readDoubleBE(this.position);
+    this.position += 8;
+    return value;
+  }
+}
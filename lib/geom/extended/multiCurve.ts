@@ -0,0 +1,52 @@
+/**
+ * Multi curve
+ * @module geom/extended
+ */
+import wkx from 'wkx';
+import { ExtendedGeometry } from './extendedGeometry';
+import { GeometryType } from '../../features/user/geometryType';
+
+/**
+ * A collection of line strings, circular strings and compound curves
+ */
+export class MultiCurve extends ExtendedGeometry {
+  readonly geometryType: GeometryType = GeometryType.MULTICURVE;
+
+  /**
+   * @param curves curves
+   * @param hasZ has z values, defaults to the dimensions of the first curve
+   * @param hasM has m values, defaults to the dimensions of the first curve
+   */
+  constructor(public curves: wkx.Geometry[] = [], hasZ?: boolean, hasM?: boolean) {
+    super();
+    this.setDimensions(
+      hasZ != null ? hasZ : curves.length > 0 && curves[0].hasZ,
+      hasM != null ? hasM : curves.length > 0 && curves[0].hasM,
+    );
+  }
+
+  isEmpty(): boolean {
+    return this.curves.length === 0;
+  }
+
+  getGeometries(): wkx.Geometry[] {
+    return this.curves;
+  }
+
+  linearize(): wkx.MultiLineString {
+    const multiLineString = new wkx.MultiLineString(
+      this.curves.map(curve => ExtendedGeometry.linearizeGeometry(curve) as wkx.LineString),
+    );
+    multiLineString.hasZ = this.hasZ;
+    multiLineString.hasM = this.hasM;
+    return multiLineString;
+  }
+
+  protected toWkbBody(): Buffer {
+    return ExtendedGeometry.writeGeometries(this.curves);
+  }
+
+  protected toWktBody(): string {
+    return '(' + this.curves.map(ExtendedGeometry.wktComponent).join(',') + ')';
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Multi surface
+ * @module geom/extended
+ */
+import wkx from 'wkx';
+import { ExtendedGeometry } from './extendedGeometry';
+import { GeometryType } from '../../features/user/geometryType';
+
+/**
+ * A collection of polygons and curve polygons
+ */
+export class MultiSurface extends ExtendedGeometry {
+  readonly geometryType: GeometryType = GeometryType.MULTISURFACE;
+
+  /**
+   * @param surfaces surfaces
+   * @param hasZ has z values, defaults to the dimensions of the first surface
+   * @param hasM has m values, defaults to the dimensions of the first surface
+   */
+  constructor(public surfaces: wkx.Geometry[] = [], hasZ?: boolean, hasM?: boolean) {
+    super();
+    this.setDimensions(
+      hasZ != null ? hasZ : surfaces.length > 0 && surfaces[0].hasZ,
+      hasM != null ? hasM : surfaces.length > 0 && surfaces[0].hasM,
+    );
+  }
+
+  isEmpty(): boolean {
+    return this.surfaces.length === 0;
+  }
+
+  getGeometries(): wkx.Geometry[] {
+    return this.surfaces;
+  }
+
+  linearize(): wkx.MultiPolygon {
+    const multiPolygon = new wkx.MultiPolygon(
+      this.surfaces.map(surface => ExtendedGeometry.linearizeGeometry(surface) as wkx.Polygon),
+    );
+    multiPolygon.hasZ = this.hasZ;
+    multiPolygon.hasM = this.hasM;
+    return multiPolygon;
+  }
+
+  protected toWkbBody(): Buffer {
+    return ExtendedGeometry.writeGeometries(this.surfaces);
+  }
+
+  protected toWktBody(): string {
+    return '(' + this.surfaces.map(ExtendedGeometry.wktComponent).join(',') + ')';
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Polyhedral surface
+ * @module geom/extended
+ */
+import wkx from 'wkx';
+import { ExtendedGeometry } from './extendedGeometry';
+import { GeometryType } from '../../features/user/geometryType';
+
+/**
+ * A surface of polygons sharing their edges
+ */
+export class PolyhedralSurface extends ExtendedGeometry {
+  readonly geometryType: GeometryType = GeometryType.POLYHEDRALSURFACE;
+
+  /**
+   * @param polygons polygons of the surface
+   * @param hasZ has z values, defaults to the dimensions of the first polygon
+   * @param hasM has m values, defaults to the dimensions of the first polygon
+   */
+  constructor(public polygons: wkx.Polygon[] = [], hasZ?: boolean, hasM?: boolean) {
+    super();
+    this.setDimensions(
+      hasZ != null ? hasZ : polygons.length > 0 && polygons[0].hasZ,
+      hasM != null ? hasM : polygons.length > 0 && polygons[0].hasM,
+    );
+  }
+
+  isEmpty(): boolean {
+    return this.polygons.length === 0;
+  }
+
+  getGeometries(): wkx.Geometry[] {
+    return this.polygons;
+  }
+
+  linearize(): wkx.MultiPolygon {
+    const multiPolygon = new wkx.MultiPolygon(
+      this.polygons.map(polygon => ExtendedGeometry.linearizeGeometry(polygon) as wkx.Polygon),
+    );
+    multiPolygon.hasZ = this.hasZ;
+    multiPolygon.hasM = this.hasM;
+    return multiPolygon;
+  }
+
+  protected toWkbBody(): Buffer {
+    return ExtendedGeometry.writeGeometries(this.polygons);
+  }
+
+  protected toWktBody(): string {
+    return '(' + this.polygons.map(ExtendedGeometry.wktComponent).join(',') + ')';
+  }
+}
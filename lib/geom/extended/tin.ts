@@ -0,0 +1,52 @@
+/**
+ * Triangulated irregular network
+ * @module geom/extended
+ */
+import wkx from 'wkx';
+import { ExtendedGeometry } from './extendedGeometry';
+import { Triangle } from './triangle';
+import { GeometryType } from '../../features/user/geometryType';
+
+/**
+ * A triangulated irregular network, a polyhedral surface of triangles
+ */
+export class Tin extends ExtendedGeometry {
+  readonly geometryType: GeometryType = GeometryType.TIN;
+
+  /**
+   * @param triangles triangles of the surface
+   * @param hasZ has z values, defaults to the dimensions of the first triangle
+   * @param hasM has m values, defaults to the dimensions of the first triangle
+   */
+  constructor(public triangles: Triangle[] = [], hasZ?: boolean, hasM?: boolean) {
+    super();
+    this.setDimensions(
+      hasZ != null ? hasZ : triangles.length > 0 && triangles[0].hasZ,
+      hasM != null ? hasM : triangles.length > 0 && triangles[0].hasM,
+    );
+  }
+
+  isEmpty(): boolean {
+    return this.triangles.length === 0;
+  }
+
+  getGeometries(): wkx.Geometry[] {
+    return this.triangles;
+  }
+
+  linearize(): wkx.MultiPolygon {
+    const multiPolygon = new wkx.MultiPolygon(this.triangles.map(triangle => triangle.linearize()));
+    multiPolygon.hasZ = this.hasZ;
+    multiPolygon.hasM = this.hasM;
+    return multiPolygon;
+  }
+
+  protected toWkbBody(): Buffer {
+    return ExtendedGeometry.writeGeometries(this.triangles);
+  }
+
+  protected toWktBody(): string {
+    // triangles are written as polygons within the network
+    return '(' + this.triangles.map(triangle => ExtendedGeometry.wktComponent(triangle.linearize())).join(',') + ')';
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Triangle
+ * @module geom/extended
+ */
+import wkx from 'wkx';
+import { ExtendedGeometry } from './extendedGeometry';
+import { GeometryType } from '../../features/user/geometryType';
+
+/**
+ * A polygon with a single ring of three distinct points
+ */
+export class Triangle extends ExtendedGeometry {
+  readonly geometryType: GeometryType = GeometryType.TRIANGLE;
+
+  /**
+   * @param exteriorRing closed ring of four points
+   * @param hasZ has z values, defaults to the dimensions of the first point
+   * @param hasM has m values, defaults to the dimensions of the first point
+   */
+  constructor(public exteriorRing: wkx.Point[] = [], hasZ?: boolean, hasM?: boolean) {
+    super();
+    this.setDimensions(
+      hasZ != null ? hasZ : exteriorRing.length > 0 && exteriorRing[0].hasZ,
+      hasM != null ? hasM : exteriorRing.length > 0 && exteriorRing[0].hasM,
+    );
+  }
+
+  isEmpty(): boolean {
+    return this.exteriorRing.length === 0;
+  }
+
+  getGeometries(): wkx.Geometry[] {
+    return [];
+  }
+
+  linearize(): wkx.Polygon {
+    const polygon = new wkx.Polygon(this.exteriorRing);
+    polygon.hasZ = this.hasZ;
+    polygon.hasM = this.hasM;
+    return polygon;
+  }
+
+  protected toWkbBody(): Buffer {
+    return Buffer.concat([
+      ExtendedGeometry.writeCount(1),
+      ExtendedGeometry.writePoints(this.exteriorRing, this.hasZ, this.hasM),
+    ]);
+  }
+
+  protected toWktBody(): string {
+    return '(' + ExtendedGeometry.wktPoints(this.exteriorRing, this.hasZ, this.hasM) + ')';
+  }
+}
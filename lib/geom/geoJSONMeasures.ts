@@ -0,0 +1,125 @@
+/**
+ * GeoJSON measures
+ * @module geom/geoJSONMeasures
+ */
+import wkx from 'wkx';
+import { Geometry } from 'geojson';
+import { ExtendedGeometry } from './extended/extendedGeometry';
+
+/**
+ * GeoJSON positions have no m values, so the m values of a geometry are written to a "measures" foreign member of
+ * its GeoJSON geometry, nested the same as its coordinates.  The measures of a geometry collection are written to each
+ * of its geometries.
+ *
+ * For example, POINT M (1 2 3) is written as { type: 'Point', coordinates: [1, 2], measures: 3 } and
+ * LINESTRING M (1 2 3, 4 5 6) as { type: 'LineString', coordinates: [[1, 2], [4, 5]], measures: [3, 6] }.
+ */
+export class GeoJSONMeasures {
+  /**
+   * Name of the GeoJSON foreign member holding the m values
+   */
+  public static readonly MEMBER = 'measures';
+
+  /**
+   * Convert a geometry to GeoJSON, writing its m values to the measures member
+   * @param geometry geometry
+   * @return GeoJSON geometry
+   */
+  static toGeoJSON(geometry: wkx.Geometry): Geometry {
+    const geoJson = geometry.toGeoJSON() as Geometry;
+    if (geometry.hasM) {
+      GeoJSONMeasures.addMeasures(geoJson, ExtendedGeometry.linearizeGeometry(geometry));
+    }
+    return geoJson;
+  }
+
+  /**
+   * Parse a GeoJSON geometry, reading its m values from the measures member
+   * @param geoJson GeoJSON geometry
+   * @return geometry
+   */
+  static parseGeoJSON(geoJson: Geometry): wkx.Geometry {
+    const geometry = wkx.Geometry.parseGeoJSON(geoJson);
+    if (GeoJSONMeasures.hasMeasures(geoJson)) {
+      GeoJSONMeasures.setMeasures(geometry, geoJson);
+    }
+    return geometry;
+  }
+
+  /**
+   * Determine if a GeoJSON geometry has m values
+   * @param geoJson GeoJSON geometry
+   * @return true if the geometry or any geometry of a collection has the measures member
+   */
+  static hasMeasures(geoJson: Geometry): boolean {
+    if (geoJson.type === 'GeometryCollection') {
+      return geoJson.geometries.some(child => GeoJSONMeasures.hasMeasures(child));
+    }
+    return (geoJson as Record<string, any>)[GeoJSONMeasures.MEMBER] != null;
+  }
+
+  /**
+   * Add the measures member to a GeoJSON geometry
+   * @param geoJson GeoJSON geometry
+   * @param geometry linearized geometry the GeoJSON was written from
+   */
+  private static addMeasures(geoJson: Geometry, geometry: wkx.Geometry): void {
+    if (geoJson.type === 'GeometryCollection') {
+      const geometries = (geometry as wkx.GeometryCollection).geometries;
+      geoJson.geometries.forEach((child, i) =>
+        GeoJSONMeasures.addMeasures(child, ExtendedGeometry.linearizeGeometry(geometries[i])),
+      );
+    } else {
+      const map = (points: any): any => (points instanceof wkx.Point ? points.m : points.map(map));
+      (geoJson as Record<string, any>)[GeoJSONMeasures.MEMBER] = map(GeoJSONMeasures.getPoints(geometry));
+    }
+  }
+
+  /**
+   * Set the m values of a geometry from the measures member of its GeoJSON geometry, missing values are set to NaN
+   * @param geometry geometry
+   * @param geoJson GeoJSON geometry the geometry was parsed from
+   */
+  private static setMeasures(geometry: wkx.Geometry, geoJson: Geometry): void {
+    geometry.hasM = true;
+    if (geoJson.type === 'GeometryCollection') {
+      const geometries = (geometry as wkx.GeometryCollection).geometries;
+      geoJson.geometries.forEach((child, i) => GeoJSONMeasures.setMeasures(geometries[i], child));
+      return;
+    }
+    const set = (points: any, measures: any): void => {
+      if (points instanceof wkx.Point) {
+        points.m = typeof measures === 'number' ? measures : NaN;
+        points.hasM = true;
+      } else {
+        points.forEach((child: any, i: number) => set(child, Array.isArray(measures) ? measures[i] : undefined));
+      }
+    };
+    set(GeoJSONMeasures.getPoints(geometry), (geoJson as Record<string, any>)[GeoJSONMeasures.MEMBER]);
+    if (geometry instanceof wkx.MultiLineString) {
+      geometry.lineStrings.forEach(lineString => (lineString.hasM = true));
+    } else if (geometry instanceof wkx.MultiPolygon) {
+      geometry.polygons.forEach(polygon => (polygon.hasM = true));
+    }
+  }
+
+  /**
+   * Get the points of a geometry nested the same as its GeoJSON coordinates
+   * @param geometry point, line string, polygon or multi geometry
+   * @return point or nested arrays of points
+   */
+  private static getPoints(geometry: wkx.Geometry): any {
+    if (geometry instanceof wkx.Point) {
+      return geometry;
+    } else if (geometry instanceof wkx.LineString || geometry instanceof wkx.MultiPoint) {
+      return geometry.points;
+    } else if (geometry instanceof wkx.Polygon) {
+      return geometry.exteriorRing.length > 0 ? [geometry.exteriorRing, ...geometry.interiorRings] : [];
+    } else if (geometry instanceof wkx.MultiLineString) {
+      return geometry.lineStrings.map(lineString => lineString.points);
+    } else if (geometry instanceof wkx.MultiPolygon) {
+      return geometry.polygons.map(polygon => GeoJSONMeasures.getPoints(polygon));
+    }
+    return [];
+  }
+}
@@ -6,6 +6,9 @@
 import wkx from 'wkx';
 import { GeoPackageConstants } from '../geoPackageConstants';
 import { Envelope } from './envelope';
+import { EnvelopeBuilder } from './envelopeBuilder';
+import { ExtendedGeometryReader } from './extended/extendedGeometryReader';
+import { GeoJSONMeasures } from './geoJSONMeasures';
 import { Feature } from 'geojson';
 
 /**
@@ -39,8 +42,64 @@ export class GeometryData {
   setEnvelope(envelope: Envelope): void {
     this.envelope = envelope;
   }
+  /**
+   * Get the geometry as GeoJSON, with its m values written to the measures foreign member
+   * @return GeoJSON geometry
+   */
   toGeoJSON(): Feature {
-    return this.geometry.toGeoJSON() as Feature;
+    return (GeoJSONMeasures.toGeoJSON(this.geometry) as unknown) as Feature;
+  }
+  /**
+   * Create geometry data from Well-Known Text or Extended Well-Known Text.  The envelope is computed from the geometry,
+   * including its z and m ranges, and empty geometries are flagged as empty without an envelope.
+   * @param wkt WKT, or EWKT prefixed with its SRID such as SRID=4326;POINT(1 2)
+   * @param srsId srs id of the geometry, defaults to the SRID of the EWKT or 0 when it has none
+   * @return geometry data
+   */
+  static fromWkt(wkt: string, srsId?: number): GeometryData {
+    let geometry: wkx.Geometry;
+    try {
+      geometry = wkx.Geometry.parse(wkt.trim().toUpperCase());
+    } catch (error) {
+      // curves and surfaces are read when wkx does not support the geometry type
+      try {
+        geometry = ExtendedGeometryReader.readWkt(wkt);
+      } catch (e) {
+        throw new Error('Unable to parse WKT: ' + error.message);
+      }
+    }
+    const geometryData = new GeometryData();
+    geometryData.setSrsId(srsId != null ? srsId : geometry.srid != null ? geometry.srid : 0);
+    // wkx writes EWKB type codes for geometries with an srid, GeoPackage binary uses ISO WKB
+    geometry.srid = undefined;
+    geometryData.setGeometry(geometry);
+    geometryData.empty = EnvelopeBuilder.isEmpty(geometry);
+    geometryData.setEnvelope(EnvelopeBuilder.buildEnvelopeWithGeometryDimensions(geometry));
+    return geometryData;
+  }
+  /**
+   * Get the geometry as Well-Known Text
+   * @return WKT, undefined if there is no geometry
+   */
+  toWkt(): string {
+    if (!this.geometry) {
+      return undefined;
+    }
+    // empty points are stored as NaN coordinates in WKB
+    if (this.geometry instanceof wkx.Point && isNaN(this.geometry.x) && isNaN(this.geometry.y)) {
+      const point = new wkx.Point();
+      point.hasZ = this.geometry.hasZ;
+      point.hasM = this.geometry.hasM;
+      return point.toWkt();
+    }
+    return this.geometry.toWkt();
+  }
+  /**
+   * Get the geometry as Extended Well-Known Text, prefixed with the srs id
+   * @return EWKT, undefined if there is no geometry
+   */
+  toEwkt(): string {
+    return this.geometry ? 'SRID=' + this.srsId + ';' + this.toWkt() : undefined;
   }
   fromData(bufferOrArray: Buffer | Uint8Array): void {
     if (bufferOrArray instanceof Uint8Array) {
@@ -74,13 +133,29 @@ export class GeometryData {
     const offset = envelopeAndOffset.offset;
     const wkbBuffer = this.buffer.slice(offset);
     try {
-      this.geometry = wkx.Geometry.parse(wkbBuffer);
+      this.geometry = GeometryData.parseWkb(wkbBuffer);
       this.geometryError = undefined;
     } catch (error) {
       this.geometryError = error.message;
       console.log('Error parsing geometry');
     }
   }
+  /**
+   * Parse WKB, reading the curve and surface geometry types wkx does not support
+   * @param wkb WKB
+   * @return geometry
+   */
+  static parseWkb(wkb: Buffer): wkx.Geometry {
+    try {
+      return wkx.Geometry.parse(wkb);
+    } catch (error) {
+      try {
+        return ExtendedGeometryReader.readWkb(wkb);
+      } catch (e) {
+        throw error;
+      }
+    }
+  }
   toData(): Buffer {
     const header = Buffer.alloc(8);
     // Write GP as the 2 byte magic number
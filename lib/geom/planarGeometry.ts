@@ -0,0 +1,538 @@
+/**
+ * Planar geometry
+ * @module geom/planarGeometry
+ */
+import wkx from 'wkx';
+import { ExtendedGeometry } from './extended/extendedGeometry';
+
+/**
+ * Location of a point relative to a geometry
+ */
+export enum PointLocation {
+  EXTERIOR,
+  BOUNDARY,
+  INTERIOR,
+}
+
+/**
+ * A geometry broken into its points, line strings and polygons
+ */
+interface Components {
+  points: wkx.Point[];
+  lines: wkx.Point[][];
+  polygons: wkx.Point[][][];
+}
+
+/**
+ * Measurements and spatial predicates of geometries, computed in the plane of the coordinates of their spatial
+ * reference system as PostGIS and SpatiaLite do for geometries.  Curves are linearized first.
+ */
+export class PlanarGeometry {
+  /**
+   * Get the area of the polygons of a geometry, less the area of their holes
+   * @param geometry geometry
+   * @return area, 0 for geometries without polygons
+   */
+  static area(geometry: wkx.Geometry): number {
+    return PlanarGeometry.getComponents(geometry).polygons.reduce(
+      (area, polygon) =>
+        polygon.reduce(
+          (polygonArea, ring, i) => polygonArea + (i === 0 ? 1 : -1) * Math.abs(PlanarGeometry.ringArea(ring)),
+          area,
+        ),
+      0,
+    );
+  }
+
+  /**
+   * Get the length of the line strings of a geometry
+   * @param geometry geometry
+   * @return length, 0 for geometries without line strings
+   */
+  static lineLength(geometry: wkx.Geometry): number {
+    return PlanarGeometry.getComponents(geometry).lines.reduce(
+      (length, line) =>
+        PlanarGeometry.getSegments([line]).reduce((sum, [a, b]) => sum + PlanarGeometry.distanceBetween(a, b), length),
+      0,
+    );
+  }
+
+  /**
+   * Get the centroid of a geometry, of its polygons when it has area, else of its line strings when it has length,
+   * else of its points
+   * @param geometry geometry
+   * @return centroid, undefined for empty geometries
+   */
+  static centroid(geometry: wkx.Geometry): wkx.Point {
+    const components = PlanarGeometry.getComponents(geometry);
+    let x = 0;
+    let y = 0;
+    let weight = 0;
+    components.polygons.forEach(polygon =>
+      polygon.forEach((ring, i) => {
+        // holes are weighted negatively whatever their orientation
+        const ringArea = PlanarGeometry.ringArea(ring);
+        const sign = (i === 0 ? 1 : -1) * Math.sign(ringArea);
+        PlanarGeometry.getSegments([ring]).forEach(([a, b]) => {
+          const cross = a.x * b.y - b.x * a.y;
+          x += sign * (a.x + b.x) * cross;
+          y += sign * (a.y + b.y) * cross;
+        });
+        weight += sign * ringArea * 6;
+      }),
+    );
+    if (weight === 0) {
+      x = y = 0;
+      PlanarGeometry.getSegments(components.lines).forEach(([a, b]) => {
+        const length = PlanarGeometry.distanceBetween(a, b);
+        x += ((a.x + b.x) / 2) * length;
+        y += ((a.y + b.y) / 2) * length;
+        weight += length;
+      });
+    }
+    if (weight === 0) {
+      x = y = 0;
+      const points = PlanarGeometry.getVertices(components, true);
+      points.forEach(point => {
+        x += point.x;
+        y += point.y;
+      });
+      weight = points.length;
+    }
+    return weight === 0 ? undefined : new wkx.Point(x / weight, y / weight);
+  }
+
+  /**
+   * Get the minimum distance between two geometries
+   * @param geometry1 first geometry
+   * @param geometry2 second geometry
+   * @return distance, 0 if the geometries intersect and undefined if either is empty
+   */
+  static distance(geometry1: wkx.Geometry, geometry2: wkx.Geometry): number {
+    const components1 = PlanarGeometry.getComponents(geometry1);
+    const components2 = PlanarGeometry.getComponents(geometry2);
+    const vertices1 = PlanarGeometry.getVertices(components1, true);
+    const vertices2 = PlanarGeometry.getVertices(components2, true);
+    if (vertices1.length === 0 || vertices2.length === 0) {
+      return undefined;
+    }
+    if (PlanarGeometry.componentsIntersect(components1, components2)) {
+      return 0;
+    }
+    const segments1 = PlanarGeometry.getSegments(PlanarGeometry.getLines(components1));
+    const segments2 = PlanarGeometry.getSegments(PlanarGeometry.getLines(components2));
+    let distance = Infinity;
+    vertices1.forEach(vertex => {
+      vertices2.forEach(other => (distance = Math.min(distance, PlanarGeometry.distanceBetween(vertex, other))));
+      segments2.forEach(([a, b]) => (distance = Math.min(distance, PlanarGeometry.segmentDistance(vertex, a, b))));
+    });
+    vertices2.forEach(vertex => {
+      segments1.forEach(([a, b]) => (distance = Math.min(distance, PlanarGeometry.segmentDistance(vertex, a, b))));
+    });
+    return distance;
+  }
+
+  /**
+   * Determine if two geometries share any point
+   * @param geometry1 first geometry
+   * @param geometry2 second geometry
+   * @return true if the geometries intersect
+   */
+  static intersects(geometry1: wkx.Geometry, geometry2: wkx.Geometry): boolean {
+    return PlanarGeometry.componentsIntersect(
+      PlanarGeometry.getComponents(geometry1),
+      PlanarGeometry.getComponents(geometry2),
+    );
+  }
+
+  /**
+   * Determine if a geometry contains another, with no point of the other outside of it and at least one point of the
+   * other in its interior
+   * @param geometry1 containing geometry
+   * @param geometry2 contained geometry
+   * @return true if the first geometry contains the second
+   */
+  static contains(geometry1: wkx.Geometry, geometry2: wkx.Geometry): boolean {
+    const container = PlanarGeometry.getComponents(geometry1);
+    const contained = PlanarGeometry.getComponents(geometry2);
+    const vertices = PlanarGeometry.getVertices(contained, true);
+    if (vertices.length === 0 || PlanarGeometry.getVertices(container, true).length === 0) {
+      return false;
+    }
+    if (contained.polygons.length > 0 && container.polygons.length === 0) {
+      return false;
+    }
+    let interior = false;
+    const locate = (point: wkx.Point): boolean => {
+      const location = PlanarGeometry.locate(point, container);
+      interior = interior || location === PointLocation.INTERIOR;
+      return location !== PointLocation.EXTERIOR;
+    };
+    if (!vertices.every(locate)) {
+      return false;
+    }
+    // the parts of each segment between its crossings of the container must each lie within the container
+    const containerSegments = PlanarGeometry.getSegments(PlanarGeometry.getLines(container));
+    const segmentsWithin = PlanarGeometry.getSegments(PlanarGeometry.getLines(contained)).every(([a, b]) => {
+      const splits = PlanarGeometry.splitSegment(a, b, containerSegments);
+      for (let i = 1; i < splits.length; i++) {
+        if (splits[i] > splits[i - 1]) {
+          const t = (splits[i - 1] + splits[i]) / 2;
+          if (!locate(new wkx.Point(a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t))) {
+            return false;
+          }
+        }
+      }
+      return true;
+    });
+    if (!segmentsWithin) {
+      return false;
+    }
+    // holes of the container must not lie within the contained polygons
+    const holeWithin = container.polygons.some(polygon =>
+      polygon
+        .slice(1)
+        .some(hole =>
+          hole.some(
+            point =>
+              PlanarGeometry.locate(point, { points: [], lines: [], polygons: contained.polygons }) ===
+              PointLocation.INTERIOR,
+          ),
+        ),
+    );
+    if (holeWithin) {
+      return false;
+    }
+    // with no vertex or segment piece in the interior of the container, such as for equal polygons, sample the points
+    // strictly inside the contained geometry
+    return interior || PlanarGeometry.interiorsIntersect(contained, container);
+  }
+
+  /**
+   * Determine if a geometry is within another
+   * @param geometry1 geometry within
+   * @param geometry2 containing geometry
+   * @return true if the first geometry is within the second
+   */
+  static within(geometry1: wkx.Geometry, geometry2: wkx.Geometry): boolean {
+    return PlanarGeometry.contains(geometry2, geometry1);
+  }
+
+  /**
+   * Determine if two geometries touch, intersecting only where the boundary of either meets the other
+   * @param geometry1 first geometry
+   * @param geometry2 second geometry
+   * @return true if the geometries intersect and their interiors do not
+   */
+  static touches(geometry1: wkx.Geometry, geometry2: wkx.Geometry): boolean {
+    const components1 = PlanarGeometry.getComponents(geometry1);
+    const components2 = PlanarGeometry.getComponents(geometry2);
+    return (
+      PlanarGeometry.componentsIntersect(components1, components2) &&
+      !PlanarGeometry.interiorsIntersect(components1, components2) &&
+      !PlanarGeometry.interiorsIntersect(components2, components1)
+    );
+  }
+
+  /**
+   * Locate a point relative to a geometry
+   * @param point point
+   * @param geometry geometry
+   * @return location of the point
+   */
+  static locatePoint(point: wkx.Point, geometry: wkx.Geometry): PointLocation {
+    return PlanarGeometry.locate(point, PlanarGeometry.getComponents(geometry));
+  }
+
+  /**
+   * Break a geometry into its points, line strings and polygons, skipping empty parts
+   * @param geometry geometry
+   * @param components components to add to
+   * @return components
+   */
+  private static getComponents(
+    geometry: wkx.Geometry,
+    components: Components = { points: [], lines: [], polygons: [] },
+  ): Components {
+    const linearized = ExtendedGeometry.linearizeGeometry(geometry);
+    if (linearized instanceof wkx.Point) {
+      if (linearized.x != null && !isNaN(linearized.x)) {
+        components.points.push(linearized);
+      }
+    } else if (linearized instanceof wkx.LineString) {
+      if (linearized.points.length > 0) {
+        components.lines.push(linearized.points);
+      }
+    } else if (linearized instanceof wkx.Polygon) {
+      if (linearized.exteriorRing.length > 0) {
+        components.polygons.push([linearized.exteriorRing, ...linearized.interiorRings]);
+      }
+    } else if (linearized instanceof wkx.MultiPoint) {
+      linearized.points.forEach(point => PlanarGeometry.getComponents(point, components));
+    } else if (linearized instanceof wkx.MultiLineString) {
+      linearized.lineStrings.forEach(lineString => PlanarGeometry.getComponents(lineString, components));
+    } else if (linearized instanceof wkx.MultiPolygon) {
+      linearized.polygons.forEach(polygon => PlanarGeometry.getComponents(polygon, components));
+    } else if (linearized instanceof wkx.GeometryCollection) {
+      linearized.geometries.forEach(child => PlanarGeometry.getComponents(child, components));
+    }
+    return components;
+  }
+
+  /**
+   * Get the vertices of the components
+   * @param components components
+   * @param all every vertex, or only the first vertex of each line and polygon
+   * @return vertices
+   */
+  private static getVertices(components: Components, all: boolean): wkx.Point[] {
+    const vertices = components.points.slice();
+    PlanarGeometry.getLines(components).forEach(line => vertices.push(...(all ? line : line.slice(0, 1))));
+    return vertices;
+  }
+
+  /**
+   * Get the line strings and polygon rings of the components
+   * @param components components
+   * @return lines
+   */
+  private static getLines(components: Components): wkx.Point[][] {
+    return components.lines.concat(...components.polygons);
+  }
+
+  /**
+   * Get the segments of lines
+   * @param lines lines
+   * @return segments as pairs of points
+   */
+  private static getSegments(lines: wkx.Point[][]): wkx.Point[][] {
+    const segments: wkx.Point[][] = [];
+    lines.forEach(line => {
+      for (let i = 1; i < line.length; i++) {
+        segments.push([line[i - 1], line[i]]);
+      }
+    });
+    return segments;
+  }
+
+  /**
+   * Determine if the components of two geometries intersect
+   * @param components1 components of the first geometry
+   * @param components2 components of the second geometry
+   * @return true if they intersect
+   */
+  private static componentsIntersect(components1: Components, components2: Components): boolean {
+    // a component entirely within the other geometry has its first vertex within it, any other intersection crosses
+    const within = (components: Components, other: Components): boolean =>
+      PlanarGeometry.getVertices(components, false).some(
+        vertex => PlanarGeometry.locate(vertex, other) !== PointLocation.EXTERIOR,
+      );
+    if (within(components1, components2) || within(components2, components1)) {
+      return true;
+    }
+    const segments2 = PlanarGeometry.getSegments(PlanarGeometry.getLines(components2));
+    return PlanarGeometry.getSegments(PlanarGeometry.getLines(components1)).some(([a, b]) =>
+      segments2.some(([c, d]) => PlanarGeometry.segmentIntersections(a, b, c, d).length > 0),
+    );
+  }
+
+  /**
+   * Determine if the interior of the components of a geometry meets the interior of another, sampling the points,
+   * vertices and segment pieces between crossings of the first and points just inside its polygon rings
+   * @param components1 components of the first geometry
+   * @param components2 components of the second geometry
+   * @return true if a point of the first interior is in the second interior
+   */
+  private static interiorsIntersect(components1: Components, components2: Components): boolean {
+    const samples = PlanarGeometry.getVertices(components1, true);
+    const segments2 = PlanarGeometry.getSegments(PlanarGeometry.getLines(components2));
+    const addSamples = (lines: wkx.Point[][], ring: boolean): void =>
+      PlanarGeometry.getSegments(lines).forEach(([a, b]) => {
+        const splits = PlanarGeometry.splitSegment(a, b, segments2);
+        for (let i = 1; i < splits.length; i++) {
+          const t = (splits[i - 1] + splits[i]) / 2;
+          samples.push(new wkx.Point(a.x + (b.x - a.x) * splits[i], a.y + (b.y - a.y) * splits[i]));
+          samples.push(new wkx.Point(a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t));
+          if (ring && splits[i] > splits[i - 1]) {
+            // points either side of a ring piece, one of which is inside its polygon
+            const offset = (splits[i] - splits[i - 1]) * 1e-6;
+            samples.push(
+              new wkx.Point(a.x + (b.x - a.x) * t - (b.y - a.y) * offset, a.y + (b.y - a.y) * t + (b.x - a.x) * offset),
+            );
+            samples.push(
+              new wkx.Point(a.x + (b.x - a.x) * t + (b.y - a.y) * offset, a.y + (b.y - a.y) * t - (b.x - a.x) * offset),
+            );
+          }
+        }
+      });
+    addSamples(components1.lines, false);
+    components1.polygons.forEach(polygon => addSamples(polygon, true));
+    return samples.some(
+      point =>
+        PlanarGeometry.locate(point, components1) === PointLocation.INTERIOR &&
+        PlanarGeometry.locate(point, components2) === PointLocation.INTERIOR,
+    );
+  }
+
+  /**
+   * Split a segment where other segments meet it
+   * @param a start of the segment
+   * @param b end of the segment
+   * @param segments other segments
+   * @return sorted fractions along the segment from 0 to 1
+   */
+  private static splitSegment(a: wkx.Point, b: wkx.Point, segments: wkx.Point[][]): number[] {
+    const splits = [0, 1];
+    segments.forEach(([c, d]) => splits.push(...PlanarGeometry.segmentIntersections(a, b, c, d)));
+    return splits.sort((s1, s2) => s1 - s2);
+  }
+
+  /**
+   * Locate a point relative to geometry components
+   * @param point point
+   * @param components components
+   * @return location of the point
+   */
+  private static locate(point: wkx.Point, components: Components): PointLocation {
+    let location = PointLocation.EXTERIOR;
+    const update = (componentLocation: PointLocation): void => {
+      location = Math.max(location, componentLocation);
+    };
+    components.points.forEach(other => {
+      if (other.x === point.x && other.y === point.y) {
+        update(PointLocation.INTERIOR);
+      }
+    });
+    components.lines.forEach(line => {
+      const closed = line[0].x === line[line.length - 1].x && line[0].y === line[line.length - 1].y;
+      PlanarGeometry.getSegments([line]).forEach(([a, b]) => {
+        if (PlanarGeometry.segmentDistance(point, a, b) === 0) {
+          const endpoint =
+            !closed &&
+            ((point.x === line[0].x && point.y === line[0].y) ||
+              (point.x === line[line.length - 1].x && point.y === line[line.length - 1].y));
+          update(endpoint ? PointLocation.BOUNDARY : PointLocation.INTERIOR);
+        }
+      });
+      if (line.length === 1 && line[0].x === point.x && line[0].y === point.y) {
+        update(PointLocation.INTERIOR);
+      }
+    });
+    components.polygons.forEach(polygon => {
+      const ringLocations = polygon.map(ring => PlanarGeometry.locateInRing(point, ring));
+      if (ringLocations.some(ringLocation => ringLocation === PointLocation.BOUNDARY)) {
+        update(PointLocation.BOUNDARY);
+      } else if (
+        ringLocations[0] === PointLocation.INTERIOR &&
+        ringLocations.slice(1).every(ringLocation => ringLocation === PointLocation.EXTERIOR)
+      ) {
+        update(PointLocation.INTERIOR);
+      }
+    });
+    return location;
+  }
+
+  /**
+   * Locate a point relative to the area enclosed by a ring
+   * @param point point
+   * @param ring closed ring
+   * @return location of the point
+   */
+  private static locateInRing(point: wkx.Point, ring: wkx.Point[]): PointLocation {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if (PlanarGeometry.segmentDistance(point, a, b) === 0) {
+        return PointLocation.BOUNDARY;
+      }
+      if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+    return inside ? PointLocation.INTERIOR : PointLocation.EXTERIOR;
+  }
+
+  /**
+   * Get the signed area of a ring, positive when counterclockwise
+   * @param ring closed ring
+   * @return signed area
+   */
+  private static ringArea(ring: wkx.Point[]): number {
+    let area = 0;
+    for (let i = 1; i < ring.length; i++) {
+      area += ring[i - 1].x * ring[i].y - ring[i].x * ring[i - 1].y;
+    }
+    return area / 2;
+  }
+
+  /**
+   * Get the distance between two points
+   * @param a first point
+   * @param b second point
+   * @return distance
+   */
+  private static distanceBetween(a: wkx.Point, b: wkx.Point): number {
+    return Math.hypot(b.x - a.x, b.y - a.y);
+  }
+
+  /**
+   * Get the distance from a point to a segment
+   * @param point point
+   * @param a start of the segment
+   * @param b end of the segment
+   * @return distance
+   */
+  private static segmentDistance(point: wkx.Point, a: wkx.Point, b: wkx.Point): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared === 0) {
+      return PlanarGeometry.distanceBetween(point, a);
+    }
+    const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+    const cross = (point.x - a.x) * dy - (point.y - a.y) * dx;
+    if (cross === 0 && t > 0 && t < 1) {
+      // exactly on the line through the segment
+      return 0;
+    }
+    return Math.hypot(a.x + t * dx - point.x, a.y + t * dy - point.y);
+  }
+
+  /**
+   * Get where a segment meets another
+   * @param a start of the segment
+   * @param b end of the segment
+   * @param c start of the other segment
+   * @param d end of the other segment
+   * @return fractions along the first segment where the segments meet, the ends of the overlap when collinear
+   */
+  private static segmentIntersections(a: wkx.Point, b: wkx.Point, c: wkx.Point, d: wkx.Point): number[] {
+    const rx = b.x - a.x;
+    const ry = b.y - a.y;
+    const sx = d.x - c.x;
+    const sy = d.y - c.y;
+    const denominator = rx * sy - ry * sx;
+    const qpx = c.x - a.x;
+    const qpy = c.y - a.y;
+    if (denominator === 0) {
+      if (qpx * ry - qpy * rx !== 0) {
+        // parallel
+        return [];
+      }
+      const lengthSquared = rx * rx + ry * ry;
+      if (lengthSquared === 0) {
+        return PlanarGeometry.segmentDistance(a, c, d) === 0 ? [0] : [];
+      }
+      // collinear, the overlap of the other segment projected onto this one
+      const t0 = (qpx * rx + qpy * ry) / lengthSquared;
+      const t1 = t0 + (sx * rx + sy * ry) / lengthSquared;
+      const start = Math.max(0, Math.min(t0, t1));
+      const end = Math.min(1, Math.max(t0, t1));
+      return start > end ? [] : start === end ? [start] : [start, end];
+    }
+    const t = (qpx * sy - qpy * sx) / denominator;
+    const u = (qpx * ry - qpy * rx) / denominator;
+    return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? [t] : [];
+  }
+}
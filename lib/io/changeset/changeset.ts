@@ -0,0 +1,169 @@
+/**
+ * Changeset format
+ * @module io/changeset
+ */
+import { ChangeOperation } from '../../extension/changeTracking/changeOperation';
+
+/**
+ * Version of the changeset format
+ */
+export const CHANGESET_VERSION = 1;
+
+/**
+ * Blob value of a changeset, such as a geometry, encoded as base64
+ */
+export interface ChangesetBlob {
+  blob: string;
+}
+
+/**
+ * Value of a column of a changeset row
+ */
+export type ChangesetValue = string | number | boolean | null | ChangesetBlob;
+
+/**
+ * Mapping of a row to a related row, from a related tables or feature style mapping table
+ */
+export interface ChangesetMapping {
+  mapping_table_name: string;
+  related_table_name: string;
+  /**
+   * id of the related row in the source GeoPackage
+   */
+  related_id: number;
+  /**
+   * values of the other columns of the mapping, such as the geometry type of a style mapping
+   */
+  values: Record<string, ChangesetValue>;
+}
+
+/**
+ * Net change of a row since the marker the changeset was exported from
+ */
+export interface ChangesetRow {
+  operation: ChangeOperation;
+  /**
+   * id of the row in the source GeoPackage
+   */
+  id: number;
+  /**
+   * columns changed by an update
+   */
+  columns?: string[];
+  /**
+   * values of the row, except the id, for inserts and updates
+   */
+  values?: Record<string, ChangesetValue>;
+  /**
+   * mappings of the row to related rows for inserts and updates, replacing the mappings of the row
+   */
+  mappings?: ChangesetMapping[];
+}
+
+/**
+ * Rows of a table in a changeset
+ */
+export interface ChangesetTable {
+  table_name: string;
+  id_column: string;
+  /**
+   * mapping tables of the relations from the table, whose mappings are carried by the rows
+   */
+  mapping_table_names: string[];
+  rows: ChangesetRow[];
+}
+
+/**
+ * Changes of tracked tables of a GeoPackage between two change markers.  A changeset is plain JSON, the JSON text is
+ * the portable file shipped to the GeoPackages applying it.
+ */
+export interface Changeset {
+  version: number;
+  /**
+   * name identifying the GeoPackage the changeset was exported from
+   */
+  source: string;
+  /**
+   * marker the changes were exported from
+   */
+  since: number;
+  /**
+   * marker of the latest exported change, to export the next changeset from
+   */
+  marker: number;
+  /**
+   * time of the export, in ISO 8601 format
+   */
+  created: string;
+  tables: ChangesetTable[];
+  /**
+   * rows of untracked tables referenced by the mappings, such as styles, icons and media, copied whole
+   */
+  related_tables: ChangesetTable[];
+}
+
+/**
+ * How a change conflicting with the rows of the GeoPackage the changeset is applied to is resolved
+ */
+export enum ChangesetConflictPolicy {
+  /**
+   * throw an error, leaving the GeoPackage unchanged
+   */
+  ABORT = 'abort',
+  /**
+   * keep the row of the GeoPackage, skipping the change
+   */
+  SKIP = 'skip',
+  /**
+   * apply the change, overwriting the row of the GeoPackage
+   */
+  OVERWRITE = 'overwrite',
+}
+
+/**
+ * Reason of a changeset conflict
+ */
+export enum ChangesetConflictReason {
+  /**
+   * the updated row was deleted from the GeoPackage
+   */
+  MISSING = 'missing',
+  /**
+   * the row was changed in the GeoPackage since the last changeset of the source was applied
+   */
+  MODIFIED = 'modified',
+}
+
+/**
+ * Change conflicting with the rows of the GeoPackage the changeset is applied to
+ */
+export interface ChangesetConflict {
+  table_name: string;
+  operation: ChangeOperation;
+  /**
+   * id of the row in the source GeoPackage
+   */
+  id: number;
+  /**
+   * id of the row in the GeoPackage the changeset is applied to
+   */
+  target_id: number;
+  reason: ChangesetConflictReason;
+}
+
+/**
+ * Result of applying a changeset
+ */
+export interface ChangesetApplyResult {
+  inserted: number;
+  updated: number;
+  deleted: number;
+  /**
+   * number of inserted rows given another id than in the source GeoPackage, as their id was taken
+   */
+  remapped: number;
+  /**
+   * conflicts skipped or overwritten
+   */
+  conflicts: ChangesetConflict[];
+}
@@ -0,0 +1,434 @@
+/**
+ * Changeset apply
+ * @module io/changeset
+ */
+import { GeoPackage } from '../../geoPackage';
+import { DBValue } from '../../db/dbAdapter';
+import { StringUtils } from '../../db/stringUtils';
+import { ChangeOperation } from '../../extension/changeTracking/changeOperation';
+import { TableChange } from '../../extension/changeTracking/tableChange';
+import { AppliedChangeset } from '../../extension/changeTracking/appliedChangeset';
+import { ChangesetId } from '../../extension/changeTracking/changesetId';
+import { UserMappingTable } from '../../extension/relatedTables/userMappingTable';
+import {
+  CHANGESET_VERSION,
+  Changeset,
+  ChangesetApplyResult,
+  ChangesetConflictPolicy,
+  ChangesetConflictReason,
+  ChangesetRow,
+  ChangesetTable,
+  ChangesetValue,
+} from './changeset';
+
+/**
+ * Sources a changeset can be applied from: a changeset or its JSON text
+ */
+export type ChangesetSource = Changeset | string | Buffer | Uint8Array;
+
+/**
+ * Ids of the rows applied from a source GeoPackage, mapping the ids of the source to the ids of the rows in the
+ * GeoPackage the changeset is applied to
+ */
+class ChangesetIds {
+  private readonly tables = new Map<string, Map<number, number>>();
+
+  /**
+   * @param geoPackage GeoPackage the changeset is applied to
+   * @param source name of the source GeoPackage
+   */
+  constructor(private readonly geoPackage: GeoPackage, private readonly source: string) {}
+
+  /**
+   * Determine if a row of the source was applied
+   * @param tableName table name
+   * @param id id of the row in the source
+   * @return true if the row was applied
+   */
+  has(tableName: string, id: number): boolean {
+    return this.getTable(tableName).has(id);
+  }
+
+  /**
+   * Get the id of a row of the source, rows not applied before keep their id
+   * @param tableName table name
+   * @param id id of the row in the source
+   * @return id of the row in the GeoPackage
+   */
+  get(tableName: string, id: number): number {
+    const table = this.getTable(tableName);
+    return table.has(id) ? table.get(id) : id;
+  }
+
+  /**
+   * Set the id of an applied row of the source
+   * @param tableName table name
+   * @param id id of the row in the source
+   * @param targetId id of the row in the GeoPackage
+   */
+  set(tableName: string, id: number, targetId: number): void {
+    const changesetId = new ChangesetId();
+    changesetId.source = this.source;
+    changesetId.table_name = tableName;
+    changesetId.source_id = id;
+    changesetId.target_id = targetId;
+    this.geoPackage.changesetIdDao.createOrUpdate(changesetId);
+    this.getTable(tableName).set(id, targetId);
+  }
+
+  /**
+   * Get the ids of a table, reading them once
+   * @param tableName table name
+   * @return ids in the GeoPackage by the ids in the source
+   */
+  private getTable(tableName: string): Map<number, number> {
+    if (!this.tables.has(tableName)) {
+      this.tables.set(tableName, this.geoPackage.changesetIdDao.queryForTargetIds(this.source, tableName));
+    }
+    return this.tables.get(tableName);
+  }
+}
+
+/**
+ * Applies a changeset exported from another GeoPackage.  The ids of the rows of the source are remembered for each
+ * source: an inserted row keeps its id unless it is taken, rows not inserted by a changeset are expected to have the
+ * same id as in the source, related rows such as styles, icons and media are only updated once applied from the source
+ * and inserted otherwise, and mappings are written with the ids of their rows in this GeoPackage.  A changeset is
+ * applied in a single transaction, after the changesets before it, and applying it again has no effect.  The changes
+ * the change tracking extension records while applying are deleted, so they are not exported back to the source.
+ *
+ * An update of a row deleted from this GeoPackage conflicts, as does an update or delete of a row changed since the
+ * last changeset of the source was applied, or since the table was tracked before the first changeset of the source,
+ * when the change tracking extension tracks the table.  Updates only write the columns changed in the source, unless
+ * the conflict is overwritten.
+ */
+export class ChangesetApplier {
+  /**
+   * @param geoPackage GeoPackage to apply the changeset to
+   */
+  constructor(public readonly geoPackage: GeoPackage) {}
+
+  /**
+   * Apply the changeset
+   * @param source changeset or its JSON text
+   * @param conflictPolicy how conflicts are resolved, defaults to aborting
+   * @return numbers of applied changes and the skipped or overwritten conflicts
+   */
+  applyChangeset(
+    source: ChangesetSource,
+    conflictPolicy: ChangesetConflictPolicy = ChangesetConflictPolicy.ABORT,
+  ): ChangesetApplyResult {
+    const changeset = ChangesetApplier.readSource(source);
+    if (changeset.version !== CHANGESET_VERSION) {
+      throw new Error('Unsupported changeset version: ' + changeset.version);
+    }
+    const tables = changeset.related_tables.concat(changeset.tables);
+    tables.forEach(table =>
+      [table.table_name].concat(table.mapping_table_names).forEach(tableName => {
+        if (!this.geoPackage.connection.isTableExists(tableName)) {
+          throw new Error('Table does not exist in the GeoPackage: ' + tableName);
+        }
+      }),
+    );
+    const result: ChangesetApplyResult = { inserted: 0, updated: 0, deleted: 0, remapped: 0, conflicts: [] };
+    const extension = this.geoPackage.changeTrackingExtension;
+    const applied = this.geoPackage.appliedChangesetDao.queryForSource(changeset.source);
+    if (applied != null) {
+      if (changeset.marker <= applied.marker) {
+        return result;
+      }
+      if (changeset.since > applied.marker) {
+        throw new Error(
+          'The changeset of ' +
+            changeset.source +
+            ' starts at change ' +
+            changeset.since +
+            ', changes were applied up to change ' +
+            applied.marker,
+        );
+      }
+    }
+    // local changes made since the last changeset of the source, all recorded changes before its first changeset, by
+    // table and row
+    const localChanges = new Map<string, Map<number, TableChange[]>>();
+    extension.getChanges(applied != null ? applied.local_marker : 0).forEach(change => {
+      if (!localChanges.has(change.table_name)) {
+        localChanges.set(change.table_name, new Map());
+      }
+      const rowChanges = localChanges.get(change.table_name);
+      rowChanges.set(change.row_id, (rowChanges.get(change.row_id) || []).concat(change));
+    });
+    this.geoPackage.connection.transaction(() => {
+      const localMarker = extension.getMarker();
+      extension.createChangesetTables();
+      const ids = new ChangesetIds(this.geoPackage, changeset.source);
+      changeset.related_tables.forEach(table =>
+        table.rows.forEach(row => {
+          const targetId = ids.get(table.table_name, row.id);
+          const exists = this.exists(table, targetId);
+          if (exists && ids.has(table.table_name, row.id)) {
+            this.updateRow(table, targetId, row.values);
+            result.updated++;
+          } else {
+            this.insertRow(table, row, exists ? undefined : targetId, ids, result);
+          }
+        }),
+      );
+      const mappedRows = new Map<ChangesetTable, Map<ChangesetRow, number>>();
+      changeset.tables.forEach(table => {
+        const rowChanges = localChanges.get(table.table_name) || new Map<number, TableChange[]>();
+        const mapped = new Map<ChangesetRow, number>();
+        mappedRows.set(table, mapped);
+        table.rows.forEach(row => {
+          const targetId = ids.get(table.table_name, row.id);
+          const exists = this.exists(table, targetId);
+          let reason: ChangesetConflictReason;
+          if (row.operation === ChangeOperation.UPDATE && !exists) {
+            reason = ChangesetConflictReason.MISSING;
+          } else if (
+            row.operation !== ChangeOperation.INSERT &&
+            exists &&
+            ChangesetApplier.isModified(rowChanges.get(targetId), row.columns)
+          ) {
+            reason = ChangesetConflictReason.MODIFIED;
+          }
+          if (reason != null) {
+            if (conflictPolicy === ChangesetConflictPolicy.ABORT) {
+              throw new Error(
+                'Changeset conflict, ' +
+                  row.operation +
+                  ' of row ' +
+                  row.id +
+                  ' in table ' +
+                  table.table_name +
+                  ': ' +
+                  reason,
+              );
+            }
+            result.conflicts.push({
+              table_name: table.table_name,
+              operation: row.operation,
+              id: row.id,
+              target_id: targetId,
+              reason: reason,
+            });
+            if (conflictPolicy === ChangesetConflictPolicy.SKIP) {
+              return;
+            }
+          }
+          switch (row.operation) {
+            case ChangeOperation.INSERT:
+              if (exists && ids.has(table.table_name, row.id)) {
+                this.updateRow(table, targetId, row.values);
+                result.updated++;
+                mapped.set(row, targetId);
+              } else {
+                mapped.set(row, this.insertRow(table, row, exists ? undefined : targetId, ids, result));
+              }
+              break;
+            case ChangeOperation.UPDATE:
+              if (exists) {
+                this.updateRow(table, targetId, row.values, reason != null ? undefined : row.columns);
+                result.updated++;
+                mapped.set(row, targetId);
+              } else {
+                mapped.set(row, this.insertRow(table, row, targetId, ids, result));
+              }
+              break;
+            case ChangeOperation.DELETE:
+              if (exists) {
+                this.deleteMappings(table, targetId);
+                this.geoPackage.connection.delete(
+                  StringUtils.quoteWrap(table.table_name),
+                  StringUtils.quoteWrap(table.id_column) + ' = ?',
+                  [targetId],
+                );
+                result.deleted++;
+              }
+              break;
+          }
+        });
+      });
+      // write the mappings once the rows they relate are applied
+      mappedRows.forEach((mapped, table) =>
+        mapped.forEach((targetId, row) => {
+          this.deleteMappings(table, targetId);
+          (row.mappings || []).forEach(mapping => {
+            const values: Record<string, ChangesetValue> = Object.assign({}, mapping.values);
+            values[UserMappingTable.COLUMN_BASE_ID] = targetId;
+            values[UserMappingTable.COLUMN_RELATED_ID] = ids.get(mapping.related_table_name, mapping.related_id);
+            this.insert(mapping.mapping_table_name, values);
+          });
+        }),
+      );
+      // the writes of the changeset are not local changes, exporting them would send the rows back to the source
+      if (extension.tableChangeDao.isTableExists()) {
+        extension.tableChangeDao.deleteChangesSince(localMarker);
+      }
+      const appliedChangeset = new AppliedChangeset();
+      appliedChangeset.source = changeset.source;
+      appliedChangeset.marker = changeset.marker;
+      appliedChangeset.local_marker = extension.getMarker();
+      appliedChangeset.applied = new Date().toISOString();
+      this.geoPackage.appliedChangesetDao.createOrUpdate(appliedChangeset);
+    });
+    return result;
+  }
+
+  /**
+   * Determine if a row exists
+   * @param table changeset table
+   * @param id row id
+   * @return true if the row exists
+   */
+  private exists(table: ChangesetTable, id: number): boolean {
+    return (
+      this.geoPackage.connection.get(
+        'SELECT 1 AS found FROM ' +
+          StringUtils.quoteWrap(table.table_name) +
+          ' WHERE ' +
+          StringUtils.quoteWrap(table.id_column) +
+          ' = ?',
+        [id],
+      ) != null
+    );
+  }
+
+  /**
+   * Insert a row, keeping the id of the source when set and recording the id of the inserted row
+   * @param table changeset table
+   * @param row changeset row
+   * @param id id of the row, undefined when the id of the source is taken
+   * @param ids ids of the rows of the source
+   * @param result apply result to count the insert in
+   * @return id of the inserted row
+   */
+  private insertRow(
+    table: ChangesetTable,
+    row: ChangesetRow,
+    id: number,
+    ids: ChangesetIds,
+    result: ChangesetApplyResult,
+  ): number {
+    const values: Record<string, ChangesetValue> = Object.assign({}, row.values);
+    if (id != null) {
+      values[table.id_column] = id;
+    }
+    const targetId = this.insert(table.table_name, values);
+    ids.set(table.table_name, row.id, targetId);
+    result.inserted++;
+    if (targetId !== row.id) {
+      result.remapped++;
+    }
+    return targetId;
+  }
+
+  /**
+   * Update the values of a row
+   * @param table changeset table
+   * @param id row id
+   * @param values values of the row
+   * @param columns columns to update, all values when not set
+   */
+  private updateRow(
+    table: ChangesetTable,
+    id: number,
+    values: Record<string, ChangesetValue>,
+    columns?: string[],
+  ): void {
+    const updated = (columns || Object.keys(values)).filter(column => column in values);
+    if (updated.length === 0) {
+      return;
+    }
+    this.geoPackage.connection.run(
+      'UPDATE ' +
+        StringUtils.quoteWrap(table.table_name) +
+        ' SET ' +
+        updated.map(column => StringUtils.quoteWrap(column) + ' = ?').join(', ') +
+        ' WHERE ' +
+        StringUtils.quoteWrap(table.id_column) +
+        ' = ?',
+      updated.map(column => ChangesetApplier.decodeValue(values[column])).concat([id]),
+    );
+  }
+
+  /**
+   * Delete the mappings of a row to its related rows
+   * @param table changeset table
+   * @param id row id
+   */
+  private deleteMappings(table: ChangesetTable, id: number): void {
+    table.mapping_table_names.forEach(mappingTableName =>
+      this.geoPackage.connection.delete(
+        StringUtils.quoteWrap(mappingTableName),
+        StringUtils.quoteWrap(UserMappingTable.COLUMN_BASE_ID) + ' = ?',
+        [id],
+      ),
+    );
+  }
+
+  /**
+   * Insert the values into a table
+   * @param tableName table name
+   * @param values values to insert
+   * @return id of the inserted row
+   */
+  private insert(tableName: string, values: Record<string, ChangesetValue>): number {
+    const columns = Object.keys(values);
+    return this.geoPackage.connection.insert(
+      'INSERT INTO ' +
+        StringUtils.quoteWrap(tableName) +
+        (columns.length > 0
+          ? ' (' +
+            columns.map(column => StringUtils.quoteWrap(column)).join(', ') +
+            ') VALUES (' +
+            columns.map(() => '?').join(', ') +
+            ')'
+          : ' DEFAULT VALUES'),
+      columns.map(column => ChangesetApplier.decodeValue(values[column])),
+    );
+  }
+
+  /**
+   * Determine if the local changes of a row conflict with a change
+   * @param changes local changes of the row
+   * @param columns columns changed by an update, undefined for a delete
+   * @return true if the row was modified
+   */
+  private static isModified(changes: TableChange[], columns?: string[]): boolean {
+    return (changes || []).some(
+      change =>
+        change.operation !== ChangeOperation.UPDATE ||
+        columns == null ||
+        change.columns == null ||
+        change.columns.some(column => columns.indexOf(column) !== -1),
+    );
+  }
+
+  /**
+   * Decode a changeset value
+   * @param value changeset value
+   * @return database value
+   */
+  private static decodeValue(value: ChangesetValue): DBValue {
+    if (value != null && typeof value === 'object') {
+      return Buffer.from(value.blob, 'base64');
+    }
+    return value as DBValue;
+  }
+
+  /**
+   * Read the changeset from the source
+   * @param source changeset or its JSON text
+   * @return changeset
+   */
+  private static readSource(source: ChangesetSource): Changeset {
+    if (typeof source === 'string') {
+      return JSON.parse(source);
+    }
+    if (source instanceof Uint8Array) {
+      return JSON.parse(Buffer.from(source).toString('utf8'));
+    }
+    return source;
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Changeset export
+ * @module io/changeset
+ */
+import { GeoPackage } from '../../geoPackage';
+import { DBValue } from '../../db/dbAdapter';
+import { StringUtils } from '../../db/stringUtils';
+import { ChangeOperation } from '../../extension/changeTracking/changeOperation';
+import { TableChange } from '../../extension/changeTracking/tableChange';
+import { UserMappingTable } from '../../extension/relatedTables/userMappingTable';
+import { UserCustomTableReader } from '../../user/custom/userCustomTableReader';
+import {
+  CHANGESET_VERSION,
+  Changeset,
+  ChangesetMapping,
+  ChangesetRow,
+  ChangesetTable,
+  ChangesetValue,
+} from './changeset';
+
+/**
+ * Options for a changeset export
+ */
+export interface ChangesetExportOptions {
+  /**
+   * tracked tables to export the changes of. Defaults to all tracked tables.
+   */
+  tables?: string[];
+  /**
+   * name identifying this GeoPackage to the GeoPackages applying the changeset. Defaults to the GeoPackage name.
+   */
+  source?: string;
+}
+
+/**
+ * Exports the changes recorded by the change tracking extension since a marker as a changeset.  The changes of a row
+ * are collapsed to its net change, an insert, update or delete, with the current values of the row.  Inserted and
+ * updated rows carry all their mappings of related tables and feature styles, and the related rows of untracked
+ * tables, such as styles, icons and media, are copied whole.  Mapping tables are not tracked, so a mapping is only
+ * exported with a change of its base row.
+ */
+export class ChangesetExporter {
+  /**
+   * @param geoPackage GeoPackage to export from
+   */
+  constructor(public readonly geoPackage: GeoPackage) {}
+
+  /**
+   * Export the changes made after the marker
+   * @param since marker of the last change already exported, 0 for all recorded changes
+   * @param options export options
+   * @return changeset
+   */
+  exportChangeset(since = 0, options: ChangesetExportOptions = {}): Changeset {
+    const extension = this.geoPackage.changeTrackingExtension;
+    const trackedTables = extension.getTrackedTables();
+    const tableNames = options.tables || trackedTables;
+    tableNames.forEach(tableName => {
+      if (trackedTables.indexOf(tableName) === -1) {
+        throw new Error('Changes are not tracked for table: ' + tableName);
+      }
+    });
+    const marker = extension.getMarker();
+    const tableChanges = new Map<string, Map<number, TableChange[]>>();
+    tableNames.forEach(tableName => tableChanges.set(tableName, new Map()));
+    extension
+      .getChanges(since)
+      .filter(change => change.id <= marker && tableChanges.has(change.table_name))
+      .forEach(change => {
+        const rowChanges = tableChanges.get(change.table_name);
+        if (!rowChanges.has(change.row_id)) {
+          rowChanges.set(change.row_id, []);
+        }
+        rowChanges.get(change.row_id).push(change);
+      });
+    const relatedIds = new Map<string, Set<number>>();
+    const tables = tableNames
+      .map(tableName => this.exportTable(tableName, tableChanges.get(tableName), tableNames, relatedIds))
+      .filter(table => table.rows.length > 0);
+    const relatedTables = Array.from(relatedIds.entries()).map(([tableName, ids]) =>
+      this.exportRelatedTable(tableName, ids),
+    );
+    return {
+      version: CHANGESET_VERSION,
+      source: options.source || this.geoPackage.name,
+      since: since,
+      marker: marker,
+      created: new Date().toISOString(),
+      tables: tables,
+      related_tables: relatedTables,
+    };
+  }
+
+  /**
+   * Export the net changes of the rows of a tracked table
+   * @param tableName table name
+   * @param rowChanges changes of the table by row id
+   * @param tableNames names of the exported tables
+   * @param relatedIds ids of the related rows of untracked tables referenced by the mappings, added to
+   * @return changeset table
+   */
+  private exportTable(
+    tableName: string,
+    rowChanges: Map<number, TableChange[]>,
+    tableNames: string[],
+    relatedIds: Map<string, Set<number>>,
+  ): ChangesetTable {
+    const table = new UserCustomTableReader(tableName).readTable(this.geoPackage.connection);
+    const idColumn = table.getPkColumnName();
+    const columns = table
+      .getUserColumns()
+      .getColumnNames()
+      .filter(column => column !== idColumn);
+    const relations = this.geoPackage.relatedTablesExtension
+      .getRelationships(tableName)
+      .filter(relation => this.geoPackage.connection.isTableExists(relation.mapping_table_name));
+    const rows: ChangesetRow[] = [];
+    rowChanges.forEach((changes, id) => {
+      const values = this.queryForRow(tableName, idColumn, id);
+      const operation = ChangesetExporter.getOperation(changes, values != null);
+      if (operation == null) {
+        return;
+      }
+      const row: ChangesetRow = { operation: operation, id: id };
+      if (operation !== ChangeOperation.DELETE) {
+        if (operation === ChangeOperation.UPDATE) {
+          row.columns = ChangesetExporter.getChangedColumns(changes, columns);
+        }
+        row.values = ChangesetExporter.encodeValues(values, [idColumn]);
+        row.mappings = [];
+        relations.forEach(relation => {
+          const relatedTableName = relation.related_table_name;
+          this.geoPackage.connection
+            .all(
+              'SELECT * FROM ' +
+                StringUtils.quoteWrap(relation.mapping_table_name) +
+                ' WHERE ' +
+                StringUtils.quoteWrap(UserMappingTable.COLUMN_BASE_ID) +
+                ' = ?',
+              [id],
+            )
+            .forEach((mapping: Record<string, DBValue>) => {
+              const relatedId = mapping[UserMappingTable.COLUMN_RELATED_ID] as number;
+              row.mappings.push({
+                mapping_table_name: relation.mapping_table_name,
+                related_table_name: relatedTableName,
+                related_id: relatedId,
+                values: ChangesetExporter.encodeValues(mapping, [
+                  UserMappingTable.COLUMN_BASE_ID,
+                  UserMappingTable.COLUMN_RELATED_ID,
+                ]),
+              } as ChangesetMapping);
+              if (tableNames.indexOf(relatedTableName) === -1) {
+                if (!relatedIds.has(relatedTableName)) {
+                  relatedIds.set(relatedTableName, new Set());
+                }
+                relatedIds.get(relatedTableName).add(relatedId);
+              }
+            });
+        });
+      }
+      rows.push(row);
+    });
+    return {
+      table_name: tableName,
+      id_column: idColumn,
+      mapping_table_names: relations.map(relation => relation.mapping_table_name),
+      rows: rows,
+    };
+  }
+
+  /**
+   * Export whole rows of an untracked table referenced by the mappings
+   * @param tableName table name
+   * @param ids ids of the rows
+   * @return changeset table of inserted rows
+   */
+  private exportRelatedTable(tableName: string, ids: Set<number>): ChangesetTable {
+    const idColumn = new UserCustomTableReader(tableName).readTable(this.geoPackage.connection).getPkColumnName();
+    const rows: ChangesetRow[] = [];
+    ids.forEach(id => {
+      const values = this.queryForRow(tableName, idColumn, id);
+      if (values != null) {
+        rows.push({
+          operation: ChangeOperation.INSERT,
+          id: id,
+          values: ChangesetExporter.encodeValues(values, [idColumn]),
+        });
+      }
+    });
+    return {
+      table_name: tableName,
+      id_column: idColumn,
+      mapping_table_names: [],
+      rows: rows,
+    };
+  }
+
+  /**
+   * Query for the values of a row
+   * @param tableName table name
+   * @param idColumn id column name
+   * @param id row id
+   * @return values, undefined when the row does not exist
+   */
+  private queryForRow(tableName: string, idColumn: string, id: number): Record<string, DBValue> {
+    return this.geoPackage.connection.get(
+      'SELECT * FROM ' + StringUtils.quoteWrap(tableName) + ' WHERE ' + StringUtils.quoteWrap(idColumn) + ' = ?',
+      [id],
+    );
+  }
+
+  /**
+   * Get the net operation of the changes of a row
+   * @param changes changes of the row in the order they were made
+   * @param exists true if the row exists
+   * @return operation, undefined for a row inserted and deleted again
+   */
+  private static getOperation(changes: TableChange[], exists: boolean): ChangeOperation {
+    if (changes[0].operation === ChangeOperation.INSERT) {
+      return exists ? ChangeOperation.INSERT : undefined;
+    }
+    return exists ? ChangeOperation.UPDATE : ChangeOperation.DELETE;
+  }
+
+  /**
+   * Get the columns changed by the updates of a row
+   * @param changes changes of the row
+   * @param columns columns of the table except the id
+   * @return changed columns, all columns when the row was deleted and inserted again in between
+   */
+  private static getChangedColumns(changes: TableChange[], columns: string[]): string[] {
+    if (changes.some(change => change.operation !== ChangeOperation.UPDATE)) {
+      return columns;
+    }
+    const changed = new Set<string>();
+    changes.forEach(change => (change.columns || columns).forEach(column => changed.add(column)));
+    return columns.filter(column => changed.has(column));
+  }
+
+  /**
+   * Encode the values of a row, blobs as base64
+   * @param values values of the row
+   * @param excluded columns not to encode
+   * @return changeset values
+   */
+  private static encodeValues(values: Record<string, DBValue>, excluded: string[]): Record<string, ChangesetValue> {
+    const encoded: Record<string, ChangesetValue> = {};
+    Object.keys(values)
+      .filter(column => excluded.indexOf(column) === -1)
+      .forEach(column => {
+        const value = values[column];
+        if (value instanceof Uint8Array) {
+          encoded[column] = { blob: Buffer.from(value).toString('base64') };
+        } else {
+          encoded[column] = value == null ? null : (value as string | number | boolean);
+        }
+      });
+    return encoded;
+  }
+}
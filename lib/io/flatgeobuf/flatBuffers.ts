@@ -0,0 +1,349 @@
+/**
+ * FlatBuffers reading and writing
+ * @module io/flatgeobuf
+ */
+
+/**
+ * Value of a field written by the {@link FlatBufferBuilder}.  A table is the list of its field values indexed by field
+ * id, with undefined for absent fields.
+ */
+export type FlatBufferValue =
+  | { type: 'uint8' | 'bool' | 'uint16' | 'int32' | 'uint32' | 'uint64' | 'double'; value: number | boolean }
+  | { type: 'string'; value: string }
+  | { type: 'bytes'; value: Uint8Array }
+  | { type: 'uint32[]' | 'double[]'; value: number[] }
+  | { type: 'table'; value: FlatBufferValue[] }
+  | { type: 'table[]'; value: FlatBufferValue[][] };
+
+/**
+ * Reads the fields of a table of a FlatBuffers buffer
+ */
+export class FlatBufferTable {
+  private readonly vtable: number;
+  private readonly vtableLength: number;
+
+  /**
+   * @param buffer buffer holding the table
+   * @param position position of the table within the buffer
+   */
+  constructor(public readonly buffer: Buffer, public readonly position: number) {
+    this.vtable = position - buffer.readInt32LE(position);
+    this.vtableLength = buffer.readUInt16LE(this.vtable);
+  }
+
+  /**
+   * Get the root table of a buffer
+   * @param buffer buffer
+   * @param position position of the root table offset within the buffer
+   * @return root table
+   */
+  static getRoot(buffer: Buffer, position = 0): FlatBufferTable {
+    return new FlatBufferTable(buffer, position + buffer.readUInt32LE(position));
+  }
+
+  /**
+   * Determine if the field is set
+   * @param field field id
+   */
+  has(field: number): boolean {
+    return this.getFieldPosition(field) !== 0;
+  }
+
+  getUint8(field: number, defaultValue = 0): number {
+    const position = this.getFieldPosition(field);
+    return position ? this.buffer.readUInt8(position) : defaultValue;
+  }
+
+  getBool(field: number, defaultValue = false): boolean {
+    const position = this.getFieldPosition(field);
+    return position ? this.buffer.readUInt8(position) !== 0 : defaultValue;
+  }
+
+  getUint16(field: number, defaultValue = 0): number {
+    const position = this.getFieldPosition(field);
+    return position ? this.buffer.readUInt16LE(position) : defaultValue;
+  }
+
+  getInt32(field: number, defaultValue = 0): number {
+    const position = this.getFieldPosition(field);
+    return position ? this.buffer.readInt32LE(position) : defaultValue;
+  }
+
+  /**
+   * Get an unsigned 64 bit integer field, values above 2^53 lose precision
+   */
+  getUint64(field: number, defaultValue = 0): number {
+    const position = this.getFieldPosition(field);
+    return position
+      ? this.buffer.readUInt32LE(position + 4) * 0x100000000 + this.buffer.readUInt32LE(position)
+      : defaultValue;
+  }
+
+  /**
+   * Get a string field
+   * @param field field id
+   * @return string, undefined if the field is not set
+   */
+  getString(field: number): string {
+    const bytes = this.getBytes(field);
+    return bytes ? bytes.toString('utf8') : undefined;
+  }
+
+  /**
+   * Get a byte vector field
+   * @param field field id
+   * @return bytes, undefined if the field is not set
+   */
+  getBytes(field: number): Buffer {
+    const vector = this.getVectorPosition(field);
+    if (vector === 0) {
+      return undefined;
+    }
+    const length = this.buffer.readUInt32LE(vector);
+    return this.buffer.subarray(vector + 4, vector + 4 + length);
+  }
+
+  getUint32Vector(field: number): number[] {
+    return this.readVector(field, 4, position => this.buffer.readUInt32LE(position));
+  }
+
+  getDoubleVector(field: number): number[] {
+    return this.readVector(field, 8, position => this.buffer.readDoubleLE(position));
+  }
+
+  /**
+   * Get a table field
+   * @param field field id
+   * @return table, undefined if the field is not set
+   */
+  getTable(field: number): FlatBufferTable {
+    const position = this.getFieldPosition(field);
+    return position ? new FlatBufferTable(this.buffer, position + this.buffer.readUInt32LE(position)) : undefined;
+  }
+
+  getTableVector(field: number): FlatBufferTable[] {
+    return this.readVector(
+      field,
+      4,
+      position => new FlatBufferTable(this.buffer, position + this.buffer.readUInt32LE(position)),
+    );
+  }
+
+  private readVector<T>(field: number, elementSize: number, read: (position: number) => T): T[] {
+    const vector = this.getVectorPosition(field);
+    if (vector === 0) {
+      return [];
+    }
+    const length = this.buffer.readUInt32LE(vector);
+    const values: T[] = [];
+    for (let i = 0; i < length; i++) {
+      values.push(read(vector + 4 + i * elementSize));
+    }
+    return values;
+  }
+
+  private getVectorPosition(field: number): number {
+    const position = this.getFieldPosition(field);
+    return position ? position + this.buffer.readUInt32LE(position) : 0;
+  }
+
+  private getFieldPosition(field: number): number {
+    const vtableOffset = 4 + field * 2;
+    if (vtableOffset >= this.vtableLength) {
+      return 0;
+    }
+    const fieldOffset = this.buffer.readUInt16LE(this.vtable + vtableOffset);
+    return fieldOffset ? this.position + fieldOffset : 0;
+  }
+}
+
+/**
+ * Writes size prefixed FlatBuffers buffers.  Tables are laid out front to back, each vtable directly before its table
+ * and the strings, vectors and tables a table refers to after it, with every value aligned to its size.
+ */
+export class FlatBufferBuilder {
+  private static readonly SIZES: Record<string, number> = {
+    uint8: 1,
+    bool: 1,
+    uint16: 2,
+    int32: 4,
+    uint32: 4,
+    uint64: 8,
+    double: 8,
+  };
+
+  private buffer = Buffer.alloc(1024);
+  private position = 0;
+
+  /**
+   * Build a size prefixed buffer with the root table
+   * @param root field values of the root table
+   * @return buffer
+   */
+  static build(root: FlatBufferValue[]): Buffer {
+    const builder = new FlatBufferBuilder();
+    builder.position = 8;
+    const table = builder.writeTable(root);
+    builder.buffer.writeUInt32LE(table - 4, 4);
+    builder.buffer.writeUInt32LE(builder.position - 4, 0);
+    return Buffer.from(builder.buffer.subarray(0, builder.position));
+  }
+
+  /**
+   * Write a table and the values it refers to
+   * @param fields field values indexed by field id
+   * @return position of the table
+   */
+  private writeTable(fields: FlatBufferValue[]): number {
+    const vtable = this.align(2);
+    const vtableLength = 4 + fields.length * 2;
+    this.reserve(vtableLength);
+    this.buffer.fill(0, vtable, vtable + vtableLength);
+    this.buffer.writeUInt16LE(vtableLength, vtable);
+    this.position = vtable + vtableLength;
+
+    const table = this.align(4);
+    this.reserve(4);
+    this.buffer.writeInt32LE(table - vtable, table);
+    this.position += 4;
+    // inline values are written largest first to limit the padding between them
+    const order = fields
+      .map((field, id) => id)
+      .filter(id => fields[id] !== undefined)
+      .sort((a, b) => FlatBufferBuilder.getInlineSize(fields[b]) - FlatBufferBuilder.getInlineSize(fields[a]));
+    const references: { position: number; field: FlatBufferValue }[] = [];
+    order.forEach(id => {
+      const field = fields[id];
+      const size = FlatBufferBuilder.getInlineSize(field);
+      const position = this.align(size);
+      this.reserve(size);
+      this.buffer.writeUInt16LE(position - table, vtable + 4 + id * 2);
+      if (FlatBufferBuilder.SIZES[field.type] === undefined) {
+        references.push({ position, field });
+      } else {
+        this.writeScalar(field.type, field.value as number | boolean, position);
+      }
+      this.position = position + size;
+    });
+    this.buffer.writeUInt16LE(this.position - table, vtable + 2);
+
+    references.forEach(reference => {
+      const position = this.writeReferenced(reference.field);
+      this.buffer.writeUInt32LE(position - reference.position, reference.position);
+    });
+    return table;
+  }
+
+  /**
+   * Write a string, vector or table referred to by another table
+   * @param field value
+   * @return position the reference points to
+   */
+  private writeReferenced(field: FlatBufferValue): number {
+    switch (field.type) {
+      case 'table':
+        return this.writeTable(field.value);
+      case 'table[]': {
+        const vector = this.writeVectorLength(field.value.length, 4);
+        const elements = vector + 4;
+        this.reserve(field.value.length * 4);
+        this.position = elements + field.value.length * 4;
+        field.value.forEach((table, i) => {
+          const position = this.writeTable(table);
+          this.buffer.writeUInt32LE(position - (elements + i * 4), elements + i * 4);
+        });
+        return vector;
+      }
+      case 'string':
+      case 'bytes': {
+        const bytes = field.type === 'string' ? Buffer.from(field.value, 'utf8') : field.value;
+        const vector = this.writeVectorLength(bytes.length, 1);
+        // strings are null terminated
+        this.reserve(bytes.length + 1);
+        this.buffer.set(bytes, vector + 4);
+        this.buffer.writeUInt8(0, vector + 4 + bytes.length);
+        this.position = vector + 4 + bytes.length + (field.type === 'string' ? 1 : 0);
+        return vector;
+      }
+      default: {
+        const elementType = field.type === 'double[]' ? 'double' : 'uint32';
+        const elementSize = FlatBufferBuilder.SIZES[elementType];
+        const values = field.value as number[];
+        const vector = this.writeVectorLength(values.length, elementSize);
+        this.reserve(values.length * elementSize);
+        values.forEach((value, i) => this.writeScalar(elementType, value, vector + 4 + i * elementSize));
+        this.position = vector + 4 + values.length * elementSize;
+        return vector;
+      }
+    }
+  }
+
+  /**
+   * Write the length of a vector, aligned so that the elements following it are aligned to their size
+   * @param length number of elements
+   * @param elementSize size of each element
+   * @return position of the vector
+   */
+  private writeVectorLength(length: number, elementSize: number): number {
+    let vector = this.align(4);
+    while ((vector + 4) % elementSize !== 0) {
+      vector += 4;
+    }
+    this.reserve(vector - this.position + 4);
+    this.buffer.fill(0, this.position, vector);
+    this.buffer.writeUInt32LE(length, vector);
+    this.position = vector + 4;
+    return vector;
+  }
+
+  private writeScalar(type: string, value: number | boolean, position: number): void {
+    const number = typeof value === 'boolean' ? (value ? 1 : 0) : value;
+    switch (type) {
+      case 'uint8':
+      case 'bool':
+        this.buffer.writeUInt8(number, position);
+        break;
+      case 'uint16':
+        this.buffer.writeUInt16LE(number, position);
+        break;
+      case 'int32':
+        this.buffer.writeInt32LE(number, position);
+        break;
+      case 'uint32':
+        this.buffer.writeUInt32LE(number, position);
+        break;
+      case 'uint64':
+        this.buffer.writeUInt32LE(number % 0x100000000, position);
+        this.buffer.writeUInt32LE(Math.floor(number / 0x100000000), position + 4);
+        break;
+      case 'double':
+        this.buffer.writeDoubleLE(number, position);
+        break;
+    }
+  }
+
+  /**
+   * Pad the buffer to the alignment
+   * @param alignment alignment in bytes
+   * @return aligned position
+   */
+  private align(alignment: number): number {
+    const padding = (alignment - (this.position % alignment)) % alignment;
+    this.reserve(padding);
+    this.buffer.fill(0, this.position, this.position + padding);
+    this.position += padding;
+    return this.position;
+  }
+
+  private reserve(length: number): void {
+    if (this.position + length > this.buffer.length) {
+      const buffer = Buffer.alloc(Math.max(this.buffer.length * 2, this.position + length));
+      this.buffer.copy(buffer, 0, 0, this.position);
+      this.buffer = buffer;
+    }
+  }
+
+  private static getInlineSize(field: FlatBufferValue): number {
+    return FlatBufferBuilder.SIZES[field.type] || 4;
+  }
+}
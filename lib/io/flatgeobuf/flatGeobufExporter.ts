@@ -0,0 +1,200 @@
+/**
+ * FlatGeobuf export
+ * @module io/flatgeobuf
+ */
+import fs from 'fs';
+
+import { FlatGeobufColumnType, FlatGeobufCrs, FlatGeobufGeometryType } from './flatGeobufReader';
+import { FlatGeobufWriter } from './flatGeobufWriter';
+import { PackedRTree } from './packedRTree';
+import { FeatureDao } from '../../features/user/featureDao';
+import { FeatureRow } from '../../features/user/featureRow';
+import { FeatureColumn } from '../../features/user/featureColumn';
+import { GeometryType } from '../../features/user/geometryType';
+import { GeoPackageDataType } from '../../db/geoPackageDataType';
+
+/**
+ * Options for a FlatGeobuf export
+ */
+export interface FlatGeobufExportOptions {
+  /**
+   * name of the dataset written to the header. Defaults to the table name.
+   */
+  name?: string;
+  /**
+   * names of the columns to write. Defaults to every column other than the primary key and geometry columns.
+   */
+  columns?: string[];
+  /**
+   * write the packed Hilbert R-tree spatial index. Defaults to true.
+   */
+  index?: boolean;
+  /**
+   * maximum number of children of each node of the spatial index. Defaults to 16.
+   */
+  indexNodeSize?: number;
+}
+
+/**
+ * Exports a feature table to a FlatGeobuf file.  Geometries are written in the coordinate reference system of the
+ * table and its definition is written as the CRS of the file.
+ */
+export class FlatGeobufExporter {
+  /**
+   * @param featureDao feature dao of the table to export
+   */
+  constructor(public readonly featureDao: FeatureDao<FeatureRow>) {}
+
+  /**
+   * Export the table to a FlatGeobuf file held in memory
+   * @param options export options
+   * @return file contents
+   */
+  exportFlatGeobuf(options: FlatGeobufExportOptions = {}): Buffer {
+    return this.writeFeatures(options).build();
+  }
+
+  /**
+   * Export the table to a FlatGeobuf file.  Only available in Node.
+   * @param filePath path of the file to write
+   * @param options export options
+   * @return number of features written
+   */
+  async writeFlatGeobuf(filePath: string, options: FlatGeobufExportOptions = {}): Promise<number> {
+    const writer = this.writeFeatures(options);
+    const data = writer.build();
+    await new Promise<void>((resolve, reject) => {
+      fs.writeFile(filePath, data, err => (err ? reject(err) : resolve()));
+    });
+    return writer.featureCount;
+  }
+
+  /**
+   * Add the features of the table to a writer
+   * @param options export options
+   * @return writer
+   */
+  private writeFeatures(options: FlatGeobufExportOptions): FlatGeobufWriter {
+    const columns = this.getColumns(options);
+    const geometryColumns = this.featureDao.geometryColumns;
+    const writer = new FlatGeobufWriter({
+      name: options.name || this.featureDao.gpkgTableName,
+      geometryType: FlatGeobufExporter.getGeometryType(GeometryType.fromName(geometryColumns.geometry_type_name)),
+      hasZ: geometryColumns.z > 0,
+      hasM: geometryColumns.m > 0,
+      columns: columns.map(column => ({
+        name: column.getName(),
+        type: FlatGeobufExporter.getColumnType(column.getDataType()),
+        nullable: !column.isNotNull(),
+      })),
+      featuresCount: 0,
+      indexNodeSize: options.index === false ? 0 : options.indexNodeSize || PackedRTree.DEFAULT_NODE_SIZE,
+      crs: this.getCrs(),
+    });
+    for (const row of this.featureDao.queryForEach()) {
+      const featureRow = this.featureDao.getRow(row);
+      const geometry = featureRow.geometry && !featureRow.geometry.empty ? featureRow.geometry.geometry : null;
+      const properties: Record<string, any> = {};
+      columns.forEach(column => {
+        properties[column.getName()] = featureRow.getValueWithColumnName(column.getName());
+      });
+      writer.addFeature(geometry, properties);
+    }
+    return writer;
+  }
+
+  /**
+   * Get the columns written to the file
+   * @param options export options
+   * @return columns
+   */
+  private getColumns(options: FlatGeobufExportOptions): FeatureColumn[] {
+    const userColumns = this.featureDao.table.getUserColumns();
+    if (options.columns) {
+      return options.columns.map(columnName => {
+        if (!userColumns.hasColumn(columnName)) {
+          throw new Error('Column does not exist in table ' + this.featureDao.gpkgTableName + ': ' + columnName);
+        }
+        return userColumns.getColumn(columnName);
+      });
+    }
+    return userColumns.getColumns().filter(column => !column.isPrimaryKey() && !column.isGeometry());
+  }
+
+  /**
+   * Get the CRS of the file from the spatial reference system of the table
+   * @return crs, undefined for the undefined cartesian and geographic systems
+   */
+  private getCrs(): FlatGeobufCrs {
+    const srs = this.featureDao.srs;
+    if (!srs || srs.srs_id === -1 || srs.srs_id === 0) {
+      return undefined;
+    }
+    return {
+      org: srs.organization,
+      code: srs.organization_coordsys_id,
+      name: srs.srs_name,
+      description: srs.description || undefined,
+      wkt: srs.definition && srs.definition !== 'undefined' ? srs.definition : undefined,
+    };
+  }
+
+  /**
+   * Get the FlatGeobuf column type of a data type
+   * @param dataType data type
+   * @return column type
+   */
+  static getColumnType(dataType: GeoPackageDataType): FlatGeobufColumnType {
+    switch (dataType) {
+      case GeoPackageDataType.BOOLEAN:
+        return FlatGeobufColumnType.BOOL;
+      case GeoPackageDataType.TINYINT:
+        return FlatGeobufColumnType.BYTE;
+      case GeoPackageDataType.SMALLINT:
+        return FlatGeobufColumnType.SHORT;
+      case GeoPackageDataType.MEDIUMINT:
+        return FlatGeobufColumnType.INT;
+      case GeoPackageDataType.INT:
+      case GeoPackageDataType.INTEGER:
+        return FlatGeobufColumnType.LONG;
+      case GeoPackageDataType.FLOAT:
+        return FlatGeobufColumnType.FLOAT;
+      case GeoPackageDataType.DOUBLE:
+      case GeoPackageDataType.REAL:
+        return FlatGeobufColumnType.DOUBLE;
+      case GeoPackageDataType.DATE:
+      case GeoPackageDataType.DATETIME:
+        return FlatGeobufColumnType.DATETIME;
+      case GeoPackageDataType.BLOB:
+        return FlatGeobufColumnType.BINARY;
+      default:
+        return FlatGeobufColumnType.STRING;
+    }
+  }
+
+  /**
+   * Get the FlatGeobuf geometry type of a geometry type
+   * @param geometryType geometry type
+   * @return FlatGeobuf geometry type, unknown for mixed geometry types
+   */
+  static getGeometryType(geometryType: GeometryType): FlatGeobufGeometryType {
+    switch (geometryType) {
+      case GeometryType.POINT:
+        return FlatGeobufGeometryType.POINT;
+      case GeometryType.LINESTRING:
+        return FlatGeobufGeometryType.LINESTRING;
+      case GeometryType.POLYGON:
+        return FlatGeobufGeometryType.POLYGON;
+      case GeometryType.MULTIPOINT:
+        return FlatGeobufGeometryType.MULTIPOINT;
+      case GeometryType.MULTILINESTRING:
+        return FlatGeobufGeometryType.MULTILINESTRING;
+      case GeometryType.MULTIPOLYGON:
+        return FlatGeobufGeometryType.MULTIPOLYGON;
+      case GeometryType.GEOMETRYCOLLECTION:
+        return FlatGeobufGeometryType.GEOMETRYCOLLECTION;
+      default:
+        return FlatGeobufGeometryType.UNKNOWN;
+    }
+  }
+}
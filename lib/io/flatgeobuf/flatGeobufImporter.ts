@@ -0,0 +1,358 @@
+/**
+ * FlatGeobuf import
+ * @module io/flatgeobuf
+ */
+import wkx from 'wkx';
+
+import { GeoPackage } from '../../geoPackage';
+import {
+  FlatGeobufColumnType,
+  FlatGeobufCrs,
+  FlatGeobufFeature,
+  FlatGeobufGeometryType,
+  FlatGeobufHeader,
+  FlatGeobufReader,
+  FlatGeobufSource,
+} from './flatGeobufReader';
+import { PackedRTree } from './packedRTree';
+import { ShapefileImporter } from '../shapefile/shapefileImporter';
+import { FeatureDao } from '../../features/user/featureDao';
+import { FeatureRow } from '../../features/user/featureRow';
+import { FeatureColumn } from '../../features/user/featureColumn';
+import { GeometryColumns } from '../../features/columns/geometryColumns';
+import { GeometryType } from '../../features/user/geometryType';
+import { GeometryData } from '../../geom/geometryData';
+import { Envelope } from '../../geom/envelope';
+import { EnvelopeBuilder } from '../../geom/envelopeBuilder';
+import { BoundingBox } from '../../boundingBox';
+import { SpatialReferenceSystem } from '../../core/srs/spatialReferenceSystem';
+import { SqliteQueryBuilder } from '../../db/sqliteQueryBuilder';
+import { GeoPackageDataType } from '../../db/geoPackageDataType';
+import { ProjectionConstants } from '../../projection/projectionConstants';
+import { IOUtils } from '../ioUtils';
+
+/**
+ * Options for a FlatGeobuf import
+ */
+export interface FlatGeobufImportOptions {
+  /**
+   * only import the features intersecting the bounding box, in the coordinate reference system of the file. Indexed
+   * files only read the features found in their spatial index.
+   */
+  boundingBox?: BoundingBox;
+  /**
+   * srs id of the table, overriding the coordinate reference system of the file. Defaults to the srs matching the file,
+   * or 4326 if it has none.
+   */
+  srsId?: number;
+  /**
+   * name of the geometry column. Defaults to `geom`.
+   */
+  geometryColumnName?: string;
+  /**
+   * name of the primary key column. Defaults to `fid`.
+   */
+  idColumnName?: string;
+  /**
+   * number of features inserted in a single transaction. Defaults to 1000.
+   */
+  batchSize?: number;
+  /**
+   * index the table once all features are inserted
+   */
+  index?: boolean;
+  /**
+   * called after each batch is inserted with the number of features added so far
+   */
+  progress?: (featuresAdded: number) => void;
+}
+
+/**
+ * Imports a FlatGeobuf file into a new feature table.  Columns become columns of the matching GeoPackage data type,
+ * the coordinate reference system is resolved to a spatial reference system and the geometries are written without
+ * reprojection.
+ */
+export class FlatGeobufImporter {
+  public static readonly DEFAULT_BATCH_SIZE: number = 1000;
+  public static readonly DEFAULT_GEOMETRY_COLUMN: string = 'geom';
+  public static readonly DEFAULT_ID_COLUMN: string = 'fid';
+
+  /**
+   * @param geoPackage GeoPackage to import into
+   */
+  constructor(public readonly geoPackage: GeoPackage) {}
+
+  /**
+   * Import the FlatGeobuf file into a new feature table
+   * @param source path to the file or its contents
+   * @param tableName name of the feature table to create
+   * @param options import options
+   * @return number of features inserted
+   */
+  async importFlatGeobuf(
+    source: FlatGeobufSource,
+    tableName: string,
+    options: FlatGeobufImportOptions = {},
+  ): Promise<number> {
+    if (this.geoPackage.isTable(tableName)) {
+      throw new Error('Table already exists: ' + tableName);
+    }
+    const reader = await FlatGeobufReader.open(source);
+    try {
+      const srs = options.srsId != null ? this.geoPackage.getSrs(options.srsId) : this.resolveSrs(reader.header.crs);
+      if (!srs) {
+        throw new Error('Spatial reference system does not exist: ' + options.srsId);
+      }
+      return await IOUtils.deleteTablesOnError(this.geoPackage, [tableName], async () => {
+        const featureDao = this.createTable(tableName, reader.header, srs, options);
+        const envelope = options.boundingBox ? FlatGeobufImporter.toEnvelope(options.boundingBox) : undefined;
+        const offsets = envelope && reader.indexed ? await reader.search(envelope) : undefined;
+        const extent = PackedRTree.emptyEnvelope();
+        const inserted = await IOUtils.insertBatches(
+          FlatGeobufImporter.readFeatures(reader, offsets, envelope, extent),
+          options.batchSize || FlatGeobufImporter.DEFAULT_BATCH_SIZE,
+          batch => this.insertBatch(featureDao, batch),
+          options.progress,
+        );
+        if (isFinite(extent.minX)) {
+          IOUtils.updateContentsBounds(this.geoPackage, featureDao.gpkgTableName, extent);
+        }
+        if (options.index) {
+          await featureDao.index();
+        }
+        return inserted;
+      });
+    } finally {
+      await reader.close();
+    }
+  }
+
+  /**
+   * Read the features, in file order or at the offsets found by the spatial index, within the envelope
+   * @param reader FlatGeobuf reader
+   * @param offsets offsets of the features found by the spatial index, undefined to read every feature
+   * @param envelope envelope the features must intersect, undefined for all features
+   * @param extent extent of the read features, expanded as they are read
+   * @return features with their envelopes
+   */
+  private static async *readFeatures(
+    reader: FlatGeobufReader,
+    offsets: number[],
+    envelope: Envelope,
+    extent: Envelope,
+  ): AsyncIterableIterator<{ feature: FlatGeobufFeature; envelope: Envelope }> {
+    let offset = 0;
+    for (let i = 0; offsets ? i < offsets.length : true; i++) {
+      const feature = await reader.readFeature(offsets ? offsets[i] : offset);
+      if (!feature) {
+        break;
+      }
+      offset += feature.length;
+      const featureEnvelope = FlatGeobufImporter.getEnvelope(feature.geometry);
+      if (envelope && !FlatGeobufImporter.intersects(envelope, featureEnvelope)) {
+        continue;
+      }
+      PackedRTree.expand(extent, featureEnvelope);
+      yield { feature, envelope: featureEnvelope };
+    }
+  }
+
+  /**
+   * Create the feature table for the file
+   * @param tableName table name
+   * @param header header of the file
+   * @param srs spatial reference system of the table
+   * @param options import options
+   * @return feature dao for the new table
+   */
+  private createTable(
+    tableName: string,
+    header: FlatGeobufHeader,
+    srs: SpatialReferenceSystem,
+    options: FlatGeobufImportOptions,
+  ): FeatureDao<FeatureRow> {
+    const idColumnName = options.idColumnName || FlatGeobufImporter.DEFAULT_ID_COLUMN;
+    const geometryType = FlatGeobufImporter.getGeometryType(header.geometryType);
+    const geometryColumns = new GeometryColumns();
+    geometryColumns.table_name = tableName;
+    geometryColumns.column_name = options.geometryColumnName || FlatGeobufImporter.DEFAULT_GEOMETRY_COLUMN;
+    geometryColumns.geometry_type_name = GeometryType.nameFromType(geometryType);
+    geometryColumns.z = header.hasZ ? 1 : 0;
+    geometryColumns.m = header.hasM ? 1 : 0;
+
+    const columns: FeatureColumn[] = [];
+    columns.push(FeatureColumn.createPrimaryKeyColumn(0, idColumnName));
+    columns.push(FeatureColumn.createGeometryColumn(1, geometryColumns.column_name, geometryType, false, null));
+    header.columns.forEach(column => {
+      if ([idColumnName, geometryColumns.column_name].some(name => name.toLowerCase() === column.name.toLowerCase())) {
+        throw new Error(
+          'Column ' + column.name + ' conflicts with the id or geometry column name, specify a different column name',
+        );
+      }
+      columns.push(
+        FeatureColumn.createColumn(
+          columns.length,
+          column.name,
+          FlatGeobufImporter.getDataType(column.type),
+          column.nullable === false,
+        ),
+      );
+    });
+    this.geoPackage.createFeatureTable(tableName, geometryColumns, columns, undefined, srs.srs_id);
+    return this.geoPackage.getFeatureDao(tableName);
+  }
+
+  /**
+   * Insert a batch of features in a transaction
+   * @param featureDao feature dao of the table
+   * @param batch features and their envelopes
+   * @return number of features inserted
+   */
+  private insertBatch(
+    featureDao: FeatureDao<FeatureRow>,
+    batch: { feature: FlatGeobufFeature; envelope: Envelope }[],
+  ): number {
+    const srsId = featureDao.srs.srs_id;
+    const insertSql = SqliteQueryBuilder.buildInsert("'" + featureDao.gpkgTableName + "'", featureDao.newRow());
+    featureDao.connection.transaction(() => {
+      const insertStatement = featureDao.connection.adapter.prepareStatement(insertSql);
+      batch.forEach(({ feature, envelope }) => {
+        const featureRow = featureDao.newRow();
+        if (feature.geometry) {
+          const geometryData = new GeometryData();
+          geometryData.setSrsId(srsId);
+          geometryData.setGeometry(feature.geometry);
+          if (isFinite(envelope.minX)) {
+            geometryData.setEnvelope(envelope);
+          }
+          featureDao.checkGeometry(geometryData);
+          featureRow.geometry = geometryData;
+        }
+        Object.keys(feature.properties).forEach(columnName => {
+          const value = feature.properties[columnName];
+          // dates that can not be parsed are left unset
+          if (!(value instanceof Date && isNaN(value.getTime()))) {
+            featureRow.setValueWithColumnName(columnName, value);
+          }
+        });
+        featureDao.connection.adapter.bindAndInsert(
+          insertStatement,
+          SqliteQueryBuilder.buildUpdateOrInsertObject(featureRow),
+        );
+      });
+      featureDao.connection.adapter.closeStatement(insertStatement);
+    });
+    return batch.length;
+  }
+
+  /**
+   * Resolve the coordinate reference system of the file to a spatial reference system, creating it from its WKT if the
+   * GeoPackage does not contain it
+   * @param crs coordinate reference system, may be undefined
+   * @return spatial reference system
+   */
+  resolveSrs(crs?: FlatGeobufCrs): SpatialReferenceSystem {
+    const srsDao = this.geoPackage.spatialReferenceSystemDao;
+    if (!crs) {
+      return srsDao.getBySrsId(srsDao.createWgs84());
+    }
+    const organization = (crs.org || ProjectionConstants.EPSG).toUpperCase();
+    if (crs.code) {
+      if (organization === ProjectionConstants.EPSG && crs.code === ProjectionConstants.EPSG_CODE_4326) {
+        return srsDao.getBySrsId(srsDao.createWgs84());
+      } else if (organization === ProjectionConstants.EPSG && crs.code === ProjectionConstants.EPSG_CODE_3857) {
+        return srsDao.getBySrsId(srsDao.createWebMercator());
+      }
+      const existing = srsDao.getByOrganizationAndCoordSysId(organization, crs.code);
+      if (existing) {
+        return existing;
+      }
+    }
+    if (crs.wkt) {
+      return new ShapefileImporter(this.geoPackage).resolveSrs(crs.wkt);
+    }
+    throw new Error(
+      'Spatial reference system is not defined: ' + organization + ':' + crs.code + ', specify the srsId option',
+    );
+  }
+
+  /**
+   * Get the GeoPackage data type of a FlatGeobuf column type
+   * @param columnType column type
+   * @return data type
+   */
+  static getDataType(columnType: FlatGeobufColumnType): GeoPackageDataType {
+    switch (columnType) {
+      case FlatGeobufColumnType.BOOL:
+        return GeoPackageDataType.BOOLEAN;
+      case FlatGeobufColumnType.BYTE:
+        return GeoPackageDataType.TINYINT;
+      case FlatGeobufColumnType.UBYTE:
+      case FlatGeobufColumnType.SHORT:
+        return GeoPackageDataType.SMALLINT;
+      case FlatGeobufColumnType.USHORT:
+      case FlatGeobufColumnType.INT:
+        return GeoPackageDataType.MEDIUMINT;
+      case FlatGeobufColumnType.UINT:
+      case FlatGeobufColumnType.LONG:
+      case FlatGeobufColumnType.ULONG:
+        return GeoPackageDataType.INTEGER;
+      case FlatGeobufColumnType.FLOAT:
+        return GeoPackageDataType.FLOAT;
+      case FlatGeobufColumnType.DOUBLE:
+        return GeoPackageDataType.DOUBLE;
+      case FlatGeobufColumnType.DATETIME:
+        return GeoPackageDataType.DATETIME;
+      case FlatGeobufColumnType.BINARY:
+        return GeoPackageDataType.BLOB;
+      default:
+        return GeoPackageDataType.TEXT;
+    }
+  }
+
+  /**
+   * Get the geometry type of the table for a FlatGeobuf geometry type
+   * @param geometryType FlatGeobuf geometry type
+   * @return geometry type
+   */
+  static getGeometryType(geometryType: FlatGeobufGeometryType): GeometryType {
+    switch (geometryType) {
+      case FlatGeobufGeometryType.POINT:
+        return GeometryType.POINT;
+      case FlatGeobufGeometryType.LINESTRING:
+        return GeometryType.LINESTRING;
+      case FlatGeobufGeometryType.POLYGON:
+        return GeometryType.POLYGON;
+      case FlatGeobufGeometryType.MULTIPOINT:
+        return GeometryType.MULTIPOINT;
+      case FlatGeobufGeometryType.MULTILINESTRING:
+        return GeometryType.MULTILINESTRING;
+      case FlatGeobufGeometryType.MULTIPOLYGON:
+        return GeometryType.MULTIPOLYGON;
+      case FlatGeobufGeometryType.GEOMETRYCOLLECTION:
+        return GeometryType.GEOMETRYCOLLECTION;
+      default:
+        return GeometryType.GEOMETRY;
+    }
+  }
+
+  private static getEnvelope(geometry: wkx.Geometry): Envelope {
+    if (!geometry || (geometry instanceof wkx.Point && geometry.x === undefined)) {
+      return PackedRTree.emptyEnvelope();
+    }
+    return EnvelopeBuilder.buildEnvelopeWithGeometry(geometry);
+  }
+
+  private static toEnvelope(boundingBox: BoundingBox): Envelope {
+    const envelope = new Envelope();
+    envelope.minX = boundingBox.minLongitude;
+    envelope.minY = boundingBox.minLatitude;
+    envelope.maxX = boundingBox.maxLongitude;
+    envelope.maxY = boundingBox.maxLatitude;
+    return envelope;
+  }
+
+  private static intersects(a: Envelope, b: Envelope): boolean {
+    return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+  }
+}
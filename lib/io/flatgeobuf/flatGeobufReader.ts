@@ -0,0 +1,486 @@
+/**
+ * FlatGeobuf reader
+ * @module io/flatgeobuf
+ */
+import fs from 'fs';
+import wkx from 'wkx';
+
+import { FlatBufferTable } from './flatBuffers';
+import { PackedRTree } from './packedRTree';
+import { Envelope } from '../../geom/envelope';
+
+/**
+ * Geometry types of the FlatGeobuf format
+ */
+export enum FlatGeobufGeometryType {
+  UNKNOWN = 0,
+  POINT = 1,
+  LINESTRING = 2,
+  POLYGON = 3,
+  MULTIPOINT = 4,
+  MULTILINESTRING = 5,
+  MULTIPOLYGON = 6,
+  GEOMETRYCOLLECTION = 7,
+}
+
+/**
+ * Column types of the FlatGeobuf format
+ */
+export enum FlatGeobufColumnType {
+  BYTE = 0,
+  UBYTE = 1,
+  BOOL = 2,
+  SHORT = 3,
+  USHORT = 4,
+  INT = 5,
+  UINT = 6,
+  LONG = 7,
+  ULONG = 8,
+  FLOAT = 9,
+  DOUBLE = 10,
+  STRING = 11,
+  JSON = 12,
+  DATETIME = 13,
+  BINARY = 14,
+}
+
+/**
+ * A column of the features
+ */
+export interface FlatGeobufColumn {
+  name: string;
+  type: FlatGeobufColumnType;
+  title?: string;
+  description?: string;
+  nullable?: boolean;
+  unique?: boolean;
+  primaryKey?: boolean;
+}
+
+/**
+ * Coordinate reference system of the features
+ */
+export interface FlatGeobufCrs {
+  /**
+   * organization of the code, EPSG when not set
+   */
+  org?: string;
+  /**
+   * code of the coordinate reference system within the organization, 0 when not set
+   */
+  code?: number;
+  name?: string;
+  description?: string;
+  wkt?: string;
+  codeString?: string;
+}
+
+/**
+ * Header of a FlatGeobuf file
+ */
+export interface FlatGeobufHeader {
+  name?: string;
+  /**
+   * bounds of the features as min x, min y, max x and max y
+   */
+  envelope?: number[];
+  geometryType: FlatGeobufGeometryType;
+  hasZ: boolean;
+  hasM: boolean;
+  columns: FlatGeobufColumn[];
+  featuresCount: number;
+  /**
+   * maximum number of children of each node of the spatial index, 0 when the file has no index
+   */
+  indexNodeSize: number;
+  crs?: FlatGeobufCrs;
+  title?: string;
+  description?: string;
+  metadata?: string;
+}
+
+/**
+ * A feature read from a FlatGeobuf file
+ */
+export interface FlatGeobufFeature {
+  /**
+   * geometry of the feature, null if it has none
+   */
+  geometry: wkx.Geometry;
+  /**
+   * values by column name
+   */
+  properties: Record<string, string | number | boolean | Date | Buffer>;
+  /**
+   * size of the feature in the file
+   */
+  length: number;
+}
+
+/**
+ * Sources a FlatGeobuf file can be read from: the path to the file (Node only) or its contents
+ */
+export type FlatGeobufSource = string | Buffer | ArrayBuffer | Uint8Array;
+
+/**
+ * Reads the header, spatial index and features of a FlatGeobuf file.  Files are read on demand, so a bounding box
+ * search of an indexed file only reads the index nodes and features it needs.
+ */
+export class FlatGeobufReader {
+  /**
+   * Magic bytes starting every FlatGeobuf file, the fourth byte being the major version
+   */
+  public static readonly MAGIC_BYTES: number[] = [0x66, 0x67, 0x62, 0x03, 0x66, 0x67, 0x62, 0x00];
+  private static readonly READ_AHEAD: number = 65536;
+
+  private cache: { position: number; data: Buffer };
+
+  /**
+   * @param header header of the file
+   * @param indexOffset position of the spatial index in the file
+   * @param featuresOffset position of the first feature in the file
+   * @param fileLength length of the file
+   * @param readFile reads a range of the file
+   * @param closeFile releases the file
+   */
+  private constructor(
+    public readonly header: FlatGeobufHeader,
+    private readonly indexOffset: number,
+    private readonly featuresOffset: number,
+    private readonly fileLength: number,
+    private readonly readFile: (position: number, length: number) => Promise<Buffer>,
+    private readonly closeFile: () => Promise<void>,
+  ) {}
+
+  /**
+   * Open a FlatGeobuf file and read its header
+   * @param source path to the file or its contents
+   * @return reader
+   */
+  static async open(source: FlatGeobufSource): Promise<FlatGeobufReader> {
+    let fileLength: number;
+    let readFile: (position: number, length: number) => Promise<Buffer>;
+    let closeFile: () => Promise<void>;
+    if (typeof source === 'string') {
+      const fd = await new Promise<number>((resolve, reject) => {
+        fs.open(source, 'r', (err, fd) =>
+          err ? reject(new Error('FlatGeobuf file does not exist: ' + source)) : resolve(fd),
+        );
+      });
+      fileLength = await new Promise<number>((resolve, reject) => {
+        fs.stat(source, (err, stats) => (err ? reject(err) : resolve(stats.size)));
+      });
+      readFile = (position: number, length: number): Promise<Buffer> =>
+        new Promise((resolve, reject) => {
+          const data = Buffer.alloc(Math.max(0, Math.min(length, fileLength - position)));
+          fs.read(fd, data, 0, data.length, position, err => (err ? reject(err) : resolve(data)));
+        });
+      closeFile = (): Promise<void> =>
+        new Promise((resolve, reject) => {
+          fs.close(fd, err => (err ? reject(err) : resolve()));
+        });
+    } else {
+      const data = Buffer.isBuffer(source)
+        ? source
+        : source instanceof ArrayBuffer
+        ? Buffer.from(source)
+        : Buffer.from(source.buffer, source.byteOffset, source.byteLength);
+      fileLength = data.length;
+      readFile = (position: number, length: number): Promise<Buffer> =>
+        Promise.resolve(data.subarray(position, position + length));
+      closeFile = (): Promise<void> => Promise.resolve();
+    }
+
+    const start = await readFile(0, 12);
+    if (start.length < 12 || FlatGeobufReader.MAGIC_BYTES.some((byte, i) => i !== 3 && start[i] !== byte)) {
+      await closeFile();
+      throw new Error('Not a FlatGeobuf file');
+    }
+    if (start[3] !== FlatGeobufReader.MAGIC_BYTES[3]) {
+      await closeFile();
+      throw new Error('Unsupported FlatGeobuf version: ' + start[3]);
+    }
+    const headerLength = start.readUInt32LE(8);
+    const header = FlatGeobufReader.readHeader(await readFile(8, headerLength + 4));
+    const indexOffset = 12 + headerLength;
+    const indexLength =
+      header.indexNodeSize > 0 && header.featuresCount > 0
+        ? PackedRTree.size(header.featuresCount, header.indexNodeSize)
+        : 0;
+    return new FlatGeobufReader(header, indexOffset, indexOffset + indexLength, fileLength, readFile, closeFile);
+  }
+
+  /**
+   * Determine if the file has a spatial index
+   */
+  get indexed(): boolean {
+    return this.featuresOffset > this.indexOffset;
+  }
+
+  /**
+   * Search the spatial index for the features intersecting the envelope
+   * @param envelope envelope in the coordinate reference system of the file
+   * @return offsets of the features to read with {@link FlatGeobufReader#readFeature}
+   */
+  async search(envelope: Envelope): Promise<number[]> {
+    if (!this.indexed) {
+      throw new Error('FlatGeobuf file does not have a spatial index');
+    }
+    return PackedRTree.search(this.header.featuresCount, this.header.indexNodeSize, envelope, (index, count) =>
+      this.readFile(this.indexOffset + index * PackedRTree.NODE_ITEM_LENGTH, count * PackedRTree.NODE_ITEM_LENGTH),
+    );
+  }
+
+  /**
+   * Read the feature at an offset
+   * @param offset offset of the feature within the feature data, the offset of the first feature being 0
+   * @return feature, undefined at the end of the file
+   */
+  async readFeature(offset: number): Promise<FlatGeobufFeature> {
+    const position = this.featuresOffset + offset;
+    if (position + 4 > this.fileLength) {
+      return undefined;
+    }
+    const length = (await this.read(position, 4)).readUInt32LE(0);
+    const data = await this.read(position, length + 4);
+    const feature = FlatBufferTable.getRoot(data, 4);
+    return {
+      geometry: feature.has(0)
+        ? FlatGeobufReader.readGeometry(
+            feature.getTable(0),
+            this.header.geometryType,
+            this.header.hasZ,
+            this.header.hasM,
+          )
+        : null,
+      properties: FlatGeobufReader.readProperties(
+        feature.getBytes(1),
+        feature.has(2) ? feature.getTableVector(2).map(FlatGeobufReader.readColumn) : this.header.columns,
+      ),
+      length: length + 4,
+    };
+  }
+
+  /**
+   * Release the file
+   */
+  async close(): Promise<void> {
+    await this.closeFile();
+  }
+
+  /**
+   * Read a range of the file through a read ahead cache, as features are mostly read in order
+   */
+  private async read(position: number, length: number): Promise<Buffer> {
+    if (
+      !this.cache ||
+      position < this.cache.position ||
+      position + length > this.cache.position + this.cache.data.length
+    ) {
+      this.cache = { position, data: await this.readFile(position, Math.max(length, FlatGeobufReader.READ_AHEAD)) };
+    }
+    return this.cache.data.subarray(position - this.cache.position, position - this.cache.position + length);
+  }
+
+  /**
+   * Read the size prefixed header
+   * @param data header
+   * @return header
+   */
+  static readHeader(data: Buffer): FlatGeobufHeader {
+    const header = FlatBufferTable.getRoot(data, 4);
+    const crs = header.getTable(10);
+    return {
+      name: header.getString(0),
+      envelope: header.has(1) ? header.getDoubleVector(1) : undefined,
+      geometryType: header.getUint8(2),
+      hasZ: header.getBool(3),
+      hasM: header.getBool(4),
+      columns: header.getTableVector(7).map(FlatGeobufReader.readColumn),
+      featuresCount: header.getUint64(8),
+      indexNodeSize: header.getUint16(9, PackedRTree.DEFAULT_NODE_SIZE),
+      crs: crs
+        ? {
+            org: crs.getString(0),
+            code: crs.getInt32(1),
+            name: crs.getString(2),
+            description: crs.getString(3),
+            wkt: crs.getString(4),
+            codeString: crs.getString(5),
+          }
+        : undefined,
+      title: header.getString(11),
+      description: header.getString(12),
+      metadata: header.getString(13),
+    };
+  }
+
+  private static readColumn(column: FlatBufferTable): FlatGeobufColumn {
+    return {
+      name: column.getString(0),
+      type: column.getUint8(1),
+      title: column.getString(2),
+      description: column.getString(3),
+      nullable: column.getBool(7, true),
+      unique: column.getBool(8),
+      primaryKey: column.getBool(9),
+    };
+  }
+
+  /**
+   * Read the property values of a feature
+   * @param data encoded properties, a column index followed by its value for each property
+   * @param columns columns of the feature
+   * @return values by column name
+   */
+  static readProperties(
+    data: Buffer,
+    columns: FlatGeobufColumn[],
+  ): Record<string, string | number | boolean | Date | Buffer> {
+    const properties: Record<string, string | number | boolean | Date | Buffer> = {};
+    let position = 0;
+    while (data && position + 2 <= data.length) {
+      const column = columns[data.readUInt16LE(position)];
+      if (!column) {
+        throw new Error('Invalid FlatGeobuf property column index: ' + data.readUInt16LE(position));
+      }
+      position += 2;
+      switch (column.type) {
+        case FlatGeobufColumnType.BYTE:
+          properties[column.name] = data.readInt8(position);
+          position += 1;
+          break;
+        case FlatGeobufColumnType.UBYTE:
+          properties[column.name] = data.readUInt8(position);
+          position += 1;
+          break;
+        case FlatGeobufColumnType.BOOL:
+          properties[column.name] = data.readUInt8(position) !== 0;
+          position += 1;
+          break;
+        case FlatGeobufColumnType.SHORT:
+          properties[column.name] = data.readInt16LE(position);
+          position += 2;
+          break;
+        case FlatGeobufColumnType.USHORT:
+          properties[column.name] = data.readUInt16LE(position);
+          position += 2;
+          break;
+        case FlatGeobufColumnType.INT:
+          properties[column.name] = data.readInt32LE(position);
+          position += 4;
+          break;
+        case FlatGeobufColumnType.UINT:
+          properties[column.name] = data.readUInt32LE(position);
+          position += 4;
+          break;
+        case FlatGeobufColumnType.LONG:
+          // values beyond 2^53 lose precision
+          properties[column.name] = data.readInt32LE(position + 4) * 0x100000000 + data.readUInt32LE(position);
+          position += 8;
+          break;
+        case FlatGeobufColumnType.ULONG:
+          properties[column.name] = data.readUInt32LE(position + 4) * 0x100000000 + data.readUInt32LE(position);
+          position += 8;
+          break;
+        case FlatGeobufColumnType.FLOAT:
+          properties[column.name] = data.readFloatLE(position);
+          position += 4;
+          break;
+        case FlatGeobufColumnType.DOUBLE:
+          properties[column.name] = data.readDoubleLE(position);
+          position += 8;
+          break;
+        case FlatGeobufColumnType.STRING:
+        case FlatGeobufColumnType.JSON:
+        case FlatGeobufColumnType.DATETIME:
+        case FlatGeobufColumnType.BINARY: {
+          const length = data.readUInt32LE(position);
+          const bytes = data.subarray(position + 4, position + 4 + length);
+          position += 4 + length;
+          if (column.type === FlatGeobufColumnType.BINARY) {
+            properties[column.name] = Buffer.from(bytes);
+          } else if (column.type === FlatGeobufColumnType.DATETIME) {
+            properties[column.name] = new Date(bytes.toString('utf8'));
+          } else {
+            properties[column.name] = bytes.toString('utf8');
+          }
+          break;
+        }
+        default:
+          throw new Error('Unsupported FlatGeobuf column type: ' + column.type);
+      }
+    }
+    return properties;
+  }
+
+  /**
+   * Read a geometry
+   * @param geometry geometry table
+   * @param geometryType geometry type of the header, used when the geometry does not have a type
+   * @param hasZ true if the features have z values
+   * @param hasM true if the features have m values
+   * @return geometry
+   */
+  static readGeometry(
+    geometry: FlatBufferTable,
+    geometryType: FlatGeobufGeometryType,
+    hasZ: boolean,
+    hasM: boolean,
+  ): wkx.Geometry {
+    const type: FlatGeobufGeometryType = geometry.getUint8(6, geometryType);
+    const xy = geometry.getDoubleVector(1);
+    const z = hasZ ? geometry.getDoubleVector(2) : [];
+    const m = hasM ? geometry.getDoubleVector(3) : [];
+    const ends = geometry.getUint32Vector(0);
+    const getPoints = (start: number, end: number): wkx.Point[] => {
+      const points: wkx.Point[] = [];
+      for (let i = start; i < end; i++) {
+        points.push(new wkx.Point(xy[i * 2], xy[i * 2 + 1], z.length ? z[i] : undefined, m.length ? m[i] : undefined));
+      }
+      return points;
+    };
+    const getParts = (): wkx.Point[][] => {
+      const parts: wkx.Point[][] = [];
+      let start = 0;
+      (ends.length ? ends : [xy.length / 2]).forEach(end => {
+        parts.push(getPoints(start, end));
+        start = end;
+      });
+      return parts;
+    };
+    switch (type) {
+      case FlatGeobufGeometryType.POINT:
+        return xy.length ? getPoints(0, 1)[0] : new wkx.Point();
+      case FlatGeobufGeometryType.MULTIPOINT:
+        return new wkx.MultiPoint(getPoints(0, xy.length / 2));
+      case FlatGeobufGeometryType.LINESTRING:
+        return new wkx.LineString(getPoints(0, xy.length / 2));
+      case FlatGeobufGeometryType.MULTILINESTRING:
+        return new wkx.MultiLineString(xy.length ? getParts().map(points => new wkx.LineString(points)) : []);
+      case FlatGeobufGeometryType.POLYGON: {
+        if (!xy.length) {
+          return new wkx.Polygon();
+        }
+        const rings = getParts();
+        return new wkx.Polygon(rings[0], rings.slice(1));
+      }
+      case FlatGeobufGeometryType.MULTIPOLYGON:
+        return new wkx.MultiPolygon(
+          geometry
+            .getTableVector(7)
+            .map(
+              part => FlatGeobufReader.readGeometry(part, FlatGeobufGeometryType.POLYGON, hasZ, hasM) as wkx.Polygon,
+            ),
+        );
+      case FlatGeobufGeometryType.GEOMETRYCOLLECTION:
+        return new wkx.GeometryCollection(
+          geometry
+            .getTableVector(7)
+            .map(part => FlatGeobufReader.readGeometry(part, FlatGeobufGeometryType.UNKNOWN, hasZ, hasM)),
+        );
+      default:
+        throw new Error('Unsupported FlatGeobuf geometry type: ' + type);
+    }
+  }
+}
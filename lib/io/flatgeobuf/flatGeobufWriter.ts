@@ -0,0 +1,327 @@
+/**
+ * FlatGeobuf writer
+ * @module io/flatgeobuf
+ */
+import wkx from 'wkx';
+
+import { FlatBufferBuilder, FlatBufferValue } from './flatBuffers';
+import { PackedRTree } from './packedRTree';
+import {
+  FlatGeobufColumn,
+  FlatGeobufColumnType,
+  FlatGeobufGeometryType,
+  FlatGeobufHeader,
+  FlatGeobufReader,
+} from './flatGeobufReader';
+import { Envelope } from '../../geom/envelope';
+import { EnvelopeBuilder } from '../../geom/envelopeBuilder';
+
+/**
+ * Writes a FlatGeobuf file.  Features are encoded as they are added and, when the file is indexed, written in the
+ * Hilbert order of their envelopes followed by the packed Hilbert R-tree.
+ */
+export class FlatGeobufWriter {
+  private features: { data: Buffer; envelope: Envelope }[] = [];
+
+  /**
+   * @param header header of the file, the envelope and feature count are set when the file is built
+   */
+  constructor(public readonly header: FlatGeobufHeader) {}
+
+  /**
+   * Number of features added
+   */
+  get featureCount(): number {
+    return this.features.length;
+  }
+
+  /**
+   * Add a feature
+   * @param geometry geometry, may be null
+   * @param properties values by column name, null and undefined values are not written
+   */
+  addFeature(geometry: wkx.Geometry, properties: Record<string, any>): void {
+    const fields: FlatBufferValue[] = [];
+    if (geometry) {
+      fields[0] = { type: 'table', value: FlatGeobufWriter.getGeometryFields(geometry) };
+    }
+    const propertyData = FlatGeobufWriter.writeProperties(this.header.columns, properties);
+    if (propertyData.length > 0) {
+      fields[1] = { type: 'bytes', value: propertyData };
+    }
+    let envelope = PackedRTree.emptyEnvelope();
+    if (geometry && !FlatGeobufWriter.isEmpty(geometry)) {
+      envelope = EnvelopeBuilder.buildEnvelopeWithGeometry(geometry);
+    }
+    this.features.push({ data: FlatBufferBuilder.build(fields), envelope });
+  }
+
+  /**
+   * Build the file
+   * @return file contents
+   */
+  build(): Buffer {
+    const extent = PackedRTree.emptyEnvelope();
+    this.features.forEach(feature => PackedRTree.expand(extent, feature.envelope));
+    const indexed = this.header.indexNodeSize > 0 && this.features.length > 0;
+    const features = indexed
+      ? PackedRTree.getHilbertOrder(
+          this.features.map(feature => feature.envelope),
+          extent,
+        ).map(i => this.features[i])
+      : this.features;
+
+    const header = Object.assign({}, this.header, {
+      envelope: isFinite(extent.minX) ? [extent.minX, extent.minY, extent.maxX, extent.maxY] : undefined,
+      featuresCount: features.length,
+      indexNodeSize: indexed ? this.header.indexNodeSize : 0,
+    });
+    const buffers = [Buffer.from(FlatGeobufReader.MAGIC_BYTES), FlatGeobufWriter.buildHeader(header)];
+    if (indexed) {
+      const offsets: number[] = [];
+      let offset = 0;
+      features.forEach(feature => {
+        offsets.push(offset);
+        offset += feature.data.length;
+      });
+      buffers.push(
+        PackedRTree.build(
+          features.map(feature => feature.envelope),
+          offsets,
+          header.indexNodeSize,
+        ),
+      );
+    }
+    features.forEach(feature => buffers.push(feature.data));
+    return Buffer.concat(buffers);
+  }
+
+  /**
+   * Build the size prefixed header
+   * @param header header
+   * @return header buffer
+   */
+  static buildHeader(header: FlatGeobufHeader): Buffer {
+    const fields: FlatBufferValue[] = [];
+    if (header.name != null) {
+      fields[0] = { type: 'string', value: header.name };
+    }
+    if (header.envelope) {
+      fields[1] = { type: 'double[]', value: header.envelope };
+    }
+    fields[2] = { type: 'uint8', value: header.geometryType };
+    fields[3] = { type: 'bool', value: header.hasZ };
+    fields[4] = { type: 'bool', value: header.hasM };
+    if (header.columns.length > 0) {
+      fields[7] = { type: 'table[]', value: header.columns.map(FlatGeobufWriter.getColumnFields) };
+    }
+    fields[8] = { type: 'uint64', value: header.featuresCount };
+    fields[9] = { type: 'uint16', value: header.indexNodeSize };
+    if (header.crs) {
+      const crs: FlatBufferValue[] = [];
+      if (header.crs.org != null) {
+        crs[0] = { type: 'string', value: header.crs.org };
+      }
+      if (header.crs.code != null) {
+        crs[1] = { type: 'int32', value: header.crs.code };
+      }
+      if (header.crs.name != null) {
+        crs[2] = { type: 'string', value: header.crs.name };
+      }
+      if (header.crs.description != null) {
+        crs[3] = { type: 'string', value: header.crs.description };
+      }
+      if (header.crs.wkt != null) {
+        crs[4] = { type: 'string', value: header.crs.wkt };
+      }
+      if (header.crs.codeString != null) {
+        crs[5] = { type: 'string', value: header.crs.codeString };
+      }
+      fields[10] = { type: 'table', value: crs };
+    }
+    if (header.title != null) {
+      fields[11] = { type: 'string', value: header.title };
+    }
+    if (header.description != null) {
+      fields[12] = { type: 'string', value: header.description };
+    }
+    if (header.metadata != null) {
+      fields[13] = { type: 'string', value: header.metadata };
+    }
+    return FlatBufferBuilder.build(fields);
+  }
+
+  private static getColumnFields(column: FlatGeobufColumn): FlatBufferValue[] {
+    const fields: FlatBufferValue[] = [];
+    fields[0] = { type: 'string', value: column.name };
+    fields[1] = { type: 'uint8', value: column.type };
+    if (column.title != null) {
+      fields[2] = { type: 'string', value: column.title };
+    }
+    if (column.description != null) {
+      fields[3] = { type: 'string', value: column.description };
+    }
+    if (column.nullable === false) {
+      fields[7] = { type: 'bool', value: false };
+    }
+    if (column.unique) {
+      fields[8] = { type: 'bool', value: true };
+    }
+    if (column.primaryKey) {
+      fields[9] = { type: 'bool', value: true };
+    }
+    return fields;
+  }
+
+  /**
+   * Encode the property values of a feature
+   * @param columns columns of the feature
+   * @param properties values by column name
+   * @return encoded properties
+   */
+  static writeProperties(columns: FlatGeobufColumn[], properties: Record<string, any>): Buffer {
+    const buffers: Buffer[] = [];
+    columns.forEach((column, index) => {
+      const value = properties[column.name];
+      if (value == null) {
+        return;
+      }
+      let data: Buffer;
+      switch (column.type) {
+        case FlatGeobufColumnType.BYTE:
+          data = Buffer.alloc(1);
+          data.writeInt8(value, 0);
+          break;
+        case FlatGeobufColumnType.UBYTE:
+          data = Buffer.alloc(1);
+          data.writeUInt8(value, 0);
+          break;
+        case FlatGeobufColumnType.BOOL:
+          data = Buffer.alloc(1);
+          data.writeUInt8(value ? 1 : 0, 0);
+          break;
+        case FlatGeobufColumnType.SHORT:
+          data = Buffer.alloc(2);
+          data.writeInt16LE(value, 0);
+          break;
+        case FlatGeobufColumnType.USHORT:
+          data = Buffer.alloc(2);
+          data.writeUInt16LE(value, 0);
+          break;
+        case FlatGeobufColumnType.INT:
+          data = Buffer.alloc(4);
+          data.writeInt32LE(value, 0);
+          break;
+        case FlatGeobufColumnType.UINT:
+          data = Buffer.alloc(4);
+          data.writeUInt32LE(value, 0);
+          break;
+        case FlatGeobufColumnType.LONG:
+        case FlatGeobufColumnType.ULONG:
+          data = Buffer.alloc(8);
+          data.writeUInt32LE(((value % 0x100000000) + 0x100000000) % 0x100000000, 0);
+          data.writeInt32LE(Math.floor(value / 0x100000000), 4);
+          break;
+        case FlatGeobufColumnType.FLOAT:
+          data = Buffer.alloc(4);
+          data.writeFloatLE(value, 0);
+          break;
+        case FlatGeobufColumnType.DOUBLE:
+          data = Buffer.alloc(8);
+          data.writeDoubleLE(value, 0);
+          break;
+        default: {
+          let bytes: Buffer;
+          if (column.type === FlatGeobufColumnType.BINARY) {
+            bytes = Buffer.isBuffer(value) ? value : Buffer.from(value);
+          } else if (value instanceof Date) {
+            bytes = Buffer.from(value.toISOString(), 'utf8');
+          } else {
+            bytes = Buffer.from(value.toString(), 'utf8');
+          }
+          data = Buffer.alloc(4 + bytes.length);
+          data.writeUInt32LE(bytes.length, 0);
+          bytes.copy(data, 4);
+        }
+      }
+      const columnIndex = Buffer.alloc(2);
+      columnIndex.writeUInt16LE(index, 0);
+      buffers.push(columnIndex, data);
+    });
+    return Buffer.concat(buffers);
+  }
+
+  /**
+   * Get the fields of a geometry table
+   * @param geometry geometry
+   * @return geometry fields
+   */
+  static getGeometryFields(geometry: wkx.Geometry): FlatBufferValue[] {
+    const fields: FlatBufferValue[] = [];
+    fields[6] = { type: 'uint8', value: FlatGeobufWriter.getGeometryType(geometry) };
+    let points: wkx.Point[] = [];
+    let parts: wkx.Point[][] = [];
+    if (geometry instanceof wkx.Point) {
+      points = FlatGeobufWriter.isEmpty(geometry) ? [] : [geometry];
+    } else if (geometry instanceof wkx.LineString || geometry instanceof wkx.MultiPoint) {
+      points = geometry.points;
+    } else if (geometry instanceof wkx.Polygon) {
+      parts = geometry.exteriorRing.length ? [geometry.exteriorRing].concat(geometry.interiorRings) : [];
+    } else if (geometry instanceof wkx.MultiLineString) {
+      parts = geometry.lineStrings.map(lineString => lineString.points);
+    } else if (geometry instanceof wkx.MultiPolygon) {
+      fields[7] = { type: 'table[]', value: geometry.polygons.map(FlatGeobufWriter.getGeometryFields) };
+    } else if (geometry instanceof wkx.GeometryCollection) {
+      fields[7] = { type: 'table[]', value: geometry.geometries.map(FlatGeobufWriter.getGeometryFields) };
+    }
+    if (parts.length > 0) {
+      points = [].concat(...parts);
+      if (parts.length > 1) {
+        const ends: number[] = [];
+        parts.reduce((end, part) => {
+          ends.push(end + part.length);
+          return end + part.length;
+        }, 0);
+        fields[0] = { type: 'uint32[]', value: ends };
+      }
+    }
+    if (points.length > 0) {
+      fields[1] = { type: 'double[]', value: [].concat(...points.map(point => [point.x, point.y])) };
+      if (geometry.hasZ) {
+        fields[2] = { type: 'double[]', value: points.map(point => point.z) };
+      }
+      if (geometry.hasM) {
+        fields[3] = { type: 'double[]', value: points.map(point => point.m) };
+      }
+    }
+    return fields;
+  }
+
+  /**
+   * Get the FlatGeobuf geometry type of a geometry
+   * @param geometry geometry
+   * @return geometry type
+   */
+  static getGeometryType(geometry: wkx.Geometry): FlatGeobufGeometryType {
+    if (geometry instanceof wkx.Point) {
+      return FlatGeobufGeometryType.POINT;
+    } else if (geometry instanceof wkx.LineString) {
+      return FlatGeobufGeometryType.LINESTRING;
+    } else if (geometry instanceof wkx.Polygon) {
+      return FlatGeobufGeometryType.POLYGON;
+    } else if (geometry instanceof wkx.MultiPoint) {
+      return FlatGeobufGeometryType.MULTIPOINT;
+    } else if (geometry instanceof wkx.MultiLineString) {
+      return FlatGeobufGeometryType.MULTILINESTRING;
+    } else if (geometry instanceof wkx.MultiPolygon) {
+      return FlatGeobufGeometryType.MULTIPOLYGON;
+    } else if (geometry instanceof wkx.GeometryCollection) {
+      return FlatGeobufGeometryType.GEOMETRYCOLLECTION;
+    }
+    throw new Error('Unsupported geometry for FlatGeobuf: ' + geometry.constructor.name);
+  }
+
+  private static isEmpty(geometry: wkx.Geometry): boolean {
+    return geometry instanceof wkx.Point && (geometry.x === undefined || isNaN(geometry.x));
+  }
+}
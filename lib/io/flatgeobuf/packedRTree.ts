@@ -0,0 +1,253 @@
+/**
+ * FlatGeobuf spatial index
+ * @module io/flatgeobuf
+ */
+import { Envelope } from '../../geom/envelope';
+
+/**
+ * Range of node indices of a level of the tree
+ */
+interface LevelBounds {
+  start: number;
+  end: number;
+}
+
+/**
+ * The packed Hilbert R-tree of a FlatGeobuf file.  Nodes are stored top down, the root first and the leaves last, each
+ * as its bounds followed by an offset: the byte offset of the feature within the feature data for a leaf and the index
+ * of the first child node otherwise.
+ */
+export class PackedRTree {
+  public static readonly NODE_ITEM_LENGTH: number = 40;
+  public static readonly DEFAULT_NODE_SIZE: number = 16;
+  private static readonly HILBERT_MAX: number = 0xffff;
+
+  /**
+   * Get the size in bytes of the tree
+   * @param numItems number of features
+   * @param nodeSize maximum number of children of each node
+   * @return size
+   */
+  static size(numItems: number, nodeSize: number): number {
+    const levelBounds = PackedRTree.getLevelBounds(numItems, nodeSize);
+    return levelBounds[0].end * PackedRTree.NODE_ITEM_LENGTH;
+  }
+
+  /**
+   * Get the node index range of each level, leaves first
+   * @param numItems number of features
+   * @param nodeSize maximum number of children of each node
+   * @return level bounds
+   */
+  private static getLevelBounds(numItems: number, nodeSize: number): LevelBounds[] {
+    nodeSize = Math.min(Math.max(nodeSize, 2), 0xffff);
+    let n = numItems;
+    let numNodes = n;
+    const levelNumNodes = [n];
+    do {
+      n = Math.ceil(n / nodeSize);
+      numNodes += n;
+      levelNumNodes.push(n);
+    } while (n !== 1);
+    const levelBounds: LevelBounds[] = [];
+    n = numNodes;
+    levelNumNodes.forEach(levelSize => {
+      levelBounds.push({ start: n - levelSize, end: n });
+      n -= levelSize;
+    });
+    return levelBounds;
+  }
+
+  /**
+   * Build the tree
+   * @param envelopes envelopes of the features in the order they are written
+   * @param offsets byte offset of each feature within the feature data
+   * @param nodeSize maximum number of children of each node
+   * @return tree
+   */
+  static build(envelopes: Envelope[], offsets: number[], nodeSize: number): Buffer {
+    const levelBounds = PackedRTree.getLevelBounds(envelopes.length, nodeSize);
+    const numNodes = levelBounds[0].end;
+    const nodes: { envelope: Envelope; offset: number }[] = new Array(numNodes);
+    envelopes.forEach((envelope, i) => {
+      nodes[levelBounds[0].start + i] = { envelope, offset: offsets[i] };
+    });
+    for (let level = 0; level < levelBounds.length - 1; level++) {
+      let position = levelBounds[level].start;
+      let parent = levelBounds[level + 1].start;
+      while (position < levelBounds[level].end) {
+        const envelope = PackedRTree.emptyEnvelope();
+        const offset = position;
+        for (let i = 0; i < nodeSize && position < levelBounds[level].end; i++, position++) {
+          PackedRTree.expand(envelope, nodes[position].envelope);
+        }
+        nodes[parent++] = { envelope, offset };
+      }
+    }
+    const buffer = Buffer.alloc(numNodes * PackedRTree.NODE_ITEM_LENGTH);
+    nodes.forEach((node, i) => {
+      const position = i * PackedRTree.NODE_ITEM_LENGTH;
+      buffer.writeDoubleLE(node.envelope.minX, position);
+      buffer.writeDoubleLE(node.envelope.minY, position + 8);
+      buffer.writeDoubleLE(node.envelope.maxX, position + 16);
+      buffer.writeDoubleLE(node.envelope.maxY, position + 24);
+      buffer.writeUInt32LE(node.offset % 0x100000000, position + 32);
+      buffer.writeUInt32LE(Math.floor(node.offset / 0x100000000), position + 36);
+    });
+    return buffer;
+  }
+
+  /**
+   * Search the tree for the features intersecting the envelope
+   * @param numItems number of features
+   * @param nodeSize maximum number of children of each node
+   * @param envelope envelope to search
+   * @param readNodes reads a range of nodes of the tree
+   * @return byte offsets within the feature data of the features found, in file order
+   */
+  static async search(
+    numItems: number,
+    nodeSize: number,
+    envelope: Envelope,
+    readNodes: (index: number, count: number) => Promise<Buffer>,
+  ): Promise<number[]> {
+    const levelBounds = PackedRTree.getLevelBounds(numItems, nodeSize);
+    const leafNodesStart = levelBounds[0].start;
+    const offsets: number[] = [];
+    const queue: { index: number; level: number }[] = [{ index: 0, level: levelBounds.length - 1 }];
+    while (queue.length > 0) {
+      const { index, level } = queue.shift();
+      const end = Math.min(index + nodeSize, levelBounds[level].end);
+      const nodes = await readNodes(index, end - index);
+      for (let i = index; i < end; i++) {
+        const position = (i - index) * PackedRTree.NODE_ITEM_LENGTH;
+        if (
+          envelope.maxX < nodes.readDoubleLE(position) ||
+          envelope.maxY < nodes.readDoubleLE(position + 8) ||
+          envelope.minX > nodes.readDoubleLE(position + 16) ||
+          envelope.minY > nodes.readDoubleLE(position + 24)
+        ) {
+          continue;
+        }
+        const offset = nodes.readUInt32LE(position + 36) * 0x100000000 + nodes.readUInt32LE(position + 32);
+        if (index >= leafNodesStart) {
+          offsets.push(offset);
+        } else {
+          queue.push({ index: offset, level: level - 1 });
+        }
+      }
+    }
+    return offsets.sort((a, b) => a - b);
+  }
+
+  /**
+   * Get the order the features are written in, sorted by the Hilbert value of the center of their envelopes
+   * @param envelopes feature envelopes
+   * @param extent envelope of all features
+   * @return feature indices in Hilbert order
+   */
+  static getHilbertOrder(envelopes: Envelope[], extent: Envelope): number[] {
+    const width = extent.maxX - extent.minX;
+    const height = extent.maxY - extent.minY;
+    const values = envelopes.map(envelope => {
+      if (!isFinite(envelope.minX) || !isFinite(envelope.maxX)) {
+        return 0;
+      }
+      const x =
+        width > 0
+          ? Math.floor((PackedRTree.HILBERT_MAX * ((envelope.minX + envelope.maxX) / 2 - extent.minX)) / width)
+          : 0;
+      const y =
+        height > 0
+          ? Math.floor((PackedRTree.HILBERT_MAX * ((envelope.minY + envelope.maxY) / 2 - extent.minY)) / height)
+          : 0;
+      return PackedRTree.hilbert(x, y);
+    });
+    return envelopes.map((envelope, i) => i).sort((a, b) => values[a] - values[b] || a - b);
+  }
+
+  /**
+   * Get the Hilbert curve value of a cell of a 2^16 by 2^16 grid
+   * @param x cell column
+   * @param y cell row
+   * @return Hilbert value
+   */
+  static hilbert(x: number, y: number): number {
+    let a = x ^ y;
+    let b = 0xffff ^ a;
+    let c = 0xffff ^ (x | y);
+    let d = x & (y ^ 0xffff);
+
+    let A = a | (b >> 1);
+    let B = (a >> 1) ^ a;
+    let C = (c >> 1) ^ (b & (d >> 1)) ^ c;
+    let D = (a & (c >> 1)) ^ (d >> 1) ^ d;
+
+    a = A;
+    b = B;
+    c = C;
+    d = D;
+    A = (a & (a >> 2)) ^ (b & (b >> 2));
+    B = (a & (b >> 2)) ^ (b & ((a ^ b) >> 2));
+    C ^= (a & (c >> 2)) ^ (b & (d >> 2));
+    D ^= (b & (c >> 2)) ^ ((a ^ b) & (d >> 2));
+
+    a = A;
+    b = B;
+    c = C;
+    d = D;
+    A = (a & (a >> 4)) ^ (b & (b >> 4));
+    B = (a & (b >> 4)) ^ (b & ((a ^ b) >> 4));
+    C ^= (a & (c >> 4)) ^ (b & (d >> 4));
+    D ^= (b & (c >> 4)) ^ ((a ^ b) & (d >> 4));
+
+    a = A;
+    b = B;
+    c = C;
+    d = D;
+    C ^= (a & (c >> 8)) ^ (b & (d >> 8));
+    D ^= (b & (c >> 8)) ^ ((a ^ b) & (d >> 8));
+
+    a = C ^ (C >> 1);
+    b = D ^ (D >> 1);
+
+    let i0 = x ^ y;
+    let i1 = b | (0xffff ^ (i0 | a));
+
+    i0 = (i0 | (i0 << 8)) & 0x00ff00ff;
+    i0 = (i0 | (i0 << 4)) & 0x0f0f0f0f;
+    i0 = (i0 | (i0 << 2)) & 0x33333333;
+    i0 = (i0 | (i0 << 1)) & 0x55555555;
+
+    i1 = (i1 | (i1 << 8)) & 0x00ff00ff;
+    i1 = (i1 | (i1 << 4)) & 0x0f0f0f0f;
+    i1 = (i1 | (i1 << 2)) & 0x33333333;
+    i1 = (i1 | (i1 << 1)) & 0x55555555;
+
+    return ((i1 << 1) | i0) >>> 0;
+  }
+
+  /**
+   * Get an envelope that contains nothing, expanded by the envelopes of the children of a node
+   */
+  static emptyEnvelope(): Envelope {
+    const envelope = new Envelope();
+    envelope.minX = Infinity;
+    envelope.minY = Infinity;
+    envelope.maxX = -Infinity;
+    envelope.maxY = -Infinity;
+    return envelope;
+  }
+
+  /**
+   * Expand an envelope to contain another
+   * @param envelope envelope to expand
+   * @param other envelope to contain
+   */
+  static expand(envelope: Envelope, other: Envelope): void {
+    envelope.minX = Math.min(envelope.minX, other.minX);
+    envelope.minY = Math.min(envelope.minY, other.minY);
+    envelope.maxX = Math.max(envelope.maxX, other.maxX);
+    envelope.maxY = Math.max(envelope.maxY, other.maxY);
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * GeoJSON export
+ * @module io/geojson
+ */
+// @ts-ignore
+import reproject from 'reproject';
+import turfBbox from '@turf/bbox';
+import { Writable } from 'stream';
+import { BBox, Feature, Geometry, GeoJsonProperties } from 'geojson';
+
+import { GeoPackage } from '../../geoPackage';
+import { GeoJSONSchema } from './geoJSONSchema';
+import { FeatureDao } from '../../features/user/featureDao';
+import { FeatureRow } from '../../features/user/featureRow';
+import { BoundingBox } from '../../boundingBox';
+import { Envelope } from '../../geom/envelope';
+import { EnvelopeBuilder } from '../../geom/envelopeBuilder';
+import { ProjectionConstants } from '../../projection/projectionConstants';
+
+/**
+ * Options for a GeoJSON export
+ */
+export interface GeoJSONExportOptions {
+  /**
+   * only export features intersecting this EPSG:4326 bounding box
+   */
+  boundingBox?: BoundingBox;
+  /**
+   * projection of the exported coordinates. Defaults to EPSG:4326 as required by RFC 7946.
+   */
+  projection?: string;
+  /**
+   * names of the columns exported as properties. Defaults to every column other than the primary key, geometry and
+   * feature id columns.
+   */
+  properties?: string[];
+  /**
+   * column the feature id is read from. Defaults to the `_feature_id` column written by the GeoJSON import if the
+   * table has one, otherwise the primary key.
+   */
+  idColumn?: string;
+  /**
+   * number of decimal places coordinates are rounded to
+   */
+  precision?: number;
+  /**
+   * write `bbox` members on each feature and the FeatureCollection
+   */
+  bbox?: boolean;
+}
+
+/**
+ * Exports a feature table as a GeoJSON FeatureCollection.  The document is produced in chunks one feature at a time so
+ * tables of any size can be written without holding every feature in memory.
+ */
+export class GeoJSONExporter {
+  /**
+   * @param geoPackage GeoPackage to export from
+   */
+  constructor(public readonly geoPackage: GeoPackage) {}
+
+  /**
+   * Iterate the features of the table converted to GeoJSON
+   * @param tableName feature table name
+   * @param options export options
+   * @return iterable of GeoJSON features
+   */
+  *iterateFeatures(tableName: string, options: GeoJSONExportOptions = {}): IterableIterator<Feature> {
+    const featureDao = this.geoPackage.getFeatureDao(tableName);
+    const projection = options.projection || ProjectionConstants.EPSG_4326;
+    const srs = featureDao.srs;
+    const reprojectionNeeded =
+      (srs.organization + ':' + srs.organization_coordsys_id).toUpperCase() !== projection.toUpperCase();
+    const idColumn = GeoJSONExporter.getIdColumn(featureDao, options);
+    const propertyColumns = GeoJSONExporter.getPropertyColumns(featureDao, idColumn, options);
+    const envelope = options.boundingBox
+      ? options.boundingBox.projectBoundingBox(ProjectionConstants.EPSG_4326, featureDao.projection).buildEnvelope()
+      : undefined;
+
+    let rows: IterableIterator<Record<string, any>>;
+    if (envelope && featureDao.isIndexed()) {
+      rows = featureDao.featureTableIndex.queryWithGeometryEnvelope(envelope);
+    } else {
+      rows = featureDao.queryForEach();
+    }
+    for (const row of rows) {
+      const featureRow = featureDao.getRow(row);
+      const geometryData = featureRow.geometry;
+      if (envelope && !featureDao.isIndexed()) {
+        if (!geometryData || !geometryData.geometry) {
+          continue;
+        }
+        const geometryEnvelope =
+          geometryData.envelope || EnvelopeBuilder.buildEnvelopeWithGeometry(geometryData.geometry);
+        if (!GeoJSONExporter.intersects(envelope, geometryEnvelope)) {
+          continue;
+        }
+      }
+      let geometry: Geometry =
+        geometryData && geometryData.geometry ? ((geometryData.toGeoJSON() as unknown) as Geometry) : null;
+      if (geometry && GeoJSONExporter.isEmpty(geometry)) {
+        geometry = null;
+      }
+      if (geometry) {
+        if (reprojectionNeeded) {
+          geometry = reproject.reproject(geometry, featureDao.projection, projection);
+        }
+        if (options.precision != null) {
+          geometry = GeoJSONExporter.roundGeometry(geometry, options.precision);
+        }
+      }
+      const properties: GeoJsonProperties = {};
+      propertyColumns.forEach(columnName => {
+        properties[GeoJSONExporter.getPropertyName(columnName)] = GeoJSONExporter.toPropertyValue(
+          featureRow.getValueWithColumnName(columnName),
+        );
+      });
+      const feature: Feature = {
+        type: 'Feature',
+        id: featureRow.getValueWithColumnName(idColumn),
+        geometry: geometry,
+        properties: properties,
+      };
+      if (feature.id === null || feature.id === undefined) {
+        delete feature.id;
+      }
+      if (options.bbox && geometry) {
+        feature.bbox = turfBbox(geometry) as BBox;
+      }
+      yield feature;
+    }
+  }
+
+  /**
+   * Iterate the text of the FeatureCollection document.  Each chunk is one feature, the last chunk closes the
+   * collection and contains its `bbox` member if requested.
+   * @param tableName feature table name
+   * @param options export options
+   * @return iterable of document chunks
+   */
+  *exportGeoJSON(tableName: string, options: GeoJSONExportOptions = {}): IterableIterator<string> {
+    let bbox: number[];
+    let first = true;
+    yield '{"type":"FeatureCollection","features":[';
+    for (const feature of this.iterateFeatures(tableName, options)) {
+      if (feature.bbox) {
+        bbox = GeoJSONExporter.expandBbox(bbox, feature.bbox);
+      }
+      yield (first ? '' : ',') + JSON.stringify(feature);
+      first = false;
+    }
+    yield ']' + (bbox ? ',"bbox":' + JSON.stringify(bbox) : '') + '}';
+  }
+
+  /**
+   * Write the FeatureCollection document to a writable stream, waiting for the stream to drain as needed.  The stream
+   * is not ended.  Only available in Node.
+   * @param tableName feature table name
+   * @param stream stream to write to
+   * @param options export options
+   * @return number of features written
+   */
+  async exportGeoJSONToStream(
+    tableName: string,
+    stream: Writable,
+    options: GeoJSONExportOptions = {},
+  ): Promise<number> {
+    let chunks = 0;
+    for (const chunk of this.exportGeoJSON(tableName, options)) {
+      chunks++;
+      if (!stream.write(chunk)) {
+        await GeoJSONExporter.drain(stream);
+      }
+    }
+    // the opening and closing chunks are not features
+    return chunks - 2;
+  }
+
+  /**
+   * Wait for a stream to drain
+   * @param stream stream
+   * @return resolves when the stream drains, rejects when it errors or closes first
+   */
+  private static drain(stream: Writable): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const listeners: Record<string, (error?: Error) => void> = {};
+      const settle = (error?: Error): void => {
+        Object.keys(listeners).forEach(event => stream.removeListener(event, listeners[event]));
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+      listeners.drain = (): void => settle();
+      listeners.error = (error: Error): void => settle(error);
+      listeners.close = (): void => settle(new Error('The stream closed before it drained'));
+      Object.keys(listeners).forEach(event => stream.on(event, listeners[event]));
+    });
+  }
+
+  /**
+   * Get the column the feature id is read from
+   * @param featureDao feature dao
+   * @param options export options
+   * @return id column name
+   */
+  private static getIdColumn(featureDao: FeatureDao<FeatureRow>, options: GeoJSONExportOptions): string {
+    const columns = featureDao.table.getUserColumns();
+    if (options.idColumn) {
+      if (!columns.hasColumn(options.idColumn)) {
+        throw new Error('Id column does not exist in table ' + featureDao.gpkgTableName + ': ' + options.idColumn);
+      }
+      return columns.getColumn(options.idColumn).getName();
+    }
+    if (columns.hasColumn(GeoJSONSchema.FEATURE_ID_COLUMN)) {
+      return columns.getColumn(GeoJSONSchema.FEATURE_ID_COLUMN).getName();
+    }
+    return columns.getPkColumnName();
+  }
+
+  /**
+   * Get the columns exported as properties
+   * @param featureDao feature dao
+   * @param idColumn id column name
+   * @param options export options
+   * @return column names
+   */
+  private static getPropertyColumns(
+    featureDao: FeatureDao<FeatureRow>,
+    idColumn: string,
+    options: GeoJSONExportOptions,
+  ): string[] {
+    const columns = featureDao.table.getUserColumns();
+    if (options.properties) {
+      return options.properties.map(columnName => {
+        if (!columns.hasColumn(columnName)) {
+          throw new Error('Property column does not exist in table ' + featureDao.gpkgTableName + ': ' + columnName);
+        }
+        return columns.getColumn(columnName).getName();
+      });
+    }
+    const excluded = [
+      columns.getPkColumnName(),
+      featureDao.getGeometryColumnName(),
+      idColumn,
+      GeoJSONSchema.FEATURE_ID_COLUMN,
+    ].map(columnName => columnName.toLowerCase());
+    return columns.getColumnNames().filter(columnName => excluded.indexOf(columnName.toLowerCase()) === -1);
+  }
+
+  /**
+   * Get the property name of the column, reversing the renaming done by the GeoJSON import
+   * @param columnName column name
+   * @return property name
+   */
+  private static getPropertyName(columnName: string): string {
+    return columnName.toLowerCase() === GeoJSONSchema.PROPERTIES_ID_COLUMN ? 'id' : columnName;
+  }
+
+  private static toPropertyValue(value: any): any {
+    if (value instanceof Buffer) {
+      return value.toString('base64');
+    }
+    return value === undefined ? null : value;
+  }
+
+  private static isEmpty(geometry: Geometry): boolean {
+    return geometry.type === 'Point' && (geometry.coordinates == null || geometry.coordinates.length === 0);
+  }
+
+  private static intersects(envelope: Envelope, other: Envelope): boolean {
+    return (
+      envelope.minX <= other.maxX &&
+      envelope.maxX >= other.minX &&
+      envelope.minY <= other.maxY &&
+      envelope.maxY >= other.minY
+    );
+  }
+
+  /**
+   * Round the coordinates of the geometry
+   * @param geometry GeoJSON geometry
+   * @param precision number of decimal places
+   * @return rounded geometry
+   */
+  static roundGeometry(geometry: Geometry, precision: number): Geometry {
+    const factor = Math.pow(10, precision);
+    const round = (coordinates: any): any => {
+      if (typeof coordinates === 'number') {
+        return Math.round(coordinates * factor) / factor;
+      }
+      return coordinates.map(round);
+    };
+    if (geometry.type === 'GeometryCollection') {
+      return {
+        ...geometry,
+        geometries: geometry.geometries.map(child => GeoJSONExporter.roundGeometry(child, precision)),
+      };
+    }
+    return { ...geometry, coordinates: round(geometry.coordinates) } as Geometry;
+  }
+
+  private static expandBbox(bbox: number[], other: number[]): number[] {
+    if (!bbox) {
+      return other.slice();
+    }
+    return [
+      Math.min(bbox[0], other[0]),
+      Math.min(bbox[1], other[1]),
+      Math.max(bbox[2], other[2]),
+      Math.max(bbox[3], other[3]),
+    ];
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * GeoJSON feature reader
+ * @module io/geojson
+ */
+import fs from 'fs';
+import { Feature } from 'geojson';
+
+/**
+ * Incrementally reads the features of a GeoJSON FeatureCollection document.
+ * Chunks of the document are pushed in as they become available and each
+ * complete member of the top level `features` array is parsed on its own, so
+ * the whole document never has to be held in memory.
+ */
+export class GeoJSONFeatureReader {
+  /**
+   * Size of the chunks read from a file
+   */
+  public static readonly READ_CHUNK_SIZE: number = 1024 * 1024;
+
+  /**
+   * Current nesting depth of objects and arrays
+   */
+  private depth = 0;
+  /**
+   * True while inside of a string literal
+   */
+  private inString = false;
+  /**
+   * True if the previous character was an escape character within a string
+   */
+  private escaped = false;
+  /**
+   * Contents of the string literal currently being read at depth 1
+   */
+  private currentString: string = null;
+  /**
+   * Last completed string at depth 1, it becomes a key if followed by a colon
+   */
+  private lastString: string = null;
+  /**
+   * Last key read from the top level object
+   */
+  private lastKey: string = null;
+  /**
+   * True while inside of the top level features array
+   */
+  private inFeatures = false;
+  /**
+   * Text of the feature currently being read
+   */
+  private featureText: string = null;
+
+  /**
+   * Push the next chunk of the document into the reader
+   * @param chunk next chunk of the GeoJSON document
+   * @return features completed by this chunk
+   */
+  push(chunk: string): Feature[] {
+    const features: Feature[] = [];
+    let featureStart = this.featureText != null ? 0 : -1;
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk.charAt(i);
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (c === '\\') {
+          this.escaped = true;
+        } else if (c === '"') {
+          this.inString = false;
+          if (this.currentString != null) {
+            this.lastString = this.currentString;
+            this.currentString = null;
+          }
+        }
+        if (this.currentString != null && this.inString) {
+          this.currentString += c;
+        }
+        continue;
+      }
+      switch (c) {
+        case '"':
+          this.inString = true;
+          if (this.depth === 1) {
+            this.currentString = '';
+          }
+          break;
+        case ':':
+          if (this.depth === 1) {
+            this.lastKey = this.lastString;
+          }
+          break;
+        case '{':
+        case '[':
+          this.depth++;
+          if (this.depth === 2 && c === '[' && this.lastKey === 'features') {
+            this.inFeatures = true;
+          } else if (this.depth === 3 && this.inFeatures && c === '{') {
+            featureStart = i;
+            this.featureText = '';
+          }
+          break;
+        case '}':
+        case ']':
+          if (this.depth === 3 && this.featureText != null && c === '}') {
+            features.push(JSON.parse(this.featureText + chunk.substring(featureStart, i + 1)));
+            this.featureText = null;
+            featureStart = -1;
+          } else if (this.depth === 2 && this.inFeatures) {
+            this.inFeatures = false;
+          }
+          this.depth--;
+          break;
+        default:
+          break;
+      }
+    }
+    if (this.featureText != null && featureStart !== -1) {
+      this.featureText += chunk.substring(featureStart);
+    }
+    return features;
+  }
+
+  /**
+   * Verify the whole document was read
+   */
+  end(): void {
+    if (this.depth !== 0 || this.inString) {
+      throw new Error('Unexpected end of GeoJSON document');
+    }
+  }
+
+  /**
+   * Read the features of a FeatureCollection from a file, one at a time.  Only available in Node.
+   * @param filePath path to the GeoJSON file
+   * @return async iterable of the features in the file
+   */
+  static async *readFile(filePath: string): AsyncIterableIterator<Feature> {
+    const reader = new GeoJSONFeatureReader();
+    const stream = fs.createReadStream(filePath, {
+      encoding: 'utf8',
+      highWaterMark: GeoJSONFeatureReader.READ_CHUNK_SIZE,
+    });
+    for await (const chunk of stream) {
+      const features = reader.push(chunk as string);
+      for (let i = 0; i < features.length; i++) {
+        yield features[i];
+      }
+    }
+    reader.end();
+  }
+}
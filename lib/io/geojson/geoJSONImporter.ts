@@ -0,0 +1,407 @@
+/**
+ * GeoJSON import
+ * @module io/geojson
+ */
+import wkx from 'wkx';
+// @ts-ignore
+import reproject from 'reproject';
+import { Feature, FeatureCollection } from 'geojson';
+
+import { GeoPackage } from '../../geoPackage';
+import { GeoJSONSchema } from './geoJSONSchema';
+import { GeoJSONFeatureReader } from './geoJSONFeatureReader';
+import { FeatureDao } from '../../features/user/featureDao';
+import { FeatureRow } from '../../features/user/featureRow';
+import { FeatureColumn } from '../../features/user/featureColumn';
+import { GeometryColumns } from '../../features/columns/geometryColumns';
+import { GeometryColumnsDao } from '../../features/columns/geometryColumnsDao';
+import { GeometryType } from '../../features/user/geometryType';
+import { GeometryData } from '../../geom/geometryData';
+import { Envelope } from '../../geom/envelope';
+import { EnvelopeBuilder } from '../../geom/envelopeBuilder';
+import { GeoJSONMeasures } from '../../geom/geoJSONMeasures';
+import { SqliteQueryBuilder } from '../../db/sqliteQueryBuilder';
+import { ProjectionConstants } from '../../projection/projectionConstants';
+import { IOUtils } from '../ioUtils';
+import { DBValue } from '../../db/dbAdapter';
+
+/**
+ * Sources a GeoJSON import can read features from: a FeatureCollection, an array of features, the path to a
+ * FeatureCollection file (Node only) or an iterable or async iterable of features
+ */
+export type GeoJSONSource = FeatureCollection | Feature[] | string | Iterable<Feature> | AsyncIterable<Feature>;
+
+/**
+ * Options for a GeoJSON import
+ */
+export interface GeoJSONImportOptions {
+  /**
+   * srs id of the created table, features are reprojected from EPSG:4326 if it differs. Defaults to 4326.
+   */
+  srsId?: number;
+  /**
+   * name of the geometry column. Defaults to `geometry`.
+   */
+  geometryColumnName?: string;
+  /**
+   * geometry type of the table. Inferred from the features if not specified.
+   */
+  geometryType?: GeometryType;
+  /**
+   * number of features inserted in a single transaction. Defaults to 1000.
+   */
+  batchSize?: number;
+  /**
+   * number of features read from an iterable source to infer the schema before the table is created. Properties
+   * first seen after the sample are added as new columns, and the column types and the geometry type are widened to
+   * hold the features after the sample. Defaults to 1000.
+   */
+  sampleSize?: number;
+  /**
+   * index the table once all features are inserted
+   */
+  index?: boolean;
+  /**
+   * called after each batch is inserted with the number of features added so far
+   */
+  progress?: (featuresAdded: number) => void;
+  /**
+   * called as each feature is inserted with the id of its row
+   */
+  featureInserted?: (feature: Feature, featureId: number) => void;
+}
+
+/**
+ * Imports GeoJSON features into a new feature table.  The columns and geometry type of the table are inferred from
+ * the features, features are inserted in batched transactions and the contents bounds are set from the inserted
+ * geometries.
+ */
+export class GeoJSONImporter {
+  public static readonly DEFAULT_BATCH_SIZE: number = 1000;
+  public static readonly DEFAULT_SAMPLE_SIZE: number = 1000;
+  public static readonly DEFAULT_GEOMETRY_COLUMN: string = 'geometry';
+
+  /**
+   * @param geoPackage GeoPackage to import into
+   */
+  constructor(public readonly geoPackage: GeoPackage) {}
+
+  /**
+   * Import the GeoJSON features into a new feature table
+   * @param source features to import
+   * @param tableName name of the feature table to create
+   * @param options import options
+   * @return number of features inserted
+   */
+  async importGeoJSON(source: GeoJSONSource, tableName: string, options: GeoJSONImportOptions = {}): Promise<number> {
+    if (this.geoPackage.isTable(tableName)) {
+      throw new Error('Table already exists: ' + tableName);
+    }
+    const srsId = options.srsId != null ? options.srsId : ProjectionConstants.EPSG_CODE_4326;
+    const batchSize = options.batchSize || GeoJSONImporter.DEFAULT_BATCH_SIZE;
+    const schema = new GeoJSONSchema();
+    let features: AsyncIterable<Feature>;
+    let inferWhileInserting = false;
+    if (typeof source === 'string') {
+      // read the file once to build the schema and again to insert
+      for await (const feature of GeoJSONFeatureReader.readFile(source)) {
+        schema.addFeature(feature);
+      }
+      features = GeoJSONFeatureReader.readFile(source);
+    } else if (Array.isArray(source) || GeoJSONImporter.isFeatureCollection(source)) {
+      const featureArray = Array.isArray(source) ? source : (source as FeatureCollection).features;
+      featureArray.forEach(feature => schema.addFeature(feature));
+      features = GeoJSONImporter.toAsyncIterable(featureArray);
+    } else {
+      // only a sample of the source can be read before the table is created
+      const iterator = GeoJSONImporter.toAsyncIterable(source as Iterable<Feature> | AsyncIterable<Feature>)[
+        Symbol.asyncIterator
+      ]();
+      const sampleSize = options.sampleSize || GeoJSONImporter.DEFAULT_SAMPLE_SIZE;
+      const sample: Feature[] = [];
+      let next = sample.length < sampleSize ? await iterator.next() : undefined;
+      while (next && !next.done) {
+        sample.push(next.value);
+        schema.addFeature(next.value);
+        next = sample.length < sampleSize ? await iterator.next() : undefined;
+      }
+      features = GeoJSONImporter.concat(sample, next ? undefined : iterator);
+      inferWhileInserting = true;
+    }
+
+    return IOUtils.deleteTablesOnError(this.geoPackage, [tableName], async () => {
+      const featureDao = this.createTable(tableName, schema, srsId, options);
+      const inserted = await this.insertFeatures(featureDao, features, schema, inferWhileInserting, batchSize, options);
+      if (options.index) {
+        await featureDao.index();
+      }
+      return inserted;
+    });
+  }
+
+  /**
+   * Create the feature table for the schema
+   * @param tableName table name
+   * @param schema inferred schema
+   * @param srsId srs id of the table
+   * @param options import options
+   * @return feature dao for the new table
+   */
+  private createTable(
+    tableName: string,
+    schema: GeoJSONSchema,
+    srsId: number,
+    options: GeoJSONImportOptions,
+  ): FeatureDao<FeatureRow> {
+    const geometryType = options.geometryType != null ? options.geometryType : schema.getGeometryType();
+    const geometryColumns = new GeometryColumns();
+    geometryColumns.table_name = tableName;
+    geometryColumns.column_name = options.geometryColumnName || GeoJSONImporter.DEFAULT_GEOMETRY_COLUMN;
+    geometryColumns.geometry_type_name = GeometryType.nameFromType(geometryType);
+    geometryColumns.z = schema.hasZ ? 2 : 0;
+    geometryColumns.m = schema.hasM ? 2 : 0;
+
+    const geometryColumnIndex = schema
+      .getColumnNames()
+      .findIndex(columnName => columnName.toLowerCase() === geometryColumns.column_name.toLowerCase());
+    if (geometryColumnIndex !== -1) {
+      throw new Error(
+        'Property ' +
+          schema.getColumnNames()[geometryColumnIndex] +
+          ' conflicts with the geometry column name, specify a different geometryColumnName',
+      );
+    }
+
+    const columns: FeatureColumn[] = [];
+    columns.push(FeatureColumn.createPrimaryKeyColumn(0, 'id'));
+    columns.push(FeatureColumn.createGeometryColumn(1, geometryColumns.column_name, geometryType, false, null));
+    columns.push(...schema.buildColumns(columns.length));
+    this.geoPackage.createFeatureTable(tableName, geometryColumns, columns, undefined, srsId);
+    return this.geoPackage.getFeatureDao(tableName);
+  }
+
+  /**
+   * Insert the features in batched transactions
+   * @param featureDao feature dao of the table
+   * @param features features to insert
+   * @param schema schema of the table
+   * @param inferWhileInserting true if the schema was built from a sample and may need columns added
+   * @param batchSize number of features per transaction
+   * @param options import options
+   * @return number of features inserted
+   */
+  private async insertFeatures(
+    featureDao: FeatureDao<FeatureRow>,
+    features: AsyncIterable<Feature>,
+    schema: GeoJSONSchema,
+    inferWhileInserting: boolean,
+    batchSize: number,
+    options: GeoJSONImportOptions,
+  ): Promise<number> {
+    const srs = featureDao.srs;
+    const reprojectionNeeded = !(
+      srs.organization === ProjectionConstants.EPSG &&
+      srs.organization_coordsys_id === ProjectionConstants.EPSG_CODE_4326
+    );
+    // empty geometry when none is present
+    const emptyPoint = wkx.Geometry.parse('POINT EMPTY');
+    let bounds: Envelope;
+
+    const insertBatch = (batch: Feature[]): number => {
+      if (inferWhileInserting) {
+        const addedColumns: string[] = [];
+        batch.forEach(feature => addedColumns.push(...schema.addFeature(feature)));
+        this.widenTable(featureDao, schema, options);
+        schema
+          .buildColumns(
+            featureDao.table.getColumnCount(),
+            addedColumns.filter(columnName => !featureDao.table.getUserColumns().hasColumn(columnName)),
+          )
+          .forEach(column => featureDao.addColumn(column));
+      }
+      const insertSql = SqliteQueryBuilder.buildInsert("'" + featureDao.gpkgTableName + "'", featureDao.newRow());
+      featureDao.connection.transaction(() => {
+        const insertStatement = featureDao.connection.adapter.prepareStatement(insertSql);
+        for (let i = 0; i < batch.length; i++) {
+          const feature = batch[i];
+          const featureRow = featureDao.newRow();
+          const geometryData = new GeometryData();
+          geometryData.setSrsId(srs.srs_id);
+          let geometry = GeoJSONSchema.getGeometry(feature);
+          if (geometry) {
+            if (reprojectionNeeded) {
+              geometry = reproject.reproject(geometry, ProjectionConstants.EPSG_4326, featureDao.projection);
+            }
+            const wkbGeometry = GeoJSONMeasures.parseGeoJSON(geometry);
+            geometryData.setGeometry(wkbGeometry);
+            const envelope = EnvelopeBuilder.buildEnvelopeWithGeometryDimensions(wkbGeometry);
+            if (envelope) {
+              geometryData.setEnvelope(envelope);
+              bounds = GeoJSONImporter.expandEnvelope(bounds, envelope);
+            }
+          } else {
+            geometryData.setGeometry(emptyPoint);
+          }
+          featureDao.checkGeometry(geometryData);
+          featureRow.geometry = geometryData;
+          if (feature.id !== undefined && feature.id !== null) {
+            this.setValue(featureRow, GeoJSONSchema.FEATURE_ID_COLUMN, feature.id);
+          }
+          for (const key in feature.properties) {
+            if (Object.prototype.hasOwnProperty.call(feature.properties, key)) {
+              this.setValue(featureRow, GeoJSONSchema.getColumnName(key), feature.properties[key]);
+            }
+          }
+          const featureId = featureDao.connection.adapter.bindAndInsert(
+            insertStatement,
+            SqliteQueryBuilder.buildUpdateOrInsertObject(featureRow),
+          );
+          if (options.featureInserted) {
+            options.featureInserted(feature, featureId);
+          }
+        }
+        featureDao.connection.adapter.closeStatement(insertStatement);
+      });
+      return batch.length;
+    };
+
+    const inserted = await IOUtils.insertBatches(features, batchSize, insertBatch, options.progress);
+    if (bounds) {
+      IOUtils.updateContentsBounds(this.geoPackage, featureDao.gpkgTableName, bounds);
+    }
+    return inserted;
+  }
+
+  /**
+   * Widen the column types and the geometry type of a table created from a sample of the features to hold the
+   * features read since
+   * @param featureDao feature dao of the table
+   * @param schema schema of the features read so far
+   * @param options import options
+   */
+  private widenTable(featureDao: FeatureDao<FeatureRow>, schema: GeoJSONSchema, options: GeoJSONImportOptions): void {
+    const userColumns = featureDao.table.getUserColumns();
+    const widenedColumns = schema
+      .getColumnNames()
+      .filter(columnName => userColumns.hasColumn(columnName) && schema.getDataType(columnName) != null)
+      .map(columnName => userColumns.getColumn(columnName))
+      .filter(column => GeoJSONSchema.widen(column.dataType, schema.getDataType(column.getName())) !== column.dataType)
+      .map(column =>
+        FeatureColumn.createColumn(
+          column.getIndex(),
+          column.getName(),
+          GeoJSONSchema.widen(column.dataType, schema.getDataType(column.getName())),
+        ),
+      );
+    const geometryColumns = featureDao.geometryColumns;
+    const geometryType = GeometryType.fromName(geometryColumns.geometry_type_name);
+    const widenGeometryType =
+      options.geometryType == null &&
+      geometryType !== GeometryType.GEOMETRY &&
+      schema.getGeometryType() !== geometryType;
+    if (widenGeometryType) {
+      const geometryColumn = featureDao.table.getGeometryColumn();
+      widenedColumns.push(
+        FeatureColumn.createGeometryColumn(
+          geometryColumn.getIndex(),
+          geometryColumn.getName(),
+          GeometryType.GEOMETRY,
+          geometryColumn.isNotNull(),
+          geometryColumn.getDefaultValue(),
+        ),
+      );
+    }
+    if (widenedColumns.length > 0) {
+      featureDao.alterColumns(widenedColumns);
+    }
+    const widenZ = schema.hasZ && geometryColumns.z === 0;
+    const widenM = schema.hasM && geometryColumns.m === 0;
+    if (widenGeometryType || widenZ || widenM) {
+      if (widenGeometryType) {
+        geometryColumns.geometry_type_name = GeometryType.nameFromType(GeometryType.GEOMETRY);
+      }
+      if (widenZ) {
+        geometryColumns.z = 2;
+      }
+      if (widenM) {
+        geometryColumns.m = 2;
+      }
+      const geometryColumnsDao = this.geoPackage.geometryColumnsDao;
+      const values: Record<string, DBValue> = {};
+      values[GeometryColumnsDao.COLUMN_GEOMETRY_TYPE_NAME] = geometryColumns.geometry_type_name;
+      values[GeometryColumnsDao.COLUMN_Z] = geometryColumns.z;
+      values[GeometryColumnsDao.COLUMN_M] = geometryColumns.m;
+      const where =
+        geometryColumnsDao.buildWhereWithFieldAndValue(
+          GeometryColumnsDao.COLUMN_TABLE_NAME,
+          geometryColumns.table_name,
+        ) +
+        ' and ' +
+        geometryColumnsDao.buildWhereWithFieldAndValue(
+          GeometryColumnsDao.COLUMN_COLUMN_NAME,
+          geometryColumns.column_name,
+        );
+      geometryColumnsDao.updateWithValues(
+        values,
+        where,
+        geometryColumnsDao.buildWhereArgs([geometryColumns.table_name, geometryColumns.column_name]),
+      );
+    }
+  }
+
+  /**
+   * Set a property value on the row if the table has a column for it
+   * @param featureRow feature row
+   * @param columnName column name
+   * @param value property value
+   */
+  private setValue(featureRow: FeatureRow, columnName: string, value: any): void {
+    const columns = featureRow.table.getUserColumns();
+    if (columns.hasColumn(columnName)) {
+      const column = columns.getColumn(columnName);
+      featureRow.setValueWithColumnName(column.getName(), GeoJSONSchema.toColumnValue(value, column.dataType));
+    }
+  }
+
+  /**
+   * Expand the envelope to include another
+   * @param envelope envelope to expand, may be undefined
+   * @param other envelope to include
+   * @return expanded envelope
+   */
+  static expandEnvelope(envelope: Envelope, other: Envelope): Envelope {
+    if (!envelope) {
+      return { minX: other.minX, minY: other.minY, maxX: other.maxX, maxY: other.maxY };
+    }
+    envelope.minX = Math.min(envelope.minX, other.minX);
+    envelope.minY = Math.min(envelope.minY, other.minY);
+    envelope.maxX = Math.max(envelope.maxX, other.maxX);
+    envelope.maxY = Math.max(envelope.maxY, other.maxY);
+    return envelope;
+  }
+
+  private static isFeatureCollection(source: any): source is FeatureCollection {
+    return source != null && source.type === 'FeatureCollection' && Array.isArray(source.features);
+  }
+
+  private static async *toAsyncIterable(
+    source: Iterable<Feature> | AsyncIterable<Feature>,
+  ): AsyncIterableIterator<Feature> {
+    for await (const feature of source) {
+      yield feature;
+    }
+  }
+
+  private static async *concat(sample: Feature[], rest?: AsyncIterator<Feature>): AsyncIterableIterator<Feature> {
+    for (let i = 0; i < sample.length; i++) {
+      yield sample[i];
+    }
+    if (rest) {
+      let next = await rest.next();
+      while (!next.done) {
+        yield next.value;
+        next = await rest.next();
+      }
+    }
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * GeoJSON schema inference
+ * @module io/geojson
+ */
+import { Feature, Geometry, Position } from 'geojson';
+import { GeoPackageDataType } from '../../db/geoPackageDataType';
+import { GeometryType } from '../../features/user/geometryType';
+import { FeatureColumn } from '../../features/user/featureColumn';
+import { GeoJSONMeasures } from '../../geom/geoJSONMeasures';
+
+/**
+ * Infers the feature table schema of a set of GeoJSON features.  Features are
+ * added one at a time and the column types are widened as needed to hold every
+ * value seen for the property.
+ */
+export class GeoJSONSchema {
+  /**
+   * Column the GeoJSON feature id is stored in
+   */
+  public static readonly FEATURE_ID_COLUMN: string = '_feature_id';
+  /**
+   * Column an `id` property is stored in, as `id` is the primary key column
+   */
+  public static readonly PROPERTIES_ID_COLUMN: string = '_properties_id';
+
+  /**
+   * Inferred column name and data type keyed by lower case column name, in the order the properties were first seen
+   */
+  private columns: Map<string, { name: string; dataType: GeoPackageDataType }> = new Map();
+  /**
+   * GeoJSON geometry types seen
+   */
+  private geometryTypes: Set<string> = new Set();
+  /**
+   * True if any geometry has z values
+   */
+  hasZ = false;
+  /**
+   * True if any geometry has m values in its measures foreign member
+   */
+  hasM = false;
+  /**
+   * Number of features added
+   */
+  featureCount = 0;
+
+  /**
+   * Add a feature to the schema
+   * @param feature GeoJSON feature
+   * @return names of columns added to the schema by this feature
+   */
+  addFeature(feature: Feature): string[] {
+    this.featureCount++;
+    const added: string[] = [];
+    const geometry = GeoJSONSchema.getGeometry(feature);
+    if (geometry != null) {
+      this.geometryTypes.add(geometry.type);
+      if (!this.hasZ) {
+        this.hasZ = GeoJSONSchema.geometryHasZ(geometry);
+      }
+      if (!this.hasM) {
+        this.hasM = GeoJSONMeasures.hasMeasures(geometry);
+      }
+    }
+    if (feature.id !== undefined && feature.id !== null) {
+      if (this.addValue(GeoJSONSchema.FEATURE_ID_COLUMN, feature.id)) {
+        added.push(GeoJSONSchema.FEATURE_ID_COLUMN);
+      }
+    }
+    for (const key in feature.properties) {
+      if (Object.prototype.hasOwnProperty.call(feature.properties, key)) {
+        const columnName = GeoJSONSchema.getColumnName(key);
+        if (this.addValue(columnName, feature.properties[key])) {
+          added.push(columnName);
+        }
+      }
+    }
+    return added;
+  }
+
+  /**
+   * Get the column names of the schema
+   * @return column names
+   */
+  getColumnNames(): string[] {
+    return Array.from(this.columns.values()).map(column => column.name);
+  }
+
+  /**
+   * Get the data type inferred for the column
+   * @param columnName column name
+   * @return data type
+   */
+  getDataType(columnName: string): GeoPackageDataType {
+    const column = this.columns.get(columnName.toLowerCase());
+    return column ? column.dataType : undefined;
+  }
+
+  /**
+   * Build the feature columns of the schema, the primary key and geometry columns are not included
+   * @param startIndex index of the first column
+   * @param columnNames names of the columns to build, defaults to all columns
+   * @return feature columns
+   */
+  buildColumns(startIndex: number, columnNames: string[] = this.getColumnNames()): FeatureColumn[] {
+    return columnNames.map((columnName, i) => {
+      // a property that only had null values is stored as text
+      const dataType = this.getDataType(columnName);
+      return FeatureColumn.createColumn(
+        startIndex + i,
+        columnName,
+        dataType != null ? dataType : GeoPackageDataType.TEXT,
+      );
+    });
+  }
+
+  /**
+   * Get the geometry type of the features.  Returns the single geometry type if every feature has
+   * the same type, otherwise GEOMETRY.
+   * @return geometry type
+   */
+  getGeometryType(): GeometryType {
+    if (this.geometryTypes.size === 1) {
+      const geometryType = GeometryType.fromName(
+        this.geometryTypes
+          .values()
+          .next()
+          .value.toUpperCase(),
+      );
+      if (geometryType !== undefined) {
+        return geometryType;
+      }
+    }
+    return GeometryType.GEOMETRY;
+  }
+
+  /**
+   * Widen the column type to hold the value
+   * @param columnName column name
+   * @param value property value
+   * @return true if the column was added to the schema
+   */
+  private addValue(columnName: string, value: any): boolean {
+    const existing = this.columns.get(columnName.toLowerCase());
+    const dataType = GeoJSONSchema.getValueDataType(value);
+    if (existing === undefined) {
+      this.columns.set(columnName.toLowerCase(), { name: columnName, dataType: dataType });
+      return true;
+    }
+    if (dataType !== null) {
+      existing.dataType = existing.dataType === null ? dataType : GeoJSONSchema.widen(existing.dataType, dataType);
+    }
+    return false;
+  }
+
+  /**
+   * Get the column a GeoJSON property is stored in
+   * @param propertyName property name
+   * @return column name
+   */
+  static getColumnName(propertyName: string): string {
+    return propertyName.toLowerCase() === 'id' ? GeoJSONSchema.PROPERTIES_ID_COLUMN : propertyName;
+  }
+
+  /**
+   * Get the data type that holds the value
+   * @param value property value
+   * @return data type, or null if the value does not determine the type
+   */
+  static getValueDataType(value: any): GeoPackageDataType {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    switch (typeof value) {
+      case 'boolean':
+        return GeoPackageDataType.BOOLEAN;
+      case 'number':
+        return Number.isInteger(value) ? GeoPackageDataType.INTEGER : GeoPackageDataType.REAL;
+      default:
+        return GeoPackageDataType.TEXT;
+    }
+  }
+
+  /**
+   * Get the data type that holds values of both types
+   * @param type1 data type
+   * @param type2 data type
+   * @return data type
+   */
+  static widen(type1: GeoPackageDataType, type2: GeoPackageDataType): GeoPackageDataType {
+    if (type1 === type2) {
+      return type1;
+    }
+    const numeric = [GeoPackageDataType.INTEGER, GeoPackageDataType.REAL];
+    if (numeric.indexOf(type1) !== -1 && numeric.indexOf(type2) !== -1) {
+      return GeoPackageDataType.REAL;
+    }
+    return GeoPackageDataType.TEXT;
+  }
+
+  /**
+   * Convert a property value to the value stored in a column of the data type
+   * @param value property value
+   * @param dataType column data type
+   * @return column value
+   */
+  static toColumnValue(value: any, dataType: GeoPackageDataType): any {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (dataType === GeoPackageDataType.BOOLEAN) {
+      return value;
+    }
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    if (dataType === GeoPackageDataType.TEXT && typeof value !== 'string') {
+      return value.toString();
+    }
+    return value;
+  }
+
+  /**
+   * Get the geometry of the feature, parsing it if it was stored as a string
+   * @param feature GeoJSON feature
+   * @return geometry
+   */
+  static getGeometry(feature: Feature): Geometry {
+    return typeof feature.geometry === 'string' ? JSON.parse(feature.geometry) : feature.geometry;
+  }
+
+  /**
+   * Determine if the geometry has z values
+   * @param geometry GeoJSON geometry
+   * @return true if any position has a z value
+   */
+  static geometryHasZ(geometry: Geometry): boolean {
+    if (geometry.type === 'GeometryCollection') {
+      return geometry.geometries.some(child => GeoJSONSchema.geometryHasZ(child));
+    }
+    const hasZ = (coordinates: any): boolean => {
+      if (coordinates == null || coordinates.length === 0) {
+        return false;
+      }
+      if (typeof coordinates[0] === 'number') {
+        return (coordinates as Position).length > 2;
+      }
+      return hasZ(coordinates[0]);
+    };
+    return hasZ(geometry.coordinates);
+  }
+}
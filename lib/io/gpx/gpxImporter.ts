@@ -0,0 +1,435 @@
+/**
+ * GPX import
+ * @module io/gpx
+ */
+import wkx from 'wkx';
+
+import { GeoPackage } from '../../geoPackage';
+import { GpxData, GpxPath, GpxPoint, GpxReader } from './gpxReader';
+import { FeatureDao } from '../../features/user/featureDao';
+import { FeatureRow } from '../../features/user/featureRow';
+import { FeatureColumn } from '../../features/user/featureColumn';
+import { GeometryColumns } from '../../features/columns/geometryColumns';
+import { GeometryType } from '../../features/user/geometryType';
+import { GeometryData } from '../../geom/geometryData';
+import { Envelope } from '../../geom/envelope';
+import { SqliteQueryBuilder } from '../../db/sqliteQueryBuilder';
+import { DBValue } from '../../db/dbAdapter';
+import { GeoPackageDataType } from '../../db/geoPackageDataType';
+import { ProjectionConstants } from '../../projection/projectionConstants';
+import { GeoJSONImporter } from '../geojson/geoJSONImporter';
+import { IOUtils } from '../ioUtils';
+
+/**
+ * Sources a GPX import can read from: the path to a .gpx file (Node only) or the contents of a GPX document
+ */
+export type GpxSource = string | Buffer | ArrayBuffer | Uint8Array;
+
+/**
+ * Options for a GPX import
+ */
+export interface GpxImportOptions {
+  /**
+   * name of the geometry column. Defaults to `geometry`.
+   */
+  geometryColumnName?: string;
+  /**
+   * number of features inserted in a single transaction. Defaults to 1000.
+   */
+  batchSize?: number;
+  /**
+   * index the tables once all features are inserted
+   */
+  index?: boolean;
+  /**
+   * called after each batch is inserted with the number of features added so far
+   */
+  progress?: (featuresAdded: number) => void;
+}
+
+/**
+ * Result of a GPX import
+ */
+export interface GpxImport {
+  /**
+   * names of the created feature tables
+   */
+  tableNames: string[];
+  /**
+   * number of waypoints inserted
+   */
+  waypoints: number;
+  /**
+   * number of routes inserted
+   */
+  routes: number;
+  /**
+   * number of track segments inserted
+   */
+  trackSegments: number;
+}
+
+/**
+ * Kind of GPX feature stored in a table
+ */
+export enum GpxFeatureType {
+  WAYPOINT,
+  ROUTE,
+  TRACK_SEGMENT,
+}
+
+/**
+ * A feature ready to be inserted into the table of its kind
+ */
+interface GpxFeature {
+  geometry: wkx.Geometry;
+  envelope: Envelope;
+  values: Record<string, DBValue | Date>;
+}
+
+/**
+ * A feature table being written and the features waiting to be inserted into it
+ */
+interface GpxTable {
+  featureDao: FeatureDao<FeatureRow>;
+  batch: GpxFeature[];
+  bounds: Envelope;
+  inserted: number;
+}
+
+/**
+ * Imports the waypoints, routes and tracks of a GPX document into separate feature tables named after the table name
+ * with a `_waypoints`, `_routes` or `_tracks` suffix.  Waypoints are points, routes are line strings and each track
+ * segment is a line string with the index of the segment within its track.  Elevations are kept as z values and the
+ * standard GPX fields become typed columns.  Tables are only created for the kinds of features in the document.
+ */
+export class GpxImporter {
+  public static readonly DEFAULT_BATCH_SIZE: number = 1000;
+  public static readonly DEFAULT_GEOMETRY_COLUMN: string = 'geometry';
+  public static readonly WAYPOINTS_SUFFIX: string = '_waypoints';
+  public static readonly ROUTES_SUFFIX: string = '_routes';
+  public static readonly TRACKS_SUFFIX: string = '_tracks';
+  public static readonly COLUMN_NAME: string = 'name';
+  public static readonly COLUMN_DESCRIPTION: string = 'description';
+  public static readonly COLUMN_COMMENT: string = 'comment';
+  public static readonly COLUMN_SYMBOL: string = 'symbol';
+  public static readonly COLUMN_TYPE: string = 'type';
+  public static readonly COLUMN_TIME: string = 'time';
+  public static readonly COLUMN_ELEVATION: string = 'elevation';
+  public static readonly COLUMN_SOURCE: string = 'source';
+  public static readonly COLUMN_NUMBER: string = 'number';
+  public static readonly COLUMN_SEGMENT: string = 'segment';
+  public static readonly COLUMN_START_TIME: string = 'start_time';
+  public static readonly COLUMN_END_TIME: string = 'end_time';
+
+  /**
+   * @param geoPackage GeoPackage to import into
+   */
+  constructor(public readonly geoPackage: GeoPackage) {}
+
+  /**
+   * Import the GPX document into new feature tables
+   * @param source GPX document to import
+   * @param tableName base name of the feature tables to create
+   * @param options import options
+   * @return created tables and number of features inserted
+   */
+  async importGpx(source: GpxSource, tableName: string, options: GpxImportOptions = {}): Promise<GpxImport> {
+    const types = [GpxFeatureType.WAYPOINT, GpxFeatureType.ROUTE, GpxFeatureType.TRACK_SEGMENT];
+    types.forEach(type => {
+      if (this.geoPackage.isTable(GpxImporter.getTableName(tableName, type))) {
+        throw new Error('Table already exists: ' + GpxImporter.getTableName(tableName, type));
+      }
+    });
+    return IOUtils.deleteTablesOnError(
+      this.geoPackage,
+      types.map(type => GpxImporter.getTableName(tableName, type)),
+      () => this.importFeatures(source, tableName, types, options),
+    );
+  }
+
+  /**
+   * Read the GPX document and insert its features
+   * @param source GPX document to import
+   * @param tableName base name of the feature tables to create
+   * @param types feature types in the order of their tables
+   * @param options import options
+   * @return created tables and number of features inserted
+   */
+  private async importFeatures(
+    source: GpxSource,
+    tableName: string,
+    types: GpxFeatureType[],
+    options: GpxImportOptions,
+  ): Promise<GpxImport> {
+    const batchSize = options.batchSize || GpxImporter.DEFAULT_BATCH_SIZE;
+    // tables are created as the first feature of their kind is read
+    const tables = new Map<GpxFeatureType, GpxTable>();
+    let inserted = 0;
+    const flush = (table: GpxTable): void => {
+      inserted += table.batch.length;
+      this.insertBatch(table);
+      IOUtils.publishProgress(options.progress, inserted);
+    };
+
+    for await (const data of GpxImporter.readSource(source)) {
+      let flushed = false;
+      GpxImporter.toFeatures(data).forEach((features, type) => {
+        features.forEach(feature => {
+          if (!tables.has(type)) {
+            const featureDao = this.createTable(GpxImporter.getTableName(tableName, type), type, options);
+            tables.set(type, { featureDao, batch: [], bounds: undefined, inserted: 0 });
+          }
+          const table = tables.get(type);
+          table.batch.push(feature);
+          if (table.batch.length >= batchSize) {
+            flush(table);
+            flushed = true;
+          }
+        });
+      });
+      if (flushed) {
+        await IOUtils.nextBatch();
+      }
+    }
+
+    const result: GpxImport = { tableNames: [], waypoints: 0, routes: 0, trackSegments: 0 };
+    for (const type of types) {
+      const table = tables.get(type);
+      if (!table) {
+        continue;
+      }
+      if (table.batch.length > 0) {
+        flush(table);
+      }
+      if (table.bounds) {
+        IOUtils.updateContentsBounds(this.geoPackage, table.featureDao.gpkgTableName, table.bounds);
+      }
+      if (options.index) {
+        await table.featureDao.index();
+      }
+      result.tableNames.push(table.featureDao.gpkgTableName);
+      if (type === GpxFeatureType.WAYPOINT) {
+        result.waypoints = table.inserted;
+      } else if (type === GpxFeatureType.ROUTE) {
+        result.routes = table.inserted;
+      } else {
+        result.trackSegments = table.inserted;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Create the feature table for a kind of GPX feature
+   * @param tableName table name
+   * @param type kind of feature
+   * @param options import options
+   * @return feature dao for the new table
+   */
+  private createTable(tableName: string, type: GpxFeatureType, options: GpxImportOptions): FeatureDao<FeatureRow> {
+    const geometryType = type === GpxFeatureType.WAYPOINT ? GeometryType.POINT : GeometryType.LINESTRING;
+    const geometryColumns = new GeometryColumns();
+    geometryColumns.table_name = tableName;
+    geometryColumns.column_name = options.geometryColumnName || GpxImporter.DEFAULT_GEOMETRY_COLUMN;
+    geometryColumns.geometry_type_name = GeometryType.nameFromType(geometryType);
+    // elevations are optional
+    geometryColumns.z = 2;
+    geometryColumns.m = 0;
+
+    const columns: FeatureColumn[] = [];
+    columns.push(FeatureColumn.createPrimaryKeyColumn(0, 'id'));
+    columns.push(FeatureColumn.createGeometryColumn(1, geometryColumns.column_name, geometryType, false, null));
+    GpxImporter.getColumns(type).forEach((dataType, columnName) => {
+      if (columnName.toLowerCase() === geometryColumns.column_name.toLowerCase()) {
+        throw new Error('Column ' + columnName + ' conflicts with the geometry column name');
+      }
+      columns.push(FeatureColumn.createColumn(columns.length, columnName, dataType));
+    });
+    this.geoPackage.createFeatureTable(
+      tableName,
+      geometryColumns,
+      columns,
+      undefined,
+      ProjectionConstants.EPSG_CODE_4326,
+    );
+    return this.geoPackage.getFeatureDao(tableName);
+  }
+
+  /**
+   * Insert the waiting features of a table in a transaction
+   * @param table table and its waiting features
+   */
+  private insertBatch(table: GpxTable): void {
+    const featureDao = table.featureDao;
+    const srsId = featureDao.srs.srs_id;
+    const insertSql = SqliteQueryBuilder.buildInsert("'" + featureDao.gpkgTableName + "'", featureDao.newRow());
+    featureDao.connection.transaction(() => {
+      const insertStatement = featureDao.connection.adapter.prepareStatement(insertSql);
+      table.batch.forEach(feature => {
+        const featureRow = featureDao.newRow();
+        const geometryData = new GeometryData();
+        geometryData.setSrsId(srsId);
+        geometryData.setGeometry(feature.geometry);
+        geometryData.setEnvelope(feature.envelope);
+        featureDao.checkGeometry(geometryData);
+        featureRow.geometry = geometryData;
+        Object.keys(feature.values).forEach(columnName => {
+          // undefined values are left unset as the date conversion requires a value
+          if (feature.values[columnName] !== undefined) {
+            featureRow.setValueWithColumnName(columnName, feature.values[columnName]);
+          }
+        });
+        featureDao.connection.adapter.bindAndInsert(
+          insertStatement,
+          SqliteQueryBuilder.buildUpdateOrInsertObject(featureRow),
+        );
+        table.bounds = GeoJSONImporter.expandEnvelope(table.bounds, feature.envelope);
+      });
+      featureDao.connection.adapter.closeStatement(insertStatement);
+    });
+    table.inserted += table.batch.length;
+    table.batch = [];
+  }
+
+  /**
+   * Get the name of the table of a kind of GPX feature
+   * @param tableName base table name
+   * @param type kind of feature
+   * @return table name
+   */
+  static getTableName(tableName: string, type: GpxFeatureType): string {
+    switch (type) {
+      case GpxFeatureType.WAYPOINT:
+        return tableName + GpxImporter.WAYPOINTS_SUFFIX;
+      case GpxFeatureType.ROUTE:
+        return tableName + GpxImporter.ROUTES_SUFFIX;
+      default:
+        return tableName + GpxImporter.TRACKS_SUFFIX;
+    }
+  }
+
+  /**
+   * Get the attribute columns of the table of a kind of GPX feature
+   * @param type kind of feature
+   * @return data type by column name
+   */
+  private static getColumns(type: GpxFeatureType): Map<string, GeoPackageDataType> {
+    const columns = new Map<string, GeoPackageDataType>();
+    columns.set(GpxImporter.COLUMN_NAME, GeoPackageDataType.TEXT);
+    columns.set(GpxImporter.COLUMN_DESCRIPTION, GeoPackageDataType.TEXT);
+    columns.set(GpxImporter.COLUMN_COMMENT, GeoPackageDataType.TEXT);
+    columns.set(GpxImporter.COLUMN_TYPE, GeoPackageDataType.TEXT);
+    if (type === GpxFeatureType.WAYPOINT) {
+      columns.set(GpxImporter.COLUMN_SYMBOL, GeoPackageDataType.TEXT);
+      columns.set(GpxImporter.COLUMN_TIME, GeoPackageDataType.DATETIME);
+      columns.set(GpxImporter.COLUMN_ELEVATION, GeoPackageDataType.DOUBLE);
+    } else {
+      columns.set(GpxImporter.COLUMN_SOURCE, GeoPackageDataType.TEXT);
+      columns.set(GpxImporter.COLUMN_NUMBER, GeoPackageDataType.INTEGER);
+      if (type === GpxFeatureType.TRACK_SEGMENT) {
+        columns.set(GpxImporter.COLUMN_SEGMENT, GeoPackageDataType.INTEGER);
+      }
+      columns.set(GpxImporter.COLUMN_START_TIME, GeoPackageDataType.DATETIME);
+      columns.set(GpxImporter.COLUMN_END_TIME, GeoPackageDataType.DATETIME);
+    }
+    return columns;
+  }
+
+  /**
+   * Convert the waypoints, routes and tracks to features.  Routes and track segments with fewer than two points are
+   * skipped.
+   * @param data GPX data
+   * @return features by kind
+   */
+  private static toFeatures(data: GpxData): Map<GpxFeatureType, GpxFeature[]> {
+    const features = new Map<GpxFeatureType, GpxFeature[]>();
+    features.set(
+      GpxFeatureType.WAYPOINT,
+      data.waypoints.map(waypoint => {
+        const values: Record<string, DBValue | Date> = {};
+        values[GpxImporter.COLUMN_NAME] = waypoint.name;
+        values[GpxImporter.COLUMN_DESCRIPTION] = waypoint.description;
+        values[GpxImporter.COLUMN_COMMENT] = waypoint.comment;
+        values[GpxImporter.COLUMN_TYPE] = waypoint.type;
+        values[GpxImporter.COLUMN_SYMBOL] = waypoint.symbol;
+        values[GpxImporter.COLUMN_TIME] = waypoint.time;
+        values[GpxImporter.COLUMN_ELEVATION] = waypoint.elevation;
+        return {
+          geometry: GpxImporter.toPoint(waypoint),
+          envelope: GpxImporter.getEnvelope([waypoint]),
+          values,
+        };
+      }),
+    );
+    features.set(
+      GpxFeatureType.ROUTE,
+      data.routes
+        .filter(route => route.points.length > 1)
+        .map(route => GpxImporter.toLineStringFeature(route, route.points)),
+    );
+    const segments: GpxFeature[] = [];
+    data.tracks.forEach(track => {
+      track.segments.forEach((points, index) => {
+        if (points.length > 1) {
+          const feature = GpxImporter.toLineStringFeature(track, points);
+          feature.values[GpxImporter.COLUMN_SEGMENT] = index;
+          segments.push(feature);
+        }
+      });
+    });
+    features.set(GpxFeatureType.TRACK_SEGMENT, segments);
+    return features;
+  }
+
+  private static toLineStringFeature(path: GpxPath, points: GpxPoint[]): GpxFeature {
+    // a line string only has z values when every point has an elevation
+    const hasZ = points.every(point => point.elevation !== undefined);
+    const times = points.filter(point => point.time).map(point => point.time);
+    const values: Record<string, DBValue | Date> = {};
+    values[GpxImporter.COLUMN_NAME] = path.name;
+    values[GpxImporter.COLUMN_DESCRIPTION] = path.description;
+    values[GpxImporter.COLUMN_COMMENT] = path.comment;
+    values[GpxImporter.COLUMN_TYPE] = path.type;
+    values[GpxImporter.COLUMN_SOURCE] = path.source;
+    values[GpxImporter.COLUMN_NUMBER] = path.number;
+    values[GpxImporter.COLUMN_START_TIME] = times.length ? times[0] : undefined;
+    values[GpxImporter.COLUMN_END_TIME] = times.length ? times[times.length - 1] : undefined;
+    return {
+      geometry: new wkx.LineString(points.map(point => GpxImporter.toPoint(point, hasZ))),
+      envelope: GpxImporter.getEnvelope(points),
+      values,
+    };
+  }
+
+  private static toPoint(point: GpxPoint, hasZ = point.elevation !== undefined): wkx.Point {
+    return hasZ
+      ? new wkx.Point(point.longitude, point.latitude, point.elevation)
+      : new wkx.Point(point.longitude, point.latitude);
+  }
+
+  private static getEnvelope(points: GpxPoint[]): Envelope {
+    const envelope: Envelope = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    points.forEach(point => {
+      envelope.minX = Math.min(envelope.minX, point.longitude);
+      envelope.minY = Math.min(envelope.minY, point.latitude);
+      envelope.maxX = Math.max(envelope.maxX, point.longitude);
+      envelope.maxY = Math.max(envelope.maxY, point.latitude);
+    });
+    return envelope;
+  }
+
+  /**
+   * Read the GPX data from the source, one chunk at a time when reading a file
+   * @param source GPX source
+   * @return async iterable of GPX data
+   */
+  private static async *readSource(source: GpxSource): AsyncIterableIterator<GpxData> {
+    if (typeof source === 'string') {
+      yield* GpxReader.readFile(source);
+    } else {
+      const data = Buffer.from(source instanceof ArrayBuffer ? new Uint8Array(source) : source);
+      yield new GpxReader().readDocument(data.toString('utf8'));
+    }
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * GPX reader
+ * @module io/gpx
+ */
+import fs from 'fs';
+
+import { XmlElement, XmlElementReader } from '../xml/xmlElementReader';
+
+/**
+ * A GPX waypoint, or a point of a route or track
+ */
+export interface GpxPoint {
+  longitude: number;
+  latitude: number;
+  /**
+   * elevation in meters
+   */
+  elevation?: number;
+  time?: Date;
+  name?: string;
+  description?: string;
+  comment?: string;
+  symbol?: string;
+  type?: string;
+}
+
+/**
+ * The descriptive fields shared by GPX routes and tracks
+ */
+export interface GpxPath {
+  name?: string;
+  description?: string;
+  comment?: string;
+  /**
+   * source of the data
+   */
+  source?: string;
+  /**
+   * GPS route or track number
+   */
+  number?: number;
+  type?: string;
+}
+
+/**
+ * A GPX `<rte>`
+ */
+export interface GpxRoute extends GpxPath {
+  points: GpxPoint[];
+}
+
+/**
+ * A GPX `<trk>`
+ */
+export interface GpxTrack extends GpxPath {
+  /**
+   * points of each `<trkseg>`
+   */
+  segments: GpxPoint[][];
+}
+
+/**
+ * Waypoints, routes and tracks read from a GPX document
+ */
+export interface GpxData {
+  waypoints: GpxPoint[];
+  routes: GpxRoute[];
+  tracks: GpxTrack[];
+}
+
+/**
+ * Incrementally reads the waypoints, routes and tracks of a GPX 1.0 or 1.1 document.  Extensions are ignored.
+ */
+export class GpxReader {
+  public static readonly READ_CHUNK_SIZE: number = 1024 * 1024;
+
+  private readonly reader = new XmlElementReader(['wpt', 'rte', 'trk']);
+
+  /**
+   * Push the next chunk of the document into the reader
+   * @param chunk next chunk of the GPX document
+   * @return waypoints, routes and tracks completed by this chunk
+   */
+  push(chunk: string): GpxData {
+    return GpxReader.read(this.reader.push(chunk));
+  }
+
+  /**
+   * Signal the end of the document
+   * @return waypoints, routes and tracks completed by the end of the document
+   */
+  end(): GpxData {
+    return GpxReader.read(this.reader.end());
+  }
+
+  /**
+   * Read a whole GPX document
+   * @param text GPX document
+   * @return waypoints, routes and tracks of the document
+   */
+  readDocument(text: string): GpxData {
+    const data = this.push(text);
+    const rest = this.end();
+    return {
+      waypoints: data.waypoints.concat(rest.waypoints),
+      routes: data.routes.concat(rest.routes),
+      tracks: data.tracks.concat(rest.tracks),
+    };
+  }
+
+  /**
+   * Read a GPX file one chunk at a time.  Only available in Node.
+   * @param filePath path to the GPX file
+   * @return async iterable of the waypoints, routes and tracks completed by each chunk
+   */
+  static async *readFile(filePath: string): AsyncIterableIterator<GpxData> {
+    const reader = new GpxReader();
+    const stream = fs.createReadStream(filePath, {
+      encoding: 'utf8',
+      highWaterMark: GpxReader.READ_CHUNK_SIZE,
+    });
+    for await (const chunk of stream) {
+      yield reader.push(chunk as string);
+    }
+    yield reader.end();
+  }
+
+  private static read(elements: XmlElement[]): GpxData {
+    const data: GpxData = { waypoints: [], routes: [], tracks: [] };
+    elements.forEach(element => {
+      if (element.name === 'wpt') {
+        const waypoint = GpxReader.readPoint(element);
+        if (waypoint) {
+          data.waypoints.push(waypoint);
+        }
+      } else if (element.name === 'rte') {
+        data.routes.push(
+          Object.assign(GpxReader.readPath(element), { points: GpxReader.readPoints(element, 'rtept') }),
+        );
+      } else {
+        data.tracks.push(
+          Object.assign(GpxReader.readPath(element), {
+            segments: XmlElementReader.getChildren(element, 'trkseg').map(segment =>
+              GpxReader.readPoints(segment, 'trkpt'),
+            ),
+          }),
+        );
+      }
+    });
+    return data;
+  }
+
+  /**
+   * Read a `<wpt>`, `<rtept>` or `<trkpt>`
+   * @param element point element
+   * @return point, undefined if its coordinates are missing or invalid
+   */
+  static readPoint(element: XmlElement): GpxPoint {
+    const longitude = parseFloat(element.attributes.lon);
+    const latitude = parseFloat(element.attributes.lat);
+    if (!isFinite(longitude) || !isFinite(latitude)) {
+      return undefined;
+    }
+    const point: GpxPoint = { longitude, latitude };
+    const elevation = parseFloat(XmlElementReader.getChildText(element, 'ele'));
+    if (isFinite(elevation)) {
+      point.elevation = elevation;
+    }
+    const time = GpxReader.toDate(XmlElementReader.getChildText(element, 'time'));
+    if (time) {
+      point.time = time;
+    }
+    GpxReader.setText(point, 'name', element, 'name');
+    GpxReader.setText(point, 'description', element, 'desc');
+    GpxReader.setText(point, 'comment', element, 'cmt');
+    GpxReader.setText(point, 'symbol', element, 'sym');
+    GpxReader.setText(point, 'type', element, 'type');
+    return point;
+  }
+
+  private static readPoints(element: XmlElement, name: string): GpxPoint[] {
+    return XmlElementReader.getChildren(element, name)
+      .map(child => GpxReader.readPoint(child))
+      .filter(point => point !== undefined);
+  }
+
+  private static readPath(element: XmlElement): GpxPath {
+    const path: GpxPath = {};
+    GpxReader.setText(path, 'name', element, 'name');
+    GpxReader.setText(path, 'description', element, 'desc');
+    GpxReader.setText(path, 'comment', element, 'cmt');
+    GpxReader.setText(path, 'source', element, 'src');
+    GpxReader.setText(path, 'type', element, 'type');
+    const number = parseInt(XmlElementReader.getChildText(element, 'number'), 10);
+    if (isFinite(number)) {
+      path.number = number;
+    }
+    return path;
+  }
+
+  private static setText<T, K extends keyof T>(target: T, key: K, element: XmlElement, name: string): void {
+    const text = XmlElementReader.getChildText(element, name);
+    if (text !== undefined && text !== '') {
+      target[key] = (text as unknown) as T[K];
+    }
+  }
+
+  private static toDate(text: string): Date {
+    if (!text) {
+      return undefined;
+    }
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Import and export utilities
+ * @module io
+ */
+import { GeoPackage } from '../geoPackage';
+import { Envelope } from '../geom/envelope';
+import { ContentsDao } from '../core/contents/contentsDao';
+import { DBValue } from '../db/dbAdapter';
+
+/**
+ * Shared steps of the importers and exporters: batched inserts that keep the thread open between batches, progress
+ * callbacks, contents bounds and the removal of the tables of a failed import
+ */
+export class IOUtils {
+  /**
+   * Call the progress callback, if any, on the next tick
+   * @param progress progress callback
+   * @param count number of items processed so far
+   */
+  static publishProgress(progress: (count: number) => void, count: number): void {
+    if (progress) {
+      setTimeout(progress, 0, count);
+    }
+  }
+
+  /**
+   * Wait for the next tick, keeping the thread open between batches
+   */
+  static async nextBatch(): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve));
+  }
+
+  /**
+   * Insert the items in batches, publishing the progress after each batch and keeping the thread open between batches
+   * @param items items to insert
+   * @param batchSize number of items per batch
+   * @param insertBatch inserts a batch, usually in a single transaction, returning the number of rows inserted
+   * @param progress progress callback
+   * @return number of rows inserted
+   */
+  static async insertBatches<T>(
+    items: Iterable<T> | AsyncIterable<T>,
+    batchSize: number,
+    insertBatch: (batch: T[]) => number | Promise<number>,
+    progress?: (count: number) => void,
+  ): Promise<number> {
+    let inserted = 0;
+    let batch: T[] = [];
+    for await (const item of items) {
+      batch.push(item);
+      if (batch.length >= batchSize) {
+        inserted += await insertBatch(batch);
+        batch = [];
+        IOUtils.publishProgress(progress, inserted);
+        await IOUtils.nextBatch();
+      }
+    }
+    if (batch.length > 0) {
+      inserted += await insertBatch(batch);
+      IOUtils.publishProgress(progress, inserted);
+    }
+    return inserted;
+  }
+
+  /**
+   * Set the contents bounds of a table and update its last change
+   * @param geoPackage GeoPackage
+   * @param tableName table name
+   * @param envelope bounds in the srs of the table
+   */
+  static updateContentsBounds(geoPackage: GeoPackage, tableName: string, envelope: Envelope): void {
+    const contentsDao = geoPackage.contentsDao;
+    const values: Record<string, DBValue> = {};
+    values[ContentsDao.COLUMN_MIN_X] = envelope.minX;
+    values[ContentsDao.COLUMN_MIN_Y] = envelope.minY;
+    values[ContentsDao.COLUMN_MAX_X] = envelope.maxX;
+    values[ContentsDao.COLUMN_MAX_Y] = envelope.maxY;
+    values[ContentsDao.COLUMN_LAST_CHANGE] = new Date().toISOString();
+    const where = contentsDao.buildWhereWithFieldAndValue(ContentsDao.COLUMN_TABLE_NAME, tableName);
+    const whereArgs = contentsDao.buildWhereArgs([tableName]);
+    contentsDao.updateWithValues(values, where, whereArgs);
+  }
+
+  /**
+   * Run an import, deleting the tables it created when it fails so no partially imported table is left behind
+   * @param geoPackage GeoPackage imported into
+   * @param tableNames names of the tables the import creates, none of which may exist before the import
+   * @param importer import to run
+   * @return result of the import
+   */
+  static async deleteTablesOnError<T>(
+    geoPackage: GeoPackage,
+    tableNames: string[],
+    importer: () => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await importer();
+    } catch (error) {
+      tableNames.forEach(tableName => {
+        geoPackage.deleteTableQuietly(tableName);
+        if (geoPackage.connection.isTableExists(tableName)) {
+          geoPackage.dropTable(tableName);
+        }
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,536 @@
+/**
+ * KML and KMZ export
+ * @module io/kml
+ */
+// @ts-ignore
+import reproject from 'reproject';
+import JSZip from 'jszip';
+import fileType from 'file-type';
+import { Geometry, Position } from 'geojson';
+
+import { GeoPackage } from '../../geoPackage';
+import { GeoJSONSchema } from '../geojson/geoJSONSchema';
+import { FeatureDao } from '../../features/user/featureDao';
+import { FeatureRow } from '../../features/user/featureRow';
+import { FeatureStyle } from '../../extension/style/featureStyle';
+import { StyleRow } from '../../extension/style/styleRow';
+import { IconRow } from '../../extension/style/iconRow';
+import { GeoPackageDataType } from '../../db/geoPackageDataType';
+import { ImageUtils } from '../../tiles/imageUtils';
+import { ProjectionConstants } from '../../projection/projectionConstants';
+
+/**
+ * Options for a KML export
+ */
+export interface KmlExportOptions {
+  /**
+   * name of the document. Defaults to the table name when exporting a single table, otherwise the GeoPackage name.
+   */
+  name?: string;
+  /**
+   * column written as the placemark name. Defaults to the `name` column if the table has one.
+   */
+  nameColumn?: string;
+  /**
+   * column written as the placemark description. Defaults to the `description` column if the table has one.
+   */
+  descriptionColumn?: string;
+  /**
+   * number of decimal places coordinates are rounded to
+   */
+  precision?: number;
+  /**
+   * write the feature styles and icons of the features. Defaults to true.
+   */
+  styles?: boolean;
+}
+
+/**
+ * An icon image written to a KMZ file
+ */
+interface KmzIcon {
+  href: string;
+  data: Buffer;
+}
+
+/**
+ * A feature table and the columns written for its features
+ */
+interface KmlTable {
+  featureDao: FeatureDao<FeatureRow>;
+  schemaId: string;
+  nameColumn: string;
+  descriptionColumn: string;
+  idColumn: string;
+  /**
+   * KML field type of each column written as extended data
+   */
+  fields: { columnName: string; type: string }[];
+}
+
+/**
+ * Exports feature tables to a KML document or KMZ file, each table in a folder.  The resolved feature style of each
+ * feature, falling back to the table defaults, is written as a shared KML style.  Attributes are written as typed
+ * extended data.  Icon images are only written to KMZ files as a KML document can not hold them.
+ */
+export class KmlExporter {
+  /**
+   * Directory of the icon images within a KMZ file
+   */
+  public static readonly KMZ_FILES_DIRECTORY: string = 'files';
+
+  /**
+   * @param geoPackage GeoPackage to export from
+   */
+  constructor(public readonly geoPackage: GeoPackage) {}
+
+  /**
+   * Iterate the text of the KML document.  Each chunk is one placemark or the styles and structure around them.
+   * @param tableNames names of the feature tables to export
+   * @param options export options
+   * @return iterable of document chunks
+   */
+  *exportKml(tableNames: string | string[], options: KmlExportOptions = {}): IterableIterator<string> {
+    yield* this.writeDocument(Array.isArray(tableNames) ? tableNames : [tableNames], options);
+  }
+
+  /**
+   * Export the feature tables to a KMZ file containing the KML document and the icon images of the features
+   * @param tableNames names of the feature tables to export
+   * @param options export options
+   * @return KMZ contents
+   */
+  async exportKmz(tableNames: string | string[], options: KmlExportOptions = {}): Promise<Buffer> {
+    const icons = new Map<number, KmzIcon>();
+    const kml = Array.from(this.writeDocument(Array.isArray(tableNames) ? tableNames : [tableNames], options, icons));
+    const zip = new JSZip();
+    // the document is the first entry so readers that only look at the first file find it
+    zip.file('doc.kml', kml.join(''));
+    icons.forEach(icon => zip.file(icon.href, icon.data));
+    return Buffer.from(await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' }));
+  }
+
+  /**
+   * Write the KML document
+   * @param tableNames names of the feature tables
+   * @param options export options
+   * @param icons icons written to a KMZ file by icon id, undefined when writing a KML document
+   * @return iterable of document chunks
+   */
+  private *writeDocument(
+    tableNames: string[],
+    options: KmlExportOptions,
+    icons?: Map<number, KmzIcon>,
+  ): IterableIterator<string> {
+    const tables = tableNames.map(tableName => this.getTable(tableName, options));
+    const name = options.name || (tableNames.length === 1 ? tableNames[0] : this.geoPackage.name);
+    yield '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<kml xmlns="http://www.opengis.net/kml/2.2">\n<Document>\n' +
+      (name ? '<name>' + KmlExporter.escape(name) + '</name>\n' : '');
+    for (const table of tables) {
+      if (table.fields.length > 0) {
+        yield '<Schema name="' +
+          KmlExporter.escape(table.featureDao.gpkgTableName) +
+          '" id="' +
+          table.schemaId +
+          '">\n' +
+          table.fields
+            .map(
+              field => '<SimpleField name="' + KmlExporter.escape(field.columnName) + '" type="' + field.type + '"/>\n',
+            )
+            .join('') +
+          '</Schema>\n';
+      }
+    }
+    const writtenStyles = new Set<string>();
+    for (const table of tables) {
+      yield '<Folder>\n<name>' + KmlExporter.escape(table.featureDao.gpkgTableName) + '</name>\n';
+      const styled =
+        options.styles !== false && this.geoPackage.featureStyleExtension.has(table.featureDao.gpkgTableName);
+      for (const row of table.featureDao.queryForEach()) {
+        const featureRow = table.featureDao.getRow(row);
+        let chunk = '';
+        let styleId: string;
+        if (styled) {
+          const featureStyle = this.getFeatureStyle(featureRow);
+          styleId = KmlExporter.getStyleId(featureStyle);
+          if (styleId && !writtenStyles.has(styleId)) {
+            // shared styles are written before their first use, style urls resolve across the whole document
+            chunk += this.writeStyle(styleId, featureStyle, icons);
+            writtenStyles.add(styleId);
+          }
+        }
+        chunk += this.writePlacemark(table, featureRow, styleId, options);
+        yield chunk;
+      }
+      yield '</Folder>\n';
+    }
+    yield '</Document>\n</kml>\n';
+  }
+
+  /**
+   * Get the columns written for the features of a table
+   * @param tableName feature table name
+   * @param options export options
+   * @return table
+   */
+  private getTable(tableName: string, options: KmlExportOptions): KmlTable {
+    const featureDao = this.geoPackage.getFeatureDao(tableName);
+    const columns = featureDao.table.getUserColumns();
+    const findColumn = (columnName: string, required: boolean): string => {
+      if (columnName && columns.hasColumn(columnName)) {
+        return columns.getColumn(columnName).getName();
+      }
+      if (required) {
+        throw new Error('Column does not exist in table ' + tableName + ': ' + columnName);
+      }
+      return undefined;
+    };
+    const nameColumn = options.nameColumn ? findColumn(options.nameColumn, true) : findColumn('name', false);
+    const descriptionColumn = options.descriptionColumn
+      ? findColumn(options.descriptionColumn, true)
+      : findColumn('description', false);
+    const idColumn = findColumn(GeoJSONSchema.FEATURE_ID_COLUMN, false);
+    const fields: { columnName: string; type: string }[] = [];
+    columns.getColumns().forEach(column => {
+      const columnName = column.getName();
+      const type = KmlExporter.getFieldType(column.getDataType());
+      if (
+        type &&
+        !column.isPrimaryKey() &&
+        !column.isGeometry() &&
+        [nameColumn, descriptionColumn, idColumn].indexOf(columnName) === -1
+      ) {
+        fields.push({ columnName, type });
+      }
+    });
+    return {
+      featureDao,
+      schemaId: KmlExporter.toId('schema_' + tableName),
+      nameColumn,
+      descriptionColumn,
+      idColumn,
+      fields,
+    };
+  }
+
+  /**
+   * Write the placemark of a feature
+   * @param table table of the feature
+   * @param featureRow feature row
+   * @param styleId id of the shared style of the feature
+   * @param options export options
+   * @return placemark element
+   */
+  private writePlacemark(table: KmlTable, featureRow: FeatureRow, styleId: string, options: KmlExportOptions): string {
+    const value = (columnName: string): string | null =>
+      columnName ? KmlExporter.toText(featureRow.getValueWithColumnName(columnName)) : null;
+    const id = value(table.idColumn);
+    let placemark = id && /^[A-Za-z_][\w.-]*$/.test(id) ? '<Placemark id="' + id + '">\n' : '<Placemark>\n';
+    const name = value(table.nameColumn);
+    if (name !== null) {
+      placemark += '<name>' + KmlExporter.escape(name) + '</name>\n';
+    }
+    const description = value(table.descriptionColumn);
+    if (description !== null) {
+      placemark += '<description>' + KmlExporter.escape(description) + '</description>\n';
+    }
+    if (styleId) {
+      placemark += '<styleUrl>#' + styleId + '</styleUrl>\n';
+    }
+    const data = table.fields
+      .map(field => {
+        const text = value(field.columnName);
+        return text === null
+          ? ''
+          : '<SimpleData name="' +
+              KmlExporter.escape(field.columnName) +
+              '">' +
+              KmlExporter.escape(text) +
+              '</SimpleData>\n';
+      })
+      .join('');
+    if (data) {
+      placemark +=
+        '<ExtendedData>\n<SchemaData schemaUrl="#' +
+        table.schemaId +
+        '">\n' +
+        data +
+        '</SchemaData>\n</ExtendedData>\n';
+    }
+    const geometry = this.getGeometry(table.featureDao, featureRow);
+    if (geometry) {
+      placemark += KmlExporter.writeGeometry(geometry, options.precision);
+    }
+    return placemark + '</Placemark>\n';
+  }
+
+  /**
+   * Get the geometry of the feature in EPSG:4326
+   * @param featureDao feature dao
+   * @param featureRow feature row
+   * @return GeoJSON geometry, null if the feature has none
+   */
+  private getGeometry(featureDao: FeatureDao<FeatureRow>, featureRow: FeatureRow): Geometry {
+    const geometryData = featureRow.geometry;
+    if (!geometryData || !geometryData.geometry || geometryData.empty) {
+      return null;
+    }
+    const geometry = geometryData.geometry.toGeoJSON() as Geometry;
+    const srs = featureDao.srs;
+    if ((srs.organization + ':' + srs.organization_coordsys_id).toUpperCase() === ProjectionConstants.EPSG_4326) {
+      return geometry;
+    }
+    return reproject.reproject(geometry, featureDao.projection, ProjectionConstants.EPSG_4326);
+  }
+
+  /**
+   * Get the resolved feature style of the feature, falling back to the table defaults
+   * @param featureRow feature row
+   * @return feature style
+   */
+  private getFeatureStyle(featureRow: FeatureRow): FeatureStyle {
+    const extension = this.geoPackage.featureStyleExtension;
+    // features without a geometry only have default styles
+    return featureRow.geometryType
+      ? extension.getFeatureStyleForFeatureRow(featureRow)
+      : extension.getFeatureStyleDefault(featureRow);
+  }
+
+  /**
+   * Write a KML style for the feature style
+   * @param styleId style id
+   * @param featureStyle feature style
+   * @param icons icons written to a KMZ file, undefined when writing a KML document
+   * @return style element
+   */
+  private writeStyle(styleId: string, featureStyle: FeatureStyle, icons?: Map<number, KmzIcon>): string {
+    const style: StyleRow = featureStyle.style;
+    const icon: IconRow = featureStyle.icon;
+    let kml = '<Style id="' + styleId + '">\n';
+    const href = icon && icons ? this.addIcon(icon, icons) : undefined;
+    if (href) {
+      kml += '<IconStyle>\n';
+      const imageWidth = ImageUtils.getImageSize(icon.data).width;
+      const scale = icon.derivedWidth / imageWidth;
+      if (isFinite(scale) && scale !== 1) {
+        kml += '<scale>' + KmlExporter.round(scale, 4) + '</scale>\n';
+      }
+      kml +=
+        '<Icon><href>' +
+        KmlExporter.escape(href) +
+        '</href></Icon>\n' +
+        '<hotSpot x="' +
+        KmlExporter.round(icon.anchorUOrDefault, 4) +
+        '" y="' +
+        KmlExporter.round(1 - icon.anchorVOrDefault, 4) +
+        '" xunits="fraction" yunits="fraction"/>\n</IconStyle>\n';
+    } else if (style && style.hasColor()) {
+      kml +=
+        '<IconStyle><color>' +
+        KmlExporter.toKmlColor(style.getHexColor(), style.getOpacityOrDefault()) +
+        '</color></IconStyle>\n';
+    }
+    if (style) {
+      kml += '<LineStyle>';
+      if (style.hasColor()) {
+        kml += '<color>' + KmlExporter.toKmlColor(style.getHexColor(), style.getOpacityOrDefault()) + '</color>';
+      }
+      kml += '<width>' + style.getWidthOrDefault() + '</width></LineStyle>\n<PolyStyle>';
+      kml += style.hasFillColor()
+        ? '<color>' + KmlExporter.toKmlColor(style.getFillHexColor(), style.getFillOpacityOrDefault()) + '</color>'
+        : '<fill>0</fill>';
+      kml += '</PolyStyle>\n';
+    }
+    return kml + '</Style>\n';
+  }
+
+  /**
+   * Add an icon image to the KMZ file
+   * @param icon icon row
+   * @param icons icons written to the KMZ file by icon id
+   * @return location of the image within the KMZ file
+   */
+  private addIcon(icon: IconRow, icons: Map<number, KmzIcon>): string {
+    if (!icons.has(icon.id)) {
+      const type = fileType(icon.data);
+      const extension = type ? type.ext : icon.contentType.replace(/^.*\//, '');
+      icons.set(icon.id, {
+        href: KmlExporter.KMZ_FILES_DIRECTORY + '/icon_' + icon.id + '.' + extension,
+        data: icon.data,
+      });
+    }
+    return icons.get(icon.id).href;
+  }
+
+  /**
+   * Get the id of the KML style of a feature style
+   * @param featureStyle feature style
+   * @return style id, undefined if the feature style has no style or icon
+   */
+  static getStyleId(featureStyle: FeatureStyle): string {
+    const parts: string[] = [];
+    if (featureStyle.style) {
+      parts.push('style' + featureStyle.style.id);
+    }
+    if (featureStyle.icon) {
+      parts.push('icon' + featureStyle.icon.id);
+    }
+    return parts.length ? parts.join('_') : undefined;
+  }
+
+  /**
+   * Write a GeoJSON geometry as a KML geometry.  Altitudes are written with an absolute altitude mode.
+   * @param geometry geometry
+   * @param precision number of decimal places coordinates are rounded to
+   * @return geometry element
+   */
+  static writeGeometry(geometry: Geometry, precision?: number): string {
+    const coordinates = (positions: Position[]): string =>
+      '<coordinates>' +
+      positions
+        .map(position =>
+          position
+            .slice(0, 3)
+            .map(value => (precision != null ? KmlExporter.round(value, precision) : value))
+            .join(','),
+        )
+        .join(' ') +
+      '</coordinates>';
+    const altitudeMode = (positions: Position[]): string =>
+      positions.some(position => position.length > 2) ? '<altitudeMode>absolute</altitudeMode>' : '';
+    const ring = (positions: Position[]): string =>
+      '<LinearRing>' + altitudeMode(positions) + coordinates(positions) + '</LinearRing>';
+    switch (geometry.type) {
+      case 'Point':
+        return '<Point>' + altitudeMode([geometry.coordinates]) + coordinates([geometry.coordinates]) + '</Point>\n';
+      case 'LineString':
+        return (
+          '<LineString>' + altitudeMode(geometry.coordinates) + coordinates(geometry.coordinates) + '</LineString>\n'
+        );
+      case 'Polygon':
+        return (
+          '<Polygon>' +
+          geometry.coordinates
+            .map(
+              (positions, i) =>
+                (i === 0 ? '<outerBoundaryIs>' : '<innerBoundaryIs>') +
+                ring(positions) +
+                (i === 0 ? '</outerBoundaryIs>' : '</innerBoundaryIs>'),
+            )
+            .join('') +
+          '</Polygon>\n'
+        );
+      case 'MultiPoint':
+        return KmlExporter.writeMultiGeometry(
+          geometry.coordinates.map(position => ({ type: 'Point', coordinates: position } as Geometry)),
+          precision,
+        );
+      case 'MultiLineString':
+        return KmlExporter.writeMultiGeometry(
+          geometry.coordinates.map(positions => ({ type: 'LineString', coordinates: positions } as Geometry)),
+          precision,
+        );
+      case 'MultiPolygon':
+        return KmlExporter.writeMultiGeometry(
+          geometry.coordinates.map(rings => ({ type: 'Polygon', coordinates: rings } as Geometry)),
+          precision,
+        );
+      case 'GeometryCollection':
+        return KmlExporter.writeMultiGeometry(geometry.geometries, precision);
+      default:
+        return '';
+    }
+  }
+
+  private static writeMultiGeometry(geometries: Geometry[], precision?: number): string {
+    return (
+      '<MultiGeometry>\n' +
+      geometries.map(geometry => KmlExporter.writeGeometry(geometry, precision)).join('') +
+      '</MultiGeometry>\n'
+    );
+  }
+
+  /**
+   * Convert a color to the KML aabbggrr format
+   * @param hexColor color in #RRGGBB or #RGB format
+   * @param opacity opacity between 0 and 1
+   * @return KML color
+   */
+  static toKmlColor(hexColor: string, opacity: number): string {
+    let hex = hexColor.replace('#', '');
+    if (hex.length === 3) {
+      hex = hex.replace(/(.)/g, '$1$1');
+    }
+    const alpha = ('0' + Math.round(opacity * 255).toString(16)).slice(-2);
+    return (alpha + hex.substring(4, 6) + hex.substring(2, 4) + hex.substring(0, 2)).toLowerCase();
+  }
+
+  /**
+   * Get the KML field type of a data type
+   * @param dataType data type
+   * @return field type, undefined if values of the type are not written
+   */
+  private static getFieldType(dataType: GeoPackageDataType): string {
+    switch (dataType) {
+      case GeoPackageDataType.BOOLEAN:
+        return 'bool';
+      case GeoPackageDataType.TINYINT:
+      case GeoPackageDataType.SMALLINT:
+      case GeoPackageDataType.MEDIUMINT:
+      case GeoPackageDataType.INT:
+      case GeoPackageDataType.INTEGER:
+        return 'int';
+      case GeoPackageDataType.FLOAT:
+      case GeoPackageDataType.DOUBLE:
+      case GeoPackageDataType.REAL:
+        return 'double';
+      case GeoPackageDataType.BLOB:
+        return undefined;
+      default:
+        return 'string';
+    }
+  }
+
+  private static toText(value: any): string {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (typeof value === 'boolean') {
+      return value ? '1' : '0';
+    }
+    return value.toString();
+  }
+
+  /**
+   * Build a valid XML id from text
+   * @param text text
+   * @return id
+   */
+  private static toId(text: string): string {
+    const id = text.replace(/[^\w.-]/g, '_');
+    return /^[A-Za-z_]/.test(id) ? id : '_' + id;
+  }
+
+  private static round(value: number, precision: number): number {
+    const factor = Math.pow(10, precision);
+    return Math.round(value * factor) / factor;
+  }
+
+  /**
+   * Escape text for an XML element or attribute
+   * @param text text
+   * @return escaped text
+   */
+  static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
@@ -0,0 +1,386 @@
+/**
+ * KML and KMZ import
+ * @module io/kml
+ */
+import fs from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+import fileType from 'file-type';
+import { Feature } from 'geojson';
+
+import { GeoPackage } from '../../geoPackage';
+import { KmlPlacemark, KmlReader, KmlStyle } from './kmlReader';
+import { GeoJSONImporter } from '../geojson/geoJSONImporter';
+import { IOUtils } from '../ioUtils';
+import { FeatureStyle } from '../../extension/style/featureStyle';
+import { StyleRow } from '../../extension/style/styleRow';
+import { IconRow } from '../../extension/style/iconRow';
+import { ImageUtils } from '../../tiles/imageUtils';
+
+/**
+ * Sources a KML import can read from: the path to a .kml or .kmz file (Node only) or the contents of a KML document
+ * or a KMZ file
+ */
+export type KmlSource = string | Buffer | ArrayBuffer | Uint8Array;
+
+/**
+ * Options for a KML import
+ */
+export interface KmlImportOptions {
+  /**
+   * name of the geometry column. Defaults to `geometry`.
+   */
+  geometryColumnName?: string;
+  /**
+   * number of placemarks inserted in a single transaction. Defaults to 1000.
+   */
+  batchSize?: number;
+  /**
+   * index the table once all placemarks are inserted
+   */
+  index?: boolean;
+  /**
+   * called after each batch is inserted with the number of placemarks added so far
+   */
+  progress?: (featuresAdded: number) => void;
+  /**
+   * import the styles and icons of the placemarks into the feature style extension. Defaults to true.
+   */
+  styles?: boolean;
+}
+
+/**
+ * A KML document and access to the files it references
+ */
+interface KmlDocument {
+  /**
+   * KML text
+   */
+  kml: string;
+  /**
+   * read a file referenced by the document
+   */
+  readFile: (href: string) => Promise<Buffer>;
+}
+
+/**
+ * Imports the placemarks of a KML document or KMZ file into a new feature table.  The name, description and extended
+ * data of the placemarks become columns.  The styles of the placemarks are written to the feature style extension,
+ * as the table default when all placemarks share a style and otherwise for each placemark, and icon images are
+ * embedded in the icon table.  Icons that are not files within the KMZ or next to the KML file are not fetched.
+ */
+export class KmlImporter {
+  /**
+   * @param geoPackage GeoPackage to import into
+   */
+  constructor(public readonly geoPackage: GeoPackage) {}
+
+  /**
+   * Import the placemarks into a new feature table
+   * @param source KML or KMZ to import
+   * @param tableName name of the feature table to create
+   * @param options import options
+   * @return number of placemarks inserted
+   */
+  async importKml(source: KmlSource, tableName: string, options: KmlImportOptions = {}): Promise<number> {
+    if (this.geoPackage.isTable(tableName)) {
+      throw new Error('Table already exists: ' + tableName);
+    }
+    const document = await KmlImporter.readSource(source);
+    const reader = new KmlReader();
+    const placemarks = reader.readDocument(document.kml);
+    const features = new Map<Feature, KmlPlacemark>();
+    placemarks.forEach(placemark => {
+      const feature: Feature = {
+        type: 'Feature',
+        geometry: placemark.geometry,
+        properties: placemark.properties,
+      };
+      if (placemark.id) {
+        feature.id = placemark.id;
+      }
+      features.set(feature, placemark);
+    });
+
+    return IOUtils.deleteTablesOnError(this.geoPackage, [tableName], async () => {
+      const featureStyles = new Map<number, KmlStyle>();
+      const inserted = await new GeoJSONImporter(this.geoPackage).importGeoJSON(
+        Array.from(features.keys()),
+        tableName,
+        {
+          geometryColumnName: options.geometryColumnName,
+          batchSize: options.batchSize,
+          progress: options.progress,
+          featureInserted: (feature: Feature, featureId: number) => {
+            const style = reader.resolveStyle(features.get(feature));
+            if (style) {
+              featureStyles.set(featureId, style);
+            }
+          },
+        },
+      );
+      if (options.styles !== false && featureStyles.size > 0) {
+        await this.importStyles(tableName, featureStyles, inserted, document);
+      }
+      if (options.index) {
+        await this.geoPackage.getFeatureDao(tableName).index();
+      }
+      return inserted;
+    });
+  }
+
+  /**
+   * Write the styles of the placemarks to the feature style extension
+   * @param tableName feature table name
+   * @param featureStyles style of each styled feature by feature id
+   * @param featureCount number of features in the table
+   * @param document KML document
+   */
+  private async importStyles(
+    tableName: string,
+    featureStyles: Map<number, KmlStyle>,
+    featureCount: number,
+    document: KmlDocument,
+  ): Promise<void> {
+    const extension = this.geoPackage.featureStyleExtension;
+    const styleKeys = new Set<string>();
+    featureStyles.forEach(style => styleKeys.add(JSON.stringify(style)));
+    const tableDefault = featureStyles.size === featureCount && styleKeys.size === 1;
+    if (tableDefault) {
+      extension.createTableStyleRelationship(tableName);
+      extension.createTableIconRelationship(tableName);
+    } else {
+      extension.createStyleRelationship(tableName);
+      extension.createIconRelationship(tableName);
+    }
+
+    // placemarks sharing a style share its rows
+    const cache = new Map<string, FeatureStyle>();
+    for (const style of Array.from(featureStyles.values())) {
+      const key = JSON.stringify(style);
+      if (!cache.has(key)) {
+        cache.set(key, new FeatureStyle(this.createStyle(style), await this.createIcon(style, document)));
+      }
+    }
+
+    if (tableDefault) {
+      const featureStyle = cache.values().next().value as FeatureStyle;
+      if (featureStyle.style) {
+        extension.setTableStyleDefault(tableName, featureStyle.style);
+      }
+      if (featureStyle.icon) {
+        extension.setTableIconDefault(tableName, featureStyle.icon);
+      }
+      return;
+    }
+    this.geoPackage.connection.transaction(() => {
+      featureStyles.forEach((style, featureId) => {
+        const featureStyle = cache.get(JSON.stringify(style));
+        if (featureStyle.style || featureStyle.icon) {
+          extension.setFeatureStyle(tableName, featureId, null, featureStyle);
+        }
+      });
+    });
+  }
+
+  /**
+   * Create the style row of a KML style
+   * @param style KML style
+   * @return style row, null if the style has no line, fill or icon color
+   */
+  private createStyle(style: KmlStyle): StyleRow {
+    const lineColor = KmlReader.parseColor(style.lineColor) || KmlReader.parseColor(style.iconColor);
+    const fillColor = style.fill !== false ? KmlReader.parseColor(style.polyColor) : undefined;
+    if (!lineColor && !fillColor && style.lineWidth === undefined) {
+      return null;
+    }
+    const styleRow = this.geoPackage.featureStyleExtension.getStyleDao().newRow();
+    if (style.id) {
+      styleRow.setName(style.id);
+    }
+    if (lineColor) {
+      styleRow.setColor(lineColor.color, lineColor.opacity);
+    }
+    if (style.lineWidth !== undefined) {
+      styleRow.setWidth(style.lineWidth);
+    }
+    if (fillColor) {
+      styleRow.setFillColor(fillColor.color, fillColor.opacity);
+    }
+    return styleRow;
+  }
+
+  /**
+   * Create the icon row of a KML style
+   * @param style KML style
+   * @param document KML document
+   * @return icon row, null if the style has no icon or its image can not be read
+   */
+  private async createIcon(style: KmlStyle, document: KmlDocument): Promise<IconRow> {
+    if (!style.iconHref) {
+      return null;
+    }
+    const data = await document.readFile(style.iconHref);
+    const type = data ? fileType(data) : undefined;
+    if (!type || type.mime.indexOf('image/') !== 0) {
+      return null;
+    }
+    const iconRow = this.geoPackage.featureStyleExtension.getIconDao().newRow();
+    iconRow.data = data;
+    iconRow.contentType = type.mime;
+    iconRow.name = style.iconHref.replace(/^.*[\\/]/, '');
+    let size: { width: number; height: number };
+    try {
+      size = ImageUtils.getImageSize(data);
+    } catch (e) {
+      size = undefined;
+    }
+    if (size && style.iconScale !== undefined && style.iconScale !== 1) {
+      iconRow.width = size.width * style.iconScale;
+      iconRow.height = size.height * style.iconScale;
+    }
+    if (style.hotSpot) {
+      // KML hot spots are measured from the bottom left, GeoPackage anchors from the top left
+      const anchorU = KmlImporter.toFraction(style.hotSpot.x, style.hotSpot.xunits, size ? size.width : undefined);
+      const anchorV = KmlImporter.toFraction(style.hotSpot.y, style.hotSpot.yunits, size ? size.height : undefined);
+      if (anchorU !== undefined) {
+        iconRow.anchorU = anchorU;
+      }
+      if (anchorV !== undefined) {
+        iconRow.anchorV = 1 - anchorV;
+      }
+    }
+    return iconRow;
+  }
+
+  /**
+   * Convert a hot spot coordinate to a fraction of the image size measured from the bottom left
+   * @param value hot spot coordinate
+   * @param units `fraction`, `pixels` or `insetPixels`
+   * @param size image size in pixels
+   * @return fraction between 0 and 1, undefined if the image size is needed and unknown
+   */
+  private static toFraction(value: number, units: string, size: number): number {
+    let fraction: number;
+    if (units === 'pixels' || units === 'insetPixels') {
+      if (!size) {
+        return undefined;
+      }
+      fraction = units === 'pixels' ? value / size : 1 - value / size;
+    } else {
+      fraction = value;
+    }
+    return Math.min(1, Math.max(0, fraction));
+  }
+
+  /**
+   * Read the KML document from the source
+   * @param source KML or KMZ source
+   * @return KML document
+   */
+  private static async readSource(source: KmlSource): Promise<KmlDocument> {
+    if (typeof source === 'string') {
+      const data = await new Promise<Buffer>((resolve, reject) => {
+        fs.readFile(source, (err, fileData) => (err ? reject(err) : resolve(fileData)));
+      });
+      if (KmlImporter.isZip(data)) {
+        return KmlImporter.readKmz(data);
+      }
+      const directory = path.dirname(source);
+      return {
+        kml: data.toString('utf8'),
+        readFile: (href: string): Promise<Buffer> =>
+          KmlImporter.isRemote(href)
+            ? Promise.resolve(undefined)
+            : new Promise(resolve => {
+                const filePath = KmlImporter.getFilePath(directory, href);
+                if (!filePath) {
+                  resolve(undefined);
+                  return;
+                }
+                fs.readFile(filePath, (err, fileData) => resolve(err ? undefined : fileData));
+              }),
+      };
+    }
+    const data = Buffer.from(source instanceof ArrayBuffer ? new Uint8Array(source) : source);
+    if (KmlImporter.isZip(data)) {
+      return KmlImporter.readKmz(data);
+    }
+    return { kml: data.toString('utf8'), readFile: (): Promise<Buffer> => Promise.resolve(undefined) };
+  }
+
+  /**
+   * Read the KML document of a KMZ file, the root doc.kml or otherwise the first KML document in the file
+   * @param data KMZ contents
+   * @return KML document
+   */
+  private static async readKmz(data: Buffer | Uint8Array): Promise<KmlDocument> {
+    const zip = await JSZip.loadAsync(data);
+    const kmlFiles = zip.file(/\.kml$/i).filter(file => !/(^|\/)__MACOSX\//.test(file.name));
+    const kmlFile = kmlFiles.find(file => file.name.toLowerCase() === 'doc.kml') || kmlFiles[0];
+    if (!kmlFile) {
+      throw new Error('KML document does not exist in KMZ');
+    }
+    const directory = path.posix.dirname(kmlFile.name);
+    return {
+      kml: await kmlFile.async('string'),
+      readFile: async (href: string): Promise<Buffer> => {
+        if (KmlImporter.isRemote(href)) {
+          return undefined;
+        }
+        const filePath = KmlImporter.getKmzPath(directory, href);
+        const file = filePath ? zip.file(filePath) : undefined;
+        return file ? Buffer.from(await file.async('uint8array')) : undefined;
+      },
+    };
+  }
+
+  /**
+   * Get the path of a file in a KMZ file from its href
+   * @param directory directory of the KML document in the KMZ file
+   * @param href href relative to the KML document
+   * @return path, undefined for a malformed href or one outside of the KMZ file
+   */
+  static getKmzPath(directory: string, href: string): string {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(href);
+    } catch (e) {
+      return undefined;
+    }
+    const filePath = path.posix.normalize(path.posix.join(directory, decoded));
+    if (filePath === '..' || filePath.startsWith('../')) {
+      return undefined;
+    }
+    return filePath;
+  }
+
+  /**
+   * Get the path of a file next to a KML file from its href
+   * @param directory directory of the KML file
+   * @param href href relative to the KML file
+   * @return path, undefined for a malformed href or one outside of the directory of the KML file
+   */
+  static getFilePath(directory: string, href: string): string {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(href);
+    } catch (e) {
+      return undefined;
+    }
+    const filePath = path.resolve(directory, decoded);
+    const relativePath = path.relative(path.resolve(directory), filePath);
+    if (relativePath === '..' || relativePath.startsWith('..' + path.sep) || path.isAbsolute(relativePath)) {
+      return undefined;
+    }
+    return filePath;
+  }
+
+  private static isZip(data: Buffer): boolean {
+    return data.length > 4 && data.readUInt32LE(0) === 0x04034b50;
+  }
+
+  private static isRemote(href: string): boolean {
+    return /^[a-z][a-z0-9+.-]+:/i.test(href);
+  }
+}
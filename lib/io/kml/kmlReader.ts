@@ -0,0 +1,494 @@
+/**
+ * KML reader
+ * @module io/kml
+ */
+import { Geometry, LineString, Point, Polygon, Position } from 'geojson';
+import { XmlElement, XmlElementReader } from '../xml/xmlElementReader';
+
+/**
+ * Hot spot of an icon, the point of the icon anchored to the placemark
+ */
+export interface KmlHotSpot {
+  x: number;
+  y: number;
+  /**
+   * `fraction`, `pixels` or `insetPixels`
+   */
+  xunits: string;
+  /**
+   * `fraction`, `pixels` or `insetPixels`
+   */
+  yunits: string;
+}
+
+/**
+ * The parts of a KML `<Style>` that can be represented in a GeoPackage
+ */
+export interface KmlStyle {
+  /**
+   * id of a shared style
+   */
+  id?: string;
+  /**
+   * `<LineStyle>` color in KML aabbggrr format
+   */
+  lineColor?: string;
+  /**
+   * `<LineStyle>` width in pixels
+   */
+  lineWidth?: number;
+  /**
+   * `<PolyStyle>` color in KML aabbggrr format
+   */
+  polyColor?: string;
+  /**
+   * false if polygons are not filled
+   */
+  fill?: boolean;
+  /**
+   * `<IconStyle>` color in KML aabbggrr format
+   */
+  iconColor?: string;
+  /**
+   * `<IconStyle>` scale
+   */
+  iconScale?: number;
+  /**
+   * location of the icon image
+   */
+  iconHref?: string;
+  /**
+   * `<IconStyle>` hot spot
+   */
+  hotSpot?: KmlHotSpot;
+}
+
+/**
+ * A KML `<Placemark>`
+ */
+export interface KmlPlacemark {
+  /**
+   * id attribute of the placemark
+   */
+  id?: string;
+  /**
+   * name, description and `<ExtendedData>` values
+   */
+  properties: Record<string, any>;
+  /**
+   * geometry as GeoJSON, null if the placemark has none
+   */
+  geometry: Geometry;
+  /**
+   * url of the shared style of the placemark
+   */
+  styleUrl?: string;
+  /**
+   * inline style of the placemark
+   */
+  style?: KmlStyle;
+}
+
+/**
+ * Incrementally reads the placemarks and shared styles of a KML document.  Shared styles, style maps and schemas are
+ * collected as they are read so the style of each placemark can be resolved once the whole document is read.
+ */
+export class KmlReader {
+  /**
+   * Altitude modes for which altitudes are kept, altitudes are ignored when clamped to the ground or sea floor
+   */
+  public static readonly ALTITUDE_MODES: string[] = ['absolute', 'relativeToGround', 'relativeToSeaFloor'];
+
+  /**
+   * Shared styles by id
+   */
+  readonly styles = new Map<string, KmlStyle>();
+  /**
+   * Url or inline style of the normal style of each style map by id
+   */
+  readonly styleMaps = new Map<string, string | KmlStyle>();
+  /**
+   * Field types of each schema by id
+   */
+  readonly schemas = new Map<string, Record<string, string>>();
+
+  private readonly reader = new XmlElementReader(['Placemark', 'Style', 'StyleMap', 'Schema']);
+
+  /**
+   * Push the next chunk of the document into the reader
+   * @param chunk next chunk of the KML document
+   * @return placemarks completed by this chunk
+   */
+  push(chunk: string): KmlPlacemark[] {
+    return this.read(this.reader.push(chunk));
+  }
+
+  /**
+   * Signal the end of the document
+   * @return placemarks completed by the end of the document
+   */
+  end(): KmlPlacemark[] {
+    return this.read(this.reader.end());
+  }
+
+  /**
+   * Read all placemarks of a KML document
+   * @param text KML document
+   * @return placemarks
+   */
+  readDocument(text: string): KmlPlacemark[] {
+    return this.push(text).concat(this.end());
+  }
+
+  /**
+   * Resolve the style of the placemark, its inline style overriding the parts of its shared style
+   * @param placemark placemark
+   * @return style, undefined if the placemark has no style
+   */
+  resolveStyle(placemark: KmlPlacemark): KmlStyle {
+    const shared = this.getSharedStyle(placemark.styleUrl);
+    if (!placemark.style) {
+      return shared;
+    }
+    return Object.assign({}, shared, placemark.style);
+  }
+
+  /**
+   * Get a shared style, following style maps to their normal style
+   * @param styleUrl style url
+   * @return style, undefined if the url does not reference a style of the document
+   */
+  private getSharedStyle(styleUrl: string): KmlStyle {
+    // style maps may reference other style maps, the depth limit guards against cycles
+    for (let depth = 0; styleUrl && depth < 10; depth++) {
+      const id = styleUrl.substring(styleUrl.indexOf('#') + 1);
+      if (this.styles.has(id)) {
+        return this.styles.get(id);
+      }
+      const normal = this.styleMaps.get(id);
+      if (normal === undefined || typeof normal !== 'string') {
+        return normal as KmlStyle;
+      }
+      styleUrl = normal;
+    }
+    return undefined;
+  }
+
+  private read(elements: XmlElement[]): KmlPlacemark[] {
+    const placemarks: KmlPlacemark[] = [];
+    elements.forEach(element => {
+      switch (element.name) {
+        case 'Placemark':
+          placemarks.push(this.readPlacemark(element));
+          break;
+        case 'Style':
+          if (element.attributes.id) {
+            this.styles.set(element.attributes.id, KmlReader.readStyle(element));
+          }
+          break;
+        case 'StyleMap':
+          this.readStyleMap(element);
+          break;
+        case 'Schema':
+          this.readSchema(element);
+          break;
+        default:
+          break;
+      }
+    });
+    return placemarks;
+  }
+
+  private readPlacemark(element: XmlElement): KmlPlacemark {
+    const properties: Record<string, any> = {};
+    const name = XmlElementReader.getChildText(element, 'name');
+    if (name !== undefined) {
+      properties.name = name;
+    }
+    const description = XmlElementReader.getChildText(element, 'description');
+    if (description !== undefined) {
+      properties.description = description;
+    }
+    const extendedData = XmlElementReader.getChild(element, 'ExtendedData');
+    XmlElementReader.getChildren(extendedData, 'Data').forEach(data => {
+      if (data.attributes.name) {
+        const value = XmlElementReader.getChildText(data, 'value');
+        properties[data.attributes.name] = value !== undefined ? value : null;
+      }
+    });
+    XmlElementReader.getChildren(extendedData, 'SchemaData').forEach(schemaData => {
+      const schemaUrl = schemaData.attributes.schemaUrl || '';
+      const fieldTypes = this.schemas.get(schemaUrl.substring(schemaUrl.indexOf('#') + 1)) || {};
+      XmlElementReader.getChildren(schemaData, 'SimpleData').forEach(simpleData => {
+        if (simpleData.attributes.name) {
+          properties[simpleData.attributes.name] = KmlReader.toValue(
+            simpleData.text,
+            fieldTypes[simpleData.attributes.name],
+          );
+        }
+      });
+    });
+
+    let geometry: Geometry = null;
+    for (const child of element.children) {
+      geometry = KmlReader.readGeometry(child);
+      if (geometry !== undefined) {
+        break;
+      }
+    }
+    const style = XmlElementReader.getChild(element, 'Style');
+    return {
+      id: element.attributes.id,
+      properties,
+      geometry: geometry || null,
+      styleUrl: XmlElementReader.getChildText(element, 'styleUrl'),
+      style: style ? KmlReader.readStyle(style) : undefined,
+    };
+  }
+
+  private readStyleMap(element: XmlElement): void {
+    const id = element.attributes.id;
+    const normal = XmlElementReader.getChildren(element, 'Pair').find(
+      pair => XmlElementReader.getChildText(pair, 'key') === 'normal',
+    );
+    if (id && normal) {
+      const style = XmlElementReader.getChild(normal, 'Style');
+      this.styleMaps.set(id, style ? KmlReader.readStyle(style) : XmlElementReader.getChildText(normal, 'styleUrl'));
+    }
+  }
+
+  private readSchema(element: XmlElement): void {
+    const fieldTypes: Record<string, string> = {};
+    XmlElementReader.getChildren(element, 'SimpleField').forEach(field => {
+      fieldTypes[field.attributes.name] = field.attributes.type;
+    });
+    // schema data references schemas by id, older documents by name
+    [element.attributes.id, element.attributes.name].forEach(id => {
+      if (id) {
+        this.schemas.set(id, fieldTypes);
+      }
+    });
+  }
+
+  /**
+   * Read the parts of a `<Style>` element
+   * @param element style element
+   * @return style
+   */
+  static readStyle(element: XmlElement): KmlStyle {
+    const style: KmlStyle = {};
+    if (element.attributes.id) {
+      style.id = element.attributes.id;
+    }
+    const lineStyle = XmlElementReader.getChild(element, 'LineStyle');
+    if (lineStyle) {
+      KmlReader.setIfDefined(style, 'lineColor', XmlElementReader.getChildText(lineStyle, 'color'));
+      KmlReader.setIfDefined(style, 'lineWidth', KmlReader.toNumber(XmlElementReader.getChildText(lineStyle, 'width')));
+    }
+    const polyStyle = XmlElementReader.getChild(element, 'PolyStyle');
+    if (polyStyle) {
+      KmlReader.setIfDefined(style, 'polyColor', XmlElementReader.getChildText(polyStyle, 'color'));
+      KmlReader.setIfDefined(style, 'fill', KmlReader.toBoolean(XmlElementReader.getChildText(polyStyle, 'fill')));
+    }
+    const iconStyle = XmlElementReader.getChild(element, 'IconStyle');
+    if (iconStyle) {
+      KmlReader.setIfDefined(style, 'iconColor', XmlElementReader.getChildText(iconStyle, 'color'));
+      KmlReader.setIfDefined(style, 'iconScale', KmlReader.toNumber(XmlElementReader.getChildText(iconStyle, 'scale')));
+      const href = XmlElementReader.getChildText(XmlElementReader.getChild(iconStyle, 'Icon'), 'href');
+      if (href) {
+        style.iconHref = href;
+      }
+      const hotSpot = XmlElementReader.getChild(iconStyle, 'hotSpot');
+      if (hotSpot) {
+        style.hotSpot = {
+          x: KmlReader.toNumber(hotSpot.attributes.x) || 0,
+          y: KmlReader.toNumber(hotSpot.attributes.y) || 0,
+          xunits: hotSpot.attributes.xunits || 'fraction',
+          yunits: hotSpot.attributes.yunits || 'fraction',
+        };
+      }
+    }
+    return style;
+  }
+
+  /**
+   * Read a KML geometry element as a GeoJSON geometry
+   * @param element geometry element
+   * @return geometry, null if the geometry is empty, undefined if the element is not a geometry
+   */
+  static readGeometry(element: XmlElement): Geometry {
+    const altitude = KmlReader.isAltitudeKept(element);
+    switch (element.name) {
+      case 'Point': {
+        const positions = KmlReader.readCoordinates(XmlElementReader.getChildText(element, 'coordinates'), altitude);
+        return positions.length ? { type: 'Point', coordinates: positions[0] } : null;
+      }
+      case 'LineString':
+      case 'LinearRing': {
+        const positions = KmlReader.readCoordinates(XmlElementReader.getChildText(element, 'coordinates'), altitude);
+        return positions.length ? { type: 'LineString', coordinates: positions } : null;
+      }
+      case 'Polygon': {
+        const readRings = (boundaryName: string): Position[][] =>
+          XmlElementReader.getChildren(element, boundaryName)
+            .map(boundary => XmlElementReader.getChildren(boundary, 'LinearRing'))
+            .reduce((rings, linearRings) => rings.concat(linearRings), [])
+            .map(ring => KmlReader.readCoordinates(XmlElementReader.getChildText(ring, 'coordinates'), altitude))
+            .filter(ring => ring.length);
+        const outer = readRings('outerBoundaryIs');
+        return outer.length
+          ? { type: 'Polygon', coordinates: outer.slice(0, 1).concat(readRings('innerBoundaryIs')) }
+          : null;
+      }
+      case 'Track': {
+        const positions = XmlElementReader.getChildren(element, 'coord').map(coord =>
+          KmlReader.toPosition(coord.text.split(/\s+/), altitude),
+        );
+        if (positions.length === 0) {
+          return null;
+        }
+        return positions.length === 1
+          ? { type: 'Point', coordinates: positions[0] }
+          : { type: 'LineString', coordinates: positions };
+      }
+      case 'MultiTrack':
+      case 'MultiGeometry': {
+        const geometries: Geometry[] = [];
+        element.children.forEach(child => {
+          const geometry = KmlReader.readGeometry(child);
+          if (geometry) {
+            geometries.push(geometry);
+          }
+        });
+        return KmlReader.toMultiGeometry(geometries);
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Combine the geometries of a `<MultiGeometry>` into a multi geometry if they share a type, otherwise into a
+   * geometry collection
+   * @param geometries geometries
+   * @return geometry, null if there are no geometries
+   */
+  static toMultiGeometry(geometries: Geometry[]): Geometry {
+    if (geometries.length === 0) {
+      return null;
+    }
+    const points = geometries.filter((geometry): geometry is Point => geometry.type === 'Point');
+    if (points.length === geometries.length) {
+      return { type: 'MultiPoint', coordinates: points.map(point => point.coordinates) };
+    }
+    const lineStrings = geometries.filter((geometry): geometry is LineString => geometry.type === 'LineString');
+    if (lineStrings.length === geometries.length) {
+      return { type: 'MultiLineString', coordinates: lineStrings.map(lineString => lineString.coordinates) };
+    }
+    const polygons = geometries.filter((geometry): geometry is Polygon => geometry.type === 'Polygon');
+    if (polygons.length === geometries.length) {
+      return { type: 'MultiPolygon', coordinates: polygons.map(polygon => polygon.coordinates) };
+    }
+    return { type: 'GeometryCollection', geometries };
+  }
+
+  /**
+   * Read the positions of a `<coordinates>` element
+   * @param text coordinates text, tuples of longitude,latitude[,altitude] separated by whitespace
+   * @param altitude true to keep altitudes
+   * @return positions
+   */
+  static readCoordinates(text: string, altitude: boolean): Position[] {
+    if (!text) {
+      return [];
+    }
+    return text
+      .trim()
+      .split(/\s+/)
+      .map(tuple => KmlReader.toPosition(tuple.split(','), altitude))
+      .filter(position => position.length >= 2 && !isNaN(position[0]) && !isNaN(position[1]));
+  }
+
+  private static toPosition(values: string[], altitude: boolean): Position {
+    const position = [parseFloat(values[0]), parseFloat(values[1])];
+    if (altitude) {
+      const z = parseFloat(values[2]);
+      position.push(isNaN(z) ? 0 : z);
+    }
+    return position;
+  }
+
+  /**
+   * Determine if the altitudes of a geometry are kept, they are ignored unless the geometry has an altitude mode
+   * that places it above the ground
+   * @param element geometry element
+   * @return true if the altitudes are kept
+   */
+  private static isAltitudeKept(element: XmlElement): boolean {
+    const altitudeMode = XmlElementReader.getChildText(element, 'altitudeMode');
+    return altitudeMode !== undefined && KmlReader.ALTITUDE_MODES.indexOf(altitudeMode) !== -1;
+  }
+
+  /**
+   * Convert the text of a `<SimpleData>` element to the type of its `<SimpleField>`
+   * @param text text
+   * @param type field type
+   * @return value
+   */
+  static toValue(text: string, type: string): any {
+    switch (type) {
+      case 'int':
+      case 'uint':
+      case 'short':
+      case 'ushort': {
+        const value = parseInt(text, 10);
+        return isNaN(value) ? null : value;
+      }
+      case 'float':
+      case 'double': {
+        const value = parseFloat(text);
+        return isNaN(value) ? null : value;
+      }
+      case 'bool': {
+        const value = KmlReader.toBoolean(text);
+        return value === undefined ? null : value;
+      }
+      default:
+        return text;
+    }
+  }
+
+  /**
+   * Parse a KML color
+   * @param kmlColor color in KML aabbggrr format
+   * @return hex color in #RRGGBB format and opacity between 0 and 1, undefined if the color is not valid
+   */
+  static parseColor(kmlColor: string): { color: string; opacity: number } {
+    if (!kmlColor || !/^#?[0-9a-fA-F]{8}$/.test(kmlColor.trim())) {
+      return undefined;
+    }
+    const hex = kmlColor.trim().replace('#', '');
+    return {
+      color: ('#' + hex.substring(6, 8) + hex.substring(4, 6) + hex.substring(2, 4)).toUpperCase(),
+      opacity: Math.round((parseInt(hex.substring(0, 2), 16) / 255) * 100) / 100,
+    };
+  }
+
+  private static toNumber(text: string): number {
+    const value = text !== undefined ? parseFloat(text) : NaN;
+    return isNaN(value) ? undefined : value;
+  }
+
+  private static toBoolean(text: string): boolean {
+    if (text === '1' || text === 'true') {
+      return true;
+    }
+    return text === '0' || text === 'false' ? false : undefined;
+  }
+
+  private static setIfDefined<K extends keyof KmlStyle>(style: KmlStyle, key: K, value: KmlStyle[K]): void {
+    if (value !== undefined) {
+      style[key] = value;
+    }
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * MBTiles export
+ * @module io/mbtiles
+ */
+import fs from 'fs';
+import fileType from 'file-type';
+
+import { GeoPackage } from '../../geoPackage';
+import { Db } from '../../db/db';
+import { DBAdapter } from '../../db/dbAdapter';
+import { BoundingBox } from '../../boundingBox';
+import { TileDao } from '../../tiles/user/tileDao';
+import { TileRow } from '../../tiles/user/tileRow';
+import { TileMatrix } from '../../tiles/matrix/tileMatrix';
+import { TileMatrixSet } from '../../tiles/matrixset/tileMatrixSet';
+import { TileBoundingBoxUtils } from '../../tiles/tileBoundingBoxUtils';
+import { GeoPackageTileRetriever } from '../../tiles/retriever';
+import { ProjectionConstants } from '../../projection/projectionConstants';
+import { IOUtils } from '../ioUtils';
+
+/**
+ * Options for an MBTiles export
+ */
+export interface MBTilesExportOptions {
+  /**
+   * name written to the metadata. Defaults to the contents identifier.
+   */
+  name?: string;
+  /**
+   * description written to the metadata. Defaults to the contents description.
+   */
+  description?: string;
+  /**
+   * lowest web map zoom level to export. Defaults to the lowest web map zoom level of the tile matrices.
+   */
+  minZoom?: number;
+  /**
+   * highest web map zoom level to export. Defaults to the highest web map zoom level of the tile matrices.
+   */
+  maxZoom?: number;
+  /**
+   * width and height in pixels of the tiles of a table that is reprojected. Defaults to 256.
+   */
+  tileSize?: number;
+  /**
+   * number of tiles written in a single transaction. Defaults to 1000.
+   */
+  batchSize?: number;
+  /**
+   * called after each batch is written with the number of tiles written so far
+   */
+  progress?: (tilesWritten: number) => void;
+}
+
+/**
+ * Position of the tiles of a tile matrix in the web mercator XYZ tile scheme
+ */
+interface XyzTileMatrix {
+  zoom: number;
+  /**
+   * XYZ column of the first tile column
+   */
+  x: number;
+  /**
+   * XYZ row of the first tile row
+   */
+  y: number;
+}
+
+/**
+ * A tile to write to the MBTiles `tiles` table
+ */
+interface MBTile {
+  zoom: number;
+  x: number;
+  y: number;
+  data: Buffer;
+}
+
+/**
+ * Writes tiles to the MBTiles `tiles` table in batched transactions
+ */
+class MBTilesWriter {
+  written = 0;
+  private batch: MBTile[] = [];
+
+  /**
+   * @param adapter connection to the MBTiles file
+   * @param batchSize number of tiles written in a single transaction
+   * @param progress called after each batch is written with the number of tiles written so far
+   */
+  constructor(
+    private readonly adapter: DBAdapter,
+    private readonly batchSize: number,
+    private readonly progress?: (tilesWritten: number) => void,
+  ) {}
+
+  /**
+   * Add a tile, writing the batch once it is full
+   * @param tile tile in the XYZ tile scheme
+   */
+  async add(tile: MBTile): Promise<void> {
+    this.batch.push(tile);
+    if (this.batch.length >= this.batchSize) {
+      this.flush();
+      await IOUtils.nextBatch();
+    }
+  }
+
+  /**
+   * Write the waiting tiles
+   */
+  flush(): void {
+    if (this.batch.length === 0) {
+      return;
+    }
+    const batch = this.batch;
+    this.adapter.transaction(() => {
+      const statement = this.adapter.prepareStatement(
+        'INSERT INTO tiles (zoom_level, tile_column, tile_row, tile_data) VALUES (?, ?, ?, ?)',
+      );
+      batch.forEach(tile => {
+        // MBTiles rows are counted from the south
+        const row = Math.pow(2, tile.zoom) - 1 - tile.y;
+        this.adapter.bindAndInsert(statement, [tile.zoom, tile.x, row, tile.data]);
+      });
+      this.adapter.closeStatement(statement);
+    });
+    this.written += batch.length;
+    this.batch = [];
+    IOUtils.publishProgress(this.progress, this.written);
+  }
+}
+
+/**
+ * Exports a tile table to an MBTiles file.  Tiles of tables whose tile matrices line up with the web mercator XYZ
+ * tile scheme are copied as they are, the tiles of any other table are drawn in web mercator by the
+ * {@link GeoPackageTileRetriever} as PNG images.  Rows are written in the TMS scheme required by MBTiles and the
+ * `metadata` table is filled from the contents and tile matrix set of the table.  Only available in Node.
+ */
+export class MBTilesExporter {
+  public static readonly DEFAULT_BATCH_SIZE: number = 1000;
+  public static readonly DEFAULT_TILE_SIZE: number = 256;
+  /**
+   * Tolerance when comparing tile matrix positions and sizes to the web mercator tile scheme, in tiles
+   */
+  private static readonly TOLERANCE: number = 1e-6;
+
+  /**
+   * @param geoPackage GeoPackage to export from
+   */
+  constructor(public readonly geoPackage: GeoPackage) {}
+
+  /**
+   * Export the tile table to a new MBTiles file
+   * @param tableName name of the tile table
+   * @param filePath path of the MBTiles file to create
+   * @param options export options
+   * @return number of tiles written
+   */
+  async exportMBTiles(tableName: string, filePath: string, options: MBTilesExportOptions = {}): Promise<number> {
+    const tileDao = this.geoPackage.getTileDao(tableName);
+    if (fs.existsSync(filePath)) {
+      throw new Error('File already exists: ' + filePath);
+    }
+    const xyzTileMatrices = MBTilesExporter.getXyzTileMatrices(tileDao);
+    const adapter = Db.create(filePath);
+    await adapter.initialize();
+    try {
+      adapter.run('CREATE TABLE metadata (name TEXT, value TEXT)');
+      adapter.run('CREATE TABLE tiles (zoom_level INTEGER, tile_column INTEGER, tile_row INTEGER, tile_data BLOB)');
+      adapter.run('CREATE UNIQUE INDEX tile_index ON tiles (zoom_level, tile_column, tile_row)');
+      const writer = new MBTilesWriter(
+        adapter,
+        options.batchSize || MBTilesExporter.DEFAULT_BATCH_SIZE,
+        options.progress,
+      );
+      let zoomRange: number[];
+      let format: string;
+      if (xyzTileMatrices) {
+        const zooms = Array.from(xyzTileMatrices.values()).map(xyzTileMatrix => xyzTileMatrix.zoom);
+        zoomRange = [
+          options.minZoom != null ? options.minZoom : Math.min(...zooms),
+          options.maxZoom != null ? options.maxZoom : Math.max(...zooms),
+        ];
+        for (const tileMatrix of tileDao.tileMatrices) {
+          const xyzTileMatrix = xyzTileMatrices.get(tileMatrix.zoom_level);
+          if (xyzTileMatrix.zoom < zoomRange[0] || xyzTileMatrix.zoom > zoomRange[1]) {
+            continue;
+          }
+          for (const tileRow of tileDao.queryForTilesWithZoomLevel(tileMatrix.zoom_level)) {
+            format = format || MBTilesExporter.getFormat(tileRow.tileData);
+            await writer.add({
+              zoom: xyzTileMatrix.zoom,
+              x: xyzTileMatrix.x + tileRow.tileColumn,
+              y: xyzTileMatrix.y + tileRow.row,
+              data: Buffer.from(tileRow.tileData),
+            });
+          }
+        }
+      } else {
+        zoomRange = [
+          options.minZoom != null ? options.minZoom : tileDao.minWebMapZoom,
+          options.maxZoom != null ? options.maxZoom : tileDao.maxWebMapZoom,
+        ];
+        await this.writeReprojectedTiles(tileDao, zoomRange, writer, options);
+        format = 'png';
+      }
+      writer.flush();
+      this.writeMetadata(adapter, tileDao, zoomRange, format, options);
+      return writer.written;
+    } finally {
+      adapter.close();
+    }
+  }
+
+  /**
+   * Draw the tiles of the table in web mercator
+   * @param tileDao tile dao of the table
+   * @param zoomRange lowest and highest zoom level
+   * @param writer writer of the tiles
+   * @param options export options
+   */
+  private async writeReprojectedTiles(
+    tileDao: TileDao<TileRow>,
+    zoomRange: number[],
+    writer: MBTilesWriter,
+    options: MBTilesExportOptions,
+  ): Promise<void> {
+    const tileSize = options.tileSize || MBTilesExporter.DEFAULT_TILE_SIZE;
+    const retriever = new GeoPackageTileRetriever(tileDao, tileSize, tileSize);
+    const webMercatorBoundingBox = retriever.getWebMercatorBoundingBox();
+    for (let zoom = zoomRange[0]; zoom <= zoomRange[1]; zoom++) {
+      const tileBox = TileBoundingBoxUtils.webMercatorTileBox(webMercatorBoundingBox, zoom);
+      for (let x = tileBox.minLongitude; x <= tileBox.maxLongitude; x++) {
+        for (let y = tileBox.minLatitude; y <= tileBox.maxLatitude; y++) {
+          if (retriever.hasTile(x, y, zoom)) {
+            const dataUrl: string = await retriever.getTile(x, y, zoom);
+            if (dataUrl) {
+              await writer.add({
+                zoom,
+                x,
+                y,
+                data: Buffer.from(dataUrl.substring(dataUrl.indexOf(',') + 1), 'base64'),
+              });
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Write the metadata table
+   * @param adapter connection to the MBTiles file
+   * @param tileDao tile dao of the table
+   * @param zoomRange lowest and highest zoom level
+   * @param format tile format
+   * @param options export options
+   */
+  private writeMetadata(
+    adapter: DBAdapter,
+    tileDao: TileDao<TileRow>,
+    zoomRange: number[],
+    format: string,
+    options: MBTilesExportOptions,
+  ): void {
+    const contents = this.geoPackage.contentsDao.queryForId(tileDao.gpkgTableName);
+    let bounds: BoundingBox;
+    if (contents && contents.min_x != null && contents.srs_id != null) {
+      const srs = this.geoPackage.spatialReferenceSystemDao.getBySrsId(contents.srs_id);
+      bounds = new BoundingBox(contents.min_x, contents.max_x, contents.min_y, contents.max_y).projectBoundingBox(
+        srs.organization.toUpperCase() + ':' + srs.organization_coordsys_id,
+        ProjectionConstants.EPSG_4326,
+      );
+    } else {
+      bounds = tileDao.tileMatrixSet.boundingBox.projectBoundingBox(tileDao.projection, ProjectionConstants.EPSG_4326);
+    }
+    const round = (value: number): number => Math.round(value * 1e8) / 1e8;
+    const metadata: Record<string, string> = {
+      name: options.name || (contents && contents.identifier) || tileDao.gpkgTableName,
+      format: format || 'png',
+      bounds: [bounds.minLongitude, bounds.minLatitude, bounds.maxLongitude, bounds.maxLatitude].map(round).join(','),
+      center: [
+        round((bounds.minLongitude + bounds.maxLongitude) / 2),
+        round((bounds.minLatitude + bounds.maxLatitude) / 2),
+        zoomRange[0],
+      ].join(','),
+      minzoom: zoomRange[0].toString(),
+      maxzoom: zoomRange[1].toString(),
+      type: 'baselayer',
+    };
+    const description = options.description || (contents && contents.description);
+    if (description) {
+      metadata.description = description;
+    }
+    adapter.transaction(() => {
+      Object.keys(metadata).forEach(name => {
+        adapter.insert('INSERT INTO metadata (name, value) VALUES (?, ?)', [name, metadata[name]]);
+      });
+    });
+  }
+
+  /**
+   * Get the position of each tile matrix in the web mercator XYZ tile scheme
+   * @param tileDao tile dao of the table
+   * @return XYZ tile matrix by zoom level, undefined if the table is not in web mercator or a tile matrix does not line
+   * up with the XYZ tile scheme
+   */
+  static getXyzTileMatrices(tileDao: TileDao<TileRow>): Map<number, XyzTileMatrix> {
+    const srs = tileDao.srs;
+    if (
+      srs.organization.toUpperCase() !== ProjectionConstants.EPSG ||
+      srs.organization_coordsys_id !== ProjectionConstants.EPSG_CODE_3857
+    ) {
+      return undefined;
+    }
+    const xyzTileMatrices = new Map<number, XyzTileMatrix>();
+    for (const tileMatrix of tileDao.tileMatrices) {
+      const xyzTileMatrix = MBTilesExporter.getXyzTileMatrix(tileDao.tileMatrixSet, tileMatrix);
+      if (!xyzTileMatrix) {
+        return undefined;
+      }
+      xyzTileMatrices.set(tileMatrix.zoom_level, xyzTileMatrix);
+    }
+    return xyzTileMatrices;
+  }
+
+  /**
+   * Get the position of a web mercator tile matrix in the XYZ tile scheme
+   * @param tileMatrixSet tile matrix set in EPSG:3857
+   * @param tileMatrix tile matrix
+   * @return XYZ tile matrix, undefined if the tile matrix does not line up with the XYZ tile scheme
+   */
+  private static getXyzTileMatrix(tileMatrixSet: TileMatrixSet, tileMatrix: TileMatrix): XyzTileMatrix {
+    const worldWidth = 2 * ProjectionConstants.WEB_MERCATOR_HALF_WORLD_WIDTH;
+    const tileWidth = (tileMatrixSet.max_x - tileMatrixSet.min_x) / tileMatrix.matrix_width;
+    const tileHeight = (tileMatrixSet.max_y - tileMatrixSet.min_y) / tileMatrix.matrix_height;
+    const zoom = Math.round(Math.log2(worldWidth / tileWidth));
+    const xyzTileSize = worldWidth / Math.pow(2, zoom);
+    const x = (tileMatrixSet.min_x + ProjectionConstants.WEB_MERCATOR_HALF_WORLD_WIDTH) / xyzTileSize;
+    const y = (ProjectionConstants.WEB_MERCATOR_HALF_WORLD_WIDTH - tileMatrixSet.max_y) / xyzTileSize;
+    const aligned = (value: number): boolean => Math.abs(value - Math.round(value)) < MBTilesExporter.TOLERANCE;
+    if (
+      !aligned(tileWidth / xyzTileSize) ||
+      Math.round(tileWidth / xyzTileSize) !== 1 ||
+      Math.abs(tileHeight / xyzTileSize - 1) > MBTilesExporter.TOLERANCE ||
+      !aligned(x) ||
+      !aligned(y)
+    ) {
+      return undefined;
+    }
+    return { zoom, x: Math.round(x), y: Math.round(y) };
+  }
+
+  /**
+   * Get the MBTiles format of a tile
+   * @param data tile data
+   * @return `png`, `jpg` or `webp`, or `pbf` for other data such as vector tiles
+   */
+  private static getFormat(data: Buffer): string {
+    const type = fileType(data);
+    return type && ['png', 'jpg', 'webp'].indexOf(type.ext) !== -1 ? type.ext : 'pbf';
+  }
+}
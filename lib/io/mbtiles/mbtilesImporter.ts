@@ -0,0 +1,284 @@
+/**
+ * MBTiles import
+ * @module io/mbtiles
+ */
+import fs from 'fs';
+
+import { GeoPackage } from '../../geoPackage';
+import { Db } from '../../db/db';
+import { DBAdapter, DBValue } from '../../db/dbAdapter';
+import { BoundingBox } from '../../boundingBox';
+import { TileBoundingBoxUtils } from '../../tiles/tileBoundingBoxUtils';
+import { ImageUtils } from '../../tiles/imageUtils';
+import { Metadata } from '../../metadata/metadata';
+import { MetadataReference } from '../../metadata/reference/metadataReference';
+import { MetadataExtension } from '../../extension/metadata';
+import { ContentsDao } from '../../core/contents/contentsDao';
+import { ProjectionConstants } from '../../projection/projectionConstants';
+import { IOUtils } from '../ioUtils';
+
+/**
+ * Sources an MBTiles import can read from: the path to an .mbtiles file or the contents of one
+ */
+export type MBTilesSource = string | Buffer | Uint8Array;
+
+/**
+ * Options for an MBTiles import
+ */
+export interface MBTilesImportOptions {
+  /**
+   * width and height of the tiles in pixels. Read from the first tile image if not specified, or 256 if it can not be
+   * read.
+   */
+  tileSize?: number;
+  /**
+   * number of tiles inserted in a single transaction. Defaults to 1000.
+   */
+  batchSize?: number;
+  /**
+   * copy the MBTiles metadata into the `gpkg_metadata` table. Defaults to true.
+   */
+  metadata?: boolean;
+  /**
+   * called after each batch is inserted with the number of tiles added so far
+   */
+  progress?: (tilesAdded: number) => void;
+}
+
+/**
+ * A tile read from the MBTiles `tiles` table
+ */
+interface MBTile {
+  zoom_level: number;
+  tile_column: number;
+  tile_row: number;
+  tile_data: Buffer | Uint8Array;
+}
+
+/**
+ * Imports the tiles of an MBTiles file into a new web mercator tile table.  MBTiles rows are counted from the south
+ * in the TMS scheme and are flipped to the GeoPackage row order.  The tile matrix set covers the tiles of the lowest
+ * zoom level that intersect the MBTiles bounds and tiles outside of it are skipped.  The MBTiles `metadata` table is
+ * written to `gpkg_metadata` as JSON referencing the tile table and its description becomes the contents description.
+ */
+export class MBTilesImporter {
+  public static readonly DEFAULT_BATCH_SIZE: number = 1000;
+  public static readonly DEFAULT_TILE_SIZE: number = 256;
+  /**
+   * URI of the MBTiles specification, the metadata standard of the imported metadata
+   */
+  public static readonly METADATA_STANDARD_URI: string = 'https://github.com/mapbox/mbtiles-spec';
+
+  /**
+   * @param geoPackage GeoPackage to import into
+   */
+  constructor(public readonly geoPackage: GeoPackage) {}
+
+  /**
+   * Import the tiles into a new tile table
+   * @param source MBTiles file to import
+   * @param tableName name of the tile table to create
+   * @param options import options
+   * @return number of tiles inserted
+   */
+  async importMBTiles(source: MBTilesSource, tableName: string, options: MBTilesImportOptions = {}): Promise<number> {
+    if (this.geoPackage.isTable(tableName)) {
+      throw new Error('Table already exists: ' + tableName);
+    }
+    if (typeof source === 'string' && !fs.existsSync(source)) {
+      throw new Error('MBTiles file does not exist: ' + source);
+    }
+    const adapter = Db.create(source);
+    await adapter.initialize();
+    try {
+      return await IOUtils.deleteTablesOnError(this.geoPackage, [tableName], () =>
+        this.importTiles(adapter, tableName, options),
+      );
+    } finally {
+      adapter.close();
+    }
+  }
+
+  /**
+   * Create the tile table and copy the tiles
+   * @param adapter connection to the MBTiles file
+   * @param tableName name of the tile table to create
+   * @param options import options
+   * @return number of tiles inserted
+   */
+  private async importTiles(adapter: DBAdapter, tableName: string, options: MBTilesImportOptions): Promise<number> {
+    if (!adapter.get("SELECT name FROM sqlite_master WHERE type IN ('table', 'view') AND name = 'tiles'")) {
+      throw new Error('MBTiles tiles table does not exist');
+    }
+    const metadata = MBTilesImporter.readMetadata(adapter);
+    const zoomRange = adapter.get('SELECT MIN(zoom_level) AS min_zoom, MAX(zoom_level) AS max_zoom FROM tiles');
+    const minZoom = zoomRange.min_zoom != null ? zoomRange.min_zoom : parseInt(metadata.minzoom, 10) || 0;
+    const maxZoom = zoomRange.max_zoom != null ? zoomRange.max_zoom : parseInt(metadata.maxzoom, 10) || minZoom;
+    const bounds = MBTilesImporter.parseBounds(metadata.bounds);
+    const webMercatorBounds = bounds.projectBoundingBox(ProjectionConstants.EPSG_4326, ProjectionConstants.EPSG_3857);
+    const tileMatrixSetBounds = MBTilesImporter.getTileGridBounds(webMercatorBounds, minZoom);
+    const tileSize = options.tileSize || MBTilesImporter.getTileSize(adapter);
+
+    const wgs84SrsId = this.geoPackage.spatialReferenceSystemDao.createWgs84();
+    this.geoPackage.createStandardWebMercatorTileTable(
+      tableName,
+      bounds,
+      wgs84SrsId,
+      tileMatrixSetBounds,
+      this.geoPackage.spatialReferenceSystemDao.createWebMercator(),
+      minZoom,
+      maxZoom,
+      tileSize,
+    );
+    if (metadata.description || metadata.name) {
+      this.updateContentsDescription(tableName, metadata.description || metadata.name);
+    }
+    if (options.metadata !== false && Object.keys(metadata).length > 0) {
+      this.importMetadata(tableName, metadata);
+    }
+
+    // tile columns and rows are offset from the tile grid of the tile matrix set at each zoom level
+    const tileGrids = new Map<number, BoundingBox>();
+    for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+      tileGrids.set(zoom, TileBoundingBoxUtils.webMercatorTileBox(tileMatrixSetBounds, zoom));
+    }
+    const tms = metadata.scheme !== 'xyz';
+    const insertBatch = (batch: MBTile[]): number => {
+      let inserted = 0;
+      this.geoPackage.connection.transaction(() => {
+        batch.forEach(tile => {
+          const tileGrid = tileGrids.get(tile.zoom_level);
+          const row = tms ? Math.pow(2, tile.zoom_level) - 1 - tile.tile_row : tile.tile_row;
+          const column = tile.tile_column - tileGrid.minLongitude;
+          const gridRow = row - tileGrid.minLatitude;
+          if (column >= 0 && gridRow >= 0 && tile.tile_column <= tileGrid.maxLongitude && row <= tileGrid.maxLatitude) {
+            this.geoPackage.addTile(Buffer.from(tile.tile_data), tableName, tile.zoom_level, gridRow, column);
+            inserted++;
+          }
+        });
+      });
+      return inserted;
+    };
+    return IOUtils.insertBatches<MBTile>(
+      adapter.each('SELECT zoom_level, tile_column, tile_row, tile_data FROM tiles'),
+      options.batchSize || MBTilesImporter.DEFAULT_BATCH_SIZE,
+      insertBatch,
+      options.progress,
+    );
+  }
+
+  /**
+   * Set the description of the tile table contents
+   * @param tableName tile table name
+   * @param description description
+   */
+  private updateContentsDescription(tableName: string, description: string): void {
+    const contentsDao = this.geoPackage.contentsDao;
+    const values: Record<string, DBValue> = {};
+    values[ContentsDao.COLUMN_DESCRIPTION] = description;
+    const where = contentsDao.buildWhereWithFieldAndValue(ContentsDao.COLUMN_TABLE_NAME, tableName);
+    const whereArgs = contentsDao.buildWhereArgs([tableName]);
+    contentsDao.updateWithValues(values, where, whereArgs);
+  }
+
+  /**
+   * Write the MBTiles metadata to the metadata extension as JSON referencing the tile table
+   * @param tableName tile table name
+   * @param metadata MBTiles metadata
+   */
+  private importMetadata(tableName: string, metadata: Record<string, string>): void {
+    new MetadataExtension(this.geoPackage).getOrCreateExtension();
+    this.geoPackage.createMetadataTable();
+    this.geoPackage.createMetadataReferenceTable();
+    const metadataRow = new Metadata();
+    metadataRow.md_scope = Metadata.DATASET;
+    metadataRow.md_standard_uri = MBTilesImporter.METADATA_STANDARD_URI;
+    metadataRow.mime_type = 'application/json';
+    metadataRow.metadata = JSON.stringify(metadata);
+    metadataRow.id = this.geoPackage.metadataDao.create(metadataRow);
+    const reference = new MetadataReference();
+    reference.setReferenceScopeType(MetadataReference.TABLE);
+    reference.table_name = tableName;
+    reference.timestamp = new Date();
+    reference.setMetadata(metadataRow);
+    this.geoPackage.metadataReferenceDao.create(reference);
+  }
+
+  /**
+   * Read the MBTiles metadata table
+   * @param adapter connection to the MBTiles file
+   * @return metadata values by name, empty if there is no metadata table
+   */
+  static readMetadata(adapter: DBAdapter): Record<string, string> {
+    const metadata: Record<string, string> = {};
+    if (adapter.isTableExists('metadata')) {
+      adapter.all('SELECT name, value FROM metadata').forEach(row => {
+        if (row.name != null && row.value != null) {
+          metadata[row.name] = row.value.toString();
+        }
+      });
+    }
+    return metadata;
+  }
+
+  /**
+   * Parse the MBTiles bounds
+   * @param bounds `left,bottom,right,top` in EPSG:4326
+   * @return bounding box, the web mercator world if the bounds are missing or invalid
+   */
+  static parseBounds(bounds: string): BoundingBox {
+    const values = bounds ? bounds.split(',').map(value => parseFloat(value)) : [];
+    if (values.length !== 4 || values.some(value => !isFinite(value))) {
+      return new BoundingBox(
+        -180,
+        180,
+        ProjectionConstants.WEB_MERCATOR_MIN_LAT_RANGE,
+        ProjectionConstants.WEB_MERCATOR_MAX_LAT_RANGE,
+      );
+    }
+    return new BoundingBox(values[0], values[2], values[1], values[3]);
+  }
+
+  /**
+   * Get the bounds of the tiles covering a bounding box
+   * @param webMercatorBoundingBox bounding box in EPSG:3857
+   * @param zoom zoom level
+   * @return bounds of the covering tiles in EPSG:3857
+   */
+  static getTileGridBounds(webMercatorBoundingBox: BoundingBox, zoom: number): BoundingBox {
+    const tileBox = TileBoundingBoxUtils.webMercatorTileBox(webMercatorBoundingBox, zoom);
+    const topLeft = TileBoundingBoxUtils.getWebMercatorBoundingBoxFromXYZ(
+      tileBox.minLongitude,
+      tileBox.minLatitude,
+      zoom,
+    );
+    const bottomRight = TileBoundingBoxUtils.getWebMercatorBoundingBoxFromXYZ(
+      tileBox.maxLongitude,
+      tileBox.maxLatitude,
+      zoom,
+    );
+    return new BoundingBox(
+      topLeft.minLongitude,
+      bottomRight.maxLongitude,
+      bottomRight.minLatitude,
+      topLeft.maxLatitude,
+    );
+  }
+
+  /**
+   * Get the tile size from the first tile image
+   * @param adapter connection to the MBTiles file
+   * @return tile size in pixels
+   */
+  private static getTileSize(adapter: DBAdapter): number {
+    const tile = adapter.get('SELECT tile_data FROM tiles LIMIT 1');
+    if (tile && tile.tile_data) {
+      try {
+        return ImageUtils.getImageSize(Buffer.from(tile.tile_data)).width;
+      } catch (e) {
+        // vector tiles and unknown formats use the default size
+      }
+    }
+    return MBTilesImporter.DEFAULT_TILE_SIZE;
+  }
+}
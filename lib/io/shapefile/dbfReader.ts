@@ -0,0 +1,207 @@
+/**
+ * dBASE attribute reader
+ * @module io/shapefile
+ */
+import { GeoPackageDataType } from '../../db/geoPackageDataType';
+
+/**
+ * A field of the .dbf file
+ */
+export interface DbfField {
+  /**
+   * field name
+   */
+  name: string;
+  /**
+   * dBASE field type character
+   */
+  type: string;
+  /**
+   * field length in bytes
+   */
+  length: number;
+  /**
+   * number of decimal places of a numeric field
+   */
+  decimalCount: number;
+  /**
+   * GeoPackage data type of the field
+   */
+  dataType: GeoPackageDataType;
+}
+
+/**
+ * A record of the .dbf file
+ */
+export interface DbfRecord {
+  /**
+   * true if the record is flagged as deleted
+   */
+  deleted: boolean;
+  /**
+   * field values by field name
+   */
+  values: Record<string, any>;
+}
+
+/**
+ * Reads the fields and records of the .dbf file accompanying a Shapefile
+ */
+export class DbfReader {
+  /**
+   * Byte terminating the field descriptors
+   */
+  public static readonly HEADER_TERMINATOR: number = 0x0d;
+  /**
+   * Language driver id of the Windows ANSI code page
+   */
+  public static readonly LDID_WINDOWS_1252: number = 0x57;
+  /**
+   * Maximum length of a numeric field read as an integer, wider integers can not be held exactly
+   */
+  public static readonly MAX_INTEGER_LENGTH: number = 15;
+
+  /**
+   * Number of records in the file
+   */
+  readonly recordCount: number;
+  /**
+   * Fields of the file
+   */
+  readonly fields: DbfField[] = [];
+
+  private readonly headerLength: number;
+  private readonly recordLength: number;
+  private readonly decoder: TextDecoder;
+
+  /**
+   * @param buffer contents of the .dbf file
+   * @param encoding character encoding of text values, from the .cpg file if there is one. Defaults to the encoding
+   * identified by the language driver id or UTF-8.
+   */
+  constructor(private readonly buffer: Buffer, encoding?: string) {
+    this.recordCount = buffer.readUInt32LE(4);
+    this.headerLength = buffer.readUInt16LE(8);
+    this.recordLength = buffer.readUInt16LE(10);
+    if (!encoding) {
+      encoding = buffer.readUInt8(29) === DbfReader.LDID_WINDOWS_1252 ? 'windows-1252' : 'utf-8';
+    }
+    this.decoder = new TextDecoder(encoding.trim());
+    for (
+      let offset = 32;
+      offset + 32 <= this.headerLength && buffer[offset] !== DbfReader.HEADER_TERMINATOR;
+      offset += 32
+    ) {
+      const nameBytes = buffer.subarray(offset, offset + 11);
+      const nameEnd = nameBytes.indexOf(0);
+      const type = String.fromCharCode(buffer[offset + 11]).toUpperCase();
+      const length = buffer.readUInt8(offset + 16);
+      const decimalCount = buffer.readUInt8(offset + 17);
+      this.fields.push({
+        name: this.decoder.decode(nameEnd === -1 ? nameBytes : nameBytes.subarray(0, nameEnd)).trim(),
+        type,
+        length,
+        decimalCount,
+        dataType: DbfReader.getDataType(type, length, decimalCount),
+      });
+    }
+  }
+
+  /**
+   * Iterate the records of the file
+   * @return iterable of records
+   */
+  *records(): IterableIterator<DbfRecord> {
+    for (let i = 0; i < this.recordCount; i++) {
+      let offset = this.headerLength + i * this.recordLength;
+      if (offset + this.recordLength > this.buffer.length) {
+        return;
+      }
+      const deleted = this.buffer[offset] === 0x2a;
+      offset++;
+      const values: Record<string, any> = {};
+      this.fields.forEach(field => {
+        values[field.name] = this.readValue(field, offset);
+        offset += field.length;
+      });
+      yield { deleted, values };
+    }
+  }
+
+  /**
+   * Read the value of a field
+   * @param field field
+   * @param offset offset of the value
+   * @return value, null if empty
+   */
+  private readValue(field: DbfField, offset: number): any {
+    const bytes = this.buffer.subarray(offset, offset + field.length);
+    switch (field.type) {
+      case 'I':
+        return bytes.readInt32LE(0);
+      case 'O':
+        return bytes.readDoubleLE(0);
+      default:
+        break;
+    }
+    const text = this.decoder
+      .decode(bytes)
+      .replace(/\0/g, '')
+      .trim();
+    switch (field.type) {
+      case 'N':
+      case 'F': {
+        if (text === '' || text.charAt(0) === '*') {
+          return null;
+        }
+        const value = field.dataType === GeoPackageDataType.INTEGER ? parseInt(text, 10) : parseFloat(text);
+        return isNaN(value) ? null : value;
+      }
+      case 'L':
+        if (/^[YyTt]$/.test(text)) {
+          return true;
+        }
+        return /^[NnFf]$/.test(text) ? false : null;
+      case 'D':
+        if (!/^\d{8}$/.test(text)) {
+          return null;
+        }
+        return new Date(
+          Date.UTC(
+            parseInt(text.substring(0, 4), 10),
+            parseInt(text.substring(4, 6), 10) - 1,
+            parseInt(text.substring(6), 10),
+          ),
+        );
+      default:
+        return text === '' ? null : text;
+    }
+  }
+
+  /**
+   * Get the GeoPackage data type of a dBASE field
+   * @param type dBASE field type character
+   * @param length field length
+   * @param decimalCount number of decimal places
+   * @return data type
+   */
+  static getDataType(type: string, length: number, decimalCount: number): GeoPackageDataType {
+    switch (type) {
+      case 'N':
+        return decimalCount === 0 && length <= DbfReader.MAX_INTEGER_LENGTH
+          ? GeoPackageDataType.INTEGER
+          : GeoPackageDataType.DOUBLE;
+      case 'I':
+        return GeoPackageDataType.INTEGER;
+      case 'F':
+      case 'O':
+        return GeoPackageDataType.DOUBLE;
+      case 'L':
+        return GeoPackageDataType.BOOLEAN;
+      case 'D':
+        return GeoPackageDataType.DATE;
+      default:
+        return GeoPackageDataType.TEXT;
+    }
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * dBASE attribute writer
+ * @module io/shapefile
+ */
+import { GeoPackageDataType } from '../../db/geoPackageDataType';
+import { DbfReader } from './dbfReader';
+
+/**
+ * A field written to the .dbf file
+ */
+export interface DbfWriterField {
+  /**
+   * field name, at most 10 characters
+   */
+  name: string;
+  /**
+   * dBASE field type character
+   */
+  type: string;
+  /**
+   * field length in bytes
+   */
+  length: number;
+  /**
+   * number of decimal places of a numeric field
+   */
+  decimalCount: number;
+}
+
+/**
+ * Writes the .dbf file of a Shapefile.  Text is written as UTF-8, which should be declared in a .cpg file.
+ */
+export class DbfWriter {
+  /**
+   * Maximum length of a field name
+   */
+  public static readonly MAX_FIELD_NAME_LENGTH: number = 10;
+  /**
+   * Maximum length of a character field
+   */
+  public static readonly MAX_CHARACTER_LENGTH: number = 254;
+  /**
+   * Byte marking the end of the file
+   */
+  public static readonly END_OF_FILE: number = 0x1a;
+
+  /**
+   * Get the dBASE field of a GeoPackage data type
+   * @param name field name
+   * @param dataType data type
+   * @param characterLength length of a character field
+   * @return field, undefined if the data type can not be written
+   */
+  static getField(name: string, dataType: GeoPackageDataType, characterLength = 1): DbfWriterField {
+    switch (dataType) {
+      case GeoPackageDataType.BOOLEAN:
+        return { name, type: 'L', length: 1, decimalCount: 0 };
+      case GeoPackageDataType.TINYINT:
+      case GeoPackageDataType.SMALLINT:
+      case GeoPackageDataType.MEDIUMINT:
+      case GeoPackageDataType.INT:
+      case GeoPackageDataType.INTEGER:
+        // wider integer fields are read as doubles
+        return { name, type: 'N', length: DbfReader.MAX_INTEGER_LENGTH, decimalCount: 0 };
+      case GeoPackageDataType.FLOAT:
+      case GeoPackageDataType.DOUBLE:
+      case GeoPackageDataType.REAL:
+        return { name, type: 'N', length: 24, decimalCount: 15 };
+      case GeoPackageDataType.DATE:
+        return { name, type: 'D', length: 8, decimalCount: 0 };
+      case GeoPackageDataType.DATETIME:
+        return { name, type: 'C', length: 24, decimalCount: 0 };
+      case GeoPackageDataType.TEXT:
+        return {
+          name,
+          type: 'C',
+          length: Math.max(1, Math.min(characterLength, DbfWriter.MAX_CHARACTER_LENGTH)),
+          decimalCount: 0,
+        };
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Build the .dbf file
+   * @param fields fields
+   * @param records field values of each record, in field order
+   * @return file contents
+   */
+  static build(fields: DbfWriterField[], records: any[][]): Buffer {
+    const headerLength = 32 + fields.length * 32 + 1;
+    const recordLength = fields.reduce((total, field) => total + field.length, 1);
+    const buffer = Buffer.alloc(headerLength + records.length * recordLength + 1, 0x20);
+    buffer.fill(0, 0, headerLength);
+    const now = new Date();
+    buffer.writeUInt8(0x03, 0);
+    buffer.writeUInt8(now.getFullYear() - 1900, 1);
+    buffer.writeUInt8(now.getMonth() + 1, 2);
+    buffer.writeUInt8(now.getDate(), 3);
+    buffer.writeUInt32LE(records.length, 4);
+    buffer.writeUInt16LE(headerLength, 8);
+    buffer.writeUInt16LE(recordLength, 10);
+    fields.forEach((field, i) => {
+      const offset = 32 + i * 32;
+      buffer.write(field.name, offset, DbfWriter.MAX_FIELD_NAME_LENGTH, 'latin1');
+      buffer.write(field.type, offset + 11, 1, 'latin1');
+      buffer.writeUInt8(field.length, offset + 16);
+      buffer.writeUInt8(field.decimalCount, offset + 17);
+    });
+    buffer.writeUInt8(DbfReader.HEADER_TERMINATOR, headerLength - 1);
+    records.forEach((values, i) => {
+      let offset = headerLength + i * recordLength + 1;
+      fields.forEach((field, j) => {
+        const text = DbfWriter.formatValue(field, values[j]);
+        if (text) {
+          const bytes = Buffer.from(text, 'utf8');
+          // numbers are right aligned, other values left aligned
+          bytes.copy(buffer, field.type === 'N' ? offset + field.length - bytes.length : offset);
+        }
+        offset += field.length;
+      });
+    });
+    buffer.writeUInt8(DbfWriter.END_OF_FILE, buffer.length - 1);
+    return buffer;
+  }
+
+  /**
+   * Format the value of a field
+   * @param field field
+   * @param value value
+   * @return text of the value, fitting the field length
+   */
+  private static formatValue(field: DbfWriterField, value: any): string {
+    if (value === null || value === undefined) {
+      return field.type === 'L' ? '?' : '';
+    }
+    switch (field.type) {
+      case 'L':
+        return value ? 'T' : 'F';
+      case 'D': {
+        const date = value instanceof Date ? value : new Date(value);
+        return isNaN(date.getTime())
+          ? ''
+          : date
+              .toISOString()
+              .slice(0, 10)
+              .replace(/-/g, '');
+      }
+      case 'N': {
+        let text = field.decimalCount === 0 ? Math.round(value).toString() : value.toString();
+        if (text.length > field.length) {
+          text = Number(value).toExponential(field.length - 8);
+        }
+        return text.length > field.length ? '' : text;
+      }
+      default:
+        return DbfWriter.truncate(value instanceof Date ? value.toISOString() : value.toString(), field.length);
+    }
+  }
+
+  /**
+   * Truncate text to fit within the number of UTF-8 bytes without splitting a character
+   * @param text text
+   * @param length maximum number of bytes
+   * @return truncated text
+   */
+  static truncate(text: string, length: number): string {
+    if (Buffer.byteLength(text, 'utf8') <= length) {
+      return text;
+    }
+    const characters = Array.from(text);
+    while (Buffer.byteLength(characters.join(''), 'utf8') > length) {
+      characters.pop();
+    }
+    return characters.join('');
+  }
+}
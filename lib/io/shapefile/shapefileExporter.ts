@@ -0,0 +1,306 @@
+/**
+ * Shapefile export
+ * @module io/shapefile
+ */
+import fs from 'fs';
+import path from 'path';
+import wkx from 'wkx';
+import JSZip from 'jszip';
+
+import { ShapefileFiles } from './shapefileImporter';
+import { ShapefileWriter } from './shapefileWriter';
+import { ShapeType } from './shapefileReader';
+import { DbfWriter } from './dbfWriter';
+import { FeatureDao } from '../../features/user/featureDao';
+import { FeatureRow } from '../../features/user/featureRow';
+import { FeatureColumn } from '../../features/user/featureColumn';
+import { GeometryType } from '../../features/user/geometryType';
+import { GeoPackageDataType } from '../../db/geoPackageDataType';
+
+/**
+ * Options for a Shapefile export
+ */
+export interface ShapefileExportOptions {
+  /**
+   * base name of the files. Defaults to the table name.
+   */
+  name?: string;
+  /**
+   * names of the columns to write as fields. Defaults to every column other than the primary key and geometry columns.
+   */
+  columns?: string[];
+}
+
+/**
+ * A Shapefile written for the geometries of one shape type
+ */
+export interface ShapefileLayer {
+  /**
+   * base name of the files
+   */
+  name: string;
+  /**
+   * shape type of the layer
+   */
+  shapeType: ShapeType;
+  /**
+   * number of features written
+   */
+  featureCount: number;
+  /**
+   * file contents
+   */
+  files: ShapefileFiles & { shp: Buffer; shx: Buffer; dbf: Buffer };
+}
+
+/**
+ * Result of a Shapefile export
+ */
+export interface ShapefileExport {
+  /**
+   * one layer per shape type in the table
+   */
+  layers: ShapefileLayer[];
+  /**
+   * dBASE field name of each exported column, names are truncated to 10 characters and made unique
+   */
+  fieldNames: Record<string, string>;
+  /**
+   * number of features not written as their geometries, such as geometry collections, have no shape type
+   */
+  skippedCount: number;
+}
+
+/**
+ * Exports a feature table to Shapefiles.  A Shapefile holds a single shape type, so tables with mixed geometry types
+ * are split into a layer per shape type.  Geometries are written in the coordinate reference system of the table and
+ * its definition is written as the .prj file.
+ */
+export class ShapefileExporter {
+  /**
+   * Suffix of each shape type appended to the layer name when a table is split
+   */
+  public static readonly LAYER_SUFFIXES: { [shapeType: number]: string } = {
+    [ShapeType.POINT]: 'point',
+    [ShapeType.MULTIPOINT]: 'multipoint',
+    [ShapeType.POLYLINE]: 'line',
+    [ShapeType.POLYGON]: 'polygon',
+  };
+
+  /**
+   * @param featureDao feature dao of the table to export
+   */
+  constructor(public readonly featureDao: FeatureDao<FeatureRow>) {}
+
+  /**
+   * Export the table to Shapefiles held in memory
+   * @param options export options
+   * @return exported layers and field names
+   */
+  exportShapefile(options: ShapefileExportOptions = {}): ShapefileExport {
+    const name = options.name || this.featureDao.gpkgTableName;
+    const columns = this.getColumns(options);
+    const fieldNames = ShapefileExporter.buildFieldNames(columns.map(column => column.getName()));
+    const tableShapeType = ShapefileExporter.getShapeTypeForGeometryType(
+      GeometryType.fromName(this.featureDao.geometryColumns.geometry_type_name),
+    );
+    const z = this.featureDao.geometryColumns.z > 0;
+    const m = this.featureDao.geometryColumns.m > 0;
+
+    const layers = new Map<ShapeType, { writer: ShapefileWriter; records: any[][]; textLengths: number[] }>();
+    let skippedCount = 0;
+    for (const row of this.featureDao.queryForEach()) {
+      const featureRow = this.featureDao.getRow(row);
+      const geometry = featureRow.geometry && !featureRow.geometry.empty ? featureRow.geometry.geometry : null;
+      let shapeType = geometry ? ShapefileExporter.getShapeType(geometry) : tableShapeType;
+      if (shapeType === undefined) {
+        skippedCount++;
+        continue;
+      }
+      shapeType = ShapefileExporter.withDimensions(shapeType, z, m);
+      let layer = layers.get(shapeType);
+      if (!layer) {
+        layer = { writer: new ShapefileWriter(shapeType), records: [], textLengths: columns.map(() => 1) };
+        layers.set(shapeType, layer);
+      }
+      layer.writer.addRecord(geometry);
+      const values = columns.map((column, i) => {
+        const value = featureRow.getValueWithColumnName(column.getName());
+        if (value != null && column.getDataType() === GeoPackageDataType.TEXT) {
+          layer.textLengths[i] = Math.max(layer.textLengths[i], Buffer.byteLength(value.toString(), 'utf8'));
+        }
+        return value;
+      });
+      layer.records.push(values);
+    }
+
+    const srs = this.featureDao.srs;
+    const prj = srs.definition && srs.definition !== 'undefined' ? srs.definition : undefined;
+    const split = layers.size > 1;
+    const exportedLayers: ShapefileLayer[] = [];
+    layers.forEach((layer, shapeType) => {
+      const fields = columns.map((column, i) =>
+        DbfWriter.getField(fieldNames[column.getName()], column.getDataType(), layer.textLengths[i]),
+      );
+      exportedLayers.push({
+        name: split ? name + '_' + ShapefileExporter.LAYER_SUFFIXES[ShapefileWriter.getBaseShapeType(shapeType)] : name,
+        shapeType,
+        featureCount: layer.writer.recordCount,
+        files: {
+          shp: layer.writer.buildShp(),
+          shx: layer.writer.buildShx(),
+          dbf: DbfWriter.build(fields, layer.records),
+          prj,
+          cpg: 'UTF-8',
+        },
+      });
+    });
+    return { layers: exportedLayers, fieldNames, skippedCount };
+  }
+
+  /**
+   * Export the table to a zip of Shapefiles
+   * @param options export options
+   * @return zip contents
+   */
+  async exportShapefileZip(options: ShapefileExportOptions = {}): Promise<Buffer> {
+    const zip = new JSZip();
+    this.exportShapefile(options).layers.forEach(layer => {
+      const files = ShapefileExporter.getFiles(layer);
+      Object.keys(files).forEach(fileName => zip.file(fileName, files[fileName]));
+    });
+    return Buffer.from(await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' }));
+  }
+
+  /**
+   * Export the table to Shapefiles in a directory.  Only available in Node.
+   * @param directory directory to write the files to
+   * @param options export options
+   * @return exported layers and field names
+   */
+  async writeShapefile(directory: string, options: ShapefileExportOptions = {}): Promise<ShapefileExport> {
+    const result = this.exportShapefile(options);
+    for (const layer of result.layers) {
+      const files = ShapefileExporter.getFiles(layer);
+      for (const fileName of Object.keys(files)) {
+        await new Promise<void>((resolve, reject) => {
+          fs.writeFile(path.join(directory, fileName), files[fileName], err => (err ? reject(err) : resolve()));
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get the columns written as fields
+   * @param options export options
+   * @return columns
+   */
+  private getColumns(options: ShapefileExportOptions): FeatureColumn[] {
+    const userColumns = this.featureDao.table.getUserColumns();
+    if (options.columns) {
+      return options.columns.map(columnName => {
+        if (!userColumns.hasColumn(columnName)) {
+          throw new Error('Column does not exist in table ' + this.featureDao.gpkgTableName + ': ' + columnName);
+        }
+        const column = userColumns.getColumn(columnName);
+        if (DbfWriter.getField(column.getName(), column.getDataType()) === undefined) {
+          throw new Error('Column can not be written to a Shapefile: ' + columnName);
+        }
+        return column;
+      });
+    }
+    return userColumns
+      .getColumns()
+      .filter(
+        column =>
+          !column.isPrimaryKey() &&
+          !column.isGeometry() &&
+          DbfWriter.getField(column.getName(), column.getDataType()) !== undefined,
+      );
+  }
+
+  /**
+   * Build unique dBASE field names for the column names, truncated to 10 characters
+   * @param columnNames column names
+   * @return field name of each column name
+   */
+  static buildFieldNames(columnNames: string[]): Record<string, string> {
+    const fieldNames: Record<string, string> = {};
+    const used = new Set<string>();
+    columnNames.forEach(columnName => {
+      // field names are ASCII, other characters are replaced
+      const base = columnName.replace(/[^\x20-\x7e]/g, '_');
+      let fieldName = base.substring(0, DbfWriter.MAX_FIELD_NAME_LENGTH);
+      for (let i = 1; used.has(fieldName.toUpperCase()); i++) {
+        const suffix = '_' + i;
+        fieldName = base.substring(0, DbfWriter.MAX_FIELD_NAME_LENGTH - suffix.length) + suffix;
+      }
+      used.add(fieldName.toUpperCase());
+      fieldNames[columnName] = fieldName;
+    });
+    return fieldNames;
+  }
+
+  /**
+   * Get the shape type of the geometry
+   * @param geometry geometry
+   * @return shape type without z or m values, undefined if the geometry has no shape type
+   */
+  static getShapeType(geometry: wkx.Geometry): ShapeType {
+    return [ShapeType.POINT, ShapeType.MULTIPOINT, ShapeType.POLYLINE, ShapeType.POLYGON].find(shapeType =>
+      ShapefileWriter.isWritable(shapeType, geometry),
+    );
+  }
+
+  /**
+   * Get the shape type of a geometry type
+   * @param geometryType geometry type
+   * @return shape type without z or m values, undefined if the geometry type has no single shape type
+   */
+  static getShapeTypeForGeometryType(geometryType: GeometryType): ShapeType {
+    switch (geometryType) {
+      case GeometryType.POINT:
+        return ShapeType.POINT;
+      case GeometryType.MULTIPOINT:
+        return ShapeType.MULTIPOINT;
+      case GeometryType.LINESTRING:
+      case GeometryType.MULTILINESTRING:
+        return ShapeType.POLYLINE;
+      case GeometryType.POLYGON:
+      case GeometryType.MULTIPOLYGON:
+        return ShapeType.POLYGON;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Get the shape type with z or m values
+   * @param shapeType shape type without z or m values
+   * @param z true if the table has z values
+   * @param m true if the table has m values
+   * @return shape type
+   */
+  private static withDimensions(shapeType: ShapeType, z: boolean, m: boolean): ShapeType {
+    return z ? shapeType + 10 : m ? shapeType + 20 : shapeType;
+  }
+
+  /**
+   * Get the file names and contents of the layer
+   * @param layer layer
+   * @return contents by file name
+   */
+  private static getFiles(layer: ShapefileLayer): Record<string, Buffer | string> {
+    const files: Record<string, Buffer | string> = {
+      [layer.name + '.shp']: layer.files.shp,
+      [layer.name + '.shx']: layer.files.shx,
+      [layer.name + '.dbf']: layer.files.dbf,
+      [layer.name + '.cpg']: layer.files.cpg,
+    };
+    if (layer.files.prj) {
+      files[layer.name + '.prj'] = layer.files.prj;
+    }
+    return files;
+  }
+}
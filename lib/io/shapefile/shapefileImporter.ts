@@ -0,0 +1,504 @@
+/**
+ * Shapefile import
+ * @module io/shapefile
+ */
+import fs from 'fs';
+import wkx from 'wkx';
+import JSZip from 'jszip';
+
+import { GeoPackage } from '../../geoPackage';
+import { ShapefileReader, ShapeRecord } from './shapefileReader';
+import { DbfReader, DbfRecord } from './dbfReader';
+import { FeatureDao } from '../../features/user/featureDao';
+import { FeatureRow } from '../../features/user/featureRow';
+import { FeatureColumn } from '../../features/user/featureColumn';
+import { GeometryColumns } from '../../features/columns/geometryColumns';
+import { GeometryType } from '../../features/user/geometryType';
+import { GeometryData } from '../../geom/geometryData';
+import { SpatialReferenceSystem } from '../../core/srs/spatialReferenceSystem';
+import { SqliteQueryBuilder } from '../../db/sqliteQueryBuilder';
+import { ProjectionConstants } from '../../projection/projectionConstants';
+import { IOUtils } from '../ioUtils';
+
+/**
+ * Contents of the files making up a Shapefile
+ */
+export interface ShapefileFiles {
+  /**
+   * geometries (.shp)
+   */
+  shp: Buffer | ArrayBuffer | Uint8Array;
+  /**
+   * attributes (.dbf)
+   */
+  dbf?: Buffer | ArrayBuffer | Uint8Array;
+  /**
+   * coordinate reference system WKT (.prj)
+   */
+  prj?: string;
+  /**
+   * character encoding of the attributes (.cpg)
+   */
+  cpg?: string;
+}
+
+/**
+ * Sources a Shapefile import can read from: the path to a .shp or .zip file (Node only), the contents of a zipped
+ * Shapefile or the contents of the individual files. The .shx index is not needed as records are read in order.
+ */
+export type ShapefileSource = string | Buffer | ArrayBuffer | Uint8Array | ShapefileFiles;
+
+/**
+ * Options for a Shapefile import
+ */
+export interface ShapefileImportOptions {
+  /**
+   * name of the Shapefile to import from a zip containing more than one. Defaults to the first.
+   */
+  layerName?: string;
+  /**
+   * srs id of the table, overriding the .prj file. Defaults to the srs matching the .prj file, or 4326 if there is none.
+   */
+  srsId?: number;
+  /**
+   * name of the geometry column. Defaults to `geom`.
+   */
+  geometryColumnName?: string;
+  /**
+   * name of the primary key column. Defaults to `fid`.
+   */
+  idColumnName?: string;
+  /**
+   * character encoding of the attributes, overriding the .cpg file
+   */
+  encoding?: string;
+  /**
+   * number of features inserted in a single transaction. Defaults to 1000.
+   */
+  batchSize?: number;
+  /**
+   * index the table once all features are inserted
+   */
+  index?: boolean;
+  /**
+   * called after each batch is inserted with the number of features added so far
+   */
+  progress?: (featuresAdded: number) => void;
+}
+
+/**
+ * Imports a Shapefile into a new feature table.  dBASE fields become columns of the matching GeoPackage data type,
+ * the .prj WKT is resolved to a spatial reference system and the geometries are written without reprojection.
+ */
+export class ShapefileImporter {
+  public static readonly DEFAULT_BATCH_SIZE: number = 1000;
+  public static readonly DEFAULT_GEOMETRY_COLUMN: string = 'geom';
+  public static readonly DEFAULT_ID_COLUMN: string = 'fid';
+  /**
+   * Organization of spatial reference systems created for .prj files without a known EPSG code
+   */
+  public static readonly CUSTOM_ORGANIZATION: string = 'CUSTOM';
+  /**
+   * First srs id used for spatial reference systems created for .prj files without a known EPSG code
+   */
+  public static readonly CUSTOM_SRS_ID_START: number = 100000;
+
+  /**
+   * EPSG codes of commonly used Esri coordinate system names
+   */
+  private static readonly ESRI_NAMES: { pattern: RegExp; code: (match: RegExpMatchArray) => number }[] = [
+    { pattern: /^(GCS_WGS_1984|WGS 84)$/, code: (): number => ProjectionConstants.EPSG_CODE_4326 },
+    {
+      pattern: /^(WGS_1984_Web_Mercator(_Auxiliary_Sphere)?|WGS_84_Pseudo_Mercator|WGS 84 \/ Pseudo-Mercator)$/,
+      code: (): number => ProjectionConstants.EPSG_CODE_3857,
+    },
+    {
+      pattern: /^WGS_1984_UTM_Zone_(\d{1,2})([NS])$/,
+      code: (match): number => (match[2] === 'N' ? 32600 : 32700) + parseInt(match[1], 10),
+    },
+    { pattern: /^NAD_1983_UTM_Zone_(\d{1,2})N$/, code: (match): number => 26900 + parseInt(match[1], 10) },
+  ];
+
+  /**
+   * @param geoPackage GeoPackage to import into
+   */
+  constructor(public readonly geoPackage: GeoPackage) {}
+
+  /**
+   * Import the Shapefile into a new feature table
+   * @param source Shapefile to import
+   * @param tableName name of the feature table to create
+   * @param options import options
+   * @return number of features inserted
+   */
+  async importShapefile(
+    source: ShapefileSource,
+    tableName: string,
+    options: ShapefileImportOptions = {},
+  ): Promise<number> {
+    if (this.geoPackage.isTable(tableName)) {
+      throw new Error('Table already exists: ' + tableName);
+    }
+    const files = await ShapefileImporter.readSource(source, options.layerName);
+    const shapefileReader = new ShapefileReader(ShapefileImporter.toBuffer(files.shp));
+    const dbfReader = files.dbf
+      ? new DbfReader(ShapefileImporter.toBuffer(files.dbf), options.encoding || files.cpg)
+      : undefined;
+    const srs = options.srsId != null ? this.geoPackage.getSrs(options.srsId) : this.resolveSrs(files.prj);
+    if (!srs) {
+      throw new Error('Spatial reference system does not exist: ' + options.srsId);
+    }
+
+    return IOUtils.deleteTablesOnError(this.geoPackage, [tableName], async () => {
+      const featureDao = this.createTable(tableName, shapefileReader, dbfReader, srs, options);
+      const geometryType = GeometryType.fromName(featureDao.geometryColumns.geometry_type_name);
+      const inserted = await IOUtils.insertBatches(
+        ShapefileImporter.readRecords(shapefileReader, dbfReader),
+        options.batchSize || ShapefileImporter.DEFAULT_BATCH_SIZE,
+        batch => this.insertBatch(featureDao, batch, geometryType),
+        options.progress,
+      );
+      if (inserted > 0) {
+        IOUtils.updateContentsBounds(this.geoPackage, featureDao.gpkgTableName, shapefileReader.envelope);
+      }
+      if (options.index) {
+        await featureDao.index();
+      }
+      return inserted;
+    });
+  }
+
+  /**
+   * Read the shapes with their attribute records, skipping deleted records
+   * @param shapefileReader reader of the .shp file
+   * @param dbfReader reader of the .dbf file, may be undefined
+   * @return shapes and records
+   */
+  private static *readRecords(
+    shapefileReader: ShapefileReader,
+    dbfReader: DbfReader,
+  ): IterableIterator<{ shape: ShapeRecord; record: DbfRecord }> {
+    const dbfRecords = dbfReader ? dbfReader.records() : undefined;
+    for (const shape of shapefileReader.records()) {
+      const record = dbfRecords ? dbfRecords.next().value : undefined;
+      if (!record || !record.deleted) {
+        yield { shape, record };
+      }
+    }
+  }
+
+  /**
+   * Create the feature table for the Shapefile
+   * @param tableName table name
+   * @param shapefileReader reader of the .shp file
+   * @param dbfReader reader of the .dbf file, may be undefined
+   * @param srs spatial reference system of the table
+   * @param options import options
+   * @return feature dao for the new table
+   */
+  private createTable(
+    tableName: string,
+    shapefileReader: ShapefileReader,
+    dbfReader: DbfReader,
+    srs: SpatialReferenceSystem,
+    options: ShapefileImportOptions,
+  ): FeatureDao<FeatureRow> {
+    const idColumnName = options.idColumnName || ShapefileImporter.DEFAULT_ID_COLUMN;
+    const geometryType = ShapefileImporter.getGeometryType(shapefileReader);
+    const geometryColumns = new GeometryColumns();
+    geometryColumns.table_name = tableName;
+    geometryColumns.column_name = options.geometryColumnName || ShapefileImporter.DEFAULT_GEOMETRY_COLUMN;
+    geometryColumns.geometry_type_name = GeometryType.nameFromType(geometryType);
+    geometryColumns.z = shapefileReader.hasZ() ? 1 : 0;
+    // m values are optional for z shape types
+    geometryColumns.m = shapefileReader.hasM() ? (shapefileReader.hasZ() ? 2 : 1) : 0;
+
+    const columns: FeatureColumn[] = [];
+    columns.push(FeatureColumn.createPrimaryKeyColumn(0, idColumnName));
+    columns.push(FeatureColumn.createGeometryColumn(1, geometryColumns.column_name, geometryType, false, null));
+    if (dbfReader) {
+      dbfReader.fields.forEach(field => {
+        if ([idColumnName, geometryColumns.column_name].some(name => name.toLowerCase() === field.name.toLowerCase())) {
+          throw new Error(
+            'Field ' + field.name + ' conflicts with the id or geometry column name, specify a different column name',
+          );
+        }
+        columns.push(FeatureColumn.createColumn(columns.length, field.name, field.dataType));
+      });
+    }
+    this.geoPackage.createFeatureTable(tableName, geometryColumns, columns, undefined, srs.srs_id);
+    return this.geoPackage.getFeatureDao(tableName);
+  }
+
+  /**
+   * Insert a batch of records in a transaction
+   * @param featureDao feature dao of the table
+   * @param batch shape and attribute records
+   * @param geometryType geometry type of the table, single geometries are wrapped when it is a multi type
+   * @return number of features inserted
+   */
+  private insertBatch(
+    featureDao: FeatureDao<FeatureRow>,
+    batch: { shape: ShapeRecord; record: DbfRecord }[],
+    geometryType: GeometryType,
+  ): number {
+    const srsId = featureDao.srs.srs_id;
+    const insertSql = SqliteQueryBuilder.buildInsert("'" + featureDao.gpkgTableName + "'", featureDao.newRow());
+    featureDao.connection.transaction(() => {
+      const insertStatement = featureDao.connection.adapter.prepareStatement(insertSql);
+      batch.forEach(({ shape, record }) => {
+        const featureRow = featureDao.newRow();
+        if (shape.geometry) {
+          const geometryData = new GeometryData();
+          geometryData.setSrsId(srsId);
+          geometryData.setGeometry(ShapefileImporter.toGeometryType(shape.geometry, geometryType));
+          geometryData.setEnvelope(shape.envelope);
+          featureDao.checkGeometry(geometryData);
+          featureRow.geometry = geometryData;
+        }
+        if (record) {
+          Object.keys(record.values).forEach(fieldName => {
+            // null values are left unset as the date conversion requires a value
+            if (record.values[fieldName] !== null) {
+              featureRow.setValueWithColumnName(fieldName, record.values[fieldName]);
+            }
+          });
+        }
+        featureDao.connection.adapter.bindAndInsert(
+          insertStatement,
+          SqliteQueryBuilder.buildUpdateOrInsertObject(featureRow),
+        );
+      });
+      featureDao.connection.adapter.closeStatement(insertStatement);
+    });
+    return batch.length;
+  }
+
+  /**
+   * Resolve the .prj WKT to a spatial reference system, creating it if the GeoPackage does not contain it
+   * @param prj coordinate reference system WKT, may be undefined
+   * @return spatial reference system
+   */
+  resolveSrs(prj?: string): SpatialReferenceSystem {
+    const srsDao = this.geoPackage.spatialReferenceSystemDao;
+    if (!prj || prj.trim() === '') {
+      return srsDao.getBySrsId(srsDao.createWgs84());
+    }
+    const definition = prj.trim();
+    const code = ShapefileImporter.getEpsgCode(definition);
+    if (code === ProjectionConstants.EPSG_CODE_4326) {
+      return srsDao.getBySrsId(srsDao.createWgs84());
+    } else if (code === ProjectionConstants.EPSG_CODE_3857) {
+      return srsDao.getBySrsId(srsDao.createWebMercator());
+    } else if (code !== undefined) {
+      const existing = srsDao.getByOrganizationAndCoordSysId(ProjectionConstants.EPSG, code);
+      if (existing) {
+        return existing;
+      }
+    } else {
+      const existing = srsDao
+        .getAllSpatialReferenceSystems()
+        .find(srs => srs.definition && srs.definition.replace(/\s/g, '') === definition.replace(/\s/g, ''));
+      if (existing) {
+        return existing;
+      }
+    }
+
+    const srs = new SpatialReferenceSystem();
+    srs.srs_name = ShapefileImporter.getName(definition) || 'Unnamed';
+    srs.srs_id = code !== undefined && !srsDao.getBySrsId(code) ? code : this.nextSrsId();
+    srs.organization = code !== undefined ? ProjectionConstants.EPSG : ShapefileImporter.CUSTOM_ORGANIZATION;
+    srs.organization_coordsys_id = code !== undefined ? code : srs.srs_id;
+    srs.definition = definition;
+    srs.description = '';
+    this.geoPackage.createSpatialReferenceSystem(srs);
+    return srsDao.getBySrsId(srs.srs_id);
+  }
+
+  /**
+   * Get the next srs id available for a custom spatial reference system
+   * @return srs id
+   */
+  private nextSrsId(): number {
+    const result = this.geoPackage.connection.get(
+      'SELECT MAX(srs_id) AS max_srs_id FROM ' + SpatialReferenceSystem.TABLE_NAME,
+    );
+    const max = result && result.max_srs_id != null ? result.max_srs_id : 0;
+    return Math.max(max + 1, ShapefileImporter.CUSTOM_SRS_ID_START);
+  }
+
+  /**
+   * Get the EPSG code of the WKT from its authority or its Esri coordinate system name
+   * @param definition coordinate reference system WKT
+   * @return EPSG code, undefined if it could not be determined
+   */
+  static getEpsgCode(definition: string): number {
+    const authority = /AUTHORITY\[\s*"EPSG"\s*,\s*"?(\d+)"?\s*\]\s*\]\s*$/i.exec(definition);
+    if (authority) {
+      return parseInt(authority[1], 10);
+    }
+    const name = ShapefileImporter.getName(definition);
+    for (const esriName of ShapefileImporter.ESRI_NAMES) {
+      const match = esriName.pattern.exec(name);
+      if (match) {
+        return esriName.code(match);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the name of the coordinate reference system
+   * @param definition coordinate reference system WKT
+   * @return name
+   */
+  static getName(definition: string): string {
+    const match = /^\s*[A-Z_]+\[\s*"([^"]*)"/i.exec(definition);
+    return match ? match[1] : undefined;
+  }
+
+  /**
+   * Determine the geometry type of the table from the shapes.  Files containing both single and multi part shapes use
+   * the multi type.
+   * @param shapefileReader reader of the .shp file
+   * @return geometry type
+   */
+  private static getGeometryType(shapefileReader: ShapefileReader): GeometryType {
+    const geometryTypes = new Set<GeometryType>();
+    for (const shape of shapefileReader.records()) {
+      if (shape.geometry) {
+        geometryTypes.add(ShapefileImporter.getWkxGeometryType(shape.geometry));
+      }
+    }
+    if (geometryTypes.size === 1) {
+      return geometryTypes.values().next().value;
+    } else if (geometryTypes.size === 2 && geometryTypes.has(GeometryType.LINESTRING)) {
+      return GeometryType.MULTILINESTRING;
+    } else if (geometryTypes.size === 2 && geometryTypes.has(GeometryType.POLYGON)) {
+      return GeometryType.MULTIPOLYGON;
+    }
+    return GeometryType.GEOMETRY;
+  }
+
+  private static getWkxGeometryType(geometry: wkx.Geometry): GeometryType {
+    if (geometry instanceof wkx.Point) {
+      return GeometryType.POINT;
+    } else if (geometry instanceof wkx.LineString) {
+      return GeometryType.LINESTRING;
+    } else if (geometry instanceof wkx.Polygon) {
+      return GeometryType.POLYGON;
+    } else if (geometry instanceof wkx.MultiPoint) {
+      return GeometryType.MULTIPOINT;
+    } else if (geometry instanceof wkx.MultiLineString) {
+      return GeometryType.MULTILINESTRING;
+    } else if (geometry instanceof wkx.MultiPolygon) {
+      return GeometryType.MULTIPOLYGON;
+    }
+    return GeometryType.GEOMETRY;
+  }
+
+  /**
+   * Wrap a single geometry in a multi geometry when the table has a multi geometry type
+   * @param geometry geometry
+   * @param geometryType geometry type of the table
+   * @return geometry
+   */
+  private static toGeometryType(geometry: wkx.Geometry, geometryType: GeometryType): wkx.Geometry {
+    if (geometryType === GeometryType.MULTILINESTRING && geometry instanceof wkx.LineString) {
+      return new wkx.MultiLineString([geometry]);
+    } else if (geometryType === GeometryType.MULTIPOLYGON && geometry instanceof wkx.Polygon) {
+      return new wkx.MultiPolygon([geometry]);
+    }
+    return geometry;
+  }
+
+  /**
+   * Read the files of the Shapefile from the source
+   * @param source Shapefile source
+   * @param layerName name of the Shapefile within a zip
+   * @return file contents
+   */
+  static async readSource(source: ShapefileSource, layerName?: string): Promise<ShapefileFiles> {
+    if (typeof source === 'string') {
+      if (/\.zip$/i.test(source)) {
+        const zip = await ShapefileImporter.readFile(source);
+        if (!zip) {
+          throw new Error('Zip file does not exist: ' + source);
+        }
+        return ShapefileImporter.readZip(zip, layerName);
+      }
+      const basePath = source.replace(/\.shp$/i, '');
+      const shp = await ShapefileImporter.readFile(basePath + '.shp', basePath + '.SHP');
+      if (!shp) {
+        throw new Error('Shapefile does not exist: ' + source);
+      }
+      const prj = await ShapefileImporter.readFile(basePath + '.prj', basePath + '.PRJ');
+      const cpg = await ShapefileImporter.readFile(basePath + '.cpg', basePath + '.CPG');
+      return {
+        shp,
+        dbf: await ShapefileImporter.readFile(basePath + '.dbf', basePath + '.DBF'),
+        prj: prj ? prj.toString('utf8') : undefined,
+        cpg: cpg ? cpg.toString('utf8') : undefined,
+      };
+    } else if (source instanceof ArrayBuffer || source instanceof Uint8Array) {
+      return ShapefileImporter.readZip(source, layerName);
+    }
+    return source as ShapefileFiles;
+  }
+
+  /**
+   * Read the files of a Shapefile within a zip
+   * @param data zip contents
+   * @param layerName name of the Shapefile, defaults to the first Shapefile in the zip
+   * @return file contents
+   */
+  static async readZip(data: ArrayBuffer | Uint8Array, layerName?: string): Promise<ShapefileFiles> {
+    const zip = await JSZip.loadAsync(data);
+    const shpFiles = zip.file(/\.shp$/i).filter(file => !/(^|\/)__MACOSX\//.test(file.name));
+    const shpFile = layerName
+      ? shpFiles.find(file => file.name.replace(/^.*\//, '').replace(/\.shp$/i, '') === layerName)
+      : shpFiles[0];
+    if (!shpFile) {
+      throw new Error('Shapefile does not exist in zip' + (layerName ? ': ' + layerName : ''));
+    }
+    const basePath = shpFile.name.replace(/\.shp$/i, '');
+    const readFile = async (extension: string): Promise<Buffer> => {
+      const file = zip.file(
+        new RegExp('^' + basePath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') + '\\.' + extension + '$', 'i'),
+      )[0];
+      return file ? Buffer.from(await file.async('uint8array')) : undefined;
+    };
+    const prj = await readFile('prj');
+    const cpg = await readFile('cpg');
+    return {
+      shp: await readFile('shp'),
+      dbf: await readFile('dbf'),
+      prj: prj ? prj.toString('utf8') : undefined,
+      cpg: cpg ? cpg.toString('utf8') : undefined,
+    };
+  }
+
+  /**
+   * Read the first of the files that exists
+   * @param filePaths paths to try
+   * @return file contents, undefined if none exist
+   */
+  private static async readFile(...filePaths: string[]): Promise<Buffer> {
+    for (const filePath of filePaths) {
+      const data = await new Promise<Buffer>(resolve => {
+        fs.readFile(filePath, (err, data) => resolve(err ? undefined : data));
+      });
+      if (data) {
+        return data;
+      }
+    }
+    return undefined;
+  }
+
+  private static toBuffer(data: Buffer | ArrayBuffer | Uint8Array): Buffer {
+    if (Buffer.isBuffer(data)) {
+      return data;
+    }
+    return data instanceof ArrayBuffer ? Buffer.from(data) : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * Shapefile geometry reader
+ * @module io/shapefile
+ */
+import wkx from 'wkx';
+import booleanClockwise from '@turf/boolean-clockwise';
+import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
+import { Envelope } from '../../geom/envelope';
+
+/**
+ * Shape types of the .shp format
+ */
+export enum ShapeType {
+  NULL = 0,
+  POINT = 1,
+  POLYLINE = 3,
+  POLYGON = 5,
+  MULTIPOINT = 8,
+  POINTZ = 11,
+  POLYLINEZ = 13,
+  POLYGONZ = 15,
+  MULTIPOINTZ = 18,
+  POINTM = 21,
+  POLYLINEM = 23,
+  POLYGONM = 25,
+  MULTIPOINTM = 28,
+  MULTIPATCH = 31,
+}
+
+/**
+ * A record of the .shp file
+ */
+export interface ShapeRecord {
+  /**
+   * one based record number, matching the record of the .dbf file
+   */
+  recordNumber: number;
+  /**
+   * geometry of the record, null for a null shape
+   */
+  geometry: wkx.Geometry;
+  /**
+   * envelope of the geometry, null for a null shape
+   */
+  envelope: Envelope;
+}
+
+/**
+ * Reads the geometries of a .shp file.  Polyline parts become line strings and polygon rings are grouped into
+ * polygons by their orientation, clockwise rings being outer rings and counter clockwise rings holes of the outer
+ * ring that contains them.
+ */
+export class ShapefileReader {
+  /**
+   * File code found at the start of every .shp file
+   */
+  public static readonly FILE_CODE: number = 9994;
+  /**
+   * Length of the file header
+   */
+  public static readonly HEADER_LENGTH: number = 100;
+  /**
+   * Values less than this are "no data" measures
+   */
+  public static readonly NO_DATA: number = -1e38;
+
+  /**
+   * Shape type of the file
+   */
+  readonly shapeType: ShapeType;
+  /**
+   * Bounds of the file
+   */
+  readonly envelope: Envelope;
+
+  /**
+   * @param buffer contents of the .shp file
+   */
+  constructor(private readonly buffer: Buffer) {
+    if (buffer.length < ShapefileReader.HEADER_LENGTH || buffer.readInt32BE(0) !== ShapefileReader.FILE_CODE) {
+      throw new Error('Invalid Shapefile, unexpected file code');
+    }
+    this.shapeType = buffer.readInt32LE(32);
+    if (this.shapeType === ShapeType.MULTIPATCH) {
+      throw new Error('Unsupported Shapefile shape type: MultiPatch');
+    }
+    this.envelope = {
+      minX: buffer.readDoubleLE(36),
+      minY: buffer.readDoubleLE(44),
+      maxX: buffer.readDoubleLE(52),
+      maxY: buffer.readDoubleLE(60),
+    };
+  }
+
+  /**
+   * Determine if the shape type of the file has z values
+   * @return true if z values are present
+   */
+  hasZ(): boolean {
+    return (
+      [ShapeType.POINTZ, ShapeType.POLYLINEZ, ShapeType.POLYGONZ, ShapeType.MULTIPOINTZ].indexOf(this.shapeType) !== -1
+    );
+  }
+
+  /**
+   * Determine if the shape type of the file may have m values.  They are optional for z shape types.
+   * @return true if m values may be present
+   */
+  hasM(): boolean {
+    return this.hasZ() || this.shapeType >= ShapeType.POINTM;
+  }
+
+  /**
+   * Iterate the records of the file
+   * @return iterable of shape records
+   */
+  *records(): IterableIterator<ShapeRecord> {
+    const fileLength = Math.min(this.buffer.readInt32BE(24) * 2, this.buffer.length);
+    let offset = ShapefileReader.HEADER_LENGTH;
+    while (offset + 8 <= fileLength) {
+      const recordNumber = this.buffer.readInt32BE(offset);
+      const contentLength = this.buffer.readInt32BE(offset + 4) * 2;
+      const contentOffset = offset + 8;
+      yield this.readRecord(recordNumber, contentOffset, contentOffset + contentLength);
+      offset = contentOffset + contentLength;
+    }
+  }
+
+  /**
+   * Read the shape of a record
+   * @param recordNumber record number
+   * @param offset offset of the record content
+   * @param end end of the record content
+   * @return shape record
+   */
+  private readRecord(recordNumber: number, offset: number, end: number): ShapeRecord {
+    const shapeType: ShapeType = this.buffer.readInt32LE(offset);
+    let geometry: wkx.Geometry = null;
+    switch (shapeType) {
+      case ShapeType.NULL:
+        break;
+      case ShapeType.POINT:
+      case ShapeType.POINTZ:
+      case ShapeType.POINTM:
+        geometry = this.readPoint(shapeType, offset + 4, end);
+        break;
+      case ShapeType.MULTIPOINT:
+      case ShapeType.MULTIPOINTZ:
+      case ShapeType.MULTIPOINTM:
+        geometry = new wkx.MultiPoint(
+          this.readPoints(shapeType, offset + 40, this.buffer.readInt32LE(offset + 36), end),
+        );
+        break;
+      case ShapeType.POLYLINE:
+      case ShapeType.POLYLINEZ:
+      case ShapeType.POLYLINEM: {
+        const lineStrings = this.readParts(shapeType, offset, end).map(points => new wkx.LineString(points));
+        geometry = lineStrings.length === 1 ? lineStrings[0] : new wkx.MultiLineString(lineStrings);
+        break;
+      }
+      case ShapeType.POLYGON:
+      case ShapeType.POLYGONZ:
+      case ShapeType.POLYGONM: {
+        const polygons = ShapefileReader.buildPolygons(this.readParts(shapeType, offset, end));
+        geometry = polygons.length === 1 ? polygons[0] : new wkx.MultiPolygon(polygons);
+        break;
+      }
+      default:
+        throw new Error('Unsupported Shapefile shape type: ' + shapeType + ', record: ' + recordNumber);
+    }
+    let envelope: Envelope = null;
+    if (geometry) {
+      if (geometry instanceof wkx.Point) {
+        envelope = { minX: geometry.x, minY: geometry.y, maxX: geometry.x, maxY: geometry.y };
+      } else {
+        envelope = {
+          minX: this.buffer.readDoubleLE(offset + 4),
+          minY: this.buffer.readDoubleLE(offset + 12),
+          maxX: this.buffer.readDoubleLE(offset + 20),
+          maxY: this.buffer.readDoubleLE(offset + 28),
+        };
+      }
+    }
+    return { recordNumber, geometry, envelope };
+  }
+
+  /**
+   * Read a point shape
+   * @param shapeType shape type
+   * @param offset offset of the x value
+   * @param end end of the record content
+   * @return point
+   */
+  private readPoint(shapeType: ShapeType, offset: number, end: number): wkx.Point {
+    const point = new wkx.Point(this.buffer.readDoubleLE(offset), this.buffer.readDoubleLE(offset + 8));
+    if (shapeType === ShapeType.POINTZ) {
+      point.z = this.buffer.readDoubleLE(offset + 16);
+      point.hasZ = true;
+      if (offset + 32 <= end) {
+        this.setM(point, this.buffer.readDoubleLE(offset + 24));
+      }
+    } else if (shapeType === ShapeType.POINTM) {
+      this.setM(point, this.buffer.readDoubleLE(offset + 16));
+    }
+    return point;
+  }
+
+  /**
+   * Read the points of a multi point, poly line or polygon shape, including the z and m arrays that follow them
+   * @param shapeType shape type
+   * @param offset offset of the first point
+   * @param numPoints number of points
+   * @param end end of the record content
+   * @return points
+   */
+  private readPoints(shapeType: ShapeType, offset: number, numPoints: number, end: number): wkx.Point[] {
+    const points: wkx.Point[] = [];
+    for (let i = 0; i < numPoints; i++) {
+      points.push(
+        new wkx.Point(this.buffer.readDoubleLE(offset + i * 16), this.buffer.readDoubleLE(offset + i * 16 + 8)),
+      );
+    }
+    // z and m arrays are each preceded by their range, m values are optional for z shape types
+    const z = shapeType > ShapeType.MULTIPOINT && shapeType < ShapeType.POINTM;
+    const m = shapeType >= ShapeType.POINTM;
+    let arrayOffset = offset + numPoints * 16;
+    if (z) {
+      arrayOffset += 16;
+      for (let i = 0; i < numPoints; i++) {
+        points[i].z = this.buffer.readDoubleLE(arrayOffset + i * 8);
+        points[i].hasZ = true;
+      }
+      arrayOffset += numPoints * 8;
+    }
+    if ((z || m) && arrayOffset + 16 + numPoints * 8 <= end) {
+      arrayOffset += 16;
+      for (let i = 0; i < numPoints; i++) {
+        this.setM(points[i], this.buffer.readDoubleLE(arrayOffset + i * 8));
+      }
+    }
+    return points;
+  }
+
+  /**
+   * Read the parts of a poly line or polygon shape
+   * @param shapeType shape type
+   * @param offset offset of the record content
+   * @param end end of the record content
+   * @return points of each part
+   */
+  private readParts(shapeType: ShapeType, offset: number, end: number): wkx.Point[][] {
+    const numParts = this.buffer.readInt32LE(offset + 36);
+    const numPoints = this.buffer.readInt32LE(offset + 40);
+    const partsOffset = offset + 44;
+    const points = this.readPoints(shapeType, partsOffset + numParts * 4, numPoints, end);
+    const parts: wkx.Point[][] = [];
+    for (let i = 0; i < numParts; i++) {
+      const start = this.buffer.readInt32LE(partsOffset + i * 4);
+      const partEnd = i + 1 < numParts ? this.buffer.readInt32LE(partsOffset + (i + 1) * 4) : numPoints;
+      parts.push(points.slice(start, partEnd));
+    }
+    return parts;
+  }
+
+  private setM(point: wkx.Point, m: number): void {
+    point.hasM = true;
+    point.m = m < ShapefileReader.NO_DATA ? NaN : m;
+  }
+
+  /**
+   * Group polygon rings into polygons.  Clockwise rings are outer rings, counter clockwise rings are holes of the
+   * first outer ring containing them or outer rings themselves if no outer ring contains them.
+   * @param rings polygon rings
+   * @return polygons
+   */
+  static buildPolygons(rings: wkx.Point[][]): wkx.Polygon[] {
+    const outerRings: wkx.Point[][] = [];
+    const holes: wkx.Point[][] = [];
+    rings
+      .filter(ring => ring.length >= 4)
+      .forEach(ring => {
+        if (booleanClockwise(ring.map(point => [point.x, point.y]))) {
+          outerRings.push(ring);
+        } else {
+          holes.push(ring);
+        }
+      });
+    const polygons = outerRings.map(ring => new wkx.Polygon(ring, []));
+    holes.forEach(hole => {
+      const polygon = polygons.find(candidate =>
+        booleanPointInPolygon([hole[0].x, hole[0].y], {
+          type: 'Polygon',
+          coordinates: [candidate.exteriorRing.map(point => [point.x, point.y])],
+        }),
+      );
+      if (polygon) {
+        polygon.interiorRings.push(hole);
+      } else {
+        polygons.push(new wkx.Polygon(hole, []));
+      }
+    });
+    return polygons;
+  }
+}
@@ -0,0 +1,288 @@
+/**
+ * Shapefile geometry writer
+ * @module io/shapefile
+ */
+import wkx from 'wkx';
+import booleanClockwise from '@turf/boolean-clockwise';
+import { ShapefileReader, ShapeType } from './shapefileReader';
+
+/**
+ * Writes geometries to the .shp and .shx files of a single shape type.  Records are added one at a time and the
+ * files are built once all records are added, as the file headers hold the length and bounds of the whole file.
+ */
+export class ShapefileWriter {
+  /**
+   * Version written to the file headers
+   */
+  public static readonly VERSION: number = 1000;
+
+  private readonly records: Buffer[] = [];
+  private minX = Infinity;
+  private minY = Infinity;
+  private maxX = -Infinity;
+  private maxY = -Infinity;
+  private minZ = Infinity;
+  private maxZ = -Infinity;
+  private minM = Infinity;
+  private maxM = -Infinity;
+
+  /**
+   * @param shapeType shape type of the file
+   */
+  constructor(readonly shapeType: ShapeType) {}
+
+  /**
+   * Number of records added
+   */
+  get recordCount(): number {
+    return this.records.length;
+  }
+
+  /**
+   * Determine if the geometry can be written as a shape of the shape type
+   * @param shapeType shape type
+   * @param geometry geometry
+   * @return true if the geometry can be written
+   */
+  static isWritable(shapeType: ShapeType, geometry: wkx.Geometry): boolean {
+    switch (ShapefileWriter.getBaseShapeType(shapeType)) {
+      case ShapeType.POINT:
+        return geometry instanceof wkx.Point;
+      case ShapeType.MULTIPOINT:
+        return geometry instanceof wkx.MultiPoint;
+      case ShapeType.POLYLINE:
+        return geometry instanceof wkx.LineString || geometry instanceof wkx.MultiLineString;
+      case ShapeType.POLYGON:
+        return geometry instanceof wkx.Polygon || geometry instanceof wkx.MultiPolygon;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Get the shape type without z or m values
+   * @param shapeType shape type
+   * @return point, multi point, poly line or polygon shape type
+   */
+  static getBaseShapeType(shapeType: ShapeType): ShapeType {
+    return shapeType === ShapeType.NULL ? shapeType : shapeType % 10;
+  }
+
+  /**
+   * Add a record for the geometry, a null shape is written for a null or empty geometry
+   * @param geometry geometry
+   */
+  addRecord(geometry?: wkx.Geometry): void {
+    const parts = geometry ? this.getParts(geometry) : [];
+    const points: wkx.Point[] = [].concat(...parts);
+    if (points.length === 0) {
+      const content = Buffer.alloc(4);
+      content.writeInt32LE(ShapeType.NULL, 0);
+      this.records.push(content);
+      return;
+    }
+    const z = this.hasZ();
+    const m = this.hasM();
+    const base = ShapefileWriter.getBaseShapeType(this.shapeType);
+    let content: Buffer;
+    if (base === ShapeType.POINT) {
+      content = Buffer.alloc(20 + (z ? 16 : m ? 8 : 0));
+      content.writeInt32LE(this.shapeType, 0);
+      content.writeDoubleLE(points[0].x, 4);
+      content.writeDoubleLE(points[0].y, 12);
+      if (z) {
+        content.writeDoubleLE(this.getZ(points[0]), 20);
+        content.writeDoubleLE(this.getM(points[0]), 28);
+      } else if (m) {
+        content.writeDoubleLE(this.getM(points[0]), 20);
+      }
+    } else {
+      const partsLength = base === ShapeType.MULTIPOINT ? 0 : 4 + parts.length * 4;
+      const headerLength = 4 + 32 + 4 + partsLength;
+      const arrayLength = 16 + points.length * 8;
+      content = Buffer.alloc(headerLength + points.length * 16 + (z ? arrayLength : 0) + (z || m ? arrayLength : 0));
+      content.writeInt32LE(this.shapeType, 0);
+      const [minX, maxX] = ShapefileWriter.range(points.map(point => point.x));
+      const [minY, maxY] = ShapefileWriter.range(points.map(point => point.y));
+      content.writeDoubleLE(minX, 4);
+      content.writeDoubleLE(minY, 12);
+      content.writeDoubleLE(maxX, 20);
+      content.writeDoubleLE(maxY, 28);
+      let offset = 36;
+      if (base !== ShapeType.MULTIPOINT) {
+        content.writeInt32LE(parts.length, offset);
+        offset += 4;
+      }
+      content.writeInt32LE(points.length, offset);
+      offset += 4;
+      if (base !== ShapeType.MULTIPOINT) {
+        let start = 0;
+        parts.forEach(part => {
+          content.writeInt32LE(start, offset);
+          offset += 4;
+          start += part.length;
+        });
+      }
+      points.forEach(point => {
+        content.writeDoubleLE(point.x, offset);
+        content.writeDoubleLE(point.y, offset + 8);
+        offset += 16;
+      });
+      if (z) {
+        offset = this.writeArray(
+          content,
+          offset,
+          points.map(point => this.getZ(point)),
+        );
+      }
+      if (z || m) {
+        this.writeArray(
+          content,
+          offset,
+          points.map(point => this.getM(point)),
+        );
+      }
+    }
+    points.forEach(point => {
+      this.minX = Math.min(this.minX, point.x);
+      this.minY = Math.min(this.minY, point.y);
+      this.maxX = Math.max(this.maxX, point.x);
+      this.maxY = Math.max(this.maxY, point.y);
+      if (z) {
+        this.minZ = Math.min(this.minZ, this.getZ(point));
+        this.maxZ = Math.max(this.maxZ, this.getZ(point));
+      }
+      if ((z || m) && this.getM(point) > ShapefileReader.NO_DATA) {
+        this.minM = Math.min(this.minM, this.getM(point));
+        this.maxM = Math.max(this.maxM, this.getM(point));
+      }
+    });
+    this.records.push(content);
+  }
+
+  /**
+   * Build the .shp file
+   * @return file contents
+   */
+  buildShp(): Buffer {
+    const length = this.records.reduce((total, record) => total + 8 + record.length, ShapefileReader.HEADER_LENGTH);
+    const buffer = Buffer.alloc(length);
+    this.writeHeader(buffer, length);
+    let offset = ShapefileReader.HEADER_LENGTH;
+    this.records.forEach((record, i) => {
+      buffer.writeInt32BE(i + 1, offset);
+      buffer.writeInt32BE(record.length / 2, offset + 4);
+      record.copy(buffer, offset + 8);
+      offset += 8 + record.length;
+    });
+    return buffer;
+  }
+
+  /**
+   * Build the .shx file
+   * @return file contents
+   */
+  buildShx(): Buffer {
+    const length = ShapefileReader.HEADER_LENGTH + this.records.length * 8;
+    const buffer = Buffer.alloc(length);
+    this.writeHeader(buffer, length);
+    let recordOffset = ShapefileReader.HEADER_LENGTH;
+    this.records.forEach((record, i) => {
+      buffer.writeInt32BE(recordOffset / 2, ShapefileReader.HEADER_LENGTH + i * 8);
+      buffer.writeInt32BE(record.length / 2, ShapefileReader.HEADER_LENGTH + i * 8 + 4);
+      recordOffset += 8 + record.length;
+    });
+    return buffer;
+  }
+
+  private writeHeader(buffer: Buffer, length: number): void {
+    const bound = (value: number): number => (isFinite(value) ? value : 0);
+    buffer.writeInt32BE(ShapefileReader.FILE_CODE, 0);
+    buffer.writeInt32BE(length / 2, 24);
+    buffer.writeInt32LE(ShapefileWriter.VERSION, 28);
+    buffer.writeInt32LE(this.shapeType, 32);
+    [this.minX, this.minY, this.maxX, this.maxY, this.minZ, this.maxZ, this.minM, this.maxM].forEach((value, i) =>
+      buffer.writeDoubleLE(bound(value), 36 + i * 8),
+    );
+  }
+
+  /**
+   * Write a z or m array preceded by its range
+   * @param buffer record content
+   * @param offset offset of the range
+   * @param values values
+   * @return offset following the array
+   */
+  private writeArray(buffer: Buffer, offset: number, values: number[]): number {
+    const [min, max] = ShapefileWriter.range(values.filter(value => value > ShapefileReader.NO_DATA));
+    buffer.writeDoubleLE(isFinite(min) ? min : 0, offset);
+    buffer.writeDoubleLE(isFinite(max) ? max : 0, offset + 8);
+    offset += 16;
+    values.forEach(value => {
+      buffer.writeDoubleLE(value, offset);
+      offset += 8;
+    });
+    return offset;
+  }
+
+  /**
+   * Get the parts of the geometry, the rings of polygons oriented with clockwise outer rings and counter clockwise
+   * holes
+   * @param geometry geometry
+   * @return points of each part
+   */
+  private getParts(geometry: wkx.Geometry): wkx.Point[][] {
+    if (geometry instanceof wkx.Point) {
+      return geometry.x === undefined || isNaN(geometry.x) ? [] : [[geometry]];
+    } else if (geometry instanceof wkx.MultiPoint) {
+      return geometry.points.length ? [geometry.points] : [];
+    } else if (geometry instanceof wkx.LineString) {
+      return geometry.points.length ? [geometry.points] : [];
+    } else if (geometry instanceof wkx.MultiLineString) {
+      return geometry.lineStrings.map(lineString => lineString.points).filter(points => points.length);
+    } else if (geometry instanceof wkx.Polygon) {
+      return ShapefileWriter.getRings(geometry);
+    } else if (geometry instanceof wkx.MultiPolygon) {
+      return [].concat(...geometry.polygons.map(polygon => ShapefileWriter.getRings(polygon)));
+    }
+    return [];
+  }
+
+  private static getRings(polygon: wkx.Polygon): wkx.Point[][] {
+    if (polygon.exteriorRing.length === 0) {
+      return [];
+    }
+    const orient = (ring: wkx.Point[], clockwise: boolean): wkx.Point[] =>
+      ring.length >= 4 && booleanClockwise(ring.map(point => [point.x, point.y])) !== clockwise
+        ? ring.slice().reverse()
+        : ring;
+    return [orient(polygon.exteriorRing, true), ...polygon.interiorRings.map(ring => orient(ring, false))];
+  }
+
+  private static range(values: number[]): number[] {
+    let min = Infinity;
+    let max = -Infinity;
+    values.forEach(value => {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    });
+    return [min, max];
+  }
+
+  private hasZ(): boolean {
+    return this.shapeType > ShapeType.MULTIPOINT && this.shapeType < ShapeType.POINTM;
+  }
+
+  private hasM(): boolean {
+    return this.shapeType >= ShapeType.POINTM;
+  }
+
+  private getZ(point: wkx.Point): number {
+    return point.hasZ && point.z != null ? point.z : 0;
+  }
+
+  private getM(point: wkx.Point): number {
+    // values less than the no data value are read as no data
+    return point.hasM && point.m != null && !isNaN(point.m) ? point.m : ShapefileReader.NO_DATA * 10;
+  }
+}
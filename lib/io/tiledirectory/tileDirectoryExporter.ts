@@ -0,0 +1,214 @@
+/**
+ * Tile directory export
+ * @module io/tiledirectory
+ */
+import fs from 'fs';
+import path from 'path';
+import fileType from 'file-type';
+
+import { GeoPackage } from '../../geoPackage';
+import { TileDao } from '../../tiles/user/tileDao';
+import { TileRow } from '../../tiles/user/tileRow';
+import { TileBoundingBoxUtils } from '../../tiles/tileBoundingBoxUtils';
+import { GeoPackageTileRetriever } from '../../tiles/retriever';
+import { ImageUtils } from '../../tiles/imageUtils';
+import { Canvas } from '../../canvas/canvas';
+import { MBTilesExporter } from '../mbtiles/mbtilesExporter';
+import { TileScheme } from './tileDirectoryImporter';
+import { IOUtils } from '../ioUtils';
+
+/**
+ * Options for a tile directory export
+ */
+export interface TileDirectoryExportOptions {
+  /**
+   * row order of the tiles. Defaults to XYZ.
+   */
+  scheme?: TileScheme;
+  /**
+   * image format of the written tiles, `png`, `jpeg` or `webp`. Tiles in another format are converted with the
+   * registered canvas adapter. Defaults to the format of each tile.
+   */
+  format?: string;
+  /**
+   * draw web mercator tiles from a table that does not line up with the web mercator tile scheme. If false the tiles of
+   * such a table are written at the zoom level, column and row of their tile matrix. Defaults to false.
+   */
+  reproject?: boolean;
+  /**
+   * lowest zoom level to export. Defaults to the lowest zoom level of the table.
+   */
+  minZoom?: number;
+  /**
+   * highest zoom level to export. Defaults to the highest zoom level of the table.
+   */
+  maxZoom?: number;
+  /**
+   * width and height in pixels of the tiles of a table that is reprojected. Defaults to 256.
+   */
+  tileSize?: number;
+  /**
+   * called after each zoom level is written with the number of tiles written so far
+   */
+  progress?: (tilesWritten: number) => void;
+}
+
+/**
+ * Exports a tile table to a `{z}/{x}/{y}.{ext}` directory.  Web mercator tables that line up with the XYZ tile scheme
+ * are copied tile by tile, other tables are either drawn in web mercator through the {@link GeoPackageTileRetriever}
+ * or written in their own tile grid.  Existing tile files are overwritten.
+ */
+export class TileDirectoryExporter {
+  public static readonly DEFAULT_TILE_SIZE: number = 256;
+
+  private written = 0;
+
+  /**
+   * @param geoPackage GeoPackage to export from
+   */
+  constructor(public readonly geoPackage: GeoPackage) {}
+
+  /**
+   * Export the tile table to the directory.  Only available in Node.
+   * @param tableName name of the tile table
+   * @param directory directory to write the zoom level directories to
+   * @param options export options
+   * @return number of tiles written
+   */
+  async exportTileDirectory(
+    tableName: string,
+    directory: string,
+    options: TileDirectoryExportOptions = {},
+  ): Promise<number> {
+    const tileDao = this.geoPackage.getTileDao(tableName);
+    this.written = 0;
+    const xyzTileMatrices = MBTilesExporter.getXyzTileMatrices(tileDao);
+    if (xyzTileMatrices || !options.reproject) {
+      for (const tileMatrix of tileDao.tileMatrices) {
+        const xyzTileMatrix = xyzTileMatrices ? xyzTileMatrices.get(tileMatrix.zoom_level) : undefined;
+        const zoom = xyzTileMatrix ? xyzTileMatrix.zoom : tileMatrix.zoom_level;
+        if (
+          (options.minZoom != null && zoom < options.minZoom) ||
+          (options.maxZoom != null && zoom > options.maxZoom)
+        ) {
+          continue;
+        }
+        const rowCount = xyzTileMatrix ? Math.pow(2, zoom) : tileMatrix.matrix_height;
+        for (const tileRow of tileDao.queryForTilesWithZoomLevel(tileMatrix.zoom_level)) {
+          const x = xyzTileMatrix ? xyzTileMatrix.x + tileRow.tileColumn : tileRow.tileColumn;
+          const y = xyzTileMatrix ? xyzTileMatrix.y + tileRow.row : tileRow.row;
+          await this.writeTile(directory, zoom, x, y, rowCount, Buffer.from(tileRow.tileData), options);
+        }
+        IOUtils.publishProgress(options.progress, this.written);
+      }
+    } else {
+      await this.writeReprojectedTiles(tileDao, directory, options);
+    }
+    return this.written;
+  }
+
+  /**
+   * Draw the tiles of the table in web mercator
+   * @param tileDao tile dao of the table
+   * @param directory directory to write the zoom level directories to
+   * @param options export options
+   */
+  private async writeReprojectedTiles(
+    tileDao: TileDao<TileRow>,
+    directory: string,
+    options: TileDirectoryExportOptions,
+  ): Promise<void> {
+    const tileSize = options.tileSize || TileDirectoryExporter.DEFAULT_TILE_SIZE;
+    const retriever = new GeoPackageTileRetriever(tileDao, tileSize, tileSize);
+    const webMercatorBoundingBox = retriever.getWebMercatorBoundingBox();
+    const minZoom = options.minZoom != null ? options.minZoom : tileDao.minWebMapZoom;
+    const maxZoom = options.maxZoom != null ? options.maxZoom : tileDao.maxWebMapZoom;
+    for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+      const tileBox = TileBoundingBoxUtils.webMercatorTileBox(webMercatorBoundingBox, zoom);
+      for (let x = tileBox.minLongitude; x <= tileBox.maxLongitude; x++) {
+        for (let y = tileBox.minLatitude; y <= tileBox.maxLatitude; y++) {
+          if (retriever.hasTile(x, y, zoom)) {
+            const dataUrl: string = await retriever.getTile(x, y, zoom);
+            if (dataUrl) {
+              const data = Buffer.from(dataUrl.substring(dataUrl.indexOf(',') + 1), 'base64');
+              await this.writeTile(directory, zoom, x, y, Math.pow(2, zoom), data, options);
+            }
+          }
+        }
+      }
+      IOUtils.publishProgress(options.progress, this.written);
+    }
+  }
+
+  /**
+   * Write a tile file, converting it to the export format
+   * @param directory directory to write the zoom level directories to
+   * @param zoom zoom level
+   * @param x tile column
+   * @param y tile row counted from the north
+   * @param rowCount number of tile rows at the zoom level
+   * @param data tile data
+   * @param options export options
+   */
+  private async writeTile(
+    directory: string,
+    zoom: number,
+    x: number,
+    y: number,
+    rowCount: number,
+    data: Buffer,
+    options: TileDirectoryExportOptions,
+  ): Promise<void> {
+    let extension = TileDirectoryExporter.getExtension(data);
+    if (options.format && extension !== TileDirectoryExporter.getExtensionOfFormat(options.format)) {
+      data = await TileDirectoryExporter.convertImage(data, options.format);
+      extension = TileDirectoryExporter.getExtensionOfFormat(options.format);
+    }
+    const row = options.scheme === TileScheme.TMS ? rowCount - 1 - y : y;
+    const columnDirectory = path.join(directory, zoom.toString(), x.toString());
+    await new Promise<void>((resolve, reject) => {
+      fs.mkdir(columnDirectory, { recursive: true }, err => (err ? reject(err) : resolve()));
+    });
+    await new Promise<void>((resolve, reject) => {
+      fs.writeFile(path.join(columnDirectory, row + '.' + extension), data, err => (err ? reject(err) : resolve()));
+    });
+    this.written++;
+  }
+
+  /**
+   * Convert a tile image to another format with the registered canvas adapter
+   * @param data tile image
+   * @param format `png`, `jpeg` or `webp`
+   * @return converted tile image
+   */
+  static async convertImage(data: Buffer, format: string): Promise<Buffer> {
+    const type = fileType(data);
+    const image = await ImageUtils.getImage(data, type ? type.mime : undefined);
+    if (!image) {
+      throw new Error('Unable to read tile image');
+    }
+    const canvas = Canvas.create(image.width, image.height);
+    try {
+      canvas.getContext('2d').drawImage(image.image, 0, 0);
+      const dataUrl = await Canvas.toDataURL(canvas, 'image/' + format);
+      return Buffer.from(dataUrl.substring(dataUrl.indexOf(',') + 1), 'base64');
+    } finally {
+      Canvas.disposeCanvas(canvas);
+      Canvas.disposeImage(image);
+    }
+  }
+
+  /**
+   * Get the file extension of a tile
+   * @param data tile data
+   * @return `png`, `jpg` or `webp`, or `pbf` for other data such as vector tiles
+   */
+  private static getExtension(data: Buffer): string {
+    const type = fileType(data);
+    return type && ['png', 'jpg', 'webp'].indexOf(type.ext) !== -1 ? type.ext : 'pbf';
+  }
+
+  private static getExtensionOfFormat(format: string): string {
+    return format === 'jpeg' ? 'jpg' : format;
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Tile directory import
+ * @module io/tiledirectory
+ */
+import fs from 'fs';
+import path from 'path';
+
+import { GeoPackage } from '../../geoPackage';
+import { BoundingBox } from '../../boundingBox';
+import { TileBoundingBoxUtils } from '../../tiles/tileBoundingBoxUtils';
+import { ImageUtils } from '../../tiles/imageUtils';
+import { ProjectionConstants } from '../../projection/projectionConstants';
+import { MBTilesImporter } from '../mbtiles/mbtilesImporter';
+import { IOUtils } from '../ioUtils';
+
+/**
+ * Row order of the tiles in a `{z}/{x}/{y}` directory
+ */
+export enum TileScheme {
+  /**
+   * rows are counted from the north, as in the GeoPackage and most web maps
+   */
+  XYZ = 'xyz',
+  /**
+   * rows are counted from the south
+   */
+  TMS = 'tms',
+}
+
+/**
+ * Options for a tile directory import
+ */
+export interface TileDirectoryImportOptions {
+  /**
+   * row order of the tiles. Defaults to XYZ.
+   */
+  scheme?: TileScheme;
+  /**
+   * lowest zoom level to import. Defaults to the lowest zoom level directory.
+   */
+  minZoom?: number;
+  /**
+   * highest zoom level to import. Defaults to the highest zoom level directory.
+   */
+  maxZoom?: number;
+  /**
+   * width and height of the tiles in pixels. Read from the first tile image if not specified, or 256 if it can not be
+   * read.
+   */
+  tileSize?: number;
+  /**
+   * number of tiles inserted in a single transaction. Defaults to 1000.
+   */
+  batchSize?: number;
+  /**
+   * called after each batch is inserted with the number of tiles added so far
+   */
+  progress?: (tilesAdded: number) => void;
+}
+
+/**
+ * A tile file found in the directory
+ */
+interface TileFile {
+  zoom: number;
+  x: number;
+  y: number;
+  filePath: string;
+}
+
+/**
+ * Imports a `{z}/{x}/{y}.{ext}` directory of web mercator tiles into a new tile table.  The tile matrix set covers the
+ * tiles of the lowest zoom level that contain the tiles of every zoom level.  Directories and files that are not named
+ * by a number are ignored.
+ */
+export class TileDirectoryImporter {
+  public static readonly DEFAULT_BATCH_SIZE: number = 1000;
+  public static readonly DEFAULT_TILE_SIZE: number = 256;
+
+  /**
+   * @param geoPackage GeoPackage to import into
+   */
+  constructor(public readonly geoPackage: GeoPackage) {}
+
+  /**
+   * Import the tiles into a new tile table.  Only available in Node.
+   * @param directory directory containing the zoom level directories
+   * @param tableName name of the tile table to create
+   * @param options import options
+   * @return number of tiles inserted
+   */
+  async importTileDirectory(
+    directory: string,
+    tableName: string,
+    options: TileDirectoryImportOptions = {},
+  ): Promise<number> {
+    if (this.geoPackage.isTable(tableName)) {
+      throw new Error('Table already exists: ' + tableName);
+    }
+    if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+      throw new Error('Tile directory does not exist: ' + directory);
+    }
+    const tms = options.scheme === TileScheme.TMS;
+    const tiles = TileDirectoryImporter.findTiles(directory, options).map(tile => {
+      return tms ? Object.assign(tile, { y: Math.pow(2, tile.zoom) - 1 - tile.y }) : tile;
+    });
+    if (tiles.length === 0) {
+      throw new Error('No tiles found in directory: ' + directory);
+    }
+    let minZoom = Infinity;
+    let maxZoom = -Infinity;
+    const webMercatorBounds = new BoundingBox(Infinity, -Infinity, Infinity, -Infinity);
+    tiles.forEach(tile => {
+      minZoom = Math.min(minZoom, tile.zoom);
+      maxZoom = Math.max(maxZoom, tile.zoom);
+      const tileBounds = TileBoundingBoxUtils.getWebMercatorBoundingBoxFromXYZ(tile.x, tile.y, tile.zoom);
+      webMercatorBounds.minLongitude = Math.min(webMercatorBounds.minLongitude, tileBounds.minLongitude);
+      webMercatorBounds.maxLongitude = Math.max(webMercatorBounds.maxLongitude, tileBounds.maxLongitude);
+      webMercatorBounds.minLatitude = Math.min(webMercatorBounds.minLatitude, tileBounds.minLatitude);
+      webMercatorBounds.maxLatitude = Math.max(webMercatorBounds.maxLatitude, tileBounds.maxLatitude);
+    });
+    const tileMatrixSetBounds = MBTilesImporter.getTileGridBounds(webMercatorBounds, minZoom);
+    const tileSize = options.tileSize || TileDirectoryImporter.getTileSize(tiles[0].filePath);
+
+    return IOUtils.deleteTablesOnError(this.geoPackage, [tableName], async () => {
+      this.geoPackage.createStandardWebMercatorTileTable(
+        tableName,
+        webMercatorBounds.projectBoundingBox(ProjectionConstants.EPSG_3857, ProjectionConstants.EPSG_4326),
+        this.geoPackage.spatialReferenceSystemDao.createWgs84(),
+        tileMatrixSetBounds,
+        this.geoPackage.spatialReferenceSystemDao.createWebMercator(),
+        minZoom,
+        maxZoom,
+        tileSize,
+      );
+
+      // tile columns and rows are offset from the tile grid of the tile matrix set at each zoom level
+      const tileGrids = new Map<number, BoundingBox>();
+      for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+        tileGrids.set(zoom, TileBoundingBoxUtils.webMercatorTileBox(tileMatrixSetBounds, zoom));
+      }
+      const insertBatch = async (batch: TileFile[]): Promise<number> => {
+        const data = await Promise.all(batch.map(tile => TileDirectoryImporter.readFile(tile.filePath)));
+        this.geoPackage.connection.transaction(() => {
+          batch.forEach((tile, index) => {
+            const tileGrid = tileGrids.get(tile.zoom);
+            this.geoPackage.addTile(
+              data[index],
+              tableName,
+              tile.zoom,
+              tile.y - tileGrid.minLatitude,
+              tile.x - tileGrid.minLongitude,
+            );
+          });
+        });
+        return batch.length;
+      };
+      return IOUtils.insertBatches(
+        tiles,
+        options.batchSize || TileDirectoryImporter.DEFAULT_BATCH_SIZE,
+        insertBatch,
+        options.progress,
+      );
+    });
+  }
+
+  /**
+   * Find the tile files of the directory
+   * @param directory directory containing the zoom level directories
+   * @param options import options
+   * @return tile files, positioned in the scheme of the directory
+   */
+  static findTiles(directory: string, options: TileDirectoryImportOptions = {}): TileFile[] {
+    const tiles: TileFile[] = [];
+    TileDirectoryImporter.readNumberedEntries(directory, true).forEach(zoomEntry => {
+      const zoom = zoomEntry.value;
+      if ((options.minZoom != null && zoom < options.minZoom) || (options.maxZoom != null && zoom > options.maxZoom)) {
+        return;
+      }
+      const tileCount = Math.pow(2, zoom);
+      TileDirectoryImporter.readNumberedEntries(zoomEntry.filePath, true).forEach(xEntry => {
+        TileDirectoryImporter.readNumberedEntries(xEntry.filePath, false).forEach(yEntry => {
+          if (xEntry.value < tileCount && yEntry.value < tileCount) {
+            tiles.push({ zoom, x: xEntry.value, y: yEntry.value, filePath: yEntry.filePath });
+          }
+        });
+      });
+    });
+    return tiles;
+  }
+
+  /**
+   * Read the directory entries named by a non-negative integer, ignoring the file extension
+   * @param directory directory to read
+   * @param directories true to read directories, false to read files
+   * @return integer value and path of each entry
+   */
+  private static readNumberedEntries(directory: string, directories: boolean): { value: number; filePath: string }[] {
+    const entries: { value: number; filePath: string }[] = [];
+    fs.readdirSync(directory).forEach(name => {
+      const baseName = directories ? name : name.replace(/\.[^.]*$/, '');
+      if (/^\d+$/.test(baseName)) {
+        const filePath = path.join(directory, name);
+        if (fs.statSync(filePath).isDirectory() === directories) {
+          entries.push({ value: parseInt(baseName, 10), filePath });
+        }
+      }
+    });
+    return entries.sort((a, b) => a.value - b.value);
+  }
+
+  private static readFile(filePath: string): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+      fs.readFile(filePath, (err, data) => (err ? reject(err) : resolve(data)));
+    });
+  }
+
+  /**
+   * Get the tile size from a tile image
+   * @param filePath path of the tile image
+   * @return tile size in pixels
+   */
+  private static getTileSize(filePath: string): number {
+    try {
+      return ImageUtils.getImageSize(filePath).width;
+    } catch (e) {
+      // vector tiles and unknown formats use the default size
+    }
+    return TileDirectoryImporter.DEFAULT_TILE_SIZE;
+  }
+}
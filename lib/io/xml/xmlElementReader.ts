@@ -0,0 +1,148 @@
+/**
+ * XML element reader
+ * @module io/xml
+ */
+import sax from 'sax';
+
+/**
+ * An element read from an XML document
+ */
+export interface XmlElement {
+  /**
+   * local name of the element, without a namespace prefix
+   */
+  name: string;
+  /**
+   * attributes by name
+   */
+  attributes: Record<string, string>;
+  /**
+   * child elements
+   */
+  children: XmlElement[];
+  /**
+   * text content of the element, excluding the text of child elements
+   */
+  text: string;
+}
+
+/**
+ * Incrementally reads the elements of interest from an XML document.  Chunks of the document are pushed in as they
+ * become available and each element with one of the requested names is returned with all of its descendants once it
+ * is closed.  Elements nested within a returned element are only returned as its descendants, and elements outside of
+ * the requested ones are never held in memory.
+ */
+export class XmlElementReader {
+  private readonly parser: sax.SAXParser;
+  private readonly elementNames: Set<string>;
+  /**
+   * Open elements of the element currently being read
+   */
+  private readonly stack: XmlElement[] = [];
+  private completed: XmlElement[] = [];
+
+  /**
+   * @param elementNames local names of the elements to read
+   */
+  constructor(elementNames: string[]) {
+    this.elementNames = new Set(elementNames);
+    this.parser = sax.parser(true, { trim: false, normalize: false });
+    this.parser.onopentag = (tag: sax.Tag): void => {
+      const name = XmlElementReader.getLocalName(tag.name);
+      if (this.stack.length === 0 && !this.elementNames.has(name)) {
+        return;
+      }
+      const element: XmlElement = { name, attributes: {}, children: [], text: '' };
+      Object.keys(tag.attributes).forEach(attribute => {
+        element.attributes[XmlElementReader.getLocalName(attribute)] = tag.attributes[attribute];
+      });
+      if (this.stack.length > 0) {
+        this.stack[this.stack.length - 1].children.push(element);
+      }
+      this.stack.push(element);
+    };
+    this.parser.onclosetag = (): void => {
+      if (this.stack.length > 0) {
+        const element = this.stack.pop();
+        element.text = element.text.trim();
+        if (this.stack.length === 0) {
+          this.completed.push(element);
+        }
+      }
+    };
+    this.parser.ontext = this.parser.oncdata = (text: string): void => {
+      if (this.stack.length > 0) {
+        this.stack[this.stack.length - 1].text += text;
+      }
+    };
+    this.parser.onerror = (error: Error): void => {
+      throw error;
+    };
+  }
+
+  /**
+   * Push the next chunk of the document into the reader
+   * @param chunk next chunk of the XML document
+   * @return elements completed by this chunk
+   */
+  push(chunk: string): XmlElement[] {
+    this.parser.write(chunk);
+    return this.takeCompleted();
+  }
+
+  /**
+   * Signal the end of the document
+   * @return elements completed by the end of the document
+   */
+  end(): XmlElement[] {
+    this.parser.close();
+    return this.takeCompleted();
+  }
+
+  private takeCompleted(): XmlElement[] {
+    const completed = this.completed;
+    this.completed = [];
+    return completed;
+  }
+
+  /**
+   * Get the first child element with the local name
+   * @param element parent element
+   * @param name local name
+   * @return child element, undefined if there is none
+   */
+  static getChild(element: XmlElement, name: string): XmlElement {
+    return element ? element.children.find(child => child.name === name) : undefined;
+  }
+
+  /**
+   * Get the child elements with the local name
+   * @param element parent element
+   * @param name local name
+   * @return child elements
+   */
+  static getChildren(element: XmlElement, name: string): XmlElement[] {
+    return element ? element.children.filter(child => child.name === name) : [];
+  }
+
+  /**
+   * Get the text of the first child element with the local name
+   * @param element parent element
+   * @param name local name
+   * @return text, undefined if there is no child element
+   */
+  static getChildText(element: XmlElement, name: string): string {
+    const child = XmlElementReader.getChild(element, name);
+    return child ? child.text : undefined;
+  }
+
+  /**
+   * Get the local name of an element or attribute
+   * @param name qualified name
+   * @return name without the namespace prefix
+   */
+  static getLocalName(name: string): string {
+    const index = name.indexOf(':');
+    return index === -1 ? name : name.substring(index + 1);
+  }
+}
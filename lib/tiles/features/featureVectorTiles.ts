@@ -0,0 +1,568 @@
+import simplify from 'simplify-js';
+import { Geometry, Position } from 'geojson';
+
+import { FeatureDao } from '../../features/user/featureDao';
+import { FeatureRow } from '../../features/user/featureRow';
+import { BoundingBox } from '../../boundingBox';
+import { TileBoundingBoxUtils } from '../tileBoundingBoxUtils';
+import { TileMatrix } from '../matrix/tileMatrix';
+import { TileMatrixSet } from '../matrixset/tileMatrixSet';
+import { Projection } from '../../projection/projection';
+import { ProjectionConstants } from '../../projection/projectionConstants';
+import { PbfWriter } from '../vector/pbfWriter';
+
+/**
+ * FeatureVectorTiles module.
+ * @module tiles/features
+ */
+
+/**
+ * Geometry types of a Mapbox Vector Tile feature
+ */
+export enum VectorTileGeometryType {
+  UNKNOWN = 0,
+  POINT = 1,
+  LINESTRING = 2,
+  POLYGON = 3,
+}
+
+/**
+ * A feature geometry in tile coordinates: the points of a point geometry, the lines of a line geometry or the rings of
+ * a polygon geometry with each exterior ring followed by its interior rings
+ */
+interface TileGeometry {
+  type: VectorTileGeometryType;
+  parts: number[][][];
+}
+
+/**
+ * The geometries of a GeoJSON geometry grouped by vector tile geometry type
+ */
+interface GeometryParts {
+  points: Position[];
+  lines: Position[][];
+  polygons: Position[][][];
+}
+
+/**
+ * Encodes the features of a feature table into Mapbox Vector Tiles (version 2.1).  Geometries are projected into the
+ * tile, clipped to the tile and its buffer, simplified and quantized to the tile extent.  Features are found with the
+ * feature table index when the table is indexed.
+ */
+export class FeatureVectorTiles {
+  public static readonly VERSION: number = 2;
+  /**
+   * name of the vector tile layer, defaults to the feature table name
+   */
+  public layerName: string;
+  /**
+   * number of coordinate units across the tile
+   */
+  public extent = 4096;
+  /**
+   * number of coordinate units drawn outside of the tile on each side
+   */
+  public buffer = 64;
+  public simplifyGeometries = true;
+  /**
+   * tolerance in coordinate units used for simplifying geometries
+   */
+  public simplifyTolerance = 1;
+  /**
+   * names of the columns written as feature attributes, defaults to every column except the primary key and geometry
+   */
+  public columns: string[];
+
+  constructor(public featureDao: FeatureDao<FeatureRow>) {
+    this.layerName = featureDao.gpkgTableName;
+    this.columns = featureDao.table
+      .getUserColumns()
+      .getColumns()
+      .filter(column => !column.isPrimaryKey() && !column.isGeometry())
+      .map(column => column.getName());
+  }
+
+  /**
+   * Encode the web mercator (EPSG:3857) xyz tile
+   * @param x tile column
+   * @param y tile row
+   * @param z zoom level
+   * @return vector tile, empty if no features are in the tile
+   */
+  getTile(x: number, y: number, z: number): Buffer {
+    return this.getTileWithBoundingBox(
+      TileBoundingBoxUtils.getWebMercatorBoundingBoxFromXYZ(x, y, z),
+      ProjectionConstants.EPSG_3857,
+    );
+  }
+
+  /**
+   * Encode the tile at a column and row of a tile matrix
+   * @param tileMatrixSet tile matrix set
+   * @param tileMatrix tile matrix
+   * @param column tile column
+   * @param row tile row
+   * @param projection projection of the tile matrix set
+   * @return vector tile, empty if no features are in the tile
+   */
+  getTileInTileMatrix(
+    tileMatrixSet: TileMatrixSet,
+    tileMatrix: TileMatrix,
+    column: number,
+    row: number,
+    projection: string,
+  ): Buffer {
+    return this.getTileWithBoundingBox(
+      TileBoundingBoxUtils.getTileBoundingBox(tileMatrixSet.boundingBox, tileMatrix, column, row),
+      projection,
+    );
+  }
+
+  /**
+   * Encode the tile covering a bounding box
+   * @param boundingBox bounding box of the tile
+   * @param projection projection of the bounding box
+   * @return vector tile, empty if no features are in the tile
+   */
+  getTileWithBoundingBox(boundingBox: BoundingBox, projection: string): Buffer {
+    const tile = new PbfWriter();
+    const bufferWidth = (boundingBox.width * this.buffer) / this.extent;
+    const bufferHeight = (boundingBox.height * this.buffer) / this.extent;
+    const queryBoundingBox = new BoundingBox(
+      boundingBox.minLongitude - bufferWidth,
+      boundingBox.maxLongitude + bufferWidth,
+      boundingBox.minLatitude - bufferHeight,
+      boundingBox.maxLatitude + bufferHeight,
+    );
+    const transform = this.getTransformFunction(projection);
+    const toTile = (coordinate: Position): number[] => {
+      const transformedCoordinate = transform(coordinate.slice(0, 2));
+      return [
+        TileBoundingBoxUtils.getXPixel(this.extent, boundingBox, transformedCoordinate[0]),
+        TileBoundingBoxUtils.getYPixel(this.extent, boundingBox, transformedCoordinate[1]),
+      ];
+    };
+
+    const keys: string[] = [];
+    const keyIndices = new Map<string, number>();
+    const values: (string | number | boolean)[] = [];
+    const valueIndices = new Map<string, number>();
+    const features = new PbfWriter();
+    let featureCount = 0;
+    for (const featureRow of this.queryFeatures(queryBoundingBox, projection)) {
+      if (featureRow.geometry == null || featureRow.geometry.geometry == null) {
+        continue;
+      }
+      const tags = this.getTags(featureRow, keys, keyIndices, values, valueIndices);
+      this.getTileGeometries(featureRow.geometry.geometry.toGeoJSON() as Geometry, toTile).forEach(geometry => {
+        features.writeMessage(2, feature => {
+          if (featureRow.id != null && featureRow.id >= 0) {
+            feature.writeVarintField(1, featureRow.id);
+          }
+          feature.writePackedVarint(2, tags);
+          feature.writeVarintField(3, geometry.type);
+          feature.writePackedVarint(4, FeatureVectorTiles.encodeGeometry(geometry));
+        });
+        featureCount++;
+      });
+    }
+    if (featureCount > 0) {
+      tile.writeMessage(3, layer => {
+        layer.writeVarintField(15, FeatureVectorTiles.VERSION);
+        layer.writeStringField(1, this.layerName);
+        layer.writeRawBytes(features.finish());
+        keys.forEach(key => layer.writeStringField(3, key));
+        values.forEach(value => layer.writeMessage(4, message => FeatureVectorTiles.writeValue(message, value)));
+        layer.writeVarintField(5, this.extent);
+      });
+    }
+    return tile.finish();
+  }
+
+  /**
+   * Query the features that may be in the tile
+   * @param boundingBox bounding box of the tile and its buffer
+   * @param projection projection of the bounding box
+   */
+  private *queryFeatures(boundingBox: BoundingBox, projection: string): IterableIterator<FeatureRow> {
+    if (this.featureDao.isIndexed()) {
+      yield* this.featureDao.fastQueryBoundingBox(boundingBox, projection);
+    } else {
+      for (const row of this.featureDao.queryForEach()) {
+        yield this.featureDao.getRow(row) as FeatureRow;
+      }
+    }
+  }
+
+  /**
+   * Get the function transforming coordinates from the feature projection into the tile projection
+   * @param projection tile projection
+   */
+  private getTransformFunction(projection: string): (coordinate: Position) => Position {
+    const featureProjection = this.featureDao.projection;
+    if (Projection.convertersMatch(Projection.getConverter(projection), featureProjection)) {
+      return (coordinate: Position): Position => coordinate;
+    }
+    const converter = Projection.getConverterFromConverters(featureProjection, projection);
+    if (Projection.isWebMercator(projection) && Projection.isWGS84(featureProjection)) {
+      return (coordinate: Position): Position =>
+        converter.forward([
+          Math.max(
+            ProjectionConstants.WEB_MERCATOR_MIN_LON_RANGE,
+            Math.min(ProjectionConstants.WEB_MERCATOR_MAX_LON_RANGE, coordinate[0]),
+          ),
+          Math.max(
+            ProjectionConstants.WEB_MERCATOR_MIN_LAT_RANGE,
+            Math.min(ProjectionConstants.WEB_MERCATOR_MAX_LAT_RANGE, coordinate[1]),
+          ),
+        ]);
+    }
+    return (coordinate: Position): Position => converter.forward(coordinate);
+  }
+
+  /**
+   * Get the attribute tags of the feature, adding its keys and values to the layer
+   * @param featureRow feature row
+   * @param keys layer keys
+   * @param keyIndices index of each layer key
+   * @param values layer values
+   * @param valueIndices index of each layer value by type and value
+   * @return key and value index pairs
+   */
+  private getTags(
+    featureRow: FeatureRow,
+    keys: string[],
+    keyIndices: Map<string, number>,
+    values: (string | number | boolean)[],
+    valueIndices: Map<string, number>,
+  ): number[] {
+    const tags: number[] = [];
+    this.columns.forEach(columnName => {
+      let value = featureRow.getValueWithColumnName(columnName);
+      if (value instanceof Date) {
+        value = value.toISOString();
+      }
+      if (
+        value == null ||
+        (typeof value !== 'string' && typeof value !== 'boolean' && typeof value !== 'number') ||
+        (typeof value === 'number' && !isFinite(value))
+      ) {
+        return;
+      }
+      if (!keyIndices.has(columnName)) {
+        keyIndices.set(columnName, keys.length);
+        keys.push(columnName);
+      }
+      const valueKey = typeof value + ':' + value;
+      if (!valueIndices.has(valueKey)) {
+        valueIndices.set(valueKey, values.length);
+        values.push(value);
+      }
+      tags.push(keyIndices.get(columnName), valueIndices.get(valueKey));
+    });
+    return tags;
+  }
+
+  /**
+   * Project, clip, simplify and quantize a geometry into the tile
+   * @param geometry GeoJSON geometry
+   * @param toTile converts a coordinate of the feature into tile coordinates
+   * @return geometries of each type remaining in the tile
+   */
+  private getTileGeometries(geometry: Geometry, toTile: (coordinate: Position) => number[]): TileGeometry[] {
+    const parts: GeometryParts = { points: [], lines: [], polygons: [] };
+    FeatureVectorTiles.addGeometryParts(geometry, parts);
+    const min = -this.buffer;
+    const max = this.extent + this.buffer;
+    const geometries: TileGeometry[] = [];
+
+    const points = parts.points
+      .map(point => toTile(point))
+      .filter(point => point[0] >= min && point[0] <= max && point[1] >= min && point[1] <= max)
+      .map(point => [Math.round(point[0]), Math.round(point[1])]);
+    if (points.length > 0) {
+      geometries.push({ type: VectorTileGeometryType.POINT, parts: [points] });
+    }
+
+    const lines: number[][][] = [];
+    parts.lines.forEach(line => {
+      FeatureVectorTiles.clipLine(
+        line.map(coordinate => toTile(coordinate)),
+        min,
+        max,
+      ).forEach(clippedLine => {
+        const quantizedLine = this.quantize(clippedLine);
+        if (quantizedLine.length > 1) {
+          lines.push(quantizedLine);
+        }
+      });
+    });
+    if (lines.length > 0) {
+      geometries.push({ type: VectorTileGeometryType.LINESTRING, parts: lines });
+    }
+
+    const rings: number[][][] = [];
+    parts.polygons.forEach(polygon => {
+      const polygonRings: number[][][] = [];
+      for (let i = 0; i < polygon.length; i++) {
+        const ring = polygon[i].map(coordinate => toTile(coordinate));
+        if (ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]) {
+          ring.pop();
+        }
+        const quantizedRing = this.quantize(FeatureVectorTiles.clipRing(ring, min, max));
+        const area = FeatureVectorTiles.getArea(quantizedRing);
+        if (quantizedRing.length < 3 || area === 0) {
+          if (i === 0) {
+            // the holes of a polygon without an exterior ring are not drawn
+            return;
+          }
+          continue;
+        }
+        // exterior rings are clockwise and interior rings counter-clockwise in tile coordinates
+        if ((i === 0) !== area > 0) {
+          quantizedRing.reverse();
+        }
+        polygonRings.push(quantizedRing);
+      }
+      rings.push(...polygonRings);
+    });
+    if (rings.length > 0) {
+      geometries.push({ type: VectorTileGeometryType.POLYGON, parts: rings });
+    }
+    return geometries;
+  }
+
+  /**
+   * Simplify and round the points of a line or ring, removing repeated points
+   * @param points points in tile coordinates
+   * @return quantized points
+   */
+  private quantize(points: number[][]): number[][] {
+    let simplified = points;
+    if (this.simplifyGeometries && points.length > 2) {
+      simplified = simplify(
+        points.map(point => ({ x: point[0], y: point[1] })),
+        this.simplifyTolerance,
+        false,
+      ).map(point => [point.x, point.y]);
+    }
+    const quantized: number[][] = [];
+    simplified.forEach(point => {
+      const x = Math.round(point[0]);
+      const y = Math.round(point[1]);
+      const previous = quantized[quantized.length - 1];
+      if (!previous || previous[0] !== x || previous[1] !== y) {
+        quantized.push([x, y]);
+      }
+    });
+    return quantized;
+  }
+
+  private static addGeometryParts(geometry: Geometry, parts: GeometryParts): void {
+    switch (geometry.type) {
+      case 'Point':
+        parts.points.push(geometry.coordinates);
+        break;
+      case 'MultiPoint':
+        parts.points.push(...geometry.coordinates);
+        break;
+      case 'LineString':
+        parts.lines.push(geometry.coordinates);
+        break;
+      case 'MultiLineString':
+        parts.lines.push(...geometry.coordinates);
+        break;
+      case 'Polygon':
+        parts.polygons.push(geometry.coordinates);
+        break;
+      case 'MultiPolygon':
+        parts.polygons.push(...geometry.coordinates);
+        break;
+      case 'GeometryCollection':
+        geometry.geometries.forEach(member => FeatureVectorTiles.addGeometryParts(member, parts));
+        break;
+    }
+  }
+
+  /**
+   * Encode the geometry commands of a feature
+   * @param geometry geometry in tile coordinates
+   * @return command integers
+   */
+  static encodeGeometry(geometry: TileGeometry): number[] {
+    const commands: number[] = [];
+    let x = 0;
+    let y = 0;
+    const addPoint = (point: number[]): void => {
+      commands.push(FeatureVectorTiles.zigzag(point[0] - x), FeatureVectorTiles.zigzag(point[1] - y));
+      x = point[0];
+      y = point[1];
+    };
+    if (geometry.type === VectorTileGeometryType.POINT) {
+      const points = geometry.parts[0];
+      commands.push(FeatureVectorTiles.command(1, points.length));
+      points.forEach(addPoint);
+      return commands;
+    }
+    geometry.parts.forEach(part => {
+      commands.push(FeatureVectorTiles.command(1, 1));
+      addPoint(part[0]);
+      commands.push(FeatureVectorTiles.command(2, part.length - 1));
+      part.slice(1).forEach(addPoint);
+      if (geometry.type === VectorTileGeometryType.POLYGON) {
+        commands.push(FeatureVectorTiles.command(7, 1));
+      }
+    });
+    return commands;
+  }
+
+  private static command(id: number, count: number): number {
+    return (id & 0x7) | (count << 3);
+  }
+
+  private static zigzag(value: number): number {
+    return (value << 1) ^ (value >> 31);
+  }
+
+  private static writeValue(writer: PbfWriter, value: string | number | boolean): void {
+    if (typeof value === 'string') {
+      writer.writeStringField(1, value);
+    } else if (typeof value === 'boolean') {
+      writer.writeBooleanField(7, value);
+    } else if (value % 1 !== 0 || Math.abs(value) > Number.MAX_SAFE_INTEGER) {
+      writer.writeDoubleField(3, value);
+    } else if (value >= 0) {
+      writer.writeVarintField(5, value);
+    } else {
+      writer.writeSVarintField(6, value);
+    }
+  }
+
+  /**
+   * Get the signed area of a ring, positive for a clockwise ring in tile coordinates
+   * @param ring ring points without the closing point
+   * @return twice the signed area
+   */
+  static getArea(ring: number[][]): number {
+    let area = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      area += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+    }
+    return area;
+  }
+
+  /**
+   * Clip a line to a square
+   * @param line line points
+   * @param min minimum x and y of the square
+   * @param max maximum x and y of the square
+   * @return parts of the line inside the square
+   */
+  static clipLine(line: number[][], min: number, max: number): number[][][] {
+    const result: number[][][] = [];
+    let part: number[][] = [];
+    let codeA = FeatureVectorTiles.getCode(line[0], min, max);
+    for (let i = 1; i < line.length; i++) {
+      let a = line[i - 1];
+      let b = line[i];
+      let codeB = FeatureVectorTiles.getCode(b, min, max);
+      const lastCode = codeB;
+      // eslint-disable-next-line no-constant-condition
+      while (true) {
+        if (!(codeA | codeB)) {
+          // the segment is inside
+          part.push(a);
+          if (codeB !== lastCode) {
+            // the segment leaves the square
+            part.push(b);
+            if (i < line.length - 1) {
+              result.push(part);
+              part = [];
+            }
+          } else if (i === line.length - 1) {
+            part.push(b);
+          }
+          break;
+        } else if (codeA & codeB) {
+          // the segment is outside
+          break;
+        } else if (codeA) {
+          a = FeatureVectorTiles.intersect(a, b, codeA, min, max);
+          codeA = FeatureVectorTiles.getCode(a, min, max);
+        } else {
+          b = FeatureVectorTiles.intersect(a, b, codeB, min, max);
+          codeB = FeatureVectorTiles.getCode(b, min, max);
+        }
+      }
+      codeA = lastCode;
+    }
+    if (part.length > 0) {
+      result.push(part);
+    }
+    return result;
+  }
+
+  /**
+   * Clip a polygon ring to a square
+   * @param ring ring points without the closing point
+   * @param min minimum x and y of the square
+   * @param max maximum x and y of the square
+   * @return clipped ring without the closing point, empty if the ring is outside
+   */
+  static clipRing(ring: number[][], min: number, max: number): number[][] {
+    let points = ring;
+    for (let edge = 1; edge <= 8 && points.length > 0; edge *= 2) {
+      const clipped: number[][] = [];
+      let previous = points[points.length - 1];
+      let previousInside = !(FeatureVectorTiles.getCode(previous, min, max) & edge);
+      points.forEach(point => {
+        const inside = !(FeatureVectorTiles.getCode(point, min, max) & edge);
+        if (inside !== previousInside) {
+          clipped.push(FeatureVectorTiles.intersect(previous, point, edge, min, max));
+        }
+        if (inside) {
+          clipped.push(point);
+        }
+        previous = point;
+        previousInside = inside;
+      });
+      points = clipped;
+    }
+    return points;
+  }
+
+  /**
+   * Intersect a segment with an edge of a square
+   * @param a segment start
+   * @param b segment end
+   * @param edge 1 for the minimum x, 2 for the maximum x, 4 for the minimum y and 8 for the maximum y edge
+   * @param min minimum x and y of the square
+   * @param max maximum x and y of the square
+   * @return intersection
+   */
+  private static intersect(a: number[], b: number[], edge: number, min: number, max: number): number[] {
+    if (edge & 8) {
+      return [a[0] + ((b[0] - a[0]) * (max - a[1])) / (b[1] - a[1]), max];
+    } else if (edge & 4) {
+      return [a[0] + ((b[0] - a[0]) * (min - a[1])) / (b[1] - a[1]), min];
+    } else if (edge & 2) {
+      return [max, a[1] + ((b[1] - a[1]) * (max - a[0])) / (b[0] - a[0])];
+    }
+    return [min, a[1] + ((b[1] - a[1]) * (min - a[0])) / (b[0] - a[0])];
+  }
+
+  private static getCode(point: number[], min: number, max: number): number {
+    let code = 0;
+    if (point[0] < min) {
+      code |= 1;
+    } else if (point[0] > max) {
+      code |= 2;
+    }
+    if (point[1] < min) {
+      code |= 4;
+    } else if (point[1] > max) {
+      code |= 8;
+    }
+    return code;
+  }
+}
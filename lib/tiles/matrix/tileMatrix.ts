@@ -1,4 +1,5 @@
 import { Contents } from '../../core/contents/contents';
+import { ContentsDataType } from '../../core/contents/contentsDataType';
 
 /**
  * Tile Matrix object. Documents the structure of the tile matrix at each zoom
@@ -60,7 +61,10 @@ export class TileMatrix {
   pixel_y_size: number;
 
   set contents(contents: Contents) {
-    if (contents && contents.data_type === 'tiles') {
+    if (
+      contents &&
+      (contents.data_type === ContentsDataType.TILES || contents.data_type === ContentsDataType.VECTOR_TILES)
+    ) {
       this.table_name = contents.table_name;
     }
   }
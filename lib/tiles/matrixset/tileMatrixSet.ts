@@ -4,6 +4,7 @@
  */
 import { BoundingBox } from '../../boundingBox';
 import { Contents } from '../../core/contents/contents';
+import { ContentsDataType } from '../../core/contents/contentsDataType';
 
 /**
  * `TileMatrixSet` models the [`gpkg_tile_matrix_set`](https://www.geopackage.org/spec121/index.html#_tile_matrix_set)
@@ -72,7 +73,10 @@ export class TileMatrixSet {
     return new BoundingBox(this.min_x, this.max_x, this.min_y, this.max_y);
   }
   set contents(contents: Contents) {
-    if (contents && contents.data_type === 'tiles') {
+    if (
+      contents &&
+      (contents.data_type === ContentsDataType.TILES || contents.data_type === ContentsDataType.VECTOR_TILES)
+    ) {
       this.table_name = contents.table_name;
     }
   }
@@ -101,6 +101,9 @@ export class GeoPackageTileRetriever {
   }
 
   async getTileWithBounds(targetBoundingBox: BoundingBox, targetProjection: string, canvas?: any): Promise<any> {
+    if (this.tileDao.isVectorTiles()) {
+      throw new Error('Vector tiles can not be drawn as images: ' + this.tileDao.gpkgTableName);
+    }
     const targetProjectionDefinition = Projection.hasProjection(targetProjection);
     if (targetProjectionDefinition == null) {
       throw new Error('Projection ' + targetProjection + ' is not loaded.');
@@ -18,6 +18,8 @@ import { DBValue } from '../../db/dbAdapter';
 import { TileDaoUtils } from './tileDaoUtils';
 import { Projection } from '../../projection/projection';
 import { ProjectionConstants } from '../../projection/projectionConstants';
+import { ContentsDataType } from '../../core/contents/contentsDataType';
+import { AsyncIteration, AsyncIterationOptions } from '../../db/asyncIteration';
 
 /**
  * `TileDao` is a {@link module:dao/dao~Dao} subclass for reading
@@ -41,6 +43,7 @@ export class TileDao<T extends TileRow> extends UserDao<TileRow> {
   minWebMapZoom: number;
   maxWebMapZoom: number;
   webZoomToGeoPackageZooms: Record<number, number>;
+  private vectorTiles: boolean;
   constructor(
     geoPackage: GeoPackage,
     table: TileTable,
@@ -346,6 +349,22 @@ export class TileDao<T extends TileRow> extends UserDao<TileRow> {
       },
     };
   }
+  /**
+   * Query for Tiles at a zoom level asynchronously
+   * @param  {Number} zoomLevel zoom level
+   * @param  {module:db/asyncIteration~AsyncIterationOptions} [options] chunk size and abort signal
+   * @returns {AsyncIterableIterator<TileRow>}
+   */
+  queryForTilesWithZoomLevelAsync(zoomLevel: number, options?: AsyncIterationOptions): AsyncIterableIterator<TileRow> {
+    return AsyncIteration.iterate(
+      this.readChunksWhere(
+        this.buildWhereWithFieldAndValue(TileColumn.COLUMN_ZOOM_LEVEL, zoomLevel),
+        this.buildWhereArgs(zoomLevel),
+      ),
+      options,
+      result => this.getRow(result) as TileRow,
+    );
+  }
   /**
    * Query for Tiles at a zoom level in descending row and column order
    * @param  {Number} zoomLevel    zoom level
@@ -504,6 +523,17 @@ export class TileDao<T extends TileRow> extends UserDao<TileRow> {
     return this.countWhere(where, whereArgs);
   }
 
+  /**
+   * Determine if the tiles of the table are vector tiles rather than images
+   * @return {boolean}
+   */
+  isVectorTiles(): boolean {
+    if (this.vectorTiles == null) {
+      const contents = this.geoPackage.contentsDao.queryForId(this.gpkgTableName);
+      this.vectorTiles = contents != null && contents.data_type === ContentsDataType.VECTOR_TILES;
+    }
+    return this.vectorTiles;
+  }
   deleteTile(column: number, row: number, zoomLevel: number): number {
     let where = '';
     where += this.buildWhereWithFieldAndValue(TileColumn.COLUMN_ZOOM_LEVEL, zoomLevel);
@@ -172,10 +172,14 @@ export class TileTable extends UserTable<TileColumn> {
    * {@inheritDoc}
    */
   validateContents(contents: Contents) {
-    // Verify the Contents have a tiles data type
+    // Verify the Contents have a tiles or vector tiles data type
     let dataType = contents.data_type;
-    if (dataType === null || dataType === undefined || dataType !== ContentsDataType.TILES) {
-      throw new Error('The Contents of a TileTable must have a data type of tiles');
+    if (
+      dataType === null ||
+      dataType === undefined ||
+      (dataType !== ContentsDataType.TILES && dataType !== ContentsDataType.VECTOR_TILES)
+    ) {
+      throw new Error('The Contents of a TileTable must have a data type of tiles or vector-tiles');
     }
   }
 }
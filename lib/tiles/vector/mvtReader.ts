@@ -0,0 +1,230 @@
+/**
+ * Mapbox Vector Tile reader
+ * @module tiles/vector
+ */
+import { Feature, Geometry, Position } from 'geojson';
+
+import { PbfReader } from './pbfReader';
+import { FeatureVectorTiles, VectorTileGeometryType } from '../features/featureVectorTiles';
+
+/**
+ * A feature read from a vector tile layer
+ */
+export interface MvtFeature {
+  id?: number;
+  type: VectorTileGeometryType;
+  properties: Record<string, string | number | boolean>;
+  /**
+   * geometry in tile coordinates: each point of a point geometry, the lines of a line geometry or the rings of a
+   * polygon geometry without their closing points
+   */
+  geometry: number[][][];
+}
+
+/**
+ * A layer read from a vector tile
+ */
+export interface MvtLayer {
+  name: string;
+  version: number;
+  /**
+   * number of coordinate units across the tile
+   */
+  extent: number;
+  features: MvtFeature[];
+}
+
+/**
+ * Reads the layers and features of a Mapbox Vector Tile (version 1 or 2)
+ */
+export class MvtReader {
+  public static readonly DEFAULT_EXTENT: number = 4096;
+
+  /**
+   * Read the layers of a vector tile
+   * @param data vector tile
+   * @return layers
+   */
+  static read(data: Uint8Array): MvtLayer[] {
+    if (data.length > 1 && data[0] === 0x1f && data[1] === 0x8b) {
+      throw new Error('Compressed vector tiles are not supported');
+    }
+    const layers: MvtLayer[] = [];
+    new PbfReader(data).readFields((tag, type, reader) => {
+      if (tag === 3) {
+        layers.push(MvtReader.readLayer(reader.readMessage()));
+      }
+    });
+    return layers;
+  }
+
+  private static readLayer(reader: PbfReader): MvtLayer {
+    const layer: MvtLayer = { name: undefined, version: 1, extent: MvtReader.DEFAULT_EXTENT, features: [] };
+    const keys: string[] = [];
+    const values: (string | number | boolean)[] = [];
+    const featureTags: number[][] = [];
+    reader.readFields((tag, type, fieldReader) => {
+      if (tag === 15) {
+        layer.version = fieldReader.readVarint();
+      } else if (tag === 1) {
+        layer.name = fieldReader.readString();
+      } else if (tag === 2) {
+        const tags: number[] = [];
+        layer.features.push(MvtReader.readFeature(fieldReader.readMessage(), tags));
+        featureTags.push(tags);
+      } else if (tag === 3) {
+        keys.push(fieldReader.readString());
+      } else if (tag === 4) {
+        values.push(MvtReader.readValue(fieldReader.readMessage()));
+      } else if (tag === 5) {
+        layer.extent = fieldReader.readVarint();
+      }
+    });
+    layer.features.forEach((feature, index) => {
+      const tags = featureTags[index];
+      for (let i = 0; i + 1 < tags.length; i += 2) {
+        if (keys[tags[i]] !== undefined && values[tags[i + 1]] !== undefined) {
+          feature.properties[keys[tags[i]]] = values[tags[i + 1]];
+        }
+      }
+    });
+    return layer;
+  }
+
+  private static readFeature(reader: PbfReader, tags: number[]): MvtFeature {
+    const feature: MvtFeature = { type: VectorTileGeometryType.UNKNOWN, properties: {}, geometry: [] };
+    let commands: number[] = [];
+    reader.readFields((tag, type, fieldReader) => {
+      if (tag === 1) {
+        feature.id = fieldReader.readVarint();
+      } else if (tag === 2) {
+        tags.push(...fieldReader.readPackedVarint());
+      } else if (tag === 3) {
+        feature.type = fieldReader.readVarint();
+      } else if (tag === 4) {
+        commands = fieldReader.readPackedVarint();
+      }
+    });
+    feature.geometry = MvtReader.decodeGeometry(commands);
+    return feature;
+  }
+
+  private static readValue(reader: PbfReader): string | number | boolean {
+    let value: string | number | boolean;
+    reader.readFields((tag, type, fieldReader) => {
+      if (tag === 1) {
+        value = fieldReader.readString();
+      } else if (tag === 2) {
+        value = fieldReader.readFloat();
+      } else if (tag === 3) {
+        value = fieldReader.readDouble();
+      } else if (tag === 4 || tag === 5) {
+        value = fieldReader.readVarint();
+      } else if (tag === 6) {
+        value = fieldReader.readSVarint();
+      } else if (tag === 7) {
+        value = fieldReader.readBoolean();
+      }
+    });
+    return value;
+  }
+
+  /**
+   * Decode the geometry commands of a feature
+   * @param commands command integers
+   * @return points of each MoveTo command in tile coordinates
+   */
+  static decodeGeometry(commands: number[]): number[][][] {
+    const parts: number[][][] = [];
+    let part: number[][];
+    let x = 0;
+    let y = 0;
+    let i = 0;
+    while (i < commands.length) {
+      const id = commands[i] & 0x7;
+      const count = commands[i] >>> 3;
+      i++;
+      if (id === 7) {
+        continue;
+      }
+      for (let j = 0; j < count && i + 1 < commands.length; j++) {
+        x += MvtReader.unzigzag(commands[i]);
+        y += MvtReader.unzigzag(commands[i + 1]);
+        i += 2;
+        if (id === 1 || !part) {
+          part = [];
+          parts.push(part);
+        }
+        part.push([x, y]);
+      }
+    }
+    return parts;
+  }
+
+  /**
+   * Convert a feature to a GeoJSON feature
+   * @param feature vector tile feature
+   * @param toPosition converts tile coordinates to a position
+   * @return GeoJSON feature, with a null geometry if the feature has no supported geometry
+   */
+  static toGeoJSON(feature: MvtFeature, toPosition: (x: number, y: number) => Position): Feature {
+    const geoJson: Feature = {
+      type: 'Feature',
+      properties: Object.assign({}, feature.properties),
+      geometry: MvtReader.toGeometry(feature, toPosition),
+    };
+    if (feature.id !== undefined) {
+      geoJson.id = feature.id;
+    }
+    return geoJson;
+  }
+
+  private static toGeometry(feature: MvtFeature, toPosition: (x: number, y: number) => Position): Geometry {
+    const toPositions = (points: number[][]): Position[] => points.map(point => toPosition(point[0], point[1]));
+    if (feature.type === VectorTileGeometryType.POINT) {
+      const points = toPositions(
+        feature.geometry.reduce((allPoints, part) => allPoints.concat(part), [] as number[][]),
+      );
+      if (points.length === 0) {
+        return null;
+      }
+      return points.length === 1
+        ? { type: 'Point', coordinates: points[0] }
+        : { type: 'MultiPoint', coordinates: points };
+    } else if (feature.type === VectorTileGeometryType.LINESTRING) {
+      const lines = feature.geometry.filter(part => part.length > 1).map(toPositions);
+      if (lines.length === 0) {
+        return null;
+      }
+      return lines.length === 1
+        ? { type: 'LineString', coordinates: lines[0] }
+        : { type: 'MultiLineString', coordinates: lines };
+    } else if (feature.type === VectorTileGeometryType.POLYGON) {
+      // exterior rings are clockwise in tile coordinates and followed by their interior rings
+      const polygons: Position[][][] = [];
+      feature.geometry.forEach(ring => {
+        const area = FeatureVectorTiles.getArea(ring);
+        if (ring.length < 3 || area === 0) {
+          return;
+        }
+        const positions = toPositions(ring.concat([ring[0]]));
+        if (area > 0 || polygons.length === 0) {
+          polygons.push([positions]);
+        } else {
+          polygons[polygons.length - 1].push(positions);
+        }
+      });
+      if (polygons.length === 0) {
+        return null;
+      }
+      return polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons };
+    }
+    return null;
+  }
+
+  private static unzigzag(value: number): number {
+    return (value >>> 1) ^ -(value & 1);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Protocol buffer reader
+ * @module tiles/vector
+ */
+import { PbfWriter } from './pbfWriter';
+
+/**
+ * Reads the protocol buffer wire format used by Mapbox Vector Tiles
+ */
+export class PbfReader {
+  private position = 0;
+
+  /**
+   * @param buffer protocol buffer to read
+   */
+  constructor(private readonly buffer: Uint8Array) {}
+
+  /**
+   * Read each field of the message
+   * @param readField called with the field number and wire type of each field and must read or skip the field value
+   */
+  readFields(readField: (tag: number, type: number, reader: PbfReader) => void): void {
+    while (this.position < this.buffer.length) {
+      const key = this.readVarint();
+      const tag = Math.floor(key / 8);
+      const type = key % 8;
+      const start = this.position;
+      readField(tag, type, this);
+      if (this.position === start) {
+        this.skip(type);
+      }
+    }
+  }
+
+  /**
+   * Read an unsigned varint
+   * @return value
+   */
+  readVarint(): number {
+    let value = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      if (this.position >= this.buffer.length) {
+        throw new Error('Unexpected end of protocol buffer');
+      }
+      byte = this.buffer[this.position++];
+      value += (byte & 0x7f) * multiplier;
+      multiplier *= 0x80;
+    } while (byte & 0x80);
+    return value;
+  }
+
+  /**
+   * Read a zigzag encoded signed varint
+   * @return value
+   */
+  readSVarint(): number {
+    const value = this.readVarint();
+    return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+  }
+
+  readBoolean(): boolean {
+    return this.readVarint() !== 0;
+  }
+
+  readDouble(): number {
+    const value = this.getDataView(8).getFloat64(0, true);
+    this.position += 8;
+    return value;
+  }
+
+  readFloat(): number {
+    const value = this.getDataView(4).getFloat32(0, true);
+    this.position += 4;
+    return value;
+  }
+
+  /**
+   * Read a length delimited field
+   * @return bytes of the field
+   */
+  readBytes(): Uint8Array {
+    const length = this.readVarint();
+    const end = this.position + length;
+    if (end > this.buffer.length) {
+      throw new Error('Unexpected end of protocol buffer');
+    }
+    const bytes = this.buffer.subarray(this.position, end);
+    this.position = end;
+    return bytes;
+  }
+
+  readString(): string {
+    const bytes = this.readBytes();
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('utf8');
+  }
+
+  /**
+   * Read a packed repeated varint field
+   * @return values
+   */
+  readPackedVarint(): number[] {
+    const reader = new PbfReader(this.readBytes());
+    const values: number[] = [];
+    while (reader.position < reader.buffer.length) {
+      values.push(reader.readVarint());
+    }
+    return values;
+  }
+
+  /**
+   * Read an embedded message
+   * @return reader of the message
+   */
+  readMessage(): PbfReader {
+    return new PbfReader(this.readBytes());
+  }
+
+  /**
+   * Skip a field value
+   * @param type wire type of the field
+   */
+  skip(type: number): void {
+    if (type === PbfWriter.VARINT) {
+      this.readVarint();
+    } else if (type === PbfWriter.FIXED64) {
+      this.position += 8;
+    } else if (type === PbfWriter.BYTES) {
+      this.readBytes();
+    } else if (type === PbfWriter.FIXED32) {
+      this.position += 4;
+    } else {
+      throw new Error('Unsupported protocol buffer wire type: ' + type);
+    }
+  }
+
+  private getDataView(length: number): DataView {
+    if (this.position + length > this.buffer.length) {
+      throw new Error('Unexpected end of protocol buffer');
+    }
+    return new DataView(this.buffer.buffer, this.buffer.byteOffset + this.position, length);
+  }
+}
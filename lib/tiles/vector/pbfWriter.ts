@@ -0,0 +1,132 @@
+/**
+ * Protocol buffer writer
+ * @module tiles/vector
+ */
+
+/**
+ * Writes the protocol buffer wire format used by Mapbox Vector Tiles.  Only the field types used by vector tiles are
+ * supported: varints, zigzag encoded varints, doubles, floats, strings, packed varints and embedded messages.
+ */
+export class PbfWriter {
+  public static readonly VARINT: number = 0;
+  public static readonly FIXED64: number = 1;
+  public static readonly BYTES: number = 2;
+  public static readonly FIXED32: number = 5;
+
+  private bytes: number[] = [];
+
+  /**
+   * Number of bytes written
+   */
+  get length(): number {
+    return this.bytes.length;
+  }
+
+  /**
+   * Write a field key
+   * @param tag field number
+   * @param type wire type
+   */
+  writeTag(tag: number, type: number): void {
+    this.writeVarint(tag * 8 + type);
+  }
+
+  /**
+   * Write an unsigned varint
+   * @param value non-negative integer up to 2^53
+   */
+  writeVarint(value: number): void {
+    value = Math.max(0, Math.floor(value));
+    while (value > 0x7f) {
+      this.bytes.push(value % 0x80 | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.bytes.push(value);
+  }
+
+  /**
+   * Write a zigzag encoded signed varint
+   * @param value integer
+   */
+  writeSVarint(value: number): void {
+    this.writeVarint(value < 0 ? -value * 2 - 1 : value * 2);
+  }
+
+  /**
+   * Write raw bytes
+   * @param data bytes
+   */
+  writeRawBytes(data: Uint8Array | number[]): void {
+    for (let i = 0; i < data.length; i++) {
+      this.bytes.push(data[i]);
+    }
+  }
+
+  writeVarintField(tag: number, value: number): void {
+    this.writeTag(tag, PbfWriter.VARINT);
+    this.writeVarint(value);
+  }
+
+  writeSVarintField(tag: number, value: number): void {
+    this.writeTag(tag, PbfWriter.VARINT);
+    this.writeSVarint(value);
+  }
+
+  writeBooleanField(tag: number, value: boolean): void {
+    this.writeVarintField(tag, value ? 1 : 0);
+  }
+
+  writeDoubleField(tag: number, value: number): void {
+    this.writeTag(tag, PbfWriter.FIXED64);
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value, true);
+    this.writeRawBytes(new Uint8Array(view.buffer));
+  }
+
+  writeFloatField(tag: number, value: number): void {
+    this.writeTag(tag, PbfWriter.FIXED32);
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, value, true);
+    this.writeRawBytes(new Uint8Array(view.buffer));
+  }
+
+  writeBytesField(tag: number, data: Uint8Array | number[]): void {
+    this.writeTag(tag, PbfWriter.BYTES);
+    this.writeVarint(data.length);
+    this.writeRawBytes(data);
+  }
+
+  writeStringField(tag: number, value: string): void {
+    this.writeBytesField(tag, Buffer.from(value, 'utf8'));
+  }
+
+  /**
+   * Write a packed repeated varint field
+   * @param tag field number
+   * @param values non-negative integers
+   */
+  writePackedVarint(tag: number, values: number[]): void {
+    const packed = new PbfWriter();
+    values.forEach(value => packed.writeVarint(value));
+    this.writeBytesField(tag, packed.bytes);
+  }
+
+  /**
+   * Write an embedded message field
+   * @param tag field number
+   * @param write writes the fields of the message
+   */
+  writeMessage(tag: number, write: (writer: PbfWriter) => void): void {
+    const message = new PbfWriter();
+    write(message);
+    this.writeBytesField(tag, message.bytes);
+  }
+
+  /**
+   * Get the written bytes
+   * @return protocol buffer
+   */
+  finish(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+}
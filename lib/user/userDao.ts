@@ -1,3 +1,4 @@
+import proj4 from 'proj4';
 import { Dao } from '../dao/dao';
 import { GeoPackage } from '../geoPackage';
 import { UserMappingTable } from '../extension/relatedTables/userMappingTable';
@@ -15,6 +16,12 @@ import { GeoPackageDataType } from '../db/geoPackageDataType';
 import { UserColumn } from './userColumn';
 import { AlterTable } from '../db/alterTable';
 import { CoreSQLUtils } from '../db/coreSQLUtils';
+import { UserQuery } from './userQuery';
+import { BoundingBox } from '../boundingBox';
+import { AsyncIteration, AsyncIterationChunkReader, AsyncIterationOptions } from '../db/asyncIteration';
+import { SqliteQueryBuilder } from '../db/sqliteQueryBuilder';
+import { StringUtils } from '../db/stringUtils';
+import { FullTextSearchOptions, FullTextSearchResult } from '../extension/fullTextSearch';
 
 /**
  * Abstract User DAO for reading user tables
@@ -94,6 +101,82 @@ export class UserDao<T extends UserRow> extends Dao<UserRow> {
     return new UserRow(this.table, columnTypes, values);
   }
 
+  /**
+   * Start a query of the table
+   * @return {module:user/userQuery~UserQuery} query builder
+   */
+  query(): UserQuery<T> {
+    return new UserQuery<T>(this);
+  }
+  /**
+   * Iterate all rows of the table asynchronously
+   * @param  {module:db/asyncIteration~AsyncIterationOptions} [options] chunk size and abort signal
+   * @return {AsyncIterableIterator<UserRow>} rows
+   */
+  queryForEachAsync(options?: AsyncIterationOptions): AsyncIterableIterator<T> {
+    return this.queryWhereAsync(undefined, undefined, options);
+  }
+  /**
+   * Iterate the rows matching a where clause asynchronously
+   * @param  {string} [where] where clause
+   * @param  {Object[]} [whereArgs] array of where query values
+   * @param  {module:db/asyncIteration~AsyncIterationOptions} [options] chunk size and abort signal
+   * @return {AsyncIterableIterator<UserRow>} rows
+   */
+  queryWhereAsync(where?: string, whereArgs?: DBValue[], options?: AsyncIterationOptions): AsyncIterableIterator<T> {
+    return AsyncIteration.iterate(this.readChunksWhere(where, whereArgs), options, result => this.getRow(result) as T);
+  }
+  /**
+   * Get a reader of the rows matching a where clause in primary key order, each chunk read with its own query of the
+   * rows after the primary key of the last row read
+   * @param  {string} [where] where clause
+   * @param  {Object[]} [whereArgs] array of where query values
+   * @return {module:db/asyncIteration~AsyncIterationChunkReader} chunk reader
+   */
+  protected readChunksWhere(where?: string, whereArgs?: DBValue[]): AsyncIterationChunkReader<Record<string, DBValue>> {
+    const pkColumn = this.table.getPkColumnName();
+    const quotedPkColumn = StringUtils.quoteWrap(pkColumn);
+    return (chunkSize: number, last?: Record<string, DBValue>): Record<string, DBValue>[] => {
+      const conditions = where ? ['(' + where + ')'] : [];
+      const args = (whereArgs || []).slice();
+      if (last) {
+        conditions.push(quotedPkColumn + ' > ?');
+        args.push(last[pkColumn]);
+      }
+      const query = SqliteQueryBuilder.buildQuery(
+        false,
+        "'" + this.gpkgTableName + "'",
+        undefined,
+        conditions.length ? conditions.join(' and ') : undefined,
+        undefined,
+        undefined,
+        undefined,
+        quotedPkColumn,
+        chunkSize,
+      );
+      return this.connection.all(query, args);
+    };
+  }
+  /**
+   * Search the full text index of the table, created with the full text search extension
+   * @param  {string} query text to search for
+   * @param  {module:extension/fullTextSearch~FullTextSearchOptions} [options] search options
+   * @return {module:extension/fullTextSearch~FullTextSearchResult[]} matching rows ordered by rank
+   */
+  search(query: string, options?: FullTextSearchOptions): FullTextSearchResult<T>[] {
+    return this.geoPackage.fullTextSearchExtension.search(this, query, options);
+  }
+  /**
+   * Build a where clause matching the rows whose geometry envelopes intersect a bounding box, only implemented by the
+   * daos of feature tables
+   * @param  {BoundingBox} boundingBox bounding box
+   * @param  {string|proj4.Converter} [projection] projection of the bounding box
+   * @return {Object} where clause and arguments
+   */
+  buildBoundingBoxWhere?(
+    boundingBox: BoundingBox,
+    projection?: string | proj4.Converter,
+  ): { where: string; whereArgs: DBValue[] };
   /**
    * Links related rows together
    * @param  {module:user/userRow~UserRow} userRow             user row
@@ -0,0 +1,401 @@
+/**
+ * User query module.
+ * @module user/userQuery
+ */
+import proj4 from 'proj4';
+import { UserDao } from './userDao';
+import { UserRow } from './userRow';
+import { DBValue } from '../db/dbAdapter';
+import { SqliteQueryBuilder } from '../db/sqliteQueryBuilder';
+import { BoundingBox } from '../boundingBox';
+import { AsyncIteration, AsyncIterationOptions } from '../db/asyncIteration';
+
+/**
+ * Operators of a where condition
+ */
+export type UserQueryOperator =
+  | '='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'like'
+  | 'not like'
+  | 'in'
+  | 'not in'
+  | 'between'
+  | 'not between'
+  | 'is null'
+  | 'is not null';
+
+/**
+ * Aggregate functions of a grouped query
+ */
+export type UserQueryAggregate = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+/**
+ * Direction of an order by column
+ */
+export type UserQueryDirection = 'asc' | 'desc';
+
+/**
+ * Fluent builder of queries of a user table.  Column names are validated against the columns of the table and every
+ * value is bound as an argument, so no caller input is written into the SQL.  Conditions are combined with and.
+ *
+ * For example, dao.query().select('name').where('height', 'between', [10, 20]).orderBy('name').limit(10).rows()
+ */
+export class UserQuery<T extends UserRow> {
+  private static readonly OPERATORS: UserQueryOperator[] = [
+    '=',
+    '!=',
+    '<',
+    '<=',
+    '>',
+    '>=',
+    'like',
+    'not like',
+    'in',
+    'not in',
+    'between',
+    'not between',
+    'is null',
+    'is not null',
+  ];
+  private static readonly AGGREGATES: UserQueryAggregate[] = ['count', 'sum', 'avg', 'min', 'max'];
+  /**
+   * Alias of the primary key selected to read the results of a query asynchronously after the last row read
+   */
+  private static readonly KEY_ALIAS: string = 'gpkg_query_key';
+  private columns: string[] = [];
+  private aliases: string[] = [];
+  private isDistinct = false;
+  private conditions: string[] = [];
+  private args: DBValue[] = [];
+  private groupByColumns: string[] = [];
+  private orderByColumns: string[] = [];
+  private limitValue: number;
+  private offsetValue: number;
+
+  /**
+   * @param dao dao of the table to query
+   */
+  constructor(public readonly dao: UserDao<T>) {}
+
+  /**
+   * Select columns, all columns are selected when no columns or aggregates are selected
+   * @param columns column names
+   * @return this query
+   */
+  select(...columns: string[]): this {
+    columns.forEach(column => this.columns.push(this.quoteColumn(column)));
+    return this;
+  }
+
+  /**
+   * Select only distinct rows
+   * @return this query
+   */
+  distinct(): this {
+    this.isDistinct = true;
+    return this;
+  }
+
+  /**
+   * Select an aggregate of a column
+   * @param aggregate aggregate function
+   * @param column column name, or * to count rows
+   * @param alias name of the result, defaults to the function and column name such as sum_height, or count for count(*)
+   * @return this query
+   */
+  aggregate(aggregate: UserQueryAggregate, column: string, alias?: string): this {
+    if (UserQuery.AGGREGATES.indexOf(aggregate) === -1) {
+      throw new Error('Unsupported aggregate function: ' + aggregate);
+    }
+    if (column === '*' && aggregate !== 'count') {
+      throw new Error('Only count can aggregate all columns');
+    }
+    const name = alias != null ? alias : column === '*' ? aggregate : aggregate + '_' + column;
+    if (!/^\w+$/.test(name)) {
+      throw new Error('Invalid aggregate alias: ' + name);
+    }
+    this.columns.push(aggregate + '(' + (column === '*' ? '*' : this.quoteColumn(column)) + ') as "' + name + '"');
+    this.aliases.push(name);
+    return this;
+  }
+
+  /**
+   * Add a where condition
+   * @param column column name
+   * @param operator operator
+   * @param value value, an array of values for in and not in, an array of the lower and upper values for between and
+   * not between and no value for is null and is not null
+   * @return this query
+   */
+  where(column: string, operator: UserQueryOperator, value?: DBValue | DBValue[]): this {
+    const quoted = this.quoteColumn(column);
+    const op = (operator || '').toLowerCase() as UserQueryOperator;
+    if (UserQuery.OPERATORS.indexOf(op) === -1) {
+      throw new Error('Unsupported operator: ' + operator);
+    }
+    if (op === 'is null' || op === 'is not null') {
+      this.conditions.push(quoted + ' ' + op);
+    } else if (op === 'in' || op === 'not in') {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new Error('The ' + op + ' operator requires an array of values');
+      }
+      this.conditions.push(quoted + ' ' + op + ' (' + value.map(() => '?').join(', ') + ')');
+      this.args.push(...value);
+    } else if (op === 'between' || op === 'not between') {
+      if (!Array.isArray(value) || value.length !== 2) {
+        throw new Error('The ' + op + ' operator requires an array of a lower and an upper value');
+      }
+      this.conditions.push(quoted + ' ' + op + ' ? and ?');
+      this.args.push(value[0], value[1]);
+    } else {
+      if (value == null || Array.isArray(value)) {
+        throw new Error('The ' + op + ' operator requires a value, use is null or is not null to compare with null');
+      }
+      this.conditions.push(quoted + ' ' + op + ' ?');
+      this.args.push(value);
+    }
+    return this;
+  }
+
+  /**
+   * Add a condition matching the rows whose geometry envelopes intersect a bounding box, only supported by feature
+   * tables
+   * @param boundingBox bounding box
+   * @param projection projection of the bounding box, defaults to the projection of the table
+   * @return this query
+   */
+  whereBoundingBox(boundingBox: BoundingBox, projection?: string | proj4.Converter): this {
+    if (!this.dao.buildBoundingBoxWhere) {
+      throw new Error('Bounding box queries are only supported by feature tables: ' + this.dao.gpkgTableName);
+    }
+    const clause = this.dao.buildBoundingBoxWhere(boundingBox, projection);
+    this.conditions.push(clause.where);
+    this.args.push(...clause.whereArgs);
+    return this;
+  }
+
+  /**
+   * Group the rows by columns
+   * @param columns column names
+   * @return this query
+   */
+  groupBy(...columns: string[]): this {
+    columns.forEach(column => this.groupByColumns.push(this.quoteColumn(column)));
+    return this;
+  }
+
+  /**
+   * Order the rows by a column or aggregate alias
+   * @param column column name or aggregate alias
+   * @param direction direction, defaults to asc
+   * @return this query
+   */
+  orderBy(column: string, direction: UserQueryDirection = 'asc'): this {
+    const dir = (direction || '').toLowerCase();
+    if (dir !== 'asc' && dir !== 'desc') {
+      throw new Error('Unsupported order by direction: ' + direction);
+    }
+    const quoted = this.aliases.indexOf(column) !== -1 ? '"' + column + '"' : this.quoteColumn(column);
+    this.orderByColumns.push(quoted + ' ' + dir);
+    return this;
+  }
+
+  /**
+   * Limit the number of rows
+   * @param limit maximum number of rows, at least 1
+   * @return this query
+   */
+  limit(limit: number): this {
+    this.limitValue = UserQuery.validateCount('limit', limit, 1);
+    return this;
+  }
+
+  /**
+   * Skip rows, requires a limit
+   * @param offset number of rows to skip
+   * @return this query
+   */
+  offset(offset: number): this {
+    this.offsetValue = UserQuery.validateCount('offset', offset, 0);
+    return this;
+  }
+
+  /**
+   * Build the query
+   * @return sql and the arguments to bind
+   */
+  build(): { sql: string; args: DBValue[] } {
+    return this.buildWithRange(this.limitValue, this.offsetValue);
+  }
+
+  /**
+   * Build the query of a range of its results
+   * @param limit maximum number of results
+   * @param offset number of results to skip
+   * @param orderBy order by columns, defaults to the order by columns of the query
+   * @param columns selected columns, defaults to the columns of the query
+   * @param after condition and argument only matching the rows after the last row read
+   * @return sql and the arguments to bind
+   */
+  private buildWithRange(
+    limit: number,
+    offset: number,
+    orderBy = this.orderByColumns,
+    columns = this.columns,
+    after?: { condition: string; arg: DBValue },
+  ): { sql: string; args: DBValue[] } {
+    if (offset != null && limit == null) {
+      throw new Error('An offset requires a limit');
+    }
+    const conditions = after ? this.conditions.concat(after.condition) : this.conditions;
+    const sql = SqliteQueryBuilder.buildQuery(
+      this.isDistinct,
+      '"' + this.dao.gpkgTableName + '"',
+      columns,
+      conditions.length ? conditions.join(' and ') : undefined,
+      undefined,
+      this.groupByColumns.length ? this.groupByColumns.join(', ') : undefined,
+      undefined,
+      orderBy.length ? orderBy.join(', ') : undefined,
+      limit,
+      offset,
+      true,
+    );
+    return { sql, args: after ? this.args.concat(after.arg) : this.args.slice() };
+  }
+
+  /**
+   * Iterate the results of the query
+   * @return results
+   */
+  iterate(): IterableIterator<Record<string, DBValue>> {
+    const query = this.build();
+    return this.dao.connection.each(query.sql, query.args);
+  }
+
+  /**
+   * Iterate the results of the query asynchronously, reading each chunk of the results with its own query.  Queries of
+   * rows that are not ordered, grouped or distinct are read in primary key order after the last row read, so writes
+   * between chunks do not skip or repeat rows.  Other queries are read by offset, ordered by the primary key or the
+   * selected columns after their own order.
+   * @param options chunk size and abort signal
+   * @return results
+   */
+  iterateAsync(options?: AsyncIterationOptions): AsyncIterableIterator<Record<string, DBValue>> {
+    this.build();
+    const pkColumn = this.dao.table.getPkColumnName();
+    const quotedPkColumn = this.quoteColumn(pkColumn);
+    const plainRows = !this.isDistinct && this.groupByColumns.length === 0 && this.aliases.length === 0;
+    let read = 0;
+    const readChunk = (
+      chunkSize: number,
+      query: (limit: number) => { sql: string; args: DBValue[] },
+    ): Record<string, DBValue>[] => {
+      const limit = this.limitValue != null ? Math.min(chunkSize, this.limitValue - read) : chunkSize;
+      if (limit <= 0) {
+        return [];
+      }
+      const range = query(limit);
+      const results = this.dao.connection.all(range.sql, range.args);
+      read += results.length;
+      return results;
+    };
+    if (plainRows && this.orderByColumns.length === 0) {
+      // select the primary key under its own name when only some columns are selected
+      const keyColumn = this.columns.length ? UserQuery.KEY_ALIAS : pkColumn;
+      const columns = this.columns.length
+        ? this.columns.concat(quotedPkColumn + ' as "' + UserQuery.KEY_ALIAS + '"')
+        : this.columns;
+      return AsyncIteration.iterate(
+        (chunkSize: number, last?: Record<string, DBValue>): Record<string, DBValue>[] =>
+          readChunk(chunkSize, limit =>
+            last
+              ? this.buildWithRange(limit, undefined, [quotedPkColumn], columns, {
+                  condition: quotedPkColumn + ' > ?',
+                  arg: last[keyColumn],
+                })
+              : this.buildWithRange(limit, this.offsetValue, [quotedPkColumn], columns),
+          ),
+        options,
+        (result: Record<string, DBValue>): Record<string, DBValue> => {
+          if (keyColumn !== UserQuery.KEY_ALIAS) {
+            return result;
+          }
+          // the last result of a chunk is read again for the key of the next chunk
+          const values = Object.assign({}, result);
+          delete values[UserQuery.KEY_ALIAS];
+          return values;
+        },
+      );
+    }
+    let tieBreak = [quotedPkColumn];
+    if (!plainRows && this.columns.length) {
+      tieBreak = this.columns.map((column, i) => String(i + 1));
+    } else if (!plainRows && this.groupByColumns.length) {
+      tieBreak = this.groupByColumns;
+    }
+    const orderBy = this.orderByColumns.concat(tieBreak);
+    return AsyncIteration.iterate(
+      (chunkSize: number): Record<string, DBValue>[] =>
+        readChunk(chunkSize, limit => this.buildWithRange(limit, (this.offsetValue || 0) + read, orderBy)),
+      options,
+    );
+  }
+
+  /**
+   * Get all results of the query
+   * @return results
+   */
+  all(): Record<string, DBValue>[] {
+    const query = this.build();
+    return this.dao.connection.all(query.sql, query.args);
+  }
+
+  /**
+   * Get the results of the query as rows of the table
+   * @return rows
+   */
+  rows(): T[] {
+    return this.all().map(result => this.dao.getRow(result) as T);
+  }
+
+  /**
+   * Count the results of the query
+   * @return count
+   */
+  count(): number {
+    const query = this.build();
+    return this.dao.connection.get('select count(*) as count from (' + query.sql + ')', query.args).count;
+  }
+
+  /**
+   * Validate and quote a column name
+   * @param column column name
+   * @return quoted column name
+   */
+  private quoteColumn(column: string): string {
+    if (!this.dao.table.hasColumn(column)) {
+      throw new Error('Column ' + column + ' does not exist in table ' + this.dao.gpkgTableName);
+    }
+    return '"' + column + '"';
+  }
+
+  /**
+   * Validate a limit or offset
+   * @param name name of the value
+   * @param value value
+   * @param min minimum value
+   * @return value
+   */
+  private static validateCount(name: string, value: number, min: number): number {
+    if (typeof value !== 'number' || !isFinite(value) || value < min || Math.floor(value) !== value) {
+      throw new Error('The ' + name + ' must be an integer of at least ' + min + ': ' + value);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,50 @@
+var FeatureColumn = require('../../lib/features/user/featureColumn').FeatureColumn
+  , GeometryType = require('../../lib/features/user/geometryType').GeometryType
+  , GeoPackageDataType = require('../../lib/db/geoPackageDataType').GeoPackageDataType
+  , SetupFeatureTable = require('./setupFeatureTable');
+
+module.exports.createPlacesTable = function(geopackage, additionalColumns) {
+  var geometryColumns = SetupFeatureTable.buildGeometryColumns('places', 'geom', GeometryType.POINT);
+  geopackage.createFeatureTable('places', geometryColumns, [
+    FeatureColumn.createPrimaryKeyColumn(0, 'id'),
+    FeatureColumn.createGeometryColumn(1, 'geom', GeometryType.POINT, false, null),
+    FeatureColumn.createColumn(2, 'name', GeoPackageDataType.TEXT, false, null),
+    FeatureColumn.createColumn(3, 'population', GeoPackageDataType.INTEGER, false, null),
+  ].concat(additionalColumns || []));
+  return geopackage.getFeatureDao('places');
+};
+
+module.exports.createPlaces = function(geopackage, additionalColumns) {
+  module.exports.createPlacesTable(geopackage, additionalColumns);
+  module.exports.createPlace(geopackage, 'Denver', 'POINT(-105 39.7)', 715000);
+  module.exports.createPlace(geopackage, 'Boulder', 'POINT(-105.3 40)', 108000);
+  module.exports.createPlace(geopackage, 'Golden', 'POINT(-105.2 39.8)', 20000);
+};
+
+module.exports.createPlace = function(geopackage, name, wkt, population, values) {
+  var featureDao = geopackage.getFeatureDao('places');
+  var row = featureDao.newRow();
+  row.setValueWithColumnName('name', name);
+  if (population != null) {
+    row.setValueWithColumnName('population', population);
+  }
+  Object.keys(values || {}).forEach(function(column) {
+    row.setValueWithColumnName(column, values[column]);
+  });
+  row.setGeometryWithWkt(wkt, 4326);
+  return featureDao.create(row);
+};
+
+module.exports.updatePlace = function(geopackage, id, column, value) {
+  var featureDao = geopackage.getFeatureDao('places');
+  var row = featureDao.queryForId(id);
+  row.setValueWithColumnName(column, value);
+  featureDao.update(row);
+};
+
+module.exports.movePlace = function(geopackage, id, wkt) {
+  var featureDao = geopackage.getFeatureDao('places');
+  var row = featureDao.queryForId(id);
+  row.setGeometryWithWkt(wkt, 4326);
+  featureDao.update(row);
+};
@@ -0,0 +1,198 @@
+import { default as testSetup } from '../../fixtures/testSetup'
+
+var FeatureColumn = require('../../../lib/features/user/featureColumn').FeatureColumn
+  , GeoPackageDataType = require('../../../lib/db/geoPackageDataType').GeoPackageDataType
+  , GeometryType = require('../../../lib/features/user/geometryType').GeometryType
+  , BoundingBox = require('../../../lib/boundingBox').BoundingBox
+  , SetupFeatureTable = require('../../fixtures/setupFeatureTable')
+  , should = require('chai').should();
+
+describe('Async iteration tests', function() {
+  var testGeoPackage;
+  var geopackage;
+  var featureDao;
+
+  var collect = async function(iterator) {
+    var values = [];
+    for await (var value of iterator) {
+      values.push(value);
+    }
+    return values;
+  };
+
+  var createPoint = function(name, x, y) {
+    var row = featureDao.newRow();
+    row.setValueWithColumnName('name', name);
+    row.setGeometryWithWkt('POINT(' + x + ' ' + y + ')', 4326);
+    return featureDao.create(row);
+  };
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+    var geometryColumns = SetupFeatureTable.buildGeometryColumns('points', 'geom', GeometryType.POINT);
+    geopackage.createFeatureTable('points', geometryColumns, [
+      FeatureColumn.createPrimaryKeyColumn(0, 'id'),
+      FeatureColumn.createGeometryColumn(1, 'geom', GeometryType.POINT, false, null),
+      FeatureColumn.createColumn(2, 'name', GeoPackageDataType.TEXT, false, ''),
+    ]);
+    featureDao = geopackage.getFeatureDao('points');
+    for (var i = 0; i < 25; i++) {
+      createPoint('point ' + i, i, i);
+    }
+    await featureDao.index();
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  it('should iterate all rows in chunks', async function() {
+    var rows = await collect(featureDao.queryForEachAsync({ chunkSize: 4 }));
+    rows.length.should.be.equal(25);
+    rows[0].getValueWithColumnName('name').should.be.equal('point 0');
+    rows[24].geometry.geometry.x.should.be.equal(24);
+  });
+
+  it('should iterate the rows matching a where clause', async function() {
+    var rows = await collect(featureDao.queryWhereAsync('id > ? and id <= ?', [20, 23]));
+    rows.map(function(row) {
+      return row.id;
+    }).should.be.deep.equal([21, 22, 23]);
+  });
+
+  it('should iterate the results of a query', async function() {
+    var results = await collect(
+      featureDao
+        .query()
+        .select('name')
+        .where('id', '<=', 3)
+        .iterateAsync({ chunkSize: 1 }),
+    );
+    results.should.be.deep.equal([{ name: 'point 0' }, { name: 'point 1' }, { name: 'point 2' }]);
+  });
+
+  it('should write to the table between chunks', async function() {
+    var count = 0;
+    for await (var row of featureDao.queryForEachAsync({ chunkSize: 5 })) {
+      should.exist(row);
+      if (++count % 5 === 0) {
+        should.exist(createPoint('during rows ' + count, 40 + count, 40 + count));
+      }
+    }
+    count.should.be.equal(31);
+    featureDao.getCount().should.be.equal(31);
+    var results = [];
+    for await (var result of featureDao.query().select('id').limit(7).offset(2).iterateAsync({ chunkSize: 3 })) {
+      results.push(result.id);
+      createPoint('during query ' + result.id, 0, 0);
+    }
+    results.should.be.deep.equal([3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('should not skip or repeat the results of a query when rows are deleted between chunks', async function() {
+    var results = [];
+    for await (var result of featureDao.query().select('name').iterateAsync({ chunkSize: 5 })) {
+      results.push(result);
+      featureDao.deleteWhere('name = ?', [result.name]);
+    }
+    results.length.should.be.equal(25);
+    results[24].should.be.deep.equal({ name: 'point 24' });
+    featureDao.getCount().should.be.equal(0);
+  });
+
+  it('should iterate ordered and grouped queries in the order of the query', async function() {
+    var query = featureDao
+      .query()
+      .select('name')
+      .where('id', '>', 10)
+      .orderBy('name', 'desc');
+    (await collect(query.iterateAsync({ chunkSize: 4 }))).should.be.deep.equal(query.all());
+    createPoint('point 11', 11, 11);
+    var grouped = featureDao
+      .query()
+      .select('name')
+      .aggregate('count', '*')
+      .groupBy('name')
+      .limit(6)
+      .offset(10);
+    (await collect(grouped.iterateAsync({ chunkSize: 4 }))).should.be.deep.equal(grouped.all());
+  });
+
+  it('should iterate the features in a bounding box', async function() {
+    var rows = await collect(
+      featureDao.queryIndexedFeaturesWithBoundingBoxAsync(new BoundingBox(2.5, 5.5, 2.5, 5.5), { chunkSize: 2 }),
+    );
+    rows.map(function(row) {
+      return row.getValueWithColumnName('name');
+    }).should.be.deep.equal(['point 3', 'point 4', 'point 5']);
+  });
+
+  it('should iterate GeoJSON features', async function() {
+    var features = await collect(geopackage.iterateGeoJSONFeaturesAsync('points', new BoundingBox(9.5, 11.5, 9.5, 11.5)));
+    features.length.should.be.equal(2);
+    features[0].type.should.be.equal('Feature');
+    features[0].properties.name.should.be.equal('point 10');
+    features[1].geometry.coordinates.should.be.deep.equal([11, 11]);
+    (await collect(geopackage.iterateGeoJSONFeaturesAsync('points'))).length.should.be.equal(25);
+  });
+
+  it('should reject with an abort error when aborted', async function() {
+    var controller = new AbortController();
+    var count = 0;
+    var error;
+    try {
+      for await (var row of featureDao.queryForEachAsync({ chunkSize: 5, signal: controller.signal })) {
+        should.exist(row);
+        if (++count === 3) {
+          controller.abort();
+        }
+      }
+    } catch (e) {
+      error = e;
+    }
+    should.exist(error);
+    error.name.should.be.equal('AbortError');
+    count.should.be.equal(3);
+    should.exist(createPoint('after abort', 30, 30));
+    featureDao.getCount().should.be.equal(26);
+  });
+
+  it('should not read rows when already aborted', async function() {
+    var controller = new AbortController();
+    controller.abort();
+    var error;
+    try {
+      await collect(featureDao.queryForEachAsync({ signal: controller.signal }));
+    } catch (e) {
+      error = e;
+    }
+    should.exist(error);
+    error.name.should.be.equal('AbortError');
+  });
+
+  it('should release the query when the iteration stops early', async function() {
+    var rows = featureDao.queryForEachAsync();
+    (await rows.next()).value.getValueWithColumnName('name').should.be.equal('point 0');
+    await rows.return();
+    should.exist(createPoint('after rows', 30, 30));
+    var features = geopackage.iterateGeoJSONFeaturesAsync('points');
+    (await features.next()).done.should.be.equal(false);
+    await features.return();
+    should.exist(createPoint('after features', 31, 31));
+    featureDao.getCount().should.be.equal(27);
+  });
+
+  it('should reject an invalid chunk size', async function() {
+    var error;
+    try {
+      await collect(featureDao.queryForEachAsync({ chunkSize: 0 }));
+    } catch (e) {
+      error = e;
+    }
+    should.exist(error);
+    error.message.should.be.equal('The chunk size must be an integer of at least 1: 0');
+    should.exist(createPoint('after error', 30, 30));
+  });
+});
@@ -0,0 +1,114 @@
+import { default as testSetup } from '../../fixtures/testSetup'
+
+var FeatureColumn = require('../../../lib/features/user/featureColumn').FeatureColumn
+  , GeoPackageDataType = require('../../../lib/db/geoPackageDataType').GeoPackageDataType
+  , GeometryData = require('../../../lib/geom/geometryData').GeometryData
+  , GeometryType = require('../../../lib/features/user/geometryType').GeometryType
+  , SetupFeatureTable = require('../../fixtures/setupFeatureTable')
+  , should = require('chai').should();
+
+describe('Spatial function tests', function() {
+  var testGeoPackage;
+  var geopackage;
+  var featureDao;
+
+  var wkts = {
+    square: 'POLYGON((0 0,10 0,10 10,0 10,0 0),(4 4,6 4,6 6,4 6,4 4))',
+    line: 'LINESTRING(20 0,20 3,24 6)',
+    point: 'POINT(5 1)',
+    arc: 'CIRCULARSTRING(-2 0,0 2,2 0)',
+  };
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+    var geometryColumns = SetupFeatureTable.buildGeometryColumns('shapes', 'geom', GeometryType.GEOMETRY);
+    geopackage.createFeatureTable('shapes', geometryColumns, [
+      FeatureColumn.createPrimaryKeyColumn(0, 'id'),
+      FeatureColumn.createGeometryColumn(1, 'geom', GeometryType.GEOMETRY, false, null),
+      FeatureColumn.createColumn(2, 'name', GeoPackageDataType.TEXT, false, ''),
+    ]);
+    featureDao = geopackage.getFeatureDao('shapes');
+    Object.keys(wkts).forEach(function(name) {
+      var row = featureDao.newRow();
+      row.setValueWithColumnName('name', name);
+      row.setGeometryWithWkt(wkts[name], 4326);
+      featureDao.create(row);
+    });
+    geopackage.connection.registerSpatialFunctions();
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  var names = function(where, whereArgs) {
+    var result = [];
+    for (var row of featureDao.queryWhere(where, whereArgs)) {
+      result.push(row.name);
+    }
+    return result.sort();
+  };
+
+  var value = function(sql, params) {
+    return geopackage.connection.get('select ' + sql + ' as value', params).value;
+  };
+
+  it('should describe geometries', function() {
+    value("ST_GeometryType(ST_GeomFromText('MULTIPOINT Z ((1 2 3))', 4326))").should.be.equal('MULTIPOINT');
+    value("ST_GeometryType(ST_GeomFromText('CIRCULARSTRING(0 0,1 1,2 0)', 4326))").should.be.equal('CIRCULARSTRING');
+    value("ST_SRID(ST_GeomFromText('SRID=3857;POINT(1 2)', null))").should.be.equal(3857);
+    value("ST_SRID(ST_GeomFromText('POINT(1 2)', 4326))").should.be.equal(4326);
+    value("ST_AsText(ST_GeomFromText('LINESTRING(1 2,3 4)', 4326))").should.be.equal('LINESTRING(1 2,3 4)');
+    should.not.exist(value('ST_AsText(null)'));
+    names("ST_GeometryType(geom) = 'POLYGON'").should.be.deep.equal(['square']);
+  });
+
+  it('should filter features with spatial predicates', function() {
+    names("ST_Intersects(geom, ST_GeomFromText('LINESTRING(-5 5,15 5)', 4326))").should.be.deep.equal(['square']);
+    names("ST_Intersects(geom, ST_GeomFromText('LINESTRING(-3 1,-1 1)', 4326))").should.be.deep.equal(['arc']);
+    names("ST_Intersects(geom, ST_GeomFromText('POINT(5 5)', 4326))").should.be.deep.equal([]);
+    names("ST_Contains(geom, ST_GeomFromText('POINT(2 2)', 4326))").should.be.deep.equal(['square']);
+    names("ST_Contains(geom, ST_GeomFromText('POINT(5 5)', 4326))").should.be.deep.equal([]);
+    names("ST_Contains(geom, ST_GeomFromText(?, 4326))", [wkts.square]).should.be.deep.equal(['square']);
+    names("ST_Within(geom, ST_GeomFromText(?, 4326))", [wkts.square]).should.be.deep.equal(['point', 'square']);
+    names("ST_Within(geom, ST_GeomFromText('POLYGON((-1 -1,11 -1,11 11,-1 11,-1 -1))', 4326))").should.be.deep.equal([
+      'point',
+      'square',
+    ]);
+    names("ST_Within(geom, ST_GeomFromText('POLYGON((4.5 4.5,5.5 4.5,5.5 5.5,4.5 5.5,4.5 4.5))', 4326))").should.be.deep.equal([]);
+    names("ST_Distance(geom, ST_GeomFromText('POINT(20 -4)', 4326)) < ?", [5]).should.be.deep.equal(['line']);
+  });
+
+  it('should measure geometries', function() {
+    var measure = function(sql, name) {
+      return geopackage.connection.get('select ' + sql + ' as value from shapes where name = ?', [name]).value;
+    };
+    measure('ST_Area(geom)', 'square').should.be.equal(96);
+    measure('ST_Area(geom)', 'line').should.be.equal(0);
+    measure('ST_Length(geom)', 'line').should.be.equal(8);
+    measure('ST_Length(geom)', 'arc').should.be.closeTo(2 * Math.PI, 0.01);
+    measure('ST_Distance(geom, geom)', 'line').should.be.equal(0);
+    value("ST_Distance(ST_GeomFromText('POINT(0 0)', 4326), ST_GeomFromText('LINESTRING(3 -1,3 4)', 4326))").should.be.equal(3);
+    measure('ST_AsText(ST_Centroid(geom))', 'square').should.be.equal('POINT(5 5)');
+    measure('ST_AsText(ST_Centroid(geom))', 'point').should.be.equal('POINT(5 1)');
+    var centroid = new GeometryData(measure('ST_Centroid(geom)', 'line'));
+    centroid.srsId.should.be.equal(4326);
+    centroid.geometry.x.should.be.closeTo(21.25, 1e-9);
+    centroid.geometry.y.should.be.closeTo(3.375, 1e-9);
+  });
+
+  it('should transform geometries', function() {
+    var transformed = new GeometryData(value("ST_Transform(ST_GeomFromText('POINT Z (180 0 7)', 4326), 3857)"));
+    transformed.srsId.should.be.equal(3857);
+    transformed.geometry.x.should.be.closeTo(20037508.34, 0.01);
+    transformed.geometry.y.should.be.closeTo(0, 0.01);
+    transformed.geometry.z.should.be.equal(7);
+    var back = new GeometryData(value('ST_Transform(?, 4326)', [transformed.toData()]));
+    back.geometry.x.should.be.closeTo(180, 1e-9);
+    (function() {
+      value("ST_Transform(ST_GeomFromText('POINT(1 2)', 4326), 123456)");
+    }).should.throw();
+  });
+});
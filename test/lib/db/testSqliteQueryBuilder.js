@@ -51,4 +51,14 @@ describe('SqliteQueryBuilder tests', function() {
     query.should.be.equal('select distinct test_table.* from test_table join where a = 1 group by grouping_column having having clause order by order_column limit 500');
   });
 
+  it('should create a query selecting aggregate expressions', function() {
+    var query = QueryBuilder.buildQuery(false, 'test_table', ['"column1"', 'count(*) as "count"', 'sum("column2") as "total"'], undefined, undefined, 'column1', undefined, undefined, undefined, undefined, true);
+    query.should.be.equal('select "column1", count(*) as "count", sum("column2") as "total" from test_table group by column1');
+  });
+
+  it('should quote column names holding parentheses', function() {
+    var query = QueryBuilder.buildQuery(false, 'test_table', ['column1', 'height (m)']);
+    query.should.be.equal('select "column1", "height (m)" from test_table');
+  });
+
 });
@@ -0,0 +1,157 @@
+import { default as testSetup } from '../../fixtures/testSetup'
+
+var GeoPackageDiff = require('../../../lib/diff/geoPackageDiff').GeoPackageDiff
+  , DiffType = require('../../../lib/diff/geoPackageDiffReport').DiffType
+  , FeatureColumn = require('../../../lib/features/user/featureColumn').FeatureColumn
+  , UserColumn = require('../../../lib/user/userColumn').UserColumn
+  , GeoPackageDataType = require('../../../lib/db/geoPackageDataType').GeoPackageDataType
+  , SetupPlacesTable = require('../../fixtures/setupPlacesTable')
+  , should = require('chai').should();
+
+describe('GeoPackage diff tests', function() {
+  var testBase;
+  var testOther;
+  var base;
+  var other;
+
+  beforeEach(async function() {
+    testBase = await testSetup.createTmpGeoPackage();
+    testOther = await testSetup.createTmpGeoPackage();
+    base = testBase.geopackage;
+    other = testOther.geopackage;
+  });
+
+  afterEach(async function() {
+    base.close();
+    other.close();
+    await testSetup.deleteGeoPackage(testBase.path);
+    await testSetup.deleteGeoPackage(testOther.path);
+  });
+
+  it('should find no differences between equal GeoPackages', function() {
+    SetupPlacesTable.createPlaces(base);
+    SetupPlacesTable.createPlaces(other);
+    var report = base.diff(other, { ignoreColumns: ['last_change'] });
+    report.summary.identical.should.be.equal(true);
+    report.contents.length.should.be.equal(0);
+    report.spatialReferenceSystems.length.should.be.equal(0);
+    report.extensions.length.should.be.equal(0);
+    report.tables.length.should.be.equal(0);
+    GeoPackageDiff.formatSummary(report).should.contain('identical');
+  });
+
+  it('should diff the rows by primary key', function() {
+    SetupPlacesTable.createPlaces(base);
+    SetupPlacesTable.createPlaces(other);
+    other.getFeatureDao('places').deleteById(1);
+    SetupPlacesTable.updatePlace(other, 2, 'population', 109000);
+    SetupPlacesTable.movePlace(other, 3, 'POINT(-105.25 39.75)');
+    SetupPlacesTable.createPlace(other, 'Lakewood', 'POINT(-105.1 39.7)', 155000);
+    var report = base.diff(other, { ignoreColumns: ['last_change'] });
+    report.summary.identical.should.be.equal(false);
+    report.summary.rows.should.be.deep.equal({ added: 1, removed: 1, changed: 2 });
+    report.tables.length.should.be.equal(1);
+    var rows = report.tables[0].rows;
+    rows.keyColumn.should.be.equal('id');
+    rows.unchanged.should.be.equal(0);
+    rows.truncated.should.be.equal(false);
+    rows.differences.length.should.be.equal(4);
+    rows.differences[0].should.be.deep.equal({ id: 1, type: DiffType.REMOVED });
+    rows.differences[1].should.be.deep.equal({
+      id: 2,
+      type: DiffType.CHANGED,
+      changes: [{ name: 'population', base: 108000, other: 109000 }],
+    });
+    rows.differences[2].type.should.be.equal(DiffType.CHANGED);
+    rows.differences[2].changes.length.should.be.equal(1);
+    rows.differences[2].changes[0].name.should.be.equal('geom');
+    rows.differences[2].changes[0].base.should.be.equal('SRID=4326;POINT(-105.2 39.8)');
+    rows.differences[2].changes[0].other.should.be.equal('SRID=4326;POINT(-105.25 39.75)');
+    rows.differences[3].should.be.deep.equal({ id: 4, type: DiffType.ADDED });
+    var summary = GeoPackageDiff.formatSummary(report);
+    summary.should.contain('Rows: 1 added, 1 removed, 2 changed');
+    summary.should.contain('places: 1 added, 1 removed, 2 changed');
+  });
+
+  it('should compare geometries and real values within the tolerance', function() {
+    SetupPlacesTable.createPlaces(base, [FeatureColumn.createColumn(4, 'area', GeoPackageDataType.REAL, false, null)]);
+    SetupPlacesTable.createPlaces(other, [FeatureColumn.createColumn(4, 'area', GeoPackageDataType.REAL, false, null)]);
+    SetupPlacesTable.updatePlace(base, 1, 'area', 401.2);
+    SetupPlacesTable.updatePlace(other, 1, 'area', 401.2000001);
+    SetupPlacesTable.movePlace(other, 2, 'POINT(-105.3000001 40.0000001)');
+    var report = base.diff(other, { ignoreColumns: ['last_change'] });
+    report.summary.rows.changed.should.be.equal(2);
+    report = base.diff(other, { ignoreColumns: ['last_change'], tolerance: 0.00001 });
+    report.summary.identical.should.be.equal(true);
+  });
+
+  it('should ignore columns and limit the listed row differences', function() {
+    SetupPlacesTable.createPlaces(base);
+    SetupPlacesTable.createPlaces(other);
+    SetupPlacesTable.updatePlace(other, 1, 'population', 716000);
+    SetupPlacesTable.updatePlace(other, 2, 'population', 109000);
+    SetupPlacesTable.updatePlace(other, 3, 'name', 'Golden City');
+    var report = base.diff(other, { ignoreColumns: ['last_change'], maxRowDifferences: 1 });
+    var rows = report.tables[0].rows;
+    rows.changed.should.be.equal(3);
+    rows.differences.length.should.be.equal(1);
+    rows.differences[0].id.should.be.equal(1);
+    rows.truncated.should.be.equal(true);
+    report = base.diff(other, { ignoreColumns: ['last_change', 'population'] });
+    report.tables[0].rows.changed.should.be.equal(1);
+    report.tables[0].rows.differences[0].id.should.be.equal(3);
+  });
+
+  it('should diff the contents, spatial reference systems and extensions', function() {
+    SetupPlacesTable.createPlaces(base);
+    SetupPlacesTable.createPlaces(other);
+    var srs = other.spatialReferenceSystemDao.createObject();
+    srs.srs_name = 'Test SRS';
+    srs.srs_id = 100000;
+    srs.organization = 'NONE';
+    srs.organization_coordsys_id = 100000;
+    srs.definition = 'undefined';
+    other.spatialReferenceSystemDao.create(srs);
+    SetupPlacesTable.updatePlace(other, 2, 'name', 'Boulder City');
+    other.createAttributesTable('notes', [
+      UserColumn.createPrimaryKeyColumn(0, 'id'),
+      UserColumn.createColumn(1, 'title', GeoPackageDataType.TEXT, false, null),
+    ]);
+    other.changeTrackingExtension.track('places');
+    SetupPlacesTable.updatePlace(other, 1, 'name', 'Denver City');
+    var report = base.diff(other, { ignoreColumns: ['last_change'] });
+    report.contents.should.be.deep.equal([{ key: 'notes', type: DiffType.ADDED }]);
+    report.spatialReferenceSystems.should.be.deep.equal([{ key: '100000', type: DiffType.ADDED }]);
+    report.extensions.length.should.be.above(0);
+    report.extensions.forEach(function(extension) {
+      extension.type.should.be.equal(DiffType.ADDED);
+    });
+    report.summary.contents.added.should.be.equal(1);
+    report.summary.spatialReferenceSystems.added.should.be.equal(1);
+    report.summary.extensions.added.should.be.equal(report.extensions.length);
+    report = other.diff(base, { ignoreColumns: ['last_change'] });
+    report.contents.should.be.deep.equal([{ key: 'notes', type: DiffType.REMOVED }]);
+    report.summary.spatialReferenceSystems.removed.should.be.equal(1);
+  });
+
+  it('should diff the columns of a table', function() {
+    SetupPlacesTable.createPlaces(base, [FeatureColumn.createColumn(4, 'rank', GeoPackageDataType.INTEGER, false, null)]);
+    SetupPlacesTable.createPlaces(other, [
+      FeatureColumn.createColumn(4, 'rank', GeoPackageDataType.INTEGER, true, 0),
+      FeatureColumn.createColumn(5, 'area', GeoPackageDataType.REAL, false, null),
+    ]);
+    var report = base.diff(other, { ignoreColumns: ['last_change'] });
+    report.summary.schemas.should.be.equal(1);
+    var columns = report.tables[0].columns;
+    columns.length.should.be.equal(2);
+    columns[0].key.should.be.equal('rank');
+    columns[0].type.should.be.equal(DiffType.CHANGED);
+    columns[0].changes.map(function(change) { return change.name; }).should.include('notNull');
+    columns[0].changes.map(function(change) { return change.name; }).should.include('defaultValue');
+    columns[1].should.be.deep.equal({ key: 'area', type: DiffType.ADDED });
+    report.tables[0].rows.changed.should.be.equal(3);
+    report.tables[0].rows.differences[0].changes.should.be.deep.equal([{ name: 'rank', base: null, other: 0 }]);
+    report = base.diff(other, { ignoreColumns: ['last_change'], rows: false });
+    should.not.exist(report.tables[0].rows);
+  });
+});
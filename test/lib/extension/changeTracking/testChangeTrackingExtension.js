@@ -0,0 +1,147 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var ChangeTrackingExtension = require('../../../../lib/extension/changeTracking').ChangeTrackingExtension
+  , ChangeOperation = require('../../../../lib/extension/changeTracking/changeOperation').ChangeOperation
+  , UserColumn = require('../../../../lib/user/userColumn').UserColumn
+  , GeoPackageDataType = require('../../../../lib/db/geoPackageDataType').GeoPackageDataType
+  , SetupPlacesTable = require('../../../fixtures/setupPlacesTable')
+  , should = require('chai').should();
+
+describe('ChangeTrackingExtension tests', function() {
+  var testGeoPackage;
+  var geopackage;
+  var extension;
+  var featureDao;
+
+  var operations = function(changes) {
+    return changes.map(function(change) {
+      return change.operation + ' ' + change.row_id;
+    });
+  };
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+    extension = geopackage.changeTrackingExtension;
+    featureDao = SetupPlacesTable.createPlacesTable(geopackage);
+    SetupPlacesTable.createPlace(geopackage, 'Denver', 'POINT(-105 39.7)');
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  it('should track a table and register the extension', function() {
+    extension.has().should.be.equal(false);
+    extension.has('places').should.be.equal(false);
+    extension.getMarker().should.be.equal(0);
+    extension.getChanges().should.be.deep.equal([]);
+    var created = extension.track('places');
+    created.extension_name.should.be.equal(ChangeTrackingExtension.EXTENSION_NAME);
+    created.table_name.should.be.equal('places');
+    created.scope.should.be.equal('write-only');
+    extension.has().should.be.equal(true);
+    extension.has('places').should.be.equal(true);
+    extension.getTrackedTables().should.be.deep.equal(['places']);
+    geopackage.connection.isTableExists('nga_table_changes').should.be.equal(true);
+    extension.getChanges().should.be.deep.equal([]);
+    extension.track('places');
+    extension.getTrackedTables().should.be.deep.equal(['places']);
+  });
+
+  it('should record inserts, updates and deletes', function() {
+    extension.track('places');
+    var id = SetupPlacesTable.createPlace(geopackage, 'Boulder', 'POINT(-105.3 40)');
+    var row = featureDao.queryForId(id);
+    row.setValueWithColumnName('population', 108000);
+    featureDao.update(row);
+    row = featureDao.queryForId(id);
+    row.setValueWithColumnName('name', 'Golden');
+    row.setGeometryWithWkt('POINT(-105.2 39.8)', 4326);
+    featureDao.update(row);
+    featureDao.update(featureDao.queryForId(id));
+    featureDao.deleteById(id);
+    var changes = extension.getChanges();
+    operations(changes).should.be.deep.equal(['insert 2', 'update 2', 'update 2', 'delete 2']);
+    changes[0].table_name.should.be.equal('places');
+    changes[0].operation.should.be.equal(ChangeOperation.INSERT);
+    should.not.exist(changes[0].columns);
+    changes[1].columns.should.be.deep.equal(['population']);
+    changes[2].columns.should.be.deep.equal(['geom', 'name']);
+    should.exist(changes[0].timestamp);
+    changes[1].id.should.be.above(changes[0].id);
+    extension.getMarker().should.be.equal(changes[3].id);
+  });
+
+  it('should record a primary key update as a delete and an insert', function() {
+    extension.track('places');
+    geopackage.connection.run('UPDATE places SET id = 10 WHERE id = 1');
+    operations(extension.getChanges()).should.be.deep.equal(['delete 1', 'insert 10']);
+  });
+
+  it('should read and clear the changes since a marker', function() {
+    extension.track('places');
+    SetupPlacesTable.createPlace(geopackage, 'Boulder', 'POINT(-105.3 40)');
+    var marker = extension.getMarker();
+    SetupPlacesTable.createPlace(geopackage, 'Golden', 'POINT(-105.2 39.8)');
+    featureDao.deleteById(1);
+    operations(extension.getChanges(marker)).should.be.deep.equal(['insert 3', 'delete 1']);
+    extension.getChanges(extension.getMarker()).should.be.deep.equal([]);
+    extension.clearChanges(marker).should.be.equal(1);
+    operations(extension.getChanges()).should.be.deep.equal(['insert 3', 'delete 1']);
+    marker = extension.getMarker();
+    extension.clearChanges().should.be.equal(2);
+    extension.getChanges().should.be.deep.equal([]);
+    extension.getMarker().should.be.equal(marker);
+    SetupPlacesTable.createPlace(geopackage, 'Boulder', 'POINT(-105.3 40)');
+    extension.getChanges(marker)[0].id.should.be.equal(marker + 1);
+  });
+
+  it('should track attributes tables separately', function() {
+    geopackage.createAttributesTable('notes', [
+      UserColumn.createPrimaryKeyColumn(0, 'id'),
+      UserColumn.createColumn(1, 'title', GeoPackageDataType.TEXT, false, null),
+    ]);
+    var attributeDao = geopackage.getAttributeDao('notes');
+    extension.track('places');
+    extension.track('notes');
+    extension.getTrackedTables().should.have.members(['places', 'notes']);
+    var row = attributeDao.newRow();
+    row.setValueWithColumnName('title', 'Trail closed');
+    attributeDao.create(row);
+    SetupPlacesTable.createPlace(geopackage, 'Boulder', 'POINT(-105.3 40)');
+    operations(extension.getChanges(0, 'notes')).should.be.deep.equal(['insert 1']);
+    operations(extension.getChanges(0, 'places')).should.be.deep.equal(['insert 2']);
+    extension.clearChanges(undefined, 'notes').should.be.equal(1);
+    operations(extension.getChanges()).should.be.deep.equal(['insert 2']);
+  });
+
+  it('should stop tracking a table and keep its changes', function() {
+    extension.track('places');
+    SetupPlacesTable.createPlace(geopackage, 'Boulder', 'POINT(-105.3 40)');
+    extension.untrack('places');
+    extension.has('places').should.be.equal(false);
+    SetupPlacesTable.createPlace(geopackage, 'Golden', 'POINT(-105.2 39.8)');
+    operations(extension.getChanges()).should.be.deep.equal(['insert 2']);
+  });
+
+  it('should only track feature and attributes tables', function() {
+    (function() {
+      extension.track('missing');
+    }.should.throw('Change tracking is only supported by feature and attributes tables: missing'));
+    extension.has().should.be.equal(false);
+  });
+
+  it('should delete the changes with the table', function() {
+    extension.track('places');
+    SetupPlacesTable.createPlace(geopackage, 'Boulder', 'POINT(-105.3 40)');
+    geopackage.deleteTable('places');
+    extension.has('places').should.be.equal(false);
+    extension.getChanges().should.be.deep.equal([]);
+    geopackage.connection.isTableExists('nga_table_changes').should.be.equal(true);
+    extension.removeExtension();
+    extension.has().should.be.equal(false);
+    geopackage.connection.isTableExists('nga_table_changes').should.be.equal(false);
+  });
+});
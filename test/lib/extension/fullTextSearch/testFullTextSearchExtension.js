@@ -0,0 +1,169 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var FullTextSearchExtension = require('../../../../lib/extension/fullTextSearch').FullTextSearchExtension
+  , FeatureColumn = require('../../../../lib/features/user/featureColumn').FeatureColumn
+  , UserColumn = require('../../../../lib/user/userColumn').UserColumn
+  , GeoPackageDataType = require('../../../../lib/db/geoPackageDataType').GeoPackageDataType
+  , BoundingBox = require('../../../../lib/boundingBox').BoundingBox
+  , SetupPlacesTable = require('../../../fixtures/setupPlacesTable')
+  , should = require('chai').should();
+
+describe('FullTextSearchExtension tests', function() {
+  var testGeoPackage;
+  var geopackage;
+  var extension;
+  var featureDao;
+
+  var names = function(results) {
+    return results.map(function(result) {
+      return result.row.getValueWithColumnName('name');
+    });
+  };
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+    extension = geopackage.fullTextSearchExtension;
+    if (!extension.isSupported()) {
+      this.skip();
+    }
+    featureDao = SetupPlacesTable.createPlacesTable(geopackage, [
+      FeatureColumn.createColumn(4, 'region', GeoPackageDataType.TEXT, false, null),
+    ]);
+    SetupPlacesTable.createPlace(geopackage, 'Saint Louis', 'POINT(-90.2 38.6)', null, { region: 'Missouri' });
+    SetupPlacesTable.createPlace(geopackage, 'Lake Louise', 'POINT(-116.2 51.4)', null, { region: 'Alberta' });
+    SetupPlacesTable.createPlace(geopackage, 'Louisville', 'POINT(-85.8 38.3)', null, { region: 'Kentucky' });
+    SetupPlacesTable.createPlace(geopackage, 'Denver', 'POINT(-105 39.7)', null, { region: 'Colorado' });
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  it('should create the index and register the extension', function() {
+    extension.has().should.be.equal(false);
+    extension.has('places').should.be.equal(false);
+    var extensions = extension.create('places', ['name', 'region']);
+    extensions.length.should.be.equal(2);
+    extensions[0].extension_name.should.be.equal(FullTextSearchExtension.EXTENSION_NAME);
+    extensions[0].scope.should.be.equal('write-only');
+    extension.has().should.be.equal(true);
+    extension.has('places').should.be.equal(true);
+    extension.getTables().should.be.deep.equal(['places']);
+    extension.getColumns('places').should.be.deep.equal(['name', 'region']);
+    geopackage.connection.isTableExists('fts_places').should.be.equal(true);
+    extension.create('places', ['name']).length.should.be.equal(2);
+  });
+
+  it('should search the indexed columns by rank', function() {
+    extension.create('places', ['name', 'region']);
+    var results = featureDao.search('louis');
+    names(results).should.be.deep.equal(['Saint Louis']);
+    results[0].rank.should.be.below(0);
+    should.exist(results[0].row.geometry);
+    names(featureDao.search('LOUIS', { prefix: true })).should.have.members(['Saint Louis', 'Lake Louise', 'Louisville']);
+    names(featureDao.search('saint louis')).should.be.deep.equal(['Saint Louis']);
+    names(featureDao.search('colorado')).should.be.deep.equal(['Denver']);
+    names(featureDao.search('st. louis')).should.be.deep.equal([]);
+    featureDao.search('   ').should.be.deep.equal([]);
+  });
+
+  it('should search with options', function() {
+    extension.create('places', ['name', 'region']);
+    names(featureDao.search('den*', { columns: ['region'], raw: true })).should.be.deep.equal([]);
+    names(featureDao.search('den*', { columns: ['name'], raw: true })).should.be.deep.equal(['Denver']);
+    names(featureDao.search('denver OR alberta', { raw: true })).should.have.members(['Denver', 'Lake Louise']);
+    names(
+      featureDao.search('lou', { prefix: true, boundingBox: new BoundingBox(-100, -80, 30, 45) }),
+    ).should.have.members(['Saint Louis', 'Louisville']);
+    names(featureDao.search('lou', { prefix: true, where: 'region = ?', whereArgs: ['Kentucky'] })).should.be.deep.equal([
+      'Louisville',
+    ]);
+    featureDao.search('lou', { prefix: true, limit: 2 }).length.should.be.equal(2);
+    featureDao.search('lou', { prefix: true, limit: 2, offset: 2 }).length.should.be.equal(1);
+    (function() {
+      featureDao.search('lou', { columns: ['population'] });
+    }.should.throw('Column population is not indexed for full text search in table places'));
+    (function() {
+      featureDao.search('lou', { offset: 1 });
+    }.should.throw('An offset requires a limit'));
+  });
+
+  it('should keep the index in sync with the table', function() {
+    extension.create('places', ['name']);
+    var id = SetupPlacesTable.createPlace(geopackage, 'Boulder', 'POINT(-105.3 40)', null, { region: 'Colorado' });
+    names(featureDao.search('boulder')).should.be.deep.equal(['Boulder']);
+    var row = featureDao.queryForId(id);
+    row.setValueWithColumnName('name', 'Golden');
+    featureDao.update(row);
+    featureDao.search('boulder').length.should.be.equal(0);
+    names(featureDao.search('golden')).should.be.deep.equal(['Golden']);
+    featureDao.deleteById(id);
+    featureDao.search('golden').length.should.be.equal(0);
+  });
+
+  it('should search attributes tables', function() {
+    var columns = [
+      UserColumn.createPrimaryKeyColumn(0, 'id'),
+      UserColumn.createColumn(1, 'title', GeoPackageDataType.TEXT, false, null),
+    ];
+    geopackage.createAttributesTable('notes', columns);
+    var attributeDao = geopackage.getAttributeDao('notes');
+    ['Trail closed near the lake', 'Bridge repaired'].forEach(function(title) {
+      var row = attributeDao.newRow();
+      row.setValueWithColumnName('title', title);
+      attributeDao.create(row);
+    });
+    extension.create('notes', ['title'], 'porter unicode61');
+    var results = attributeDao.search('repairing');
+    results.length.should.be.equal(1);
+    results[0].row.getValueWithColumnName('title').should.be.equal('Bridge repaired');
+    (function() {
+      attributeDao.search('lake', { boundingBox: new BoundingBox(-180, 180, -90, 90) });
+    }.should.throw('Bounding box queries are only supported by feature tables: notes'));
+  });
+
+  it('should copy the index with its tokenizer', function() {
+    extension.create('places', ['name'], 'porter unicode61');
+    extension.getTokenizer('places').should.be.equal('porter unicode61');
+    geopackage.copyTableAndExtensions('places', 'places_copy');
+    extension.getColumns('places_copy').should.be.deep.equal(['name']);
+    extension.getTokenizer('places_copy').should.be.equal('porter unicode61');
+    names(geopackage.getFeatureDao('places_copy').search('louises')).should.be.deep.equal(['Lake Louise']);
+    extension.deleteTable('places');
+    extension.create('places', ['name']);
+    should.not.exist(extension.getTokenizer('places'));
+  });
+
+  it('should reject invalid indexes', function() {
+    (function() {
+      extension.create('places', ['population']);
+    }.should.throw('Full text search only indexes TEXT columns: population'));
+    (function() {
+      extension.create('places', ['missing']);
+    }.should.throw('Column missing does not exist in table places'));
+    (function() {
+      extension.create('places', []);
+    }.should.throw('Full text search requires at least one column to index'));
+    (function() {
+      extension.create('places', ['name'], "unicode61'");
+    }.should.throw("Invalid full text search tokenizer: unicode61'"));
+    (function() {
+      featureDao.search('louis');
+    }.should.throw('Full text search is not enabled for table: places'));
+    extension.has('places').should.be.equal(false);
+  });
+
+  it('should delete the index with the table', function() {
+    extension.create('places', ['name']);
+    extension.deleteTable('places');
+    extension.has('places').should.be.equal(false);
+    geopackage.connection.isTableExists('fts_places').should.be.equal(false);
+    SetupPlacesTable.createPlace(geopackage, 'Boulder', 'POINT(-105.3 40)', null, { region: 'Colorado' });
+    extension.create('places', ['name']);
+    geopackage.deleteTable('places');
+    extension.has().should.be.equal(false);
+    geopackage.connection.isTableExists('fts_places').should.be.equal(false);
+  });
+});
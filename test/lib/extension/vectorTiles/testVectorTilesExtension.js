@@ -0,0 +1,147 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var VectorTilesExtension = require('../../../../lib/extension/vectorTiles').VectorTilesExtension
+  , VectorTileEncoding = require('../../../../lib/extension/vectorTiles/vectorTileEncoding').VectorTileEncoding
+  , VectorTileFieldType = require('../../../../lib/extension/vectorTiles/vectorTileFieldType').VectorTileFieldType
+  , FeatureVectorTiles = require('../../../../lib/tiles/features/featureVectorTiles').FeatureVectorTiles
+  , GeoPackageTileRetriever = require('../../../../lib/tiles/retriever').GeoPackageTileRetriever
+  , ContentsDataType = require('../../../../lib/core/contents/contentsDataType').ContentsDataType
+  , BoundingBox = require('../../../../lib/boundingBox').BoundingBox
+  , should = require('chai').should();
+
+describe('GeoPackage Vector Tiles Extension tests', function() {
+  var testGeoPackage;
+  var geopackage;
+  var extension;
+
+  var features = [
+    {
+      type: 'Feature',
+      properties: { name: 'point', count: 3 },
+      geometry: { type: 'Point', coordinates: [10, 10] },
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'polygon', count: 1.5 },
+      geometry: { type: 'Polygon', coordinates: [[[1, 1], [20, 1], [20, 20], [1, 20], [1, 1]]] },
+    },
+  ];
+
+  var createVectorTileTable = async function(encoding) {
+    await geopackage.importGeoJSON({ type: 'FeatureCollection', features: features }, 'places');
+    var webMercatorBoundingBox = new BoundingBox(-20037508.342789244, 20037508.342789244, -20037508.342789244, 20037508.342789244);
+    extension.createVectorTileTable('vector', webMercatorBoundingBox, 3857, webMercatorBoundingBox, 3857, 0, 2, encoding);
+    var featureVectorTiles = new FeatureVectorTiles(geopackage.getFeatureDao('places'));
+    extension.createLayerForFeatures('vector', featureVectorTiles, 0, 2);
+    return extension.addFeatureTiles('vector', [featureVectorTiles]);
+  };
+
+  var getFeature = function(layerFeatures, name) {
+    return layerFeatures.filter(function(feature) {
+      return feature.properties.name === name;
+    })[0];
+  };
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+    extension = geopackage.vectorTilesExtension;
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  it('should store feature tables as mapbox vector tiles', async function() {
+    var tileCount = await createVectorTileTable();
+    // one tile at zoom 0 and the tile holding the features and its neighbours at zooms 1 and 2
+    tileCount.should.be.greaterThan(2);
+    geopackage.contentsDao.queryForId('vector').data_type.should.be.equal(ContentsDataType.VECTOR_TILES);
+    geopackage.getTileTables().should.not.include('vector');
+    extension.has('vector').should.be.equal(true);
+    extension.getEncoding('vector').should.be.equal(VectorTileEncoding.MAPBOX);
+    geopackage.getTileDao('vector').isVectorTiles().should.be.equal(true);
+
+    var layers = extension.getLayers('vector');
+    layers.length.should.be.equal(1);
+    layers[0].name.should.be.equal('places');
+    layers[0].minzoom.should.be.equal(0);
+    layers[0].maxzoom.should.be.equal(2);
+    var fields = {};
+    extension.getFields(layers[0]).forEach(function(field) {
+      fields[field.name] = field.type;
+    });
+    fields.should.be.deep.equal({ name: VectorTileFieldType.STRING, count: VectorTileFieldType.NUMBER });
+
+    var tileFeatures = extension.getFeatures('vector', 1, 1, 0);
+    Object.keys(tileFeatures).should.be.deep.equal(['places']);
+    var point = getFeature(tileFeatures.places, 'point');
+    point.geometry.type.should.be.equal('Point');
+    point.geometry.coordinates[0].should.be.closeTo(10, 0.1);
+    point.geometry.coordinates[1].should.be.closeTo(10, 0.1);
+    point.properties.count.should.be.equal(3);
+    var polygon = getFeature(tileFeatures.places, 'polygon');
+    polygon.geometry.type.should.be.equal('Polygon');
+    polygon.geometry.coordinates[0].length.should.be.equal(5);
+    polygon.geometry.coordinates[0][0].should.be.deep.equal(polygon.geometry.coordinates[0][4]);
+
+    should.not.exist(extension.getFeatures('vector', 2, 0, 3));
+  });
+
+  it('should store feature tables as geojson vector tiles', async function() {
+    await createVectorTileTable(VectorTileEncoding.GEOJSON);
+    extension.getEncoding('vector').should.be.equal(VectorTileEncoding.GEOJSON);
+    var tileRow = geopackage.getTileFromTable('vector', 1, 0, 1);
+    var featureCollection = JSON.parse(Buffer.from(tileRow.tileData).toString('utf8'));
+    featureCollection.type.should.be.equal('FeatureCollection');
+    featureCollection.features[0].layer.should.be.equal('places');
+
+    var tileFeatures = extension.getFeatures('vector', 1, 1, 0);
+    var point = getFeature(tileFeatures.places, 'point');
+    should.not.exist(point.layer);
+    point.geometry.coordinates[0].should.be.closeTo(10, 0.1);
+    point.geometry.coordinates[1].should.be.closeTo(10, 0.1);
+  });
+
+  it('should copy a vector tiles table with its layers and fields', async function() {
+    var tileCount = await createVectorTileTable(VectorTileEncoding.GEOJSON);
+    geopackage.copyTableAndExtensions('vector', 'vector_copy');
+    geopackage.contentsDao.queryForId('vector_copy').data_type.should.be.equal(ContentsDataType.VECTOR_TILES);
+    extension.has('vector_copy').should.be.equal(true);
+    extension.getEncoding('vector_copy').should.be.equal(VectorTileEncoding.GEOJSON);
+    geopackage.getTileDao('vector_copy').count().should.be.equal(tileCount);
+
+    var layers = extension.getLayers('vector_copy');
+    layers.length.should.be.equal(1);
+    layers[0].name.should.be.equal('places');
+    layers[0].minzoom.should.be.equal(0);
+    layers[0].maxzoom.should.be.equal(2);
+    var fields = {};
+    extension.getFields(layers[0]).forEach(function(field) {
+      fields[field.name] = field.type;
+    });
+    fields.should.be.deep.equal({ name: VectorTileFieldType.STRING, count: VectorTileFieldType.NUMBER });
+    extension.getLayers('vector').length.should.be.equal(1);
+
+    var point = getFeature(extension.getFeatures('vector_copy', 1, 1, 0).places, 'point');
+    point.geometry.coordinates[0].should.be.closeTo(10, 0.1);
+  });
+
+  it('should not draw vector tiles and should delete the layers with the table', async function() {
+    await createVectorTileTable();
+    var retriever = new GeoPackageTileRetriever(geopackage.getTileDao('vector'), 256, 256);
+    try {
+      await retriever.getTile(0, 0, 0);
+      should.fail();
+    } catch (e) {
+      e.message.should.be.equal('Vector tiles can not be drawn as images: vector');
+    }
+
+    geopackage.deleteTable('vector');
+    extension.getLayers('vector').length.should.be.equal(0);
+    geopackage.vectorTileFieldDao.count().should.be.equal(0);
+    extension.has('vector').should.be.equal(false);
+    geopackage.isTable('vector').should.be.equal(false);
+  });
+});
@@ -10,6 +10,7 @@ var FeatureColumn = require('../../../../lib/features/user/featureColumn').Featu
   , MediaTable = require('../../../../lib/extension/relatedTables/mediaTable').MediaTable
   , SimpleAttributesTable = require('../../../../lib/extension/relatedTables/simpleAttributesTable').SimpleAttributesTable
   , wkx = require('wkx')
+  , proj4 = require('proj4')
   , helpers = require('@turf/helpers')
   , path = require('path')
   , should = require('chai').should();
@@ -457,6 +458,30 @@ describe('FeatureDao tests', function() {
       newLine.getValueWithColumnName('name').should.be.equal('UpdatedLine');
     });
 
+    it('should update a shape from WKT', function() {
+      var point;
+      for (var feature of queryTestFeatureDao.queryForEach('_feature_id', 'point')) {
+        point = queryTestFeatureDao.getRow(feature);
+      }
+      point.setGeometryWithWkt('POINT Z (-104.5 39.5 1650)');
+      queryTestFeatureDao.update(point);
+      var updated;
+      for (var feature of queryTestFeatureDao.queryForEach('_feature_id', 'point')) {
+        updated = queryTestFeatureDao.getRow(feature);
+      }
+      updated.getGeometryWkt().should.be.equal('POINT Z (-104.5 39.5 1650)');
+      updated.getGeometryEwkt().should.be.equal('SRID=4326;POINT Z (-104.5 39.5 1650)');
+      updated.geometry.envelope.minZ.should.be.equal(1650);
+    });
+
+    it('should default the srs of a new row WKT geometry to the table srs', function() {
+      var row = queryTestFeatureDao.newRow();
+      row.setValueWithColumnName('name', 'srs');
+      row.setGeometryWithWkt('POINT (-104.8 39.6)');
+      var id = queryTestFeatureDao.create(row);
+      queryTestFeatureDao.queryForId(id).getGeometryEwkt().should.be.equal('SRID=4326;POINT(-104.8 39.6)');
+    });
+
     it('should count by a field', function(){
       var count = queryTestFeatureDao.count('name', 'line');
       count.should.be.equal(1);
@@ -720,4 +745,305 @@ describe('FeatureDao tests', function() {
     });
   });
 
+  describe('Z and M tests', function() {
+    var geopackage;
+    var featureDao;
+    var testGeoPackage;
+
+    afterEach('should delete the geopackage', async function() {
+      try {
+        geopackage.close();
+      } catch (e) {}
+      await testSetup.deleteGeoPackage(testGeoPackage.path);
+    });
+
+    beforeEach('should create the GeoPackage', async function() {
+      testGeoPackage = await testSetup.createTmpGeoPackage();
+      geopackage = testGeoPackage.geopackage;
+      var geometryColumns = SetupFeatureTable.buildGeometryColumns('ZMTest', 'geom', GeometryType.GEOMETRY);
+      geometryColumns.z = 2;
+      geometryColumns.m = 2;
+      geopackage.createFeatureTable('ZMTest', geometryColumns, [
+        FeatureColumn.createPrimaryKeyColumn(0, 'id'),
+        FeatureColumn.createGeometryColumn(1, 'geom', GeometryType.GEOMETRY, false, null),
+        FeatureColumn.createColumn(2, 'name', GeoPackageDataType.TEXT, false, ''),
+      ]);
+      featureDao = geopackage.getFeatureDao('ZMTest');
+      [
+        ['low', 'LINESTRING ZM (0 0 10 0,1 1 20 5)'],
+        ['high', 'POINT Z (2 2 100)'],
+        ['flat', 'POINT (3 3)'],
+      ].forEach(function(feature) {
+        var row = featureDao.newRow();
+        row.setValueWithColumnName('name', feature[0]);
+        row.setGeometryWithWkt(feature[1], 4326);
+        row.geometry.setEnvelope(undefined);
+        featureDao.create(row);
+      });
+    });
+
+    it('should build the z and m envelope of a geometry when it is written', function() {
+      var row = featureDao.queryForAllEq('name', 'low').map(function(result) { return featureDao.getRow(result); })[0];
+      var envelope = row.geometry.envelope;
+      envelope.hasZ.should.be.equal(true);
+      envelope.minZ.should.be.equal(10);
+      envelope.maxZ.should.be.equal(20);
+      envelope.hasM.should.be.equal(true);
+      envelope.minM.should.be.equal(0);
+      envelope.maxM.should.be.equal(5);
+      row.getGeometryWkt().should.be.equal('LINESTRING ZM (0 0 10 0,1 1 20 5)');
+    });
+
+    it('should validate z and m values against the geometry columns', function() {
+      featureDao.geometryColumns.z = 0;
+      var row = featureDao.newRow();
+      row.setGeometryWithWkt('POINT Z (1 2 3)', 4326);
+      should.exist(featureDao.create(row));
+      geopackage.validateGeometryDimensions = true;
+      (function() {
+        featureDao.create(row);
+      }).should.throw('Z values are prohibited for geometry column ZMTest.geom');
+      featureDao.geometryColumns.z = 2;
+      featureDao.geometryColumns.m = 1;
+      (function() {
+        featureDao.create(row);
+      }).should.throw('M values are mandatory for geometry column ZMTest.geom');
+      row.setGeometryWithWkt('POINT EMPTY', 4326);
+      should.exist(featureDao.create(row));
+    });
+
+    it('should validate z and m values of bulk inserted features', async function() {
+      var feature = { type: 'Feature', properties: { name: 'bulk' }, geometry: { type: 'Point', coordinates: [1, 2, 3] } };
+      await geopackage.addGeoJSONFeaturesToGeoPackage([feature], 'ZMTest');
+      geopackage.validateGeometryDimensions = true;
+      geopackage.connection.run("UPDATE gpkg_geometry_columns SET z = 0 WHERE table_name = 'ZMTest'");
+      try {
+        await geopackage.addGeoJSONFeaturesToGeoPackage([feature], 'ZMTest');
+        should.fail();
+      } catch (e) {
+        e.message.should.be.equal('Z values are prohibited for geometry column ZMTest.geom');
+      }
+    });
+
+    it('should query for features within a z range', function() {
+      var names = function(iterator) {
+        var result = [];
+        for (var row of iterator) {
+          result.push(row.getValueWithColumnName('name'));
+        }
+        return result.sort();
+      };
+      names(featureDao.queryWithZRange(15, 50)).should.be.deep.equal(['low']);
+      names(featureDao.queryWithZRange(0, null)).should.be.deep.equal(['high', 'low']);
+      names(featureDao.queryWithZRange(null, 5)).should.be.deep.equal([]);
+      names(featureDao.queryWithZRange(null, null, new BoundingBox(1.5, 5, 1.5, 5))).should.be.deep.equal(['high']);
+      featureDao.countWithZRange(20, 100).should.be.equal(2);
+    });
+
+    it('should write and read m values in the measures of GeoJSON', function() {
+      var row = featureDao.queryForAllEq('name', 'low').map(function(result) { return featureDao.getRow(result); })[0];
+      var feature = geopackage.getFeature('ZMTest', row.id);
+      feature.geometry.coordinates.should.be.deep.equal([[0, 0, 10], [1, 1, 20]]);
+      feature.geometry.measures.should.be.deep.equal([0, 5]);
+
+      var id = geopackage.addGeoJSONFeatureToGeoPackage({
+        type: 'Feature',
+        properties: { name: 'measured' },
+        geometry: { type: 'Point', coordinates: [4, 4], measures: 7 },
+      }, 'ZMTest');
+      featureDao.queryForId(id).getGeometryWkt().should.be.equal('POINT M (4 4 7)');
+    });
+  });
+
+  describe('Spatial predicate tests', function() {
+    var geopackage;
+    var featureDao;
+    var testGeoPackage;
+
+    var names = function(iterator) {
+      var result = [];
+      for (var row of iterator) {
+        result.push(row.getValueWithColumnName('name'));
+      }
+      return result.sort();
+    };
+
+    var square = {
+      type: 'Polygon',
+      coordinates: [[[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]]],
+    };
+
+    afterEach('should delete the geopackage', async function() {
+      try {
+        geopackage.close();
+      } catch (e) {}
+      await testSetup.deleteGeoPackage(testGeoPackage.path);
+    });
+
+    beforeEach('should create the GeoPackage', async function() {
+      testGeoPackage = await testSetup.createTmpGeoPackage();
+      geopackage = testGeoPackage.geopackage;
+      var geometryColumns = SetupFeatureTable.buildGeometryColumns('PredicateTest', 'geom', GeometryType.GEOMETRY);
+      geopackage.createFeatureTable('PredicateTest', geometryColumns, [
+        FeatureColumn.createPrimaryKeyColumn(0, 'id'),
+        FeatureColumn.createGeometryColumn(1, 'geom', GeometryType.GEOMETRY, false, null),
+        FeatureColumn.createColumn(2, 'name', GeoPackageDataType.TEXT, false, ''),
+      ]);
+      featureDao = geopackage.getFeatureDao('PredicateTest');
+      [
+        ['square', 'POLYGON((0 0,10 0,10 10,0 10,0 0))'],
+        ['neighbor', 'POLYGON((10 0,20 0,20 10,10 10,10 0))'],
+        ['inner', 'POINT(5 5)'],
+        ['road', 'LINESTRING(-5 5,25 5)'],
+        ['far', 'POINT(50 50)'],
+      ].forEach(function(feature) {
+        var row = featureDao.newRow();
+        row.setValueWithColumnName('name', feature[0]);
+        row.setGeometryWithWkt(feature[1], 4326);
+        featureDao.create(row);
+      });
+    });
+
+    it('should query for features with spatial predicates', function() {
+      var box = { type: 'Polygon', coordinates: [[[1, 1], [4, 1], [4, 4], [1, 4], [1, 1]]] };
+      names(featureDao.queryIntersects(box)).should.be.deep.equal(['square']);
+      names(featureDao.queryIntersects({ type: 'LineString', coordinates: [[15, -5], [15, 15]] })).should.be.deep.equal([
+        'neighbor',
+        'road',
+      ]);
+      names(featureDao.queryWithin({
+        type: 'Polygon',
+        coordinates: [[[-1, -1], [11, -1], [11, 11], [-1, 11], [-1, -1]]],
+      })).should.be.deep.equal(['inner', 'square']);
+      names(featureDao.queryContains({ type: 'Point', coordinates: [2, 2] })).should.be.deep.equal(['square']);
+      names(featureDao.queryContains({ type: 'Point', coordinates: [5, 5] })).should.be.deep.equal([
+        'inner',
+        'road',
+        'square',
+      ]);
+      names(featureDao.queryWithin(square)).should.be.deep.equal(['inner', 'square']);
+      names(featureDao.queryContains(square)).should.be.deep.equal(['square']);
+      names(featureDao.queryTouches(square)).should.be.deep.equal(['neighbor']);
+      names(featureDao.queryTouches({ type: 'Point', coordinates: [25, 5] })).should.be.deep.equal(['road']);
+      names(featureDao.queryDWithin({ type: 'Point', coordinates: [50, 45] }, 5)).should.be.deep.equal(['far']);
+      names(featureDao.queryDWithin({ type: 'Point', coordinates: [50, 45] }, 4.9)).should.be.deep.equal([]);
+    });
+
+    it('should query for features with a geometry in another projection', function() {
+      var box = {
+        type: 'Polygon',
+        coordinates: [[[111319, 111319], [445278, 111319], [445278, 445278], [111319, 445278], [111319, 111319]]],
+      };
+      names(featureDao.queryIntersects(box, 'EPSG:3857')).should.be.deep.equal(['square']);
+      names(featureDao.queryWithin(box, 'EPSG:3857')).should.be.deep.equal([]);
+    });
+
+    it('should query for features with the geometry index', async function() {
+      await featureDao.index();
+      featureDao.isIndexed().should.be.equal(true);
+      names(featureDao.queryTouches(square)).should.be.deep.equal(['neighbor']);
+      names(featureDao.queryDWithin({ type: 'Point', coordinates: [50, 45] }, 5)).should.be.deep.equal(['far']);
+      names(featureDao.queryIntersects({ type: 'Point', coordinates: [100, 80] })).should.be.deep.equal([]);
+    });
+  });
+
+  describe('Nearest tests', function() {
+    var geopackage;
+    var featureDao;
+    var testGeoPackage;
+
+    var point = { type: 'Point', coordinates: [2.2, 3.1] };
+
+    var names = function(nearest) {
+      return nearest.map(function(result) {
+        return result.row.getValueWithColumnName('name');
+      });
+    };
+
+    afterEach('should delete the geopackage', async function() {
+      try {
+        geopackage.close();
+      } catch (e) {}
+      await testSetup.deleteGeoPackage(testGeoPackage.path);
+    });
+
+    beforeEach('should create the GeoPackage', async function() {
+      testGeoPackage = await testSetup.createTmpGeoPackage();
+      geopackage = testGeoPackage.geopackage;
+      var geometryColumns = SetupFeatureTable.buildGeometryColumns('NearestTest', 'geom', GeometryType.GEOMETRY);
+      geopackage.createFeatureTable('NearestTest', geometryColumns, [
+        FeatureColumn.createPrimaryKeyColumn(0, 'id'),
+        FeatureColumn.createGeometryColumn(1, 'geom', GeometryType.GEOMETRY, false, null),
+        FeatureColumn.createColumn(2, 'name', GeoPackageDataType.TEXT, false, ''),
+        FeatureColumn.createColumn(3, 'category', GeoPackageDataType.TEXT, false, ''),
+      ]);
+      featureDao = geopackage.getFeatureDao('NearestTest');
+      var create = function(name, category, wkt) {
+        var row = featureDao.newRow();
+        row.setValueWithColumnName('name', name);
+        row.setValueWithColumnName('category', category);
+        row.setGeometryWithWkt(wkt, 4326);
+        featureDao.create(row);
+      };
+      for (var i = 0; i < 10; i++) {
+        for (var j = 0; j < 10; j++) {
+          create('p_' + i + '_' + j, (i + j) % 2 ? 'odd' : 'even', 'POINT(' + i + ' ' + j + ')');
+        }
+      }
+      create('road', 'road', 'LINESTRING(20 0,20 10)');
+    });
+
+    it('should query for the nearest features without an index', function() {
+      var nearest = featureDao.queryNearest(point, 3);
+      names(nearest).should.be.deep.equal(['p_2_3', 'p_3_3', 'p_2_4']);
+      nearest[0].distance.should.be.closeTo(Math.hypot(0.2, 0.1), 1e-9);
+      names(featureDao.queryNearest(point, 3, { where: 'category = ?', whereArgs: ['odd'] })).should.be.deep.equal([
+        'p_2_3',
+        'p_3_4',
+        'p_3_2',
+      ]);
+      names(featureDao.queryNearest(point, 10, { maxDistance: 0.9 })).should.be.deep.equal(['p_2_3', 'p_3_3']);
+    });
+
+    it('should query for the nearest features with the geometry index', async function() {
+      await featureDao.index();
+      featureDao.isIndexed().should.be.equal(true);
+      names(featureDao.queryNearest(point, 3)).should.be.deep.equal(['p_2_3', 'p_3_3', 'p_2_4']);
+      names(featureDao.queryNearest(point, 3, { where: 'category = ?', whereArgs: ['odd'] })).should.be.deep.equal([
+        'p_2_3',
+        'p_3_4',
+        'p_3_2',
+      ]);
+      names(featureDao.queryNearest(point, 10, { maxDistance: 0.9 })).should.be.deep.equal(['p_2_3', 'p_3_3']);
+
+      var road = featureDao.queryNearest({ type: 'Point', coordinates: [25, 5] }, 1);
+      names(road).should.be.deep.equal(['road']);
+      road[0].distance.should.be.equal(5);
+
+      var all = featureDao.queryNearest({ type: 'Point', coordinates: [100, 80] }, 200);
+      all.length.should.be.equal(101);
+      all[0].row.getValueWithColumnName('name').should.be.equal('road');
+      all[1].row.getValueWithColumnName('name').should.be.equal('p_9_9');
+      featureDao.queryNearest(point, 0).length.should.be.equal(0);
+    });
+
+    it('should query for the nearest features with geodesic distances', async function() {
+      await featureDao.index();
+      var nearest = featureDao.queryNearest({ type: 'Point', coordinates: [0, 0.001] }, 2, { geodesic: true });
+      names(nearest).should.be.deep.equal(['p_0_0', 'p_0_1']);
+      nearest[0].distance.should.be.closeTo(111.19, 0.5);
+      featureDao
+        .queryNearest({ type: 'Point', coordinates: [0, 0.001] }, 2, { geodesic: true, maxDistance: 1000 })
+        .length.should.be.equal(1);
+    });
+
+    it('should query for the nearest features to a point in another projection', async function() {
+      await featureDao.index();
+      var coordinates = proj4('EPSG:4326', 'EPSG:3857').forward([2.2, 3.1]);
+      var nearest = featureDao.queryNearest({ type: 'Point', coordinates: coordinates }, 1, { projection: 'EPSG:3857' });
+      names(nearest).should.be.deep.equal(['p_2_3']);
+      nearest[0].distance.should.be.closeTo(Math.hypot(0.2, 0.1), 1e-6);
+    });
+  });
+
 });
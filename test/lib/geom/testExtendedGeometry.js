@@ -0,0 +1,154 @@
+import { default as testSetup } from '../../fixtures/testSetup'
+
+var GeometryData = require('../../../lib/geom/geometryData').GeometryData
+  , CircularString = require('../../../lib/geom/extended/circularString').CircularString
+  , CompoundCurve = require('../../../lib/geom/extended/compoundCurve').CompoundCurve
+  , CurvePolygon = require('../../../lib/geom/extended/curvePolygon').CurvePolygon
+  , MultiSurface = require('../../../lib/geom/extended/multiSurface').MultiSurface
+  , Tin = require('../../../lib/geom/extended/tin').Tin
+  , ExtendedGeometryReader = require('../../../lib/geom/extended/extendedGeometryReader').ExtendedGeometryReader
+  , GeometryExtensions = require('../../../lib/extension/geometry').GeometryExtensions
+  , GeometryColumns = require('../../../lib/features/columns/geometryColumns').GeometryColumns
+  , FeatureColumn = require('../../../lib/features/user/featureColumn').FeatureColumn
+  , GeometryType = require('../../../lib/features/user/geometryType').GeometryType
+  , wkx = require('wkx')
+  , should = require('chai').should();
+
+describe('Extended geometry tests', function() {
+
+  var wkts = [
+    'CIRCULARSTRING(0 0,1 1,2 0)',
+    'CIRCULARSTRING Z (0 0 1,1 1 2,2 0 3,3 -1 4,4 0 5)',
+    'COMPOUNDCURVE((0 0,1 0),CIRCULARSTRING(1 0,2 1,3 0))',
+    'CURVEPOLYGON(CIRCULARSTRING(0 0,2 0,0 0),(0.5 0.5,1 0.5,1 0.8,0.5 0.5))',
+    'CURVEPOLYGON ZM (COMPOUNDCURVE(CIRCULARSTRING(0 0 1 2,1 1 1 2,2 0 1 2),(2 0 1 2,0 0 1 2)))',
+    'MULTICURVE((0 0,5 5),CIRCULARSTRING(4 0,4 4,8 4))',
+    'MULTISURFACE(CURVEPOLYGON(CIRCULARSTRING(0 0,4 0,0 0)),((10 10,14 12,11 10,10 10)))',
+    'POLYHEDRALSURFACE Z (((0 0 0,0 1 0,1 1 0,0 0 0)),((0 0 0,0 1 0,0 1 1,0 0 0)))',
+    'TIN(((0 0,0 1,1 0,0 0)),((1 0,0 1,1 1,1 0)))',
+    'TRIANGLE M ((0 0 1,0 1 2,1 0 3,0 0 1))',
+    'GEOMETRYCOLLECTION(POINT(1 2),CIRCULARSTRING(0 0,1 1,2 0))',
+    'CIRCULARSTRING EMPTY',
+    'CURVEPOLYGON Z EMPTY',
+  ];
+
+  it('should read and write the WKT and WKB of extended geometries', function() {
+    wkts.forEach(function(wkt) {
+      var geometry = ExtendedGeometryReader.readWkt(wkt);
+      geometry.toWkt().should.be.equal(wkt);
+      var read = ExtendedGeometryReader.readWkb(geometry.toWkb());
+      read.toWkt().should.be.equal(wkt);
+      read.toWkb().equals(geometry.toWkb()).should.be.equal(true);
+    });
+  });
+
+  it('should read and write extended geometries in GeoPackage binary', function() {
+    wkts.forEach(function(wkt) {
+      var geometryData = GeometryData.fromWkt(wkt, 4326);
+      var read = new GeometryData(geometryData.toData());
+      should.not.exist(read.geometryError);
+      read.toWkt().should.be.equal(wkt);
+      read.empty.should.be.equal(/EMPTY$/.test(wkt));
+    });
+  });
+
+  it('should read big endian WKB', function() {
+    var wkb = Buffer.from('000000000800000003000000000000000000000000000000004000000000000000400000000000000040100000000000000000000000000000', 'hex');
+    ExtendedGeometryReader.readWkb(wkb).toWkt().should.be.equal('CIRCULARSTRING(0 0,2 2,4 0)');
+  });
+
+  it('should not read circular strings without whole arcs', function() {
+    ['CIRCULARSTRING(0 0,1 1)', 'CIRCULARSTRING(0 0,1 1,2 0,3 1)', 'COMPOUNDCURVE(CIRCULARSTRING(0 0,1 1))'].forEach(
+      function(wkt) {
+        (function() {
+          ExtendedGeometryReader.readWkt(wkt);
+        }).should.throw(/odd number of at least 3 points/);
+      },
+    );
+    var wkb = Buffer.from('01080000000200000000000000000000000000000000000000000000000000f03f000000000000f03f', 'hex');
+    (function() {
+      ExtendedGeometryReader.readWkb(wkb);
+    }).should.throw('Circular string requires an odd number of at least 3 points, found 2');
+  });
+
+  it('should linearize a circular string', function() {
+    var circularString = ExtendedGeometryReader.readWkt('CIRCULARSTRING(-1 0,0 1,1 0)');
+    var lineString = circularString.linearize();
+    lineString.should.be.instanceof(wkx.LineString);
+    lineString.points[0].x.should.be.equal(-1);
+    lineString.points[lineString.points.length - 1].x.should.be.equal(1);
+    lineString.points.length.should.be.equal(CircularString.SEGMENTS_PER_CIRCLE / 2 + 1);
+    lineString.points.forEach(function(point) {
+      Math.hypot(point.x, point.y).should.be.closeTo(1, 1e-9);
+      point.y.should.be.at.least(0);
+    });
+    // clockwise arcs bend the other way
+    ExtendedGeometryReader.readWkt('CIRCULARSTRING(1 0,0 -1,-1 0)').linearize().points.forEach(function(point) {
+      point.y.should.be.at.most(1e-9);
+    });
+    circularString.toGeoJSON().type.should.be.equal('LineString');
+  });
+
+  it('should compute the envelope and GeoJSON of extended geometries', function() {
+    var geometryData = GeometryData.fromWkt('CURVEPOLYGON(CIRCULARSTRING(0 0,2 0,0 0))', 4326);
+    geometryData.envelope.minX.should.be.closeTo(0, 1e-9);
+    geometryData.envelope.maxX.should.be.closeTo(2, 1e-9);
+    geometryData.envelope.minY.should.be.closeTo(-1, 1e-9);
+    geometryData.envelope.maxY.should.be.closeTo(1, 1e-9);
+    geometryData.toGeoJSON().type.should.be.equal('Polygon');
+    new MultiSurface([geometryData.geometry]).toGeoJSON().type.should.be.equal('MultiPolygon');
+    ExtendedGeometryReader.readWkt('TIN(((0 0,0 1,1 0,0 0)))').toGeoJSON().type.should.be.equal('MultiPolygon');
+    var compoundCurve = new CompoundCurve([
+      new wkx.LineString([new wkx.Point(0, 0), new wkx.Point(1, 0)]),
+      new CircularString([new wkx.Point(1, 0), new wkx.Point(2, 1), new wkx.Point(3, 0)]),
+    ]);
+    compoundCurve.linearize().points.length.should.be.equal(CircularString.SEGMENTS_PER_CIRCLE / 2 + 2);
+  });
+
+  describe('GeoPackage', function() {
+    var testGeoPackage;
+    var geopackage;
+
+    beforeEach(async function() {
+      testGeoPackage = await testSetup.createTmpGeoPackage();
+      geopackage = testGeoPackage.geopackage;
+    });
+
+    afterEach(async function() {
+      geopackage.close();
+      await testSetup.deleteGeoPackage(testGeoPackage.path);
+    });
+
+    it('should register the geometry type extensions of the features', function() {
+      var geometryColumns = new GeometryColumns();
+      geometryColumns.table_name = 'curves';
+      geometryColumns.column_name = 'geom';
+      geometryColumns.geometry_type_name = 'CURVEPOLYGON';
+      geometryColumns.z = 0;
+      geometryColumns.m = 0;
+      geopackage.createFeatureTable('curves', geometryColumns, [
+        FeatureColumn.createPrimaryKeyColumn(0, 'id'),
+        FeatureColumn.createGeometryColumn(1, 'geom', GeometryType.CURVEPOLYGON, false, null),
+      ]);
+      var extensions = new GeometryExtensions(geopackage);
+      extensions.has('curves', 'geom', GeometryType.CURVEPOLYGON).should.be.equal(true);
+      extensions.has('curves', 'geom', GeometryType.CIRCULARSTRING).should.be.equal(false);
+
+      var featureDao = geopackage.getFeatureDao('curves');
+      var row = featureDao.newRow();
+      row.setGeometryWithWkt('CURVEPOLYGON(COMPOUNDCURVE(CIRCULARSTRING(0 0,1 1,2 0),(2 0,0 0)))', 4326);
+      var id = featureDao.create(row);
+      extensions.has('curves', 'geom', GeometryType.CIRCULARSTRING).should.be.equal(true);
+      extensions.has('curves', 'geom', GeometryType.COMPOUNDCURVE).should.be.equal(true);
+      row = featureDao.queryForId(id);
+      row.geometry.geometry.should.be.instanceof(CurvePolygon);
+      row.getGeometryWkt().should.be.equal('CURVEPOLYGON(COMPOUNDCURVE(CIRCULARSTRING(0 0,1 1,2 0),(2 0,0 0)))');
+
+      row.geometry = GeometryData.fromWkt('TIN(((0 0,0 1,1 0,0 0)))', 4326);
+      featureDao.update(row);
+      geopackage.extensionDao.queryByExtensionAndTableName('nga_geom_TIN', 'curves').length.should.be.equal(1);
+      GeometryExtensions.getExtensionName(GeometryType.CIRCULARSTRING).should.be.equal('gpkg_geom_CIRCULARSTRING');
+      featureDao.queryForId(id).geometry.geometry.should.be.instanceof(Tin);
+    });
+  });
+});
@@ -318,4 +318,42 @@ describe('Geometry Data tests', function() {
     geometryData2.geometry.y.should.be.equal(2);
   });
 
+  it('should create geometry data from WKT', function() {
+    var geometryData = GeometryData.fromWkt('LINESTRING ZM (1 2 3 4, 5 -6 7 8)', 4326);
+    geometryData.srsId.should.be.equal(4326);
+    geometryData.empty.should.be.equal(false);
+    geometryData.envelope.should.be.deep.equal({
+      minX: 1, minY: -6, maxX: 5, maxY: 2, hasZ: true, minZ: 3, maxZ: 7, hasM: true, minM: 4, maxM: 8,
+    });
+    var geometryData2 = new GeometryData(geometryData.toData());
+    geometryData2.toWkt().should.be.equal('LINESTRING ZM (1 2 3 4,5 -6 7 8)');
+    geometryData2.envelope.maxM.should.be.equal(8);
+  });
+
+  it('should create geometry data from EWKT', function() {
+    var geometryData = GeometryData.fromWkt('srid=3857;point(1 2)');
+    geometryData.srsId.should.be.equal(3857);
+    geometryData.toEwkt().should.be.equal('SRID=3857;POINT(1 2)');
+    GeometryData.fromWkt('SRID=3857;POINT Z (1 2 3)').geometry.toWkb().readUInt32LE(1).should.be.equal(1001);
+    GeometryData.fromWkt('SRID=3857;POINT(1 2)', 4326).srsId.should.be.equal(4326);
+    GeometryData.fromWkt('POINT(1 2)').srsId.should.be.equal(0);
+  });
+
+  it('should create empty geometry data from WKT', function() {
+    ['POINT EMPTY', 'POINT Z EMPTY', 'POLYGON EMPTY', 'GEOMETRYCOLLECTION EMPTY'].forEach(function(wkt) {
+      var geometryData = GeometryData.fromWkt(wkt, 4326);
+      geometryData.empty.should.be.equal(true);
+      should.not.exist(geometryData.envelope);
+      var geometryData2 = new GeometryData(geometryData.toData());
+      geometryData2.empty.should.be.equal(true);
+      geometryData2.toWkt().should.be.equal(wkt);
+    });
+  });
+
+  it('should fail to parse invalid WKT', function() {
+    (function() {
+      GeometryData.fromWkt('POINT(1)');
+    }).should.throw(/^Unable to parse WKT/);
+  });
+
 });
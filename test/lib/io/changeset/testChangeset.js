@@ -0,0 +1,266 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var ChangesetConflictPolicy = require('../../../../lib/io/changeset/changeset').ChangesetConflictPolicy
+  , ChangesetConflictReason = require('../../../../lib/io/changeset/changeset').ChangesetConflictReason
+  , FeatureTableStyles = require('../../../../lib/extension/style/featureTableStyles').FeatureTableStyles
+  , GeometryType = require('../../../../lib/features/user/geometryType').GeometryType
+  , SetupPlacesTable = require('../../../fixtures/setupPlacesTable')
+  , should = require('chai').should();
+
+describe('Changeset export and apply tests', function() {
+  var testSource;
+  var testTarget;
+  var source;
+  var target;
+
+  var setupGeoPackage = function(geopackage) {
+    SetupPlacesTable.createPlacesTable(geopackage);
+    geopackage.featureStyleExtension.getOrCreateExtension('places');
+    geopackage.featureStyleExtension.getRelatedTables().getOrCreateExtension();
+    geopackage.featureStyleExtension.getContentsId().getOrCreateExtension();
+    new FeatureTableStyles(geopackage, 'places').createStyleRelationship();
+    SetupPlacesTable.createPlace(geopackage, 'Denver', 'POINT(-105 39.7)', 715000);
+    SetupPlacesTable.createPlace(geopackage, 'Boulder', 'POINT(-105.3 40)', 108000);
+  };
+
+  var getPlace = function(geopackage, id) {
+    return geopackage.getFeatureDao('places').queryForId(id);
+  };
+
+  beforeEach(async function() {
+    testSource = await testSetup.createTmpGeoPackage();
+    testTarget = await testSetup.createTmpGeoPackage();
+    source = testSource.geopackage;
+    target = testTarget.geopackage;
+    setupGeoPackage(source);
+    setupGeoPackage(target);
+    source.changeTrackingExtension.track('places');
+  });
+
+  afterEach(async function() {
+    source.close();
+    target.close();
+    await testSetup.deleteGeoPackage(testSource.path);
+    await testSetup.deleteGeoPackage(testTarget.path);
+  });
+
+  it('should export the net changes of the rows', function() {
+    var id = SetupPlacesTable.createPlace(source, 'Golden', 'POINT(-105.2 39.8)', 20000);
+    SetupPlacesTable.updatePlace(source, id, 'population', 21000);
+    var removedId = SetupPlacesTable.createPlace(source, 'Lakewood', 'POINT(-105.1 39.7)', 155000);
+    source.getFeatureDao('places').deleteById(removedId);
+    SetupPlacesTable.updatePlace(source, 2, 'population', 109000);
+    SetupPlacesTable.updatePlace(source, 2, 'name', 'Boulder City');
+    source.getFeatureDao('places').deleteById(1);
+    var changeset = source.exportChangeset(0, { source: 'server' });
+    changeset.version.should.be.equal(1);
+    changeset.source.should.be.equal('server');
+    changeset.since.should.be.equal(0);
+    changeset.marker.should.be.equal(source.changeTrackingExtension.getMarker());
+    changeset.related_tables.should.be.deep.equal([]);
+    changeset.tables.length.should.be.equal(1);
+    var table = changeset.tables[0];
+    table.table_name.should.be.equal('places');
+    table.id_column.should.be.equal('id');
+    table.mapping_table_names.should.be.deep.equal(['nga_style_places']);
+    var rows = table.rows;
+    rows.map(function(row) {
+      return row.operation + ' ' + row.id;
+    }).should.have.members(['insert ' + id, 'update 2', 'delete 1']);
+    var insert = rows.find(function(row) { return row.id === id; });
+    insert.values.name.should.be.equal('Golden');
+    insert.values.population.should.be.equal(21000);
+    should.exist(insert.values.geom.blob);
+    insert.mappings.should.be.deep.equal([]);
+    should.not.exist(insert.values.id);
+    var update = rows.find(function(row) { return row.id === 2; });
+    update.columns.should.be.deep.equal(['name', 'population']);
+    var changes = JSON.parse(JSON.stringify(changeset));
+    changes.should.be.deep.equal(changeset);
+    source.exportChangeset(changeset.marker).tables.should.be.deep.equal([]);
+  });
+
+  it('should apply a changeset to a copy', function() {
+    var id = SetupPlacesTable.createPlace(source, 'Golden', 'POINT(-105.2 39.8)', 20000);
+    SetupPlacesTable.updatePlace(source, 2, 'population', 109000);
+    source.getFeatureDao('places').deleteById(1);
+    var changeset = source.exportChangeset();
+    SetupPlacesTable.updatePlace(target, 2, 'name', 'Boulder City');
+    var result = target.applyChangeset(JSON.stringify(changeset));
+    result.inserted.should.be.equal(1);
+    result.updated.should.be.equal(1);
+    result.deleted.should.be.equal(1);
+    result.remapped.should.be.equal(0);
+    result.conflicts.should.be.deep.equal([]);
+    should.not.exist(getPlace(target, 1));
+    var boulder = getPlace(target, 2);
+    boulder.getValueWithColumnName('population').should.be.equal(109000);
+    boulder.getValueWithColumnName('name').should.be.equal('Boulder City');
+    var golden = getPlace(target, id);
+    golden.getValueWithColumnName('name').should.be.equal('Golden');
+    golden.geometry.geometry.x.should.be.equal(-105.2);
+    target.applyChangeset(changeset).should.be.deep.equal({ inserted: 0, updated: 0, deleted: 0, remapped: 0, conflicts: [] });
+    target.getFeatureDao('places').getCount().should.be.equal(2);
+  });
+
+  it('should remap the ids of inserted rows taken in the GeoPackage', function() {
+    var id = SetupPlacesTable.createPlace(source, 'Golden', 'POINT(-105.2 39.8)', 20000);
+    var localId = SetupPlacesTable.createPlace(target, 'Aurora', 'POINT(-104.8 39.7)', 386000);
+    localId.should.be.equal(id);
+    var changeset = source.exportChangeset();
+    var result = target.applyChangeset(changeset);
+    result.inserted.should.be.equal(1);
+    result.remapped.should.be.equal(1);
+    getPlace(target, localId).getValueWithColumnName('name').should.be.equal('Aurora');
+    var targetId = target.changesetIdDao.queryForTargetIds(changeset.source, 'places').get(id);
+    targetId.should.not.be.equal(id);
+    getPlace(target, targetId).getValueWithColumnName('name').should.be.equal('Golden');
+    SetupPlacesTable.updatePlace(source, id, 'name', 'Golden City');
+    result = target.applyChangeset(source.exportChangeset(changeset.marker));
+    result.updated.should.be.equal(1);
+    getPlace(target, targetId).getValueWithColumnName('name').should.be.equal('Golden City');
+    getPlace(target, localId).getValueWithColumnName('name').should.be.equal('Aurora');
+  });
+
+  it('should carry the style mappings of the rows', function() {
+    var styles = new FeatureTableStyles(source, 'places');
+    var style = styles.getStyleDao().newRow();
+    style.setName('Town');
+    style.setColor('#FF0000', 1.0);
+    var id = SetupPlacesTable.createPlace(source, 'Golden', 'POINT(-105.2 39.8)', 20000);
+    source.featureStyleExtension.setStyle('places', id, GeometryType.POINT, style);
+    var changeset = source.exportChangeset();
+    changeset.related_tables.length.should.be.equal(1);
+    changeset.related_tables[0].table_name.should.be.equal('nga_style');
+    changeset.tables[0].rows[0].mappings.length.should.be.equal(1);
+    changeset.tables[0].rows[0].mappings[0].values.geometry_type_name.should.be.equal('POINT');
+    target.applyChangeset(changeset);
+    var targetStyle = target.featureStyleExtension.getStyle('places', id, GeometryType.POINT, false);
+    should.exist(targetStyle);
+    targetStyle.getName().should.be.equal('Town');
+    SetupPlacesTable.updatePlace(source, id, 'population', 21000);
+    target.applyChangeset(source.exportChangeset(changeset.marker));
+    target.featureStyleExtension.getStyleDao().count().should.be.equal(1);
+    target.featureStyleExtension.getStyle('places', id, GeometryType.POINT, false).getName().should.be.equal('Town');
+  });
+
+  it('should insert related rows whose ids are taken in the GeoPackage', function() {
+    var localStyle = target.featureStyleExtension.getStyleDao().newRow();
+    localStyle.setName('Local');
+    localStyle.setColor('#0000FF', 1.0);
+    var localId = SetupPlacesTable.createPlace(target, 'Aurora', 'POINT(-104.8 39.7)', 386000);
+    target.featureStyleExtension.setStyle('places', localId, GeometryType.POINT, localStyle);
+    var style = source.featureStyleExtension.getStyleDao().newRow();
+    style.setName('Town');
+    style.setColor('#FF0000', 1.0);
+    var id = SetupPlacesTable.createPlace(source, 'Golden', 'POINT(-105.2 39.8)', 20000);
+    source.featureStyleExtension.setStyle('places', id, GeometryType.POINT, style);
+    var changeset = source.exportChangeset();
+    var result = target.applyChangeset(changeset);
+    result.inserted.should.be.equal(2);
+    result.remapped.should.be.equal(2);
+    target.featureStyleExtension.getStyleDao().count().should.be.equal(2);
+    target.featureStyleExtension.getStyle('places', localId, GeometryType.POINT, false).getName().should.be.equal('Local');
+    var targetId = target.changesetIdDao.queryForTargetIds(changeset.source, 'places').get(id);
+    target.featureStyleExtension.getStyle('places', targetId, GeometryType.POINT, false).getName().should.be.equal('Town');
+  });
+
+  it('should detect conflicts with changes tracked before the first changeset', function() {
+    target.changeTrackingExtension.track('places');
+    SetupPlacesTable.updatePlace(source, 1, 'population', 716000);
+    SetupPlacesTable.updatePlace(target, 1, 'population', 720000);
+    (function() {
+      target.applyChangeset(source.exportChangeset());
+    }.should.throw('Changeset conflict, update of row 1 in table places: modified'));
+    getPlace(target, 1).getValueWithColumnName('population').should.be.equal(720000);
+  });
+
+  it('should resolve conflicts with the rows of the GeoPackage', function() {
+    target.applyChangeset(source.exportChangeset());
+    target.changeTrackingExtension.track('places');
+    var marker = source.changeTrackingExtension.getMarker();
+    SetupPlacesTable.updatePlace(source, 1, 'population', 716000);
+    SetupPlacesTable.updatePlace(source, 2, 'population', 109000);
+    SetupPlacesTable.updatePlace(target, 1, 'population', 720000);
+    SetupPlacesTable.updatePlace(target, 2, 'name', 'Boulder City');
+    var changeset = source.exportChangeset(marker);
+    (function() {
+      target.applyChangeset(changeset);
+    }.should.throw('Changeset conflict, update of row 1 in table places: modified'));
+    getPlace(target, 2).getValueWithColumnName('population').should.be.equal(108000);
+
+    var result = target.applyChangeset(changeset, ChangesetConflictPolicy.SKIP);
+    result.updated.should.be.equal(1);
+    result.conflicts.should.be.deep.equal([
+      { table_name: 'places', operation: 'update', id: 1, target_id: 1, reason: ChangesetConflictReason.MODIFIED },
+    ]);
+    getPlace(target, 1).getValueWithColumnName('population').should.be.equal(720000);
+    getPlace(target, 2).getValueWithColumnName('population').should.be.equal(109000);
+    getPlace(target, 2).getValueWithColumnName('name').should.be.equal('Boulder City');
+
+    marker = source.changeTrackingExtension.getMarker();
+    SetupPlacesTable.updatePlace(source, 2, 'name', 'Boulder Springs');
+    SetupPlacesTable.updatePlace(source, 1, 'name', 'Denver City');
+    target.getFeatureDao('places').deleteById(1);
+    SetupPlacesTable.updatePlace(target, 2, 'name', 'Boulder Town');
+    result = target.applyChangeset(source.exportChangeset(marker), ChangesetConflictPolicy.OVERWRITE);
+    result.conflicts.map(function(conflict) {
+      return conflict.id + ' ' + conflict.reason;
+    }).should.have.members(['1 ' + ChangesetConflictReason.MISSING, '2 ' + ChangesetConflictReason.MODIFIED]);
+    getPlace(target, 1).getValueWithColumnName('name').should.be.equal('Denver City');
+    getPlace(target, 2).getValueWithColumnName('name').should.be.equal('Boulder Springs');
+  });
+
+  it('should not send the rows of an applied changeset back to its source', function() {
+    target.changeTrackingExtension.track('places');
+    var id = SetupPlacesTable.createPlace(source, 'Golden', 'POINT(-105.2 39.8)', 20000);
+    var serverChangeset = source.exportChangeset(0, { source: 'server' });
+    var deviceMarker = target.changeTrackingExtension.getMarker();
+    target.applyChangeset(serverChangeset).inserted.should.be.equal(1);
+    target.changeTrackingExtension.getChanges(deviceMarker).should.be.deep.equal([]);
+    SetupPlacesTable.updatePlace(target, 1, 'population', 716000);
+    var deviceChangeset = target.exportChangeset(deviceMarker, { source: 'device' });
+    deviceChangeset.tables.length.should.be.equal(1);
+    deviceChangeset.tables[0].rows.map(function(row) {
+      return row.operation + ' ' + row.id;
+    }).should.be.deep.equal(['update 1']);
+    var result = source.applyChangeset(deviceChangeset);
+    result.inserted.should.be.equal(0);
+    result.updated.should.be.equal(1);
+    source.getFeatureDao('places').getCount().should.be.equal(3);
+    getPlace(source, id).getValueWithColumnName('name').should.be.equal('Golden');
+    getPlace(source, 1).getValueWithColumnName('population').should.be.equal(716000);
+    source.exportChangeset(serverChangeset.marker, { source: 'server' }).tables.should.be.deep.equal([]);
+  });
+
+  it('should apply the changesets of a source in order', function() {
+    SetupPlacesTable.createPlace(source, 'Golden', 'POINT(-105.2 39.8)', 20000);
+    var first = source.exportChangeset();
+    SetupPlacesTable.createPlace(source, 'Aurora', 'POINT(-104.8 39.7)', 386000);
+    var second = source.exportChangeset(first.marker);
+    SetupPlacesTable.createPlace(source, 'Lakewood', 'POINT(-105.1 39.7)', 155000);
+    var third = source.exportChangeset(second.marker);
+    target.applyChangeset(first).inserted.should.be.equal(1);
+    (function() {
+      target.applyChangeset(third);
+    }.should.throw('The changeset of ' + third.source + ' starts at change ' + second.marker + ', changes were applied up to change ' + first.marker));
+    target.applyChangeset(second).inserted.should.be.equal(1);
+    target.applyChangeset(third).inserted.should.be.equal(1);
+    target.getFeatureDao('places').getCount().should.be.equal(5);
+  });
+
+  it('should reject changesets of untracked or missing tables', function() {
+    (function() {
+      source.exportChangeset(0, { tables: ['missing'] });
+    }.should.throw('Changes are not tracked for table: missing'));
+    var changeset = source.exportChangeset();
+    changeset.tables.push({ table_name: 'missing', id_column: 'id', mapping_table_names: [], rows: [] });
+    (function() {
+      target.applyChangeset(changeset);
+    }.should.throw('Table does not exist in the GeoPackage: missing'));
+    changeset.version = 2;
+    (function() {
+      target.applyChangeset(changeset);
+    }.should.throw('Unsupported changeset version: 2'));
+  });
+});
@@ -0,0 +1,179 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var FlatGeobufReader = require('../../../../lib/io/flatgeobuf/flatGeobufReader').FlatGeobufReader
+  , FlatGeobufColumnType = require('../../../../lib/io/flatgeobuf/flatGeobufReader').FlatGeobufColumnType
+  , FlatGeobufGeometryType = require('../../../../lib/io/flatgeobuf/flatGeobufReader').FlatGeobufGeometryType
+  , FlatGeobufWriter = require('../../../../lib/io/flatgeobuf/flatGeobufWriter').FlatGeobufWriter
+  , FlatGeobufExporter = require('../../../../lib/io/flatgeobuf/flatGeobufExporter').FlatGeobufExporter
+  , GeoPackageDataType = require('../../../../lib/db/geoPackageDataType').GeoPackageDataType
+  , BoundingBox = require('../../../../lib/boundingBox').BoundingBox
+  , Envelope = require('../../../../lib/geom/envelope').Envelope
+  , wkx = require('wkx')
+  , path = require('path')
+  , os = require('os')
+  , fs = require('fs-extra')
+  , should = require('chai').should();
+
+describe('FlatGeobuf import and export tests', function() {
+  var testGeoPackage;
+  var geopackage;
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+    var features = [];
+    for (var x = 0; x < 10; x++) {
+      for (var y = 0; y < 10; y++) {
+        features.push({
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [x, y] },
+          properties: { name: 'point ' + x + ' ' + y, value: x * 10 + y, ratio: x / 4, visible: x % 2 === 0 },
+        });
+      }
+    }
+    await geopackage.importGeoJSON({ type: 'FeatureCollection', features: features }, 'points');
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  it('should export an indexed FlatGeobuf file that imports to the same table', async function() {
+    var data = geopackage.exportFlatGeobuf('points');
+    var reader = await FlatGeobufReader.open(data);
+    reader.indexed.should.be.equal(true);
+    reader.header.name.should.be.equal('points');
+    reader.header.geometryType.should.be.equal(FlatGeobufGeometryType.POINT);
+    reader.header.featuresCount.should.be.equal(100);
+    reader.header.envelope.should.be.deep.equal([0, 0, 9, 9]);
+    reader.header.crs.code.should.be.equal(4326);
+    reader.header.columns.map(function(column) { return column.name; })
+      .should.be.deep.equal(['name', 'value', 'ratio', 'visible']);
+    reader.header.columns[1].type.should.be.equal(FlatGeobufColumnType.LONG);
+    reader.header.columns[3].type.should.be.equal(FlatGeobufColumnType.BOOL);
+    await reader.close();
+
+    var inserted = await geopackage.importFlatGeobuf(data, 'reimported');
+    inserted.should.be.equal(100);
+    var featureDao = geopackage.getFeatureDao('reimported');
+    featureDao.srs.srs_id.should.be.equal(4326);
+    featureDao.geometryColumns.geometry_type_name.should.be.equal('POINT');
+    featureDao.table.getUserColumns().getColumn('value').getDataType().should.be.equal(GeoPackageDataType.INTEGER);
+    featureDao.table.getUserColumns().getColumn('ratio').getDataType().should.be.equal(GeoPackageDataType.DOUBLE);
+    var contents = geopackage.contentsDao.queryForId('reimported');
+    contents.min_x.should.be.equal(0);
+    contents.max_y.should.be.equal(9);
+
+    var original = geopackage.getFeatureDao('points');
+    var rows = {};
+    for (var row of featureDao.queryForEach()) {
+      var featureRow = featureDao.getRow(row);
+      rows[featureRow.getValueWithColumnName('name')] = featureRow;
+    }
+    for (var originalRow of original.queryForEach()) {
+      var expected = original.getRow(originalRow);
+      var actual = rows[expected.getValueWithColumnName('name')];
+      ['value', 'ratio', 'visible'].forEach(function(column) {
+        should.equal(actual.getValueWithColumnName(column), expected.getValueWithColumnName(column));
+      });
+      actual.geometry.geometry.toWkt().should.be.equal(expected.geometry.geometry.toWkt());
+    }
+  });
+
+  it('should import the features in a bounding box', async function() {
+    var boundingBox = new BoundingBox(1.5, 3.5, 2.5, 4);
+    var indexed = await geopackage.importFlatGeobuf(geopackage.exportFlatGeobuf('points'), 'indexed', {
+      boundingBox: boundingBox,
+    });
+    var unindexed = await geopackage.importFlatGeobuf(
+      geopackage.exportFlatGeobuf('points', { index: false }),
+      'unindexed',
+      { boundingBox: boundingBox },
+    );
+    indexed.should.be.equal(4);
+    unindexed.should.be.equal(4);
+    ['indexed', 'unindexed'].forEach(function(table) {
+      var featureDao = geopackage.getFeatureDao(table);
+      var names = [];
+      for (var row of featureDao.queryForEach()) {
+        names.push(featureDao.getRow(row).getValueWithColumnName('name'));
+      }
+      names.sort().should.be.deep.equal(['point 2 3', 'point 2 4', 'point 3 3', 'point 3 4']);
+    });
+  });
+
+  it('should search the spatial index of a file', async function() {
+    var filePath = path.join(os.tmpdir(), 'points_' + Date.now() + '.fgb');
+    try {
+      var written = await new FlatGeobufExporter(geopackage.getFeatureDao('points')).writeFlatGeobuf(filePath, {
+        indexNodeSize: 4,
+      });
+      written.should.be.equal(100);
+      var reader = await FlatGeobufReader.open(filePath);
+      var envelope = new Envelope();
+      envelope.minX = 8.5;
+      envelope.minY = 8.5;
+      envelope.maxX = 20;
+      envelope.maxY = 20;
+      var offsets = await reader.search(envelope);
+      offsets.length.should.be.equal(1);
+      var feature = await reader.readFeature(offsets[0]);
+      feature.geometry.toWkt().should.be.equal('POINT(9 9)');
+      feature.properties.name.should.be.equal('point 9 9');
+      feature.properties.value.should.be.equal(99);
+      await reader.close();
+    } finally {
+      await fs.remove(filePath);
+    }
+  });
+
+  it('should write and read mixed geometries, dates and z values', async function() {
+    var writer = new FlatGeobufWriter({
+      geometryType: FlatGeobufGeometryType.UNKNOWN,
+      hasZ: true,
+      hasM: false,
+      columns: [
+        { name: 'created', type: FlatGeobufColumnType.DATETIME },
+        { name: 'label', type: FlatGeobufColumnType.STRING },
+      ],
+      featuresCount: 0,
+      indexNodeSize: 16,
+      crs: { org: 'EPSG', code: 3857 },
+    });
+    writer.addFeature(wkx.Geometry.parse('LINESTRING Z(0 0 1,10 10 2)'), {
+      created: new Date('2020-01-02T03:04:05.000Z'),
+      label: 'line',
+    });
+    writer.addFeature(wkx.Geometry.parse('MULTIPOLYGON Z(((0 0 1,1 0 1,1 1 1,0 0 1)),((5 5 2,6 5 2,6 6 2,5 5 2)))'), {
+      label: 'polygons',
+    });
+    writer.addFeature(null, { label: 'none' });
+    await geopackage.importFlatGeobuf(writer.build(), 'mixed');
+    var featureDao = geopackage.getFeatureDao('mixed');
+    featureDao.srs.srs_id.should.be.equal(3857);
+    featureDao.geometryColumns.geometry_type_name.should.be.equal('GEOMETRY');
+    featureDao.geometryColumns.z.should.be.equal(1);
+    var rows = {};
+    for (var row of featureDao.queryForEach()) {
+      var featureRow = featureDao.getRow(row);
+      rows[featureRow.getValueWithColumnName('label')] = featureRow;
+    }
+    rows.line.getValueWithColumnName('created').should.be.equal('2020-01-02T03:04:05.000Z');
+    rows.line.geometry.geometry.toWkt().should.be.equal('LINESTRING Z (0 0 1,10 10 2)');
+    rows.polygons.geometry.geometry.toWkt()
+      .should.be.equal('MULTIPOLYGON Z (((0 0 1,1 0 1,1 1 1,0 0 1)),((5 5 2,6 5 2,6 6 2,5 5 2)))');
+    should.not.exist(rows.polygons.getValueWithColumnName('created'));
+    should.not.exist(rows.none.geometry);
+  });
+
+  it('should not import a file that is not a FlatGeobuf file', async function() {
+    try {
+      await geopackage.importFlatGeobuf(Buffer.from('not a flatgeobuf file'), 'invalid');
+      should.fail(false, true, 'Expected an error');
+    } catch (e) {
+      e.message.should.be.equal('Not a FlatGeobuf file');
+    }
+    geopackage.isTable('invalid').should.be.equal(false);
+  });
+});
@@ -0,0 +1,124 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var GeoJSONExporter = require('../../../../lib/io/geojson/geoJSONExporter').GeoJSONExporter
+  , BoundingBox = require('../../../../lib/boundingBox').BoundingBox
+  , stream = require('stream')
+  , should = require('chai').should();
+
+describe('GeoJSON export tests', function() {
+  var testGeoPackage;
+  var geopackage;
+
+  var features = [];
+  for (var i = 0; i < 10; i++) {
+    features.push({
+      type: 'Feature',
+      id: 'feature' + i,
+      geometry: {
+        type: 'Point',
+        coordinates: [i + 0.123456789, i / 2]
+      },
+      properties: {
+        id: i,
+        name: 'Feature ' + i,
+        flag: i % 2 === 0
+      }
+    });
+  }
+
+  var exportCollection = function(tableName, options) {
+    return JSON.parse(Array.from(geopackage.exportGeoJSON(tableName, options)).join(''));
+  };
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+    await geopackage.importGeoJSON(features, 'points');
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  it('should export a feature table as a FeatureCollection', function() {
+    var collection = exportCollection('points');
+    collection.type.should.be.equal('FeatureCollection');
+    collection.features.length.should.be.equal(10);
+    should.not.exist(collection.bbox);
+    var feature = collection.features[3];
+    feature.id.should.be.equal('feature3');
+    feature.properties.should.be.deep.equal({ id: 3, name: 'Feature 3', flag: false });
+    feature.geometry.coordinates.should.be.deep.equal([3.123456789, 1.5]);
+  });
+
+  it('should export with options', function() {
+    var collection = exportCollection('points', {
+      boundingBox: new BoundingBox(1.5, 4.5, -1, 10),
+      properties: ['name'],
+      idColumn: 'id',
+      precision: 2,
+      bbox: true
+    });
+    collection.features.length.should.be.equal(3);
+    collection.bbox.should.be.deep.equal([2.12, 1, 4.12, 2]);
+    var feature = collection.features[0];
+    feature.id.should.be.equal(3);
+    feature.bbox.should.be.deep.equal([2.12, 1, 2.12, 1]);
+    feature.properties.should.be.deep.equal({ name: 'Feature 2' });
+  });
+
+  it('should reproject to the requested projection', function() {
+    var features = Array.from(new GeoJSONExporter(geopackage).iterateFeatures('points', { projection: 'EPSG:3857' }));
+    features[0].geometry.coordinates[0].should.be.closeTo(13743.15, 0.01);
+  });
+
+  it('should write to a stream', async function() {
+    var chunks = [];
+    var writable = new stream.Writable({
+      highWaterMark: 16,
+      write: function(chunk, encoding, callback) {
+        chunks.push(chunk.toString());
+        setTimeout(callback);
+      }
+    });
+    var written = await geopackage.exportGeoJSONToStream('points', writable);
+    written.should.be.equal(10);
+    JSON.parse(chunks.join('')).features.length.should.be.equal(10);
+  });
+
+  it('should reject when the stream errors or closes before draining', async function() {
+    var failing = new stream.Writable({
+      highWaterMark: 16,
+      write: function(chunk, encoding, callback) {
+        setTimeout(callback, 0, new Error('Disk full'));
+      }
+    });
+    var error;
+    try {
+      await geopackage.exportGeoJSONToStream('points', failing);
+    } catch (e) {
+      error = e;
+    }
+    should.exist(error);
+    error.message.should.be.equal('Disk full');
+    failing.listenerCount('drain').should.be.equal(0);
+
+    var closing = new stream.Writable({
+      highWaterMark: 16,
+      write: function() {
+        setTimeout(function() {
+          closing.destroy();
+        });
+      }
+    });
+    error = undefined;
+    try {
+      await geopackage.exportGeoJSONToStream('points', closing);
+    } catch (e) {
+      error = e;
+    }
+    should.exist(error);
+    error.message.should.be.equal('The stream closed before it drained');
+  });
+});
@@ -0,0 +1,203 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var GeoJSONImporter = require('../../../../lib/io/geojson/geoJSONImporter').GeoJSONImporter
+  , GeoJSONExporter = require('../../../../lib/io/geojson/geoJSONExporter').GeoJSONExporter
+  , GeoJSONFeatureReader = require('../../../../lib/io/geojson/geoJSONFeatureReader').GeoJSONFeatureReader
+  , GeoPackageDataType = require('../../../../lib/db/geoPackageDataType').GeoPackageDataType
+  , GeometryType = require('../../../../lib/features/user/geometryType').GeometryType
+  , path = require('path')
+  , should = require('chai').should();
+
+describe('GeoJSON import tests', function() {
+  var testGeoPackage;
+  var geopackage;
+
+  var featureCollection = function(count) {
+    var features = [];
+    for (var i = 0; i < count; i++) {
+      features.push({
+        type: 'Feature',
+        id: 'feature' + i,
+        geometry: {
+          type: 'Point',
+          coordinates: [i / 10, i / 20]
+        },
+        properties: {
+          id: i,
+          name: 'Feature ' + i,
+          value: i % 2 === 0 ? i : i + 0.5,
+          flag: i % 2 === 0,
+          nested: { index: i }
+        }
+      });
+    }
+    return {
+      type: 'FeatureCollection',
+      features: features
+    };
+  };
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  it('should import a FeatureCollection and infer the schema', async function() {
+    var progress = [];
+    var inserted = await geopackage.importGeoJSON(featureCollection(25), 'imported', {
+      batchSize: 10,
+      progress: function(featuresAdded) {
+        progress.push(featuresAdded);
+      }
+    });
+    inserted.should.be.equal(25);
+    await new Promise(resolve => setTimeout(resolve));
+    progress.should.be.deep.equal([10, 20, 25]);
+
+    var featureDao = geopackage.getFeatureDao('imported');
+    featureDao.count().should.be.equal(25);
+    featureDao.geometryColumns.geometry_type_name.should.be.equal('POINT');
+    var columns = featureDao.table.getUserColumns();
+    columns.getColumn('_feature_id').dataType.should.be.equal(GeoPackageDataType.TEXT);
+    columns.getColumn('_properties_id').dataType.should.be.equal(GeoPackageDataType.INTEGER);
+    columns.getColumn('name').dataType.should.be.equal(GeoPackageDataType.TEXT);
+    columns.getColumn('value').dataType.should.be.equal(GeoPackageDataType.REAL);
+    columns.getColumn('flag').dataType.should.be.equal(GeoPackageDataType.BOOLEAN);
+    columns.getColumn('nested').dataType.should.be.equal(GeoPackageDataType.TEXT);
+
+    var row = featureDao.queryForId(2);
+    row.getValueWithColumnName('_feature_id').should.be.equal('feature1');
+    row.getValueWithColumnName('value').should.be.equal(1.5);
+    JSON.parse(row.getValueWithColumnName('nested')).index.should.be.equal(1);
+
+    var contents = geopackage.contentsDao.queryForId('imported');
+    contents.min_x.should.be.equal(0);
+    contents.max_x.should.be.equal(2.4);
+    contents.max_y.should.be.equal(1.2);
+  });
+
+  it('should add columns for properties first seen after the sample of an iterable', async function() {
+    var features = async function*() {
+      for (var i = 0; i < 20; i++) {
+        yield {
+          type: 'Feature',
+          geometry: i % 2 === 0 ? { type: 'LineString', coordinates: [[0, 0, 1], [i, i, 2]] } : null,
+          properties: i < 15 ? { name: 'line' } : { name: 'late line', late: i }
+        };
+      }
+    };
+    var inserted = await geopackage.importGeoJSON(features(), 'iterable', { sampleSize: 5, batchSize: 4 });
+    inserted.should.be.equal(20);
+    var featureDao = geopackage.getFeatureDao('iterable');
+    featureDao.geometryColumns.geometry_type_name.should.be.equal('LINESTRING');
+    featureDao.geometryColumns.z.should.be.equal(2);
+    featureDao.table.getUserColumns().getColumn('late').dataType.should.be.equal(GeoPackageDataType.INTEGER);
+    featureDao.queryForId(20).getValueWithColumnName('late').should.be.equal(19);
+    should.not.exist(featureDao.queryForId(1).getValueWithColumnName('late'));
+  });
+
+  it('should widen the columns and geometry type for features after the sample of an iterable', async function() {
+    var features = async function*() {
+      for (var i = 0; i < 12; i++) {
+        yield {
+          type: 'Feature',
+          geometry: i < 10 ? { type: 'Point', coordinates: [i, i] } : { type: 'LineString', coordinates: [[0, 0], [i, i]] },
+          properties: { count: i < 8 ? i : 'many', ratio: i < 9 ? i : i + 0.5 }
+        };
+      }
+    };
+    (await geopackage.importGeoJSON(features(), 'widened', { sampleSize: 5, batchSize: 3 })).should.be.equal(12);
+    var featureDao = geopackage.getFeatureDao('widened');
+    featureDao.geometryColumns.geometry_type_name.should.be.equal('GEOMETRY');
+    geopackage.geometryColumnsDao.queryForTableName('widened').geometry_type_name.should.be.equal('GEOMETRY');
+    featureDao.table.getGeometryColumn().getGeometryType().should.be.equal(GeometryType.GEOMETRY);
+    var columns = featureDao.table.getUserColumns();
+    columns.getColumn('count').dataType.should.be.equal(GeoPackageDataType.TEXT);
+    columns.getColumn('ratio').dataType.should.be.equal(GeoPackageDataType.REAL);
+    var reread = geopackage.getFeatureDao('widened');
+    reread.table.getUserColumns().getColumn('count').dataType.should.be.equal(GeoPackageDataType.TEXT);
+    reread.queryForId(9).getValueWithColumnName('count').should.be.equal('many');
+    reread.queryForId(12).getValueWithColumnName('ratio').should.be.equal(11.5);
+    reread.queryForId(12).getGeometryWkt().should.be.equal('LINESTRING(0 0,11 11)');
+  });
+
+  it('should import z envelopes and the m values of measures', async function() {
+    await geopackage.importGeoJSON([{
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: [[0, 0, 5], [1, 2, 8]], measures: [0, 1.5] },
+      properties: { name: 'measured' }
+    }], 'measured');
+    var featureDao = geopackage.getFeatureDao('measured');
+    featureDao.geometryColumns.z.should.be.equal(2);
+    featureDao.geometryColumns.m.should.be.equal(2);
+    var row = featureDao.queryForId(1);
+    row.getGeometryWkt().should.be.equal('LINESTRING ZM (0 0 5 0,1 2 8 1.5)');
+    row.geometry.envelope.minZ.should.be.equal(5);
+    row.geometry.envelope.maxZ.should.be.equal(8);
+    row.geometry.envelope.maxM.should.be.equal(1.5);
+    var features = Array.from(new GeoJSONExporter(geopackage).iterateFeatures('measured', { precision: 3 }));
+    features[0].geometry.measures.should.be.deep.equal([0, 1.5]);
+  });
+
+  it('should stream a GeoJSON file', async function() {
+    var filePath = path.join(__dirname, '..', '..', '..', 'fixtures', 'tmp', testSetup.createTempName() + '.geojson');
+    var fs = require('fs-extra');
+    await fs.writeFile(filePath, JSON.stringify(featureCollection(15)));
+    try {
+      var inserted = await geopackage.importGeoJSON(filePath, 'file', { srsId: 3857, index: true });
+      inserted.should.be.equal(15);
+      var featureDao = geopackage.getFeatureDao('file');
+      featureDao.srs.srs_id.should.be.equal(3857);
+      featureDao.isIndexed().should.be.equal(true);
+      featureDao.queryForId(15).getValueWithColumnName('name').should.be.equal('Feature 14');
+    } finally {
+      await fs.unlink(filePath);
+    }
+  });
+
+  it('should not import into an existing table', async function() {
+    await geopackage.importGeoJSON(featureCollection(1), 'existing');
+    try {
+      await new GeoJSONImporter(geopackage).importGeoJSON(featureCollection(1), 'existing');
+      should.fail();
+    } catch (e) {
+      e.message.should.be.equal('Table already exists: existing');
+    }
+  });
+
+  it('should delete the table when the import fails', async function() {
+    var features = async function*() {
+      for (var i = 0; i < 10; i++) {
+        yield featureCollection(i + 1).features[i];
+      }
+      throw new Error('Read failed');
+    };
+    try {
+      await geopackage.importGeoJSON(features(), 'failed', { sampleSize: 2, batchSize: 4 });
+      should.fail();
+    } catch (e) {
+      e.message.should.be.equal('Read failed');
+    }
+    geopackage.isTable('failed').should.be.equal(false);
+    geopackage.connection.isTableExists('failed').should.be.equal(false);
+    await geopackage.importGeoJSON(featureCollection(2), 'failed');
+    geopackage.getFeatureDao('failed').count().should.be.equal(2);
+  });
+
+  it('should read features split across chunks', function() {
+    var text = JSON.stringify(featureCollection(3));
+    var reader = new GeoJSONFeatureReader();
+    var features = [];
+    for (var i = 0; i < text.length; i += 7) {
+      features.push(...reader.push(text.substring(i, i + 7)));
+    }
+    reader.end();
+    features.length.should.be.equal(3);
+    features[2].properties.name.should.be.equal('Feature 2');
+  });
+});
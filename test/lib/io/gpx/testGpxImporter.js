@@ -0,0 +1,98 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var GpxReader = require('../../../../lib/io/gpx/gpxReader').GpxReader
+  , GeoPackageDataType = require('../../../../lib/db/geoPackageDataType').GeoPackageDataType
+  , path = require('path')
+  , should = require('chai').should();
+
+describe('GPX import tests', function() {
+  var testGeoPackage;
+  var geopackage;
+  var gpxFile = path.join(__dirname, '..', '..', '..', 'fixtures', 'gpx', 'survey.gpx');
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  var getRow = function(featureDao, where, whereArgs) {
+    var rows = featureDao.queryForAll(where, whereArgs);
+    rows.length.should.be.equal(1);
+    return featureDao.getRow(rows[0]);
+  };
+
+  it('should import waypoints, routes and track segments into separate tables', async function() {
+    var result = await geopackage.importGpx(gpxFile, 'survey', { index: true });
+    result.tableNames.should.be.deep.equal(['survey_waypoints', 'survey_routes', 'survey_tracks']);
+    result.waypoints.should.be.equal(2);
+    result.routes.should.be.equal(1);
+    result.trackSegments.should.be.equal(2);
+
+    var waypoints = geopackage.getFeatureDao('survey_waypoints');
+    waypoints.geometryColumns.geometry_type_name.should.be.equal('POINT');
+    waypoints.isIndexed().should.be.equal(true);
+    var columns = waypoints.table.getUserColumns();
+    columns.getColumn('time').dataType.should.be.equal(GeoPackageDataType.DATETIME);
+    columns.getColumn('elevation').dataType.should.be.equal(GeoPackageDataType.DOUBLE);
+    var camp = getRow(waypoints, 'name = ?', ['Camp']);
+    camp.getValueWithColumnName('description').should.be.equal('Base camp & supplies');
+    camp.getValueWithColumnName('symbol').should.be.equal('Campground');
+    camp.getValueWithColumnName('elevation').should.be.equal(18.5);
+    camp.getValueWithColumnName('time').should.be.equal('2020-05-01T14:30:00.000Z');
+    camp.geometry.geometry.z.should.be.equal(18.5);
+    var spring = getRow(waypoints, 'name = ?', ['Spring']);
+    spring.getValueWithColumnName('type').should.be.equal('Water');
+    should.not.exist(spring.getValueWithColumnName('elevation'));
+    spring.geometry.geometry.hasZ.should.be.equal(false);
+
+    var route = getRow(geopackage.getFeatureDao('survey_routes'), 'name = ?', ['Approach']);
+    route.getValueWithColumnName('number').should.be.equal(1);
+    route.geometry.geometry.points.length.should.be.equal(3);
+    route.geometry.geometry.points[2].z.should.be.equal(18.5);
+
+    var tracks = geopackage.getFeatureDao('survey_tracks');
+    tracks.geometryColumns.geometry_type_name.should.be.equal('LINESTRING');
+    var first = getRow(tracks, 'segment = ?', [0]);
+    first.getValueWithColumnName('name').should.be.equal('Morning walk');
+    first.getValueWithColumnName('source').should.be.equal('GPS');
+    first.geometry.geometry.hasZ.should.be.equal(true);
+    var second = getRow(tracks, 'segment = ?', [1]);
+    second.geometry.geometry.points.length.should.be.equal(3);
+    second.geometry.geometry.hasZ.should.be.equal(false);
+    second.getValueWithColumnName('start_time').should.be.equal('2020-05-01T08:20:00.000Z');
+    second.getValueWithColumnName('end_time').should.be.equal('2020-05-01T08:40:00.000Z');
+
+    var contents = geopackage.contentsDao.queryForId('survey_tracks');
+    contents.min_x.should.be.equal(-77.041);
+    contents.max_y.should.be.equal(38.901);
+  });
+
+  it('should only create tables for the features in the document', async function() {
+    var gpx = '<gpx version="1.0" xmlns="http://www.topografix.com/GPX/1/0">' +
+      '<wpt lat="1" lon="2"><name>a</name></wpt><wpt lat="3" lon="4"><name>b</name></wpt></gpx>';
+    var result = await geopackage.importGpx(Buffer.from(gpx), 'points', { batchSize: 1 });
+    result.tableNames.should.be.deep.equal(['points_waypoints']);
+    result.waypoints.should.be.equal(2);
+    geopackage.isTable('points_tracks').should.be.equal(false);
+  });
+
+  it('should not import into existing tables', async function() {
+    await geopackage.importGpx(gpxFile, 'survey');
+    try {
+      await geopackage.importGpx(gpxFile, 'survey');
+      should.fail();
+    } catch (e) {
+      e.message.should.be.equal('Table already exists: survey_waypoints');
+    }
+  });
+
+  it('should read GPX points', function() {
+    var data = new GpxReader().readDocument('<gpx><wpt lat="1.5" lon="2.5"><ele>3</ele></wpt><wpt lon="1"/></gpx>');
+    data.waypoints.should.be.deep.equal([{ longitude: 2.5, latitude: 1.5, elevation: 3 }]);
+  });
+});
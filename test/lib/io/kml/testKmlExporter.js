@@ -0,0 +1,93 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var KmlExporter = require('../../../../lib/io/kml/kmlExporter').KmlExporter
+  , JSZip = require('jszip')
+  , path = require('path')
+  , should = require('chai').should();
+
+describe('KML export tests', function() {
+  var testGeoPackage;
+  var geopackage;
+  var kmlDirectory = path.join(__dirname, '..', '..', '..', 'fixtures', 'kml');
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  var getRowByName = function(featureDao, name) {
+    var rows = featureDao.queryForAll('name = ?', [name]);
+    rows.length.should.be.equal(1);
+    return featureDao.getRow(rows[0]);
+  };
+
+  it('should export styles, icons and attributes to a KMZ', async function() {
+    await geopackage.importKml(path.join(kmlDirectory, 'styled.kmz'), 'survey');
+    var kmz = await geopackage.exportKmz('survey');
+    var zip = await JSZip.loadAsync(kmz);
+    should.exist(zip.file('doc.kml'));
+    zip.file(/^files\//).length.should.be.equal(1);
+
+    await geopackage.importKml(kmz, 'copy');
+    var featureDao = geopackage.getFeatureDao('copy');
+    featureDao.count().should.be.equal(4);
+    var site1 = getRowByName(featureDao, 'Site 1');
+    site1.getValueWithColumnName('_feature_id').should.be.equal('site1');
+    site1.getValueWithColumnName('description').should.be.equal('<b>First</b> site');
+    site1.getValueWithColumnName('count').should.be.equal(12);
+    site1.getValueWithColumnName('verified').should.be.equal(true);
+    getRowByName(featureDao, 'Site 2').geometry.geometry.z.should.be.equal(120);
+    getRowByName(featureDao, 'Area').geometry.geometry.interiorRings.length.should.be.equal(1);
+    getRowByName(featureDao, 'Route').geometry.geometry.lineStrings.length.should.be.equal(2);
+
+    var extension = geopackage.featureStyleExtension;
+    var site1Style = extension.getFeatureStyleForFeatureRow(site1);
+    site1Style.style.getHexColor().should.be.equal('#00FF00');
+    site1Style.icon.width.should.be.equal(144);
+    site1Style.icon.anchorU.should.be.equal(0.5);
+    site1Style.icon.anchorV.should.be.equal(1);
+    var areaStyle = extension.getFeatureStyleForFeatureRow(getRowByName(featureDao, 'Area')).style;
+    areaStyle.getHexColor().should.be.equal('#FF0000');
+    areaStyle.getWidth().should.be.equal(5);
+    areaStyle.getFillHexColor().should.be.equal('#0000FF');
+    areaStyle.getFillOpacity().should.be.equal(0.5);
+    var routeStyle = extension.getFeatureStyleForFeatureRow(getRowByName(featureDao, 'Route'));
+    should.not.exist(routeStyle.style);
+    should.not.exist(routeStyle.icon);
+  });
+
+  it('should export table default styles to a KML document', async function() {
+    var kml = '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>' +
+      '<Style id="red"><LineStyle><color>ff0000ff</color><width>2</width></LineStyle></Style>' +
+      '<Placemark><name>a</name><styleUrl>#red</styleUrl><LineString><coordinates>0,0 1,1</coordinates></LineString></Placemark>' +
+      '<Placemark><name>b</name><styleUrl>#red</styleUrl><LineString><coordinates>1,1 2,2</coordinates></LineString></Placemark>' +
+      '</Document></kml>';
+    await geopackage.importKml(Buffer.from(kml), 'lines');
+    var document = Array.from(geopackage.exportKml('lines')).join('');
+    document.match(/<Style id=/g).length.should.be.equal(1);
+    document.match(/<styleUrl>/g).length.should.be.equal(2);
+    document.should.contain('<LineStyle><color>ff0000ff</color><width>2</width></LineStyle>');
+
+    await geopackage.importKml(Buffer.from(document), 'copy');
+    geopackage.featureStyleExtension.getTableStyleDefault('copy').getHexColor().should.be.equal('#FF0000');
+  });
+
+  it('should export multiple tables without styles', async function() {
+    await geopackage.importKml(path.join(kmlDirectory, 'styled.kmz'), 'survey');
+    await geopackage.importKml(path.join(kmlDirectory, 'styled.kml'), 'survey2');
+    var document = Array.from(geopackage.exportKml(['survey', 'survey2'], { styles: false, name: 'Surveys' })).join('');
+    document.match(/<Folder>/g).length.should.be.equal(2);
+    document.match(/<Schema /g).length.should.be.equal(2);
+    document.should.contain('<name>Surveys</name>');
+    document.should.not.contain('<Style');
+  });
+
+  it('should convert colors to KML colors', function() {
+    KmlExporter.toKmlColor('#0080FF', 0.5).should.be.equal('80ff8000');
+  });
+});
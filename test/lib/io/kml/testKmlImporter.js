@@ -0,0 +1,182 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var KmlReader = require('../../../../lib/io/kml/kmlReader').KmlReader
+  , KmlImporter = require('../../../../lib/io/kml/kmlImporter').KmlImporter
+  , GeoPackageDataType = require('../../../../lib/db/geoPackageDataType').GeoPackageDataType
+  , path = require('path')
+  , fs = require('fs-extra')
+  , should = require('chai').should();
+
+describe('KML import tests', function() {
+  var testGeoPackage;
+  var geopackage;
+  var kmlDirectory = path.join(__dirname, '..', '..', '..', 'fixtures', 'kml');
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  var getRowByName = function(featureDao, name) {
+    var rows = featureDao.queryForAll('name = ?', [name]);
+    rows.length.should.be.equal(1);
+    return featureDao.getRow(rows[0]);
+  };
+
+  var verifyPlacemarks = function(tableName) {
+    var featureDao = geopackage.getFeatureDao(tableName);
+    featureDao.count().should.be.equal(4);
+    var columns = featureDao.table.getUserColumns();
+    columns.getColumn('count').dataType.should.be.equal(GeoPackageDataType.INTEGER);
+    columns.getColumn('verified').dataType.should.be.equal(GeoPackageDataType.BOOLEAN);
+    columns.getColumn('notes').dataType.should.be.equal(GeoPackageDataType.TEXT);
+
+    var site1 = getRowByName(featureDao, 'Site 1');
+    site1.getValueWithColumnName('_feature_id').should.be.equal('site1');
+    site1.getValueWithColumnName('description').should.be.equal('<b>First</b> site');
+    site1.getValueWithColumnName('count').should.be.equal(12);
+    site1.getValueWithColumnName('verified').should.be.equal(true);
+    site1.geometry.geometry.hasZ.should.be.equal(false);
+    var site2 = getRowByName(featureDao, 'Site 2');
+    site2.getValueWithColumnName('notes').should.be.equal('Needs review');
+    site2.geometry.geometry.z.should.be.equal(120);
+
+    var area = getRowByName(featureDao, 'Area').geometry.geometry;
+    area.interiorRings.length.should.be.equal(1);
+    getRowByName(featureDao, 'Route').geometry.geometry.lineStrings.length.should.be.equal(2);
+    return featureDao;
+  };
+
+  it('should import a KMZ with styles and icons', async function() {
+    var inserted = await geopackage.importKml(path.join(kmlDirectory, 'styled.kmz'), 'survey');
+    inserted.should.be.equal(4);
+    var featureDao = verifyPlacemarks('survey');
+    var extension = geopackage.featureStyleExtension;
+    extension.has('survey').should.be.equal(true);
+
+    var site1Style = extension.getFeatureStyleForFeatureRow(getRowByName(featureDao, 'Site 1'));
+    site1Style.style.getHexColor().should.be.equal('#00FF00');
+    site1Style.style.getName().should.be.equal('site-normal');
+    var icon = site1Style.icon;
+    icon.contentType.should.be.equal('image/png');
+    icon.name.should.be.equal('icon.png');
+    icon.width.should.be.equal(144);
+    icon.height.should.be.equal(144);
+    icon.anchorU.should.be.equal(0.5);
+    icon.anchorV.should.be.equal(1);
+    icon.data.equals(await fs.readFile(path.join(__dirname, '..', '..', '..', 'fixtures', 'point.png'))).should.be.equal(true);
+    var site2Style = extension.getFeatureStyleForFeatureRow(getRowByName(featureDao, 'Site 2'));
+    site2Style.icon.id.should.be.equal(icon.id);
+    site2Style.style.id.should.be.equal(site1Style.style.id);
+
+    var areaStyle = extension.getFeatureStyleForFeatureRow(getRowByName(featureDao, 'Area')).style;
+    areaStyle.getHexColor().should.be.equal('#FF0000');
+    areaStyle.getWidth().should.be.equal(5);
+    areaStyle.getFillHexColor().should.be.equal('#0000FF');
+    areaStyle.getFillOpacity().should.be.equal(0.5);
+
+    var routeStyle = extension.getFeatureStyleForFeatureRow(getRowByName(featureDao, 'Route'));
+    should.not.exist(routeStyle.style);
+    should.not.exist(routeStyle.icon);
+  });
+
+  it('should import a KML file without icons that can not be read', async function() {
+    var inserted = await geopackage.importKml(path.join(kmlDirectory, 'styled.kml'), 'survey', { index: true });
+    inserted.should.be.equal(4);
+    var featureDao = verifyPlacemarks('survey');
+    featureDao.isIndexed().should.be.equal(true);
+    var site1Style = geopackage.featureStyleExtension.getFeatureStyleForFeatureRow(getRowByName(featureDao, 'Site 1'));
+    site1Style.style.getHexColor().should.be.equal('#00FF00');
+    should.not.exist(site1Style.icon);
+  });
+
+  it('should skip malformed icon hrefs and hrefs outside of a KMZ', async function() {
+    var JSZip = require('jszip');
+    var icon = await fs.readFile(path.join(__dirname, '..', '..', '..', 'fixtures', 'point.png'));
+    var kml = '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>' +
+      '<Style id="malformed"><IconStyle><Icon><href>icon%E0%A4%A.png</href></Icon></IconStyle></Style>' +
+      '<Style id="outside"><IconStyle><Icon><href>../../icon.png</href></Icon></IconStyle></Style>' +
+      '<Style id="inside"><IconStyle><Icon><href>../files/icon.png</href></Icon></IconStyle></Style>' +
+      '<Placemark><name>a</name><styleUrl>#malformed</styleUrl><Point><coordinates>0,0</coordinates></Point></Placemark>' +
+      '<Placemark><name>b</name><styleUrl>#outside</styleUrl><Point><coordinates>1,1</coordinates></Point></Placemark>' +
+      '<Placemark><name>c</name><styleUrl>#inside</styleUrl><Point><coordinates>2,2</coordinates></Point></Placemark>' +
+      '</Document></kml>';
+    var zip = new JSZip();
+    zip.file('kml/doc.kml', kml);
+    zip.file('files/icon.png', icon);
+    var kmz = await zip.generateAsync({ type: 'nodebuffer' });
+    (await geopackage.importKml(kmz, 'points')).should.be.equal(3);
+    var featureDao = geopackage.getFeatureDao('points');
+    var extension = geopackage.featureStyleExtension;
+    should.not.exist(extension.getFeatureStyleForFeatureRow(getRowByName(featureDao, 'a')).icon);
+    should.not.exist(extension.getFeatureStyleForFeatureRow(getRowByName(featureDao, 'b')).icon);
+    extension.getFeatureStyleForFeatureRow(getRowByName(featureDao, 'c')).icon.data.equals(icon).should.be.equal(true);
+    KmlImporter.getKmzPath('kml', '../files/icon%20a.png').should.be.equal('files/icon a.png');
+    should.not.exist(KmlImporter.getKmzPath('kml', '../../icon.png'));
+    KmlImporter.getKmzPath('.', '/icon.png').should.be.equal('icon.png');
+    should.not.exist(KmlImporter.getKmzPath('.', 'icon%E0%A4%A.png'));
+  });
+
+  it('should skip icon hrefs outside of the directory of a KML file', async function() {
+    var iconPath = path.join(__dirname, '..', '..', '..', 'fixtures', 'point.png');
+    var icon = await fs.readFile(iconPath);
+    var directory = await fs.mkdtemp(path.join(require('os').tmpdir(), 'kml-'));
+    try {
+      await fs.copy(iconPath, path.join(directory, 'icon.png'));
+      await fs.copy(iconPath, path.join(directory, 'doc', 'files', 'icon a.png'));
+      var kml = '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>' +
+        '<Style id="parent"><IconStyle><Icon><href>../icon.png</href></Icon></IconStyle></Style>' +
+        '<Style id="absolute"><IconStyle><Icon><href>' + iconPath + '</href></Icon></IconStyle></Style>' +
+        '<Style id="inside"><IconStyle><Icon><href>files/icon%20a.png</href></Icon></IconStyle></Style>' +
+        '<Placemark><name>a</name><styleUrl>#parent</styleUrl><Point><coordinates>0,0</coordinates></Point></Placemark>' +
+        '<Placemark><name>b</name><styleUrl>#absolute</styleUrl><Point><coordinates>1,1</coordinates></Point></Placemark>' +
+        '<Placemark><name>c</name><styleUrl>#inside</styleUrl><Point><coordinates>2,2</coordinates></Point></Placemark>' +
+        '</Document></kml>';
+      await fs.writeFile(path.join(directory, 'doc', 'doc.kml'), kml);
+      (await geopackage.importKml(path.join(directory, 'doc', 'doc.kml'), 'points')).should.be.equal(3);
+      var featureDao = geopackage.getFeatureDao('points');
+      var extension = geopackage.featureStyleExtension;
+      should.not.exist(extension.getFeatureStyleForFeatureRow(getRowByName(featureDao, 'a')).icon);
+      should.not.exist(extension.getFeatureStyleForFeatureRow(getRowByName(featureDao, 'b')).icon);
+      extension.getFeatureStyleForFeatureRow(getRowByName(featureDao, 'c')).icon.data.equals(icon).should.be.equal(true);
+    } finally {
+      await fs.remove(directory);
+    }
+    KmlImporter.getFilePath('/data/kml', 'files/icon%20a.png').should.be.equal(path.resolve('/data/kml/files/icon a.png'));
+    should.not.exist(KmlImporter.getFilePath('/data/kml', '../icon.png'));
+    should.not.exist(KmlImporter.getFilePath('/data/kml', '/etc/passwd'));
+    should.not.exist(KmlImporter.getFilePath('/data/kml', 'icon%E0%A4%A.png'));
+  });
+
+  it('should set a style shared by all placemarks as the table default', async function() {
+    var kml = '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>' +
+      '<Style id="red"><LineStyle><color>ff0000ff</color><width>2</width></LineStyle></Style>' +
+      '<Placemark><name>a</name><styleUrl>#red</styleUrl><LineString><coordinates>0,0 1,1</coordinates></LineString></Placemark>' +
+      '<Placemark><name>b</name><styleUrl>#red</styleUrl><LineString><coordinates>1,1 2,2</coordinates></LineString></Placemark>' +
+      '</Document></kml>';
+    (await geopackage.importKml(Buffer.from(kml), 'lines')).should.be.equal(2);
+    var extension = geopackage.featureStyleExtension;
+    var tableStyle = extension.getTableStyleDefault('lines');
+    tableStyle.getHexColor().should.be.equal('#FF0000');
+    tableStyle.getWidth().should.be.equal(2);
+    extension.hasStyleRelationship('lines').should.be.equal(false);
+    var row = geopackage.getFeatureDao('lines').queryForId(1);
+    extension.getFeatureStyleForFeatureRow(row).style.id.should.be.equal(tableStyle.id);
+  });
+
+  it('should import without styles', async function() {
+    await geopackage.importKml(path.join(kmlDirectory, 'styled.kmz'), 'survey', { styles: false });
+    verifyPlacemarks('survey');
+    geopackage.featureStyleExtension.has('survey').should.be.equal(false);
+  });
+
+  it('should convert KML colors', function() {
+    KmlReader.parseColor('7fff8000').should.be.deep.equal({ color: '#0080FF', opacity: 0.5 });
+    should.not.exist(KmlReader.parseColor('red'));
+  });
+});
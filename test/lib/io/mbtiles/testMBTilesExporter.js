@@ -0,0 +1,91 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var Db = require('../../../../lib/db/db').Db
+  , path = require('path')
+  , os = require('os')
+  , fs = require('fs-extra')
+  , should = require('chai').should();
+
+describe('MBTiles export tests', function() {
+  var testGeoPackage;
+  var geopackage;
+  var exportFile;
+  var mbtilesFile = path.join(__dirname, '..', '..', '..', 'fixtures', 'mbtiles', 'northwest.mbtiles');
+  var tilesDirectory = path.join(__dirname, '..', '..', '..', 'fixtures', 'tiles');
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+    await geopackage.importMBTiles(mbtilesFile, 'northwest');
+    exportFile = path.join(os.tmpdir(), 'northwest_' + Date.now() + '.mbtiles');
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+    await fs.remove(exportFile);
+  });
+
+  it('should export a web mercator tile table with TMS rows', async function() {
+    var written = await geopackage.exportMBTiles('northwest', exportFile);
+    written.should.be.equal(5);
+
+    var adapter = Db.create(exportFile);
+    await adapter.initialize();
+    try {
+      var metadata = {};
+      adapter.all('SELECT name, value FROM metadata').forEach(function(row) {
+        metadata[row.name] = row.value;
+      });
+      metadata.name.should.be.equal('northwest');
+      metadata.description.should.be.equal('Northwest quadrant of the world');
+      metadata.format.should.be.equal('png');
+      metadata.minzoom.should.be.equal('1');
+      metadata.maxzoom.should.be.equal('2');
+      var bounds = metadata.bounds.split(',').map(parseFloat);
+      bounds[0].should.be.closeTo(-180, 0.0001);
+      bounds[1].should.be.closeTo(0, 0.0001);
+      bounds[2].should.be.closeTo(0, 0.0001);
+      bounds[3].should.be.closeTo(85.0511, 0.0001);
+      metadata.center.split(',').length.should.be.equal(3);
+
+      // row 0 of zoom 2 counted from the north is row 3 counted from the south
+      var tile = adapter.get('SELECT tile_data FROM tiles WHERE zoom_level = 2 AND tile_column = 1 AND tile_row = 3');
+      Buffer.from(tile.tile_data)
+        .equals(await fs.readFile(path.join(tilesDirectory, '2', '1', '0.png')))
+        .should.be.equal(true);
+      adapter.get('SELECT COUNT(*) AS count FROM tiles').count.should.be.equal(5);
+    } finally {
+      adapter.close();
+    }
+  });
+
+  it('should export the zoom levels within the range', async function() {
+    var progress = [];
+    var written = await geopackage.exportMBTiles('northwest', exportFile, {
+      minZoom: 2,
+      maxZoom: 2,
+      progress: function(count) {
+        progress.push(count);
+      },
+    });
+    written.should.be.equal(4);
+    await new Promise(resolve => setTimeout(resolve));
+    progress[progress.length - 1].should.be.equal(4);
+
+    var inserted = await geopackage.importMBTiles(exportFile, 'reimported');
+    inserted.should.be.equal(4);
+    var tile = geopackage.getTileFromTable('reimported', 2, 1, 0);
+    tile.tileData.equals(await fs.readFile(path.join(tilesDirectory, '2', '0', '1.png'))).should.be.equal(true);
+  });
+
+  it('should not overwrite an existing file', async function() {
+    await fs.writeFile(exportFile, '');
+    try {
+      await geopackage.exportMBTiles('northwest', exportFile);
+      should.fail();
+    } catch (e) {
+      e.message.should.contain('File already exists');
+    }
+  });
+});
@@ -0,0 +1,71 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var Metadata = require('../../../../lib/metadata/metadata').Metadata
+  , path = require('path')
+  , fs = require('fs-extra')
+  , should = require('chai').should();
+
+describe('MBTiles import tests', function() {
+  var testGeoPackage;
+  var geopackage;
+  var mbtilesFile = path.join(__dirname, '..', '..', '..', 'fixtures', 'mbtiles', 'northwest.mbtiles');
+  var tilesDirectory = path.join(__dirname, '..', '..', '..', 'fixtures', 'tiles');
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  it('should import tiles within the MBTiles bounds', async function() {
+    var inserted = await geopackage.importMBTiles(mbtilesFile, 'northwest');
+    inserted.should.be.equal(5);
+
+    var tileDao = geopackage.getTileDao('northwest');
+    tileDao.minZoom.should.be.equal(1);
+    tileDao.maxZoom.should.be.equal(2);
+    var tileMatrixSet = tileDao.tileMatrixSet;
+    tileMatrixSet.min_x.should.be.closeTo(-20037508.342789244, 0.001);
+    tileMatrixSet.max_x.should.be.closeTo(0, 0.001);
+    tileMatrixSet.min_y.should.be.closeTo(0, 0.001);
+    tileMatrixSet.max_y.should.be.closeTo(20037508.342789244, 0.001);
+    var tileMatrix = tileDao.getTileMatrixWithZoomLevel(2);
+    tileMatrix.matrix_width.should.be.equal(2);
+    tileMatrix.matrix_height.should.be.equal(2);
+
+    // TMS rows are flipped to rows counted from the north
+    var tile = geopackage.getTileFromTable('northwest', 2, 0, 1);
+    tile.tileData.equals(await fs.readFile(path.join(tilesDirectory, '2', '1', '0.png'))).should.be.equal(true);
+    tile = geopackage.getTileFromTable('northwest', 1, 0, 0);
+    tile.tileData.equals(await fs.readFile(path.join(tilesDirectory, '1', '0', '0.png'))).should.be.equal(true);
+
+    var contents = geopackage.contentsDao.queryForId('northwest');
+    contents.description.should.be.equal('Northwest quadrant of the world');
+    var metadata = geopackage.metadataDao.queryForAll();
+    metadata.length.should.be.equal(1);
+    metadata[0].md_scope.should.be.equal(Metadata.DATASET);
+    JSON.parse(metadata[0].metadata).format.should.be.equal('png');
+    var references = geopackage.metadataReferenceDao.queryForAll();
+    references.length.should.be.equal(1);
+    references[0].table_name.should.be.equal('northwest');
+  });
+
+  it('should import the contents of an MBTiles file without metadata', async function() {
+    var inserted = await geopackage.importMBTiles(await fs.readFile(mbtilesFile), 'northwest', { metadata: false });
+    inserted.should.be.equal(5);
+    geopackage.isTable('gpkg_metadata').should.be.equal(false);
+  });
+
+  it('should not import a missing file', async function() {
+    try {
+      await geopackage.importMBTiles(path.join(tilesDirectory, 'missing.mbtiles'), 'missing');
+      should.fail();
+    } catch (e) {
+      e.message.should.contain('MBTiles file does not exist');
+    }
+  });
+});
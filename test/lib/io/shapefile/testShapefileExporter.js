@@ -0,0 +1,138 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var ShapefileExporter = require('../../../../lib/io/shapefile/shapefileExporter').ShapefileExporter
+  , ShapefileReader = require('../../../../lib/io/shapefile/shapefileReader').ShapefileReader
+  , ShapeType = require('../../../../lib/io/shapefile/shapefileReader').ShapeType
+  , DbfReader = require('../../../../lib/io/shapefile/dbfReader').DbfReader
+  , JSZip = require('jszip')
+  , path = require('path')
+  , should = require('chai').should();
+
+describe('Shapefile export tests', function() {
+  var testGeoPackage;
+  var geopackage;
+  var shapefileDirectory = path.join(__dirname, '..', '..', '..', 'fixtures', 'shapefile');
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  it('should export a Shapefile that imports to the same table', async function() {
+    await geopackage.importShapefile(path.join(shapefileDirectory, 'polygons.shp'), 'polygons');
+    var result = geopackage.exportShapefile('polygons');
+    result.skippedCount.should.be.equal(0);
+    result.layers.length.should.be.equal(1);
+    var layer = result.layers[0];
+    layer.name.should.be.equal('polygons');
+    layer.shapeType.should.be.equal(ShapeType.POLYGON);
+    layer.featureCount.should.be.equal(3);
+    layer.files.prj.should.have.string('UTM_Zone_18N');
+    layer.files.cpg.should.be.equal('UTF-8');
+
+    var reader = new ShapefileReader(layer.files.shp);
+    reader.envelope.minX.should.be.equal(500000);
+    reader.envelope.maxX.should.be.equal(700050);
+    (layer.files.shx.length).should.be.equal(100 + 3 * 8);
+
+    await geopackage.importShapefile(layer.files, 'reimported');
+    var original = geopackage.getFeatureDao('polygons');
+    var reimported = geopackage.getFeatureDao('reimported');
+    reimported.count().should.be.equal(3);
+    reimported.srs.organization_coordsys_id.should.be.equal(32618);
+    ['NAME', 'COUNT', 'AREA', 'ACTIVE', 'CREATED'].forEach(function(column) {
+      reimported.table.getColumnWithColumnName(column).dataType.should.be.equal(
+        original.table.getColumnWithColumnName(column).dataType,
+      );
+    });
+    for (var id = 1; id <= 3; id++) {
+      var originalRow = original.queryForId(id);
+      var row = reimported.queryForId(id);
+      ['NAME', 'COUNT', 'AREA', 'ACTIVE', 'CREATED'].forEach(function(column) {
+        should.equal(row.getValueWithColumnName(column), originalRow.getValueWithColumnName(column));
+      });
+      if (originalRow.geometry) {
+        row.geometry.geometry.toWkt().should.be.equal(originalRow.geometry.geometry.toWkt());
+      } else {
+        should.not.exist(row.geometry);
+      }
+    }
+  });
+
+  it('should export z and m values', async function() {
+    await geopackage.importShapefile(path.join(shapefileDirectory, 'lines_z.shp'), 'lines');
+    var layer = geopackage.exportShapefile('lines').layers[0];
+    layer.shapeType.should.be.equal(ShapeType.POLYLINEZ);
+    await geopackage.importShapefile(layer.files, 'reimported');
+    var original = geopackage.getFeatureDao('lines').queryForId(1).geometry.geometry;
+    var geometry = geopackage.getFeatureDao('reimported').queryForId(1).geometry.geometry;
+    geometry.hasZ.should.be.equal(true);
+    geometry.hasM.should.be.equal(true);
+    geometry.toWkt().should.be.equal(original.toWkt());
+  });
+
+  it('should split mixed geometries and map column names', async function() {
+    await geopackage.importGeoJSON(
+      [
+        {
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [1, 2] },
+          properties: { description_text: 'first point', description_code: 1 },
+        },
+        {
+          type: 'Feature',
+          geometry: { type: 'LineString', coordinates: [[0, 0], [1, 1]] },
+          properties: { description_text: 'line', description_code: 2 },
+        },
+        {
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [3, 4] },
+          properties: { description_text: 'second point', description_code: 3 },
+        },
+        {
+          type: 'Feature',
+          geometry: { type: 'GeometryCollection', geometries: [{ type: 'Point', coordinates: [5, 6] }] },
+          properties: { description_text: 'collection', description_code: 4 },
+        },
+      ],
+      'mixed',
+    );
+    var result = new ShapefileExporter(geopackage.getFeatureDao('mixed')).exportShapefile({
+      name: 'features',
+      columns: ['description_text', 'description_code'],
+    });
+    result.fieldNames.should.be.deep.equal({ description_text: 'descriptio', description_code: 'descript_1' });
+    result.skippedCount.should.be.equal(1);
+    result.layers.map(function(layer) {
+      return layer.name;
+    }).should.be.deep.equal(['features_point', 'features_line']);
+
+    var points = result.layers[0];
+    points.featureCount.should.be.equal(2);
+    var dbf = new DbfReader(points.files.dbf);
+    dbf.fields.map(function(field) {
+      return field.name;
+    }).should.be.deep.equal(['descriptio', 'descript_1']);
+    dbf.fields[0].length.should.be.equal('second point'.length);
+    var records = Array.from(dbf.records());
+    records[1].values.should.be.deep.equal({ descriptio: 'second point', descript_1: 3 });
+  });
+
+  it('should export a zip of Shapefiles', async function() {
+    await geopackage.importShapefile(path.join(shapefileDirectory, 'polygons.shp'), 'polygons');
+    var zip = await JSZip.loadAsync(await geopackage.exportShapefileZip('polygons', { name: 'export' }));
+    Object.keys(zip.files).sort().should.be.deep.equal([
+      'export.cpg',
+      'export.dbf',
+      'export.prj',
+      'export.shp',
+      'export.shx',
+    ]);
+    (await geopackage.importShapefile(await zip.generateAsync({ type: 'nodebuffer' }), 'zipped')).should.be.equal(3);
+  });
+});
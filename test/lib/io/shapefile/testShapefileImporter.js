@@ -0,0 +1,109 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var ShapefileImporter = require('../../../../lib/io/shapefile/shapefileImporter').ShapefileImporter
+  , GeoPackageDataType = require('../../../../lib/db/geoPackageDataType').GeoPackageDataType
+  , path = require('path')
+  , fs = require('fs-extra')
+  , should = require('chai').should();
+
+describe('Shapefile import tests', function() {
+  var testGeoPackage;
+  var geopackage;
+  var shapefileDirectory = path.join(__dirname, '..', '..', '..', 'fixtures', 'shapefile');
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  var verifyPolygons = function(tableName) {
+    var featureDao = geopackage.getFeatureDao(tableName);
+    featureDao.count().should.be.equal(3);
+    featureDao.srs.organization.should.be.equal('EPSG');
+    featureDao.srs.organization_coordsys_id.should.be.equal(32618);
+    featureDao.geometryColumns.geometry_type_name.should.be.equal('MULTIPOLYGON');
+
+    var columns = featureDao.table.getUserColumns();
+    columns.getPkColumnName().should.be.equal('fid');
+    columns.getColumn('NAME').dataType.should.be.equal(GeoPackageDataType.TEXT);
+    columns.getColumn('COUNT').dataType.should.be.equal(GeoPackageDataType.INTEGER);
+    columns.getColumn('AREA').dataType.should.be.equal(GeoPackageDataType.DOUBLE);
+    columns.getColumn('ACTIVE').dataType.should.be.equal(GeoPackageDataType.BOOLEAN);
+    columns.getColumn('CREATED').dataType.should.be.equal(GeoPackageDataType.DATE);
+
+    var row = featureDao.queryForId(1);
+    row.getValueWithColumnName('NAME').should.be.equal('Café');
+    row.getValueWithColumnName('COUNT').should.be.equal(12);
+    row.getValueWithColumnName('AREA').should.be.equal(9375.5);
+    row.getValueWithColumnName('ACTIVE').should.be.equal(true);
+    row.getValueWithColumnName('CREATED').should.be.equal('2021-03-15');
+    var polygon = row.geometry.geometry.polygons[0];
+    polygon.exteriorRing.length.should.be.equal(5);
+    polygon.interiorRings.length.should.be.equal(1);
+
+    featureDao.queryForId(2).geometry.geometry.polygons.length.should.be.equal(2);
+    var nullShape = featureDao.queryForId(3);
+    should.not.exist(nullShape.geometry);
+    should.not.exist(nullShape.getValueWithColumnName('COUNT'));
+
+    var contents = geopackage.contentsDao.queryForId(tableName);
+    contents.min_x.should.be.equal(500000);
+    contents.max_x.should.be.equal(700050);
+  };
+
+  it('should import a Shapefile', async function() {
+    var inserted = await geopackage.importShapefile(path.join(shapefileDirectory, 'polygons.shp'), 'polygons');
+    inserted.should.be.equal(3);
+    verifyPolygons('polygons');
+  });
+
+  it('should import a zipped Shapefile', async function() {
+    var zip = await fs.readFile(path.join(shapefileDirectory, 'polygons.zip'));
+    var inserted = await geopackage.importShapefile(zip, 'zipped');
+    inserted.should.be.equal(3);
+    verifyPolygons('zipped');
+  });
+
+  it('should import a layer of a zip with z and m values', async function() {
+    var progress = [];
+    var inserted = await geopackage.importShapefile(path.join(shapefileDirectory, 'polygons.zip'), 'lines', {
+      layerName: 'lines_z',
+      batchSize: 1,
+      index: true,
+      progress: function(featuresAdded) {
+        progress.push(featuresAdded);
+      }
+    });
+    inserted.should.be.equal(2);
+    await new Promise(resolve => setTimeout(resolve));
+    progress.should.be.deep.equal([1, 2]);
+    var featureDao = geopackage.getFeatureDao('lines');
+    featureDao.isIndexed().should.be.equal(true);
+    featureDao.srs.srs_id.should.be.equal(4326);
+    featureDao.geometryColumns.geometry_type_name.should.be.equal('MULTILINESTRING');
+    featureDao.geometryColumns.z.should.be.equal(1);
+    featureDao.geometryColumns.m.should.be.equal(2);
+    var point = featureDao.queryForId(1).geometry.geometry.lineStrings[0].points[1];
+    point.z.should.be.equal(20);
+    point.m.should.be.equal(2);
+    featureDao.queryForId(2).geometry.geometry.lineStrings.length.should.be.equal(2);
+  });
+
+  it('should resolve the prj to a spatial reference system', function() {
+    var importer = new ShapefileImporter(geopackage);
+    importer.resolveSrs(undefined).srs_id.should.be.equal(4326);
+    importer.resolveSrs('GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]').srs_id.should.be.equal(4326);
+    var custom = 'PROJCS["Custom_Lambert",GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Lambert_Conformal_Conic"],PARAMETER["False_Easting",0.0],PARAMETER["False_Northing",0.0],PARAMETER["Central_Meridian",-100.0],PARAMETER["Standard_Parallel_1",33.0],PARAMETER["Standard_Parallel_2",45.0],PARAMETER["Latitude_Of_Origin",39.0],UNIT["Meter",1.0]]';
+    var srs = importer.resolveSrs(custom);
+    srs.organization.should.be.equal(ShapefileImporter.CUSTOM_ORGANIZATION);
+    srs.srs_name.should.be.equal('Custom_Lambert');
+    srs.srs_id.should.be.at.least(ShapefileImporter.CUSTOM_SRS_ID_START);
+    should.exist(srs.projection);
+    importer.resolveSrs(custom).srs_id.should.be.equal(srs.srs_id);
+  });
+});
@@ -0,0 +1,73 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var TileScheme = require('../../../../lib/io/tiledirectory/tileDirectoryImporter').TileScheme
+  , path = require('path')
+  , os = require('os')
+  , fs = require('fs-extra')
+  , should = require('chai').should();
+
+describe('Tile directory import and export tests', function() {
+  var testGeoPackage;
+  var geopackage;
+  var exportDirectory;
+  var tilesDirectory = path.join(__dirname, '..', '..', '..', 'fixtures', 'tiles');
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+    exportDirectory = path.join(os.tmpdir(), 'tiles_' + Date.now());
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+    await fs.remove(exportDirectory);
+  });
+
+  it('should import an XYZ tile directory', async function() {
+    var progress = [];
+    var inserted = await geopackage.importTileDirectory(tilesDirectory, 'xyz', {
+      maxZoom: 2,
+      batchSize: 10,
+      progress: function(count) {
+        progress.push(count);
+      },
+    });
+    inserted.should.be.equal(21);
+    await new Promise(resolve => setTimeout(resolve));
+    progress.should.be.deep.equal([10, 20, 21]);
+
+    var tileDao = geopackage.getTileDao('xyz');
+    tileDao.minZoom.should.be.equal(0);
+    tileDao.maxZoom.should.be.equal(2);
+    tileDao.tileMatrixSet.min_x.should.be.closeTo(-20037508.342789244, 0.001);
+    tileDao.tileMatrixSet.max_y.should.be.closeTo(20037508.342789244, 0.001);
+    var tile = geopackage.getTileFromTable('xyz', 2, 3, 1);
+    tile.tileData.equals(await fs.readFile(path.join(tilesDirectory, '2', '1', '3.png'))).should.be.equal(true);
+  });
+
+  it('should export and import a TMS tile directory', async function() {
+    await geopackage.importTileDirectory(tilesDirectory, 'xyz', { minZoom: 1, maxZoom: 2 });
+    var written = await geopackage.exportTileDirectory('xyz', exportDirectory, { scheme: TileScheme.TMS, minZoom: 2 });
+    written.should.be.equal(16);
+    (await fs.pathExists(path.join(exportDirectory, '1'))).should.be.equal(false);
+    // row 0 of zoom 2 counted from the north is row 3 counted from the south
+    (await fs.readFile(path.join(exportDirectory, '2', '1', '3.png')))
+      .equals(await fs.readFile(path.join(tilesDirectory, '2', '1', '0.png')))
+      .should.be.equal(true);
+
+    var inserted = await geopackage.importTileDirectory(exportDirectory, 'tms', { scheme: TileScheme.TMS });
+    inserted.should.be.equal(16);
+    var tile = geopackage.getTileFromTable('tms', 2, 0, 1);
+    tile.tileData.equals(await fs.readFile(path.join(tilesDirectory, '2', '1', '0.png'))).should.be.equal(true);
+  });
+
+  it('should not import a missing directory', async function() {
+    try {
+      await geopackage.importTileDirectory(path.join(tilesDirectory, 'missing'), 'missing');
+      should.fail();
+    } catch (e) {
+      e.message.should.contain('Tile directory does not exist');
+    }
+  });
+});
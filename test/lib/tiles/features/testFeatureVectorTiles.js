@@ -0,0 +1,222 @@
+import { default as testSetup } from '../../../fixtures/testSetup'
+
+var FeatureVectorTiles = require('../../../../lib/tiles/features/featureVectorTiles').FeatureVectorTiles
+  , VectorTileGeometryType = require('../../../../lib/tiles/features/featureVectorTiles').VectorTileGeometryType
+  , should = require('chai').should();
+
+describe('GeoPackage FeatureVectorTiles tests', function() {
+  var testGeoPackage;
+  var geopackage;
+
+  var features = [
+    {
+      type: 'Feature',
+      properties: { name: 'point', count: 3 },
+      geometry: { type: 'Point', coordinates: [10, 10] },
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'line', count: -2 },
+      geometry: { type: 'LineString', coordinates: [[-10, 5], [10, 5]] },
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'polygon', count: 1.5 },
+      geometry: { type: 'Polygon', coordinates: [[[1, 1], [20, 1], [20, 20], [1, 20], [1, 1]]] },
+    },
+  ];
+
+  // reads the fields of a protocol buffer message
+  var readFields = function(buffer, fieldFunction) {
+    var position = 0;
+    var readVarint = function() {
+      var value = 0;
+      var multiplier = 1;
+      var byte;
+      do {
+        byte = buffer[position++];
+        value += (byte & 0x7f) * multiplier;
+        multiplier *= 128;
+      } while (byte & 0x80);
+      return value;
+    };
+    while (position < buffer.length) {
+      var key = readVarint();
+      var type = key & 0x7;
+      if (type === 0) {
+        fieldFunction(key >> 3, readVarint());
+      } else if (type === 1) {
+        fieldFunction(key >> 3, buffer.readDoubleLE(position));
+        position += 8;
+      } else if (type === 2) {
+        var length = readVarint();
+        fieldFunction(key >> 3, buffer.slice(position, position + length));
+        position += length;
+      } else {
+        fieldFunction(key >> 3, buffer.readFloatLE(position));
+        position += 4;
+      }
+    }
+  };
+
+  var readPacked = function(buffer) {
+    var values = [];
+    var value = 0;
+    var multiplier = 1;
+    for (var i = 0; i < buffer.length; i++) {
+      value += (buffer[i] & 0x7f) * multiplier;
+      multiplier *= 128;
+      if (!(buffer[i] & 0x80)) {
+        values.push(value);
+        value = 0;
+        multiplier = 1;
+      }
+    }
+    return values;
+  };
+
+  var decodeTile = function(buffer) {
+    var layers = [];
+    readFields(buffer, function(tag, layerBuffer) {
+      var layer = { features: [], keys: [], values: [] };
+      readFields(layerBuffer, function(tag, value) {
+        if (tag === 15) {
+          layer.version = value;
+        } else if (tag === 1) {
+          layer.name = value.toString();
+        } else if (tag === 2) {
+          var feature = {};
+          readFields(value, function(tag, featureValue) {
+            if (tag === 1) feature.id = featureValue;
+            if (tag === 2) feature.tags = readPacked(featureValue);
+            if (tag === 3) feature.type = featureValue;
+            if (tag === 4) feature.geometry = readPacked(featureValue);
+          });
+          layer.features.push(feature);
+        } else if (tag === 3) {
+          layer.keys.push(value.toString());
+        } else if (tag === 4) {
+          readFields(value, function(tag, valueValue) {
+            if (tag === 1) layer.values.push(valueValue.toString());
+            else if (tag === 6) layer.values.push((valueValue >> 1) ^ -(valueValue & 1));
+            else if (tag === 7) layer.values.push(valueValue === 1);
+            else layer.values.push(valueValue);
+          });
+        } else if (tag === 5) {
+          layer.extent = value;
+        }
+      });
+      layer.features.forEach(function(feature) {
+        feature.properties = {};
+        for (var i = 0; i < feature.tags.length; i += 2) {
+          feature.properties[layer.keys[feature.tags[i]]] = layer.values[feature.tags[i + 1]];
+        }
+      });
+      layers.push(layer);
+    });
+    return layers;
+  };
+
+  var decodeGeometry = function(commands) {
+    var parts = [];
+    var part;
+    var x = 0;
+    var y = 0;
+    var i = 0;
+    while (i < commands.length) {
+      var id = commands[i] & 0x7;
+      var count = commands[i] >> 3;
+      i++;
+      if (id === 7) {
+        continue;
+      }
+      for (var j = 0; j < count; j++) {
+        x += (commands[i] >> 1) ^ -(commands[i] & 1);
+        y += (commands[i + 1] >> 1) ^ -(commands[i + 1] & 1);
+        i += 2;
+        if (id === 1) {
+          part = [];
+          parts.push(part);
+        }
+        part.push([x, y]);
+      }
+    }
+    return parts;
+  };
+
+  var getFeature = function(layer, name) {
+    return layer.features.filter(function(feature) {
+      return feature.properties.name === name;
+    })[0];
+  };
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  it('should encode clipped features with attributes', async function() {
+    await geopackage.importGeoJSON({ type: 'FeatureCollection', features: features }, 'vector');
+    var layers = decodeTile(geopackage.getFeatureVectorTileFromXYZ('vector', 1, 0, 1));
+    layers.length.should.be.equal(1);
+    var layer = layers[0];
+    layer.name.should.be.equal('vector');
+    layer.version.should.be.equal(2);
+    layer.extent.should.be.equal(4096);
+    layer.features.length.should.be.equal(3);
+
+    var point = getFeature(layer, 'point');
+    point.type.should.be.equal(VectorTileGeometryType.POINT);
+    point.properties.count.should.be.equal(3);
+    should.exist(point.id);
+    decodeGeometry(point.geometry).should.be.deep.equal([[[228, 3867]]]);
+
+    // the line is clipped to the buffer west of the tile
+    var line = getFeature(layer, 'line');
+    line.type.should.be.equal(VectorTileGeometryType.LINESTRING);
+    line.properties.count.should.be.equal(-2);
+    var lineParts = decodeGeometry(line.geometry);
+    lineParts.length.should.be.equal(1);
+    lineParts[0][0][0].should.be.equal(-64);
+    lineParts[0][1][0].should.be.equal(228);
+
+    // exterior rings are clockwise in tile coordinates
+    var polygon = getFeature(layer, 'polygon');
+    polygon.type.should.be.equal(VectorTileGeometryType.POLYGON);
+    polygon.properties.count.should.be.equal(1.5);
+    var ring = decodeGeometry(polygon.geometry)[0];
+    ring.length.should.be.equal(4);
+    FeatureVectorTiles.getArea(ring).should.be.greaterThan(0);
+  });
+
+  it('should encode the features of an indexed table', async function() {
+    await geopackage.importGeoJSON(features, 'vector', { index: true });
+    var featureDao = geopackage.getFeatureDao('vector');
+    featureDao.isIndexed().should.be.equal(true);
+    var vectorTiles = new FeatureVectorTiles(featureDao);
+    vectorTiles.layerName = 'layer';
+    vectorTiles.columns = ['name'];
+    var layer = decodeTile(vectorTiles.getTile(2, 1, 2))[0];
+    layer.name.should.be.equal('layer');
+    layer.keys.should.be.deep.equal(['name']);
+    layer.features.length.should.be.equal(3);
+
+    // no features are in the southwest corner of the world
+    vectorTiles.getTile(0, 3, 2).length.should.be.equal(0);
+  });
+
+  it('should clip lines and rings to a square', function() {
+    FeatureVectorTiles.clipLine([[-10, 5], [5, 5], [5, 20], [8, 8]], 0, 10).should.be.deep.equal([
+      [[0, 5], [5, 5], [5, 10]],
+      [[7.5, 10], [8, 8]],
+    ]);
+    var ring = FeatureVectorTiles.clipRing([[-5, -5], [15, -5], [15, 15], [-5, 15]], 0, 10);
+    ring.length.should.be.equal(4);
+    Math.abs(FeatureVectorTiles.getArea(ring)).should.be.equal(200);
+  });
+});
@@ -0,0 +1,169 @@
+import { default as testSetup } from '../../fixtures/testSetup'
+
+var FeatureColumn = require('../../../lib/features/user/featureColumn').FeatureColumn
+  , GeoPackageDataType = require('../../../lib/db/geoPackageDataType').GeoPackageDataType
+  , GeometryType = require('../../../lib/features/user/geometryType').GeometryType
+  , BoundingBox = require('../../../lib/boundingBox').BoundingBox
+  , SetupFeatureTable = require('../../fixtures/setupFeatureTable')
+  , should = require('chai').should();
+
+describe('UserQuery tests', function() {
+  var testGeoPackage;
+  var geopackage;
+  var featureDao;
+
+  var names = function(query) {
+    return query.rows().map(function(row) {
+      return row.getValueWithColumnName('name');
+    });
+  };
+
+  beforeEach(async function() {
+    testGeoPackage = await testSetup.createTmpGeoPackage();
+    geopackage = testGeoPackage.geopackage;
+    var geometryColumns = SetupFeatureTable.buildGeometryColumns('towns', 'geom', GeometryType.POINT);
+    geopackage.createFeatureTable('towns', geometryColumns, [
+      FeatureColumn.createPrimaryKeyColumn(0, 'id'),
+      FeatureColumn.createGeometryColumn(1, 'geom', GeometryType.POINT, false, null),
+      FeatureColumn.createColumn(2, 'name', GeoPackageDataType.TEXT, false, ''),
+      FeatureColumn.createColumn(3, 'region', GeoPackageDataType.TEXT, false, null),
+      FeatureColumn.createColumn(4, 'population', GeoPackageDataType.INTEGER, false, null),
+    ]);
+    featureDao = geopackage.getFeatureDao('towns');
+    [
+      ['Alton', 'north', 1200, 'POINT(1 1)'],
+      ['Bexley', 'north', 5400, 'POINT(2 2)'],
+      ['Crane', 'south', 300, 'POINT(10 10)'],
+      ['Dunmore', 'south', 8000, 'POINT(11 11)'],
+      ["Eve's Hollow", null, null, 'POINT(20 20)'],
+    ].forEach(function(town) {
+      var row = featureDao.newRow();
+      row.setValueWithColumnName('name', town[0]);
+      row.setValueWithColumnName('region', town[1]);
+      row.setValueWithColumnName('population', town[2]);
+      row.setGeometryWithWkt(town[3], 4326);
+      featureDao.create(row);
+    });
+  });
+
+  afterEach(async function() {
+    geopackage.close();
+    await testSetup.deleteGeoPackage(testGeoPackage.path);
+  });
+
+  it('should build a query with bound arguments', function() {
+    var query = featureDao
+      .query()
+      .select('name', 'population')
+      .where('region', '=', 'north')
+      .where('population', 'between', [1000, 6000])
+      .orderBy('population', 'desc')
+      .limit(10)
+      .offset(1)
+      .build();
+    query.sql.should.be.equal(
+      'select "name", "population" from "towns" where "region" = ? and "population" between ? and ? ' +
+        'order by "population" desc limit 10 offset 1',
+    );
+    query.args.should.be.deep.equal(['north', 1000, 6000]);
+  });
+
+  it('should query with where operators', function() {
+    names(featureDao.query().where('region', '=', 'north').orderBy('name')).should.be.deep.equal(['Alton', 'Bexley']);
+    names(featureDao.query().where('region', '!=', 'north')).should.be.deep.equal(['Crane', 'Dunmore']);
+    names(featureDao.query().where('population', '>=', 5400).orderBy('name')).should.be.deep.equal(['Bexley', 'Dunmore']);
+    names(featureDao.query().where('name', 'in', ['Crane', "Eve's Hollow"]).orderBy('name')).should.be.deep.equal([
+      'Crane',
+      "Eve's Hollow",
+    ]);
+    names(featureDao.query().where('name', 'not in', ['Crane', "Eve's Hollow"]).orderBy('name')).should.be.deep.equal([
+      'Alton',
+      'Bexley',
+      'Dunmore',
+    ]);
+    names(featureDao.query().where('population', 'not between', [1000, 6000]).orderBy('name')).should.be.deep.equal([
+      'Crane',
+      'Dunmore',
+    ]);
+    names(featureDao.query().where('name', 'like', "%'s%")).should.be.deep.equal(["Eve's Hollow"]);
+    names(featureDao.query().where('name', 'not like', '%e%').orderBy('name')).should.be.deep.equal(['Alton']);
+    names(featureDao.query().where('region', 'is null')).should.be.deep.equal(["Eve's Hollow"]);
+    featureDao.query().where('region', 'is not null').count().should.be.equal(4);
+    names(featureDao.query().orderBy('name', 'desc').limit(2).offset(1)).should.be.deep.equal(['Dunmore', 'Crane']);
+  });
+
+  it('should group by with aggregates', function() {
+    var results = featureDao
+      .query()
+      .select('region')
+      .aggregate('count', '*')
+      .aggregate('sum', 'population', 'total')
+      .aggregate('max', 'population')
+      .where('region', 'is not null')
+      .groupBy('region')
+      .orderBy('total', 'desc')
+      .all();
+    results.should.be.deep.equal([
+      { region: 'south', count: 2, total: 8300, max_population: 8000 },
+      { region: 'north', count: 2, total: 6600, max_population: 5400 },
+    ]);
+    featureDao.query().select('region').distinct().count().should.be.equal(3);
+    var iterated = [];
+    for (var result of featureDao.query().aggregate('avg', 'population', 'average').iterate()) {
+      iterated.push(result.average);
+    }
+    iterated.should.be.deep.equal([3725]);
+  });
+
+  it('should query with a bounding box', async function() {
+    var boundingBox = new BoundingBox(0, 5, 0, 5);
+    names(featureDao.query().whereBoundingBox(boundingBox).orderBy('name')).should.be.deep.equal(['Alton', 'Bexley']);
+    names(
+      featureDao
+        .query()
+        .whereBoundingBox(boundingBox.projectBoundingBox('EPSG:4326', 'EPSG:3857'), 'EPSG:3857')
+        .where('population', '>', 2000),
+    ).should.be.deep.equal(['Bexley']);
+    await featureDao.index();
+    featureDao.isIndexed().should.be.equal(true);
+    names(featureDao.query().whereBoundingBox(new BoundingBox(9, 21, 9, 21)).orderBy('name')).should.be.deep.equal([
+      'Crane',
+      'Dunmore',
+      "Eve's Hollow",
+    ]);
+  });
+
+  it('should validate columns, operators and values', function() {
+    (function() {
+      featureDao.query().where('name; drop table towns', '=', 'x');
+    }).should.throw('Column name; drop table towns does not exist in table towns');
+    (function() {
+      featureDao.query().select('nam');
+    }).should.throw('Column nam does not exist in table towns');
+    (function() {
+      featureDao.query().where('name', 'regexp', 'x');
+    }).should.throw('Unsupported operator: regexp');
+    (function() {
+      featureDao.query().where('name', 'in', []);
+    }).should.throw('The in operator requires an array of values');
+    (function() {
+      featureDao.query().where('population', 'between', [1]);
+    }).should.throw('The between operator requires an array of a lower and an upper value');
+    (function() {
+      featureDao.query().where('region', '=', null);
+    }).should.throw();
+    (function() {
+      featureDao.query().orderBy('name', 'sideways');
+    }).should.throw('Unsupported order by direction: sideways');
+    (function() {
+      featureDao.query().aggregate('sum', '*');
+    }).should.throw('Only count can aggregate all columns');
+    (function() {
+      featureDao.query().limit(-1);
+    }).should.throw();
+    (function() {
+      featureDao.query().offset(5).build();
+    }).should.throw('An offset requires a limit');
+    should.exist(featureDao.query().where('name', 'LIKE', 'A%').rows()[0]);
+  });
+});